@@ -468,7 +468,7 @@ BEGIN
     ) VALUES (
       NEW.user_id, NEW.id,
       COALESCE(NEW.business_name, NEW.first_name || ' ' || NEW.last_name) || ' - ' || NEW.loan_type::TEXT,
-      NEW.loan_type::TEXT, 'Heritage Business Funding',
+      NEW.loan_type::TEXT, 'Halo Business Finance',
       COALESCE(NEW.amount_requested, 0), COALESCE(NEW.amount_requested, 0),
       v_monthly_payment, v_interest_rate, v_term_months, v_term_months,
       CURRENT_DATE + (v_term_months || ' months')::INTERVAL, CURRENT_DATE,
@@ -0,0 +1,314 @@
+/**
+ * Pluggable bank account aggregation.
+ *
+ * The provider is chosen from the environment: BANK_AGGREGATION_PROVIDER=plaid|sandbox,
+ * or inferred from PLAID_CLIENT_ID, falling back to the local sandbox. Providers
+ * create link tokens, exchange the public token a borrower's Link session returns,
+ * and report balances and transaction changes in the shape record_bank_sync
+ * stores, with money in as positive amounts.
+ * Mirrors supabase/functions/_shared/bank-aggregation.ts.
+ */
+import { randomUUID } from 'node:crypto';
+
+// 12 months of history is requested at link time
+export const HISTORY_DAYS = 365;
+
+// Pages per sync; anything left over is picked up by the next scheduled run
+const MAX_SYNC_PAGES = 20;
+
+const isoDate = (date) => date.toISOString().slice(0, 10);
+
+const titleCase = (value) => value.replace(/\b\w/g, (c) => c.toUpperCase());
+
+const ACCOUNT_TYPES = {
+  checking: 'Checking',
+  savings: 'Savings',
+  'money market': 'Money Market',
+  cd: 'CD',
+  'credit card': 'Credit Card',
+};
+
+function parsePlaidTransaction(t) {
+  return {
+    account_external_id: t.account_id,
+    external_id: t.transaction_id,
+    posted_on: t.date,
+    // Plaid reports outflows as positive amounts
+    amount: -t.amount,
+    currency: t.iso_currency_code ?? 'USD',
+    description: t.name,
+    merchant_name: t.merchant_name ?? null,
+    category: t.personal_finance_category?.primary?.toLowerCase() ?? null,
+    pending: t.pending,
+  };
+}
+
+class PlaidProvider {
+  provider = 'plaid';
+
+  constructor(clientId, secret, env) {
+    this.clientId = clientId;
+    this.secret = secret;
+    this.baseUrl = `https://${env}.plaid.com`;
+  }
+
+  async call(path, body) {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ client_id: this.clientId, secret: this.secret, ...body }),
+    });
+    const result = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(result?.error_message || `Plaid returned HTTP ${response.status}`);
+    }
+    return result;
+  }
+
+  async createLinkToken(userId) {
+    const result = await this.call('/link/token/create', {
+      client_name: process.env.PLAID_CLIENT_NAME || 'Halo Business Finance',
+      user: { client_user_id: userId },
+      products: ['transactions'],
+      transactions: { days_requested: HISTORY_DAYS },
+      country_codes: ['US'],
+      language: 'en',
+    });
+    return { provider: this.provider, linkToken: result.link_token, expiration: result.expiration };
+  }
+
+  async exchangePublicToken(publicToken) {
+    const result = await this.call('/item/public_token/exchange', { public_token: publicToken });
+    return { accessToken: result.access_token, itemId: result.item_id };
+  }
+
+  async getAccounts(accessToken) {
+    const result = await this.call('/accounts/balance/get', { access_token: accessToken });
+    return result.accounts.map((a) => ({
+      external_id: a.account_id,
+      account_name: a.official_name || a.name,
+      mask: a.mask ?? null,
+      account_type: ACCOUNT_TYPES[a.subtype ?? ''] ?? titleCase(a.subtype || a.type),
+      balance: a.balances.current,
+      available_balance: a.balances.available,
+      currency: a.balances.iso_currency_code ?? 'USD',
+    }));
+  }
+
+  async syncTransactions(accessToken, cursor) {
+    const result = await this.call('/transactions/sync', { access_token: accessToken, cursor: cursor ?? undefined, count: 500 });
+    return {
+      added: [...result.added, ...result.modified].map(parsePlaidTransaction),
+      removed: result.removed.map((r) => r.transaction_id),
+      nextCursor: result.next_cursor,
+      hasMore: result.has_more,
+    };
+  }
+
+  async removeItem(accessToken) {
+    await this.call('/item/remove', { access_token: accessToken });
+  }
+}
+
+// Plaid's sandbox institutions, so sandbox data lines up with Plaid's test banks
+export const SANDBOX_INSTITUTIONS = [
+  { id: 'ins_109508', name: 'First Platypus Bank' },
+  { id: 'ins_109511', name: 'Tattersall Federal Credit Union' },
+  { id: 'ins_109512', name: 'Houndstooth Bank' },
+];
+
+// [description, merchant, category, min, max]; amounts in dollars, negative for money out
+const SANDBOX_DEPOSITS = [
+  ['CUSTOMER PAYMENT ACH', null, 'income', 800, 6500],
+  ['STRIPE TRANSFER', 'Stripe', 'income', 300, 4200],
+  ['MOBILE CHECK DEPOSIT', null, 'income', 150, 2500],
+];
+
+const SANDBOX_SPENDING = [
+  ['AMAZON MKTPLACE', 'Amazon', 'general_merchandise', -15, -450],
+  ['SHELL OIL', 'Shell', 'transportation', -30, -120],
+  ['STAPLES', 'Staples', 'general_merchandise', -20, -300],
+  ['COSTCO WHSE', 'Costco', 'general_merchandise', -60, -900],
+  ['UBER TRIP', 'Uber', 'transportation', -12, -65],
+  ['SQ *CORNER CAFE', 'Corner Cafe', 'food_and_drink', -8, -60],
+];
+
+const SANDBOX_MONTHLY = [
+  ['OFFICE LEASE PAYMENT', null, 'rent_and_utilities', -1800, -1800],
+  ['PACIFIC GAS & ELECTRIC', 'PG&E', 'rent_and_utilities', -140, -420],
+  ['GUSTO PAYROLL', 'Gusto', 'general_services', -4500, -9000],
+  ['SBA LOAN PMT', null, 'loan_payments', -950, -950],
+];
+
+// Deterministic pseudo-random numbers so every sync of a sandbox item agrees
+function seededRandom(seed) {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+  }
+  return () => {
+    h = Math.imul(h ^ (h >>> 15), h | 1);
+    h ^= h + Math.imul(h ^ (h >>> 7), h | 61);
+    return ((h ^ (h >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const sandboxAmount = (random, [, , , min, max]) => Math.round((min + random() * (max - min)) * 100) / 100;
+
+// Generates a linked bank with a checking and a savings account and a year of
+// plausible activity; nothing leaves the server. The cursor is the last settled day.
+class SandboxProvider {
+  provider = 'sandbox';
+
+  async createLinkToken(userId) {
+    return {
+      provider: this.provider,
+      linkToken: `link-sandbox-${userId}`,
+      expiration: new Date(Date.now() + 4 * 3600 * 1000).toISOString(),
+      institutions: SANDBOX_INSTITUTIONS,
+    };
+  }
+
+  async exchangePublicToken(publicToken) {
+    const institutionId = publicToken.match(/^public-sandbox-(ins_\d+)$/)?.[1];
+    if (!institutionId || !SANDBOX_INSTITUTIONS.some((i) => i.id === institutionId)) {
+      throw new Error('Unknown sandbox public token');
+    }
+    const itemId = randomUUID();
+    return { accessToken: `access-sandbox-${institutionId}-${itemId}`, itemId: `item-sandbox-${itemId}` };
+  }
+
+  accountIds(accessToken) {
+    const suffix = accessToken.slice(-12);
+    return { checking: `acct-chk-${suffix}`, savings: `acct-sav-${suffix}` };
+  }
+
+  async getAccounts(accessToken) {
+    const random = seededRandom(accessToken);
+    const ids = this.accountIds(accessToken);
+    const checking = Math.round((8000 + random() * 60000) * 100) / 100;
+    const savings = Math.round((5000 + random() * 120000) * 100) / 100;
+    return [
+      {
+        external_id: ids.checking,
+        account_name: 'Sandbox Checking',
+        mask: String(Math.floor(random() * 10000)).padStart(4, '0'),
+        account_type: 'Checking',
+        balance: checking,
+        available_balance: Math.round((checking - random() * 500) * 100) / 100,
+        currency: 'USD',
+      },
+      {
+        external_id: ids.savings,
+        account_name: 'Sandbox Savings',
+        mask: String(Math.floor(random() * 10000)).padStart(4, '0'),
+        account_type: 'Savings',
+        balance: savings,
+        available_balance: savings,
+        currency: 'USD',
+      },
+    ];
+  }
+
+  async syncTransactions(accessToken, cursor) {
+    const ids = this.accountIds(accessToken);
+    const today = new Date();
+    const day = new Date(today);
+    if (cursor) {
+      day.setTime(new Date(`${cursor}T00:00:00Z`).getTime() + 24 * 3600 * 1000);
+    } else {
+      day.setUTCDate(day.getUTCDate() - HISTORY_DAYS);
+    }
+
+    const added = [];
+    const todayIso = isoDate(today);
+    for (; isoDate(day) <= todayIso; day.setUTCDate(day.getUTCDate() + 1)) {
+      const date = isoDate(day);
+      const random = seededRandom(`${accessToken}:${date}`);
+      const entries = [];
+      if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6 && random() < 0.45) {
+        entries.push(SANDBOX_DEPOSITS[Math.floor(random() * SANDBOX_DEPOSITS.length)]);
+      }
+      for (let n = Math.floor(random() * 3); n > 0; n--) {
+        entries.push(SANDBOX_SPENDING[Math.floor(random() * SANDBOX_SPENDING.length)]);
+      }
+      SANDBOX_MONTHLY.forEach((entry, i) => {
+        if (day.getUTCDate() === 1 + i * 7) entries.push(entry);
+      });
+
+      entries.forEach((entry, i) => {
+        added.push({
+          account_external_id: ids.checking,
+          external_id: `txn-${ids.checking}-${date}-${i}`,
+          posted_on: date,
+          amount: sandboxAmount(random, entry),
+          currency: 'USD',
+          description: entry[0],
+          merchant_name: entry[1],
+          category: entry[2],
+          // Today's activity settles on the next sync
+          pending: date === todayIso,
+        });
+      });
+      // Monthly sweep into savings
+      if (day.getUTCDate() === 28) {
+        const sweep = Math.round((500 + random() * 1500) * 100) / 100;
+        const transfer = { posted_on: date, currency: 'USD', merchant_name: null, pending: date === todayIso };
+        added.push(
+          {
+            ...transfer,
+            account_external_id: ids.checking,
+            external_id: `txn-${ids.checking}-${date}-sweep`,
+            amount: -sweep,
+            description: 'TRANSFER TO SAVINGS',
+            category: 'transfer_out',
+          },
+          {
+            ...transfer,
+            account_external_id: ids.savings,
+            external_id: `txn-${ids.savings}-${date}-sweep`,
+            amount: sweep,
+            description: 'TRANSFER FROM CHECKING',
+            category: 'transfer_in',
+          },
+        );
+      }
+    }
+
+    const yesterday = new Date(today);
+    yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+    return { added, removed: [], nextCursor: isoDate(yesterday), hasMore: false };
+  }
+
+  async removeItem() {}
+}
+
+/** Balances plus every transaction change since the cursor, across as many pages as one run allows. */
+export async function collectSync(provider, accessToken, cursor) {
+  const accounts = await provider.getAccounts(accessToken);
+  const transactions = [];
+  const removed = [];
+  let next = cursor;
+  for (let page = 0; page < MAX_SYNC_PAGES; page++) {
+    const result = await provider.syncTransactions(accessToken, next);
+    transactions.push(...result.added);
+    removed.push(...result.removed);
+    next = result.nextCursor;
+    if (!result.hasMore) break;
+  }
+  return { accounts, transactions, removed, cursor: next };
+}
+
+export function getAggregationProvider(name) {
+  const clientId = process.env.PLAID_CLIENT_ID;
+  const secret = process.env.PLAID_SECRET;
+  const configured = name || process.env.BANK_AGGREGATION_PROVIDER || (clientId ? 'plaid' : 'sandbox');
+
+  if (configured === 'plaid' && clientId && secret) {
+    return new PlaidProvider(clientId, secret, process.env.PLAID_ENV || 'sandbox');
+  }
+  if (configured !== 'sandbox') {
+    console.warn(`Bank aggregation provider "${configured}" is not fully configured; using the sandbox instead`);
+  }
+  return new SandboxProvider();
+}
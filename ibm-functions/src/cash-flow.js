@@ -0,0 +1,239 @@
+/**
+ * Cash-flow analysis of imported bank transactions.
+ *
+ * Categorizes each transaction, rebuilds daily balances backwards from the
+ * accounts' current balances, and works out monthly revenue, NSF and overdraft
+ * activity and debt service coverage for a proposed loan. Pure: callers load
+ * the accounts, transactions and existing loans.
+ * Mirrors supabase/functions/_shared/cash-flow.ts.
+ */
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Cards and loans report what is owed, not cash on hand
+const NON_DEPOSIT_ACCOUNT = /credit|loan|mortgage|line of credit/i;
+
+const NSF = /\bNSF\b|NON[- ]?SUFFICIENT|INSUFFICIENT FUNDS?|RETURNED ITEM|RETURN(ED)? (CHECK|ITEM|PAYMENT) FEE/i;
+const OVERDRAFT = /OVERDRAFT|\bOD (FEE|CHARGE)\b/i;
+const TRANSFER = /\bTRANSFER\b|\bXFER\b|\bTFR\b/i;
+const LOAN_PROCEEDS = /LOAN (PROCEEDS|DISB|DISBURSEMENT|FUNDING|ADVANCE)|CASH ADVANCE|MERCHANT ADVANCE|\bMCA\b/i;
+const DEBT_PAYMENT = /LOAN (PAYMENT|PMT|PYMT)|\bSBA\b|MORTGAGE|CAPITAL (REPAY|REMIT)|\bMCA\b/i;
+const REFUND = /REFUND|REVERSAL|CHARGEBACK|RETURNED? CREDIT/i;
+
+const round2 = (n) => Math.round(n * 100) / 100;
+const isoDate = (d) => d.toISOString().slice(0, 10);
+const addDays = (iso, days) => isoDate(new Date(Date.parse(`${iso}T00:00:00Z`) + days * DAY_MS));
+
+/** Where a transaction belongs in the analysis, from the provider's category and the description. */
+export function categorizeTransaction(t) {
+  const amount = Number(t.amount);
+  const text = `${t.description} ${t.merchant_name ?? ''}`;
+  const category = (t.category ?? '').toLowerCase();
+
+  if (amount < 0) {
+    if (NSF.test(text)) return 'nsf_fee';
+    if (OVERDRAFT.test(text) && !TRANSFER.test(text)) return 'overdraft_fee';
+    if (category === 'loan_payments' || DEBT_PAYMENT.test(text)) return 'debt_payment';
+    if (category === 'transfer_out' || TRANSFER.test(text)) return 'transfer_out';
+    return 'operating_expense';
+  }
+
+  if (LOAN_PROCEEDS.test(text)) return 'loan_proceeds';
+  if (category === 'transfer_in') return 'transfer_in';
+  // Processor payouts ("STRIPE TRANSFER") are sales even though they read like transfers
+  if (category === 'income') return 'revenue';
+  if (REFUND.test(text)) return 'refund';
+  if (TRANSFER.test(text)) return 'transfer_in';
+  return 'revenue';
+}
+
+/**
+ * Monthly payment on the proposed loan once it amortizes; the same level-payment
+ * formula as src/utils/loanCalculations.ts, so the DSCR matches what the
+ * calculator shows. Coverage is tested against the amortizing payment rather
+ * than the smaller one during any interest-only period.
+ */
+export function proposedPayment(terms) {
+  if (!terms || !(terms.amount > 0) || !(terms.termMonths > 0)) return 0;
+  const ioMonths = Math.min(Math.max(terms.interestOnlyMonths, 0), terms.termMonths - 1);
+  const months = terms.termMonths - ioMonths;
+  const monthlyRate = terms.annualRate / 100 / 12;
+  return monthlyRate === 0
+    ? terms.amount / months
+    : (terms.amount * monthlyRate * Math.pow(1 + monthlyRate, months)) / (Math.pow(1 + monthlyRate, months) - 1);
+}
+
+/** The complete calendar months before asOf to analyze, and the first day to load transactions from. */
+export function analysisWindow(months, asOf = new Date()) {
+  const start = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() - months, 1));
+  const end = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), 0));
+  return { start: isoDate(start), end: isoDate(end) };
+}
+
+/**
+ * Analyze settled transactions for the window. Transactions must run from the
+ * window start up to today, since balances are rebuilt backwards from the
+ * accounts' current balances. A window reaching back before the imported
+ * history is shortened to the first complete month of data.
+ */
+export function analyzeCashFlow({ accounts: allAccounts, transactions, existingLoans, terms, window, asOf }) {
+  const today = isoDate(asOf ?? new Date());
+  const accounts = allAccounts.filter((a) => !NON_DEPOSIT_ACCOUNT.test(a.account_type));
+  const accountIds = new Set(accounts.map((a) => a.id));
+  const settled = transactions.filter((t) => !t.pending && accountIds.has(t.account_id));
+
+  // A first month that starts mid-way would understate its revenue
+  const earliest = settled.reduce((min, t) => (min === null || t.posted_on < min ? t.posted_on : min), null);
+  let periodStart = window.start;
+  if (earliest && earliest > periodStart) {
+    periodStart = earliest.endsWith('-01') ? earliest : `${addDays(`${earliest.slice(0, 7)}-01`, 32).slice(0, 7)}-01`;
+  }
+  const periodEnd = window.end;
+
+  // End-of-day balance per account, walking back from today's balance
+  const dailyBalances = new Map();
+  const days = [];
+  for (let day = periodStart; day <= periodEnd; day = addDays(day, 1)) days.push(day);
+
+  for (const account of accounts) {
+    const byDay = new Map();
+    for (const t of settled) {
+      if (t.account_id === account.id) byDay.set(t.posted_on, (byDay.get(t.posted_on) ?? 0) + Number(t.amount));
+    }
+    const balances = new Array(days.length);
+    let balance = Number(account.balance);
+    let index = days.length - 1;
+    for (let day = today; day >= periodStart; day = addDays(day, -1)) {
+      if (day <= periodEnd) balances[index--] = balance;
+      balance -= byDay.get(day) ?? 0;
+    }
+    dailyBalances.set(account.id, balances);
+  }
+
+  const combined = days.map((_, i) => accounts.reduce((sum, a) => sum + (dailyBalances.get(a.id)?.[i] ?? 0), 0));
+  const negativeBalanceDays = days.filter((_, i) => accounts.some((a) => (dailyBalances.get(a.id)?.[i] ?? 0) < 0)).length;
+
+  const months = new Map();
+  days.forEach((day, i) => {
+    const key = day.slice(0, 7);
+    const month = months.get(key) ?? {
+      month: key, revenue: 0, operating_expenses: 0, debt_payments: 0, transfers_in: 0, transfers_out: 0,
+      loan_proceeds: 0, net_cash_flow: 0, average_balance: 0, ending_balance: 0, nsf_count: 0, overdraft_count: 0,
+    };
+    // Summed here, divided by the month's days below
+    month.average_balance += combined[i];
+    month.ending_balance = combined[i];
+    months.set(key, month);
+  });
+
+  const inPeriod = settled.filter((t) => t.posted_on >= periodStart && t.posted_on <= periodEnd);
+  for (const t of inPeriod) {
+    const month = months.get(t.posted_on.slice(0, 7));
+    if (!month) continue;
+    const amount = Math.abs(Number(t.amount));
+    switch (categorizeTransaction(t)) {
+      case 'revenue':
+        month.revenue += amount;
+        break;
+      case 'refund':
+        // Refunds received offset spending rather than count as sales
+        month.operating_expenses -= amount;
+        break;
+      case 'loan_proceeds':
+        month.loan_proceeds += amount;
+        break;
+      case 'transfer_in':
+        month.transfers_in += amount;
+        break;
+      case 'transfer_out':
+        month.transfers_out += amount;
+        break;
+      case 'debt_payment':
+        month.debt_payments += amount;
+        break;
+      case 'nsf_fee':
+        month.nsf_count += 1;
+        month.operating_expenses += amount;
+        break;
+      case 'overdraft_fee':
+        month.overdraft_count += 1;
+        month.operating_expenses += amount;
+        break;
+      default:
+        month.operating_expenses += amount;
+    }
+  }
+
+  const monthList = [...months.values()].map((m) => {
+    const daysInMonth = days.filter((d) => d.startsWith(m.month)).length;
+    return {
+      ...m,
+      revenue: round2(m.revenue),
+      operating_expenses: round2(m.operating_expenses),
+      debt_payments: round2(m.debt_payments),
+      transfers_in: round2(m.transfers_in),
+      transfers_out: round2(m.transfers_out),
+      loan_proceeds: round2(m.loan_proceeds),
+      net_cash_flow: round2(m.revenue - m.operating_expenses),
+      average_balance: round2(m.average_balance / daysInMonth),
+      ending_balance: round2(m.ending_balance),
+    };
+  });
+
+  const monthCount = monthList.length;
+  const average = (pick) => (monthCount === 0 ? 0 : monthList.reduce((sum, m) => sum + pick(m), 0) / monthCount);
+
+  const avgRevenue = average((m) => m.revenue);
+  const avgExpenses = average((m) => m.operating_expenses);
+  const avgNetCashFlow = avgRevenue - avgExpenses;
+
+  let revenueTrend = null;
+  if (monthCount >= 6) {
+    const recent = monthList.slice(-3).reduce((sum, m) => sum + m.revenue, 0);
+    const prior = monthList.slice(-6, -3).reduce((sum, m) => sum + m.revenue, 0);
+    if (prior > 0) revenueTrend = round2(((recent - prior) / prior) * 100);
+  }
+
+  const existingDebtService = existingLoans.reduce((sum, l) => sum + (Number(l.monthly_payment) || 0), 0);
+  const payment = proposedPayment(terms);
+  const debtService = existingDebtService + payment;
+
+  return {
+    period_start: periodStart,
+    period_end: periodEnd,
+    month_count: monthCount,
+    account_ids: accounts.map((a) => a.id),
+    transaction_count: inPeriod.length,
+    avg_monthly_revenue: round2(avgRevenue),
+    avg_monthly_operating_expenses: round2(avgExpenses),
+    avg_monthly_net_cash_flow: round2(avgNetCashFlow),
+    revenue_trend_pct: revenueTrend,
+    avg_daily_balance: round2(combined.length ? combined.reduce((sum, b) => sum + b, 0) / combined.length : 0),
+    min_daily_balance: round2(combined.length ? Math.min(...combined) : 0),
+    negative_balance_days: negativeBalanceDays,
+    nsf_count: monthList.reduce((sum, m) => sum + m.nsf_count, 0),
+    overdraft_count: monthList.reduce((sum, m) => sum + m.overdraft_count, 0),
+    observed_debt_payments: round2(average((m) => m.debt_payments)),
+    existing_debt_service: round2(existingDebtService),
+    proposed_amount: terms?.amount ?? null,
+    proposed_rate: terms?.annualRate ?? null,
+    proposed_term_months: terms?.termMonths ?? null,
+    proposed_interest_only_months: terms?.interestOnlyMonths ?? null,
+    proposed_payment: round2(payment),
+    dscr: debtService > 0 && monthCount > 0 ? round2(avgNetCashFlow / debtService) : null,
+    months: monthList,
+  };
+}
+
+/** The cash_flow input the underwriting rules read, e.g. 'cash_flow.dscr'. */
+export function cashFlowScoringInput(analysis) {
+  return {
+    dscr: analysis.dscr,
+    avg_monthly_revenue: analysis.avg_monthly_revenue,
+    avg_daily_balance: analysis.avg_daily_balance,
+    revenue_trend_pct: analysis.revenue_trend_pct,
+    nsf_count: analysis.nsf_count,
+    overdraft_count: analysis.overdraft_count,
+    nsf_overdraft_events: analysis.nsf_count + analysis.overdraft_count,
+  };
+}
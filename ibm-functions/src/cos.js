@@ -0,0 +1,70 @@
+/**
+ * IBM Cloud Object Storage access shared by the storage routes and the
+ * backends that read uploaded documents (e.g. bank statement parsing).
+ *
+ * Objects live under portal/documents/ in the configured bucket, keyed by the
+ * same paths the borrower_documents rows store.
+ *
+ * Environment variables:
+ *   IBM_COS_API_KEY       — IAM API key for COS
+ *   IBM_COS_ENDPOINT      — e.g. https://s3.us-south.cloud-object-storage.appdomain.cloud
+ *   IBM_COS_BUCKET        — e.g. hbf-portal-bucket
+ *   IBM_COS_INSTANCE_ID   — COS service instance CRN
+ */
+
+// ── IAM token cache ──
+
+let cachedToken = null;
+let tokenExpiresAt = 0;
+
+export async function getIamToken() {
+  const now = Date.now();
+  if (cachedToken && tokenExpiresAt > now + 60_000) return cachedToken;
+
+  const apiKey = process.env.IBM_COS_API_KEY;
+  if (!apiKey) throw new Error('IBM_COS_API_KEY not configured');
+
+  const res = await fetch('https://iam.cloud.ibm.com/identity/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ibm:params:oauth:grant-type:apikey',
+      apikey: apiKey,
+    }),
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`IAM token error (${res.status}): ${text}`);
+  }
+
+  const data = await res.json();
+  cachedToken = data.access_token;
+  tokenExpiresAt = now + data.expires_in * 1000;
+  return cachedToken;
+}
+
+export function getCosConfig() {
+  const endpoint = process.env.IBM_COS_ENDPOINT;
+  const bucket = process.env.IBM_COS_BUCKET;
+  const instanceId = process.env.IBM_COS_INSTANCE_ID;
+
+  if (!endpoint || !bucket || !instanceId) {
+    throw new Error('IBM COS not fully configured. Set IBM_COS_ENDPOINT, IBM_COS_BUCKET, IBM_COS_INSTANCE_ID.');
+  }
+  return { endpoint, bucket, instanceId };
+}
+
+/** Download a stored document's bytes. Callers check the key belongs to the document they loaded. */
+export async function getObject(objectKey) {
+  const { endpoint, bucket } = getCosConfig();
+  const token = await getIamToken();
+
+  const cosRes = await fetch(`${endpoint}/${bucket}/portal/documents/${objectKey}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!cosRes.ok) {
+    throw new Error(`COS download failed (${cosRes.status}) for ${objectKey}`);
+  }
+  return Buffer.from(await cosRes.arrayBuffer());
+}
@@ -0,0 +1,351 @@
+/**
+ * External CRM connector.
+ *
+ * Every enabled crm_integration_settings row owned by an admin is a
+ * connector. pushEntity() sends a local crm_contacts / crm_opportunities /
+ * crm_activities row to each connector that pushes, translating columns
+ * through the connector's field_mappings; applyInbound() applies updates
+ * the CRM sends to the signed webhook. Inbound changes only win when the
+ * CRM's modification time is newer than the local row. Every attempt,
+ * including skipped ones, is written to crm_sync_log.
+ *
+ * Credentials never live in the table: the API token and webhook secret
+ * come from CRM_API_TOKEN_<NAME> / CRM_WEBHOOK_SECRET_<NAME>, where NAME is
+ * external_crm_name upper-cased, falling back to CRM_API_TOKEN /
+ * CRM_WEBHOOK_SECRET.
+ */
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { query } from './db.js';
+
+export const CRM_ENTITIES = ['contact', 'opportunity', 'activity'];
+
+const TABLES = { contact: 'crm_contacts', opportunity: 'crm_opportunities', activity: 'crm_activities' };
+
+// Columns the CRM may change on an inbound update; everything else is owned by the portal
+const WRITABLE_COLUMNS = {
+  contact: ['first_name', 'last_name', 'email', 'phone', 'company_name', 'job_title', 'lead_status', 'contact_type', 'notes', 'last_contact_date', 'next_follow_up_date'],
+  opportunity: ['opportunity_name', 'loan_amount', 'stage', 'probability', 'expected_close_date', 'actual_close_date', 'loss_reason', 'notes'],
+  activity: ['subject', 'description', 'status', 'priority', 'scheduled_at', 'completed_at', 'duration_minutes'],
+};
+
+// Local foreign keys sent as references to the linked external record
+const REFERENCE_COLUMNS = { contact: {}, opportunity: { contact_id: 'contact' }, activity: { contact_id: 'contact', opportunity_id: 'opportunity' } };
+
+// ── Providers ──
+
+const PROVIDERS = {
+  salesforce: {
+    objects: { contact: 'Contact', opportunity: 'Opportunity', activity: 'Task' },
+    defaultMappings: {
+      contact: { FirstName: 'first_name', LastName: 'last_name', Email: 'email', Phone: 'phone', Title: 'job_title', Description: 'notes' },
+      opportunity: { Name: 'opportunity_name', Type: 'loan_type', Amount: 'loan_amount', StageName: 'stage', Probability: 'probability', CloseDate: 'expected_close_date', Description: 'notes' },
+      activity: { Subject: 'subject', Description: 'description', Status: 'status', Priority: 'priority' },
+    },
+    references: { opportunity: { contact_id: 'ContactId' }, activity: { contact_id: 'WhoId', opportunity_id: 'WhatId' } },
+    createUrl: (base, object) => `${base}/sobjects/${object}`,
+    updateUrl: (base, object, id) => `${base}/sobjects/${object}/${encodeURIComponent(id)}`,
+    body: (fields) => fields,
+    // Flow / Apex callouts post the changed records: { records: [{ attributes: { type }, Id, LastModifiedDate, ... }] }
+    parseWebhook(body, objects) {
+      return (body?.records ?? []).map((record) => {
+        const { attributes, Id, LastModifiedDate, IsDeleted, ...fields } = record;
+        return { entityType: objects[attributes?.type], externalId: Id, updatedAt: LastModifiedDate, deleted: IsDeleted === true, fields };
+      });
+    },
+  },
+  hubspot: {
+    objects: { contact: 'contacts', opportunity: 'deals', activity: 'tasks' },
+    defaultMappings: {
+      contact: { firstname: 'first_name', lastname: 'last_name', email: 'email', phone: 'phone', company: 'company_name', jobtitle: 'job_title' },
+      opportunity: { dealname: 'opportunity_name', amount: 'loan_amount', dealstage: 'stage', closedate: 'expected_close_date', description: 'notes' },
+      activity: { hs_task_subject: 'subject', hs_task_body: 'description', hs_task_status: 'status', hs_task_priority: 'priority', hs_timestamp: 'created_at' },
+    },
+    // Associations are a separate HubSpot API and are not synced
+    references: {},
+    createUrl: (base, object) => `${base}/crm/v3/objects/${object}`,
+    updateUrl: (base, object, id) => `${base}/crm/v3/objects/${object}/${encodeURIComponent(id)}`,
+    body: (fields) => ({ properties: fields }),
+    // Webhook subscriptions post one event per changed property: [{ subscriptionType, objectId, propertyName, propertyValue, occurredAt }]
+    parseWebhook(body) {
+      const prefixes = { contact: 'contact', deal: 'opportunity', task: 'activity' };
+      const grouped = new Map();
+      for (const ev of Array.isArray(body) ? body : []) {
+        const [object, change] = String(ev.subscriptionType ?? '').split('.');
+        const entityType = prefixes[object];
+        const key = `${entityType}:${ev.objectId}`;
+        const entry = grouped.get(key) ?? { entityType, externalId: String(ev.objectId), updatedAt: null, deleted: false, fields: {} };
+        if (change === 'deletion') entry.deleted = true;
+        if (ev.propertyName) entry.fields[ev.propertyName] = ev.propertyValue;
+        if (ev.occurredAt && (!entry.updatedAt || ev.occurredAt > Date.parse(entry.updatedAt))) {
+          entry.updatedAt = new Date(ev.occurredAt).toISOString();
+        }
+        grouped.set(key, entry);
+      }
+      return [...grouped.values()];
+    },
+  },
+  // Any JSON API exposing /contacts, /opportunities and /activities
+  rest: {
+    objects: { contact: 'contacts', opportunity: 'opportunities', activity: 'activities' },
+    defaultMappings: {
+      contact: Object.fromEntries(WRITABLE_COLUMNS.contact.map((c) => [c, c])),
+      opportunity: Object.fromEntries([...WRITABLE_COLUMNS.opportunity, 'loan_type'].map((c) => [c, c])),
+      activity: Object.fromEntries([...WRITABLE_COLUMNS.activity, 'activity_type'].map((c) => [c, c])),
+    },
+    references: { opportunity: { contact_id: 'contact_id' }, activity: { contact_id: 'contact_id', opportunity_id: 'opportunity_id' } },
+    createUrl: (base, object) => `${base}/${object}`,
+    updateUrl: (base, object, id) => `${base}/${object}/${encodeURIComponent(id)}`,
+    body: (fields) => fields,
+    // { events: [{ entityType, externalId, updatedAt, deleted?, fields }] }
+    parseWebhook(body) {
+      return (body?.events ?? []).map((ev) => ({
+        entityType: ev.entityType, externalId: ev.externalId != null ? String(ev.externalId) : undefined,
+        updatedAt: ev.updatedAt, deleted: ev.deleted === true, fields: ev.fields ?? {},
+      }));
+    },
+  },
+};
+
+/** Provider for a connector: settings.provider, else guessed from the CRM name. */
+export function providerFor(connector) {
+  const name = String(connector.settings?.provider ?? connector.external_crm_name ?? '').toLowerCase();
+  if (name.includes('salesforce')) return 'salesforce';
+  if (name.includes('hubspot')) return 'hubspot';
+  return 'rest';
+}
+
+/** External field → local column mapping for one entity, falling back to the provider defaults. */
+export function mappingFor(connector, entityType) {
+  const configured = connector.field_mappings?.[entityType];
+  if (configured && typeof configured === 'object' && Object.keys(configured).length) return configured;
+  return PROVIDERS[providerFor(connector)].defaultMappings[entityType];
+}
+
+const envSuffix = (connector) => String(connector.external_crm_name ?? '').toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+
+const apiToken = (connector) =>
+  process.env[`CRM_API_TOKEN_${envSuffix(connector)}`] || process.env.CRM_API_TOKEN;
+
+const webhookSecret = (connector) =>
+  process.env[`CRM_WEBHOOK_SECRET_${envSuffix(connector)}`] || process.env.CRM_WEBHOOK_SECRET;
+
+/** Whether the connector's credentials are present in the environment. */
+export const connectorConfigured = (connector) => ({ apiToken: !!apiToken(connector), webhookSecret: !!webhookSecret(connector) });
+
+// ── Connectors ──
+
+const DIRECTIONS = { push: ['push_only', 'bidirectional'], pull: ['pull_only', 'bidirectional'] };
+
+/** Enabled connectors for a direction. Rows created by non-admins are ignored. */
+export async function loadConnectors(direction) {
+  const { rows } = await query(
+    `SELECT s.* FROM crm_integration_settings s
+     WHERE s.sync_enabled AND s.api_endpoint IS NOT NULL AND s.sync_direction = ANY($1)
+       AND EXISTS (SELECT 1 FROM user_roles r WHERE r.user_id = s.user_id AND r.role::text IN ('admin', 'super_admin'))
+     ORDER BY s.created_at`,
+    [DIRECTIONS[direction]]
+  );
+  return rows;
+}
+
+export async function loadConnector(connectorId) {
+  const { rows } = await query('SELECT * FROM crm_integration_settings WHERE id = $1', [connectorId]);
+  return rows[0] ?? null;
+}
+
+async function logAttempt({ connector, userId, syncType, operation, entityType, entityId, externalId = null, status, error = null, payload = {}, startedAt }) {
+  try {
+    await query(
+      `INSERT INTO crm_sync_log (user_id, sync_type, operation, entity_type, entity_id, external_id, status, error_message, data_payload, processing_time_ms)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        userId ?? connector.user_id, syncType, operation, entityType, entityId, externalId, status, error,
+        JSON.stringify({ connector_id: connector.id, connector: connector.external_crm_name, ...payload }),
+        Date.now() - startedAt,
+      ]
+    );
+  } catch (err) {
+    console.error('[CRM] Failed to write sync log:', err);
+  }
+}
+
+async function findLink(connectorId, entityType, { localId, externalId }) {
+  const { rows } = localId
+    ? await query('SELECT * FROM crm_external_links WHERE connector_id = $1 AND entity_type = $2 AND local_id = $3', [connectorId, entityType, localId])
+    : await query('SELECT * FROM crm_external_links WHERE connector_id = $1 AND entity_type = $2 AND external_id = $3', [connectorId, entityType, externalId]);
+  return rows[0] ?? null;
+}
+
+// ── Push ──
+
+export async function loadLocalRecord(entityType, entityId) {
+  const { rows } = await query(`SELECT * FROM ${TABLES[entityType]} WHERE id = $1`, [entityId]);
+  return rows[0] ?? null;
+}
+
+const toExternalValue = (value) => (value instanceof Date ? value.toISOString() : value);
+
+async function buildFields(connector, entityType, record) {
+  const provider = PROVIDERS[providerFor(connector)];
+  const fields = {};
+  for (const [externalField, column] of Object.entries(mappingFor(connector, entityType))) {
+    if (record[column] !== undefined && record[column] !== null) fields[externalField] = toExternalValue(record[column]);
+  }
+  const references = provider.references[entityType] ?? {};
+  for (const [column, target] of Object.entries(REFERENCE_COLUMNS[entityType])) {
+    const externalField = references[column];
+    if (!externalField || !record[column]) continue;
+    const link = await findLink(connector.id, target, { localId: record[column] });
+    if (link) fields[externalField] = link.external_id;
+  }
+  return fields;
+}
+
+async function sendToConnector(connector, entityType, externalId, fields) {
+  const provider = PROVIDERS[providerFor(connector)];
+  const token = apiToken(connector);
+  if (!token) throw new Error(`No API token configured for ${connector.external_crm_name}`);
+
+  const base = connector.api_endpoint.replace(/\/+$/, '');
+  const object = provider.objects[entityType];
+  const resp = await fetch(externalId ? provider.updateUrl(base, object, externalId) : provider.createUrl(base, object), {
+    method: externalId ? 'PATCH' : 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify(provider.body(fields)),
+    signal: AbortSignal.timeout(15000),
+  });
+  if (!resp.ok) {
+    const detail = (await resp.text().catch(() => '')).slice(0, 500);
+    throw new Error(`${connector.external_crm_name} returned HTTP ${resp.status}${detail ? `: ${detail}` : ''}`);
+  }
+  if (externalId) return externalId;
+  const body = await resp.json().catch(() => ({}));
+  const createdId = body.id ?? body.Id ?? body.data?.id;
+  if (!createdId) throw new Error(`${connector.external_crm_name} did not return an id for the new ${entityType}`);
+  return String(createdId);
+}
+
+async function pushToConnector(connector, entityType, record, { userId, syncType }) {
+  const startedAt = Date.now();
+  const link = await findLink(connector.id, entityType, { localId: record.id });
+  const operation = link ? 'update' : 'create';
+  try {
+    const fields = await buildFields(connector, entityType, record);
+    const externalId = await sendToConnector(connector, entityType, link?.external_id, fields);
+    await query(
+      `INSERT INTO crm_external_links (connector_id, entity_type, local_id, external_id, last_pushed_at)
+       VALUES ($1, $2, $3, $4, now())
+       ON CONFLICT (connector_id, entity_type, local_id) DO UPDATE SET external_id = EXCLUDED.external_id, last_pushed_at = now()`,
+      [connector.id, entityType, record.id, externalId]
+    );
+    await query('UPDATE crm_integration_settings SET last_sync_at = now() WHERE id = $1', [connector.id]);
+    await logAttempt({ connector, userId, syncType, operation, entityType, entityId: record.id, externalId, status: 'success', payload: { fields: Object.keys(fields) }, startedAt });
+    return { connectorId: connector.id, connector: connector.external_crm_name, status: 'success', operation, externalId };
+  } catch (err) {
+    console.error(`[CRM] Push ${entityType} ${record.id} to ${connector.external_crm_name} failed:`, err);
+    await logAttempt({ connector, userId, syncType, operation, entityType, entityId: record.id, externalId: link?.external_id ?? null, status: 'failed', error: err.message, startedAt });
+    return { connectorId: connector.id, connector: connector.external_crm_name, status: 'failed', operation, error: err.message };
+  }
+}
+
+/**
+ * Push one local record to every push-enabled connector, or to the given
+ * connector only. Failures are logged per connector, not thrown.
+ */
+export async function pushEntity(entityType, entityId, { userId = null, syncType = 'automatic', connectorId = null } = {}) {
+  const record = await loadLocalRecord(entityType, entityId);
+  if (!record) return { found: false, results: [] };
+  const connectors = (await loadConnectors('push')).filter((c) => !connectorId || c.id === connectorId);
+  const results = [];
+  for (const connector of connectors) {
+    results.push(await pushToConnector(connector, entityType, record, { userId, syncType }));
+  }
+  return { found: true, results };
+}
+
+// ── Inbound ──
+
+/**
+ * Check the X-CRM-Signature header: "sha256=" followed by the hex
+ * HMAC-SHA256 of the raw request body under the connector's webhook secret.
+ */
+export function verifyWebhookSignature(connector, rawBody, header) {
+  const secret = webhookSecret(connector);
+  if (!secret || !rawBody || typeof header !== 'string') return false;
+  const expected = `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`;
+  const a = Buffer.from(header);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+async function applyChange(connector, change) {
+  const startedAt = Date.now();
+  const { entityType, externalId } = change;
+  const base = { connector, userId: null, syncType: 'webhook', operation: 'update', entityType, entityId: null, externalId, startedAt };
+
+  const link = await findLink(connector.id, entityType, { externalId });
+  if (!link) {
+    await logAttempt({ ...base, status: 'skipped', error: 'No linked local record' });
+    return 'skipped';
+  }
+  base.entityId = link.local_id;
+  if (change.deleted) {
+    await logAttempt({ ...base, operation: 'delete', status: 'skipped', error: 'Deletes in the CRM are not applied to the portal' });
+    return 'skipped';
+  }
+
+  const record = await loadLocalRecord(entityType, link.local_id);
+  if (!record) {
+    await logAttempt({ ...base, status: 'skipped', error: 'Local record no longer exists' });
+    return 'skipped';
+  }
+
+  // Timestamp conflict rule: the most recent modification wins
+  const externalTime = change.updatedAt ? new Date(change.updatedAt) : null;
+  if (!externalTime || Number.isNaN(externalTime.getTime())) {
+    await logAttempt({ ...base, status: 'failed', error: 'Update has no modification time' });
+    return 'failed';
+  }
+  if (externalTime <= new Date(record.updated_at) || (link.external_updated_at && externalTime <= new Date(link.external_updated_at))) {
+    await logAttempt({ ...base, status: 'skipped', error: 'Local record is newer', payload: { external_updated_at: externalTime.toISOString(), local_updated_at: record.updated_at } });
+    return 'skipped';
+  }
+
+  const updates = {};
+  for (const [externalField, column] of Object.entries(mappingFor(connector, entityType))) {
+    if (externalField in change.fields && WRITABLE_COLUMNS[entityType].includes(column)) updates[column] = change.fields[externalField];
+  }
+  const columns = Object.keys(updates);
+  try {
+    if (columns.length) {
+      const assignments = columns.map((column, i) => `${column} = $${i + 2}`).join(', ');
+      await query(`UPDATE ${TABLES[entityType]} SET ${assignments} WHERE id = $1`, [record.id, ...columns.map((c) => updates[c])]);
+    }
+    await query(
+      'UPDATE crm_external_links SET last_pulled_at = now(), external_updated_at = $2 WHERE id = $1',
+      [link.id, externalTime.toISOString()]
+    );
+    await logAttempt({ ...base, status: columns.length ? 'success' : 'skipped', error: columns.length ? null : 'No mapped fields changed', payload: { fields: columns } });
+    return columns.length ? 'applied' : 'skipped';
+  } catch (err) {
+    console.error(`[CRM] Inbound ${entityType} ${externalId} from ${connector.external_crm_name} failed:`, err);
+    await logAttempt({ ...base, status: 'failed', error: err.message, payload: { fields: columns } });
+    return 'failed';
+  }
+}
+
+/** Apply a verified webhook body from a connector. Returns counts by outcome. */
+export async function applyInbound(connector, body) {
+  const provider = PROVIDERS[providerFor(connector)];
+  const changes = provider.parseWebhook(body, Object.fromEntries(Object.entries(provider.objects).map(([k, v]) => [v, k])));
+  const summary = { received: changes.length, applied: 0, skipped: 0, failed: 0 };
+  for (const change of changes) {
+    if (!CRM_ENTITIES.includes(change.entityType) || !change.externalId) {
+      summary.skipped++;
+      continue;
+    }
+    summary[await applyChange(connector, change)]++;
+  }
+  if (summary.applied) await query('UPDATE crm_integration_settings SET last_sync_at = now() WHERE id = $1', [connector.id]);
+  return summary;
+}
@@ -0,0 +1,83 @@
+/**
+ * CRM reconciliation and replay.
+ *
+ * runReconciliation() compares borrowers and loan applications with the
+ * local CRM tables (run_crm_reconciliation) and stores the report.
+ * replayFailures() pushes the records behind open failed crm_sync_log
+ * entries again, once per record and connector, and marks the entries
+ * replayed; the new attempts are logged as usual, so a replay that fails
+ * again leaves a fresh open failure behind.
+ */
+import { query } from './db.js';
+import { CRM_ENTITIES, pushEntity } from './crm-connector.js';
+
+export async function runReconciliation(triggeredBy = null) {
+  const { rows } = await query('SELECT * FROM run_crm_reconciliation($1)', [triggeredBy]);
+  return rows[0];
+}
+
+export async function latestRun() {
+  const { rows } = await query('SELECT * FROM crm_reconciliation_runs ORDER BY started_at DESC LIMIT 1');
+  return rows[0] ?? null;
+}
+
+/** Replay open failures, optionally only the given log entries. */
+export async function replayFailures({ logIds = null, limit = 100, userId = null } = {}) {
+  const { rows } = await query(
+    `SELECT id, entity_type, entity_id, data_payload->>'connector_id' AS connector_id
+     FROM crm_sync_log
+     WHERE status = 'failed' AND resolved_at IS NULL AND ($1::uuid[] IS NULL OR id = ANY($1))
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [logIds, limit]
+  );
+
+  // One push per record and connector, however many times it failed
+  const groups = new Map();
+  for (const row of rows) {
+    const key = `${row.entity_type}:${row.entity_id}:${row.connector_id ?? ''}`;
+    if (!groups.has(key)) groups.set(key, { ...row, logIds: [] });
+    groups.get(key).logIds.push(row.id);
+  }
+
+  const summary = { selected: rows.length, replayed: 0, succeeded: 0, failed: 0, skipped: 0 };
+  const resolved = [];
+  for (const group of groups.values()) {
+    if (!group.entity_id || !CRM_ENTITIES.includes(group.entity_type)) {
+      summary.skipped += group.logIds.length;
+      continue;
+    }
+    const { found, results } = await pushEntity(group.entity_type, group.entity_id, {
+      userId,
+      syncType: 'manual',
+      connectorId: group.connector_id,
+    });
+    // Records that no longer exist, or connectors since disabled, stay open for an admin to dismiss
+    if (!found || results.length === 0) {
+      summary.skipped += group.logIds.length;
+      continue;
+    }
+    summary.replayed++;
+    if (results.every((r) => r.status === 'success')) summary.succeeded++;
+    else summary.failed++;
+    resolved.push(...group.logIds);
+  }
+
+  if (resolved.length) {
+    await query(
+      `UPDATE crm_sync_log SET resolved_at = now(), resolved_by = $2, resolution = 'replayed' WHERE id = ANY($1)`,
+      [resolved, userId]
+    );
+  }
+  return summary;
+}
+
+/** Close failures that should not be replayed. Returns the number closed. */
+export async function dismissFailures(logIds, userId) {
+  const { rowCount } = await query(
+    `UPDATE crm_sync_log SET resolved_at = now(), resolved_by = $2, resolution = 'dismissed'
+     WHERE id = ANY($1) AND status = 'failed' AND resolved_at IS NULL`,
+    [logIds, userId]
+  );
+  return rowCount ?? 0;
+}
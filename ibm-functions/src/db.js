@@ -73,3 +73,24 @@ export async function testConnection() {
 export async function query(text, params) {
   return pool.query(text, params);
 }
+
+/**
+ * Run a parameterized write on behalf of a signed-in user. The user is
+ * recorded as app.workflow_actor for the transaction, so the application
+ * workflow trigger checks their role.
+ */
+export async function queryAsUser(userId, text, params) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query("SELECT set_config('app.workflow_actor', $1, true)", [userId]);
+    const result = await client.query(text, params);
+    await client.query('COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw err;
+  } finally {
+    client.release();
+  }
+}
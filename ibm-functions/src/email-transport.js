@@ -0,0 +1,176 @@
+/**
+ * Pluggable email delivery.
+ *
+ * The transport is chosen from the environment: EMAIL_TRANSPORT=smtp|sendgrid|outbox,
+ * or inferred from SENDGRID_API_KEY / SMTP_HOST, falling back to the local outbox.
+ * Every attempt is recorded in email_deliveries with its provider message ID so
+ * delivery and bounce events can be matched to it later.
+ * Mirrors supabase/functions/_shared/email.ts.
+ */
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { query } from './db.js';
+
+const DEFAULT_FROM = 'Halo Business Finance <notifications@halobusinessfinance.com>';
+
+const fromAddress = () => process.env.EMAIL_FROM || DEFAULT_FROM;
+
+function parseAddress(value) {
+  const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match ? { name: match[1] || undefined, email: match[2] } : { email: value.trim() };
+}
+
+class SmtpTransport {
+  provider = 'smtp';
+
+  constructor(host) {
+    this.host = host;
+    this.transporter = null;
+  }
+
+  // nodemailer is loaded on first use so other transports don't need it installed
+  async getTransporter() {
+    if (!this.transporter) {
+      const { default: nodemailer } = await import('nodemailer');
+      const port = Number(process.env.SMTP_PORT || 587);
+      const user = process.env.SMTP_USER;
+      this.transporter = nodemailer.createTransport({
+        host: this.host,
+        port,
+        secure: port === 465,
+        auth: user ? { user, pass: process.env.SMTP_PASSWORD } : undefined,
+      });
+    }
+    return this.transporter;
+  }
+
+  async send(message) {
+    try {
+      const transporter = await this.getTransporter();
+      const info = await transporter.sendMail({ from: fromAddress(), ...message });
+      if (info.rejected?.length) {
+        return { status: 'bounced', providerMessageId: info.messageId ?? null, bounceType: 'hard', bounceReason: info.response };
+      }
+      return { status: 'sent', providerMessageId: info.messageId ?? null };
+    } catch (err) {
+      // 5xx replies are permanent rejections of the recipient or message
+      if (err.responseCode >= 500) {
+        return { status: 'bounced', providerMessageId: null, bounceType: 'hard', bounceReason: err.response ?? err.message };
+      }
+      return { status: 'failed', providerMessageId: null, error: err.message ?? 'SMTP delivery failed' };
+    }
+  }
+}
+
+class SendGridTransport {
+  provider = 'sendgrid';
+
+  constructor(apiKey, apiUrl) {
+    this.apiKey = apiKey;
+    this.apiUrl = apiUrl;
+  }
+
+  async send(message) {
+    const resp = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: parseAddress(fromAddress()),
+        subject: message.subject,
+        content: [
+          { type: 'text/plain', value: message.text },
+          { type: 'text/html', value: message.html },
+        ],
+      }),
+    });
+
+    if (resp.ok) return { status: 'sent', providerMessageId: resp.headers.get('x-message-id') };
+
+    const body = await resp.json().catch(() => null);
+    const reason = body?.errors?.map((e) => e.message).filter(Boolean).join('; ') || `HTTP ${resp.status}`;
+    return { status: 'failed', providerMessageId: null, error: reason };
+  }
+}
+
+// Writes each message as JSON for local testing; nothing leaves the machine
+class OutboxTransport {
+  provider = 'outbox';
+
+  constructor(dir) {
+    this.dir = dir;
+  }
+
+  async send(message) {
+    const id = randomUUID();
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(
+        path.join(this.dir, `${id}.json`),
+        JSON.stringify({ id, from: fromAddress(), ...message, createdAt: new Date().toISOString() }, null, 2)
+      );
+      return { status: 'sent', providerMessageId: id };
+    } catch (err) {
+      return { status: 'failed', providerMessageId: null, error: err.message };
+    }
+  }
+}
+
+export function getEmailTransport() {
+  const sendGridKey = process.env.SENDGRID_API_KEY;
+  const smtpHost = process.env.SMTP_HOST;
+  const configured = process.env.EMAIL_TRANSPORT || (sendGridKey ? 'sendgrid' : smtpHost ? 'smtp' : 'outbox');
+
+  if (configured === 'sendgrid' && sendGridKey) {
+    return new SendGridTransport(sendGridKey, process.env.SENDGRID_API_URL || 'https://api.sendgrid.com/v3/mail/send');
+  }
+  if (configured === 'smtp' && smtpHost) {
+    return new SmtpTransport(smtpHost);
+  }
+  if (configured !== 'outbox') {
+    console.warn(`Email transport "${configured}" is not fully configured; writing to the outbox instead`);
+  }
+  return new OutboxTransport(process.env.EMAIL_OUTBOX_DIR || '/tmp/email-outbox');
+}
+
+/**
+ * Send through the configured transport and record the outcome.
+ * Never throws on delivery failure — check the returned status.
+ *
+ * @param {{ to: string, subject: string, html: string, text: string }} message
+ * @param {{ template: string, userId?: string, applicationId?: string, triggeredBy?: string, metadata?: object }} context
+ */
+export async function deliverEmail(message, context) {
+  const transport = getEmailTransport();
+  let result;
+  try {
+    result = await transport.send(message);
+  } catch (err) {
+    result = { status: 'failed', providerMessageId: null, error: err.message ?? 'Delivery failed' };
+  }
+
+  if (result.status !== 'sent') {
+    console.error(`Email to ${message.to} ${result.status}:`, result.error ?? result.bounceReason);
+  }
+
+  let id = null;
+  try {
+    const inserted = await query(
+      `INSERT INTO email_deliveries
+         (user_id, recipient, template, subject, provider, status, provider_message_id, error_message,
+          bounce_type, bounce_reason, loan_application_id, triggered_by, metadata, sent_at, bounced_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
+               CASE WHEN $6 = 'sent' THEN now() END, CASE WHEN $6 = 'bounced' THEN now() END)
+       RETURNING id`,
+      [context.userId ?? null, message.to, context.template, message.subject, transport.provider, result.status,
+       result.providerMessageId, result.error ?? null, result.bounceType ?? null, result.bounceReason ?? null,
+       context.applicationId ?? null, context.triggeredBy ?? null, JSON.stringify(context.metadata ?? {})]
+    );
+    id = inserted.rows[0]?.id ?? null;
+  } catch (err) {
+    console.error('Failed to record email delivery:', err);
+  }
+
+  return { id, provider: transport.provider, ...result };
+}
@@ -0,0 +1,46 @@
+/**
+ * Slack/Discord webhook delivery for external notifications.
+ * Used by the notification outbox worker.
+ */
+
+/** Post one message to a configured webhook. Throws when the platform rejects it, so the outbox retries. */
+export async function postToWebhook(webhook, title, message, data) {
+  const payload = webhook.platform === 'slack'
+    ? formatSlack(title, message, data)
+    : formatDiscord(title, message, data);
+  const resp = await fetch(webhook.webhook_url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!resp.ok) throw new Error(`${webhook.platform} webhook ${webhook.name} returned HTTP ${resp.status}`);
+  return { status: resp.status };
+}
+
+// ── Formatting ──
+
+function formatSlack(title, message, data) {
+  const fields = [];
+  if (data?.loanAmount) fields.push({ type: 'mrkdwn', text: `*Amount:*\n${data.loanAmount}` });
+  if (data?.loanType) fields.push({ type: 'mrkdwn', text: `*Type:*\n${data.loanType}` });
+  if (data?.applicantName) fields.push({ type: 'mrkdwn', text: `*Applicant:*\n${data.applicantName}` });
+  if (data?.applicationNumber) fields.push({ type: 'mrkdwn', text: `*Application #:*\n${data.applicationNumber}` });
+  return {
+    text: `${title}: ${message}`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: title, emoji: true } },
+      { type: 'section', text: { type: 'mrkdwn', text: message } },
+      ...(fields.length ? [{ type: 'section', fields }] : []),
+      { type: 'context', elements: [{ type: 'mrkdwn', text: `Halo Business Finance | ${new Date().toLocaleString()}` }] },
+    ],
+  };
+}
+
+function formatDiscord(title, message, data) {
+  const fields = [];
+  if (data?.loanAmount) fields.push({ name: 'Amount', value: data.loanAmount, inline: true });
+  if (data?.loanType) fields.push({ name: 'Type', value: data.loanType, inline: true });
+  if (data?.applicantName) fields.push({ name: 'Applicant', value: data.applicantName, inline: true });
+  if (data?.applicationNumber) fields.push({ name: 'Application #', value: data.applicationNumber, inline: true });
+  return { embeds: [{ title, description: message, color: 0x00d26a, fields: fields.length ? fields : undefined, timestamp: new Date().toISOString(), footer: { text: 'Halo Business Finance' } }] };
+}
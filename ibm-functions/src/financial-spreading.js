@@ -0,0 +1,450 @@
+/**
+ * Financial statement spreading.
+ *
+ * Lays a borrower's income statements and balance sheets side by side by fiscal
+ * period, derives the standard ratios (EBITDA, current ratio, leverage) and the
+ * global cash flow of the business and its owners, and compares the result with
+ * the figures the borrower reported on the application. Profit and Loss and
+ * Balance Sheet exports from QuickBooks and Xero (CSV or Excel) are read into the
+ * same line items an underwriter keys in by hand. Pure apart from file parsing:
+ * callers load the documents and the application.
+ *
+ * Operating expenses are the total QuickBooks and Xero report, so they include
+ * officer pay, depreciation and interest; those lines break them out for the
+ * add-backs. Other income is net of other expenses. Funded debt is the
+ * interest-bearing part of the liabilities: loans, notes and lines of credit.
+ * Mirrors supabase/functions/_shared/financial-spreading.ts.
+ */
+import { read, utils } from 'xlsx';
+import { parseMoney, parseStatementDate, splitCsv } from './statement-parser.js';
+
+export const SPREAD_LINE_KEYS = [
+  // Income statement
+  'revenue',
+  'cost_of_goods_sold',
+  'operating_expenses',
+  'officer_compensation',
+  'depreciation_amortization',
+  'interest_expense',
+  'other_income',
+  'income_taxes',
+  'net_income',
+  // Balance sheet
+  'cash',
+  'accounts_receivable',
+  'inventory',
+  'current_assets',
+  'total_assets',
+  'current_liabilities',
+  'funded_debt',
+  'total_liabilities',
+  'equity',
+];
+
+export const MAX_PERIODS = 6;
+const MAX_ROWS = 5000;
+
+// Differences from the application beyond these percentages are flagged
+const VARIANCE_MEDIUM_PCT = 10;
+const VARIANCE_HIGH_PCT = 25;
+
+const INCOME_LINES = [
+  'revenue', 'cost_of_goods_sold', 'operating_expenses', 'officer_compensation',
+  'depreciation_amortization', 'interest_expense', 'other_income', 'income_taxes', 'net_income',
+];
+
+// Matched against labels lowercased, with account numbers and punctuation stripped.
+// Patterns are tried in order and the first matching row supplies the line; sum
+// adds up accounts when no pattern matches, for lines exports split across accounts.
+const LINE_RULES = [
+  {
+    key: 'revenue',
+    patterns: [
+      /^total (income|revenue|revenues|sales|trading income|operating revenue)$/,
+      /^(net )?(sales|revenue|revenues)$/,
+      /^gross (receipts|sales)$/,
+      /^income$/,
+    ],
+  },
+  {
+    key: 'cost_of_goods_sold',
+    patterns: [
+      /^total (cost of goods sold|cost of sales|cogs|direct costs)$/,
+      /^(cost of goods sold|cost of sales|cogs|direct costs)$/,
+    ],
+  },
+  { key: 'operating_expenses', patterns: [/^total (expenses|operating expenses|overheads)$/, /^operating expenses$/] },
+  {
+    key: 'officer_compensation',
+    patterns: [/^total (officers?|owners?) (compensation|salaries|wages)$/],
+    sum: /^(?!total\b).*\b(officers?|owners?)\b.*\b(compensation|salary|salaries|wages)\b/,
+  },
+  {
+    key: 'depreciation_amortization',
+    patterns: [/^total depreciation( and amortization)?$/, /^depreciation and amortization( expense)?$/],
+    sum: /^(?!total\b)(?!.*accumulated).*\b(depreciation|amortization)\b/,
+  },
+  {
+    key: 'interest_expense',
+    patterns: [/^total interest expense$/, /^interest (expense|paid)$/, /^interest$/],
+    sum: /^(?!total\b).*\binterest (expense|paid)\b/,
+  },
+  { key: 'other_income', patterns: [/^net other income$/] },
+  {
+    key: 'income_taxes',
+    patterns: [/^total income tax(es)?( expense)?$/, /^(provision for )?income tax(es)?( expense)?$/],
+    sum: /^(?!total\b).*\bincome tax(es)?\b/,
+  },
+  { key: 'net_income', patterns: [/^net (income|profit|earnings)$/, /^net (income|profit) for the (year|period)$/] },
+  { key: 'cash', patterns: [/^total (bank accounts|bank|cash and cash equivalents|cash)$/, /^cash( and cash equivalents)?$/] },
+  {
+    key: 'accounts_receivable',
+    patterns: [/^total accounts receivable( a r)?$/, /^accounts receivable( a r)?$/, /^trade receivables$/],
+  },
+  { key: 'inventory', patterns: [/^total inventor(y|ies)$/, /^inventor(y|ies)( asset)?$/] },
+  { key: 'current_assets', patterns: [/^total current assets$/] },
+  { key: 'total_assets', patterns: [/^total assets$/] },
+  { key: 'current_liabilities', patterns: [/^total current liabilities$/] },
+  {
+    key: 'funded_debt',
+    patterns: [/^total (notes payable|loans payable|long term debt)$/],
+    sum: /^(?!total\b)(?!.*\binterest\b).*\b(loans? payable|notes? payable|line of credit|mortgage payable|term loan|long term debt)\b/,
+  },
+  { key: 'total_liabilities', patterns: [/^total liabilities$/] },
+  {
+    key: 'equity',
+    patterns: [
+      /^total (equity|stockholders equity|shareholders equity|owners equity|members equity|capital)$/,
+      /^net assets$/,
+      /^(equity|net worth)$/,
+    ],
+  },
+];
+
+// Other income and expenses are reported in separate sections when there is no net line
+const OTHER_INCOME = [/^total other income$/, /^other income$/];
+const OTHER_EXPENSES = [/^total other expenses?$/, /^other expenses?$/];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b/gi;
+const YEAR = /\b(?:19|20)\d{2}\b/g;
+const NUMERIC_DATE = /\d{4}-\d{2}-\d{2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}/;
+
+const round2 = (n) => Math.round(n * 100) / 100;
+const endOfMonth = (year, month) => new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+
+function normalizeLabel(label) {
+  return label
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    // "Net Income (Loss)", "Net Profit/Loss"
+    .replace(/\s*(\((loss|deficit)\)|\/\s*loss)/g, '')
+    // QuickBooks account numbers: "4000 Sales"
+    .replace(/^\s*[\d.]+\s+/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** The period a column heading names: a date, a month range or a fiscal year. */
+function readPeriodHeading(text) {
+  const cell = text.trim().replace(/\s+/g, ' ');
+  if (!cell || /%|change|variance|budget/i.test(cell)) return null;
+
+  const years = [...cell.matchAll(YEAR)].map((m) => Number(m[0]));
+  if (years.length === 0) {
+    const numeric = cell.match(NUMERIC_DATE);
+    const date = numeric ? parseStatementDate(numeric[0]) : null;
+    return date ? { period_end: date, months: 12 } : null;
+  }
+
+  const months = [...cell.matchAll(MONTH_NAME)].map((m) => MONTHS.indexOf(m[1].toLowerCase()) + 1);
+  const endYear = years[years.length - 1];
+  if (months.length === 0) {
+    const numeric = cell.match(NUMERIC_DATE);
+    const date = numeric ? parseStatementDate(numeric[0]) : null;
+    return { period_end: date ?? `${endYear}-12-31`, months: 12 };
+  }
+
+  const endMonth = months[months.length - 1];
+  let count = 12;
+  if (months.length > 1) {
+    const startMonth = months[0];
+    const startYear = years.length > 1 ? years[0] : startMonth <= endMonth ? endYear : endYear - 1;
+    const span = (endYear - startYear) * 12 + endMonth - startMonth + 1;
+    if (span >= 1 && span <= 12) count = span;
+  }
+  return { period_end: endOfMonth(endYear, endMonth), months: count };
+}
+
+function matchLines(rows) {
+  const lines = {};
+  const find = (patterns) =>
+    patterns.map((pattern) => rows.find((r) => pattern.test(r.label))).find((r) => r !== undefined);
+
+  for (const rule of LINE_RULES) {
+    const row = find(rule.patterns);
+    if (row) {
+      lines[rule.key] = row.value;
+      continue;
+    }
+    const summed = rule.sum ? rows.filter((r) => rule.sum.test(r.label)) : [];
+    if (summed.length > 0) lines[rule.key] = round2(summed.reduce((sum, r) => sum + r.value, 0));
+  }
+
+  if (lines.other_income === undefined) {
+    const income = find(OTHER_INCOME);
+    const expenses = find(OTHER_EXPENSES);
+    if (income || expenses) lines.other_income = round2((income?.value ?? 0) - (expenses?.value ?? 0));
+  }
+  return lines;
+}
+
+// One sheet or CSV: account names down the first column, a column of amounts per period
+function readTable(rows) {
+  let columns;
+  let start;
+
+  const headerIndex = rows.slice(0, 20).findIndex((r) => r.slice(1).some((cell) => readPeriodHeading(cell) !== null));
+  if (headerIndex >= 0) {
+    columns = rows[headerIndex].flatMap((cell, index) => {
+      const period = index === 0 ? null : readPeriodHeading(cell);
+      return period ? [{ index, label: cell.trim().slice(0, 40), ...period }] : [];
+    });
+    start = headerIndex + 1;
+  } else {
+    // Single-period exports head their amounts 'Total' and give the period in the title
+    const titleIndex = rows.slice(0, 10).findIndex((r) => readPeriodHeading(r[0] ?? '') !== null);
+    const period = titleIndex >= 0 ? readPeriodHeading(rows[titleIndex][0]) : null;
+    if (!period) return [];
+    const width = Math.max(...rows.map((r) => r.length));
+    columns = [{ index: width - 1, label: rows[titleIndex][0].trim().slice(0, 40), ...period }];
+    start = titleIndex + 1;
+  }
+  if (columns.length === 0 || columns[0].index === 0) return [];
+
+  const items = rows.slice(start, start + MAX_ROWS).flatMap((row) => {
+    const label = row.slice(0, columns[0].index).find((cell) => cell.trim()) ?? '';
+    return label ? [{ label: normalizeLabel(label), values: columns.map((c) => parseMoney(row[c.index])) }] : [];
+  });
+
+  return columns.flatMap((column, i) => {
+    const rowsWithAmounts = items.flatMap((item) => {
+      const value = item.values[i];
+      return value === null ? [] : [{ label: item.label, value }];
+    });
+    const lines = matchLines(rowsWithAmounts);
+    return Object.keys(lines).length > 0
+      ? [{ label: column.label, period_end: column.period_end, months: column.months, lines }]
+      : [];
+  });
+}
+
+function readTables(fileName, bytes) {
+  if (/\.(xlsx|xls)$/i.test(fileName)) {
+    const workbook = read(bytes, { type: 'buffer' });
+    return workbook.SheetNames.map((name) =>
+      utils
+        .sheet_to_json(workbook.Sheets[name], { header: 1, raw: false, defval: '' })
+        .map((row) => row.map((cell) => String(cell ?? ''))));
+  }
+  if (/\.(csv|txt)$/i.test(fileName)) return [splitCsv(new TextDecoder().decode(bytes))];
+  throw new Error('Only CSV and Excel exports can be imported');
+}
+
+const hasIncomeStatement = (period) => INCOME_LINES.some((key) => (period.lines[key] ?? null) !== null);
+
+/**
+ * Periods read from a Profit and Loss or Balance Sheet export, oldest first. A
+ * workbook holding both reports, or a P&L column and a balance sheet column
+ * ending on the same date, make one period.
+ */
+export function importFinancialStatements(fileName, bytes) {
+  const byEnd = new Map();
+  for (const period of readTables(fileName, bytes).flatMap(readTable)) {
+    const existing = byEnd.get(period.period_end);
+    if (!existing) {
+      byEnd.set(period.period_end, period);
+      continue;
+    }
+    // The income statement's heading says how many months the period covers
+    const heading = hasIncomeStatement(existing) ? existing : period;
+    byEnd.set(period.period_end, { ...heading, lines: { ...period.lines, ...existing.lines } });
+  }
+
+  const periods = [...byEnd.values()].sort((a, b) => a.period_end.localeCompare(b.period_end));
+  if (periods.length === 0) {
+    throw new Error('No fiscal periods with recognizable line items were found in this export');
+  }
+  return periods.slice(-MAX_PERIODS);
+}
+
+// ── Ratios ──
+
+const line = (period, key) => period.lines[key] ?? null;
+
+const ratio = (numerator, denominator, scale = 1) =>
+  numerator === null || denominator === null || denominator === 0 ? null : round2((numerator / denominator) * scale);
+
+const annualize = (amount, months) => (amount === null ? null : round2((amount * 12) / months));
+
+function netIncome(period) {
+  const reported = line(period, 'net_income');
+  if (reported !== null) return reported;
+  const revenue = line(period, 'revenue');
+  if (revenue === null) return null;
+  return round2(
+    revenue
+    - (line(period, 'cost_of_goods_sold') ?? 0)
+    - (line(period, 'operating_expenses') ?? 0)
+    + (line(period, 'other_income') ?? 0)
+    - (line(period, 'income_taxes') ?? 0),
+  );
+}
+
+function ebitda(period) {
+  const income = netIncome(period);
+  if (income === null) return null;
+  return round2(
+    income
+    + (line(period, 'interest_expense') ?? 0)
+    + (line(period, 'income_taxes') ?? 0)
+    + (line(period, 'depreciation_amortization') ?? 0),
+  );
+}
+
+// Taxes are a real cash cost, so unlike EBITDA they are not added back
+function cashAvailableForDebtService(period) {
+  const income = netIncome(period);
+  if (income === null) return null;
+  return income + (line(period, 'interest_expense') ?? 0) + (line(period, 'depreciation_amortization') ?? 0);
+}
+
+export function periodRatios(periods) {
+  return periods.map((period, i) => {
+    const revenue = line(period, 'revenue');
+    const grossProfit = revenue === null ? null : round2(revenue - (line(period, 'cost_of_goods_sold') ?? 0));
+    const periodEbitda = ebitda(period);
+    const annualEbitda = annualize(periodEbitda, period.months);
+    const currentAssets = line(period, 'current_assets');
+    const currentLiabilities = line(period, 'current_liabilities');
+    const equity = line(period, 'equity');
+
+    const previous = i > 0 ? periods[i - 1] : null;
+    const previousRevenue = previous ? annualize(line(previous, 'revenue'), previous.months) : null;
+    const annualRevenue = annualize(revenue, period.months);
+
+    return {
+      period_end: period.period_end,
+      net_income: netIncome(period),
+      gross_profit: grossProfit,
+      gross_margin_pct: ratio(grossProfit, revenue, 100),
+      ebitda: periodEbitda,
+      ebitda_margin_pct: ratio(periodEbitda, revenue, 100),
+      net_margin_pct: ratio(netIncome(period), revenue, 100),
+      revenue_growth_pct: annualRevenue !== null && previousRevenue !== null && previousRevenue > 0
+        ? ratio(annualRevenue - previousRevenue, previousRevenue, 100)
+        : null,
+      current_ratio: ratio(currentAssets, currentLiabilities),
+      working_capital: currentAssets !== null && currentLiabilities !== null ? round2(currentAssets - currentLiabilities) : null,
+      debt_to_equity: equity !== null && equity > 0 ? ratio(line(period, 'total_liabilities'), equity) : null,
+      debt_to_ebitda: annualEbitda !== null && annualEbitda > 0 ? ratio(line(period, 'funded_debt'), annualEbitda) : null,
+    };
+  });
+}
+
+const latestWith = (periods, has) => [...periods].reverse().find(has) ?? null;
+
+export function globalCashFlow(periods, inputs) {
+  const basis = latestWith(periods, (p) => netIncome(p) !== null);
+  const businessCashFlow = basis ? annualize(cashAvailableForDebtService(basis), basis.months) : null;
+  const businessDebtService = inputs.business_debt_service + inputs.proposed_debt_service;
+  const globalDebtService = businessDebtService + inputs.personal_debt_service;
+  const global = businessCashFlow === null
+    ? null
+    : round2(businessCashFlow + inputs.owner_income - inputs.owner_living_expenses);
+
+  return {
+    ...inputs,
+    basis_period_end: basis?.period_end ?? null,
+    business_cash_flow: businessCashFlow,
+    business_dscr: businessDebtService > 0 ? ratio(businessCashFlow, businessDebtService) : null,
+    global_cash_flow: global,
+    global_debt_service: round2(globalDebtService),
+    global_dscr: globalDebtService > 0 ? ratio(global, globalDebtService) : null,
+  };
+}
+
+// ── Comparison with the application ──
+
+function toNumber(value) {
+  if (value === null || value === undefined || value === '') return null;
+  const n = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]/g, ''));
+  return Number.isFinite(n) ? n : null;
+}
+
+function pick(details, ...keys) {
+  for (const key of keys) {
+    const n = toNumber(details[key]);
+    if (n !== null) return n;
+  }
+  return null;
+}
+
+/** The single figures the application forms collect, under the keys the eligibility check reads. */
+export function selfReportedFigures(loanDetails) {
+  const details = loanDetails || {};
+  const monthlyRevenue = pick(details, 'monthlyRevenue', 'monthly_revenue');
+  return {
+    annual_revenue: pick(details, 'annualRevenue', 'annual_revenue') ?? (monthlyRevenue !== null ? monthlyRevenue * 12 : null),
+    net_income: pick(details, 'netIncome', 'net_income'),
+    current_debt: pick(details, 'currentDebt', 'current_debt', 'existingDebt', 'existing_debt', 'outstandingDebt', 'outstanding_debt'),
+  };
+}
+
+function variance(field, reported, spread) {
+  if (reported === null || spread === null) return { field, reported, spread, difference_pct: null, severity: null };
+  if (reported === 0) {
+    // Nothing reported against something on the statements, e.g. undisclosed debt
+    return { field, reported, spread, difference_pct: null, severity: spread === 0 ? null : 'high' };
+  }
+  const difference = round2(((spread - reported) / Math.abs(reported)) * 100);
+  const size = Math.abs(difference);
+  return {
+    field,
+    reported,
+    spread,
+    difference_pct: difference,
+    severity: size >= VARIANCE_HIGH_PCT ? 'high' : size >= VARIANCE_MEDIUM_PCT ? 'medium' : null,
+  };
+}
+
+/** The latest annualized revenue and net income and latest funded debt against what the borrower reported. */
+export function compareWithSelfReported(periods, loanDetails) {
+  const reported = selfReportedFigures(loanDetails);
+  const income = latestWith(periods, (p) => netIncome(p) !== null || line(p, 'revenue') !== null);
+  const balance = latestWith(periods, (p) => line(p, 'funded_debt') !== null);
+  return [
+    variance('annual_revenue', reported.annual_revenue, income ? annualize(line(income, 'revenue'), income.months) : null),
+    variance('net_income', reported.net_income, income ? annualize(netIncome(income), income.months) : null),
+    variance('current_debt', reported.current_debt, balance ? line(balance, 'funded_debt') : null),
+  ];
+}
+
+/** A spread of the periods with its ratios, global cash flow and variances from the application. */
+export function computeSpread({ periods: input, globalInputs, loanDetails }) {
+  const periods = [...input]
+    .sort((a, b) => a.period_end.localeCompare(b.period_end))
+    .map((p) => ({
+      ...p,
+      lines: Object.fromEntries(
+        Object.entries(p.lines).map(([key, value]) => [key, value === null || value === undefined ? null : round2(value)]),
+      ),
+    }));
+  return {
+    periods,
+    ratios: periodRatios(periods),
+    global_cash_flow: globalCashFlow(periods, globalInputs),
+    variances: compareWithSelfReported(periods, loanDetails),
+  };
+}
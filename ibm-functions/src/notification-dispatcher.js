@@ -0,0 +1,110 @@
+/**
+ * Preference-aware notification dispatch.
+ *
+ * Looks up the recipient's get_user_notification_preferences once and sends
+ * the event on each channel they have enabled: email and SMS from the
+ * template store, in-app through create_user_notification.
+ * Mirrors supabase/functions/_shared/dispatch.ts.
+ */
+import { query } from './db.js';
+import { deliverEmail } from './email-transport.js';
+import { deliverSms } from './sms-transport.js';
+import { renderNotificationTemplate } from './notification-templates.js';
+
+// Events without a stored preference use the same defaults as new accounts
+const DEFAULT_CHANNELS = { email: true, in_app: true, sms: false };
+
+const ALL_CHANNELS = ['email', 'sms', 'in_app'];
+
+/**
+ * @param {{
+ *   userId: string,
+ *   event: string,
+ *   data: object,
+ *   channels?: ('email' | 'sms' | 'in_app')[],
+ *   email?: string | null,
+ *   applicationId?: string | null,
+ *   triggeredBy?: string | null,
+ *   inApp?: { title: string, message: string, type?: string, actionUrl?: string, metadata?: object },
+ *   metadata?: object,
+ * }} request
+ * @returns {Promise<Record<string, { status: string, reason?: string, deliveryId?: string | null }>>}
+ */
+export async function dispatchNotification(request) {
+  let preferences = null;
+  try {
+    const { rows } = await query('SELECT get_user_notification_preferences($1) AS preferences', [request.userId]);
+    preferences = rows[0]?.preferences;
+  } catch (err) {
+    console.error('Failed to load notification preferences:', err);
+  }
+  const enabled = { ...DEFAULT_CHANNELS, ...(preferences?.[request.event] ?? {}) };
+
+  const results = {};
+  for (const channel of request.channels ?? ALL_CHANNELS) {
+    if (!enabled[channel]) {
+      results[channel] = { status: 'skipped', reason: 'preference' };
+      continue;
+    }
+    try {
+      results[channel] = channel === 'email'
+        ? await sendEmailChannel(request)
+        : channel === 'sms'
+          ? await sendSmsChannel(request)
+          : await sendInAppChannel(request);
+    } catch (err) {
+      console.error(`Failed to dispatch ${request.event} on ${channel}:`, err);
+      results[channel] = { status: 'failed', reason: err.message ?? 'Dispatch failed' };
+    }
+  }
+  return results;
+}
+
+async function sendEmailChannel(request) {
+  if (!request.email) return { status: 'skipped', reason: 'no_address' };
+  const result = await renderNotificationTemplate(request.event, 'email', request.data);
+  if (result.status !== 'rendered') return { status: 'skipped', reason: `template_${result.status}` };
+
+  const { subject, html, text, version } = result.rendered;
+  const delivery = await deliverEmail(
+    { to: request.email, subject, html, text },
+    {
+      template: request.event,
+      userId: request.userId,
+      applicationId: request.applicationId,
+      triggeredBy: request.triggeredBy,
+      metadata: { ...request.metadata, template_version: version },
+    }
+  );
+  return { status: delivery.status === 'sent' ? 'sent' : 'failed', reason: delivery.error ?? delivery.bounceReason, deliveryId: delivery.id };
+}
+
+async function sendSmsChannel(request) {
+  const { rows } = await query('SELECT sms_phone FROM notification_preferences WHERE user_id = $1', [request.userId]);
+  const phone = rows[0]?.sms_phone;
+  if (!phone) return { status: 'skipped', reason: 'no_phone' };
+  const result = await renderNotificationTemplate(request.event, 'sms', request.data);
+  if (result.status !== 'rendered') return { status: 'skipped', reason: `template_${result.status}` };
+
+  const delivery = await deliverSms(
+    { to: phone, body: result.rendered.text },
+    {
+      template: request.event,
+      userId: request.userId,
+      applicationId: request.applicationId,
+      triggeredBy: request.triggeredBy,
+      metadata: { ...request.metadata, template_version: result.rendered.version },
+    }
+  );
+  return { status: delivery.status, reason: delivery.reason ?? delivery.error, deliveryId: delivery.id };
+}
+
+async function sendInAppChannel(request) {
+  if (!request.inApp) return { status: 'skipped', reason: 'no_content' };
+  const { title, message, type = 'info', actionUrl, metadata } = request.inApp;
+  const { rows } = await query(
+    'SELECT create_user_notification($1, $2, $3, $4, $5, $6, $7) AS created',
+    [request.userId, request.event, title, message, type, actionUrl ?? null, JSON.stringify(metadata ?? {})]
+  );
+  return rows[0]?.created ? { status: 'sent' } : { status: 'skipped', reason: 'preference' };
+}
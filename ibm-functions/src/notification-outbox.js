@@ -0,0 +1,283 @@
+/**
+ * Durable notification outbox.
+ *
+ * Rows are written by the loan_applications status trigger, in the same
+ * transaction as the change, or by enqueueNotification() for notifications
+ * requested through the API. drainOutbox() delivers due rows, retries
+ * failures with exponential backoff and parks rows that exhaust their
+ * attempts as 'dead' (the dead-letter queue shown on the admin
+ * Notifications page).
+ *
+ * Each row records the outcome per channel, so a retry only repeats the
+ * channels that failed; an email that already went out is not sent twice.
+ */
+import { query } from './db.js';
+import { deliverEmail } from './email-transport.js';
+import { postToWebhook } from './external-webhooks.js';
+import { dispatchNotification } from './notification-dispatcher.js';
+import { renderNotificationTemplate } from './notification-templates.js';
+
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 60 * 60;
+const LEASE_SECONDS = 5 * 60;
+
+/** Delay before the next attempt: 30s, 1m, 2m, 4m … capped at an hour, with up to 20% jitter. */
+export function backoffSeconds(attempts) {
+  const delay = Math.min(BACKOFF_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_SECONDS);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+/** Queue a notification. Reusing an idempotency key returns the existing row's id. */
+export async function enqueueNotification({ event, payload, idempotencyKey, applicationId = null, createdBy = null }) {
+  const { rows } = await query('SELECT enqueue_notification($1, $2, $3, $4, $5) AS id', [
+    event, JSON.stringify(payload ?? {}), idempotencyKey, applicationId, createdBy,
+  ]);
+  return rows[0].id;
+}
+
+/** Queue one row per active webhook subscribed to eventType. Returns the number queued. */
+export async function enqueueWebhookNotifications({ eventType, title, message, data, idempotencyKey, applicationId = null, createdBy = null }) {
+  const { rows } = await query('SELECT enqueue_webhook_notifications($1, $2, $3, $4, $5, $6, $7) AS queued', [
+    eventType, title, message, JSON.stringify(data ?? {}), idempotencyKey, applicationId, createdBy,
+  ]);
+  return rows[0].queued;
+}
+
+// ── Delivery ──
+
+const formatCurrency = (amount) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(Number(amount) || 0);
+
+// Channels with no recorded outcome, or whose last attempt failed
+const pendingChannels = (previous, channels) =>
+  channels.filter((channel) => !previous[channel] || previous[channel].status === 'failed');
+
+async function loadApplication(applicationId) {
+  if (!applicationId) return null;
+  const { rows } = await query(
+    `SELECT la.id, la.user_id, la.email, la.first_name, la.last_name, la.business_name,
+            la.application_number, la.loan_type, la.amount_requested,
+            el.monthly_payment, el.interest_rate, el.term_months
+     FROM loan_applications la
+     LEFT JOIN existing_loans el ON el.loan_application_id = la.id
+     WHERE la.id = $1
+     ORDER BY el.created_at DESC NULLS LAST
+     LIMIT 1`,
+    [applicationId]
+  );
+  return rows[0] ?? null;
+}
+
+const applicantName = (app) =>
+  [app?.first_name, app?.last_name].filter(Boolean).join(' ') || app?.business_name || 'Applicant';
+
+// Applicants without an account only get email, and only when the template exists
+async function emailOnly(row, event, data, email) {
+  if (!email) return { status: 'skipped', reason: 'no_address' };
+  const result = await renderNotificationTemplate(event, 'email', data);
+  if (result.status !== 'rendered') return { status: 'skipped', reason: `template_${result.status}` };
+  const { subject, html, text, version } = result.rendered;
+  const delivery = await deliverEmail(
+    { to: email, subject, html, text },
+    { template: event, applicationId: row.loan_application_id, triggeredBy: row.created_by, metadata: { outbox_id: row.id, template_version: version } }
+  );
+  return { status: delivery.status === 'sent' ? 'sent' : 'failed', reason: delivery.error ?? delivery.bounceReason, deliveryId: delivery.id };
+}
+
+async function deliverStatusChange(row, previous) {
+  const { payload } = row;
+  const app = await loadApplication(payload.applicationId);
+  const event = `application_${payload.newStatus}`;
+  const data = {
+    applicantName: payload.applicantName ?? applicantName(app),
+    applicationNumber: payload.applicationNumber ?? app?.application_number,
+    newStatus: payload.newStatus,
+  };
+  const email = payload.applicantEmail ?? app?.email;
+
+  if (!app?.user_id) {
+    return pendingChannels(previous, ['email']).length ? { email: await emailOnly(row, event, data, email) } : {};
+  }
+  return dispatchNotification({
+    userId: app.user_id,
+    event,
+    data,
+    channels: pendingChannels(previous, ['email', 'sms']),
+    email,
+    applicationId: app.id,
+    triggeredBy: row.created_by,
+    metadata: { outbox_id: row.id },
+  });
+}
+
+async function deliverLoanFunded(row, previous) {
+  const { payload } = row;
+  const app = await loadApplication(payload.applicationId);
+  const loanAmount = payload.loanAmount ?? app?.amount_requested;
+  const monthlyPayment = payload.monthlyPayment ?? app?.monthly_payment;
+  const loanType = payload.loanType ?? app?.loan_type;
+  const data = {
+    applicantName: payload.applicantName ?? applicantName(app),
+    loanNumber: payload.loanNumber ?? app?.application_number,
+    loanAmount: formatCurrency(loanAmount),
+    loanType,
+    monthlyPayment: formatCurrency(monthlyPayment),
+    interestRate: Number(payload.interestRate ?? app?.interest_rate ?? 0).toFixed(2),
+    termMonths: payload.termMonths ?? app?.term_months,
+  };
+  const email = payload.applicantEmail ?? app?.email;
+  const userId = payload.userId ?? app?.user_id;
+
+  if (!userId) {
+    return pendingChannels(previous, ['email']).length ? { email: await emailOnly(row, 'loan_funded', data, email) } : {};
+  }
+  return dispatchNotification({
+    userId,
+    event: 'loan_funded',
+    data,
+    channels: pendingChannels(previous, ['email', 'sms', 'in_app']),
+    email,
+    applicationId: app?.id,
+    triggeredBy: row.created_by,
+    metadata: { outbox_id: row.id },
+    inApp: {
+      title: 'Loan Funded Successfully!',
+      message: `Your ${loanType} loan of ${data.loanAmount} has been funded. Monthly payment: ${data.monthlyPayment}`,
+      type: 'success',
+      actionUrl: '/existing-loans',
+      metadata: { loanNumber: data.loanNumber, loanAmount, loanType, monthlyPayment },
+    },
+  });
+}
+
+// Regulatory notice: email bypasses the borrower's preferences, and the
+// notice is marked sent once any channel has reached them
+async function deliverAdverseActionNotice(row, previous) {
+  const { rows } = await query('SELECT * FROM adverse_action_notices WHERE id = $1', [row.payload.noticeId]);
+  const notice = rows[0];
+  if (!notice) return { email: { status: 'skipped', reason: 'not_found' } };
+  const app = await loadApplication(notice.application_id);
+  const data = {
+    applicantName: applicantName(app),
+    applicationNumber: app?.application_number,
+    reasons: (notice.reasons ?? []).map((r) => r.reason).join('; '),
+    decisionDate: new Date(notice.decided_at).toLocaleDateString('en-US'),
+  };
+
+  const results = {};
+  if (pendingChannels(previous, ['email']).length) {
+    results.email = await emailOnly(row, 'adverse_action_notice', data, app?.email);
+  }
+  if (pendingChannels(previous, ['in_app']).length) {
+    const { rows: created } = await query(
+      'SELECT create_user_notification($1, $2, $3, $4, $5, $6, $7) AS created',
+      [
+        notice.user_id, 'adverse_action_notice', 'Notice of Action Taken',
+        `A notice explaining the decision on application #${data.applicationNumber} is in My Documents.`,
+        'info', '/my-documents', JSON.stringify({ noticeId: notice.id, applicationId: notice.application_id }),
+      ]
+    );
+    results.in_app = created[0]?.created ? { status: 'sent' } : { status: 'skipped', reason: 'preference' };
+  }
+
+  const merged = { ...previous, ...results };
+  const sent = Object.keys(merged).filter((channel) => merged[channel].status === 'sent');
+  const failures = Object.entries(merged)
+    .filter(([, outcome]) => outcome.status === 'failed')
+    .map(([channel, outcome]) => `${channel}: ${outcome.reason ?? 'failed'}`);
+  await query(
+    `UPDATE adverse_action_notices
+     SET status = CASE WHEN $2::text[] <> '{}' THEN 'sent' ELSE status END,
+         sent_at = CASE WHEN $2::text[] <> '{}' THEN COALESCE(sent_at, now()) ELSE sent_at END,
+         delivery_channels = $2,
+         last_error = $3
+     WHERE id = $1`,
+    [notice.id, sent, failures.join('; ') || (sent.length ? null : 'No delivery channel reached the borrower')]
+  );
+  return results;
+}
+
+async function deliverWebhook(row) {
+  const { webhookId, title, message, data } = row.payload;
+  const { rows } = await query('SELECT id, name, platform, webhook_url, is_active FROM external_notification_webhooks WHERE id = $1', [webhookId]);
+  const webhook = rows[0];
+  if (!webhook || !webhook.is_active) return { webhook: { status: 'skipped', reason: webhook ? 'inactive' : 'not_found' } };
+  await postToWebhook(webhook, title, message, data);
+  return { webhook: { status: 'sent' } };
+}
+
+const HANDLERS = {
+  application_status_change: deliverStatusChange,
+  loan_funded: deliverLoanFunded,
+  external_webhook: deliverWebhook,
+  adverse_action_notice: deliverAdverseActionNotice,
+};
+
+/**
+ * Deliver due outbox rows. Each batch is leased so overlapping runs skip
+ * rows another worker holds; a lease that expires (a crashed worker) makes
+ * the row due again.
+ */
+export async function drainOutbox(limit = 25) {
+  const { rows } = await query(
+    `UPDATE notification_outbox
+     SET status = 'processing', locked_until = now() + make_interval(secs => $2)
+     WHERE id IN (
+       SELECT id FROM notification_outbox
+       WHERE (status = 'pending' AND next_attempt_at <= now())
+          OR (status = 'processing' AND locked_until < now())
+       ORDER BY next_attempt_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [limit, LEASE_SECONDS]
+  );
+
+  const summary = { processed: rows.length, delivered: 0, retrying: 0, dead: 0 };
+  for (const row of rows) {
+    const previous = row.result ?? {};
+    let results = {};
+    let error = null;
+    try {
+      results = await HANDLERS[row.event](row, previous);
+    } catch (err) {
+      console.error(`Outbox ${row.event} ${row.id} failed:`, err);
+      error = err.message ?? 'Delivery failed';
+    }
+
+    const merged = { ...previous, ...results };
+    const failures = Object.entries(merged).filter(([, outcome]) => outcome.status === 'failed');
+    if (!error && failures.length) error = failures.map(([channel, outcome]) => `${channel}: ${outcome.reason ?? 'failed'}`).join('; ');
+    const attempts = row.attempts + 1;
+
+    if (!error) {
+      await query(
+        `UPDATE notification_outbox
+         SET status = 'delivered', attempts = $2, result = $3, last_error = NULL, locked_until = NULL, delivered_at = now()
+         WHERE id = $1`,
+        [row.id, attempts, JSON.stringify(merged)]
+      );
+      summary.delivered++;
+    } else if (attempts >= row.max_attempts) {
+      await query(
+        `UPDATE notification_outbox
+         SET status = 'dead', attempts = $2, result = $3, last_error = $4, locked_until = NULL, dead_at = now()
+         WHERE id = $1`,
+        [row.id, attempts, JSON.stringify(merged), error]
+      );
+      console.error(`Outbox ${row.event} ${row.id} moved to dead letter after ${attempts} attempts: ${error}`);
+      summary.dead++;
+    } else {
+      await query(
+        `UPDATE notification_outbox
+         SET status = 'pending', attempts = $2, result = $3, last_error = $4, locked_until = NULL,
+             next_attempt_at = now() + make_interval(secs => $5)
+         WHERE id = $1`,
+        [row.id, attempts, JSON.stringify(merged), error, backoffSeconds(attempts)]
+      );
+      summary.retrying++;
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,109 @@
+/**
+ * Notification template rendering.
+ *
+ * Wording lives in notification_templates and is edited by admins; bodies
+ * reference variables as {{name}} or {{name|fallback}}. Disabled templates
+ * are reported to the caller instead of being rendered.
+ * Mirrors supabase/functions/_shared/templates.ts.
+ */
+import { query } from './db.js';
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g;
+
+// Values used when previewing without an application, or for variables an application cannot supply
+const SAMPLE_VALUES = {
+  applicantName: 'Jordan Smith',
+  businessName: 'Smith Manufacturing LLC',
+  applicationNumber: 'HBF-000123',
+  loanType: 'sba_7a',
+  loanAmount: '$250,000.00',
+  newStatus: 'under_review',
+  loanNumber: 'LN-000123',
+  monthlyPayment: '$2,845.12',
+  interestRate: '9.50',
+  termMonths: '120',
+  documentName: 'your most recent bank statements',
+  amountDue: '$2,845.12',
+  dueDate: null,
+  userName: 'Jordan',
+  loginUrl: 'https://portal.halobusinessfinance.com/auth',
+  daysAgo: '3',
+  continueUrl: 'https://portal.halobusinessfinance.com/loan-applications',
+  ticketNumber: 'SUP-000042',
+  ticketSubject: 'Question about my documents',
+  ticketUpdate: 'New reply',
+};
+
+function escapeHtml(value) {
+  return String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Replace {{name}} placeholders; unknown variables fall back to their default or an empty string. */
+export function renderString(source, data, html = false) {
+  return (source || '').replace(PLACEHOLDER, (_match, name, fallback) => {
+    const value = data?.[name];
+    if (value === undefined || value === null || value === '') return (fallback ?? '').trim();
+    return html ? escapeHtml(value) : String(value);
+  });
+}
+
+/**
+ * @param {object} template notification_templates row
+ * @param {object} data variables
+ * @param {{ subject?: string, html_body?: string, text_body?: string }} [draft] unsaved wording from the editor
+ */
+export function renderTemplate(template, data, draft = {}) {
+  return {
+    subject: renderString(draft.subject ?? template.subject, data),
+    html: renderString(draft.html_body ?? template.html_body, data, true),
+    text: renderString(draft.text_body ?? template.text_body, data),
+    version: template.version,
+  };
+}
+
+export async function loadTemplate(key, channel) {
+  const { rows } = await query(
+    'SELECT * FROM notification_templates WHERE template_key = $1 AND channel = $2',
+    [key, channel]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Load and render a template for sending.
+ * @returns {Promise<{ status: 'rendered', rendered: object } | { status: 'missing' } | { status: 'disabled' }>}
+ */
+export async function renderNotificationTemplate(key, channel, data) {
+  const template = await loadTemplate(key, channel);
+  if (!template) return { status: 'missing' };
+  if (!template.is_enabled) return { status: 'disabled' };
+  return { status: 'rendered', rendered: renderTemplate(template, data || {}) };
+}
+
+/** Sample variables for previews, taken from a real application when one is given. */
+export async function sampleTemplateData(applicationId) {
+  const sample = { ...SAMPLE_VALUES, dueDate: new Date(Date.now() + 7 * 86400000).toLocaleDateString('en-US') };
+  if (!applicationId) return sample;
+
+  const { rows } = await query(
+    `SELECT application_number, first_name, last_name, business_name, loan_type, amount_requested, status
+     FROM loan_applications WHERE id = $1`,
+    [applicationId]
+  );
+  const app = rows[0];
+  if (!app) return sample;
+
+  const applicantName = [app.first_name, app.last_name].filter(Boolean).join(' ');
+  if (applicantName) {
+    sample.applicantName = applicantName;
+    sample.userName = app.first_name || applicantName;
+  }
+  if (app.business_name) sample.businessName = app.business_name;
+  if (app.application_number) sample.applicationNumber = app.application_number;
+  if (app.loan_type) sample.loanType = app.loan_type;
+  if (app.amount_requested != null) {
+    sample.loanAmount = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(Number(app.amount_requested));
+  }
+  if (app.status) sample.newStatus = app.status;
+  return sample;
+}
@@ -4,6 +4,12 @@
  *
  * POST /api/admin-dashboard  (body: { action, ...params })
  * GET  /api/admin-dashboard?action=stats
+ * POST /api/admin-dashboard  (body: { action: 'index', search, statuses, sort, cursor, limit, ... })
+ * POST /api/admin-dashboard  (body: { action: 'confirm-decision' | 'decline-decision', decisionId, notes })
+ * POST /api/admin-dashboard  (body: { action: 'record-adverse-action', noticeId, fileName, filePath, fileSize })
+ * POST /api/admin-dashboard  (body: { action: 'record-loan-document', applicationId, documentType, terms, fileName, filePath, fileSize })
+ * POST /api/admin-dashboard  (body: { action: 'payment-schedule', loanId, months })
+ * POST /api/admin-dashboard  (body: { action: 'assess-late-fees', graceDays, feePercent })
  */
 import { Router } from 'express';
 import { requireAuth, hasRoleOrHigher } from '../auth.js';
@@ -12,10 +18,17 @@ import { z } from 'zod';
 
 const router = Router();
 
-// ── Middleware: require admin ──
+// Workflow and document actions open to underwriters; the database re-checks the actor's role
+const UNDERWRITER_ACTIONS = new Set([
+  'update-status', 'transitions', 'confirm-decision', 'decline-decision', 'record-adverse-action', 'record-loan-document',
+]);
+
+// ── Middleware: require admin, or underwriter for the workflow actions ──
 async function requireAdmin(req, res, next) {
-  const isAdmin = await hasRoleOrHigher(req.userId, 'admin');
-  if (!isAdmin) {
+  // Resolved the same way as in the route handler
+  const action = req.method === 'POST' && req.body ? (req.body.action || 'stats') : (req.query.action || 'stats');
+  const minimumRole = UNDERWRITER_ACTIONS.has(action) ? 'underwriter' : 'admin';
+  if (!(await hasRoleOrHigher(req.userId, minimumRole))) {
     return res.status(403).json({ error: 'Admin access required' });
   }
   next();
@@ -53,9 +66,14 @@ router.all('/', requireAuth, requireAdmin, async (req, res) => {
 
     switch (action) {
       case 'stats':
-        return await getApplicationStats(res);
+        return await getApplicationStats(res, req.userId);
       case 'applications':
         return await getFilteredApplications(res, body);
+      case 'index': {
+        const v = indexSchema.safeParse(body);
+        if (!v.success) return res.status(400).json({ error: 'Invalid index query', details: v.error.format() });
+        return await searchApplicationIndex(res, req.userId, v.data);
+      }
       case 'update-status': {
         const schema = z.object({
           applicationId: z.string().uuid(),
@@ -64,7 +82,60 @@ router.all('/', requireAuth, requireAdmin, async (req, res) => {
         });
         const v = schema.safeParse(body);
         if (!v.success) return res.status(400).json({ error: 'Invalid update data', details: v.error.format() });
-        return await updateApplicationStatus(res, v.data.applicationId, v.data.status, v.data.notes);
+        return await updateApplicationStatus(res, req.userId, v.data.applicationId, v.data.status, v.data.notes);
+      }
+      case 'transitions': {
+        const v = z.object({ applicationId: z.string().uuid() }).safeParse(body);
+        if (!v.success) return res.status(400).json({ error: 'Invalid request', details: v.error.format() });
+        return await getApplicationTransitions(res, req.userId, v.data.applicationId);
+      }
+      case 'confirm-decision':
+      case 'decline-decision': {
+        const v = z.object({ decisionId: z.string().uuid(), notes: z.string().max(1000).optional() }).safeParse(body);
+        if (!v.success) return res.status(400).json({ error: 'Invalid request', details: v.error.format() });
+        return await resolveStatusDecision(res, req.userId, v.data.decisionId, action === 'confirm-decision', v.data.notes);
+      }
+      case 'record-adverse-action': {
+        const schema = z.object({
+          noticeId: z.string().uuid(),
+          fileName: z.string().min(1).max(255),
+          filePath: z.string().min(1).max(1024),
+          fileSize: z.number().int().nonnegative(),
+        });
+        const v = schema.safeParse(body);
+        if (!v.success) return res.status(400).json({ error: 'Invalid notice data', details: v.error.format() });
+        return await recordAdverseActionNotice(res, req.userId, v.data);
+      }
+      case 'record-loan-document': {
+        const schema = z.object({
+          applicationId: z.string().uuid(),
+          documentType: z.enum(['term_sheet', 'commitment_letter']),
+          terms: z.record(z.unknown()),
+          fileName: z.string().min(1).max(255),
+          filePath: z.string().min(1).max(1024),
+          fileSize: z.number().int().nonnegative(),
+        });
+        const v = schema.safeParse(body);
+        if (!v.success) return res.status(400).json({ error: 'Invalid document data', details: v.error.format() });
+        return await recordLoanDocument(res, req.userId, v.data);
+      }
+      case 'payment-schedule': {
+        const schema = z.object({
+          loanId: z.string().uuid().optional(),
+          months: z.number().int().min(1).max(360).optional(),
+        });
+        const v = schema.safeParse(body);
+        if (!v.success) return res.status(400).json({ error: 'Invalid schedule request', details: v.error.format() });
+        return await generatePaymentSchedule(res, req.userId, v.data);
+      }
+      case 'assess-late-fees': {
+        const schema = z.object({
+          graceDays: z.number().int().min(0).max(365).optional(),
+          feePercent: z.number().min(0).max(100).optional(),
+        });
+        const v = schema.safeParse(body);
+        if (!v.success) return res.status(400).json({ error: 'Invalid late fee request', details: v.error.format() });
+        return await assessLateFees(res, req.userId, v.data);
       }
       case 'export':
         return await exportApplications(res, body);
@@ -81,24 +152,47 @@ router.all('/', requireAuth, requireAdmin, async (req, res) => {
 
 // ── Stats ──
 
-async function getApplicationStats(res) {
-  const { rows: apps } = await query('SELECT * FROM loan_applications');
-  const now = new Date();
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const startOfWeek = new Date(now);
-  startOfWeek.setDate(now.getDate() - now.getDay());
-
-  const stats = { total: apps.length, byStatus: {}, byLoanType: {}, totalAmount: 0, averageAmount: 0, thisMonth: 0, thisWeek: 0 };
-  for (const a of apps) {
-    stats.byStatus[a.status] = (stats.byStatus[a.status] || 0) + 1;
-    stats.byLoanType[a.loan_type] = (stats.byLoanType[a.loan_type] || 0) + 1;
-    if (a.amount_requested) stats.totalAmount += Number(a.amount_requested);
-    const d = new Date(a.created_at);
-    if (d >= startOfMonth) stats.thisMonth++;
-    if (d >= startOfWeek) stats.thisWeek++;
-  }
-  stats.averageAmount = apps.length ? stats.totalAmount / apps.length : 0;
-  return res.json({ stats });
+async function getApplicationStats(res, actorId) {
+  // Aggregated in the database so the whole table is never loaded
+  const { rows } = await query('SELECT public.get_application_stats($1) AS stats', [actorId]);
+  return res.json({ stats: rows[0]?.stats });
+}
+
+// ── Application index (keyset pagination, multi-column sort, full-text search) ──
+
+const SORT_COLUMNS = ['created_at', 'updated_at', 'amount_requested', 'application_number', 'business_name', 'last_name', 'status', 'loan_type'];
+
+const indexSchema = z.object({
+  search: z.string().max(100).optional(),
+  statuses: z.array(z.string().max(50)).max(20).optional(),
+  loanTypes: z.array(z.string().max(100)).max(20).optional(),
+  dateFrom: z.string().datetime({ offset: true }).optional(),
+  dateTo: z.string().datetime({ offset: true }).optional(),
+  amountMin: z.number().nonnegative().optional(),
+  amountMax: z.number().nonnegative().optional(),
+  sort: z.array(z.object({ column: z.enum(SORT_COLUMNS), direction: z.enum(['asc', 'desc']) })).max(3).optional(),
+  cursor: z.string().max(2000).optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
+async function searchApplicationIndex(res, actorId, q) {
+  const { rows } = await query(
+    `SELECT public.search_loan_applications($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9, $10, $11) AS page`,
+    [
+      q.search || null,
+      q.statuses?.length ? q.statuses : null,
+      q.loanTypes?.length ? q.loanTypes : null,
+      q.dateFrom || null,
+      q.dateTo || null,
+      q.amountMin ?? null,
+      q.amountMax ?? null,
+      q.sort ? JSON.stringify(q.sort) : null,
+      q.cursor || null,
+      q.limit ?? 25,
+      actorId,
+    ]
+  );
+  return res.json(rows[0].page);
 }
 
 // ── Filtered applications ──
@@ -148,24 +242,109 @@ async function getFilteredApplications(res, filters) {
 
 // ── Update status ──
 
-async function updateApplicationStatus(res, applicationId, status, notes) {
-  const { rows } = await query('SELECT * FROM loan_applications WHERE id = $1', [applicationId]);
-  if (!rows.length) return res.status(404).json({ error: 'Application not found' });
-  const app = rows[0];
+async function updateApplicationStatus(res, actorId, applicationId, status, notes) {
+  // The workflow checks the transition, the actor's role and the guards
+  const { rows } = await query(
+    'SELECT public.transition_application_status($1, $2, $3, $4) AS result',
+    [applicationId, status, actorId, notes || null]
+  );
+  const result = rows[0]?.result;
+  if (!result?.allowed) {
+    return res.status(409).json({ error: 'Status change not allowed', reasons: result?.reasons ?? [] });
+  }
 
-  const loanDetails = {
-    ...(app.loan_details || {}),
-    status_notes: notes || '',
-    status_updated_at: new Date().toISOString(),
-  };
+  // Above the dual approval threshold the change waits for a second approver
+  if (result.pending_confirmation) {
+    return res.status(202).json({
+      success: true,
+      pendingConfirmation: true,
+      decision: result.decision,
+      message: 'Status change is awaiting confirmation by a second approver',
+    });
+  }
+
+  // The status trigger has queued borrower and webhook notifications in notification_outbox
+  console.log(`Application ${applicationId} status updated to: ${status}`);
+  return res.json({ success: true, application: result.application, message: 'Application status updated successfully' });
+}
+
+// ── Workflow transitions ──
+
+async function getApplicationTransitions(res, actorId, applicationId) {
+  const { rows } = await query('SELECT public.get_application_transitions($1, $2) AS transitions', [applicationId, actorId]);
+  return res.json({ transitions: rows[0]?.transitions ?? [] });
+}
+
+// ── Maker-checker decisions ──
+
+async function resolveStatusDecision(res, actorId, decisionId, confirm, notes) {
+  let result;
+  try {
+    const fn = confirm ? 'confirm_status_decision' : 'decline_status_decision';
+    const { rows } = await query(`SELECT to_jsonb(public.${fn}($1, $2, $3)) AS result`, [decisionId, actorId, notes || null]);
+    result = rows[0]?.result;
+  } catch (err) {
+    // Raised by the decision functions: not pending, same user, status moved on
+    if (err.code === 'P0001') return res.status(409).json({ error: err.message });
+    throw err;
+  }
+
+  if (confirm && !result?.allowed) {
+    return res.status(409).json({ error: 'Status change not allowed', reasons: result?.reasons ?? [] });
+  }
+  return res.json(confirm
+    ? { success: true, application: result.application, decision: result.decision }
+    : { success: true, decision: result });
+}
+
+// ── Adverse action notices ──
 
-  const { rows: updated } = await query(
-    `UPDATE loan_applications SET status = $1, updated_at = NOW(), loan_details = $2 WHERE id = $3 RETURNING *`,
-    [status, JSON.stringify(loanDetails), applicationId]
+async function recordAdverseActionNotice(res, actorId, { noticeId, fileName, filePath, fileSize }) {
+  try {
+    const { rows } = await query(
+      'SELECT to_jsonb(public.record_adverse_action_notice($1, $2, $3, $4, $5)) AS notice',
+      [noticeId, fileName, filePath, fileSize, actorId]
+    );
+    return res.json({ success: true, notice: rows[0]?.notice });
+  } catch (err) {
+    // Raised by record_adverse_action_notice: already sent, wrong folder
+    if (err.code === 'P0001') return res.status(409).json({ error: err.message });
+    throw err;
+  }
+}
+
+// ── Term sheets and commitment letters ──
+
+async function recordLoanDocument(res, actorId, { applicationId, documentType, terms, fileName, filePath, fileSize }) {
+  try {
+    const { rows } = await query(
+      'SELECT to_jsonb(public.record_loan_document($1, $2, $3, $4, $5, $6, $7)) AS document',
+      [applicationId, documentType, JSON.stringify(terms), fileName, filePath, fileSize, actorId]
+    );
+    return res.json({ success: true, document: rows[0]?.document });
+  } catch (err) {
+    // Raised by record_loan_document: not approved, wrong folder
+    if (err.code === 'P0001') return res.status(409).json({ error: err.message });
+    throw err;
+  }
+}
+
+// ── Loan payment schedule and late fees ──
+
+async function generatePaymentSchedule(res, actorId, { loanId, months }) {
+  const { rows } = await query(
+    'SELECT public.generate_loan_payment_schedule($1, $2, $3) AS created',
+    [loanId ?? null, months ?? 12, actorId]
   );
+  return res.json({ success: true, created: rows[0]?.created ?? 0 });
+}
 
-  console.log(`Application ${applicationId} status updated to: ${status}`);
-  return res.json({ success: true, application: updated[0], message: 'Application status updated successfully' });
+async function assessLateFees(res, actorId, { graceDays, feePercent }) {
+  const { rows } = await query(
+    'SELECT public.assess_late_loan_payments($1, $2, $3) AS assessed',
+    [graceDays ?? 10, feePercent ?? 5, actorId]
+  );
+  return res.json({ success: true, assessed: rows[0]?.assessed ?? 0 });
 }
 
 // ── Export ──
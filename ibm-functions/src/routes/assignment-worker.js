@@ -0,0 +1,37 @@
+/**
+ * Assignment Worker — IBM Cloud Function (Node.js 20 / Express)
+ *
+ * POST /api/assignment-worker/sweep?token=<ASSIGNMENT_WORKER_SECRET>
+ *   Reassigns open applications whose underwriter missed the SLA or is
+ *   out of office, then routes any applications still unassigned using
+ *   the strategy in system_settings.assignment_routing. Intended for a
+ *   scheduler, so the shared secret authenticates the caller.
+ */
+import { Router } from 'express';
+import { timingSafeEqual } from 'node:crypto';
+import { query } from '../db.js';
+
+const router = Router();
+
+function validToken(token) {
+  const secret = process.env.ASSIGNMENT_WORKER_SECRET;
+  if (!secret || typeof token !== 'string') return false;
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+router.post('/sweep', async (req, res) => {
+  try {
+    if (!validToken(req.query.token)) return res.status(401).json({ error: 'Invalid worker token' });
+    // Reassign first so work freed from absent underwriters is not counted as their load
+    const { rows: reassignedRows } = await query('SELECT reassign_stale_assignments() AS reassigned');
+    const { rows: pendingRows } = await query('SELECT auto_assign_pending_applications() AS summary');
+    return res.json({ success: true, reassigned: reassignedRows[0].reassigned, ...pendingRows[0].summary });
+  } catch (err) {
+    console.error('Assignment sweep error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,266 @@
+/**
+ * Bank Aggregation — IBM Cloud Function (Node.js 20 / Express)
+ * Mirrors supabase/functions/bank-aggregation/index.ts
+ *
+ * POST /api/bank-aggregation
+ * Body: { action, ...params }
+ *   link-token    Start a Link session with the configured provider.
+ *   exchange      Swap the public token from Link for an access token,
+ *                 record the connection and import its accounts.
+ *   sync          Refresh one connection's balances and transactions.
+ *   connections   Linked banks and accounts (staff may pass userId).
+ *   transactions  Imported transactions (staff may pass userId).
+ *   remove        Delete a self-reported account, or disconnect the
+ *                 bank behind a linked one.
+ *
+ * POST /api/bank-aggregation/sync-due?token=<BANK_SYNC_WORKER_SECRET>&limit=25
+ *   Scheduled refresh of connections whose next_sync_at has passed.
+ *   No bearer token.
+ *
+ * Access tokens stay in bank_connection_tokens and never leave the server.
+ */
+import { Router } from 'express';
+import { timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+import { requireAuth, hasRoleOrHigher } from '../auth.js';
+import { checkRateLimit, rateLimitHeaders } from '../rate-limit.js';
+import { query } from '../db.js';
+import { collectSync, getAggregationProvider } from '../bank-aggregation.js';
+
+const router = Router();
+
+// Linking and refreshing call the provider, which bills per request
+const SYNC_LIMIT = { maxRequests: 10, windowSeconds: 3600 };
+
+const schemas = {
+  'link-token': z.object({}),
+  exchange: z.object({
+    publicToken: z.string().min(1).max(500),
+    institution: z.object({ id: z.string().max(100).nullable().optional(), name: z.string().min(1).max(200) }),
+    isBusiness: z.boolean().default(false),
+  }),
+  sync: z.object({ connectionId: z.string().uuid() }),
+  connections: z.object({ userId: z.string().uuid().optional() }),
+  transactions: z.object({
+    userId: z.string().uuid().optional(),
+    accountIds: z.array(z.string().uuid()).max(50).optional(),
+    since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    limit: z.number().int().min(1).max(5000).default(500),
+  }),
+  remove: z.object({ accountId: z.string().uuid() }),
+};
+
+function validWorkerToken(token) {
+  const secret = process.env.BANK_SYNC_WORKER_SECRET;
+  if (!secret || typeof token !== 'string') return false;
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const action = req.body?.action;
+    const schema = schemas[action];
+    if (!schema) return res.status(400).json({ error: 'Invalid action' });
+
+    const validation = schema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid request format', details: validation.error.format() });
+    }
+
+    const isStaff = await hasRoleOrHigher(req.userId, 'underwriter');
+    const data = validation.data;
+
+    // Only staff look at someone else's banking
+    if (data.userId && data.userId !== req.userId && !isStaff) {
+      return res.status(403).json({ error: 'Underwriter access required' });
+    }
+
+    if (action === 'exchange' || action === 'sync') {
+      const rlResult = await checkRateLimit(req.userId, `bank-aggregation:${action}`, SYNC_LIMIT.maxRequests, SYNC_LIMIT.windowSeconds);
+      res.set(rateLimitHeaders(SYNC_LIMIT.maxRequests, rlResult));
+      if (!rlResult.allowed) return res.status(429).json({ error: 'Too many bank refreshes. Please try again later.' });
+    }
+
+    const ip = (req.headers['x-forwarded-for']?.toString().split(',')[0]?.trim()) || req.headers['x-real-ip'] || null;
+
+    switch (action) {
+      case 'link-token':
+        return res.json(await getAggregationProvider().createLinkToken(req.userId));
+      case 'exchange':
+        return await exchange(req, res, ip, data);
+      case 'sync':
+        return await refresh(req, res, isStaff, data.connectionId);
+      case 'connections':
+        return res.json(await listConnections(data.userId ?? req.userId));
+      case 'transactions':
+        return res.json(await listTransactions(data.userId ?? req.userId, data));
+      case 'remove':
+        return await removeAccount(req, res, ip, data.accountId);
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (err) {
+    console.error('bank-aggregation error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/sync-due', async (req, res) => {
+  try {
+    if (!validWorkerToken(req.query.token)) return res.status(401).json({ error: 'Invalid worker token' });
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 25, 1), 200);
+
+    const { rows } = await query(
+      `SELECT * FROM bank_connections
+       WHERE status <> 'disconnected' AND next_sync_at <= now()
+       ORDER BY next_sync_at
+       LIMIT $1`,
+      [limit]
+    );
+    // One at a time so a large backlog does not trip the provider's rate limits
+    let failed = 0;
+    for (const connection of rows) {
+      const { failure } = await syncConnection(connection);
+      if (failure) failed++;
+    }
+    return res.json({ success: true, synced: rows.length - failed, failed });
+  } catch (err) {
+    console.error('Bank sync worker error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ── Handlers ──
+
+// Pulls balances and transaction changes since the connection's cursor and records them.
+// Provider failures are recorded on the connection rather than thrown.
+async function syncConnection(connection) {
+  let failure = null;
+  let result = null;
+  try {
+    const provider = getAggregationProvider(connection.provider);
+    if (provider.provider !== connection.provider) {
+      throw new Error(`The ${connection.provider} aggregation provider is not configured`);
+    }
+    const { rows } = await query('SELECT access_token FROM bank_connection_tokens WHERE connection_id = $1', [connection.id]);
+    if (!rows[0]) throw new Error('No access token on file for this connection');
+    result = await collectSync(provider, rows[0].access_token, connection.sync_cursor);
+  } catch (err) {
+    console.error(`Bank sync for connection ${connection.id} failed:`, err);
+    failure = err.message ?? 'Bank sync failed';
+  }
+
+  const { rows } = await query(
+    'SELECT to_jsonb(public.record_bank_sync($1, $2, $3, $4, $5, $6)) AS connection',
+    [
+      connection.id,
+      result ? JSON.stringify(result.accounts) : null,
+      result ? JSON.stringify(result.transactions) : null,
+      result?.removed ?? null,
+      result?.cursor ?? null,
+      failure,
+    ]
+  );
+  return { connection: rows[0].connection, failure };
+}
+
+async function exchange(req, res, ip, data) {
+  const provider = getAggregationProvider();
+  let item;
+  try {
+    item = await provider.exchangePublicToken(data.publicToken);
+  } catch (err) {
+    console.error('Public token exchange failed:', err);
+    return res.status(502).json({ error: 'The bank could not be linked. Please try again.' });
+  }
+
+  let connection;
+  try {
+    const { rows } = await query(
+      'SELECT to_jsonb(public.create_bank_connection($1, $2, $3, $4, $5, $6, $7, $8)) AS connection',
+      [
+        req.userId, provider.provider, item.itemId, data.institution.id ?? null,
+        data.institution.name, data.isBusiness, item.accessToken, ip,
+      ]
+    );
+    connection = rows[0].connection;
+  } catch (err) {
+    // The same item linked twice
+    if (err.code === '23505') return res.status(409).json({ error: 'This bank is already linked' });
+    throw err;
+  }
+
+  const { connection: synced, failure } = await syncConnection(connection);
+  if (failure) {
+    return res.status(502).json({ error: 'The bank was linked but its accounts could not be imported yet', connection: synced });
+  }
+  return res.json({ connection: synced });
+}
+
+async function refresh(req, res, isStaff, connectionId) {
+  const { rows } = await query('SELECT * FROM bank_connections WHERE id = $1', [connectionId]);
+  const connection = rows[0];
+  if (!connection || (!isStaff && connection.user_id !== req.userId)) {
+    return res.status(404).json({ error: 'Bank connection not found' });
+  }
+  if (connection.status === 'disconnected') {
+    return res.status(409).json({ error: 'This bank has been disconnected. Link it again to resume syncing.' });
+  }
+
+  const { connection: synced, failure } = await syncConnection(connection);
+  if (failure) return res.status(502).json({ error: 'The bank could not be reached. Please try again later.', connection: synced });
+  return res.json({ connection: synced });
+}
+
+async function listConnections(userId) {
+  const [connections, accounts] = await Promise.all([
+    query('SELECT * FROM bank_connections WHERE user_id = $1 ORDER BY created_at DESC', [userId]),
+    query('SELECT * FROM bank_accounts WHERE user_id = $1 ORDER BY created_at DESC', [userId]),
+  ]);
+  return { connections: connections.rows, accounts: accounts.rows };
+}
+
+async function listTransactions(userId, data) {
+  const { rows } = await query(
+    `SELECT * FROM bank_transactions
+     WHERE user_id = $1
+       AND ($2::uuid[] IS NULL OR account_id = ANY ($2))
+       AND ($3::date IS NULL OR posted_on >= $3)
+     ORDER BY posted_on DESC, created_at DESC
+     LIMIT $4`,
+    [userId, data.accountIds ?? null, data.since ?? null, data.limit]
+  );
+  return { transactions: rows };
+}
+
+// Self-reported accounts are deleted; linked ones disconnect their whole connection
+async function removeAccount(req, res, ip, accountId) {
+  const { rows } = await query('SELECT * FROM bank_accounts WHERE id = $1', [accountId]);
+  const account = rows[0];
+  if (!account || account.user_id !== req.userId) return res.status(404).json({ error: 'Bank account not found' });
+
+  if (!account.connection_id) {
+    await query('DELETE FROM bank_accounts WHERE id = $1', [accountId]);
+    return res.json({ success: true, removed: 'account' });
+  }
+
+  const [connection, token] = await Promise.all([
+    query('SELECT * FROM bank_connections WHERE id = $1', [account.connection_id]),
+    query('SELECT access_token FROM bank_connection_tokens WHERE connection_id = $1', [account.connection_id]),
+  ]);
+  if (token.rows[0]) {
+    // Revoking the provider's access is best effort; we forget the token either way
+    await getAggregationProvider(connection.rows[0].provider).removeItem(token.rows[0].access_token)
+      .catch((err) => console.error(`Could not remove item for connection ${account.connection_id}:`, err));
+  }
+
+  const { rows: disconnected } = await query(
+    'SELECT to_jsonb(public.disconnect_bank_connection($1, $2, $3)) AS connection',
+    [account.connection_id, req.userId, ip]
+  );
+  return res.json({ success: true, removed: 'connection', connection: disconnected[0].connection });
+}
+
+export default router;
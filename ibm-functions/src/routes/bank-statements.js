@@ -0,0 +1,165 @@
+/**
+ * Bank Statements — IBM Cloud Function (Node.js 20 / Express)
+ * Mirrors supabase/functions/bank-statements/index.ts
+ *
+ * POST /api/bank-statements
+ * Body: { action, ...params }
+ *   parse   Read an uploaded Bank Statements document (CSV, OFX/QFX or
+ *           text-based PDF) from storage, import its transactions, check
+ *           it for tampering and attach it to the borrower's application
+ *           (the latest one unless applicationId is given).
+ *   list    Uploaded statements and their imports (staff may pass userId).
+ *
+ * Borrowers parse their own uploads; underwriters parse any borrower's.
+ */
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, hasRoleOrHigher } from '../auth.js';
+import { checkRateLimit, rateLimitHeaders } from '../rate-limit.js';
+import { query } from '../db.js';
+import { getObject } from '../cos.js';
+import { checkStatementContinuity, checkStatementIntegrity, parseStatement } from '../statement-parser.js';
+
+const router = Router();
+
+// Reading large PDFs is CPU-heavy
+const PARSE_LIMIT = { maxRequests: 30, windowSeconds: 3600 };
+
+const schemas = {
+  parse: z.object({
+    documentId: z.string().uuid(),
+    applicationId: z.string().uuid().optional(),
+  }),
+  list: z.object({ userId: z.string().uuid().optional() }),
+};
+
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const action = req.body?.action;
+    const schema = schemas[action];
+    if (!schema) return res.status(400).json({ error: 'Invalid action' });
+
+    const validation = schema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid request format', details: validation.error.format() });
+    }
+
+    const isStaff = await hasRoleOrHigher(req.userId, 'underwriter');
+    const data = validation.data;
+
+    // Only staff look at someone else's statements
+    if (data.userId && data.userId !== req.userId && !isStaff) {
+      return res.status(403).json({ error: 'Underwriter access required' });
+    }
+
+    if (action === 'parse') {
+      const rlResult = await checkRateLimit(req.userId, 'bank-statements:parse', PARSE_LIMIT.maxRequests, PARSE_LIMIT.windowSeconds);
+      res.set(rateLimitHeaders(PARSE_LIMIT.maxRequests, rlResult));
+      if (!rlResult.allowed) return res.status(429).json({ error: 'Too many statements parsed. Please try again later.' });
+    }
+
+    const ip = (req.headers['x-forwarded-for']?.toString().split(',')[0]?.trim()) || req.headers['x-real-ip'] || null;
+
+    switch (action) {
+      case 'parse':
+        return await parse(req, res, isStaff, ip, data);
+      case 'list':
+        return res.json(await listStatements(data.userId ?? req.userId));
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (err) {
+    console.error('bank-statements error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ── Handlers ──
+
+// Other parsed statements of the same account, to check this one continues from them
+async function neighbouringStatements(userId, documentId, statement) {
+  const { rows } = await query(
+    `SELECT to_char(i.period_start, 'YYYY-MM-DD') AS period_start, to_char(i.period_end, 'YYYY-MM-DD') AS period_end,
+            i.opening_balance, i.closing_balance
+     FROM bank_statement_imports i
+     JOIN borrower_documents d ON d.id = i.document_id
+     WHERE i.user_id = $1 AND i.status = 'parsed' AND d.is_latest_version AND i.document_id <> $2
+       AND lower(COALESCE(i.institution_name, '')) = lower($3)
+       AND i.account_mask IS NOT DISTINCT FROM $4`,
+    [userId, documentId, statement.institution_name ?? '', statement.account_mask]
+  );
+  return rows;
+}
+
+// Unreadable statements are recorded as failed imports for the borrower to replace, not thrown
+async function parse(req, res, isStaff, ip, data) {
+  const { rows: documents } = await query(
+    'SELECT id, user_id, file_name, file_path, document_category FROM borrower_documents WHERE id = $1',
+    [data.documentId]
+  );
+  const document = documents[0];
+  if (!document || (!isStaff && document.user_id !== req.userId)) {
+    return res.status(404).json({ error: 'Document not found' });
+  }
+  if (document.document_category !== 'bank_statements') {
+    return res.status(400).json({ error: 'Only documents filed under Bank Statements can be parsed' });
+  }
+
+  const bytes = await getObject(document.file_path);
+
+  let statement = null;
+  let failure = null;
+  try {
+    statement = await parseStatement(document.file_name, bytes);
+  } catch (err) {
+    console.error(`Parsing statement ${document.id} failed:`, err);
+    failure = err instanceof Error ? err.message : 'The statement could not be read';
+  }
+
+  const flags = statement
+    ? [
+      ...checkStatementIntegrity(statement),
+      ...checkStatementContinuity(statement, await neighbouringStatements(document.user_id, document.id, statement)),
+    ]
+    : [];
+
+  try {
+    const { rows } = await query(
+      'SELECT to_jsonb(public.record_statement_import($1, $2, $3, $4, $5, $6, $7)) AS import',
+      [
+        document.id,
+        data.applicationId ?? null,
+        statement ? JSON.stringify(statement) : null,
+        JSON.stringify(flags),
+        failure,
+        req.userId,
+        ip,
+      ]
+    );
+    return res.json({ import: rows[0].import });
+  } catch (err) {
+    if (err.code === 'P0001') return res.status(409).json({ error: err.message });
+    throw err;
+  }
+}
+
+async function listStatements(userId) {
+  const [documents, imports] = await Promise.all([
+    query(
+      `SELECT id, file_name, file_type, file_size, uploaded_at, version_number
+       FROM borrower_documents
+       WHERE user_id = $1 AND document_category = 'bank_statements' AND is_latest_version
+       ORDER BY uploaded_at DESC`,
+      [userId]
+    ),
+    query(
+      `SELECT to_jsonb(i) AS import FROM bank_statement_imports i
+       WHERE user_id = $1
+       ORDER BY period_end DESC NULLS LAST`,
+      [userId]
+    ),
+  ]);
+  return { documents: documents.rows, imports: imports.rows.map((r) => r.import) };
+}
+
+export default router;
@@ -0,0 +1,152 @@
+/**
+ * Cash-Flow Analysis — IBM Cloud Function (Node.js 20 / Express)
+ * Mirrors supabase/functions/cash-flow-analysis/index.ts
+ *
+ * POST /api/cash-flow-analysis
+ * Body: { action, ...params }
+ *   analyze   Analyze the borrower's imported transactions for an
+ *             application and the proposed terms, record the run and
+ *             re-score the application with the verified cash flow.
+ *   history   Previous analyses of an application, newest first.
+ *
+ * Underwriters only.
+ */
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, hasRoleOrHigher } from '../auth.js';
+import { checkRateLimit, rateLimitHeaders } from '../rate-limit.js';
+import { query } from '../db.js';
+import { analysisWindow, analyzeCashFlow, cashFlowScoringInput } from '../cash-flow.js';
+import { loadActiveRuleSet, scoreApplication } from '../underwriting.js';
+
+const router = Router();
+
+const ANALYZE_LIMIT = { maxRequests: 30, windowSeconds: 3600 };
+
+const schemas = {
+  analyze: z.object({
+    applicationId: z.string().uuid(),
+    months: z.number().int().min(3).max(24).default(12),
+    accountIds: z.array(z.string().uuid()).min(1).max(50).optional(),
+    terms: z.object({
+      amount: z.number().positive().max(100000000),
+      annualRate: z.number().min(0).max(50),
+      termMonths: z.number().int().min(1).max(480),
+      interestOnlyMonths: z.number().int().min(0).max(120).default(0),
+    }),
+  }),
+  history: z.object({ applicationId: z.string().uuid() }),
+};
+
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    if (!(await hasRoleOrHigher(req.userId, 'underwriter'))) {
+      return res.status(403).json({ error: 'Underwriter access required' });
+    }
+
+    const action = req.body?.action;
+    const schema = schemas[action];
+    if (!schema) return res.status(400).json({ error: 'Invalid action' });
+
+    const validation = schema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid request format', details: validation.error.format() });
+    }
+    const data = validation.data;
+
+    if (action === 'analyze') {
+      const rlResult = await checkRateLimit(req.userId, 'cash-flow-analysis:analyze', ANALYZE_LIMIT.maxRequests, ANALYZE_LIMIT.windowSeconds);
+      res.set(rateLimitHeaders(ANALYZE_LIMIT.maxRequests, rlResult));
+      if (!rlResult.allowed) return res.status(429).json({ error: 'Too many analyses. Please try again later.' });
+    }
+
+    const ip = (req.headers['x-forwarded-for']?.toString().split(',')[0]?.trim()) || req.headers['x-real-ip'] || null;
+
+    switch (action) {
+      case 'analyze':
+        return await analyze(req, res, ip, data);
+      case 'history':
+        return res.json(await getHistory(data.applicationId));
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (err) {
+    console.error('cash-flow-analysis error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ── Handlers ──
+
+async function analyze(req, res, ip, data) {
+  const { rows: applications } = await query('SELECT * FROM loan_applications WHERE id = $1', [data.applicationId]);
+  const application = applications[0];
+  if (!application) return res.status(404).json({ error: 'Loan application not found' });
+
+  // Linked and statement accounts only: self-reported balances have no transactions behind them
+  const { rows: accounts } = await query(
+    `SELECT id, account_type, balance FROM bank_accounts
+     WHERE user_id = $1 AND source IN ('aggregated', 'statement') AND status <> 'disconnected'
+       AND ($2::uuid[] IS NULL OR id = ANY ($2))`,
+    [application.user_id, data.accountIds ?? null]
+  );
+  if (accounts.length === 0) {
+    return res.status(409).json({ error: 'The borrower has no linked bank accounts or parsed statements to analyze' });
+  }
+
+  const window = analysisWindow(data.months);
+  const [transactions, existingLoans] = await Promise.all([
+    query(
+      `SELECT account_id, to_char(posted_on, 'YYYY-MM-DD') AS posted_on, amount, description, merchant_name, category, pending
+       FROM bank_transactions
+       WHERE account_id = ANY ($1) AND NOT pending AND posted_on >= $2
+       ORDER BY posted_on`,
+      [accounts.map((a) => a.id), window.start]
+    ),
+    // The loan this application funded is the one being sized, not existing debt
+    query(
+      `SELECT monthly_payment FROM existing_loans
+       WHERE user_id = $1 AND status <> 'paid_off'
+         AND loan_application_id IS DISTINCT FROM $2`,
+      [application.user_id, application.id]
+    ),
+  ]);
+
+  const analysis = analyzeCashFlow({
+    accounts,
+    transactions: transactions.rows,
+    existingLoans: existingLoans.rows,
+    terms: data.terms,
+    window,
+  });
+  if (analysis.month_count === 0) {
+    return res.status(409).json({ error: 'Not enough transaction history to analyze yet' });
+  }
+
+  const ruleSet = await loadActiveRuleSet(application.loan_type);
+  const underwriting = scoreApplication({ ...application, cash_flow: cashFlowScoringInput(analysis) }, ruleSet);
+
+  try {
+    const { rows } = await query(
+      'SELECT to_jsonb(public.record_cash_flow_analysis($1, $2, $3, $4, $5)) AS analysis',
+      [application.id, JSON.stringify(analysis), JSON.stringify(underwriting), req.userId, ip]
+    );
+    return res.json({ analysis: rows[0].analysis });
+  } catch (err) {
+    if (err.code === 'P0001') return res.status(409).json({ error: err.message });
+    throw err;
+  }
+}
+
+async function getHistory(applicationId) {
+  const { rows } = await query(
+    `SELECT * FROM cash_flow_analyses
+     WHERE application_id = $1
+     ORDER BY created_at DESC
+     LIMIT 20`,
+    [applicationId]
+  );
+  return { analyses: rows };
+}
+
+export default router;
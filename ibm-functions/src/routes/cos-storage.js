@@ -6,61 +6,15 @@
  * POST   /api/storage/signed-url      — Generate a time-limited download URL
  * DELETE /api/storage/delete           — Delete object(s)
  *
- * Environment variables:
- *   IBM_COS_API_KEY       — IAM API key for COS
- *   IBM_COS_ENDPOINT      — e.g. https://s3.us-south.cloud-object-storage.appdomain.cloud
- *   IBM_COS_BUCKET        — e.g. hbf-portal-bucket
- *   IBM_COS_INSTANCE_ID   — COS service instance CRN
+ * COS credentials and configuration: see ../cos.js.
  */
 import { Router } from 'express';
-import { requireAuth } from '../auth.js';
+import { requireAuth, hasRoleOrHigher } from '../auth.js';
+import { getCosConfig, getIamToken } from '../cos.js';
 import crypto from 'crypto';
 
 const router = Router();
 
-// ── IAM token cache ──
-
-let cachedToken = null;
-let tokenExpiresAt = 0;
-
-async function getIamToken() {
-  const now = Date.now();
-  if (cachedToken && tokenExpiresAt > now + 60_000) return cachedToken;
-
-  const apiKey = process.env.IBM_COS_API_KEY;
-  if (!apiKey) throw new Error('IBM_COS_API_KEY not configured');
-
-  const res = await fetch('https://iam.cloud.ibm.com/identity/token', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body: new URLSearchParams({
-      grant_type: 'urn:ibm:params:oauth:grant-type:apikey',
-      apikey: apiKey,
-    }),
-  });
-
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`IAM token error (${res.status}): ${text}`);
-  }
-
-  const data = await res.json();
-  cachedToken = data.access_token;
-  tokenExpiresAt = now + data.expires_in * 1000;
-  return cachedToken;
-}
-
-function getCosConfig() {
-  const endpoint = process.env.IBM_COS_ENDPOINT;
-  const bucket = process.env.IBM_COS_BUCKET;
-  const instanceId = process.env.IBM_COS_INSTANCE_ID;
-
-  if (!endpoint || !bucket || !instanceId) {
-    throw new Error('IBM COS not fully configured. Set IBM_COS_ENDPOINT, IBM_COS_BUCKET, IBM_COS_INSTANCE_ID.');
-  }
-  return { endpoint, bucket, instanceId };
-}
-
 // Basic validation to prevent path traversal and unsafe characters in object keys
 function validateObjectKey(objectKey) {
   if (typeof objectKey !== 'string') {
@@ -100,8 +54,9 @@ router.post('/upload', requireAuth, async (req, res) => {
       return res.status(400).json({ error: validationError });
     }
 
-    // Ensure user can only upload to their own prefix
-    if (!objectKey.startsWith(`${req.userId}/`)) {
+    // Ensure user can only upload to their own prefix; underwriters file
+    // notices such as adverse action letters into a borrower's folder
+    if (!objectKey.startsWith(`${req.userId}/`) && !(await hasRoleOrHigher(req.userId, 'underwriter'))) {
       return res.status(403).json({ error: 'Cannot upload to another user\'s directory' });
     }
 
@@ -0,0 +1,189 @@
+/**
+ * Credit Bureau — IBM Cloud Function (Node.js 20 / Express)
+ * Mirrors supabase/functions/credit-bureau/index.ts
+ *
+ * POST /api/credit-bureau
+ * Body: { action, ...params }
+ *
+ * Pulls consumer tri-merge and business credit reports through the
+ * configured bureau adapter. Borrowers may pull their own reports as a
+ * soft inquiry; underwriters pull for an application or account review
+ * on the strength of the borrower's signed credit authorization.
+ * start_credit_pull checks and records the permissible purpose and
+ * consent before any bureau is contacted.
+ */
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, hasRoleOrHigher } from '../auth.js';
+import { checkRateLimit, rateLimitHeaders } from '../rate-limit.js';
+import { query } from '../db.js';
+import { BUSINESS_BUREAUS, CONSUMER_BUREAUS, getBureauAdapter } from '../credit-bureau.js';
+
+const router = Router();
+
+// Bureau calls cost money and leave inquiries, so pulls are throttled per caller
+const PULL_LIMIT = { maxRequests: 5, windowSeconds: 3600 };
+
+const schemas = {
+  pull: z.object({
+    pullType: z.enum(['consumer', 'business']),
+    bureaus: z.array(z.enum([...CONSUMER_BUREAUS, ...BUSINESS_BUREAUS])).min(1).optional(),
+    userId: z.string().uuid().optional(),
+    applicationId: z.string().uuid().optional(),
+    permissiblePurpose: z.enum(['written_instruction', 'credit_application', 'account_review']),
+    // Borrowers tick the on-screen authorization; staff pulls rely on the signed disclosure
+    consent: z.boolean().default(false),
+  }),
+  history: z.object({ userId: z.string().uuid().optional() }),
+  report: z.object({ pullId: z.string().uuid() }),
+};
+
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const action = req.body?.action;
+    const schema = schemas[action];
+    if (!schema) return res.status(400).json({ error: 'Invalid action' });
+
+    const validation = schema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid request format', details: validation.error.format() });
+    }
+
+    const isStaff = await hasRoleOrHigher(req.userId, 'underwriter');
+    const data = validation.data;
+
+    // Only staff look at someone else's credit
+    if (data.userId && data.userId !== req.userId && !isStaff) {
+      return res.status(403).json({ error: 'Underwriter access required' });
+    }
+
+    switch (action) {
+      case 'pull': {
+        const rlResult = await checkRateLimit(req.userId, 'credit-bureau:pull', PULL_LIMIT.maxRequests, PULL_LIMIT.windowSeconds);
+        res.set(rateLimitHeaders(PULL_LIMIT.maxRequests, rlResult));
+        if (!rlResult.allowed) return res.status(429).json({ error: 'Too many credit pulls. Please try again later.' });
+
+        const ip = (req.headers['x-forwarded-for']?.toString().split(',')[0]?.trim()) || req.headers['x-real-ip'] || null;
+        return await pullCredit(req, res, ip, data);
+      }
+      case 'history':
+        return res.json(await getHistory(data.userId ?? req.userId));
+      case 'report':
+        return await getReport(req, res, isStaff, data.pullId);
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (err) {
+    console.error('credit-bureau error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ── Handlers ──
+
+async function pullCredit(req, res, ip, data) {
+  const userId = data.userId ?? req.userId;
+  if (userId === req.userId && !data.consent) {
+    return res.status(400).json({ error: 'Please authorize the credit pull' });
+  }
+
+  const adapter = getBureauAdapter();
+  let pull;
+  try {
+    const { rows } = await query(
+      'SELECT to_jsonb(public.start_credit_pull($1, $2, $3, $4, $5, $6, $7, $8)) AS pull',
+      [
+        userId, data.applicationId ?? null, data.pullType,
+        data.bureaus ?? (data.pullType === 'consumer' ? CONSUMER_BUREAUS : BUSINESS_BUREAUS),
+        data.permissiblePurpose, adapter.provider, ip, req.userId,
+      ]
+    );
+    pull = rows[0].pull;
+  } catch (err) {
+    // Raised by start_credit_pull: no consent, wrong purpose, unknown application
+    if (err.code === 'P0001') return res.status(409).json({ error: err.message });
+    throw err;
+  }
+
+  let reports = null;
+  let failure = null;
+  try {
+    reports = await adapter.pull({
+      pullId: pull.id,
+      pullType: pull.pull_type,
+      bureaus: pull.bureaus,
+      inquiryType: pull.inquiry_type,
+      permissiblePurpose: pull.permissible_purpose,
+      subject: await loadSubject(userId, data.applicationId),
+    });
+  } catch (err) {
+    console.error(`Credit pull ${pull.id} failed:`, err);
+    failure = err.message ?? 'Bureau request failed';
+  }
+
+  const { rows } = await query(
+    'SELECT to_jsonb(public.complete_credit_pull($1, $2, $3)) AS pull',
+    [pull.id, reports ? JSON.stringify(reports) : null, failure]
+  );
+  const completed = rows[0].pull;
+
+  if (failure) {
+    return res.status(502).json({ error: 'The credit bureau could not be reached. Please try again later.', pull: completed });
+  }
+  return res.json({ pull: completed });
+}
+
+/** Name and business address as the bureaus match on them; the application's copy is the most recent */
+async function loadSubject(userId, applicationId) {
+  const [profile, application] = await Promise.all([
+    query('SELECT first_name, last_name, business_name FROM profiles WHERE id = $1', [userId]),
+    query(
+      `SELECT first_name, last_name, business_name, business_address, business_city, business_state, business_zip
+       FROM loan_applications
+       WHERE user_id = $1 AND ($2::uuid IS NULL OR id = $2)
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [userId, applicationId ?? null]
+    ),
+  ]);
+  const p = profile.rows[0];
+  const a = application.rows[0];
+
+  return {
+    userId,
+    firstName: a?.first_name ?? p?.first_name ?? null,
+    lastName: a?.last_name ?? p?.last_name ?? null,
+    businessName: a?.business_name ?? p?.business_name ?? null,
+    address: {
+      street: a?.business_address ?? null,
+      city: a?.business_city ?? null,
+      state: a?.business_state ?? null,
+      zip: a?.business_zip ?? null,
+    },
+  };
+}
+
+async function getHistory(userId) {
+  const [pulls, scores] = await Promise.all([
+    query('SELECT * FROM credit_pulls WHERE user_id = $1 ORDER BY created_at DESC LIMIT 50', [userId]),
+    query('SELECT * FROM credit_scores WHERE user_id = $1 ORDER BY score_date DESC LIMIT 200', [userId]),
+  ]);
+  return { pulls: pulls.rows, scores: scores.rows };
+}
+
+/** A completed pull with the scores and accounts it returned */
+async function getReport(req, res, isStaff, pullId) {
+  const { rows } = await query('SELECT * FROM credit_pulls WHERE id = $1', [pullId]);
+  const pull = rows[0];
+  if (!pull || (!isStaff && pull.user_id !== req.userId)) {
+    return res.status(404).json({ error: 'Credit report not found' });
+  }
+
+  const [scores, tradelines] = await Promise.all([
+    query('SELECT * FROM credit_scores WHERE credit_pull_id = $1 ORDER BY bureau', [pullId]),
+    query('SELECT * FROM credit_tradelines WHERE credit_pull_id = $1 ORDER BY bureau, creditor_name', [pullId]),
+  ]);
+  return res.json({ pull, scores: scores.rows, tradelines: tradelines.rows });
+}
+
+export default router;
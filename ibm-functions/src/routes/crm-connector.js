@@ -0,0 +1,205 @@
+/**
+ * CRM Connector — IBM Cloud Function (Node.js 20 / Express)
+ * Mirrors supabase/functions/crm-connector and crm-webhook
+ *
+ * POST /api/crm-connector
+ * Body: { action, ...params }
+ *   push        Send a local CRM record to the external CRM connectors.
+ *               Borrowers may push their own records; admins any record.
+ *   connectors  (admin) Configured connectors and whether their
+ *               credentials are present.
+ *   reconcile   (admin) Compare borrowers and applications with the CRM
+ *               tables; optionally replay open failures first.
+ *   replay      (admin) Push the records behind open failed sync log
+ *               entries again.
+ *   dismiss     (admin) Close failed entries without replaying them.
+ *
+ * POST /api/crm-connector/reconcile?token=<CRM_WORKER_SECRET>&replay=1
+ *   Scheduled reconciliation (and replay). No bearer token.
+ *
+ * POST /api/crm-connector/webhook/:connectorId
+ *   Inbound updates from the external CRM, signed with
+ *   X-CRM-Signature: sha256=<hex HMAC of the body>. No bearer token.
+ */
+import { Router } from 'express';
+import { timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+import { requireAuth, hasRoleOrHigher } from '../auth.js';
+import { checkRateLimit, rateLimitHeaders } from '../rate-limit.js';
+import { logAuditEvent } from '../audit-helpers.js';
+import { query } from '../db.js';
+import {
+  applyInbound,
+  connectorConfigured,
+  CRM_ENTITIES,
+  loadConnectors,
+  loadLocalRecord,
+  mappingFor,
+  providerFor,
+  pushEntity,
+  verifyWebhookSignature,
+} from '../crm-connector.js';
+import { dismissFailures, replayFailures, runReconciliation } from '../crm-reconciliation.js';
+
+const router = Router();
+
+const ADMIN_ONLY_ACTIONS = ['connectors', 'reconcile', 'replay', 'dismiss'];
+
+const schemas = {
+  push: z.object({
+    entityType: z.enum(CRM_ENTITIES),
+    entityId: z.string().uuid(),
+    connectorId: z.string().uuid().optional(),
+    syncType: z.enum(['automatic', 'manual']).default('automatic'),
+  }),
+  connectors: z.object({}),
+  reconcile: z.object({ replay: z.boolean().default(false) }),
+  replay: z.object({
+    logIds: z.array(z.string().uuid()).min(1).max(500).optional(),
+    limit: z.number().int().min(1).max(500).default(100),
+  }),
+  dismiss: z.object({ logIds: z.array(z.string().uuid()).min(1).max(500) }),
+};
+
+function validWorkerToken(token) {
+  const secret = process.env.CRM_WORKER_SECRET;
+  if (!secret || typeof token !== 'string') return false;
+  const a = Buffer.from(token);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Replay first so the report counts only failures that are still open
+async function reconcile({ replay, userId = null }) {
+  const replaySummary = replay ? await replayFailures({ userId, limit: 500 }) : null;
+  const run = await runReconciliation(userId);
+  if (!replaySummary) return run;
+  const { rows } = await query('UPDATE crm_reconciliation_runs SET replay = $2 WHERE id = $1 RETURNING *', [run.id, JSON.stringify(replaySummary)]);
+  return rows[0];
+}
+
+// The borrower a local CRM record belongs to
+async function recordOwner(entityType, record) {
+  if (entityType !== 'opportunity') return record.user_id;
+  const { rows } = await query('SELECT user_id FROM crm_contacts WHERE id = $1', [record.contact_id]);
+  return rows[0]?.user_id ?? null;
+}
+
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const action = req.body?.action;
+    const schema = schemas[action];
+    if (!schema) return res.status(400).json({ error: 'Invalid action' });
+
+    const validation = schema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid request format', details: validation.error.format() });
+    }
+
+    const rlResult = await checkRateLimit(req.userId, `crm-connector:${action}`, 120, 60);
+    res.set(rateLimitHeaders(120, rlResult));
+    if (!rlResult.allowed) return res.status(429).json({ error: 'Rate limit exceeded' });
+
+    const isAdmin = await hasRoleOrHigher(req.userId, 'admin');
+    if (ADMIN_ONLY_ACTIONS.includes(action) && !isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const data = validation.data;
+    switch (action) {
+      case 'push': {
+        const record = await loadLocalRecord(data.entityType, data.entityId);
+        if (!record) return res.status(404).json({ error: 'Record not found' });
+        if (!isAdmin && (await recordOwner(data.entityType, record)) !== req.userId) {
+          return res.status(403).json({ error: 'Access denied' });
+        }
+        const { results } = await pushEntity(data.entityType, data.entityId, {
+          userId: req.userId,
+          syncType: isAdmin ? data.syncType : 'automatic',
+          connectorId: data.connectorId ?? null,
+        });
+        return res.json({ success: results.every((r) => r.status === 'success'), results });
+      }
+      case 'connectors': {
+        const { rows } = await query('SELECT * FROM crm_integration_settings ORDER BY created_at');
+        const enabled = new Set((await loadConnectors('push')).concat(await loadConnectors('pull')).map((c) => c.id));
+        const connectors = rows.map((c) => ({
+          id: c.id,
+          name: c.external_crm_name,
+          provider: providerFor(c),
+          apiEndpoint: c.api_endpoint,
+          syncDirection: c.sync_direction,
+          syncEnabled: c.sync_enabled === true,
+          active: enabled.has(c.id),
+          lastSyncAt: c.last_sync_at,
+          credentials: connectorConfigured(c),
+          fieldMappings: Object.fromEntries(CRM_ENTITIES.map((e) => [e, mappingFor(c, e)])),
+          webhookPath: `/api/crm-connector/webhook/${c.id}`,
+        }));
+        return res.json({ connectors });
+      }
+      case 'reconcile': {
+        const run = await reconcile({ replay: data.replay, userId: req.userId });
+        await logAuditEvent({
+          userId: req.userId,
+          action: 'CRM_RECONCILIATION_RUN',
+          resourceType: 'crm_reconciliation_run',
+          resourceId: run.id,
+          details: { issues: run.summary?.issues ?? {}, replay: run.replay },
+        });
+        return res.json({ run });
+      }
+      case 'replay': {
+        const summary = await replayFailures({ logIds: data.logIds ?? null, limit: data.limit, userId: req.userId });
+        await logAuditEvent({
+          userId: req.userId,
+          action: 'CRM_SYNC_REPLAYED',
+          resourceType: 'crm_sync_log',
+          details: { ...summary, logIds: data.logIds ?? null },
+        });
+        return res.json({ success: true, ...summary });
+      }
+      case 'dismiss': {
+        const dismissed = await dismissFailures(data.logIds, req.userId);
+        await logAuditEvent({
+          userId: req.userId,
+          action: 'CRM_SYNC_DISMISSED',
+          resourceType: 'crm_sync_log',
+          details: { dismissed, logIds: data.logIds },
+        });
+        return res.json({ success: true, dismissed });
+      }
+    }
+  } catch (err) {
+    console.error('CRM connector error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/reconcile', async (req, res) => {
+  try {
+    if (!validWorkerToken(req.query.token)) return res.status(401).json({ error: 'Invalid worker token' });
+    const run = await reconcile({ replay: req.query.replay === '1' || req.query.replay === 'true' });
+    return res.json({ success: true, runId: run.id, summary: run.summary, replay: run.replay });
+  } catch (err) {
+    console.error('CRM reconciliation error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/webhook/:connectorId', async (req, res) => {
+  try {
+    const connector = (await loadConnectors('pull')).find((c) => c.id === req.params.connectorId);
+    if (!connector) return res.status(404).json({ error: 'Unknown connector' });
+    if (!verifyWebhookSignature(connector, req.rawBody, req.get('X-CRM-Signature'))) {
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+    const summary = await applyInbound(connector, req.body);
+    return res.json({ success: true, ...summary });
+  } catch (err) {
+    console.error('CRM webhook error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
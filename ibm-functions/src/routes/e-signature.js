@@ -0,0 +1,263 @@
+/**
+ * E-Signature — IBM Cloud Function (Node.js 20 / Express)
+ * Mirrors supabase/functions/e-signature/index.ts
+ *
+ * POST /api/e-signature
+ * Body: { action, ...params }
+ *
+ * Borrowers review and sign the disclosures and documents waiting for
+ * their signature; underwriters request signatures on documents and void
+ * requests that no longer apply. The caller's IP and user agent are read
+ * here and recorded by the signature functions in the database. Document
+ * hashes are computed here from storage; the browser's must match them.
+ */
+import { Router } from 'express';
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import { requireAuth, hasRoleOrHigher } from '../auth.js';
+import { checkRateLimit, rateLimitHeaders } from '../rate-limit.js';
+import { query } from '../db.js';
+import { getObject } from '../cos.js';
+
+const router = Router();
+
+const STAFF_ONLY_ACTIONS = ['request', 'void'];
+
+const sha256Hex = z.string().regex(/^[0-9a-fA-F]{64}$/).transform((s) => s.toLowerCase());
+
+// Screen and timezone details the browser reports, kept as evidence only
+const device = z.record(z.union([z.string().max(200), z.number(), z.boolean()])).default({});
+
+const schemas = {
+  list: z.object({
+    applicationId: z.string().uuid().optional(),
+    status: z.enum(['pending', 'signed', 'declined', 'voided']).optional(),
+  }),
+  get: z.object({ requestId: z.string().uuid() }),
+  begin: z.object({ requestId: z.string().uuid(), device }),
+  complete: z.object({
+    requestId: z.string().uuid(),
+    signatureType: z.enum(['typed', 'drawn']),
+    signatureName: z.string().trim().min(2).max(200),
+    documentHash: sha256Hex,
+    fileName: z.string().min(1).max(255),
+    filePath: z.string().min(1).max(1024),
+    signedDocumentHash: sha256Hex,
+    device,
+  }),
+  decline: z.object({ requestId: z.string().uuid(), reason: z.string().trim().max(1000).default('') }),
+  request: z.object({
+    userId: z.string().uuid(),
+    applicationId: z.string().uuid().optional(),
+    title: z.string().trim().min(1).max(200),
+    sourceDocumentId: z.string().uuid(),
+    loanDocumentId: z.string().uuid().optional(),
+    documentHash: sha256Hex,
+    expiresAt: z.string().datetime().optional(),
+  }),
+  void: z.object({ requestId: z.string().uuid(), reason: z.string().trim().max(1000).default('') }),
+};
+
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const action = req.body?.action;
+    const schema = schemas[action];
+    if (!schema) return res.status(400).json({ error: 'Invalid action' });
+
+    const validation = schema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid request format', details: validation.error.format() });
+    }
+
+    const rlResult = await checkRateLimit(req.userId, `e-signature:${action}`, 60, 60);
+    res.set(rateLimitHeaders(60, rlResult));
+    if (!rlResult.allowed) return res.status(429).json({ error: 'Rate limit exceeded' });
+
+    const isStaff = await hasRoleOrHigher(req.userId, 'underwriter');
+    if (STAFF_ONLY_ACTIONS.includes(action) && !isStaff) {
+      return res.status(403).json({ error: 'Underwriter access required' });
+    }
+
+    const ip = (req.headers['x-forwarded-for']?.toString().split(',')[0]?.trim()) || req.headers['x-real-ip'] || null;
+    const userAgent = req.headers['user-agent'] || null;
+    const data = validation.data;
+
+    switch (action) {
+      case 'list':
+        return res.json({ requests: await listRequests(req.userId, isStaff, data) });
+      case 'get':
+        return await getRequest(req, res, isStaff, data.requestId);
+      case 'begin':
+        return await callSignatureFunction(res, ip,
+          'begin_signature($1, $2, $3, $4, $5)',
+          [data.requestId, req.userId, ip, userAgent, data.device]);
+      case 'complete':
+        return await completeSignature(req, res, ip, userAgent, data);
+      case 'decline':
+        return await callSignatureFunction(res, ip,
+          'decline_signature($1, $2, $3, $4, $5)',
+          [data.requestId, req.userId, data.reason, ip, userAgent]);
+      case 'request':
+        return await requestSignature(req, res, ip, data);
+      case 'void':
+        return await callSignatureFunction(res, ip,
+          'void_signature_request($1, $2, $3)',
+          [data.requestId, data.reason, req.userId]);
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (err) {
+    console.error('e-signature error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ── Handlers ──
+
+async function listRequests(userId, isStaff, { applicationId, status }) {
+  const clauses = [];
+  const params = [];
+
+  // Staff can list an application's requests; otherwise callers see their own
+  if (!(applicationId && isStaff)) {
+    params.push(userId);
+    clauses.push(`user_id = $${params.length}`);
+  }
+  if (applicationId) {
+    params.push(applicationId);
+    clauses.push(`application_id = $${params.length}`);
+  }
+  if (status) {
+    params.push(status);
+    clauses.push(`status = $${params.length}`);
+  }
+
+  const { rows } = await query(
+    `SELECT * FROM signature_requests
+     WHERE ${clauses.join(' AND ')}
+     ORDER BY created_at DESC
+     LIMIT 200`,
+    params
+  );
+  return rows;
+}
+
+/** The request with what is to be signed and its evidence trail */
+async function getRequest(req, res, isStaff, requestId) {
+  const { rows } = await query('SELECT * FROM signature_requests WHERE id = $1', [requestId]);
+  const request = rows[0];
+  if (!request || (!isStaff && request.user_id !== req.userId)) {
+    return res.status(404).json({ error: 'Signature request not found' });
+  }
+
+  const documentQuery = 'SELECT id, file_name, file_path FROM borrower_documents WHERE id = $1';
+  const [disclosure, sourceDocument, signedDocument, events, chain] = await Promise.all([
+    query('SELECT id, disclosure_key, version, title, body FROM signature_disclosures WHERE id = $1', [request.disclosure_id]),
+    query(documentQuery, [request.source_document_id]),
+    query(documentQuery, [request.signed_document_id]),
+    query('SELECT * FROM signature_events WHERE request_id = $1 ORDER BY id', [requestId]),
+    query('SELECT public.verify_signature_events($1) AS valid', [requestId]),
+  ]);
+
+  return res.json({
+    request,
+    disclosure: disclosure.rows[0] ?? null,
+    sourceDocument: sourceDocument.rows[0] ?? null,
+    signedDocument: signedDocument.rows[0] ?? null,
+    events: events.rows,
+    chainValid: chain.rows[0]?.valid !== false,
+  });
+}
+
+const sha256 = (bytes) => createHash('sha256').update(bytes).digest('hex');
+
+/** Hash and size of a stored borrower document, or null when it is not there */
+async function hashStoredFile(path) {
+  try {
+    const bytes = await getObject(path);
+    return { hash: sha256(bytes), size: bytes.length };
+  } catch (err) {
+    console.error(`Reading ${path} for e-signature failed:`, err);
+    return null;
+  }
+}
+
+/** Pins the hash of the document as stored, not as the underwriter's browser read it */
+async function requestSignature(req, res, ip, data) {
+  const { rows } = await query('SELECT id, user_id, file_path FROM borrower_documents WHERE id = $1', [data.sourceDocumentId]);
+  const document = rows[0];
+  if (!document || document.user_id !== data.userId) {
+    return res.status(409).json({ error: 'The document to sign must belong to the signer' });
+  }
+
+  const stored = await hashStoredFile(document.file_path);
+  if (!stored) throw new Error(`File missing for document ${document.id}`);
+  if (stored.hash !== data.documentHash) {
+    return res.status(409).json({ error: 'The document does not match the stored copy' });
+  }
+
+  return await callSignatureFunction(res, ip,
+    'create_signature_request($1, $2, $3, $4, $5, $6, $7, $8)',
+    [
+      data.userId, data.applicationId ?? null, data.title, data.sourceDocumentId,
+      data.loanDocumentId ?? null, stored.hash, data.expiresAt ?? null, req.userId,
+    ]);
+}
+
+/**
+ * Re-hashes what the signer was shown and the certificate they uploaded, so
+ * the hashes recorded with the signature do not come from the browser
+ */
+async function completeSignature(req, res, ip, userAgent, data) {
+  const { rows } = await query(
+    `SELECT r.id, r.user_id, d.body AS disclosure_body, b.file_path AS source_path
+     FROM signature_requests r
+     LEFT JOIN signature_disclosures d ON d.id = r.disclosure_id
+     LEFT JOIN borrower_documents b ON b.id = r.source_document_id
+     WHERE r.id = $1`,
+    [data.requestId]
+  );
+  const request = rows[0];
+  if (!request || request.user_id !== req.userId) {
+    return res.status(404).json({ error: 'Signature request not found' });
+  }
+
+  const segments = data.filePath.split('/');
+  if (segments[0] !== req.userId || segments.includes('..')) {
+    return res.status(409).json({ error: "The signed document must be stored in the signer's folder" });
+  }
+
+  let documentHash = null;
+  if (request.disclosure_body !== null) documentHash = sha256(Buffer.from(request.disclosure_body, 'utf8'));
+  else if (request.source_path) documentHash = (await hashStoredFile(request.source_path))?.hash ?? null;
+  if (!documentHash) return res.status(409).json({ error: 'The document to sign is no longer available' });
+  if (documentHash !== data.documentHash) {
+    return res.status(409).json({ error: 'The document has changed since it was sent for signature' });
+  }
+
+  const signed = await hashStoredFile(data.filePath);
+  if (!signed) return res.status(409).json({ error: 'The signed document has not been uploaded' });
+  if (signed.hash !== data.signedDocumentHash) {
+    return res.status(409).json({ error: 'The signed document does not match the uploaded copy' });
+  }
+
+  return await callSignatureFunction(res, ip,
+    'complete_signature($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)',
+    [
+      data.requestId, req.userId, data.signatureType, data.signatureName, documentHash,
+      data.fileName, data.filePath, signed.size, signed.hash, ip, userAgent, data.device,
+    ]);
+}
+
+async function callSignatureFunction(res, ip, call, params) {
+  try {
+    const { rows } = await query(`SELECT to_jsonb(public.${call}) AS request`, params);
+    return res.json({ request: rows[0].request, serverTime: new Date().toISOString(), ip });
+  } catch (err) {
+    // Raised by the signature functions: not found, already signed, hash mismatch
+    if (err.code === 'P0001') return res.status(409).json({ error: err.message });
+    throw err;
+  }
+}
+
+export default router;
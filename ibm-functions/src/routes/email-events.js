@@ -0,0 +1,67 @@
+/**
+ * Email Events — IBM Cloud Function (Node.js 20 / Express)
+ * Receives delivery events from a SendGrid-compatible event webhook and
+ * applies them to email_deliveries (delivered, deferred, bounced).
+ *
+ * POST /api/email-events?token=<EMAIL_WEBHOOK_SECRET>
+ * Body: [{ event, sg_message_id, reason?, type?, timestamp }]
+ *
+ * The provider cannot send a user token, so the shared secret in the
+ * query string authenticates the caller.
+ */
+import { Router } from 'express';
+import { timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+import { query } from '../db.js';
+
+const router = Router();
+
+const TRACKED_EVENTS = new Set(['delivered', 'deferred', 'bounce', 'dropped']);
+
+const eventSchema = z.object({
+  event: z.string().max(50),
+  sg_message_id: z.string().max(255).optional(),
+  reason: z.string().max(2000).optional(),
+  type: z.string().max(50).optional(),
+  timestamp: z.number().optional(),
+}).passthrough();
+
+function validToken(token) {
+  const secret = process.env.EMAIL_WEBHOOK_SECRET;
+  if (!secret || typeof token !== 'string') return false;
+  const a = Buffer.from(token);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+router.post('/', async (req, res) => {
+  try {
+    if (!validToken(req.query.token)) return res.status(401).json({ error: 'Invalid webhook token' });
+
+    const validation = z.array(eventSchema).max(1000).safeParse(req.body);
+    if (!validation.success) return res.status(400).json({ error: 'Invalid request format', details: validation.error.format() });
+
+    let matched = 0;
+    for (const ev of validation.data) {
+      if (!TRACKED_EVENTS.has(ev.event) || !ev.sg_message_id) continue;
+
+      // sg_message_id is the X-Message-Id returned at send time plus a routing suffix
+      const messageId = ev.sg_message_id.split('.')[0];
+      const bounceType = ev.event === 'dropped' ? 'dropped' : ev.type === 'blocked' ? 'blocked' : ev.event === 'bounce' ? 'hard' : null;
+      const occurredAt = ev.timestamp ? new Date(ev.timestamp * 1000).toISOString() : new Date().toISOString();
+
+      const { rows } = await query(
+        'SELECT record_email_event($1, $2, $3, $4, $5) AS matched',
+        [messageId, ev.event, ev.reason ?? null, bounceType, occurredAt]
+      );
+      if (rows[0]?.matched) matched++;
+    }
+
+    return res.json({ success: true, received: validation.data.length, matched });
+  } catch (err) {
+    console.error('Email events error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,193 @@
+/**
+ * Financial Spreading — IBM Cloud Function (Node.js 20 / Express)
+ * Mirrors supabase/functions/financial-spreading/index.ts
+ *
+ * POST /api/financial-spreading
+ * Body: { action, ...params }
+ *   import    Read a QuickBooks or Xero Profit and Loss / Balance Sheet
+ *             export (CSV or Excel) the borrower uploaded under P&L and
+ *             Balance Sheet into spread periods for review. Nothing is saved.
+ *   save      Derive the ratios, global cash flow and variances from the
+ *             self-reported figures and save them as the application's next
+ *             spread version.
+ *   history   Spread versions of an application, newest first, with the
+ *             borrower's P&L and balance sheet uploads and self-reported figures.
+ *
+ * Underwriters only.
+ */
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, hasRoleOrHigher } from '../auth.js';
+import { checkRateLimit, rateLimitHeaders } from '../rate-limit.js';
+import { query } from '../db.js';
+import { getObject } from '../cos.js';
+import {
+  computeSpread,
+  importFinancialStatements,
+  MAX_PERIODS,
+  selfReportedFigures,
+  SPREAD_LINE_KEYS,
+} from '../financial-spreading.js';
+
+const router = Router();
+
+const IMPORT_LIMIT = { maxRequests: 30, windowSeconds: 3600 };
+
+const amount = z.number().min(-100000000000).max(100000000000);
+const annualAmount = z.number().min(0).max(100000000000).default(0);
+
+const schemas = {
+  import: z.object({
+    applicationId: z.string().uuid(),
+    documentId: z.string().uuid(),
+  }),
+  save: z.object({
+    applicationId: z.string().uuid(),
+    periods: z.array(z.object({
+      label: z.string().trim().min(1).max(40),
+      period_end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+      months: z.number().int().min(1).max(12),
+      lines: z.record(z.enum(SPREAD_LINE_KEYS), amount.nullable()),
+    })).min(1).max(MAX_PERIODS),
+    globalInputs: z.object({
+      owner_income: annualAmount,
+      owner_living_expenses: annualAmount,
+      personal_debt_service: annualAmount,
+      business_debt_service: annualAmount,
+      proposed_debt_service: annualAmount,
+    }),
+    source: z.enum(['manual', 'import']).default('manual'),
+    documentIds: z.array(z.string().uuid()).max(10).default([]),
+    notes: z.string().max(2000).optional(),
+  }),
+  history: z.object({ applicationId: z.string().uuid() }),
+};
+
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    if (!(await hasRoleOrHigher(req.userId, 'underwriter'))) {
+      return res.status(403).json({ error: 'Underwriter access required' });
+    }
+
+    const action = req.body?.action;
+    const schema = schemas[action];
+    if (!schema) return res.status(400).json({ error: 'Invalid action' });
+
+    const validation = schema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid request format', details: validation.error.format() });
+    }
+    const data = validation.data;
+
+    if (action === 'import') {
+      const rlResult = await checkRateLimit(req.userId, 'financial-spreading:import', IMPORT_LIMIT.maxRequests, IMPORT_LIMIT.windowSeconds);
+      res.set(rateLimitHeaders(IMPORT_LIMIT.maxRequests, rlResult));
+      if (!rlResult.allowed) return res.status(429).json({ error: 'Too many imports. Please try again later.' });
+    }
+
+    const ip = (req.headers['x-forwarded-for']?.toString().split(',')[0]?.trim()) || req.headers['x-real-ip'] || null;
+
+    switch (action) {
+      case 'import':
+        return await importStatements(res, data);
+      case 'save':
+        return await saveSpread(req, res, ip, data);
+      case 'history':
+        return await getHistory(res, data.applicationId);
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (err) {
+    console.error('financial-spreading error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ── Handlers ──
+
+// Read for the underwriter to review; nothing is saved until they save the spread
+async function importStatements(res, data) {
+  const { rows: applications } = await query('SELECT id, user_id FROM loan_applications WHERE id = $1', [data.applicationId]);
+  const application = applications[0];
+  if (!application) return res.status(404).json({ error: 'Loan application not found' });
+
+  const { rows: documents } = await query(
+    'SELECT id, user_id, file_name, file_path, document_category FROM borrower_documents WHERE id = $1',
+    [data.documentId]
+  );
+  const document = documents[0];
+  if (!document || document.user_id !== application.user_id) {
+    return res.status(404).json({ error: 'Document not found' });
+  }
+  if (document.document_category !== 'pl_balance_sheet') {
+    return res.status(400).json({ error: 'Only documents filed under P&L and Balance Sheet can be imported' });
+  }
+
+  const bytes = await getObject(document.file_path);
+
+  try {
+    const periods = importFinancialStatements(document.file_name, bytes);
+    return res.json({ document_id: document.id, periods });
+  } catch (err) {
+    console.error(`Importing financial statements from ${document.id} failed:`, err);
+    return res.status(400).json({ error: err instanceof Error ? err.message : 'The export could not be read' });
+  }
+}
+
+async function saveSpread(req, res, ip, data) {
+  const ends = data.periods.map((p) => p.period_end);
+  if (new Set(ends).size !== ends.length) {
+    return res.status(400).json({ error: 'Each period must end on a different date' });
+  }
+
+  const { rows: applications } = await query('SELECT id, loan_details FROM loan_applications WHERE id = $1', [data.applicationId]);
+  const application = applications[0];
+  if (!application) return res.status(404).json({ error: 'Loan application not found' });
+
+  const spread = computeSpread({
+    periods: data.periods,
+    globalInputs: data.globalInputs,
+    loanDetails: application.loan_details,
+  });
+
+  try {
+    const { rows } = await query(
+      'SELECT to_jsonb(public.record_financial_spread($1, $2, $3, $4, $5, $6, $7)) AS spread',
+      [application.id, JSON.stringify(spread), data.source, data.documentIds, data.notes ?? null, req.userId, ip]
+    );
+    return res.json({ spread: rows[0].spread });
+  } catch (err) {
+    if (err.code === 'P0001') return res.status(409).json({ error: err.message });
+    throw err;
+  }
+}
+
+async function getHistory(res, applicationId) {
+  const { rows: applications } = await query('SELECT id, user_id, loan_details FROM loan_applications WHERE id = $1', [applicationId]);
+  const application = applications[0];
+  if (!application) return res.status(404).json({ error: 'Loan application not found' });
+
+  const [spreads, documents] = await Promise.all([
+    query(
+      `SELECT * FROM financial_spreads
+       WHERE application_id = $1
+       ORDER BY version DESC
+       LIMIT 20`,
+      [applicationId]
+    ),
+    query(
+      `SELECT id, file_name, file_type, file_size, uploaded_at, version_number
+       FROM borrower_documents
+       WHERE user_id = $1 AND document_category = 'pl_balance_sheet' AND is_latest_version
+       ORDER BY uploaded_at DESC`,
+      [application.user_id]
+    ),
+  ]);
+  return res.json({
+    spreads: spreads.rows,
+    documents: documents.rows,
+    self_reported: selfReportedFigures(application.loan_details),
+  });
+}
+
+export default router;
@@ -11,6 +11,8 @@ import { requireAuth, hasRole } from '../auth.js';
 import { checkRateLimit, rateLimitHeaders } from '../rate-limit.js';
 import { logAuditEvent } from '../audit-helpers.js';
 import { query } from '../db.js';
+import { loadActiveRuleSet, scoreApplication } from '../underwriting.js';
+import { calculateProductEligibility, loadProductRules } from '../eligibility.js';
 
 const router = Router();
 
@@ -147,8 +149,8 @@ router.post('/', requireAuth, async (req, res) => {
 
 // ── Handlers ──
 
-function runValidation(data) {
-  const result = { isValid: true, errors: [], riskScore: 50, autoApprovalEligible: false };
+async function runValidation(data) {
+  const result = { isValid: true, errors: [], riskScore: 50, autoApprovalEligible: false, knockoutReasons: [] };
   if (!data.first_name || data.first_name.length < 2) { result.errors.push('First name must be at least 2 characters'); result.isValid = false; }
   if (!data.last_name || data.last_name.length < 2) { result.errors.push('Last name must be at least 2 characters'); result.isValid = false; }
   if (!data.business_name || data.business_name.length < 2) { result.errors.push('Business name is required'); result.isValid = false; }
@@ -160,38 +162,39 @@ function runValidation(data) {
   const pv = validatePhone(data.phone);
   if (!pv.isValid) { result.errors.push(pv.error); result.isValid = false; }
 
-  // Risk scoring
-  let risk = 50;
-  if (data.years_in_business >= 5) risk -= 15;
-  else if (data.years_in_business >= 2) risk -= 8;
-  else if (data.years_in_business < 1) risk += 20;
-  if (data.amount_requested > 5000000) risk += 15;
-  else if (data.amount_requested < 100000) risk -= 5;
-  switch (data.loan_type) {
-    case 'refinance': risk -= 10; break;
-    case 'bridge_loan': risk += 10; break;
-    case 'working_capital': risk += 5; break;
-  }
-  result.riskScore = Math.max(0, Math.min(100, risk));
-  result.autoApprovalEligible = result.riskScore < 30 && result.isValid;
+  // Loan product must exist in the catalog and still be offered
+  const product = await query('SELECT is_active FROM loan_products WHERE key = $1', [data.loan_type]);
+  if (!product.rows[0]?.is_active) { result.errors.push('Selected loan product is not available'); result.isValid = false; }
+
+  // Risk scoring against the active underwriting rule set for this product
+  const ruleSet = await loadActiveRuleSet(data.loan_type);
+  // Cash-flow factors come only from an underwriter's analysis of linked bank data
+  const underwriting = scoreApplication({ ...data, cash_flow: undefined }, ruleSet);
+  result.underwriting = underwriting;
+  result.riskScore = underwriting.risk_score;
+  result.knockoutReasons = underwriting.knockouts.map(k => k.reason);
+  result.autoApprovalEligible = result.isValid
+    && underwriting.knockouts.length === 0
+    && result.riskScore < underwriting.auto_approval_max_score;
   return result;
 }
 
-function handleValidate(_req, res, data) {
+async function handleValidate(_req, res, data) {
   if (!data) return res.status(400).json({ error: 'Application data is required' });
-  return res.json(runValidation(data));
+  return res.json(await runValidation(data));
 }
 
 async function handleProcess(req, res, data) {
   if (!data) return res.status(400).json({ error: 'Application data is required' });
   if (!req.userId) return res.status(401).json({ error: 'Authentication required' });
 
-  const validation = runValidation(data);
+  const validation = await runValidation(data);
   if (!validation.isValid) return res.status(400).json({ success: false, errors: validation.errors, message: 'Validation failed' });
 
-  let initialStatus = 'submitted';
-  if (validation.autoApprovalEligible) initialStatus = 'under_review';
-  else if (validation.riskScore > 70) initialStatus = 'submitted'; // requires_review maps to submitted
+  // Knockouts and high scores go in as submitted, flagged for manual review in loan_details
+  const initialStatus = validation.autoApprovalEligible ? 'under_review' : 'submitted';
+  const requiresManualReview = !validation.autoApprovalEligible
+    && (validation.knockoutReasons.length > 0 || validation.riskScore > validation.underwriting.manual_review_min_score);
 
   const applicationNumber = generateApplicationNumber();
 
@@ -206,12 +209,12 @@ async function handleProcess(req, res, data) {
       req.userId, data.loan_type, data.amount_requested, data.first_name, data.last_name,
       data.email, data.phone, data.business_name, data.business_address, data.business_city,
       data.business_state, data.business_zip, data.years_in_business,
-      JSON.stringify({ ...data.loan_details, risk_score: validation.riskScore, auto_approval_eligible: validation.autoApprovalEligible }),
+      JSON.stringify({ ...data.loan_details, risk_score: validation.riskScore, auto_approval_eligible: validation.autoApprovalEligible, requires_manual_review: requiresManualReview, knockout_reasons: validation.knockoutReasons, underwriting: validation.underwriting }),
       applicationNumber, initialStatus, new Date().toISOString(),
     ]
   );
 
-  console.log(`Application ${applicationNumber} processed with risk score: ${validation.riskScore}`);
+  console.log(`Application ${applicationNumber} processed with risk score: ${validation.riskScore} (rule set v${validation.underwriting.rule_set_version})`);
   return res.json({ success: true, application: result.rows[0], riskScore: validation.riskScore, autoApprovalEligible: validation.autoApprovalEligible });
 }
 
@@ -223,60 +226,34 @@ async function handleUpdateStatus(req, res, applicationId, data) {
 
   const sanitizedNotes = sanitizeNotes(data.notes);
 
-  // Fetch current loan_details to merge
-  const current = await query('SELECT loan_details FROM loan_applications WHERE id = $1', [applicationId]);
-  const currentDetails = current.rows[0]?.loan_details || {};
-  const updatedDetails = { ...currentDetails, status_notes: sanitizedNotes };
-
-  const result = await query(
-    `UPDATE loan_applications SET status = $1, updated_at = NOW(), loan_details = $2 WHERE id = $3 RETURNING *`,
-    [data.status, JSON.stringify(updatedDetails), applicationId]
+  // The workflow checks the transition, the actor's role and the guards
+  const { rows } = await query(
+    'SELECT public.transition_application_status($1, $2, $3, $4) AS result',
+    [applicationId, data.status, req.userId, sanitizedNotes || null]
   );
+  const result = rows[0]?.result;
+  if (!result?.allowed) {
+    return res.status(409).json({ success: false, message: 'Status change not allowed', reasons: result?.reasons ?? [] });
+  }
+
+  // Above the dual approval threshold the change waits for a second approver
+  if (result.pending_confirmation) {
+    return res.status(202).json({
+      success: true,
+      pendingConfirmation: true,
+      decision: result.decision,
+      message: 'Status change is awaiting confirmation by a second approver',
+    });
+  }
 
   console.log(`Application ${applicationId} status updated to: ${data.status}`);
-  return res.json({ success: true, application: result.rows[0] });
+  return res.json({ success: true, application: result.application });
 }
 
-function handleEligibility(_req, res, data) {
+async function handleEligibility(_req, res, data) {
   if (!data) return res.status(400).json({ error: 'Application data is required' });
-
-  const eligibility = {
-    eligible: true,
-    maxLoanAmount: 0,
-    interestRateRange: { min: 0, max: 0 },
-    termOptions: [],
-    requirements: [],
-    reasons: [],
-  };
-
-  let baseAmount = 1000000;
-  if (data.years_in_business >= 5) baseAmount *= 5;
-  else if (data.years_in_business >= 2) baseAmount *= 2;
-  else if (data.years_in_business < 1) { baseAmount *= 0.5; eligibility.requirements.push('Minimum 1 year in business preferred'); }
-
-  switch (data.loan_type) {
-    case 'refinance':
-      baseAmount *= 1.2; eligibility.interestRateRange = { min: 3.5, max: 6.5 };
-      eligibility.termOptions = ['5 years','10 years','15 years','20 years','25 years']; break;
-    case 'bridge_loan':
-      baseAmount *= 0.8; eligibility.interestRateRange = { min: 6.0, max: 12.0 };
-      eligibility.termOptions = ['6 months','12 months','18 months','24 months']; break;
-    case 'working_capital':
-      baseAmount *= 0.6; eligibility.interestRateRange = { min: 4.0, max: 8.0 };
-      eligibility.termOptions = ['1 year','2 years','3 years','5 years']; break;
-    default:
-      eligibility.interestRateRange = { min: 4.0, max: 10.0 };
-      eligibility.termOptions = ['2 years','5 years','10 years'];
-  }
-
-  eligibility.maxLoanAmount = Math.min(baseAmount, 50000000);
-  if (data.amount_requested > eligibility.maxLoanAmount) {
-    eligibility.eligible = false;
-    eligibility.reasons.push(`Requested amount exceeds maximum of $${eligibility.maxLoanAmount.toLocaleString()}`);
-  }
-
-  eligibility.requirements.push('Valid business license', 'Financial statements (last 2 years)', 'Tax returns (business and personal)', 'Bank statements (last 6 months)', 'Business plan or project description');
-  return res.json(eligibility);
+  const rules = await loadProductRules(data.loan_type);
+  return res.json(calculateProductEligibility(data, rules));
 }
 
 export default router;
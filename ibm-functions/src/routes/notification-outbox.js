@@ -0,0 +1,35 @@
+/**
+ * Notification Outbox Worker — IBM Cloud Function (Node.js 20 / Express)
+ *
+ * POST /api/notification-outbox/drain?token=<OUTBOX_WORKER_SECRET>&limit=25
+ *   Delivers due notification_outbox rows (borrower email/SMS/in-app and
+ *   Slack/Discord webhooks) with exponential backoff; rows that exhaust
+ *   their attempts are moved to the dead-letter state. Intended for a
+ *   scheduler, so the shared secret authenticates the caller.
+ */
+import { Router } from 'express';
+import { timingSafeEqual } from 'node:crypto';
+import { drainOutbox } from '../notification-outbox.js';
+
+const router = Router();
+
+function validToken(token) {
+  const secret = process.env.OUTBOX_WORKER_SECRET;
+  if (!secret || typeof token !== 'string') return false;
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+router.post('/drain', async (req, res) => {
+  try {
+    if (!validToken(req.query.token)) return res.status(401).json({ error: 'Invalid worker token' });
+    const summary = await drainOutbox(Math.min(Number(req.query.limit) || 25, 200));
+    return res.json({ success: true, ...summary });
+  } catch (err) {
+    console.error('Notification outbox drain error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
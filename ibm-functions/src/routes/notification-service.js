@@ -10,7 +10,13 @@ import { z } from 'zod';
 import { requireAuth, hasRole } from '../auth.js';
 import { checkRateLimit, rateLimitHeaders } from '../rate-limit.js';
 import { logAuditEvent } from '../audit-helpers.js';
+import { randomUUID } from 'node:crypto';
 import { query } from '../db.js';
+import { deliverEmail } from '../email-transport.js';
+import { dispatchNotification } from '../notification-dispatcher.js';
+import { enqueueNotification, enqueueWebhookNotifications } from '../notification-outbox.js';
+import { deliverSms, normalizePhone } from '../sms-transport.js';
+import { loadTemplate, renderNotificationTemplate, renderTemplate, sampleTemplateData } from '../notification-templates.js';
 
 const router = Router();
 
@@ -21,15 +27,58 @@ const RATE_LIMITS = {
   'application-status-change':{ maxRequests: 100, windowSeconds: 60 },
   'loan-funded':              { maxRequests: 20,  windowSeconds: 60 },
   'send-external':            { maxRequests: 30,  windowSeconds: 60 },
+  'preview-template':         { maxRequests: 60,  windowSeconds: 60 },
+  dispatch:                   { maxRequests: 30,  windowSeconds: 60 },
+  'get-sms-settings':         { maxRequests: 30,  windowSeconds: 60 },
+  'update-sms-settings':      { maxRequests: 10,  windowSeconds: 60 },
+  'requeue-outbox':           { maxRequests: 30,  windowSeconds: 60 },
 };
 
-const ADMIN_ONLY_ACTIONS = ['loan-funded', 'send-external', 'send-bulk'];
+const ADMIN_ONLY_ACTIONS = ['loan-funded', 'send-external', 'send-bulk', 'preview-template', 'requeue-outbox'];
 
 const requestSchema = z.object({
-  action: z.enum(['send', 'send-bulk', 'get-templates', 'application-status-change', 'loan-funded', 'send-external']),
+  action: z.enum(['send', 'send-bulk', 'get-templates', 'application-status-change', 'loan-funded', 'send-external', 'preview-template', 'dispatch', 'get-sms-settings', 'update-sms-settings', 'requeue-outbox']),
   notificationData: z.any().optional(),
 });
 
+// Template preview: unsaved wording from the admin editor
+const previewSchema = z.object({
+  templateKey: z.string().max(100),
+  channel: z.enum(['email', 'sms']),
+  subject: z.string().max(500).nullable().optional(),
+  htmlBody: z.string().max(50000).nullable().optional(),
+  textBody: z.string().max(20000).optional(),
+  applicationId: z.string().uuid().optional(),
+});
+
+// Preference-aware send of one event to a user
+const dispatchSchema = z.object({
+  event: z.string().max(100),
+  userId: z.string().uuid().optional(),
+  applicationId: z.string().uuid().optional(),
+  recipient: z.string().email().max(255).optional(),
+  data: z.record(z.any()).optional(),
+});
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+const smsSettingsSchema = z.object({
+  phone: z.string().max(30).nullable(),
+  optIn: z.boolean(),
+  quietHoursStart: timeOfDay,
+  quietHoursEnd: timeOfDay,
+  timezone: z.string().max(64).refine(isValidTimeZone, 'Unknown time zone'),
+});
+
+function isValidTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 // ── Main route ──
 router.post('/', requireAuth, async (req, res) => {
   try {
@@ -60,17 +109,27 @@ router.post('/', requireAuth, async (req, res) => {
 
     switch (action) {
       case 'send':
-        return handleSend(res, notificationData);
+        return handleSend(req, res, notificationData);
       case 'send-bulk':
-        return handleBulk(res, notificationData);
+        return handleBulk(req, res, notificationData);
       case 'get-templates':
         return handleGetTemplates(res);
+      case 'preview-template':
+        return handlePreviewTemplate(res, notificationData);
       case 'application-status-change':
-        return handleStatusChange(res, notificationData);
+        return handleStatusChange(req, res, notificationData);
       case 'loan-funded':
         return handleLoanFunded(req, res, notificationData);
       case 'send-external':
-        return handleSendExternal(res, notificationData);
+        return handleSendExternal(req, res, notificationData);
+      case 'dispatch':
+        return handleDispatch(req, res, notificationData);
+      case 'get-sms-settings':
+        return handleGetSmsSettings(req, res);
+      case 'update-sms-settings':
+        return handleUpdateSmsSettings(req, res, notificationData);
+      case 'requeue-outbox':
+        return handleRequeueOutbox(req, res, notificationData);
       default:
         return res.status(400).json({ error: 'Invalid action' });
     }
@@ -82,159 +141,270 @@ router.post('/', requireAuth, async (req, res) => {
 
 // ── Handlers ──
 
-function handleSend(res, data) {
+async function handleSend(req, res, data) {
   if (!data) return res.status(400).json({ error: 'Notification data required' });
+  // Texts go to arbitrary numbers, so only admins may send them directly
+  if (data.type === 'sms' && !(await hasRole(req.userId, 'admin'))) {
+    return res.status(403).json({ error: 'Admin role required to send SMS directly' });
+  }
   switch (data.type) {
-    case 'email': return sendEmail(res, data);
-    case 'sms':   return sendSMS(res, data);
+    case 'email': return sendEmail(req, res, data);
+    case 'sms':   return sendSMS(req, res, data);
     case 'system':return res.json({ success: true, message: 'System notification created' });
     default:      return res.status(400).json({ error: 'Invalid notification type' });
   }
 }
 
-function sendEmail(res, data) {
-  const template = getEmailTemplate(data.template, data.data);
-  console.log(`EMAIL → ${data.recipient} | Subject: ${template.subject}`);
-  return res.json({ success: true, message: 'Email sent', emailLog: { recipient: data.recipient, subject: template.subject, status: 'sent', timestamp: new Date().toISOString() } });
+// Render the template and hand it to the configured transport; the delivery is logged either way.
+// A missing or disabled template is returned as-is with nothing sent.
+async function deliverTemplate(req, data) {
+  const result = await renderNotificationTemplate(data.template, 'email', data.data);
+  if (result.status !== 'rendered') return result;
+  const template = result.rendered;
+  return deliverEmail(
+    { to: data.recipient, subject: template.subject, html: template.html, text: template.text },
+    { template: data.template, userId: data.userId, applicationId: data.applicationId, triggeredBy: req.userId, metadata: { template_version: template.version } }
+  );
+}
+
+// Missing templates are a caller error; disabled ones are skipped on purpose
+function templateUnavailable(res, result, key, channel) {
+  if (result.status === 'disabled') {
+    return res.json({ success: false, skipped: true, message: `The ${key} ${channel} template is disabled` });
+  }
+  return res.status(404).json({ success: false, message: `No ${channel} template named ${key}` });
+}
+
+function emailResponse(res, delivery, data) {
+  if (delivery.status === 'missing' || delivery.status === 'disabled') return templateUnavailable(res, delivery, data.template, 'email');
+  const emailLog = {
+    deliveryId: delivery.id, recipient: data.recipient, template: data.template, provider: delivery.provider,
+    providerMessageId: delivery.providerMessageId, status: delivery.status, timestamp: new Date().toISOString(),
+  };
+  if (delivery.status !== 'sent') {
+    const message = delivery.status === 'bounced' ? 'Email was rejected by the recipient server' : 'Failed to send email';
+    return res.status(502).json({ success: false, message, emailLog });
+  }
+  return res.json({ success: true, message: 'Email sent', emailLog });
 }
 
-function sendSMS(res, data) {
-  const message = getSMSTemplate(data.template, data.data);
-  console.log(`SMS → ${data.recipient} | ${message}`);
-  return res.json({ success: true, message: 'SMS sent', smsLog: { recipient: data.recipient, message, status: 'sent', timestamp: new Date().toISOString() } });
+async function sendEmail(req, res, data) {
+  const delivery = await deliverTemplate(req, data);
+  return emailResponse(res, delivery, data);
 }
 
-function handleBulk(res, data) {
+// Render the SMS template and send it through deliverSms, which applies consent, the daily cap and quiet hours
+async function deliverSmsTemplate(req, data) {
+  const phone = normalizePhone(data.recipient);
+  if (!phone) return { status: 'invalid_phone' };
+  const result = await renderNotificationTemplate(data.template, 'sms', data.data);
+  if (result.status !== 'rendered') return result;
+  return deliverSms(
+    { to: phone, body: result.rendered.text },
+    { template: data.template, userId: data.userId, applicationId: data.applicationId, triggeredBy: req.userId, metadata: { template_version: result.rendered.version } }
+  );
+}
+
+const SMS_MESSAGES = {
+  sent: 'SMS sent',
+  deferred: "SMS held until the recipient's quiet hours end",
+  suppressed: 'SMS not sent: the recipient has not opted in or has reached the daily limit',
+};
+
+async function sendSMS(req, res, data) {
+  const delivery = await deliverSmsTemplate(req, data);
+  if (delivery.status === 'invalid_phone') return res.status(400).json({ success: false, message: 'Invalid phone number' });
+  if (delivery.status === 'missing' || delivery.status === 'disabled') return templateUnavailable(res, delivery, data.template, 'sms');
+  const smsLog = {
+    deliveryId: delivery.id, recipient: data.recipient, template: data.template, provider: delivery.provider,
+    providerMessageId: delivery.providerMessageId, status: delivery.status, reason: delivery.reason,
+    sendAfter: delivery.sendAfter, timestamp: new Date().toISOString(),
+  };
+  if (delivery.status === 'failed') return res.status(502).json({ success: false, message: 'Failed to send SMS', smsLog });
+  return res.json({ success: delivery.status !== 'suppressed', message: SMS_MESSAGES[delivery.status], smsLog });
+}
+
+async function handleBulk(req, res, data) {
   if (!data?.notifications?.length) return res.status(400).json({ error: 'Notifications array required' });
-  console.log(`Bulk: ${data.notifications.length} notifications`);
-  return res.json({ success: true, message: 'Bulk notifications processed', resultsCount: data.notifications.length });
-}
-
-function handleGetTemplates(res) {
-  return res.json({
-    templates: {
-      application_submitted:    { subject: 'Application Received - Heritage Business Funding' },
-      application_under_review: { subject: 'Application Under Review - Heritage Business Funding' },
-      application_approved:     { subject: 'Congratulations! Your Application is Approved' },
-      application_rejected:     { subject: 'Application Update - Heritage Business Funding' },
-      loan_funded:              { subject: 'Your Loan Has Been Funded!' },
-      document_required:        { subject: 'Document Required - Heritage Business Funding' },
-      payment_reminder:         { subject: 'Payment Reminder - Heritage Business Funding' },
-      welcome:                  { subject: 'Welcome to Heritage Business Funding' },
-    },
-  });
+  let failedCount = 0;
+  for (const notification of data.notifications) {
+    if (notification?.type === 'email') {
+      const delivery = await deliverTemplate(req, notification);
+      if (delivery.status !== 'sent' && delivery.status !== 'disabled') failedCount++;
+    } else if (notification?.type === 'sms') {
+      const delivery = await deliverSmsTemplate(req, notification);
+      if (['failed', 'missing', 'invalid_phone'].includes(delivery.status)) failedCount++;
+    }
+  }
+  return res.json({ success: true, message: 'Bulk notifications processed', resultsCount: data.notifications.length, failedCount });
 }
 
-function handleStatusChange(res, data) {
-  if (!data) return res.status(400).json({ error: 'Notification data required' });
-  const template = getEmailTemplate(`application_${data.newStatus}`, { applicantName: data.applicantName, applicationNumber: data.applicationNumber, newStatus: data.newStatus });
-  console.log(`Status change email → ${data.applicantEmail} | ${template.subject}`);
-  return res.json({ success: true, message: 'Status change notification sent' });
+async function handleGetTemplates(res) {
+  const { rows } = await query(
+    `SELECT template_key, channel, name, description, subject, variables, is_enabled, version
+     FROM notification_templates ORDER BY template_key`
+  );
+  const templates = {};
+  const smsTemplates = {};
+  for (const t of rows) {
+    const entry = { name: t.name, subject: t.subject, description: t.description, variables: t.variables, enabled: t.is_enabled, version: t.version };
+    if (t.channel === 'email') templates[t.template_key] = entry;
+    else smsTemplates[t.template_key] = entry;
+  }
+  return res.json({ templates, smsTemplates });
+}
+
+// Render stored or draft wording against sample data so admins can check an edit before saving
+async function handlePreviewTemplate(res, data) {
+  const validation = previewSchema.safeParse(data);
+  if (!validation.success) return res.status(400).json({ error: 'Invalid notification data', details: validation.error.format() });
+  const { templateKey, channel, subject, htmlBody, textBody, applicationId } = validation.data;
+
+  const template = await loadTemplate(templateKey, channel);
+  if (!template) return res.status(404).json({ error: `No ${channel} template named ${templateKey}` });
+
+  const sampleData = await sampleTemplateData(applicationId);
+  const preview = renderTemplate(template, sampleData, { subject, html_body: htmlBody, text_body: textBody });
+  return res.json({ preview, sampleData });
+}
+
+// Status-change, loan-funded and webhook notifications go through the outbox so
+// a provider outage is retried instead of lost. The caller may pass an
+// idempotencyKey to make repeated requests safe.
+const outboxKey = (prefix, data) => `${prefix}:${data.idempotencyKey ?? randomUUID()}`;
+
+const queuedResponse = (res, outboxId, webhooksQueued = 0) =>
+  res.status(202).json({ success: true, queued: true, outboxId, webhooksQueued });
+
+async function handleStatusChange(req, res, data) {
+  if (!data?.newStatus) return res.status(400).json({ error: 'newStatus is required' });
+  const outboxId = await enqueueNotification({
+    event: 'application_status_change',
+    payload: {
+      applicationId: data.applicationId,
+      newStatus: data.newStatus,
+      applicantEmail: data.applicantEmail,
+      applicantName: data.applicantName,
+      applicationNumber: data.applicationNumber,
+    },
+    idempotencyKey: outboxKey(`application_status_change:${data.applicationId ?? 'none'}:${data.newStatus}`, data),
+    applicationId: data.applicationId ?? null,
+    createdBy: req.userId,
+  });
+  return queuedResponse(res, outboxId);
 }
 
 async function handleLoanFunded(req, res, data) {
   if (!data) return res.status(400).json({ error: 'Notification data required' });
-  const { applicantEmail, applicantName, loanNumber, loanAmount, loanType, monthlyPayment, interestRate, termMonths, userId } = data;
-
+  const { applicantEmail, applicantName, loanNumber, loanAmount, loanType, monthlyPayment, interestRate, termMonths, userId, applicationId } = data;
+  const key = outboxKey(`loan_funded:${applicationId ?? loanNumber ?? 'none'}`, data);
   const fmt = (n) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(n);
 
-  // External webhooks
-  try { await sendToWebhooks('loan_funded', '🎉 Loan Funded', `${loanType} loan of ${fmt(loanAmount)} funded for ${applicantName}`, data); } catch (e) { console.error('Webhook error:', e); }
-
-  // In-app notification
-  if (userId) {
-    try {
-      await query(
-        `INSERT INTO notifications (user_id, title, message, type, action_url, metadata)
-         VALUES ($1, $2, $3, 'success', '/existing-loans', $4)`,
-        [userId, 'Loan Funded Successfully!', `Your ${loanType} loan of ${fmt(loanAmount)} has been funded. Monthly payment: ${fmt(monthlyPayment)}`,
-         JSON.stringify({ loanNumber, loanAmount, loanType, monthlyPayment, interestRate, termMonths })]
-      );
-    } catch (e) { console.error('In-app notification error:', e); }
-  }
+  const outboxId = await enqueueNotification({
+    event: 'loan_funded',
+    payload: { applicationId, userId, applicantEmail, applicantName, loanNumber, loanAmount, loanType, monthlyPayment, interestRate, termMonths },
+    idempotencyKey: key,
+    applicationId: applicationId ?? null,
+    createdBy: req.userId,
+  });
+  const webhooksQueued = await enqueueWebhookNotifications({
+    eventType: 'loan_funded',
+    title: '🎉 Loan Funded',
+    message: `${loanType} loan of ${fmt(loanAmount)} funded for ${applicantName}`,
+    data: { loanAmount: fmt(loanAmount), loanType, applicantName, loanNumber },
+    idempotencyKey: key,
+    applicationId: applicationId ?? null,
+    createdBy: req.userId,
+  });
+  return queuedResponse(res, outboxId, webhooksQueued);
+}
 
-  console.log(`Loan funded email → ${applicantEmail}`);
-  return res.json({ success: true, message: 'Loan funded notification sent' });
+async function handleSendExternal(req, res, data) {
+  if (!data?.eventType || !data.title || !data.message) return res.status(400).json({ error: 'eventType, title and message are required' });
+  const webhooksQueued = await enqueueWebhookNotifications({
+    eventType: data.eventType,
+    title: data.title,
+    message: data.message,
+    data: data.data,
+    idempotencyKey: outboxKey(`external:${data.eventType}`, data),
+    createdBy: req.userId,
+  });
+  return res.status(202).json({ success: true, queued: true, webhooksQueued });
 }
 
-async function handleSendExternal(res, data) {
-  if (!data) return res.status(400).json({ error: 'Notification data required' });
-  try {
-    const results = await sendToWebhooks(data.eventType, data.title, data.message, data.data);
-    return res.json({ success: true, results });
-  } catch (err) {
-    return res.status(500).json({ success: false, error: 'Failed to send external notifications' });
-  }
+// Give a dead-lettered notification a fresh set of attempts
+async function handleRequeueOutbox(req, res, data) {
+  const outboxId = data?.outboxId;
+  if (!z.string().uuid().safeParse(outboxId).success) return res.status(400).json({ error: 'outboxId is required' });
+  const { rows } = await query('SELECT requeue_notification_outbox($1) AS requeued', [outboxId]);
+  if (!rows[0]?.requeued) return res.status(409).json({ error: 'Only dead-lettered notifications can be requeued' });
+  await logAuditEvent({ userId: req.userId, action: 'REQUEUE_NOTIFICATION', resourceType: 'notification', resourceId: outboxId });
+  return res.json({ success: true });
 }
 
-async function sendToWebhooks(eventType, title, message, data) {
-  const result = await query(
-    `SELECT * FROM external_notification_webhooks WHERE is_active = true AND event_types @> $1::jsonb`,
-    [JSON.stringify([eventType])]
-  );
-  const webhooks = result.rows;
-  if (!webhooks.length) return [];
-
-  const results = [];
-  for (const wh of webhooks) {
-    try {
-      const payload = wh.platform === 'slack'
-        ? formatSlack(title, message, data)
-        : formatDiscord(title, message, data);
-      const resp = await fetch(wh.webhook_url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(payload) });
-      results.push({ webhook: wh.name, platform: wh.platform, success: resp.ok, status: resp.status });
-    } catch (e) {
-      results.push({ webhook: wh.name, platform: wh.platform, success: false, error: 'Failed' });
-    }
-  }
-  return results;
+// A dispatch succeeds when at least one channel sent, held or deliberately skipped the message
+function dispatchResponse(res, results) {
+  const outcomes = Object.values(results);
+  const success = outcomes.length === 0 || outcomes.some((result) => result.status !== 'failed');
+  return res.status(success ? 200 : 502).json({ success, results });
 }
 
-// ── Templates ──
+// Send one event on every channel the recipient has enabled. Borrowers may
+// only notify themselves, about their own applications.
+async function handleDispatch(req, res, data) {
+  const validation = dispatchSchema.safeParse(data);
+  if (!validation.success) return res.status(400).json({ error: 'Invalid notification data', details: validation.error.format() });
+  const { event, applicationId, recipient } = validation.data;
+
+  let application = null;
+  if (applicationId) {
+    const { rows } = await query('SELECT user_id, email FROM loan_applications WHERE id = $1', [applicationId]);
+    application = rows[0] ?? null;
+  }
+  const targetUserId = validation.data.userId ?? application?.user_id ?? req.userId;
 
-function getEmailTemplate(templateName, data) {
-  const templates = {
-    application_submitted:    (d) => ({ subject: 'Application Received', html: `<h1>Thank you, ${d?.applicantName}!</h1>`, text: `Thank you, ${d?.applicantName}!` }),
-    application_under_review: (d) => ({ subject: 'Application Under Review', html: `<h1>Hello, ${d?.applicantName}</h1>`, text: `Hello, ${d?.applicantName}` }),
-    application_approved:     (d) => ({ subject: 'Application Approved!', html: `<h1>Great news, ${d?.applicantName}!</h1>`, text: `Great news, ${d?.applicantName}!` }),
-    application_rejected:     (d) => ({ subject: 'Application Update', html: `<h1>Hello, ${d?.applicantName}</h1>`, text: `Hello, ${d?.applicantName}` }),
-    loan_funded:              (d) => ({ subject: 'Your Loan Has Been Funded!', html: `<h1>Congratulations, ${d?.applicantName}!</h1>`, text: `Congratulations!` }),
-    welcome:                  (d) => ({ subject: 'Welcome to Heritage Business Funding', html: `<h1>Welcome!</h1>`, text: 'Welcome!' }),
-  };
-  return (templates[templateName] || templates.welcome)(data || {});
+  const ownsTarget = targetUserId === req.userId && (!application || application.user_id === req.userId);
+  if (!ownsTarget && !(await hasRole(req.userId, 'admin'))) {
+    return res.status(403).json({ error: 'You can only send notifications to yourself' });
+  }
+
+  const results = await dispatchNotification({
+    userId: targetUserId,
+    event,
+    data: validation.data.data ?? {},
+    channels: ['email', 'sms'],
+    email: recipient ?? (targetUserId === req.userId ? req.userEmail : null) ?? application?.email,
+    applicationId,
+    triggeredBy: req.userId,
+  });
+  return dispatchResponse(res, results);
 }
 
-function getSMSTemplate(templateName, data) {
-  const templates = {
-    application_submitted: (d) => `HBF: Application #${d?.applicationNumber} received.`,
-    application_approved:  (d) => `HBF: Application #${d?.applicationNumber} approved!`,
-    loan_funded:           (d) => `HBF: Your ${d?.loanType} loan of ${d?.loanAmount} has been funded!`,
-  };
-  return (templates[templateName] || (() => 'Heritage Business Funding notification'))(data || {});
-}
-
-function formatSlack(title, message, data) {
-  const fields = [];
-  if (data?.loanAmount) fields.push({ type: 'mrkdwn', text: `*Amount:*\n${data.loanAmount}` });
-  if (data?.loanType) fields.push({ type: 'mrkdwn', text: `*Type:*\n${data.loanType}` });
-  if (data?.applicantName) fields.push({ type: 'mrkdwn', text: `*Applicant:*\n${data.applicantName}` });
-  return {
-    text: `${title}: ${message}`,
-    blocks: [
-      { type: 'header', text: { type: 'plain_text', text: title, emoji: true } },
-      { type: 'section', text: { type: 'mrkdwn', text: message } },
-      ...(fields.length ? [{ type: 'section', fields }] : []),
-      { type: 'context', elements: [{ type: 'mrkdwn', text: `Heritage Business Funding | ${new Date().toLocaleString()}` }] },
-    ],
-  };
+async function handleGetSmsSettings(req, res) {
+  const { rows } = await query('SELECT get_sms_settings($1) AS settings', [req.userId]);
+  return res.json({ settings: rows[0]?.settings });
 }
 
-function formatDiscord(title, message, data) {
-  const fields = [];
-  if (data?.loanAmount) fields.push({ name: 'Amount', value: data.loanAmount, inline: true });
-  if (data?.loanType) fields.push({ name: 'Type', value: data.loanType, inline: true });
-  if (data?.applicantName) fields.push({ name: 'Applicant', value: data.applicantName, inline: true });
-  return { embeds: [{ title, description: message, color: 0x00d26a, fields: fields.length ? fields : undefined, timestamp: new Date().toISOString(), footer: { text: 'Heritage Business Funding' } }] };
+async function handleUpdateSmsSettings(req, res, data) {
+  const validation = smsSettingsSchema.safeParse(data);
+  if (!validation.success) return res.status(400).json({ error: 'Invalid SMS settings', details: validation.error.format() });
+  const { phone, optIn, quietHoursStart, quietHoursEnd, timezone } = validation.data;
+
+  const normalized = phone ? normalizePhone(phone) : null;
+  if ((phone && !normalized) || (optIn && !normalized)) {
+    return res.status(400).json({ error: 'A valid mobile number is required to receive texts' });
+  }
+
+  const { rows } = await query('SELECT set_sms_settings($1, $2, $3, $4, $5, $6) AS settings', [
+    req.userId, normalized, optIn, quietHoursStart, quietHoursEnd, timezone,
+  ]);
+  await logAuditEvent({
+    userId: req.userId,
+    action: 'SMS_SETTINGS_UPDATED',
+    resourceType: 'notification_preferences',
+    details: { phone: normalized, optIn, quietHoursStart, quietHoursEnd, timezone },
+  });
+  return res.json({ settings: rows[0]?.settings });
 }
 
 export default router;
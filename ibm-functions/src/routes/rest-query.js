@@ -9,8 +9,8 @@
  * Body: { table, method?, params?, body?, returnData?, countOnly?, single? }
  */
 import { Router } from 'express';
-import { requireAuth } from '../auth.js';
-import { query as dbQuery } from '../db.js';
+import { requireAuth, hasRoleOrHigher } from '../auth.js';
+import { query as dbQuery, queryAsUser } from '../db.js';
 
 const router = Router();
 
@@ -36,12 +36,97 @@ const ALLOWED_TABLES = new Set([
   'crm_opportunities',
   'crm_integration_settings',
   'crm_sync_log',
+  'crm_external_links',
+  'crm_reconciliation_runs',
   'external_notification_webhooks',
   'rate_limit_tracking',
+  'underwriting_rule_sets',
+  'underwriting_rules',
+  'loan_products',
+  'loan_product_versions',
+  'loan_payments',
+  'email_deliveries',
+  'notification_templates',
+  'notification_template_versions',
+  'sms_deliveries',
+  'sms_consents',
+  'notification_outbox',
+  'underwriter_settings',
+  'underwriter_workload',
+  'admin_saved_views',
+  'application_workflow_transitions',
+  'application_conditions',
+  'application_status_decisions',
+  'adverse_action_notices',
+  'adverse_action_notice_report',
+  'loan_documents',
 ]);
 
-// Allowed columns per table for SELECT (if not specified, all columns returned)
-// This is for safety — prevents selecting from sensitive columns
+// Admin-managed configuration: anyone signed in may read, only admins may write
+const ADMIN_WRITE_TABLES = new Set([
+  'loan_products',
+  'application_workflow_transitions',
+  // Posted through the record/reverse_loan_payment RPCs
+  'loan_payments',
+  // Synced and removed through bank-aggregation
+  'bank_accounts',
+]);
+
+// Underwriter-managed: anyone signed in may read (their own rows), underwriters may write
+const UNDERWRITER_WRITE_TABLES = new Set([
+  // Borrowers satisfy conditions through submit_application_condition
+  'application_conditions',
+]);
+
+// Underwriting policy: underwriters may read, only admins may write
+const UNDERWRITER_READ_TABLES = new Set([
+  'underwriting_rule_sets',
+  'underwriting_rules',
+]);
+
+// Readable and writable by admins only
+const ADMIN_ONLY_TABLES = new Set([
+  'loan_product_versions',
+  // Written by the notification backends
+  'email_deliveries',
+  'sms_deliveries',
+  'sms_consents',
+  'notification_outbox',
+  // CRM connectors send borrower data to the configured endpoint
+  'crm_integration_settings',
+  'crm_external_links',
+  'crm_reconciliation_runs',
+  // Edited from the admin notifications console
+  'notification_templates',
+  'notification_template_versions',
+  // Routing configuration, edited from application assignments
+  'underwriter_settings',
+  'underwriter_workload',
+  // Saved filter views on the admin list pages
+  'admin_saved_views',
+  // Maker-checker decisions; written by the admin-dashboard decision actions
+  'application_status_decisions',
+  // Opened by the rejection trigger; filed through admin-dashboard record-adverse-action
+  'adverse_action_notices',
+  'adverse_action_notice_report',
+  // Issued through admin-dashboard record-loan-document
+  'loan_documents',
+]);
+
+// Rows belong to the caller: reads and writes are always scoped to user_id = caller
+const OWNER_SCOPED_TABLES = new Set([
+  'admin_saved_views',
+]);
+
+// Full-text search operators and the tsquery constructor each maps to
+const FTS_FUNCTIONS = {
+  fts: 'to_tsquery',
+  plfts: 'plainto_tsquery',
+  phfts: 'phraseto_tsquery',
+  wfts: 'websearch_to_tsquery',
+};
+
+// Borrower data: callers below underwriter only reach their own rows (user_id = caller)
 const SENSITIVE_TABLES_REQUIRE_USER_SCOPE = new Set([
   'loan_applications',
   'bank_accounts',
@@ -51,11 +136,18 @@ const SENSITIVE_TABLES_REQUIRE_USER_SCOPE = new Set([
   'existing_loans',
   'notifications',
   'notification_preferences',
+  'loan_payments',
+  'application_conditions',
 ]);
 
+// Statuses a borrower may set on their own application; the workflow backends set the rest
+const BORROWER_APPLICATION_STATUSES = new Set(['draft', 'paused', 'submitted']);
+
 /**
  * Parse PostgREST-style filter params into WHERE clauses.
- * Supports: eq., neq., gt., gte., lt., lte., in.(), like., ilike., is.
+ * Supports: eq., neq., gt., gte., lt., lte., in.(), like., ilike., is.,
+ * and full-text search with fts., plfts., phfts., wfts. and an optional
+ * text search config, e.g. fts(simple).acme:*
  */
 function parseFilters(params, tableColumns) {
   const clauses = [];
@@ -99,6 +191,17 @@ function parseFilters(params, tableColumns) {
       } else if (rawValue.startsWith('ilike.')) {
         clauses.push(`"${col}" ILIKE $${idx++}`);
         values.push(rawValue.slice(6));
+      } else if (/^(fts|plfts|phfts|wfts)[.(]/.test(rawValue)) {
+        const match = rawValue.match(/^(fts|plfts|phfts|wfts)(?:\(([a-zA-Z_][a-zA-Z0-9_]*)\))?\.([\s\S]*)$/);
+        if (!match) throw new Error(`Invalid full-text search filter on "${col}"`);
+        const [, op, config, text] = match;
+        if (config) {
+          clauses.push(`"${col}" @@ ${FTS_FUNCTIONS[op]}($${idx++}::regconfig, $${idx++})`);
+          values.push(config, text);
+        } else {
+          clauses.push(`"${col}" @@ ${FTS_FUNCTIONS[op]}($${idx++})`);
+          values.push(text);
+        }
       } else if (rawValue.startsWith('is.')) {
         const val = rawValue.slice(3);
         if (val === 'null') clauses.push(`"${col}" IS NULL`);
@@ -113,11 +216,13 @@ function parseFilters(params, tableColumns) {
 
 function parseOrder(orderStr) {
   if (!orderStr) return '';
-  // e.g. "created_at.desc" or "balance.desc,name.asc"
+  // e.g. "created_at.desc" or "balance.desc,name.asc.nullslast"
   const parts = orderStr.split(',').map(p => {
-    const [col, dir] = p.trim().split('.');
-    const direction = dir?.toLowerCase() === 'desc' ? 'DESC' : 'ASC';
-    return `"${col}" ${direction}`;
+    const [col, ...modifiers] = p.trim().split('.');
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(col)) throw new Error(`Invalid order column "${col}"`);
+    const direction = modifiers.some(m => m.toLowerCase() === 'desc') ? 'DESC' : 'ASC';
+    const nulls = modifiers.includes('nullsfirst') ? ' NULLS FIRST' : modifiers.includes('nullslast') ? ' NULLS LAST' : '';
+    return `"${col}" ${direction}${nulls}`;
   });
   return `ORDER BY ${parts.join(', ')}`;
 }
@@ -132,6 +237,30 @@ router.post('/', requireAuth, async (req, res) => {
 
     const sqlMethod = method.toUpperCase();
 
+    const isWrite = sqlMethod !== 'GET';
+    if (ADMIN_ONLY_TABLES.has(table) || ((ADMIN_WRITE_TABLES.has(table) || UNDERWRITER_READ_TABLES.has(table)) && isWrite)) {
+      if (!(await hasRoleOrHigher(req.userId, 'admin'))) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+    } else if (UNDERWRITER_READ_TABLES.has(table) || (UNDERWRITER_WRITE_TABLES.has(table) && isWrite)) {
+      if (!(await hasRoleOrHigher(req.userId, 'underwriter'))) {
+        return res.status(403).json({ error: 'Underwriter access required' });
+      }
+    }
+
+    const ownerScoped = OWNER_SCOPED_TABLES.has(table)
+      || (SENSITIVE_TABLES_REQUIRE_USER_SCOPE.has(table) && !(await hasRoleOrHigher(req.userId, 'underwriter')));
+    if (ownerScoped) {
+      params.user_id = `eq.${req.userId}`;
+    }
+
+    if (table === 'loan_applications' && ownerScoped && isWrite) {
+      const writtenRows = Array.isArray(reqBody) ? reqBody : [reqBody];
+      if (writtenRows.some(row => row && typeof row === 'object' && 'status' in row && !BORROWER_APPLICATION_STATUSES.has(row.status))) {
+        return res.status(403).json({ error: 'Borrowers can only set an application to draft, paused or submitted' });
+      }
+    }
+
     switch (sqlMethod) {
       case 'GET': {
         const selectCols = params.select || '*';
@@ -157,7 +286,8 @@ router.post('/', requireAuth, async (req, res) => {
 
       case 'POST': {
         // INSERT — reqBody can be an array or object
-        const rows = Array.isArray(reqBody) ? reqBody : [reqBody];
+        const rows = (Array.isArray(reqBody) ? reqBody : [reqBody])
+          .map(row => (ownerScoped ? { ...row, user_id: req.userId } : row));
         if (!rows.length) return res.status(400).json({ error: 'No data to insert' });
 
         const columns = Object.keys(rows[0]);
@@ -190,8 +320,9 @@ router.post('/', requireAuth, async (req, res) => {
 
         if (returnData) sql += ' RETURNING *';
 
-        const result = await dbQuery(sql, allValues);
-        return res.json({ data: returnData ? result.rows : null });
+        const result = await queryAsUser(req.userId, sql, allValues);
+        if (!returnData) return res.json({ data: null });
+        return res.json({ data: single ? (result.rows[0] ?? null) : result.rows });
       }
 
       case 'PATCH': {
@@ -200,7 +331,7 @@ router.post('/', requireAuth, async (req, res) => {
           return res.status(400).json({ error: 'PATCH requires a body' });
         }
 
-        const setCols = Object.keys(reqBody);
+        const setCols = Object.keys(reqBody).filter(col => !(ownerScoped && col === 'user_id'));
         const { clauses, values: filterValues, nextIdx } = parseFilters(params, null);
         const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
 
@@ -213,8 +344,9 @@ router.post('/', requireAuth, async (req, res) => {
         }).join(', ');
 
         const sql = `UPDATE "${table}" SET ${setClause} ${where}${returnData ? ' RETURNING *' : ''}`;
-        const result = await dbQuery(sql, filterValues);
-        return res.json({ data: returnData ? result.rows : null });
+        const result = await queryAsUser(req.userId, sql, filterValues);
+        if (!returnData) return res.json({ data: null });
+        return res.json({ data: single ? (result.rows[0] ?? null) : result.rows });
       }
 
       case 'DELETE': {
@@ -223,7 +355,7 @@ router.post('/', requireAuth, async (req, res) => {
         if (!where) return res.status(400).json({ error: 'DELETE requires filter conditions' });
 
         const sql = `DELETE FROM "${table}" ${where}`;
-        await dbQuery(sql, values);
+        await queryAsUser(req.userId, sql, values);
         return res.json({ data: null });
       }
 
@@ -232,6 +364,8 @@ router.post('/', requireAuth, async (req, res) => {
     }
   } catch (err) {
     console.error('rest-query error:', err);
+    // Raised by the application workflow trigger and CHECK constraints
+    if (err.code === '23514') return res.status(409).json({ error: err.message });
     return res.status(500).json({ error: err.message || 'Internal server error' });
   }
 });
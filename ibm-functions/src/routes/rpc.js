@@ -29,8 +29,25 @@ const ALLOWED_FUNCTIONS = new Set([
   'increment_security_telemetry',
   'cleanup_rate_limit_tracking',
   'cleanup_old_crm_sync_logs',
+  'activate_underwriting_rule_set',
+  'record_loan_payment',
+  'reverse_loan_payment',
+  'get_loan_delinquency_summary',
+  'auto_assign_application',
+  'submit_application_condition',
 ]);
 
+// Functions that take the caller's id, since auth.uid() is not set here;
+// the client never chooses it
+const CALLER_ID_PARAMS = {
+  activate_underwriting_rule_set: '_actor',
+  auto_assign_application: '_actor',
+  get_loan_delinquency_summary: '_actor',
+  record_loan_payment: '_actor',
+  reverse_loan_payment: '_actor',
+  submit_application_condition: '_actor',
+};
+
 router.post('/:functionName', requireAuth, async (req, res) => {
   try {
     const { functionName } = req.params;
@@ -39,7 +56,8 @@ router.post('/:functionName', requireAuth, async (req, res) => {
       return res.status(400).json({ error: `RPC function "${functionName}" is not allowed` });
     }
 
-    const params = req.body || {};
+    const params = { ...(req.body || {}) };
+    if (CALLER_ID_PARAMS[functionName]) params[CALLER_ID_PARAMS[functionName]] = req.userId;
     const paramNames = Object.keys(params);
     const paramValues = Object.values(params);
 
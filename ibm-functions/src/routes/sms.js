@@ -0,0 +1,87 @@
+/**
+ * SMS — IBM Cloud Function (Node.js 20 / Express)
+ *
+ * POST /api/sms/webhook
+ *   Twilio-compatible inbound message and status callback webhook
+ *   (application/x-www-form-urlencoded, signed with X-Twilio-Signature).
+ *   STOP/START/HELP replies update sms_consents and are answered with TwiML;
+ *   status callbacks update sms_deliveries.
+ *
+ * POST /api/sms/flush-deferred?token=<SMS_WORKER_SECRET>
+ *   Sends texts held for quiet hours whose window has ended. Intended for a
+ *   scheduler, so the shared secret authenticates the caller.
+ */
+import { Router, urlencoded } from 'express';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { query } from '../db.js';
+import { flushDeferredSms, normalizePhone, SMS_HELP_REPLY, SMS_START_REPLY, SMS_STOP_REPLY } from '../sms-transport.js';
+
+const router = Router();
+
+router.use(urlencoded({ extended: false }));
+
+const KEYWORD_REPLIES = { opted_out: SMS_STOP_REPLY, opted_in: SMS_START_REPLY, help: SMS_HELP_REPLY };
+
+function safeEqual(a, b) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Twilio signs the full webhook URL followed by each POST parameter, sorted by name
+function validSignature(req) {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const signature = req.get('X-Twilio-Signature');
+  if (!authToken || !signature) return false;
+  const url = process.env.SMS_WEBHOOK_URL || `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+  const payload = Object.keys(req.body || {}).sort().reduce((acc, key) => acc + key + req.body[key], url);
+  return safeEqual(createHmac('sha1', authToken).update(payload).digest('base64'), signature);
+}
+
+const escapeXml = (value) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const twiml = (res, message) =>
+  res.type('text/xml').send(`<?xml version="1.0" encoding="UTF-8"?><Response>${message ? `<Message>${escapeXml(message)}</Message>` : ''}</Response>`);
+
+router.post('/webhook', async (req, res) => {
+  try {
+    if (!validSignature(req)) return res.status(401).json({ error: 'Invalid signature' });
+
+    const { MessageSid, MessageStatus, From, Body, ErrorCode, ErrorMessage } = req.body;
+
+    // Status callbacks carry MessageStatus and no Body
+    if (MessageStatus && Body === undefined) {
+      const { rows } = await query('SELECT record_sms_status($1, $2, $3) AS matched', [
+        MessageSid, MessageStatus, ErrorMessage || (ErrorCode ? `Error ${ErrorCode}` : null),
+      ]);
+      return res.json({ success: true, matched: rows[0]?.matched ?? false });
+    }
+
+    const phone = normalizePhone(From);
+    if (!phone) return twiml(res);
+    const { rows } = await query('SELECT record_sms_keyword($1, $2) AS action', [phone, Body ?? '']);
+    const action = rows[0]?.action;
+    if (action) console.log(`SMS keyword received: ${action}`);
+    return twiml(res, action ? KEYWORD_REPLIES[action] : null);
+  } catch (err) {
+    console.error('SMS webhook error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/flush-deferred', async (req, res) => {
+  try {
+    const secret = process.env.SMS_WORKER_SECRET;
+    if (!secret || typeof req.query.token !== 'string' || !safeEqual(req.query.token, secret)) {
+      return res.status(401).json({ error: 'Invalid worker token' });
+    }
+    const summary = await flushDeferredSms(Math.min(Number(req.query.limit) || 50, 500));
+    return res.json({ success: true, ...summary });
+  } catch (err) {
+    console.error('SMS flush error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
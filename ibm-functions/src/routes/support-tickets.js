@@ -0,0 +1,290 @@
+/**
+ * Support Tickets — IBM Cloud Function (Node.js 20 / Express)
+ * Mirrors supabase/functions/support-tickets/index.ts
+ *
+ * POST /api/support-tickets
+ * Body: { action, ...params }
+ *
+ * Borrowers see and reply to their own tickets; staff with the
+ * customer_service role or higher work the whole queue. Thread state
+ * and in-app notifications are maintained by database triggers.
+ */
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, hasRoleOrHigher } from '../auth.js';
+import { checkRateLimit, rateLimitHeaders } from '../rate-limit.js';
+import { logAuditEvent } from '../audit-helpers.js';
+import { query } from '../db.js';
+import { dispatchNotification } from '../notification-dispatcher.js';
+
+const router = Router();
+
+const STAFF_ROLES = ['customer_service', 'underwriter', 'moderator', 'admin', 'super_admin'];
+const STAFF_ONLY_ACTIONS = ['update', 'staff'];
+
+const TICKET_COLUMNS = `t.*, p.first_name, p.last_name, p.business_name,
+  (SELECT COUNT(*)::int FROM support_ticket_messages m WHERE m.ticket_id = t.id AND NOT m.is_internal) AS message_count`;
+
+const schemas = {
+  list: z.object({
+    scope: z.enum(['mine', 'queue']).default('mine'),
+    status: z.enum(['open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed']).optional(),
+    assignedTo: z.union([z.literal('me'), z.literal('unassigned'), z.string().uuid()]).optional(),
+  }),
+  get: z.object({ ticketId: z.string().uuid() }),
+  create: z.object({
+    subject: z.string().trim().min(3).max(200),
+    description: z.string().trim().min(1).max(5000),
+    category: z.enum(['general', 'application', 'documents', 'payments', 'account', 'technical']).default('general'),
+    // Urgent is reserved for staff triage
+    priority: z.enum(['low', 'normal', 'high']).default('normal'),
+    loanApplicationId: z.string().uuid().optional(),
+    documentId: z.string().uuid().optional(),
+  }),
+  reply: z.object({
+    ticketId: z.string().uuid(),
+    body: z.string().trim().min(1).max(5000),
+    internal: z.boolean().default(false),
+  }),
+  update: z.object({
+    ticketId: z.string().uuid(),
+    status: z.enum(['open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed']).optional(),
+    priority: z.enum(['low', 'normal', 'high', 'urgent']).optional(),
+    assignedTo: z.string().uuid().nullable().optional(),
+  }),
+  staff: z.object({}),
+};
+
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const action = req.body?.action;
+    const schema = schemas[action];
+    if (!schema) return res.status(400).json({ error: 'Invalid action' });
+
+    const validation = schema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid request format', details: validation.error.format() });
+    }
+
+    const rlResult = await checkRateLimit(req.userId, `support-tickets:${action}`, 60, 60);
+    res.set(rateLimitHeaders(60, rlResult));
+    if (!rlResult.allowed) return res.status(429).json({ error: 'Rate limit exceeded' });
+
+    const isStaff = await hasRoleOrHigher(req.userId, 'customer_service');
+    if (STAFF_ONLY_ACTIONS.includes(action) && !isStaff) {
+      return res.status(403).json({ error: 'Support staff access required' });
+    }
+
+    const data = validation.data;
+    switch (action) {
+      case 'list':
+        return res.json({ tickets: await listTickets(req.userId, isStaff, data) });
+      case 'get':
+        return await getTicket(req, res, isStaff, data.ticketId);
+      case 'create':
+        return await createTicket(req, res, data);
+      case 'reply':
+        return await replyToTicket(req, res, isStaff, data);
+      case 'update':
+        return await updateTicket(req, res, data);
+      case 'staff':
+        return res.json({ staff: await listStaff() });
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (err) {
+    console.error('support-tickets error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ── Handlers ──
+
+async function listTickets(userId, isStaff, { scope, status, assignedTo }) {
+  const clauses = [];
+  const params = [];
+
+  if (scope !== 'queue' || !isStaff) {
+    params.push(userId);
+    clauses.push(`t.user_id = $${params.length}`);
+  }
+  if (status) {
+    params.push(status);
+    clauses.push(`t.status = $${params.length}`);
+  }
+  if (assignedTo === 'unassigned') {
+    clauses.push('t.assigned_to IS NULL');
+  } else if (assignedTo) {
+    params.push(assignedTo === 'me' ? userId : assignedTo);
+    clauses.push(`t.assigned_to = $${params.length}`);
+  }
+
+  const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+  const { rows } = await query(
+    `SELECT ${TICKET_COLUMNS}
+     FROM support_tickets t LEFT JOIN profiles p ON p.id = t.user_id
+     ${where}
+     ORDER BY t.created_at DESC
+     LIMIT 500`,
+    params
+  );
+  return rows;
+}
+
+async function loadTicket(ticketId) {
+  const { rows } = await query(
+    `SELECT ${TICKET_COLUMNS} FROM support_tickets t LEFT JOIN profiles p ON p.id = t.user_id WHERE t.id = $1`,
+    [ticketId]
+  );
+  return rows[0] ?? null;
+}
+
+async function getTicket(req, res, isStaff, ticketId) {
+  const ticket = await loadTicket(ticketId);
+  if (!ticket || (!isStaff && ticket.user_id !== req.userId)) {
+    return res.status(404).json({ error: 'Ticket not found' });
+  }
+
+  const { rows: messages } = await query(
+    `SELECT * FROM support_ticket_messages
+     WHERE ticket_id = $1 ${isStaff ? '' : 'AND NOT is_internal'}
+     ORDER BY created_at`,
+    [ticketId]
+  );
+  return res.json({ ticket, messages });
+}
+
+async function createTicket(req, res, data) {
+  // Linked records must belong to the borrower opening the ticket
+  if (data.loanApplicationId) {
+    const { rowCount } = await query('SELECT 1 FROM loan_applications WHERE id = $1 AND user_id = $2', [data.loanApplicationId, req.userId]);
+    if (!rowCount) return res.status(400).json({ error: 'Application not found' });
+  }
+  if (data.documentId) {
+    const { rowCount } = await query('SELECT 1 FROM borrower_documents WHERE id = $1 AND user_id = $2', [data.documentId, req.userId]);
+    if (!rowCount) return res.status(400).json({ error: 'Document not found' });
+  }
+
+  const { rows } = await query(
+    `INSERT INTO support_tickets (user_id, contact_email, subject, category, priority, loan_application_id, document_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING id`,
+    [req.userId, req.userEmail ?? null, data.subject, data.category, data.priority, data.loanApplicationId ?? null, data.documentId ?? null]
+  );
+  const ticketId = rows[0].id;
+
+  await query(
+    'INSERT INTO support_ticket_messages (ticket_id, author_id, is_staff, body) VALUES ($1, $2, false, $3)',
+    [ticketId, req.userId, data.description]
+  );
+
+  await logAuditEvent({
+    userId: req.userId,
+    action: 'CREATE_SUPPORT_TICKET',
+    resourceType: 'support_ticket',
+    resourceId: ticketId,
+    details: { category: data.category, priority: data.priority },
+  });
+
+  return res.json({ ticket: await loadTicket(ticketId) });
+}
+
+async function replyToTicket(req, res, isStaff, { ticketId, body, internal }) {
+  const ticket = await loadTicket(ticketId);
+  if (!ticket || (!isStaff && ticket.user_id !== req.userId)) {
+    return res.status(404).json({ error: 'Ticket not found' });
+  }
+  if (!isStaff && ticket.status === 'closed') {
+    return res.status(400).json({ error: 'This ticket is closed; open a new ticket instead' });
+  }
+  if (internal && !isStaff) {
+    return res.status(403).json({ error: 'Only staff can add internal notes' });
+  }
+
+  // Staff replying on their own ticket are answering as the borrower
+  const asStaff = isStaff && ticket.user_id !== req.userId;
+  const { rows } = await query(
+    `INSERT INTO support_ticket_messages (ticket_id, author_id, is_staff, is_internal, body)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [ticketId, req.userId, asStaff, internal && asStaff, body]
+  );
+
+  if (asStaff && !internal) {
+    await notifyBorrower(ticket, 'New reply');
+  }
+
+  await logAuditEvent({
+    userId: req.userId,
+    action: internal ? 'ADD_SUPPORT_TICKET_NOTE' : 'REPLY_SUPPORT_TICKET',
+    resourceType: 'support_ticket',
+    resourceId: ticketId,
+    details: { is_staff: asStaff },
+  });
+
+  return res.json({ message: rows[0] });
+}
+
+async function updateTicket(req, res, { ticketId, status, priority, assignedTo }) {
+  const ticket = await loadTicket(ticketId);
+  if (!ticket) return res.status(404).json({ error: 'Ticket not found' });
+
+  if (assignedTo) {
+    const { rowCount } = await query(
+      `SELECT 1 FROM user_roles WHERE user_id = $1 AND role::text = ANY($2) LIMIT 1`,
+      [assignedTo, STAFF_ROLES]
+    );
+    if (!rowCount) return res.status(400).json({ error: 'Tickets can only be assigned to support staff' });
+  }
+
+  const changes = {};
+  if (status !== undefined) changes.status = status;
+  if (priority !== undefined) changes.priority = priority;
+  if (assignedTo !== undefined) changes.assigned_to = assignedTo;
+  const columns = Object.keys(changes);
+  if (!columns.length) return res.status(400).json({ error: 'Nothing to update' });
+
+  const setClause = columns.map((col, i) => `"${col}" = $${i + 2}`).join(', ');
+  await query(`UPDATE support_tickets SET ${setClause} WHERE id = $1`, [ticketId, ...Object.values(changes)]);
+
+  if (status && status !== ticket.status && ['resolved', 'closed'].includes(status)) {
+    await notifyBorrower(ticket, status === 'resolved' ? 'Resolved' : 'Closed');
+  }
+
+  await logAuditEvent({
+    userId: req.userId,
+    action: 'UPDATE_SUPPORT_TICKET',
+    resourceType: 'support_ticket',
+    resourceId: ticketId,
+    details: { changes, previous: { status: ticket.status, priority: ticket.priority, assigned_to: ticket.assigned_to } },
+  });
+
+  return res.json({ ticket: await loadTicket(ticketId) });
+}
+
+async function listStaff() {
+  const { rows } = await query(
+    `SELECT DISTINCT ON (r.user_id) r.user_id AS id, r.role::text AS role, p.first_name, p.last_name
+     FROM user_roles r LEFT JOIN profiles p ON p.id = r.user_id
+     WHERE r.role::text = ANY($1)
+     ORDER BY r.user_id, array_position($1, r.role::text) DESC`,
+    [STAFF_ROLES]
+  );
+  return rows;
+}
+
+// ── Notifications ──
+
+/** Tell the borrower about the update on the channels they enabled for ticket updates */
+async function notifyBorrower(ticket, update) {
+  await dispatchNotification({
+    userId: ticket.user_id,
+    event: 'support_ticket_update',
+    data: { ticketNumber: ticket.ticket_number, ticketSubject: ticket.subject, ticketUpdate: update },
+    channels: ['email', 'sms'],
+    email: ticket.contact_email,
+    metadata: { ticket_id: ticket.id },
+  });
+}
+
+export default router;
@@ -19,6 +19,18 @@ import adminDashboardRouter from './routes/admin-dashboard.js';
 import restQueryRouter from './routes/rest-query.js';
 import rpcRouter from './routes/rpc.js';
 import cosStorageRouter from './routes/cos-storage.js';
+import supportTicketsRouter from './routes/support-tickets.js';
+import eSignatureRouter from './routes/e-signature.js';
+import creditBureauRouter from './routes/credit-bureau.js';
+import bankAggregationRouter from './routes/bank-aggregation.js';
+import cashFlowAnalysisRouter from './routes/cash-flow-analysis.js';
+import bankStatementsRouter from './routes/bank-statements.js';
+import financialSpreadingRouter from './routes/financial-spreading.js';
+import emailEventsRouter from './routes/email-events.js';
+import smsRouter from './routes/sms.js';
+import notificationOutboxRouter from './routes/notification-outbox.js';
+import crmConnectorRouter from './routes/crm-connector.js';
+import assignmentWorkerRouter from './routes/assignment-worker.js';
 
 const app = express();
 const PORT = process.env.PORT || 8080;
@@ -47,7 +59,11 @@ app.use(
     credentials: true,
   })
 );
-app.use(express.json({ limit: '15mb' })); // 15MB to handle base64-encoded 10MB files
+app.use(express.json({
+  limit: '15mb', // 15MB to handle base64-encoded 10MB files
+  // Signed webhooks are verified against the exact bytes received
+  verify: (req, _res, buf) => { req.rawBody = buf; },
+}));
 
 // ── Health check ──
 app.get('/health', async (_req, res) => {
@@ -73,6 +89,18 @@ app.use('/api/admin-dashboard', adminDashboardRouter);
 app.use('/api/rest-query', restQueryRouter);
 app.use('/api/rpc', rpcRouter);
 app.use('/api/storage', cosStorageRouter);
+app.use('/api/support-tickets', supportTicketsRouter);
+app.use('/api/e-signature', eSignatureRouter);
+app.use('/api/credit-bureau', creditBureauRouter);
+app.use('/api/bank-aggregation', bankAggregationRouter);
+app.use('/api/cash-flow-analysis', cashFlowAnalysisRouter);
+app.use('/api/bank-statements', bankStatementsRouter);
+app.use('/api/financial-spreading', financialSpreadingRouter);
+app.use('/api/email-events', emailEventsRouter);
+app.use('/api/sms', smsRouter);
+app.use('/api/notification-outbox', notificationOutboxRouter);
+app.use('/api/crm-connector', crmConnectorRouter);
+app.use('/api/assignment-worker', assignmentWorkerRouter);
 
 // ── 404 fallback ──
 app.use((_req, res) => {
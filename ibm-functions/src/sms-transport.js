@@ -0,0 +1,213 @@
+/**
+ * Pluggable SMS delivery.
+ *
+ * The transport is chosen from the environment: SMS_TRANSPORT=twilio|outbox,
+ * or inferred from TWILIO_ACCOUNT_SID, falling back to the local outbox.
+ * TWILIO_API_URL can point the Twilio transport at a local stand-in.
+ * Every text passes check_sms_eligibility (consent, daily cap, quiet hours)
+ * and is recorded in sms_deliveries; texts held for quiet hours are sent
+ * later by flushDeferredSms().
+ * Mirrors supabase/functions/_shared/sms.ts.
+ */
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { query } from './db.js';
+
+export const SMS_HELP_REPLY = 'Halo Business Finance: account alerts. Msg & data rates may apply. Reply STOP to unsubscribe. Help: support@halobusinessfinance.com';
+export const SMS_STOP_REPLY = 'Halo Business Finance: You are unsubscribed and will receive no further texts. Reply START to resubscribe.';
+export const SMS_START_REPLY = 'Halo Business Finance: You are resubscribed to account alerts. Reply STOP to unsubscribe.';
+
+/** Normalize to E.164, assuming US numbers when no country code is given. Returns null if invalid. */
+export function normalizePhone(value) {
+  if (!value) return null;
+  const trimmed = String(value).trim();
+  const digits = trimmed.replace(/\D/g, '');
+  let e164;
+  if (trimmed.startsWith('+')) e164 = `+${digits}`;
+  else if (digits.length === 10) e164 = `+1${digits}`;
+  else if (digits.length === 11 && digits.startsWith('1')) e164 = `+${digits}`;
+  else return null;
+  return /^\+[1-9]\d{7,14}$/.test(e164) ? e164 : null;
+}
+
+class TwilioTransport {
+  provider = 'twilio';
+
+  constructor(accountSid, authToken, apiUrl) {
+    this.accountSid = accountSid;
+    this.authToken = authToken;
+    this.apiUrl = apiUrl;
+  }
+
+  async send(message) {
+    const form = new URLSearchParams({ To: message.to, Body: message.body });
+    if (process.env.TWILIO_MESSAGING_SERVICE_SID) form.set('MessagingServiceSid', process.env.TWILIO_MESSAGING_SERVICE_SID);
+    else form.set('From', process.env.TWILIO_FROM_NUMBER ?? '');
+    if (process.env.SMS_STATUS_CALLBACK_URL) form.set('StatusCallback', process.env.SMS_STATUS_CALLBACK_URL);
+
+    const resp = await fetch(`${this.apiUrl}/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: form,
+    });
+
+    const body = await resp.json().catch(() => null);
+    if (resp.ok) return { status: 'sent', providerMessageId: body?.sid ?? null };
+    return { status: 'failed', providerMessageId: null, error: body?.message || `HTTP ${resp.status}` };
+  }
+}
+
+// Writes each message as JSON for local testing; nothing leaves the machine
+class OutboxTransport {
+  provider = 'outbox';
+
+  constructor(dir) {
+    this.dir = dir;
+  }
+
+  async send(message) {
+    const id = randomUUID();
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(
+        path.join(this.dir, `${id}.json`),
+        JSON.stringify({ id, ...message, createdAt: new Date().toISOString() }, null, 2)
+      );
+      return { status: 'sent', providerMessageId: id };
+    } catch (err) {
+      return { status: 'failed', providerMessageId: null, error: err.message };
+    }
+  }
+}
+
+export function getSmsTransport() {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const configured = process.env.SMS_TRANSPORT || (accountSid ? 'twilio' : 'outbox');
+
+  if (configured === 'twilio' && accountSid && authToken) {
+    return new TwilioTransport(accountSid, authToken, process.env.TWILIO_API_URL || 'https://api.twilio.com');
+  }
+  if (configured !== 'outbox') {
+    console.warn(`SMS transport "${configured}" is not fully configured; writing to the outbox instead`);
+  }
+  return new OutboxTransport(process.env.SMS_OUTBOX_DIR || '/tmp/sms-outbox');
+}
+
+const dailyLimit = () => Number(process.env.SMS_DAILY_LIMIT || 5);
+
+async function checkEligibility(userId, phone) {
+  const { rows } = await query('SELECT check_sms_eligibility($1, $2, $3) AS result', [userId ?? null, phone, dailyLimit()]);
+  return rows[0].result;
+}
+
+async function transmit(transport, message) {
+  try {
+    return await transport.send(message);
+  } catch (err) {
+    return { status: 'failed', providerMessageId: null, error: err.message ?? 'Delivery failed' };
+  }
+}
+
+/**
+ * Send a text if the recipient has opted in, is under the daily cap and is
+ * outside quiet hours; otherwise record it as deferred or suppressed.
+ * Never throws on delivery failure — check the returned status.
+ *
+ * @param {{ to: string, body: string }} message
+ * @param {{ template: string, userId?: string, applicationId?: string, triggeredBy?: string, metadata?: object }} context
+ */
+export async function deliverSms(message, context) {
+  const transport = getSmsTransport();
+  const record = async (fields) => {
+    try {
+      const { rows } = await query(
+        `INSERT INTO sms_deliveries
+           (user_id, recipient, template, body, provider, loan_application_id, triggered_by, metadata,
+            status, suppression_reason, send_after, provider_message_id, error_message, sent_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, CASE WHEN $9 = 'sent' THEN now() END)
+         RETURNING id`,
+        [context.userId ?? null, message.to, context.template, message.body, transport.provider,
+         context.applicationId ?? null, context.triggeredBy ?? null, JSON.stringify(context.metadata ?? {}),
+         fields.status, fields.reason ?? null, fields.sendAfter ?? null, fields.providerMessageId ?? null, fields.error ?? null]
+      );
+      return rows[0]?.id ?? null;
+    } catch (err) {
+      console.error('Failed to record SMS delivery:', err);
+      return null;
+    }
+  };
+
+  let check;
+  try {
+    check = await checkEligibility(context.userId, message.to);
+  } catch (err) {
+    console.error('SMS eligibility check failed:', err);
+    return { id: null, provider: transport.provider, status: 'failed', providerMessageId: null, error: 'Eligibility check failed' };
+  }
+
+  if (!check.allowed && check.reason === 'quiet_hours') {
+    const id = await record({ status: 'deferred', sendAfter: check.send_after });
+    return { id, provider: transport.provider, status: 'deferred', providerMessageId: null, reason: check.reason, sendAfter: check.send_after };
+  }
+  if (!check.allowed) {
+    const id = await record({ status: 'suppressed', reason: check.reason });
+    return { id, provider: transport.provider, status: 'suppressed', providerMessageId: null, reason: check.reason };
+  }
+
+  const result = await transmit(transport, message);
+  if (result.status !== 'sent') console.error(`SMS to ${message.to} failed:`, result.error);
+  const id = await record(result);
+  return { id, provider: transport.provider, ...result };
+}
+
+/**
+ * Send texts whose quiet hours have ended. Each batch is leased for a few
+ * minutes so overlapping runs do not send the same text twice.
+ */
+export async function flushDeferredSms(limit = 50) {
+  const { rows } = await query(
+    `UPDATE sms_deliveries SET send_after = now() + INTERVAL '5 minutes'
+     WHERE id IN (
+       SELECT id FROM sms_deliveries
+       WHERE status = 'deferred' AND send_after <= now()
+       ORDER BY send_after
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, user_id, recipient, body`,
+    [limit]
+  );
+
+  const transport = getSmsTransport();
+  const summary = { processed: rows.length, sent: 0, failed: 0, deferred: 0, suppressed: 0 };
+  for (const row of rows) {
+    // Consent or quiet hours may have changed since the text was held
+    const check = await checkEligibility(row.user_id, row.recipient);
+    if (!check.allowed && check.reason === 'quiet_hours') {
+      await query('UPDATE sms_deliveries SET send_after = $2 WHERE id = $1', [row.id, check.send_after]);
+      summary.deferred++;
+      continue;
+    }
+    if (!check.allowed) {
+      await query(`UPDATE sms_deliveries SET status = 'suppressed', suppression_reason = $2 WHERE id = $1`, [row.id, check.reason]);
+      summary.suppressed++;
+      continue;
+    }
+
+    const result = await transmit(transport, { to: row.recipient, body: row.body });
+    await query(
+      `UPDATE sms_deliveries
+       SET status = $2, provider = $3, provider_message_id = $4, error_message = $5,
+           sent_at = CASE WHEN $2 = 'sent' THEN now() END
+       WHERE id = $1`,
+      [row.id, result.status, transport.provider, result.providerMessageId, result.error ?? null]
+    );
+    summary[result.status === 'sent' ? 'sent' : 'failed']++;
+  }
+  return summary;
+}
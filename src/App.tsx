@@ -41,6 +41,7 @@ const LoanApplications = lazy(() => import("./pages/LoanApplications"));
 const Support = lazy(() => import("./pages/Support"));
 const LoanCalculator = lazy(() => import("./pages/LoanCalculator"));
 const MyDocuments = lazy(() => import("./pages/MyDocuments"));
+const SignDocument = lazy(() => import("./pages/SignDocument"));
 const CreditReports = lazy(() => import("./pages/CreditReports"));
 const CreditScoreSimulator = lazy(() => import("./pages/CreditScoreSimulator"));
 const BankAccounts = lazy(() => import("./pages/BankAccounts"));
@@ -63,6 +64,7 @@ const DatabaseManagement = lazy(() => import("./pages/admin/DatabaseManagement")
 const ApiIntegrations = lazy(() => import("./pages/admin/ApiIntegrations"));
 const ExistingLoansManagement = lazy(() => import("./pages/admin/ExistingLoansManagement"));
 const ApplicationAssignments = lazy(() => import("./pages/admin/ApplicationAssignments"));
+const AdverseActionNotices = lazy(() => import("./pages/admin/AdverseActionNotices"));
 
 // Loading fallback component
 const LoadingFallback = () => (
@@ -186,7 +188,7 @@ const App = () => (
               } />
               <Route path="/admin/support" element={
                 <Layout>
-                  <ProtectedRoute requiredRole="admin">
+                  <ProtectedRoute requiredRole="customer_service">
                     <SupportTickets />
                   </ProtectedRoute>
                 </Layout>
@@ -219,6 +221,13 @@ const App = () => (
                   </ProtectedRoute>
                 </Layout>
               } />
+              <Route path="/admin/adverse-action" element={
+                <Layout>
+                  <ProtectedRoute requiredRole="admin">
+                    <AdverseActionNotices />
+                  </ProtectedRoute>
+                </Layout>
+              } />
               <Route path="/admin/users" element={
                 <Layout>
                   <ProtectedRoute requiredRole="admin">
@@ -282,6 +291,13 @@ const App = () => (
                   </ProtectedRoute>
                 </Layout>
               } />
+              <Route path="/sign/:requestId" element={
+                <Layout>
+                  <ProtectedRoute>
+                    <SignDocument />
+                  </ProtectedRoute>
+                </Layout>
+              } />
               <Route path="/document-storage" element={
                 <Layout>
                   <ProtectedRoute>
@@ -8,6 +8,7 @@ import { Calendar, DollarSign, FileText, ChevronDown, ChevronUp, Trash2, Pause,
 import { api } from '@/services/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
 import { format } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
 import { LoanProgressBar } from '@/components/LoanProgressBar';
@@ -38,6 +39,7 @@ const ApplicationsList = ({
   const [applications, setApplications] = useState<LoanApplication[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [collapsedCards, setCollapsedCards] = useState<Set<string>>(new Set());
+  const { getLabel, getProduct } = useLoanProducts();
   const {
     user
   } = useAuth();
@@ -142,17 +144,6 @@ const ApplicationsList = ({
       fetchApplications();
     }
   }, [user, externalApplications]);
-  const getLoanTypeDisplay = (loanType: string) => {
-    const types = {
-      refinance: 'Refinance of Property',
-      bridge_loan: 'Bridge Loan',
-      purchase: 'Purchase of Property',
-      franchise: 'Franchise Loan',
-      factoring: 'Factoring Loan',
-      working_capital: 'Working Capital Loan'
-    };
-    return types[loanType as keyof typeof types] || loanType;
-  };
   const getStatusColor = (status: string) => {
     const colors = {
       draft: 'border-slate-300 text-slate-700 bg-slate-50',
@@ -167,15 +158,7 @@ const ApplicationsList = ({
   };
 
   // Map DB loan_type to Index page loan program id
-  const getProgramIdForLoanType = (loanType: string): number | null => {
-    const map: Record<string, number> = {
-      refinance: 11,
-      bridge_loan: 4,
-      working_capital: 7,
-      factoring: 10
-    };
-    return map[loanType] ?? null;
-  };
+  const getProgramIdForLoanType = (loanType: string): number | null => getProduct(loanType)?.form_id ?? null;
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -322,7 +305,7 @@ const ApplicationsList = ({
                       <div className="flex justify-between items-center py-1.5 border-b border-border/50">
                         <span className="text-xs text-muted-foreground">Program</span>
                         <span className="text-xs font-medium text-foreground truncate max-w-[180px]">
-                          {getLoanTypeDisplay(application.loan_type)}
+                          {getLabel(application.loan_type)}
                         </span>
                       </div>
                       <div className="flex justify-between items-center py-1.5 border-b border-border/50">
@@ -376,7 +359,7 @@ const ApplicationsList = ({
                         <div className="min-w-0">
                           <p className="text-xs text-muted-foreground">Program</p>
                           <p className="text-sm font-medium truncate">
-                            {getLoanTypeDisplay(application.loan_type)}
+                            {getLabel(application.loan_type)}
                           </p>
                         </div>
                       </div>
@@ -8,6 +8,7 @@ interface CreditScore {
   id: string;
   score: number;
   bureau: string;
+  score_type: 'consumer' | 'business';
   score_date: string;
 }
 
@@ -38,8 +39,8 @@ export const CreditScoreWidget = () => {
     }
   };
 
-  const personalScores = scores.filter(s => ['transunion', 'equifax'].includes(s.bureau.toLowerCase()));
-  const businessScores = scores.filter(s => !['transunion', 'equifax'].includes(s.bureau.toLowerCase()));
+  const personalScores = scores.filter(s => s.score_type === 'consumer');
+  const businessScores = scores.filter(s => s.score_type === 'business');
   
   const displayedScores = activeTab === 'personal' ? personalScores : businessScores;
 
@@ -7,24 +7,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch';
 import { ModernTabs as Tabs, ModernTabsContent as TabsContent, ModernTabsList as TabsList, ModernTabsTrigger as TabsTrigger } from '@/components/ui/modern-tabs';
 import { Calculator, DollarSign, Percent, Calendar } from 'lucide-react';
+import { calculateAmortization, type AmortizationEntry, type CalculationResult } from '@/utils/loanCalculations';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
-interface CalculationResult {
-  monthlyPayment: number;
-  totalPayment: number;
-  totalInterest: number;
-  principalPaid: number;
-  interestOnlyPayment?: number;
-}
-
-interface AmortizationEntry {
-  month: number;
-  payment: number;
-  principal: number;
-  interest: number;
-  balance: number;
-}
-
 interface LoanCalculatorDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -56,91 +41,16 @@ export function LoanCalculatorDialog({ open, onOpenChange }: LoanCalculatorDialo
   ];
 
   const calculateLoan = () => {
-    const principal = parseFloat(loanAmount);
-    const annualRate = parseFloat(interestRate) / 100;
-    const monthlyRate = annualRate / 12;
-    const totalMonths = parseInt(loanTerm) * 12;
-    const interestOnlyMonths = interestOnly ? parseInt(interestOnlyPeriod) * 12 : 0;
-
-    if (isNaN(principal) || isNaN(annualRate) || isNaN(totalMonths)) {
-      return;
-    }
-
-    let monthlyPayment: number;
-    let interestOnlyPayment: number | undefined;
-    let totalPayment: number;
-    let totalInterest: number;
-    const schedule: AmortizationEntry[] = [];
-    let balance = principal;
-
-    if (interestOnly && interestOnlyMonths > 0) {
-      interestOnlyPayment = principal * monthlyRate;
-      
-      for (let i = 1; i <= interestOnlyMonths; i++) {
-        const interestPayment = balance * monthlyRate;
-        schedule.push({
-          month: i,
-          payment: interestPayment,
-          principal: 0,
-          interest: interestPayment,
-          balance: balance
-        });
-      }
-
-      const remainingMonths = totalMonths - interestOnlyMonths;
-      const principalAndInterestPayment = 
-        (balance * monthlyRate * Math.pow(1 + monthlyRate, remainingMonths)) /
-        (Math.pow(1 + monthlyRate, remainingMonths) - 1);
-
-      for (let i = interestOnlyMonths + 1; i <= totalMonths; i++) {
-        const interestPayment = balance * monthlyRate;
-        const principalPayment = principalAndInterestPayment - interestPayment;
-        balance -= principalPayment;
-        
-        schedule.push({
-          month: i,
-          payment: principalAndInterestPayment,
-          principal: principalPayment,
-          interest: interestPayment,
-          balance: Math.max(0, balance)
-        });
-      }
-
-      monthlyPayment = principalAndInterestPayment;
-      totalPayment = (interestOnlyPayment * interestOnlyMonths) + 
-                     (principalAndInterestPayment * (totalMonths - interestOnlyMonths));
-      totalInterest = totalPayment - principal;
-    } else {
-      monthlyPayment = 
-        (principal * monthlyRate * Math.pow(1 + monthlyRate, totalMonths)) /
-        (Math.pow(1 + monthlyRate, totalMonths) - 1);
-
-      for (let i = 1; i <= totalMonths; i++) {
-        const interestPayment = balance * monthlyRate;
-        const principalPayment = monthlyPayment - interestPayment;
-        balance -= principalPayment;
-        
-        schedule.push({
-          month: i,
-          payment: monthlyPayment,
-          principal: principalPayment,
-          interest: interestPayment,
-          balance: Math.max(0, balance)
-        });
-      }
-
-      totalPayment = monthlyPayment * totalMonths;
-      totalInterest = totalPayment - principal;
-    }
-
-    setResult({
-      monthlyPayment,
-      totalPayment,
-      totalInterest,
-      principalPaid: principal,
-      interestOnlyPayment
+    const calculation = calculateAmortization({
+      principal: parseFloat(loanAmount),
+      annualRate: parseFloat(interestRate),
+      termMonths: parseInt(loanTerm) * 12,
+      interestOnlyMonths: interestOnly ? parseInt(interestOnlyPeriod) * 12 : 0,
     });
-    setAmortization(schedule);
+    if (!calculation) return;
+
+    setResult(calculation.result);
+    setAmortization(calculation.schedule);
   };
 
   const formatCurrency = (value: number) => {
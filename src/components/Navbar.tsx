@@ -19,7 +19,8 @@ const Navbar = () => {
     signOut
   } = useAuth();
   const {
-    isAdmin
+    isAdmin,
+    hasRole
   } = useUserRole();
   const [notificationCount, setNotificationCount] = useState(0);
   const [recentNotifications, setRecentNotifications] = useState<Notification[]>([]);
@@ -188,8 +189,13 @@ const Navbar = () => {
               <DropdownMenuItem onClick={() => navigate('/two-factor-auth')} className="cursor-pointer py-2.5">
                 Security Settings
               </DropdownMenuItem>
-              {isAdmin() && <>
+              {hasRole('customer_service') && <>
                   <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => navigate('/admin/support')} className="cursor-pointer py-2.5">
+                    Support Queue
+                  </DropdownMenuItem>
+                </>}
+              {isAdmin() && <>
                   <DropdownMenuItem onClick={() => navigate('/admin')} className="cursor-pointer py-2.5">
                     Admin Dashboard
                   </DropdownMenuItem>
@@ -252,6 +258,9 @@ const Navbar = () => {
               <DropdownMenuItem onClick={() => navigate('/support')} className="cursor-pointer py-3">
                 Support Center
               </DropdownMenuItem>
+              {hasRole('customer_service') && <DropdownMenuItem onClick={() => navigate('/admin/support')} className="cursor-pointer py-3">
+                  Support Queue
+                </DropdownMenuItem>}
               {isAdmin() && <DropdownMenuItem onClick={() => navigate('/admin')} className="cursor-pointer py-3">
                   Admin Dashboard
                 </DropdownMenuItem>}
@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import {
+  bankStatementService,
+  type BankStatements,
+  type IntegrityStatus,
+  type StatementImport,
+} from '@/services/bankStatementService';
+import { AlertTriangle, FileText } from 'lucide-react';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const INTEGRITY_BADGES: Record<IntegrityStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  verified: { label: 'Balances reconcile', variant: 'secondary' },
+  unverified: { label: 'No balances to check', variant: 'outline' },
+  warning: { label: 'Review', variant: 'outline' },
+  suspect: { label: 'Possible tampering', variant: 'destructive' },
+};
+
+interface BankStatementsPanelProps {
+  applicationId: string;
+  userId: string;
+}
+
+/** Underwriter view of the borrower's uploaded bank statements, what was read from them and any tamper flags. */
+export const BankStatementsPanel = ({ applicationId, userId }: BankStatementsPanelProps) => {
+  const { toast } = useToast();
+  const [statements, setStatements] = useState<BankStatements | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [parsing, setParsing] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    bankStatementService
+      .list(userId)
+      .then((result) => {
+        if (!cancelled) setStatements(result);
+      })
+      .catch((err) => {
+        console.error('Error loading bank statements:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load bank statements", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, toast]);
+
+  const handleParse = async (documentId: string) => {
+    setParsing(documentId);
+    try {
+      const parsed = await bankStatementService.parse(documentId, applicationId);
+      setStatements((prev) =>
+        prev && { ...prev, imports: [parsed, ...prev.imports.filter((i) => i.document_id !== documentId)] },
+      );
+      if (parsed.status === 'failed') {
+        toast({ title: "Statement could not be read", description: parsed.error ?? undefined, variant: "destructive" });
+      } else {
+        toast({ title: "Statement parsed", description: `${parsed.transaction_count} transactions imported` });
+      }
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to parse statement",
+        variant: "destructive",
+      });
+    } finally {
+      setParsing(null);
+    }
+  };
+
+  const importFor = (documentId: string): StatementImport | undefined =>
+    statements?.imports.find((i) => i.document_id === documentId);
+
+  const suspectCount = statements?.imports.filter((i) => i.integrity === 'suspect').length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="w-5 h-5" />
+          Bank Statements
+        </CardTitle>
+        <CardDescription>
+          Statements the borrower uploaded instead of linking accounts. Parsed transactions feed the cash flow analysis.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {suspectCount > 0 && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertTriangle className="w-4 h-4" />
+            {suspectCount} statement{suspectCount === 1 ? ' has' : 's have'} balances that do not add up
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading bank statements...</p>
+        ) : !statements || statements.documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The borrower has not uploaded any bank statements.</p>
+        ) : (
+          statements.documents.map((document) => {
+            const parsed = importFor(document.id);
+            const badge = parsed?.integrity ? INTEGRITY_BADGES[parsed.integrity] : null;
+            return (
+              <div key={document.id} className="p-3 rounded-lg border space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-sm">{document.file_name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Uploaded {new Date(document.uploaded_at).toLocaleDateString()}
+                      {document.version_number > 1 && ` · v${document.version_number}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {parsed?.status === 'failed' && <Badge variant="destructive">Unreadable</Badge>}
+                    {badge && <Badge variant={badge.variant}>{badge.label}</Badge>}
+                    <Button size="sm" variant="outline" onClick={() => handleParse(document.id)} disabled={parsing !== null}>
+                      {parsing === document.id ? 'Parsing...' : parsed ? 'Re-parse' : 'Parse'}
+                    </Button>
+                  </div>
+                </div>
+
+                {parsed?.status === 'failed' && <p className="text-xs text-red-600">{parsed.error}</p>}
+
+                {parsed?.status === 'parsed' && (
+                  <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+                      <div>
+                        <p className="text-muted-foreground">Account</p>
+                        <p>
+                          {parsed.institution_name ?? 'Unknown bank'}
+                          {parsed.account_mask && ` ••••${parsed.account_mask}`}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Period</p>
+                        <p>
+                          {parsed.period_start && parsed.period_end
+                            ? `${formatDate(parsed.period_start)} – ${formatDate(parsed.period_end)}`
+                            : '—'}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Opening / closing</p>
+                        <p>
+                          {parsed.opening_balance === null ? '—' : formatCurrency(parsed.opening_balance)}
+                          {' / '}
+                          {parsed.closing_balance === null ? '—' : formatCurrency(parsed.closing_balance)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">{parsed.transaction_count} transactions</p>
+                        <p>
+                          <span className="text-green-600">+{formatCurrency(parsed.total_credits)}</span>
+                          {' · '}
+                          <span className="text-red-600">-{formatCurrency(parsed.total_debits)}</span>
+                        </p>
+                      </div>
+                    </div>
+                    {parsed.integrity_flags.length > 0 && (
+                      <ul className="space-y-1">
+                        {parsed.integrity_flags.map((flag, index) => (
+                          <li
+                            key={`${flag.code}-${index}`}
+                            className={`text-xs ${
+                              flag.severity === 'high'
+                                ? 'text-red-600'
+                                : flag.severity === 'medium'
+                                  ? 'text-yellow-600'
+                                  : 'text-muted-foreground'
+                            }`}
+                          >
+                            {flag.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { bankAggregationService, type Institution } from '@/services/bankAggregationService';
+import { Landmark } from 'lucide-react';
+
+const PLAID_LINK_SRC = 'https://cdn.plaid.com/link/v2/stable/link-initialize.js';
+
+interface PlaidLinkMetadata {
+  institution: { institution_id: string; name: string } | null;
+}
+
+interface PlaidLinkHandler {
+  open: () => void;
+}
+
+interface PlaidFactory {
+  create: (config: {
+    token: string;
+    onSuccess: (publicToken: string, metadata: PlaidLinkMetadata) => void;
+    onExit: (error: { display_message?: string | null } | null) => void;
+  }) => PlaidLinkHandler;
+}
+
+let plaidLink: Promise<PlaidFactory> | null = null;
+
+// Plaid Link is loaded on first use rather than with every page
+const loadPlaidLink = () => {
+  plaidLink ??= new Promise<PlaidFactory>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = PLAID_LINK_SRC;
+    script.onload = () => resolve((window as unknown as { Plaid: PlaidFactory }).Plaid);
+    script.onerror = () => {
+      plaidLink = null;
+      reject(new Error('Could not load Plaid Link'));
+    };
+    document.head.appendChild(script);
+  });
+  return plaidLink;
+};
+
+interface ConnectBankDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called once the bank is linked and its accounts imported */
+  onConnected: () => void;
+  defaultBusiness?: boolean;
+}
+
+/**
+ * Links a bank through Plaid Link, or the sandbox's institution picker when Plaid is not configured.
+ * Give it a fresh key each time it opens so the consent starts unticked.
+ */
+export const ConnectBankDialog = ({ open, onOpenChange, onConnected, defaultBusiness = false }: ConnectBankDialogProps) => {
+  const { toast } = useToast();
+  const [consented, setConsented] = useState(false);
+  const [isBusiness, setIsBusiness] = useState(defaultBusiness);
+  const [sandboxInstitutions, setSandboxInstitutions] = useState<Institution[] | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const finish = async (publicToken: string, institution: { id: string | null; name: string }) => {
+    setWorking(true);
+    try {
+      await bankAggregationService.exchange({ publicToken, institution, isBusiness });
+      toast({ title: "Bank connected", description: `${institution.name} accounts and transactions imported` });
+      onOpenChange(false);
+      onConnected();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to connect your bank",
+        variant: "destructive",
+      });
+      // A linked bank whose first import failed still shows up, marked for attention
+      onConnected();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleContinue = async () => {
+    setWorking(true);
+    try {
+      const link = await bankAggregationService.createLinkToken();
+      if (link.provider === 'sandbox') {
+        setSandboxInstitutions(link.institutions ?? []);
+        return;
+      }
+
+      const Plaid = await loadPlaidLink();
+      // Link renders its own modal, which our dialog's focus trap would block
+      onOpenChange(false);
+      Plaid.create({
+        token: link.linkToken,
+        onSuccess: (publicToken, metadata) => {
+          finish(publicToken, {
+            id: metadata.institution?.institution_id ?? null,
+            name: metadata.institution?.name ?? 'Linked bank',
+          });
+        },
+        onExit: (error) => {
+          if (error) {
+            toast({ title: "Bank not connected", description: error.display_message || "Plaid Link was closed", variant: "destructive" });
+          }
+        },
+      }).open();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to start bank linking",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Connect a bank account</DialogTitle>
+          <DialogDescription>
+            Sign in to your bank through our secure partner. We import balances and the last 12 months of
+            transactions and refresh them daily. We never see or store your bank password.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sandboxInstitutions ? (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">Sandbox mode: choose a test bank to link.</p>
+            {sandboxInstitutions.map((institution) => (
+              <Button
+                key={institution.id}
+                variant="outline"
+                className="w-full justify-start gap-2"
+                disabled={working}
+                onClick={() => finish(`public-sandbox-${institution.id}`, institution)}
+              >
+                <Landmark className="h-4 w-4" />
+                {institution.name}
+              </Button>
+            ))}
+            {working && <p className="text-sm text-muted-foreground">Importing accounts and transactions...</p>}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Checkbox id="bank-is-business" checked={isBusiness} onCheckedChange={(checked) => setIsBusiness(checked === true)} />
+              <Label htmlFor="bank-is-business" className="text-sm font-normal">These are business accounts</Label>
+            </div>
+            <div className="flex items-start gap-2">
+              <Checkbox id="bank-consent" checked={consented} onCheckedChange={(checked) => setConsented(checked === true)} />
+              <Label htmlFor="bank-consent" className="text-sm font-normal leading-snug">
+                I authorize Halo Business Finance to retrieve my account balances and transaction history from my bank
+                to verify my cash flow for underwriting, until I disconnect the bank.
+              </Label>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={working}>Cancel</Button>
+          {!sandboxInstitutions && (
+            <Button onClick={handleContinue} disabled={!consented || working}>
+              {working ? 'Connecting...' : 'Continue'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
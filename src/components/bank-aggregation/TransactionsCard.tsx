@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { bankAggregationService, type BankTransaction } from '@/services/bankAggregationService';
+import { ArrowDownLeft, ArrowUpRight, Receipt } from 'lucide-react';
+
+interface MonthSummary {
+  month: string;
+  inflow: number;
+  outflow: number;
+}
+
+const RECENT_COUNT = 25;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatCategory = (category: string | null) =>
+  category ? category.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase()) : 'Uncategorized';
+
+// Settled money in and out per calendar month, newest first
+const summarizeByMonth = (transactions: BankTransaction[]): MonthSummary[] => {
+  const months = new Map<string, MonthSummary>();
+  for (const t of transactions) {
+    if (t.pending) continue;
+    const month = t.posted_on.slice(0, 7);
+    const summary = months.get(month) ?? { month, inflow: 0, outflow: 0 };
+    if (t.amount >= 0) summary.inflow += t.amount;
+    else summary.outflow -= t.amount;
+    months.set(month, summary);
+  }
+  return [...months.values()].sort((a, b) => b.month.localeCompare(a.month));
+};
+
+const monthLabel = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+interface TransactionsCardProps {
+  /** Linked accounts to show; self-reported accounts have no transactions */
+  accountIds: string[];
+  /** Whose transactions, for staff views; defaults to the caller */
+  userId?: string;
+  /** Bump to reload after a sync */
+  refreshKey?: number;
+}
+
+/** Monthly cash flow and recent activity imported from linked bank accounts. */
+export const TransactionsCard = ({ accountIds, userId, refreshKey = 0 }: TransactionsCardProps) => {
+  const { toast } = useToast();
+  const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const accountKey = accountIds.join(',');
+
+  useEffect(() => {
+    if (!accountKey) return;
+    let cancelled = false;
+    bankAggregationService
+      .transactions({ userId, accountIds: accountKey.split(','), limit: 5000 })
+      .then((result) => {
+        if (!cancelled) setTransactions(result);
+      })
+      .catch((err) => {
+        console.error('Error loading bank transactions:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load transactions", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [accountKey, userId, refreshKey, toast]);
+
+  if (!accountKey) return null;
+
+  const months = summarizeByMonth(transactions);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="w-5 h-5" />
+          Transactions
+        </CardTitle>
+        <CardDescription>Imported from your linked banks and refreshed daily</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading transactions...</p>
+        ) : transactions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No transactions imported yet.</p>
+        ) : (
+          <>
+            <div>
+              <p className="text-sm font-medium mb-2">Monthly cash flow</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Money in</TableHead>
+                    <TableHead className="text-right">Money out</TableHead>
+                    <TableHead className="text-right">Net</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {months.map((m) => (
+                    <TableRow key={m.month}>
+                      <TableCell>{monthLabel(m.month)}</TableCell>
+                      <TableCell className="text-right text-green-600">{formatCurrency(m.inflow)}</TableCell>
+                      <TableCell className="text-right text-red-600">{formatCurrency(m.outflow)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(m.inflow - m.outflow)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">Recent activity</p>
+              <div className="space-y-1">
+                {transactions.slice(0, RECENT_COUNT).map((t) => (
+                  <div key={t.id} className="flex items-center justify-between gap-2 text-sm p-2 rounded border">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {t.amount >= 0
+                        ? <ArrowDownLeft className="h-4 w-4 text-green-600 shrink-0" />
+                        : <ArrowUpRight className="h-4 w-4 text-red-600 shrink-0" />}
+                      <div className="min-w-0">
+                        <p className="truncate">{t.merchant_name || t.description}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(`${t.posted_on}T00:00:00`).toLocaleDateString()} · {formatCategory(t.category)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {t.pending && <Badge variant="outline">Pending</Badge>}
+                      <span className={t.amount >= 0 ? 'text-green-600 font-medium' : 'font-medium'}>
+                        {formatCurrency(t.amount)}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,3 @@
+export { BankStatementsPanel } from './BankStatementsPanel';
+export { ConnectBankDialog } from './ConnectBankDialog';
+export { TransactionsCard } from './TransactionsCard';
@@ -0,0 +1,332 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { BORROWER_DOCUMENT_CATEGORIES, getDocumentCategoryName } from '@/config/documentCategories';
+import { assignmentService, type Underwriter } from '@/services/assignmentService';
+import {
+  conditionService,
+  CONDITION_STATUS_LABELS,
+  isConditionOutstanding,
+  type ApplicationCondition,
+  type ApplicationConditionInput,
+  type ConditionStatus,
+} from '@/services/conditionService';
+import { CheckCircle, ClipboardCheck, Plus, RotateCcw, ShieldOff } from 'lucide-react';
+
+// Select values cannot be empty strings
+const NONE = 'none';
+
+const EMPTY_FORM: ApplicationConditionInput = {
+  title: '',
+  description: null,
+  document_category: null,
+  assigned_to: null,
+  due_date: null,
+};
+
+const STATUS_VARIANTS: Record<ConditionStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  open: 'destructive',
+  submitted: 'default',
+  cleared: 'secondary',
+  waived: 'outline',
+};
+
+const fetchState = (applicationId: string) =>
+  Promise.all([conditionService.listForApplication(applicationId), assignmentService.getUnderwriters()]);
+
+const underwriterName = (underwriters: Underwriter[], id: string | null) => {
+  const match = underwriters.find((u) => u.id === id);
+  if (!match) return 'Unassigned';
+  return `${match.first_name ?? ''} ${match.last_name ?? ''}`.trim() || match.role;
+};
+
+interface ApplicationConditionsPanelProps {
+  applicationId: string;
+  /** Called after a change that may affect the funding guard */
+  onConditionsChanged: () => void;
+}
+
+export const ApplicationConditionsPanel = ({ applicationId, onConditionsChanged }: ApplicationConditionsPanelProps) => {
+  const { toast } = useToast();
+  const [conditions, setConditions] = useState<ApplicationCondition[]>([]);
+  const [underwriters, setUnderwriters] = useState<Underwriter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [form, setForm] = useState<ApplicationConditionInput | null>(null);
+  const [waiving, setWaiving] = useState<ApplicationCondition | null>(null);
+  const [waiverReason, setWaiverReason] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchState(applicationId)
+      .then(([rows, staff]) => {
+        if (cancelled) return;
+        setConditions(rows);
+        setUnderwriters(staff);
+      })
+      .catch((err) => {
+        console.error('Error loading application conditions:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load conditions", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId, toast]);
+
+  const run = async (action: () => Promise<ApplicationCondition>, success: string) => {
+    setWorking(true);
+    try {
+      const updated = await action();
+      setConditions((prev) =>
+        prev.some((c) => c.id === updated.id) ? prev.map((c) => (c.id === updated.id ? updated : c)) : [...prev, updated],
+      );
+      toast({ title: "Success", description: success });
+      onConditionsChanged();
+      return true;
+    } catch (err) {
+      console.error('Error updating application condition:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to update the condition",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!form || !form.title.trim()) return;
+    const input = { ...form, title: form.title.trim(), description: form.description?.trim() || null };
+    if (await run(() => conditionService.create(applicationId, input), 'Condition added')) setForm(null);
+  };
+
+  const handleWaive = async () => {
+    if (!waiving || !waiverReason.trim()) return;
+    const target = waiving;
+    if (await run(() => conditionService.waive(target.id, waiverReason.trim()), 'Condition waived')) {
+      setWaiving(null);
+      setWaiverReason('');
+    }
+  };
+
+  const outstanding = conditions.filter(isConditionOutstanding).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="w-5 h-5" />
+              Conditions
+            </CardTitle>
+            <CardDescription>
+              {outstanding > 0
+                ? `${outstanding} outstanding; the application cannot fund until every condition is cleared or waived`
+                : 'Approval and closing conditions the borrower must satisfy before funding'}
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setForm(EMPTY_FORM)} disabled={working}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Condition
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading conditions...</p>
+        ) : conditions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No conditions have been added to this application.</p>
+        ) : (
+          conditions.map((condition) => (
+            <div key={condition.id} className="flex flex-col md:flex-row md:items-start justify-between gap-3 p-3 rounded-lg border">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium">{condition.title}</span>
+                  <Badge variant={STATUS_VARIANTS[condition.status]}>{CONDITION_STATUS_LABELS[condition.status]}</Badge>
+                </div>
+                {condition.description && <p className="text-sm text-muted-foreground">{condition.description}</p>}
+                <p className="text-xs text-muted-foreground">
+                  {condition.document_category ? getDocumentCategoryName(condition.document_category) : 'No document folder'}
+                  {condition.due_date && ` · due ${new Date(condition.due_date).toLocaleDateString()}`}
+                  {condition.submitted_at && ` · submitted ${new Date(condition.submitted_at).toLocaleDateString()}`}
+                  {condition.resolved_at && ` · ${condition.status} ${new Date(condition.resolved_at).toLocaleDateString()}`}
+                </p>
+                {condition.waiver_reason && (
+                  <p className="text-xs text-muted-foreground">Waived: {condition.waiver_reason}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-wrap">
+                <Select
+                  value={condition.assigned_to ?? NONE}
+                  onValueChange={(value) =>
+                    run(
+                      () => conditionService.update(condition.id, { assigned_to: value === NONE ? null : value }),
+                      'Condition reassigned',
+                    )
+                  }
+                  disabled={working || !isConditionOutstanding(condition)}
+                >
+                  <SelectTrigger className="w-44 h-9">
+                    <SelectValue>{underwriterName(underwriters, condition.assigned_to)}</SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Unassigned</SelectItem>
+                    {underwriters.map((u) => (
+                      <SelectItem key={u.id} value={u.id}>{underwriterName(underwriters, u.id)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {isConditionOutstanding(condition) ? (
+                  <>
+                    <Button
+                      size="sm"
+                      onClick={() => run(() => conditionService.clear(condition.id), 'Condition cleared')}
+                      disabled={working}
+                    >
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      Clear
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setWaiving(condition)} disabled={working}>
+                      <ShieldOff className="w-4 h-4 mr-1" />
+                      Waive
+                    </Button>
+                  </>
+                ) : null}
+                {condition.status !== 'open' && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => run(() => conditionService.reopen(condition.id), 'Condition reopened')}
+                    disabled={working}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Reopen
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Condition</DialogTitle>
+            <DialogDescription>The borrower is notified and can satisfy it from My Documents.</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="condition-title">Title</Label>
+                <Input
+                  id="condition-title"
+                  maxLength={200}
+                  placeholder="Updated bank statement for last month"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="condition-description">Details</Label>
+                <Textarea
+                  id="condition-description"
+                  value={form.description ?? ''}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Document folder</Label>
+                  <Select
+                    value={form.document_category ?? NONE}
+                    onValueChange={(value) => setForm({ ...form, document_category: value === NONE ? null : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>No document needed</SelectItem>
+                      {BORROWER_DOCUMENT_CATEGORIES.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="condition-due">Due date</Label>
+                  <Input
+                    id="condition-due"
+                    type="date"
+                    value={form.due_date ?? ''}
+                    onChange={(e) => setForm({ ...form, due_date: e.target.value || null })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Reviewer</Label>
+                <Select
+                  value={form.assigned_to ?? NONE}
+                  onValueChange={(value) => setForm({ ...form, assigned_to: value === NONE ? null : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Unassigned</SelectItem>
+                    {underwriters.map((u) => (
+                      <SelectItem key={u.id} value={u.id}>{underwriterName(underwriters, u.id)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={working || !form?.title.trim()}>
+              {working ? 'Saving...' : 'Add Condition'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={waiving !== null} onOpenChange={(open) => !open && setWaiving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Waive Condition</DialogTitle>
+            <DialogDescription>{waiving?.title}</DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="waiver-reason">Reason</Label>
+            <Textarea
+              id="waiver-reason"
+              placeholder="Why this condition is no longer required..."
+              value={waiverReason}
+              onChange={(e) => setWaiverReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWaiving(null)}>Cancel</Button>
+            <Button onClick={handleWaive} disabled={working || !waiverReason.trim()}>
+              {working ? 'Saving...' : 'Waive'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { getDocumentCategoryName } from '@/config/documentCategories';
+import {
+  conditionService,
+  CONDITION_STATUS_LABELS,
+  isConditionOutstanding,
+  type ApplicationCondition,
+} from '@/services/conditionService';
+import { ClipboardCheck, Upload } from 'lucide-react';
+
+interface ConditionDocument {
+  id: string;
+  file_name: string;
+  document_category: string;
+}
+
+interface BorrowerConditionsCardProps {
+  /** The borrower's documents; without them the card links to My Documents instead */
+  documents?: ConditionDocument[];
+  /** Opens the upload dialog for the condition's folder */
+  onUpload?: (category: string | null) => void;
+  /** Change to reload, e.g. after an upload satisfied a condition */
+  refreshKey?: number;
+}
+
+export const BorrowerConditionsCard = ({ documents, onUpload, refreshKey = 0 }: BorrowerConditionsCardProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [conditions, setConditions] = useState<ApplicationCondition[]>([]);
+  const [selectedDocs, setSelectedDocs] = useState<Record<string, string>>({});
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    conditionService
+      .listMine()
+      .then((rows) => {
+        if (!cancelled) setConditions(rows.filter(isConditionOutstanding));
+      })
+      .catch((err) => console.error('Error loading application conditions:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  if (conditions.length === 0) return null;
+
+  const handleSubmit = async (condition: ApplicationCondition) => {
+    const documentId = selectedDocs[condition.id];
+    if (!documentId) return;
+    setSubmittingId(condition.id);
+    try {
+      const updated = await conditionService.submit(condition.id, documentId);
+      setConditions((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+      toast({ title: "Submitted", description: "Your document was sent for review" });
+    } catch (err) {
+      console.error('Error submitting condition:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to submit the document",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  const openCount = conditions.filter((c) => c.status === 'open').length;
+
+  return (
+    <Card className="overflow-hidden">
+      <CardHeader className="px-4 py-4 sm:px-6 sm:py-5">
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <ClipboardCheck className="w-4 h-4 sm:w-5 sm:h-5" />
+          <span>Conditions to Close</span>
+        </CardTitle>
+        <CardDescription className="text-sm">
+          {openCount > 0
+            ? `${openCount} item${openCount === 1 ? '' : 's'} needed from you before your loan can fund`
+            : 'Everything has been submitted and is being reviewed'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-4 pb-4 sm:px-6 sm:pb-6 space-y-3">
+        {conditions.map((condition) => {
+          const candidates = (documents ?? []).filter(
+            (doc) => !condition.document_category || doc.document_category === condition.document_category,
+          );
+          return (
+            <div key={condition.id} className="p-3 rounded-lg border space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium text-sm">{condition.title}</p>
+                  {condition.description && (
+                    <p className="text-xs text-muted-foreground">{condition.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {condition.document_category && `Folder: ${getDocumentCategoryName(condition.document_category)}`}
+                    {condition.document_category && condition.due_date && ' · '}
+                    {condition.due_date && `Due ${new Date(condition.due_date).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <Badge variant={condition.status === 'open' ? 'destructive' : 'secondary'}>
+                  {CONDITION_STATUS_LABELS[condition.status]}
+                </Badge>
+              </div>
+
+              {condition.status === 'open' && documents && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  {candidates.length > 0 && (
+                    <>
+                      <Select
+                        value={selectedDocs[condition.id] ?? ''}
+                        onValueChange={(value) => setSelectedDocs((prev) => ({ ...prev, [condition.id]: value }))}
+                      >
+                        <SelectTrigger className="h-9 sm:flex-1">
+                          <SelectValue placeholder="Choose an uploaded document" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {candidates.map((doc) => (
+                            <SelectItem key={doc.id} value={doc.id}>{doc.file_name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        onClick={() => handleSubmit(condition)}
+                        disabled={!selectedDocs[condition.id] || submittingId === condition.id}
+                      >
+                        {submittingId === condition.id ? 'Submitting...' : 'Submit'}
+                      </Button>
+                    </>
+                  )}
+                  {onUpload && (
+                    <Button size="sm" variant="outline" onClick={() => onUpload(condition.document_category)}>
+                      <Upload className="w-4 h-4 mr-2" />
+                      Upload new
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {!documents && (
+          <Button variant="outline" className="w-full h-11 sm:h-10 text-sm" onClick={() => navigate('/my-documents')}>
+            <Upload className="w-4 h-4 mr-2" />
+            Go to My Documents
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
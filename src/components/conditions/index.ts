@@ -0,0 +1,2 @@
+export { ApplicationConditionsPanel } from './ApplicationConditionsPanel';
+export { BorrowerConditionsCard } from './BorrowerConditionsCard';
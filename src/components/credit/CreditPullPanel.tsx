@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  creditBureauService,
+  getScoreRating,
+  latestByBureau,
+  BUREAU_LABELS,
+  BUSINESS_BUREAUS,
+  CONSUMER_BUREAUS,
+  PERMISSIBLE_PURPOSE_LABELS,
+  type CreditHistory,
+  type CreditPullType,
+} from '@/services/creditBureauService';
+import { Gauge } from 'lucide-react';
+
+type StaffPurpose = 'credit_application' | 'account_review';
+
+interface CreditPullPanelProps {
+  applicationId: string;
+  userId: string;
+}
+
+/** Underwriter view of a borrower's bureau scores, with pulls under their signed credit authorization. */
+export const CreditPullPanel = ({ applicationId, userId }: CreditPullPanelProps) => {
+  const { toast } = useToast();
+  const [history, setHistory] = useState<CreditHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [purpose, setPurpose] = useState<StaffPurpose>('credit_application');
+  const [pulling, setPulling] = useState<CreditPullType | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    creditBureauService
+      .history(userId)
+      .then((result) => {
+        if (!cancelled) setHistory(result);
+      })
+      .catch((err) => {
+        console.error('Error loading credit history:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load credit history", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, refreshKey, toast]);
+
+  const handlePull = async (pullType: CreditPullType) => {
+    setPulling(pullType);
+    try {
+      await creditBureauService.pullForApplication({ userId, applicationId, pullType, permissiblePurpose: purpose });
+      toast({ title: "Credit pulled", description: `${pullType === 'consumer' ? 'Consumer tri-merge' : 'Business credit'} report received` });
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to pull credit",
+        variant: "destructive",
+      });
+    } finally {
+      setPulling(null);
+    }
+  };
+
+  const standings = history
+    ? [...latestByBureau(history.scores, CONSUMER_BUREAUS), ...latestByBureau(history.scores, BUSINESS_BUREAUS)]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="w-5 h-5" />
+          Credit Bureau Reports
+        </CardTitle>
+        <CardDescription>Pulls require the borrower's signed credit authorization</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={purpose} onValueChange={(value) => setPurpose(value as StaffPurpose)}>
+            <SelectTrigger className="sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="credit_application">Credit application (hard inquiry)</SelectItem>
+              <SelectItem value="account_review">Account review (soft inquiry)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => handlePull('consumer')} disabled={pulling !== null}>
+            {pulling === 'consumer' ? 'Pulling...' : 'Pull consumer tri-merge'}
+          </Button>
+          <Button variant="outline" onClick={() => handlePull('business')} disabled={pulling !== null}>
+            {pulling === 'business' ? 'Pulling...' : 'Pull business credit'}
+          </Button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading credit history...</p>
+        ) : standings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No bureau scores on file for this borrower.</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {standings.map(({ latest, change }) => (
+              <div key={latest.bureau} className="p-3 rounded-lg border">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">{BUREAU_LABELS[latest.bureau]}</p>
+                <p className={`text-2xl font-bold ${getScoreRating(latest).color}`}>
+                  {latest.score}
+                  <span className="text-xs font-normal text-muted-foreground"> / {latest.score_max}</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(latest.score_date).toLocaleDateString()}
+                  {change !== null && change !== 0 && ` · ${change > 0 ? '+' : ''}${change}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {history && history.pulls.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Pull history</p>
+            {history.pulls.slice(0, 10).map((pull) => (
+              <div key={pull.id} className="flex flex-wrap items-center justify-between gap-2 text-xs p-2 rounded border">
+                <span>
+                  {new Date(pull.created_at).toLocaleString()} · {pull.pull_type} · {PERMISSIBLE_PURPOSE_LABELS[pull.permissible_purpose]}
+                  {pull.consent_type === 'signed_authorization' ? ' · signed authorization' : ' · borrower request'}
+                </span>
+                <div className="flex gap-1">
+                  <Badge variant="outline">{pull.inquiry_type}</Badge>
+                  <Badge variant={pull.status === 'failed' ? 'destructive' : 'secondary'}>{pull.status}</Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1 @@
+export { CreditPullPanel } from './CreditPullPanel';
@@ -0,0 +1,298 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  crmIntegrationService,
+  RECONCILIATION_KIND_LABELS,
+  type CrmConnector,
+  type ReconciliationKind,
+  type ReconciliationRun,
+} from '@/services/crmIntegrationService';
+import type { CrmSyncLogEntry } from '@/services/crmSyncService';
+import { CheckCircle, GitCompare, RefreshCw, RotateCcw, XCircle } from 'lucide-react';
+
+interface CrmSyncState {
+  connectors: CrmConnector[];
+  run: ReconciliationRun | null;
+  failures: CrmSyncLogEntry[];
+}
+
+const fetchState = async (): Promise<CrmSyncState> => {
+  const [connectors, run, failures] = await Promise.all([
+    crmIntegrationService.getConnectors(),
+    crmIntegrationService.getLatestRun(),
+    crmIntegrationService.listOpenFailures(),
+  ]);
+  return { connectors, run, failures };
+};
+
+const KINDS: ReconciliationKind[] = ['missing', 'stale', 'orphaned'];
+
+const getKindVariant = (kind: ReconciliationKind): 'default' | 'secondary' | 'destructive' | 'outline' =>
+  kind === 'orphaned' ? 'destructive' : kind === 'missing' ? 'secondary' : 'outline';
+
+export const CrmSyncPanel = () => {
+  const { toast } = useToast();
+  const [state, setState] = useState<CrmSyncState>({ connectors: [], run: null, failures: [] });
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchState()
+      .then((next) => {
+        if (!cancelled) setState(next);
+      })
+      .catch((err) => {
+        console.error('Error loading CRM sync status:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load CRM sync status", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [toast]);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      setState(await fetchState());
+    } catch (err) {
+      console.error('Error loading CRM sync status:', err);
+      toast({ title: "Error", description: "Failed to load CRM sync status", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReconcile = async () => {
+    setWorking('reconcile');
+    try {
+      await crmIntegrationService.runReconciliation();
+      toast({ title: "Reconciliation complete", description: "The CRM report has been refreshed" });
+      await refresh();
+    } catch (err) {
+      console.error('Error running CRM reconciliation:', err);
+      toast({ title: "Error", description: "Failed to run the CRM reconciliation", variant: "destructive" });
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleReplay = async (entry?: CrmSyncLogEntry) => {
+    setWorking(entry?.id ?? 'replay-all');
+    try {
+      const summary = await crmIntegrationService.replay(entry?.id ? [entry.id] : undefined);
+      toast({
+        title: "Replay finished",
+        description: `${summary.succeeded} succeeded, ${summary.failed} failed again, ${summary.skipped} skipped`,
+      });
+      await refresh();
+    } catch (err) {
+      console.error('Error replaying CRM sync failures:', err);
+      toast({ title: "Error", description: "Failed to replay CRM sync failures", variant: "destructive" });
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleDismiss = async (entry: CrmSyncLogEntry) => {
+    if (!entry.id) return;
+    setWorking(entry.id);
+    try {
+      await crmIntegrationService.dismiss([entry.id]);
+      toast({ title: "Dismissed", description: "The failure will no longer be replayed" });
+      await refresh();
+    } catch (err) {
+      console.error('Error dismissing CRM sync failure:', err);
+      toast({ title: "Error", description: "Failed to dismiss the failure", variant: "destructive" });
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const { connectors, run, failures } = state;
+  const counts = run?.summary.issues ?? {};
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <GitCompare className="w-5 h-5" />
+                CRM Reconciliation
+              </CardTitle>
+              <CardDescription>
+                {run
+                  ? `Last run ${new Date(run.started_at).toLocaleString()}${run.triggered_by ? '' : ' (scheduled)'}`
+                  : 'Compare borrowers and loan applications with CRM contacts and opportunities'}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleReconcile} disabled={loading || working !== null}>
+                <GitCompare className="w-4 h-4 mr-2" />
+                Run reconciliation
+              </Button>
+              <Button variant="outline" size="icon" onClick={refresh} disabled={loading}>
+                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {connectors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No external CRM connectors are configured.</p>
+            ) : (
+              connectors.map((connector) => (
+                <Badge key={connector.id} variant={connector.active ? 'default' : 'outline'} className="gap-1">
+                  {connector.active ? <CheckCircle className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+                  {connector.name} ({connector.provider})
+                  {connector.active && !connector.credentials.apiToken && ' · token missing'}
+                </Badge>
+              ))
+            )}
+          </div>
+
+          {run ? (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {KINDS.map((kind) => (
+                  <div key={kind} className="rounded-lg border p-4">
+                    <p className="text-sm text-muted-foreground">{RECONCILIATION_KIND_LABELS[kind]}</p>
+                    <p className="text-2xl font-bold">
+                      {(counts[`${kind}_contact`] ?? 0) + (counts[`${kind}_opportunity`] ?? 0)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {counts[`${kind}_contact`] ?? 0} contacts · {counts[`${kind}_opportunity`] ?? 0} opportunities
+                    </p>
+                  </div>
+                ))}
+                <div className="rounded-lg border p-4">
+                  <p className="text-sm text-muted-foreground">Open sync failures</p>
+                  <p className="text-2xl font-bold">{failures.length}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {run.summary.borrowers ?? 0} borrowers · {run.summary.applications ?? 0} applications
+                  </p>
+                </div>
+              </div>
+
+              {run.issues.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Issue</TableHead>
+                      <TableHead>Record</TableHead>
+                      <TableHead>Detail</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {run.issues.map((issue, index) => (
+                      <TableRow key={`${issue.kind}-${issue.entity_type}-${issue.crm_id ?? issue.source_id}-${index}`}>
+                        <TableCell>
+                          <Badge variant={getKindVariant(issue.kind)}>
+                            {RECONCILIATION_KIND_LABELS[issue.kind]} {issue.entity_type}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs font-mono">{issue.crm_id ?? issue.source_id}</TableCell>
+                        <TableCell className="text-sm">{issue.detail}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          ) : (
+            !loading && <p className="text-sm text-muted-foreground">No reconciliation has been run yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <CardTitle>Open Sync Failures</CardTitle>
+              <CardDescription>
+                Failed CRM syncs stay here, and out of the log cleanup, until they are replayed or dismissed.
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => handleReplay()}
+              disabled={loading || working !== null || failures.length === 0}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Replay all
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading sync failures...</div>
+          ) : failures.length === 0 ? (
+            <div className="text-center py-8">
+              <CheckCircle className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No open CRM sync failures</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Failed</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {failures.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {entry.created_at && new Date(entry.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <p className="text-sm font-medium capitalize">
+                        {entry.entity_type} {entry.operation}
+                        {typeof entry.data_payload?.connector === 'string' && ` → ${entry.data_payload.connector}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground font-mono">{entry.entity_id ?? 'unknown record'}</p>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[320px]">{entry.error_message}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mr-2"
+                        onClick={() => handleReplay(entry)}
+                        disabled={working !== null || !entry.entity_id}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Replay
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDismiss(entry)}
+                        disabled={working !== null}
+                      >
+                        Dismiss
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { CrmSyncPanel } from './CrmSyncPanel';
@@ -30,6 +30,7 @@ interface CreditScore {
   id: string;
   score: number;
   bureau: string;
+  score_type: 'consumer' | 'business';
   score_date: string;
 }
 
@@ -114,12 +115,8 @@ export const EnterpriseDashboard = ({
   };
 
   // Separate personal and business credit scores
-  const personalScores = creditScores.filter(s => 
-    ['transunion', 'equifax', 'experian'].includes(s.bureau.toLowerCase())
-  );
-  const businessScores = creditScores.filter(s => 
-    !['transunion', 'equifax', 'experian'].includes(s.bureau.toLowerCase())
-  );
+  const personalScores = creditScores.filter(s => s.score_type === 'consumer');
+  const businessScores = creditScores.filter(s => s.score_type === 'business');
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { MessageCircle, X, Phone, Mail, FileQuestion } from "lucide-react";
+import { MessageCircle, X, Phone, Mail, FileQuestion, Ticket } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
@@ -13,6 +13,12 @@ export const FloatingSupportButton = ({ className }: FloatingSupportButtonProps)
   const navigate = useNavigate();
 
   const supportOptions = [
+    {
+      id: 'ticket',
+      label: 'Open a Ticket',
+      icon: Ticket,
+      action: () => navigate('/support?tab=new')
+    },
     {
       id: 'chat',
       label: 'Live Chat',
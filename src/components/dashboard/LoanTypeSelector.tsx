@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
 import {
   Dialog,
   DialogContent,
@@ -11,30 +12,10 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import {
-  Shield,
-  Building,
-  Building2,
-  CreditCard,
-  Settings,
-  TrendingUp,
-  Banknote,
-  FileText,
-  RotateCcw,
-  Zap,
-  ArrowRight,
-  Sparkles,
-} from 'lucide-react';
-
-interface LoanProgram {
-  id: number;
-  title: string;
-  icon: any;
-  description: string;
-  badge: string;
-  badgeColor: string;
-  details: string;
-}
+import { ArrowRight, Sparkles } from 'lucide-react';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
+import type { LoanProduct } from '@/services/api';
+import { getProductIcon } from './productIcons';
 
 interface LoanTypeSelectorProps {
   open: boolean;
@@ -42,124 +23,18 @@ interface LoanTypeSelectorProps {
   onSelect: (id: number) => void;
 }
 
-const loanPrograms: LoanProgram[] = [
-  {
-    id: 1,
-    title: "SBA 7(a) Loans",
-    icon: Shield,
-    description: "Versatile financing for working capital, equipment, and real estate purchases",
-    badge: "Prime + 2.75%",
-    badgeColor: "bg-primary",
-    details: "Up to $5 million | Long-term financing | Most popular SBA program"
-  },
-  {
-    id: 2,
-    title: "SBA 504 Loans",
-    icon: Building,
-    description: "Fixed-rate financing for real estate and major equipment purchases",
-    badge: "Fixed Rate",
-    badgeColor: "bg-primary",
-    details: "Up to $5.5 million | 10% down payment | Long-term fixed rates"
-  },
-  {
-    id: 3,
-    title: "USDA B&I Loans",
-    icon: Shield,
-    description: "Rural business development financing backed by USDA guarantee",
-    badge: "Prime + 2%",
-    badgeColor: "bg-primary",
-    details: "Up to $25 million | Rural area focus | Job creation requirements"
-  },
-  {
-    id: 4,
-    title: "Bridge Loans",
-    icon: Building2,
-    description: "Short-term financing to bridge cash flow gaps while securing permanent financing",
-    badge: "8.5% APR",
-    badgeColor: "bg-accent",
-    details: "Fast 7-day closing | Up to $10 million | Quick access to capital"
-  },
-  {
-    id: 5,
-    title: "Conventional Loans",
-    icon: CreditCard,
-    description: "Traditional commercial financing for established businesses with strong credit profiles",
-    badge: "5.25% APR",
-    badgeColor: "bg-accent",
-    details: "No government guarantee | Faster approval | Flexible terms"
-  },
-  {
-    id: 6,
-    title: "Equipment Financing",
-    icon: Settings,
-    description: "Fund new or used equipment purchases with competitive terms",
-    badge: "6.25% APR",
-    badgeColor: "bg-accent",
-    details: "100% financing available | Fast approval | Equipment as collateral"
-  },
-  {
-    id: 7,
-    title: "Working Capital Loan",
-    icon: TrendingUp,
-    description: "Bridge cash flow gaps and fund day-to-day business operations",
-    badge: "Prime + 1%",
-    badgeColor: "bg-accent",
-    details: "Revolving credit line | Quick access | Fund daily operations"
-  },
-  {
-    id: 8,
-    title: "Business Line of Credit",
-    icon: CreditCard,
-    description: "Flexible access to capital when you need it with revolving credit lines",
-    badge: "Prime + 2%",
-    badgeColor: "bg-accent",
-    details: "Draw as needed | Pay interest only on used funds | Revolving credit"
-  },
-  {
-    id: 9,
-    title: "Term Loans",
-    icon: Banknote,
-    description: "Fixed-rate business loans for major investments and growth initiatives",
-    badge: "5.75% APR",
-    badgeColor: "bg-accent",
-    details: "Fixed monthly payments | Competitive rates | Major investments"
-  },
-  {
-    id: 10,
-    title: "Invoice Factoring",
-    icon: FileText,
-    description: "Convert outstanding invoices into immediate cash flow for your business",
-    badge: "1.5% Factor",
-    badgeColor: "bg-accent",
-    details: "90% advance rate | Same-day funding | No debt on balance sheet"
-  },
-  {
-    id: 11,
-    title: "Refinance Loans",
-    icon: RotateCcw,
-    description: "Refinance existing debt to improve cash flow and reduce monthly payments",
-    badge: "4.5% APR",
-    badgeColor: "bg-accent",
-    details: "Lower payments | Improved terms | Debt consolidation"
-  },
-  {
-    id: 12,
-    title: "SBA Express Loans",
-    icon: Zap,
-    description: "Fast-track SBA financing with expedited approval process",
-    badge: "Prime + 4.5%",
-    badgeColor: "bg-primary",
-    details: "Up to $500K | 36-hour approval | Express processing"
-  }
-];
-
 export const LoanTypeSelector = ({ open, onClose, onSelect }: LoanTypeSelectorProps) => {
   const navigate = useNavigate();
+  const { activeProducts, loading, error } = useLoanProducts();
+  // Only products wired to an application form can be applied for
+  const loanPrograms = activeProducts.filter((p) => p.form_id !== null);
 
-  const handleSelect = (id: number) => {
-    onSelect(id);
+  const handleSelect = (program: LoanProduct) => {
+    const formId = program.form_id as number;
+    onSelect(formId);
     onClose();
-    navigate(`/?id=${id}`);
+    // product tells the shared form which catalog entry to submit
+    navigate(`/?id=${formId}&product=${encodeURIComponent(program.key)}`);
   };
 
   const handleSkip = () => {
@@ -186,14 +61,22 @@ export const LoanTypeSelector = ({ open, onClose, onSelect }: LoanTypeSelectorPr
         </DialogHeader>
         
         <ScrollArea className="max-h-[60vh] px-6 py-4">
+          {error && (
+            <p className="text-sm text-destructive py-8 text-center">
+              Loan programs could not be loaded. Please try again shortly.
+            </p>
+          )}
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {loading && Array.from({ length: 6 }).map((_, i) => (
+              <Skeleton key={i} className="h-36 rounded-lg" />
+            ))}
             {loanPrograms.map((program) => {
-              const IconComponent = program.icon;
+              const IconComponent = getProductIcon(program.icon);
               return (
                 <Card 
-                  key={program.id} 
+                  key={program.key} 
                   className="cursor-pointer transition-all duration-200 hover:shadow-lg hover:border-primary/50 hover:scale-[1.02] group"
-                  onClick={() => handleSelect(program.id)}
+                  onClick={() => handleSelect(program)}
                 >
                   <CardContent className="p-4">
                     <div className="flex items-start gap-3 mb-3">
@@ -202,11 +85,13 @@ export const LoanTypeSelector = ({ open, onClose, onSelect }: LoanTypeSelectorPr
                       </div>
                       <div className="flex-1 min-w-0">
                         <h3 className="font-semibold text-sm mb-1 text-foreground group-hover:text-primary transition-colors">
-                          {program.title}
+                          {program.name}
                         </h3>
-                        <Badge variant="secondary" className="text-xs">
-                          {program.badge}
-                        </Badge>
+                        {program.rate_display && (
+                          <Badge variant="secondary" className="text-xs">
+                            {program.rate_display}
+                          </Badge>
+                        )}
                       </div>
                     </div>
                     <p className="text-xs text-muted-foreground line-clamp-2 mb-3">
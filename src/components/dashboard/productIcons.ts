@@ -0,0 +1,29 @@
+import {
+  Shield,
+  Building,
+  Building2,
+  CreditCard,
+  Settings,
+  TrendingUp,
+  Banknote,
+  FileText,
+  RotateCcw,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react';
+
+// Catalog rows name their icon; anything unrecognized falls back to Banknote
+export const PRODUCT_ICONS: Record<string, LucideIcon> = {
+  Shield,
+  Building,
+  Building2,
+  CreditCard,
+  Settings,
+  TrendingUp,
+  Banknote,
+  FileText,
+  RotateCcw,
+  Zap,
+};
+
+export const getProductIcon = (name: string): LucideIcon => PRODUCT_ICONS[name] ?? Banknote;
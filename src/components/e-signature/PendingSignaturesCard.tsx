@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { signatureService, type SignatureRequest } from '@/services/signatureService';
+import { FileSignature, PenLine } from 'lucide-react';
+
+/** Lists the borrower's disclosures and documents waiting for their signature. */
+export const PendingSignaturesCard = () => {
+  const navigate = useNavigate();
+  const [requests, setRequests] = useState<SignatureRequest[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    signatureService
+      .list({ status: 'pending' })
+      .then((rows) => {
+        if (!cancelled) setRequests(rows);
+      })
+      .catch((err) => console.error('Error loading signature requests:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Card className="overflow-hidden">
+      <CardHeader className="px-4 py-4 sm:px-6 sm:py-5">
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <FileSignature className="w-4 h-4 sm:w-5 sm:h-5" />
+          <span>Documents to Sign</span>
+        </CardTitle>
+        <CardDescription className="text-sm">
+          {requests.length} document{requests.length === 1 ? '' : 's'} waiting for your electronic signature
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-4 pb-4 sm:px-6 sm:pb-6 space-y-3">
+        {requests.map((request) => (
+          <div key={request.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg border">
+            <div>
+              <p className="font-medium text-sm">{request.title}</p>
+              <p className="text-xs text-muted-foreground">
+                Sent {new Date(request.created_at).toLocaleDateString()}
+                {request.expires_at && ` · Sign by ${new Date(request.expires_at).toLocaleDateString()}`}
+              </p>
+            </div>
+            <Button size="sm" onClick={() => navigate(`/sign/${request.id}`)}>
+              <PenLine className="w-4 h-4 mr-2" />
+              Review & Sign
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
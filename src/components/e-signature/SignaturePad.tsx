@@ -0,0 +1,90 @@
+import { useRef, type PointerEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import type { SignatureDrawing } from '@/utils/pdfGenerator';
+import { Eraser } from 'lucide-react';
+
+const PAD_WIDTH = 500;
+const PAD_HEIGHT = 150;
+
+interface SignaturePadProps {
+  /** Called with the strokes so far, or null once cleared */
+  onChange: (drawing: SignatureDrawing | null) => void;
+}
+
+/** Canvas the signer draws on with a mouse, pen or finger. */
+export const SignaturePad = ({ onChange }: SignaturePadProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokesRef = useRef<{ x: number; y: number }[][]>([]);
+  const drawingRef = useRef(false);
+
+  // Pointer position in canvas pixels, whatever size the canvas is shown at
+  const pointFor = (e: PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.round(((e.clientX - rect.left) / rect.width) * PAD_WIDTH),
+      y: Math.round(((e.clientY - rect.top) / rect.height) * PAD_HEIGHT),
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    strokesRef.current.push([pointFor(e)]);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const stroke = strokesRef.current[strokesRef.current.length - 1];
+    const point = pointFor(e);
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) {
+      const last = stroke[stroke.length - 1];
+      ctx.lineWidth = 2;
+      ctx.lineCap = 'round';
+      ctx.strokeStyle = '#111827';
+      ctx.beginPath();
+      ctx.moveTo(last.x, last.y);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+    }
+    stroke.push(point);
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    // A tap without movement is not a signature
+    const strokes = strokesRef.current.filter((stroke) => stroke.length > 1);
+    onChange(strokes.length > 0 ? { width: PAD_WIDTH, height: PAD_HEIGHT, strokes } : null);
+  };
+
+  const clear = () => {
+    strokesRef.current = [];
+    canvasRef.current?.getContext('2d')?.clearRect(0, 0, PAD_WIDTH, PAD_HEIGHT);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={PAD_WIDTH}
+        height={PAD_HEIGHT}
+        className="w-full rounded-md border bg-white touch-none cursor-crosshair"
+        style={{ aspectRatio: `${PAD_WIDTH} / ${PAD_HEIGHT}` }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        aria-label="Draw your signature"
+      />
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-muted-foreground">Sign above using your mouse, pen or finger</span>
+        <Button type="button" size="sm" variant="ghost" onClick={clear}>
+          <Eraser className="w-4 h-4 mr-1" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+};
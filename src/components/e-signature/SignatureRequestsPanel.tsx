@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import {
+  signatureService,
+  SIGNATURE_STATUS_LABELS,
+  type SignatureRequest,
+  type SignatureRequestStatus,
+} from '@/services/signatureService';
+import { Ban, Eye, PenLine, ShieldCheck } from 'lucide-react';
+
+const STATUS_VARIANTS: Record<SignatureRequestStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  signed: 'default',
+  declined: 'destructive',
+  voided: 'outline',
+};
+
+interface SignatureRequestsPanelProps {
+  applicationId: string;
+  /** Change to reload, e.g. after a document was sent for signature */
+  refreshKey?: number;
+}
+
+/** Staff view of an application's signature requests and their evidence. */
+export const SignatureRequestsPanel = ({ applicationId, refreshKey = 0 }: SignatureRequestsPanelProps) => {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<SignatureRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    signatureService
+      .list({ applicationId })
+      .then((rows) => {
+        if (!cancelled) setRequests(rows);
+      })
+      .catch((err) => {
+        console.error('Error loading signature requests:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load signature requests", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId, refreshKey, toast]);
+
+  const handleVerify = async (request: SignatureRequest) => {
+    setWorkingId(request.id);
+    try {
+      const { documentIntact, chainValid } = await signatureService.verify(request.id);
+      if (documentIntact && chainValid) {
+        toast({ title: "Signature verified", description: "The signed document and its audit trail are unchanged" });
+      } else {
+        toast({
+          title: "Verification failed",
+          description: !documentIntact
+            ? "The signed document no longer matches the fingerprint recorded at signing"
+            : "The signing audit trail has been altered",
+          variant: "destructive",
+        });
+      }
+    } catch (err) {
+      console.error('Error verifying signature:', err);
+      toast({ title: "Error", description: "Failed to verify the signature", variant: "destructive" });
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleView = async (request: SignatureRequest) => {
+    try {
+      const detail = await signatureService.get(request.id);
+      if (detail.signedDocument) await signatureService.open(detail.signedDocument.file_path);
+    } catch (err) {
+      console.error('Error opening signed document:', err);
+      toast({ title: "Error", description: "Failed to open the signed document", variant: "destructive" });
+    }
+  };
+
+  const handleVoid = async (request: SignatureRequest) => {
+    const reason = window.prompt(`Void "${request.title}"? Enter a reason for the borrower's record:`);
+    if (reason === null) return;
+    setWorkingId(request.id);
+    try {
+      const updated = await signatureService.void(request.id, reason);
+      setRequests((prev) => prev.map((r) => (r.id === updated.id ? updated : r)));
+      toast({ title: "Request voided", description: request.title });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to void the request",
+        variant: "destructive",
+      });
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PenLine className="w-5 h-5" />
+          Electronic Signatures
+        </CardTitle>
+        <CardDescription>Disclosures and documents sent to the borrower for signature</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading signature requests...</p>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing has been sent for signature.</p>
+        ) : (
+          requests.map((request) => (
+            <div key={request.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-3 rounded-lg border">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{request.title}</span>
+                  <Badge variant={STATUS_VARIANTS[request.status]}>{SIGNATURE_STATUS_LABELS[request.status]}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {request.status === 'signed' && request.signed_at
+                    ? `${request.signature_type === 'drawn' ? 'Drawn' : 'Typed'} signature by ${request.signature_name} on ${new Date(request.signed_at).toLocaleString()} from ${request.signer_ip ?? 'unknown IP'}`
+                    : request.decline_reason
+                      ? `Reason: ${request.decline_reason}`
+                      : `Sent ${new Date(request.created_at).toLocaleString()}${request.viewed_at ? ' · opened by the borrower' : ''}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {request.status === 'signed' && (
+                  <>
+                    <Button size="sm" variant="outline" onClick={() => handleView(request)}>
+                      <Eye className="w-4 h-4 mr-1" />
+                      View
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleVerify(request)} disabled={workingId === request.id}>
+                      <ShieldCheck className="w-4 h-4 mr-1" />
+                      Verify
+                    </Button>
+                  </>
+                )}
+                {request.status === 'pending' && (
+                  <Button size="sm" variant="ghost" onClick={() => handleVoid(request)} disabled={workingId === request.id}>
+                    <Ban className="w-4 h-4 mr-1" />
+                    Void
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
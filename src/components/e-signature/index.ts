@@ -0,0 +1,3 @@
+export { PendingSignaturesCard } from './PendingSignaturesCard';
+export { SignaturePad } from './SignaturePad';
+export { SignatureRequestsPanel } from './SignatureRequestsPanel';
@@ -10,6 +10,7 @@ import { AutoSaveIndicator } from '@/components/ui/auto-save-indicator';
 import { useToast } from '@/hooks/use-toast';
 import { useFormAutoSave } from '@/hooks/useFormAutoSave';
 import { restQuery } from '@/services/supabaseHttp';
+import { loanProductService } from '@/services/loanProductService';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { FormSection, FormRow } from '@/components/ui/form-section';
@@ -43,6 +44,7 @@ const BridgeLoanForm = () => {
   const { toast } = useToast();
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
 
   const { clearOnSubmit } = useFormAutoSave({
     form,
@@ -74,7 +76,7 @@ const BridgeLoanForm = () => {
         method: 'POST',
         body: [{
           user_id: user.id,
-          loan_type: 'bridge_loan',
+          loan_type: await loanProductService.resolveSelectedProduct('bridge_loan', searchParams.get('product')),
           amount_requested: data.amount_requested,
           first_name: data.first_name,
           last_name: data.last_name,
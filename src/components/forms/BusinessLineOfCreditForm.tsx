@@ -75,7 +75,7 @@ export const BusinessLineOfCreditForm: React.FC = () => {
     }
 
     const applicationData = {
-      loan_type: "Business Line of Credit",
+      loan_type: "business_line_of_credit",
       amount_requested: parseFloat(data.creditLimit),
       business_name: data.businessName,
       business_type: data.businessType,
@@ -77,7 +77,7 @@ export const ConventionalLoanForm: React.FC = () => {
     }
 
     const applicationData = {
-      loan_type: "Conventional Loan",
+      loan_type: "conventional",
       amount_requested: parseFloat(data.loanAmount),
       business_name: data.businessName,
       business_type: data.businessType,
@@ -10,6 +10,7 @@ import { AutoSaveIndicator } from '@/components/ui/auto-save-indicator';
 import { useToast } from '@/hooks/use-toast';
 import { useFormAutoSave } from '@/hooks/useFormAutoSave';
 import { restQuery } from '@/services/supabaseHttp';
+import { loanProductService } from '@/services/loanProductService';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { FormSection, FormRow } from '@/components/ui/form-section';
@@ -136,7 +137,7 @@ const RefinanceForm = () => {
           method: 'POST',
           body: [{
             user_id: user.id,
-            loan_type: 'refinance',
+            loan_type: await loanProductService.resolveSelectedProduct('refinance', searchParams.get('product')),
             amount_requested: data.amount_requested,
             first_name: data.first_name,
             last_name: data.last_name,
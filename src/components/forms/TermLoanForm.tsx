@@ -77,7 +77,7 @@ export const TermLoanForm: React.FC = () => {
     }
 
     const applicationData = {
-      loan_type: "Term Loan",
+      loan_type: "term_loan",
       amount_requested: parseFloat(data.loanAmount),
       business_name: data.businessName,
       business_type: data.businessType,
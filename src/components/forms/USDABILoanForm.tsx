@@ -77,7 +77,7 @@ export const USDABILoanForm: React.FC = () => {
     }
 
     const applicationData = {
-      loan_type: "USDA B&I Loan",
+      loan_type: "usda_bi",
       amount_requested: parseFloat(data.loanAmount),
       business_name: data.businessName,
       business_type: data.businessType,
@@ -0,0 +1,299 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
+import { LOAN_DOCUMENT_TEMPLATES, type LoanDocumentType } from '@/config/loanDocumentTemplates';
+import { termOptionMonths } from '@/utils/loanCalculations';
+import {
+  loanDocumentService,
+  type LoanDocument,
+  type LoanDocumentApplication,
+  type LoanDocumentTerms,
+} from '@/services/loanDocumentService';
+import { Eye, FileSignature, Plus, Trash2 } from 'lucide-react';
+
+// Documents can only be issued once the application is approved
+const ISSUABLE_STATUSES = ['conditionally_approved', 'approved'];
+
+const EXPIRATION_DAYS = 30;
+
+const defaultExpiration = () =>
+  new Date(Date.now() + EXPIRATION_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+interface LoanDocumentsPanelProps {
+  application: LoanDocumentApplication & { amount_requested: number; status: string };
+  /** Called after a document is issued, e.g. to reload its signature request */
+  onIssued?: () => void;
+}
+
+export const LoanDocumentsPanel = ({ application, onIssued }: LoanDocumentsPanelProps) => {
+  const { toast } = useToast();
+  const { getProduct } = useLoanProducts();
+  const [documents, setDocuments] = useState<LoanDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [formType, setFormType] = useState<LoanDocumentType | null>(null);
+  const [terms, setTerms] = useState<LoanDocumentTerms | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loanDocumentService
+      .listForApplication(application.id)
+      .then((rows) => {
+        if (!cancelled) setDocuments(rows);
+      })
+      .catch((err) => {
+        console.error('Error loading loan documents:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load loan documents", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [application.id, toast]);
+
+  const canIssue = ISSUABLE_STATUSES.includes(application.status);
+
+  // Start from the latest issued terms, otherwise from the product catalog
+  const openForm = (type: LoanDocumentType) => {
+    const previous = documents[0]?.terms;
+    const product = getProduct(application.loan_type);
+    const expiration = defaultExpiration();
+    setTerms(
+      previous
+        ? {
+            amount: previous.amount,
+            interest_rate: previous.interest_rate,
+            term_months: previous.term_months,
+            interest_only_months: previous.interest_only_months,
+            fees: previous.fees,
+            expiration_date: expiration,
+          }
+        : {
+            amount: Number(application.amount_requested) || 0,
+            interest_rate: product?.interest_rate_min ?? 0,
+            term_months: termOptionMonths(product?.term_options[0]),
+            interest_only_months: 0,
+            fees: [{ label: 'Origination fee', amount: 0 }],
+            expiration_date: expiration,
+          },
+    );
+    setFormType(type);
+  };
+
+  const handlePreview = async () => {
+    if (!formType || !terms) return;
+    try {
+      await loanDocumentService.preview(formType, application, terms);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to render the document",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleIssue = async () => {
+    if (!formType || !terms) return;
+    setWorking(true);
+    try {
+      const issued = await loanDocumentService.issue(formType, application, terms);
+      setDocuments((prev) => [issued, ...prev]);
+      toast({
+        title: "Document issued",
+        description: LOAN_DOCUMENT_TEMPLATES[formType].requiresSignature
+          ? `${LOAN_DOCUMENT_TEMPLATES[formType].name} v${issued.version} was sent to the borrower for signature`
+          : `${LOAN_DOCUMENT_TEMPLATES[formType].name} v${issued.version} is in the borrower's documents`,
+      });
+      setFormType(null);
+      onIssued?.();
+    } catch (err) {
+      console.error('Error issuing loan document:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to issue the document",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const setFee = (index: number, changes: Partial<LoanDocumentTerms['fees'][number]>) => {
+    if (!terms) return;
+    setTerms({ ...terms, fees: terms.fees.map((fee, i) => (i === index ? { ...fee, ...changes } : fee)) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileSignature className="w-5 h-5" />
+              Term Sheets & Commitment Letters
+            </CardTitle>
+            <CardDescription>
+              {canIssue
+                ? 'Issued documents are filed in the borrower\'s documents for download'
+                : 'Available once the application is approved'}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {(Object.keys(LOAN_DOCUMENT_TEMPLATES) as LoanDocumentType[]).map((type) => (
+              <Button key={type} size="sm" variant="outline" onClick={() => openForm(type)} disabled={!canIssue || working}>
+                <Plus className="w-4 h-4 mr-1" />
+                {LOAN_DOCUMENT_TEMPLATES[type].name}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading documents...</p>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No term sheet or commitment letter has been issued.</p>
+        ) : (
+          documents.map((doc) => (
+            <div key={doc.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-3 rounded-lg border">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{LOAN_DOCUMENT_TEMPLATES[doc.document_type].name}</span>
+                  <Badge variant="outline">v{doc.version}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(doc.terms.amount)} at {Number(doc.terms.interest_rate).toFixed(2)}% for {doc.terms.term_months} months
+                  {' · '}{formatCurrency(doc.terms.monthly_payment)}/mo
+                  {' · '}expires {new Date(`${doc.terms.expiration_date}T00:00:00`).toLocaleDateString()}
+                </p>
+              </div>
+              <span className="text-xs text-muted-foreground">Issued {new Date(doc.created_at).toLocaleString()}</span>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={formType !== null} onOpenChange={(open) => !open && setFormType(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Issue {formType && LOAN_DOCUMENT_TEMPLATES[formType].name}</DialogTitle>
+            <DialogDescription>
+              Payments and the amortization schedule are calculated from these terms; conditions are taken from the Conditions tab.
+            </DialogDescription>
+          </DialogHeader>
+          {terms && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="doc-amount">Loan amount</Label>
+                  <Input
+                    id="doc-amount"
+                    type="number"
+                    min={0}
+                    value={terms.amount}
+                    onChange={(e) => setTerms({ ...terms, amount: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="doc-rate">Interest rate (%)</Label>
+                  <Input
+                    id="doc-rate"
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={terms.interest_rate}
+                    onChange={(e) => setTerms({ ...terms, interest_rate: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="doc-term">Term (months)</Label>
+                  <Input
+                    id="doc-term"
+                    type="number"
+                    min={1}
+                    value={terms.term_months}
+                    onChange={(e) => setTerms({ ...terms, term_months: parseInt(e.target.value, 10) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="doc-io">Interest-only (months)</Label>
+                  <Input
+                    id="doc-io"
+                    type="number"
+                    min={0}
+                    value={terms.interest_only_months}
+                    onChange={(e) => setTerms({ ...terms, interest_only_months: parseInt(e.target.value, 10) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="doc-expires">Expires</Label>
+                  <Input
+                    id="doc-expires"
+                    type="date"
+                    value={terms.expiration_date}
+                    onChange={(e) => setTerms({ ...terms, expiration_date: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Fees</Label>
+                {terms.fees.map((fee, i) => (
+                  <div key={i} className="flex gap-2">
+                    <Input
+                      placeholder="Fee"
+                      value={fee.label}
+                      onChange={(e) => setFee(i, { label: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-32"
+                      value={fee.amount}
+                      onChange={(e) => setFee(i, { amount: Number(e.target.value) })}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setTerms({ ...terms, fees: terms.fees.filter((_, j) => j !== i) })}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setTerms({ ...terms, fees: [...terms.fees, { label: '', amount: 0 }] })}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add fee
+                </Button>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={handlePreview} disabled={working}>
+              <Eye className="w-4 h-4 mr-2" />
+              Preview
+            </Button>
+            <Button onClick={handleIssue} disabled={working || !terms?.amount || !terms?.term_months || !terms?.expiration_date}>
+              {working ? 'Issuing...' : 'Issue to Borrower'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1 @@
+export { LoanDocumentsPanel } from './LoanDocumentsPanel';
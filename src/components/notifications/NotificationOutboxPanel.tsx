@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  notificationOutboxService,
+  OUTBOX_EVENT_LABELS,
+  OUTBOX_STATUS_LABELS,
+  type OutboxEntry,
+  type OutboxStatus,
+} from '@/services/notificationOutboxService';
+import { Inbox, RefreshCw, RotateCcw } from 'lucide-react';
+
+const getStatusVariant = (status: OutboxStatus): 'default' | 'secondary' | 'destructive' | 'outline' =>
+  status === 'delivered' ? 'default' : status === 'dead' ? 'destructive' : status === 'processing' ? 'secondary' : 'outline';
+
+// What the row is about, from whichever payload fields the event carries
+const describe = (entry: OutboxEntry): string => {
+  const { payload } = entry;
+  if (entry.event === 'external_webhook') return String(payload.title ?? payload.eventType ?? '');
+  if (entry.event === 'application_status_change') return `Now ${String(payload.newStatus ?? '').replace(/_/g, ' ')}`;
+  return String(payload.applicantName ?? payload.loanNumber ?? '');
+};
+
+const fetchEntries = (status: 'all' | OutboxStatus) =>
+  notificationOutboxService.listEntries({ status: status === 'all' ? undefined : status });
+
+export const NotificationOutboxPanel = () => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<'all' | OutboxStatus>('dead');
+  const [requeuing, setRequeuing] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchEntries(statusFilter)
+      .then((rows) => {
+        if (!cancelled) setEntries(rows);
+      })
+      .catch((err) => {
+        console.error('Error loading notification outbox:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load the notification outbox", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [statusFilter, toast]);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      setEntries(await fetchEntries(statusFilter));
+    } catch (err) {
+      console.error('Error loading notification outbox:', err);
+      toast({ title: "Error", description: "Failed to load the notification outbox", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequeue = async (entry: OutboxEntry) => {
+    setRequeuing(entry.id);
+    try {
+      await notificationOutboxService.requeue(entry.id);
+      toast({ title: "Requeued", description: "The notification will be retried on the next worker run" });
+      await refresh();
+    } catch (err) {
+      console.error('Error requeueing notification:', err);
+      toast({ title: "Error", description: "Failed to requeue the notification", variant: "destructive" });
+    } finally {
+      setRequeuing(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="w-5 h-5" />
+              Notification Outbox
+            </CardTitle>
+            <CardDescription>
+              Status-change, loan-funded and webhook notifications waiting for delivery. Dead letters ran out of retries.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select
+              value={statusFilter}
+              onValueChange={(value) => {
+                setLoading(true);
+                setStatusFilter(value as 'all' | OutboxStatus);
+              }}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {(Object.keys(OUTBOX_STATUS_LABELS) as OutboxStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>{OUTBOX_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={refresh} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading outbox...</div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-8">
+            <Inbox className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">
+              {statusFilter === 'dead' ? 'No dead-lettered notifications' : 'No notifications match this filter'}
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queued</TableHead>
+                <TableHead>Notification</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <p className="text-sm font-medium">{OUTBOX_EVENT_LABELS[entry.event]}</p>
+                    <p className="text-xs text-muted-foreground">{describe(entry)}</p>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {entry.attempts} / {entry.max_attempts}
+                    {entry.status === 'pending' && entry.attempts > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Next {new Date(entry.next_attempt_at).toLocaleString()}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={getStatusVariant(entry.status)}>{OUTBOX_STATUS_LABELS[entry.status]}</Badge>
+                    {entry.last_error && (
+                      <p className="text-xs text-muted-foreground mt-1 max-w-[320px]">{entry.last_error}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {entry.status === 'dead' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRequeue(entry)}
+                        disabled={requeuing === entry.id}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Requeue
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  notificationTemplateService,
+  TEMPLATE_CHANNEL_LABELS,
+  type NotificationTemplate,
+  type TemplateChannel,
+} from '@/services/notificationTemplateService';
+import { TemplateEditorDialog } from './TemplateEditorDialog';
+import { TemplateHistoryDialog } from './TemplateHistoryDialog';
+import { Edit, FileText, History, RefreshCw } from 'lucide-react';
+
+export const NotificationTemplatesPanel = () => {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [channelFilter, setChannelFilter] = useState<'all' | TemplateChannel>('all');
+  const [editing, setEditing] = useState<NotificationTemplate | null>(null);
+  const [historyTemplate, setHistoryTemplate] = useState<NotificationTemplate | null>(null);
+  const [toggling, setToggling] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    notificationTemplateService.listTemplates()
+      .then((rows) => {
+        if (!cancelled) setTemplates(rows);
+      })
+      .catch((err) => {
+        console.error('Error loading notification templates:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load notification templates", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [toast]);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      setTemplates(await notificationTemplateService.listTemplates());
+    } catch (err) {
+      console.error('Error loading notification templates:', err);
+      toast({ title: "Error", description: "Failed to load notification templates", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replaceTemplate = (saved: NotificationTemplate) => {
+    setTemplates((prev) => prev.map((t) => (t.id === saved.id ? saved : t)));
+  };
+
+  const handleToggle = async (template: NotificationTemplate, enabled: boolean) => {
+    setToggling(template.id);
+    try {
+      replaceTemplate(await notificationTemplateService.setEnabled(template, enabled));
+      toast({
+        title: enabled ? "Template Enabled" : "Template Disabled",
+        description: enabled ? `${template.name} will be sent again` : `${template.name} will be skipped until re-enabled`,
+      });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to update template", variant: "destructive" });
+    } finally {
+      setToggling(null);
+    }
+  };
+
+  const visible = channelFilter === 'all' ? templates : templates.filter((t) => t.channel === channelFilter);
+  const disabledCount = templates.filter((t) => !t.is_enabled).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="w-5 h-5" />
+              Message Templates
+            </CardTitle>
+            <CardDescription>
+              Wording for every email and text message sent to borrowers
+              {disabledCount > 0 && ` · ${disabledCount} disabled`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={channelFilter} onValueChange={(value) => setChannelFilter(value as 'all' | TemplateChannel)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All channels</SelectItem>
+                {(Object.keys(TEMPLATE_CHANNEL_LABELS) as TemplateChannel[]).map((channel) => (
+                  <SelectItem key={channel} value={channel}>{TEMPLATE_CHANNEL_LABELS[channel]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={refresh} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && templates.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Loading templates...</div>
+        ) : visible.length === 0 ? (
+          <div className="text-center py-8">
+            <FileText className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No templates found</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Template</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead>Subject / Message</TableHead>
+                <TableHead>Version</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((template) => (
+                <TableRow key={template.id} className={template.is_enabled ? undefined : 'opacity-60'}>
+                  <TableCell>
+                    <p className="font-medium">{template.name}</p>
+                    <p className="text-xs text-muted-foreground font-mono">{template.template_key}</p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{TEMPLATE_CHANNEL_LABELS[template.channel]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm max-w-[320px] truncate" title={template.subject ?? template.text_body}>
+                    {template.subject ?? template.text_body}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">v{template.version}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={template.is_enabled}
+                      disabled={toggling === template.id}
+                      onCheckedChange={(checked) => handleToggle(template, checked)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(template)} title="Edit">
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setHistoryTemplate(template)} title="Version history">
+                      <History className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {editing && (
+        <TemplateEditorDialog
+          key={editing.id}
+          template={editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          onSaved={(saved) => {
+            replaceTemplate(saved);
+            setEditing(null);
+          }}
+        />
+      )}
+
+      {historyTemplate && (
+        <TemplateHistoryDialog
+          key={historyTemplate.id}
+          template={historyTemplate}
+          onOpenChange={(open) => !open && setHistoryTemplate(null)}
+          onRestored={(saved) => {
+            replaceTemplate(saved);
+            setHistoryTemplate(null);
+          }}
+        />
+      )}
+    </Card>
+  );
+};
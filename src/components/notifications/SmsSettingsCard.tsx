@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PhoneInput, isValidPhoneNumber } from '@/components/ui/phone-input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  notificationPreferencesService,
+  SMS_TIMEZONES,
+  type SmsSettings,
+} from '@/services/notificationPreferencesService';
+import { AlertTriangle, MessageSquare, Save } from 'lucide-react';
+
+interface SmsSettingsCardProps {
+  // Whether any event has the SMS channel switched on
+  smsEnabled: boolean;
+}
+
+interface SmsForm {
+  phone: string;
+  optIn: boolean;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  timezone: string;
+}
+
+// The phone input edits 10-digit US numbers; settings store E.164
+const toForm = (settings: SmsSettings): SmsForm => ({
+  phone: settings.phone?.replace(/^\+1/, '') ?? '',
+  optIn: settings.consent_status === 'opted_in',
+  quietHoursStart: settings.quiet_hours_start,
+  quietHoursEnd: settings.quiet_hours_end,
+  timezone: settings.timezone,
+});
+
+export const SmsSettingsCard = ({ smsEnabled }: SmsSettingsCardProps) => {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<SmsSettings | null>(null);
+  const [form, setForm] = useState<SmsForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    notificationPreferencesService.getSmsSettings()
+      .then((loaded) => {
+        if (cancelled) return;
+        setSettings(loaded);
+        setForm(toForm(loaded));
+      })
+      .catch((err) => {
+        console.error('Error loading SMS settings:', err);
+        if (!cancelled) toast({ title: 'Error', description: 'Failed to load text message settings', variant: 'destructive' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [toast]);
+
+  if (!form) return null;
+
+  const update = (changes: Partial<SmsForm>) => setForm({ ...form, ...changes });
+  const phoneValid = form.phone === '' || isValidPhoneNumber(form.phone);
+
+  const handleSave = async () => {
+    if (!phoneValid || (form.optIn && !form.phone)) {
+      toast({ title: 'Mobile number required', description: 'Enter a 10-digit US mobile number to receive texts', variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    try {
+      const saved = await notificationPreferencesService.updateSmsSettings({
+        phone: form.phone || null,
+        optIn: form.optIn,
+        quietHoursStart: form.quietHoursStart,
+        quietHoursEnd: form.quietHoursEnd,
+        timezone: form.timezone,
+      });
+      setSettings(saved);
+      setForm(toForm(saved));
+      toast({ title: 'Success', description: 'Text message settings saved' });
+    } catch (err) {
+      console.error('Error saving SMS settings:', err);
+      toast({ title: 'Error', description: 'Failed to save text message settings', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="w-5 h-5 text-primary" />
+            Text Messages
+          </CardTitle>
+          {settings?.consent_status === 'opted_in' ? (
+            <Badge>Opted in</Badge>
+          ) : (
+            <Badge variant="secondary">Not receiving texts</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Where we send SMS notifications and when we hold them back
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {smsEnabled && settings?.consent_status !== 'opted_in' && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Some events have SMS switched on, but texts are only sent after you add a mobile number and opt in below.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="sms-phone">Mobile number</Label>
+          <PhoneInput id="sms-phone" value={form.phone} onChange={(phone) => update({ phone })} placeholder="555-123-4567" />
+          {!phoneValid && <p className="text-sm text-destructive">Enter a 10-digit US mobile number</p>}
+        </div>
+
+        <div className="flex items-start gap-3">
+          <Checkbox
+            id="sms-opt-in"
+            checked={form.optIn}
+            onCheckedChange={(checked) => update({ optIn: checked === true })}
+          />
+          <Label htmlFor="sms-opt-in" className="text-sm font-normal leading-relaxed">
+            I agree to receive account alerts from Halo Business Finance by text at this number. Message frequency
+            varies. Msg &amp; data rates may apply. Reply STOP to unsubscribe or HELP for help at any time.
+          </Label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="quiet-start">Quiet hours start</Label>
+            <Input id="quiet-start" type="time" value={form.quietHoursStart} onChange={(e) => update({ quietHoursStart: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quiet-end">Quiet hours end</Label>
+            <Input id="quiet-end" type="time" value={form.quietHoursEnd} onChange={(e) => update({ quietHoursEnd: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label>Time zone</Label>
+            <Select value={form.timezone} onValueChange={(timezone) => update({ timezone })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SMS_TIMEZONES.map((tz) => (
+                  <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+                ))}
+                {!SMS_TIMEZONES.some((tz) => tz.value === form.timezone) && (
+                  <SelectItem value={form.timezone}>{form.timezone}</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Texts due during quiet hours are held and sent when they end.
+        </p>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving || !form.quietHoursStart || !form.quietHoursEnd}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Text Settings'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
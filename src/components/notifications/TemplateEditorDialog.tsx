@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import {
+  findUnknownVariables,
+  notificationTemplateService,
+  TEMPLATE_CHANNEL_LABELS,
+  type NotificationTemplate,
+  type NotificationTemplateInput,
+  type PreviewApplication,
+  type TemplatePreview,
+} from '@/services/notificationTemplateService';
+import { AlertTriangle, Eye } from 'lucide-react';
+
+const SAMPLE_APPLICATION = 'sample';
+
+interface TemplateEditorDialogProps {
+  /** Remount with a key per template so the form starts from its saved wording */
+  template: NotificationTemplate;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (template: NotificationTemplate) => void;
+}
+
+const applicationLabel = (app: PreviewApplication) => {
+  const applicant = app.business_name || [app.first_name, app.last_name].filter(Boolean).join(' ') || 'Unnamed applicant';
+  return app.application_number ? `${app.application_number} · ${applicant}` : applicant;
+};
+
+export const TemplateEditorDialog = ({ template, onOpenChange, onSaved }: TemplateEditorDialogProps) => {
+  const { toast } = useToast();
+  const isEmail = template.channel === 'email';
+  const [form, setForm] = useState<NotificationTemplateInput>({
+    name: template.name,
+    description: template.description,
+    subject: template.subject,
+    html_body: template.html_body,
+    text_body: template.text_body,
+  });
+  const [saving, setSaving] = useState(false);
+  const [applications, setApplications] = useState<PreviewApplication[]>([]);
+  const [applicationId, setApplicationId] = useState(SAMPLE_APPLICATION);
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    notificationTemplateService.listPreviewApplications()
+      .then((rows) => {
+        if (!cancelled) setApplications(rows);
+      })
+      .catch((err) => console.error('Error loading preview applications:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const unknownVariables = findUnknownVariables(template, form.subject, form.html_body, form.text_body);
+
+  const runPreview = async (selected = applicationId) => {
+    setPreviewing(true);
+    try {
+      setPreview(await notificationTemplateService.preview(template, form, selected === SAMPLE_APPLICATION ? undefined : selected));
+    } catch (error) {
+      toast({
+        title: "Preview failed",
+        description: error instanceof Error ? error.message : "Failed to render template",
+        variant: "destructive"
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.text_body.trim() || (isEmail && (!form.subject?.trim() || !form.html_body?.trim()))) {
+      toast({
+        title: "Invalid template",
+        description: isEmail ? "Name, subject, HTML and text bodies are required" : "Name and message are required",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await notificationTemplateService.updateTemplate(template, {
+        ...form,
+        name: form.name.trim(),
+        description: form.description?.trim() || null,
+      });
+      toast({ title: "Template Saved", description: `${saved.name} is now version ${saved.version}` });
+      onSaved(saved);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save template",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] p-0">
+        <DialogHeader className="px-6 pt-6">
+          <DialogTitle className="flex items-center gap-2">
+            Edit {template.name}
+            <Badge variant="outline">{TEMPLATE_CHANNEL_LABELS[template.channel]}</Badge>
+          </DialogTitle>
+          <DialogDescription>
+            <span className="font-mono">{template.template_key}</span> · saving creates version {template.version + 1} if anything changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[65vh] px-6">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 pb-2">
+            <section className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input id="template-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-description">Description</Label>
+                  <Input
+                    id="template-description"
+                    value={form.description ?? ''}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {isEmail && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-subject">Subject</Label>
+                    <Input id="template-subject" value={form.subject ?? ''} onChange={(e) => setForm({ ...form, subject: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-html">HTML body</Label>
+                    <Textarea
+                      id="template-html"
+                      rows={8}
+                      className="font-mono text-xs"
+                      value={form.html_body ?? ''}
+                      onChange={(e) => setForm({ ...form, html_body: e.target.value })}
+                    />
+                  </div>
+                </>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="template-text">{isEmail ? 'Plain-text body' : 'Message'}</Label>
+                <Textarea
+                  id="template-text"
+                  rows={isEmail ? 5 : 4}
+                  value={form.text_body}
+                  onChange={(e) => setForm({ ...form, text_body: e.target.value })}
+                />
+                {!isEmail && <p className="text-xs text-muted-foreground">{form.text_body.length} characters before variables are filled in</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Available variables</Label>
+                <div className="flex flex-wrap gap-1">
+                  {template.variables.map((variable) => (
+                    <Badge key={variable} variant="secondary" className="font-mono text-xs">{`{{${variable}}}`}</Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Add a fallback for values that may be missing, e.g. {'{{documentName|additional documents}}'}.
+                </p>
+              </div>
+
+              {unknownVariables.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    Not supplied when this template is sent, so they will render empty: {unknownVariables.join(', ')}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </section>
+
+            <section className="space-y-4">
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label>Preview with</Label>
+                  <Select
+                    value={applicationId}
+                    onValueChange={(value) => {
+                      setApplicationId(value);
+                      runPreview(value);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SAMPLE_APPLICATION}>Sample data</SelectItem>
+                      {applications.map((app) => (
+                        <SelectItem key={app.id} value={app.id}>{applicationLabel(app)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button variant="outline" onClick={() => runPreview()} disabled={previewing}>
+                  <Eye className="w-4 h-4 mr-2" />
+                  {previewing ? 'Rendering...' : 'Preview'}
+                </Button>
+              </div>
+
+              {preview ? (
+                <div className="border rounded-lg divide-y">
+                  {isEmail && (
+                    <div className="p-3">
+                      <p className="text-xs text-muted-foreground">Subject</p>
+                      <p className="text-sm font-medium">{preview.subject}</p>
+                    </div>
+                  )}
+                  {isEmail && (
+                    // Sandboxed so template markup cannot run scripts or reach the admin session
+                    <iframe title="Email preview" sandbox="" srcDoc={preview.html} className="w-full h-64 bg-white" />
+                  )}
+                  <div className="p-3">
+                    <p className="text-xs text-muted-foreground mb-1">{isEmail ? 'Plain text' : 'Message'}</p>
+                    <p className="text-sm whitespace-pre-wrap">{preview.text}</p>
+                  </div>
+                </div>
+              ) : (
+                <div className="border rounded-lg p-8 text-center text-sm text-muted-foreground">
+                  Render the current wording, including unsaved edits, against sample data or a recent application.
+                </div>
+              )}
+            </section>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="px-6 pb-6">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import {
+  notificationTemplateService,
+  type NotificationTemplate,
+  type NotificationTemplateVersion,
+} from '@/services/notificationTemplateService';
+import { RotateCcw } from 'lucide-react';
+
+interface TemplateHistoryDialogProps {
+  template: NotificationTemplate;
+  onOpenChange: (open: boolean) => void;
+  onRestored: (template: NotificationTemplate) => void;
+}
+
+export const TemplateHistoryDialog = ({ template, onOpenChange, onRestored }: TemplateHistoryDialogProps) => {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<NotificationTemplateVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    notificationTemplateService.listVersions(template.id)
+      .then((rows) => {
+        if (!cancelled) setVersions(rows);
+      })
+      .catch((err) => {
+        console.error('Error loading template history:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load template history", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [template.id, toast]);
+
+  const handleRestore = async (version: NotificationTemplateVersion) => {
+    setRestoring(version.version);
+    try {
+      const saved = await notificationTemplateService.restoreVersion(template, version);
+      toast({ title: "Version Restored", description: `v${version.version} wording saved as version ${saved.version}` });
+      onRestored(saved);
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to restore template version", variant: "destructive" });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{template.name} history</DialogTitle>
+          <DialogDescription>Every saved change is kept as a numbered version. Restoring copies the wording into a new version.</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh]">
+          {loading ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">Loading history...</p>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">No versions recorded</p>
+          ) : (
+            <div className="space-y-3 pr-3">
+              {versions.map((version) => (
+                <div key={version.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">v{version.version}</Badge>
+                      {version.version === template.version && <Badge>Current</Badge>}
+                      {version.snapshot.is_enabled === false && <Badge variant="secondary">Disabled</Badge>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">{new Date(version.created_at).toLocaleString()}</span>
+                      {version.version !== template.version && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRestore(version)}
+                          disabled={restoring !== null}
+                          title="Restore this wording"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {version.changed_fields.length > 0 ? (
+                    <div className="flex flex-wrap gap-1">
+                      {version.changed_fields.map((field) => (
+                        <Badge key={field} variant="secondary" className="font-mono text-xs">{field}</Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Initial version</p>
+                  )}
+                  {version.snapshot.subject && <p className="text-sm font-medium">{version.snapshot.subject}</p>}
+                  <p className="text-xs text-muted-foreground whitespace-pre-wrap line-clamp-3">{version.snapshot.text_body}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
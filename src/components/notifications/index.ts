@@ -0,0 +1,5 @@
+export { NotificationOutboxPanel } from './NotificationOutboxPanel';
+export { NotificationTemplatesPanel } from './NotificationTemplatesPanel';
+export { SmsSettingsCard } from './SmsSettingsCard';
+export { TemplateEditorDialog } from './TemplateEditorDialog';
+export { TemplateHistoryDialog } from './TemplateHistoryDialog';
@@ -0,0 +1,14 @@
+import { Badge } from '@/components/ui/badge';
+import { SUPPORT_TICKET_STATUS_LABELS, type SupportTicketStatus } from '@/services/supportTicketService';
+
+const STATUS_VARIANTS: Record<SupportTicketStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  open: 'destructive',
+  in_progress: 'default',
+  waiting_on_customer: 'secondary',
+  resolved: 'outline',
+  closed: 'outline',
+};
+
+export const TicketStatusBadge = ({ status }: { status: SupportTicketStatus }) => (
+  <Badge variant={STATUS_VARIANTS[status]}>{SUPPORT_TICKET_STATUS_LABELS[status]}</Badge>
+);
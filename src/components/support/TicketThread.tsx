@@ -0,0 +1,50 @@
+import { Badge } from '@/components/ui/badge';
+import { Lock } from 'lucide-react';
+import type { SupportTicketMessage } from '@/services/supportTicketService';
+
+interface TicketThreadProps {
+  messages: SupportTicketMessage[];
+  /** Whose messages sit on the right: the borrower's on the Support page, staff's in the admin queue */
+  viewer: 'borrower' | 'staff';
+  borrowerName?: string;
+}
+
+export const TicketThread = ({ messages, viewer, borrowerName = 'Borrower' }: TicketThreadProps) => {
+  if (messages.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-6">No messages yet</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {messages.map((message) => {
+        const own = viewer === 'staff' ? message.is_staff : !message.is_staff;
+        const author = message.is_staff ? 'Support Team' : viewer === 'borrower' ? 'You' : borrowerName;
+        return (
+          <div key={message.id} className={`flex ${own ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-[85%] rounded-lg px-4 py-2 ${
+                message.is_internal
+                  ? 'bg-amber-50 border border-amber-200 text-amber-950'
+                  : own
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-card border'
+              }`}
+            >
+              <div className="flex items-center gap-2 mb-1 text-xs opacity-80">
+                <span className="font-medium">{author}</span>
+                <span>{new Date(message.created_at).toLocaleString()}</span>
+                {message.is_internal && (
+                  <Badge variant="outline" className="gap-1 text-[10px] py-0">
+                    <Lock className="w-3 h-3" />
+                    Internal
+                  </Badge>
+                )}
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
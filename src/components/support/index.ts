@@ -0,0 +1,2 @@
+export { TicketThread } from './TicketThread';
+export { TicketStatusBadge } from './TicketStatusBadge';
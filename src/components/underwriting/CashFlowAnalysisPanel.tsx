@@ -0,0 +1,299 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
+import { calculateAmortization, termOptionMonths } from '@/utils/loanCalculations';
+import { cashFlowService, type CashFlowAnalysis, type CashFlowTerms } from '@/services/cashFlowService';
+import type { UnderwritingResult } from '@/services/loanApplicationService';
+import { AlertTriangle, TrendingUp } from 'lucide-react';
+
+const HISTORY_MONTHS = [6, 12, 24];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
+const monthLabel = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+// Thresholds match the DSCR bands of the seeded underwriting policy
+const dscrColor = (dscr: number | null) => {
+  if (dscr === null) return '';
+  if (dscr >= 1.25) return 'text-green-600';
+  if (dscr >= 1) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+interface CashFlowAnalysisPanelProps {
+  application: { id: string; loan_type: string; amount_requested: number | null };
+  /** Called with the application's new score after each analysis */
+  onAnalyzed?: (underwriting: UnderwritingResult) => void;
+}
+
+/** Underwriter cash-flow and DSCR analysis of the borrower's linked accounts and parsed statements. */
+export const CashFlowAnalysisPanel = ({ application, onAnalyzed }: CashFlowAnalysisPanelProps) => {
+  const { toast } = useToast();
+  const { getProduct } = useLoanProducts();
+  const [analyses, setAnalyses] = useState<CashFlowAnalysis[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [terms, setTerms] = useState<CashFlowTerms | null>(null);
+  const [months, setMonths] = useState(12);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    cashFlowService
+      .history(application.id)
+      .then((result) => {
+        if (!cancelled) setAnalyses(result);
+      })
+      .catch((err) => {
+        console.error('Error loading cash flow analyses:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load cash flow analyses", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [application.id, toast]);
+
+  const latest = analyses[0];
+
+  // Start from the last analyzed terms, otherwise from the request and the product catalog
+  const product = getProduct(application.loan_type);
+  const currentTerms: CashFlowTerms = terms ?? (latest?.proposed_amount
+    ? {
+        amount: latest.proposed_amount,
+        annualRate: latest.proposed_rate ?? 0,
+        termMonths: latest.proposed_term_months ?? 120,
+        interestOnlyMonths: latest.proposed_interest_only_months ?? 0,
+      }
+    : {
+        amount: Number(application.amount_requested) || 0,
+        annualRate: product?.interest_rate_min ?? 0,
+        termMonths: termOptionMonths(product?.term_options[0]),
+        interestOnlyMonths: 0,
+      });
+
+  const preview = calculateAmortization({
+    principal: currentTerms.amount,
+    annualRate: currentTerms.annualRate,
+    termMonths: currentTerms.termMonths,
+    interestOnlyMonths: currentTerms.interestOnlyMonths,
+  });
+
+  const handleAnalyze = async () => {
+    setRunning(true);
+    try {
+      const analysis = await cashFlowService.analyze({ applicationId: application.id, terms: currentTerms, months });
+      setAnalyses((prev) => [analysis, ...prev]);
+      toast({
+        title: "Cash flow analyzed",
+        description: analysis.dscr === null
+          ? `${analysis.month_count} months analyzed`
+          : `${analysis.month_count} months analyzed · DSCR ${analysis.dscr.toFixed(2)}x`,
+      });
+      if (analysis.underwriting) onAnalyzed?.(analysis.underwriting);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to analyze cash flow",
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  // More leaving the accounts for loans than the loans on file account for
+  const undisclosedDebt = latest && latest.observed_debt_payments > latest.existing_debt_service + 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="w-5 h-5" />
+          Cash Flow Analysis
+        </CardTitle>
+        <CardDescription>
+          From the borrower's linked bank accounts and parsed statements. Coverage is net operating cash flow over existing loan payments plus the proposed payment.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <div>
+            <Label htmlFor="cf-amount">Loan amount</Label>
+            <Input
+              id="cf-amount"
+              type="number"
+              min={0}
+              value={currentTerms.amount}
+              onChange={(e) => setTerms({ ...currentTerms, amount: Number(e.target.value) })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="cf-rate">Interest rate (%)</Label>
+            <Input
+              id="cf-rate"
+              type="number"
+              step="0.01"
+              min={0}
+              value={currentTerms.annualRate}
+              onChange={(e) => setTerms({ ...currentTerms, annualRate: Number(e.target.value) })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="cf-term">Term (months)</Label>
+            <Input
+              id="cf-term"
+              type="number"
+              min={1}
+              value={currentTerms.termMonths}
+              onChange={(e) => setTerms({ ...currentTerms, termMonths: parseInt(e.target.value, 10) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="cf-io">Interest-only (months)</Label>
+            <Input
+              id="cf-io"
+              type="number"
+              min={0}
+              value={currentTerms.interestOnlyMonths}
+              onChange={(e) => setTerms({ ...currentTerms, interestOnlyMonths: parseInt(e.target.value, 10) || 0 })}
+            />
+          </div>
+          <div>
+            <Label>History</Label>
+            <Select value={String(months)} onValueChange={(value) => setMonths(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HISTORY_MONTHS.map((m) => (
+                  <SelectItem key={m} value={String(m)}>Last {m} months</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            {preview
+              ? `Proposed payment ${formatCurrency(preview.result.monthlyPayment)}/month`
+              : 'Enter the proposed terms'}
+          </p>
+          <Button onClick={handleAnalyze} disabled={running || !preview || currentTerms.amount <= 0}>
+            {running ? 'Analyzing...' : 'Run analysis'}
+          </Button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading cash flow analyses...</p>
+        ) : !latest ? (
+          <p className="text-sm text-muted-foreground">
+            No analysis yet. The borrower must link their bank accounts before cash flow can be analyzed.
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground">
+              {monthLabel(latest.period_start.slice(0, 7))} – {monthLabel(latest.period_end.slice(0, 7))} ·{' '}
+              {latest.transaction_count} transactions · analyzed {new Date(latest.created_at).toLocaleString()}
+            </p>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              <div className="p-3 rounded-lg border">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">DSCR</p>
+                <p className={`text-2xl font-bold ${dscrColor(latest.dscr)}`}>
+                  {latest.dscr === null ? '—' : `${latest.dscr.toFixed(2)}x`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(latest.existing_debt_service)} existing + {formatCurrency(latest.proposed_payment)} proposed
+                </p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">Avg monthly revenue</p>
+                <p className="text-2xl font-bold">{formatCurrency(latest.avg_monthly_revenue)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {latest.revenue_trend_pct === null
+                    ? 'Trend needs 6 months of history'
+                    : `${latest.revenue_trend_pct > 0 ? '+' : ''}${latest.revenue_trend_pct.toFixed(1)}% last 3 months vs prior 3`}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">Net operating cash flow</p>
+                <p className="text-2xl font-bold">{formatCurrency(latest.avg_monthly_net_cash_flow)}</p>
+                <p className="text-xs text-muted-foreground">
+                  per month after {formatCurrency(latest.avg_monthly_operating_expenses)} expenses
+                </p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">Avg daily balance</p>
+                <p className="text-2xl font-bold">{formatCurrency(latest.avg_daily_balance)}</p>
+                <p className="text-xs text-muted-foreground">Low {formatCurrency(latest.min_daily_balance)}</p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">NSF / overdrafts</p>
+                <p className={`text-2xl font-bold ${latest.nsf_count + latest.overdraft_count > 0 ? 'text-red-600' : ''}`}>
+                  {latest.nsf_count} / {latest.overdraft_count}
+                </p>
+                <p className="text-xs text-muted-foreground">{latest.negative_balance_days} days with a negative balance</p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">Loan payments seen</p>
+                <p className="text-2xl font-bold">{formatCurrency(latest.observed_debt_payments)}</p>
+                <p className="text-xs text-muted-foreground">per month in the bank data</p>
+              </div>
+            </div>
+
+            {undisclosedDebt && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Loan payments in the bank data exceed the {formatCurrency(latest.existing_debt_service)} monthly on the
+                  borrower's existing loans. There may be debt that has not been disclosed.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                  <TableHead className="text-right">Expenses</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead className="text-right">Loan payments</TableHead>
+                  <TableHead className="text-right">Avg balance</TableHead>
+                  <TableHead className="text-right">NSF / OD</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...latest.months].reverse().map((m) => (
+                  <TableRow key={m.month}>
+                    <TableCell>{monthLabel(m.month)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(m.revenue)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(m.operating_expenses)}</TableCell>
+                    <TableCell className={`text-right font-medium ${m.net_cash_flow < 0 ? 'text-red-600' : ''}`}>
+                      {formatCurrency(m.net_cash_flow)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(m.debt_payments)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(m.average_balance)}</TableCell>
+                    <TableCell className="text-right">{m.nsf_count} / {m.overdraft_count}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
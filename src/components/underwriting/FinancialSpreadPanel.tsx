@@ -0,0 +1,581 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import {
+  financialSpreadService,
+  type FinancialSpread,
+  type GlobalCashFlowInputs,
+  type PeriodRatios,
+  type SelfReportedField,
+  type SpreadHistory,
+  type SpreadLineKey,
+  type SpreadPeriod,
+  type SpreadVariance,
+} from '@/services/financialSpreadService';
+import { FileSpreadsheet, Plus, Trash2 } from 'lucide-react';
+
+const MAX_PERIODS = 6;
+
+// Indented lines are broken out of operating expenses for the add-backs
+const INCOME_STATEMENT: { key: SpreadLineKey; label: string; indent?: boolean }[] = [
+  { key: 'revenue', label: 'Revenue' },
+  { key: 'cost_of_goods_sold', label: 'Cost of goods sold' },
+  { key: 'operating_expenses', label: 'Operating expenses' },
+  { key: 'officer_compensation', label: 'Officer compensation', indent: true },
+  { key: 'depreciation_amortization', label: 'Depreciation & amortization', indent: true },
+  { key: 'interest_expense', label: 'Interest', indent: true },
+  { key: 'other_income', label: 'Other income, net' },
+  { key: 'income_taxes', label: 'Income taxes' },
+  { key: 'net_income', label: 'Net income' },
+];
+
+const BALANCE_SHEET: { key: SpreadLineKey; label: string; indent?: boolean }[] = [
+  { key: 'cash', label: 'Cash' },
+  { key: 'accounts_receivable', label: 'Accounts receivable' },
+  { key: 'inventory', label: 'Inventory' },
+  { key: 'current_assets', label: 'Total current assets' },
+  { key: 'total_assets', label: 'Total assets' },
+  { key: 'current_liabilities', label: 'Total current liabilities' },
+  { key: 'funded_debt', label: 'Loans and notes payable' },
+  { key: 'total_liabilities', label: 'Total liabilities' },
+  { key: 'equity', label: 'Equity' },
+];
+
+const GLOBAL_INPUTS: { key: keyof GlobalCashFlowInputs; label: string }[] = [
+  { key: 'owner_income', label: "Owners' outside income" },
+  { key: 'owner_living_expenses', label: "Owners' living expenses" },
+  { key: 'personal_debt_service', label: 'Personal debt payments' },
+  { key: 'business_debt_service', label: 'Existing business debt payments' },
+  { key: 'proposed_debt_service', label: 'Proposed loan payments' },
+];
+
+const SELF_REPORTED_LABELS: Record<SelfReportedField, string> = {
+  annual_revenue: 'Annual revenue',
+  net_income: 'Net income',
+  current_debt: 'Existing debt',
+};
+
+const formatCurrency = (amount: number | null | undefined) =>
+  amount === null || amount === undefined
+    ? '—'
+    : new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
+const formatTimes = (value: number | null) => (value === null ? '—' : `${value.toFixed(2)}x`);
+
+const formatPct = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`);
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+// Thresholds match the DSCR bands of the seeded underwriting policy
+const dscrColor = (dscr: number | null) => {
+  if (dscr === null) return '';
+  if (dscr >= 1.25) return 'text-green-600';
+  if (dscr >= 1) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const RATIO_ROWS: { label: string; format: (r: PeriodRatios) => string }[] = [
+  { label: 'Net income', format: (r) => formatCurrency(r.net_income) },
+  { label: 'Gross margin', format: (r) => formatPct(r.gross_margin_pct) },
+  { label: 'EBITDA', format: (r) => formatCurrency(r.ebitda) },
+  { label: 'EBITDA margin', format: (r) => formatPct(r.ebitda_margin_pct) },
+  { label: 'Net margin', format: (r) => formatPct(r.net_margin_pct) },
+  { label: 'Revenue growth', format: (r) => formatPct(r.revenue_growth_pct) },
+  { label: 'Current ratio', format: (r) => formatTimes(r.current_ratio) },
+  { label: 'Working capital', format: (r) => formatCurrency(r.working_capital) },
+  { label: 'Debt to equity', format: (r) => formatTimes(r.debt_to_equity) },
+  { label: 'Debt to EBITDA', format: (r) => formatTimes(r.debt_to_ebitda) },
+];
+
+const VarianceBadge = ({ variance }: { variance: SpreadVariance }) => {
+  if (variance.reported === null || variance.spread === null) return null;
+  if (variance.difference_pct === null) {
+    return variance.severity ? <Badge variant="destructive">Not reported</Badge> : <Badge variant="secondary">Matches</Badge>;
+  }
+  const label = `${variance.difference_pct > 0 ? '+' : ''}${variance.difference_pct.toFixed(1)}%`;
+  if (variance.severity === 'high') return <Badge variant="destructive">{label}</Badge>;
+  if (variance.severity === 'medium') return <Badge variant="outline" className="text-yellow-700 border-yellow-400">{label}</Badge>;
+  return <Badge variant="secondary">{label}</Badge>;
+};
+
+interface SpreadDraft {
+  periods: SpreadPeriod[];
+  globalInputs: GlobalCashFlowInputs;
+  source: 'manual' | 'import';
+  documentIds: string[];
+  notes: string;
+}
+
+interface FinancialSpreadPanelProps {
+  application: { id: string; loan_details: Record<string, unknown> | null };
+}
+
+const nextPeriod = (periods: SpreadPeriod[]): SpreadPeriod => {
+  const year = periods.length > 0
+    ? Number(periods[periods.length - 1].period_end.slice(0, 4)) + 1
+    : new Date().getFullYear() - 1;
+  return { label: `FY ${year}`, period_end: `${year}-12-31`, months: 12, lines: {} };
+};
+
+// Imported periods replace the figures they cover; periods ending on other dates are kept
+const mergePeriods = (current: SpreadPeriod[], imported: SpreadPeriod[]) => {
+  const byEnd = new Map(current.map((p) => [p.period_end, p]));
+  for (const period of imported) {
+    const existing = byEnd.get(period.period_end);
+    byEnd.set(period.period_end, existing ? { ...existing, lines: { ...existing.lines, ...period.lines } } : period);
+  }
+  return [...byEnd.values()].sort((a, b) => a.period_end.localeCompare(b.period_end)).slice(-MAX_PERIODS);
+};
+
+/** Underwriter spread of the borrower's income statements and balance sheets, against what the application reported. */
+export const FinancialSpreadPanel = ({ application }: FinancialSpreadPanelProps) => {
+  const { toast } = useToast();
+  const [history, setHistory] = useState<SpreadHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [viewedId, setViewedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SpreadDraft | null>(null);
+  const [documentId, setDocumentId] = useState<string>('');
+  const [importing, setImporting] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    financialSpreadService
+      .history(application.id)
+      .then((result) => {
+        if (!cancelled) setHistory(result);
+      })
+      .catch((err) => {
+        console.error('Error loading financial spreads:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load financial spreads", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [application.id, toast]);
+
+  const spreads = history?.spreads ?? [];
+  const latest = spreads[0];
+  const viewed: FinancialSpread | undefined = spreads.find((s) => s.id === viewedId) ?? latest;
+
+  // Debt service defaults to the latest cash flow analysis until a spread records it
+  const defaultGlobalInputs = (): GlobalCashFlowInputs => {
+    if (latest) {
+      const { owner_income, owner_living_expenses, personal_debt_service, business_debt_service, proposed_debt_service } =
+        latest.global_cash_flow;
+      return { owner_income, owner_living_expenses, personal_debt_service, business_debt_service, proposed_debt_service };
+    }
+    const cashFlow = (application.loan_details?.cash_flow ?? null) as
+      | { existing_debt_service?: number | string; proposed_payment?: number | string }
+      | null;
+    return {
+      owner_income: 0,
+      owner_living_expenses: 0,
+      personal_debt_service: 0,
+      business_debt_service: Math.round((Number(cashFlow?.existing_debt_service) || 0) * 12),
+      proposed_debt_service: Math.round((Number(cashFlow?.proposed_payment) || 0) * 12),
+    };
+  };
+
+  const startDraft = (): SpreadDraft => ({
+    periods: latest ? latest.periods.map((p) => ({ ...p, lines: { ...p.lines } })) : [nextPeriod([])],
+    globalInputs: defaultGlobalInputs(),
+    source: 'manual',
+    documentIds: [],
+    notes: '',
+  });
+
+  const updatePeriod = (index: number, change: Partial<SpreadPeriod>) =>
+    setDraft((prev) => prev && { ...prev, periods: prev.periods.map((p, i) => (i === index ? { ...p, ...change } : p)) });
+
+  const updateLine = (index: number, key: SpreadLineKey, value: string) =>
+    setDraft((prev) => prev && {
+      ...prev,
+      periods: prev.periods.map((p, i) =>
+        i === index ? { ...p, lines: { ...p.lines, [key]: value === '' ? null : Number(value) } } : p),
+    });
+
+  const handleImport = async () => {
+    if (!documentId) return;
+    setImporting(true);
+    try {
+      const imported = await financialSpreadService.importDocument(application.id, documentId);
+      // A new draft starts from the latest version, without the blank period a fresh spread opens with
+      const base = draft ?? { ...startDraft(), periods: latest?.periods ?? [] };
+      setDraft({
+        ...base,
+        periods: mergePeriods(base.periods, imported),
+        source: 'import',
+        documentIds: base.documentIds.includes(documentId) ? base.documentIds : [...base.documentIds, documentId],
+      });
+      toast({
+        title: "Export imported",
+        description: `${imported.length} period${imported.length === 1 ? '' : 's'} read. Review the figures and save the spread.`,
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to import the export",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const spread = await financialSpreadService.save({
+        applicationId: application.id,
+        periods: draft.periods,
+        globalInputs: draft.globalInputs,
+        source: draft.source,
+        documentIds: draft.documentIds,
+        notes: draft.notes || undefined,
+      });
+      setHistory((prev) => prev && { ...prev, spreads: [spread, ...prev.spreads] });
+      setViewedId(null);
+      setDraft(null);
+      const flagged = spread.variances.filter((v) => v.severity !== null).length;
+      toast({
+        title: `Spread version ${spread.version} saved`,
+        description: flagged > 0
+          ? `${flagged} figure${flagged === 1 ? '' : 's'} differ from the application`
+          : 'The spread is in line with the application',
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to save the spread",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const variances: SpreadVariance[] = viewed?.variances ?? (Object.keys(SELF_REPORTED_LABELS) as SelfReportedField[]).map((field) => ({
+    field,
+    reported: history?.self_reported[field] ?? null,
+    spread: null,
+    difference_pct: null,
+    severity: null,
+  }));
+
+  const lineRows = (periods: SpreadPeriod[], editable: boolean) =>
+    [{ title: 'Income statement', lines: INCOME_STATEMENT }, { title: 'Balance sheet', lines: BALANCE_SHEET }].flatMap((section) => [
+      <TableRow key={section.title}>
+        <TableCell colSpan={periods.length + 1} className="font-semibold bg-muted/50">{section.title}</TableCell>
+      </TableRow>,
+      ...section.lines.map(({ key, label, indent }) => (
+        <TableRow key={key}>
+          <TableCell className={`text-sm ${indent ? 'pl-8 text-muted-foreground' : ''}`}>{label}</TableCell>
+          {periods.map((period, index) => (
+            <TableCell key={period.period_end + index} className="text-right">
+              {editable ? (
+                <Input
+                  type="number"
+                  className="h-8 text-right min-w-[7rem]"
+                  value={period.lines[key] ?? ''}
+                  onChange={(e) => updateLine(index, key, e.target.value)}
+                />
+              ) : (
+                formatCurrency(period.lines[key])
+              )}
+            </TableCell>
+          ))}
+        </TableRow>
+      )),
+    ]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="w-5 h-5" />
+          Financial Spread
+        </CardTitle>
+        <CardDescription>
+          Income statements and balance sheets by fiscal period, keyed in or imported from the borrower's QuickBooks or
+          Xero exports. Each save is a new version; variances compare the latest period with the application.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading financial spreads...</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Figure</TableHead>
+                  <TableHead className="text-right">Self-reported</TableHead>
+                  <TableHead className="text-right">Spread</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {variances.map((variance) => (
+                  <TableRow key={variance.field}>
+                    <TableCell>{SELF_REPORTED_LABELS[variance.field]}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(variance.reported)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(variance.spread)}</TableCell>
+                    <TableCell className="text-right"><VarianceBadge variance={variance} /></TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex flex-wrap items-end justify-between gap-3">
+              {spreads.length > 0 && !draft ? (
+                <div className="w-56">
+                  <Label>Version</Label>
+                  <Select value={viewed?.id ?? ''} onValueChange={setViewedId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {spreads.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>
+                          v{s.version} · {new Date(s.created_at).toLocaleDateString()}
+                          {s.source === 'import' ? ' · imported' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div />
+              )}
+              <div className="flex flex-wrap items-end gap-2">
+                {history && history.documents.length > 0 && (
+                  <>
+                    <div className="w-64">
+                      <Label>P&L and balance sheet uploads</Label>
+                      <Select value={documentId} onValueChange={setDocumentId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose an export" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {history.documents.map((d) => (
+                            <SelectItem key={d.id} value={d.id}>{d.file_name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button variant="outline" onClick={handleImport} disabled={!documentId || importing}>
+                      {importing ? 'Importing...' : 'Import'}
+                    </Button>
+                  </>
+                )}
+                {!draft && (
+                  <Button onClick={() => setDraft(startDraft())}>
+                    {latest ? 'Revise spread' : 'Start spread'}
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {draft ? (
+              <div className="space-y-4">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="min-w-[14rem]">Period</TableHead>
+                        {draft.periods.map((period, index) => (
+                          <TableHead key={index} className="align-top py-2 space-y-1">
+                            <div className="flex items-center gap-1">
+                              <Input
+                                className="h-8"
+                                value={period.label}
+                                maxLength={40}
+                                onChange={(e) => updatePeriod(index, { label: e.target.value })}
+                              />
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8 shrink-0"
+                                aria-label={`Remove ${period.label}`}
+                                onClick={() =>
+                                  setDraft((prev) => prev && { ...prev, periods: prev.periods.filter((_, i) => i !== index) })}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                            <Input
+                              type="date"
+                              className="h-8"
+                              value={period.period_end}
+                              onChange={(e) => updatePeriod(index, { period_end: e.target.value })}
+                            />
+                            <div className="flex items-center gap-1 text-xs font-normal">
+                              <Input
+                                type="number"
+                                className="h-8 w-16"
+                                min={1}
+                                max={12}
+                                value={period.months}
+                                onChange={(e) => updatePeriod(index, { months: parseInt(e.target.value, 10) || 12 })}
+                              />
+                              months
+                            </div>
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>{lineRows(draft.periods, true)}</TableBody>
+                  </Table>
+                </div>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={draft.periods.length >= MAX_PERIODS}
+                  onClick={() => setDraft((prev) => prev && { ...prev, periods: [...prev.periods, nextPeriod(prev.periods)] })}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add period
+                </Button>
+
+                <div>
+                  <p className="text-sm font-medium mb-2">Global cash flow (per year)</p>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                    {GLOBAL_INPUTS.map(({ key, label }) => (
+                      <div key={key}>
+                        <Label htmlFor={`spread-${key}`}>{label}</Label>
+                        <Input
+                          id={`spread-${key}`}
+                          type="number"
+                          min={0}
+                          value={draft.globalInputs[key]}
+                          onChange={(e) =>
+                            setDraft((prev) => prev && {
+                              ...prev,
+                              globalInputs: { ...prev.globalInputs, [key]: Number(e.target.value) || 0 },
+                            })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="spread-notes">Notes</Label>
+                  <Textarea
+                    id="spread-notes"
+                    maxLength={2000}
+                    value={draft.notes}
+                    onChange={(e) => setDraft((prev) => prev && { ...prev, notes: e.target.value })}
+                    placeholder="Adjustments, add-backs or anything the next reviewer should know"
+                  />
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setDraft(null)} disabled={saving}>Cancel</Button>
+                  <Button onClick={handleSave} disabled={saving || draft.periods.length === 0}>
+                    {saving ? 'Saving...' : `Save as version ${(latest?.version ?? 0) + 1}`}
+                  </Button>
+                </div>
+              </div>
+            ) : !viewed ? (
+              <p className="text-sm text-muted-foreground">
+                No spread yet. Start one by hand or import the borrower's P&L and balance sheet exports.
+              </p>
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground">
+                  Version {viewed.version} · saved {new Date(viewed.created_at).toLocaleString()}
+                  {viewed.source === 'import' ? ' · imported from the borrower\'s exports' : ' · keyed in'}
+                </p>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div className="p-3 rounded-lg border">
+                    <p className="text-xs text-muted-foreground uppercase tracking-wide">Global DSCR</p>
+                    <p className={`text-2xl font-bold ${dscrColor(viewed.global_cash_flow.global_dscr)}`}>
+                      {formatTimes(viewed.global_cash_flow.global_dscr)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(viewed.global_cash_flow.global_cash_flow)} over {formatCurrency(viewed.global_cash_flow.global_debt_service)}
+                    </p>
+                  </div>
+                  <div className="p-3 rounded-lg border">
+                    <p className="text-xs text-muted-foreground uppercase tracking-wide">Business DSCR</p>
+                    <p className={`text-2xl font-bold ${dscrColor(viewed.global_cash_flow.business_dscr)}`}>
+                      {formatTimes(viewed.global_cash_flow.business_dscr)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(viewed.global_cash_flow.business_cash_flow)} cash flow
+                      {viewed.global_cash_flow.basis_period_end && ` to ${formatDate(viewed.global_cash_flow.basis_period_end)}`}
+                    </p>
+                  </div>
+                  <div className="p-3 rounded-lg border">
+                    <p className="text-xs text-muted-foreground uppercase tracking-wide">Owners</p>
+                    <p className="text-2xl font-bold">{formatCurrency(viewed.global_cash_flow.owner_income)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      income, less {formatCurrency(viewed.global_cash_flow.owner_living_expenses)} living expenses
+                    </p>
+                  </div>
+                  <div className="p-3 rounded-lg border">
+                    <p className="text-xs text-muted-foreground uppercase tracking-wide">Debt service</p>
+                    <p className="text-2xl font-bold">{formatCurrency(viewed.global_cash_flow.global_debt_service)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(viewed.global_cash_flow.proposed_debt_service)} proposed ·{' '}
+                      {formatCurrency(viewed.global_cash_flow.personal_debt_service)} personal
+                    </p>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead />
+                        {viewed.periods.map((period) => (
+                          <TableHead key={period.period_end} className="text-right">
+                            {period.label}
+                            <span className="block text-xs font-normal">
+                              {formatDate(period.period_end)}{period.months < 12 && ` · ${period.months} mo`}
+                            </span>
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lineRows(viewed.periods, false)}
+                      <TableRow>
+                        <TableCell colSpan={viewed.periods.length + 1} className="font-semibold bg-muted/50">Ratios</TableCell>
+                      </TableRow>
+                      {RATIO_ROWS.map(({ label, format }) => (
+                        <TableRow key={label}>
+                          <TableCell className="text-sm">{label}</TableCell>
+                          {viewed.ratios.map((r) => (
+                            <TableCell key={r.period_end} className="text-right">{format(r)}</TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {viewed.notes && <p className="text-sm whitespace-pre-wrap">{viewed.notes}</p>}
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
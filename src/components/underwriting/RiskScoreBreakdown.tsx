@@ -0,0 +1,115 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import type { UnderwritingResult } from '@/services/loanApplicationService';
+
+interface RiskScoreBreakdownProps {
+  underwriting?: UnderwritingResult | null;
+  /** Legacy score for applications scored before the rules engine existed */
+  legacyRiskScore?: number | null;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString();
+  return String(value);
+};
+
+export const RiskScoreBreakdown = ({ underwriting, legacyRiskScore }: RiskScoreBreakdownProps) => {
+  if (!underwriting) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="w-5 h-5" />
+            Risk Score
+          </CardTitle>
+          <CardDescription>
+            {legacyRiskScore !== null && legacyRiskScore !== undefined
+              ? `Scored ${legacyRiskScore} before versioned underwriting rules were introduced; no factor breakdown is available.`
+              : 'This application has not been scored.'}
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const scoreVariant = underwriting.knockouts.length > 0 || underwriting.risk_score > underwriting.manual_review_min_score
+    ? 'destructive' as const
+    : 'secondary' as const;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Gauge className="w-5 h-5" />
+            Risk Score Breakdown
+          </span>
+          <Badge variant={scoreVariant}>{underwriting.risk_score} / 100</Badge>
+        </CardTitle>
+        <CardDescription>
+          {underwriting.rule_set_id
+            ? `Rule set "${underwriting.rule_set_loan_type}" v${underwriting.rule_set_version}`
+            : 'Built-in fallback policy'}
+          {' · '}scored {new Date(underwriting.scored_at).toLocaleString()}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {underwriting.knockouts.length > 0 && (
+          <div className="rounded-lg border border-destructive/40 bg-destructive/5 p-3 space-y-1">
+            <p className="text-sm font-semibold flex items-center gap-2 text-destructive">
+              <AlertTriangle className="w-4 h-4" />
+              Knock-out criteria triggered
+            </p>
+            {underwriting.knockouts.map((k) => (
+              <p key={k.factor_key} className="text-sm">
+                {k.label} ({formatValue(k.value)}): {k.reason}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Factor</th>
+                <th className="py-2 pr-4 font-medium">Value</th>
+                <th className="py-2 pr-4 font-medium text-right">Points</th>
+                <th className="py-2 pr-4 font-medium text-right">Weight</th>
+                <th className="py-2 font-medium text-right">Contribution</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b">
+                <td className="py-2 pr-4" colSpan={4}>Base score</td>
+                <td className="py-2 text-right font-medium">{underwriting.base_score}</td>
+              </tr>
+              {underwriting.factors.map((f) => (
+                <tr key={f.factor_key} className="border-b last:border-0">
+                  <td className="py-2 pr-4">
+                    {f.label}
+                    {f.reason && <p className="text-xs text-muted-foreground">{f.reason}</p>}
+                  </td>
+                  <td className="py-2 pr-4">{formatValue(f.value)}</td>
+                  <td className="py-2 pr-4 text-right">{f.points}</td>
+                  <td className="py-2 pr-4 text-right">×{f.weight}</td>
+                  <td className={`py-2 text-right font-medium ${f.contribution > 0 ? 'text-destructive' : f.contribution < 0 ? 'text-green-600' : ''}`}>
+                    {f.contribution > 0 ? `+${f.contribution}` : f.contribution}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Auto-approval below {underwriting.auto_approval_max_score}; manual review above {underwriting.manual_review_min_score}.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RiskScoreBreakdown;
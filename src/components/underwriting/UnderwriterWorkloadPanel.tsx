@@ -0,0 +1,398 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
+import {
+  assignmentService,
+  ASSIGNMENT_METHOD_LABELS,
+  type AssignmentRoutingSettings,
+  type AssignmentStrategy,
+  type UnderwriterSettingsInput,
+  type UnderwriterWorkload,
+} from '@/services/assignmentService';
+import { Edit, Gauge, Plane, Shuffle, TimerReset } from 'lucide-react';
+
+const STRATEGIES: AssignmentStrategy[] = ['least_loaded', 'round_robin', 'skill_based'];
+
+const fetchState = () => Promise.all([assignmentService.getWorkload(), assignmentService.getRoutingSettings()]);
+
+const formatBand = (w: UnderwriterWorkload) => {
+  if (w.min_amount == null && w.max_amount == null) return 'Any amount';
+  if (w.max_amount == null) return `$${Number(w.min_amount).toLocaleString()}+`;
+  return `$${Number(w.min_amount ?? 0).toLocaleString()} – $${Number(w.max_amount).toLocaleString()}`;
+};
+
+const toNumberOrNull = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+interface UnderwriterWorkloadPanelProps {
+  /** Called after routing changes assignments so the page can reload them */
+  onAssignmentsChanged: () => void;
+}
+
+export const UnderwriterWorkloadPanel = ({ onAssignmentsChanged }: UnderwriterWorkloadPanelProps) => {
+  const { toast } = useToast();
+  const { activeProducts, getLabel } = useLoanProducts();
+  const [workload, setWorkload] = useState<UnderwriterWorkload[]>([]);
+  const [routing, setRouting] = useState<AssignmentRoutingSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [editing, setEditing] = useState<UnderwriterWorkload | null>(null);
+  const [form, setForm] = useState<UnderwriterSettingsInput | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchState()
+      .then(([rows, settings]) => {
+        if (cancelled) return;
+        setWorkload(rows);
+        setRouting(settings);
+      })
+      .catch((err) => {
+        console.error('Error loading underwriter workload:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load underwriter workload", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [toast]);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      const [rows, settings] = await fetchState();
+      setWorkload(rows);
+      setRouting(settings);
+    } catch (err) {
+      console.error('Error loading underwriter workload:', err);
+      toast({ title: "Error", description: "Failed to load underwriter workload", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveRouting = async () => {
+    if (!routing) return;
+    if (!Number.isFinite(routing.sla_hours) || routing.sla_hours < 1) {
+      toast({ title: "Validation Error", description: "The SLA must be at least one hour", variant: "destructive" });
+      return;
+    }
+    setWorking(true);
+    try {
+      await assignmentService.updateRoutingSettings(routing);
+      toast({ title: "Saved", description: "Assignment routing updated" });
+    } catch (err) {
+      console.error('Error saving assignment routing:', err);
+      toast({ title: "Error", description: "Failed to save assignment routing", variant: "destructive" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const runRouting = async (action: 'pending' | 'stale') => {
+    setWorking(true);
+    try {
+      if (action === 'pending') {
+        const { assigned, unassigned } = await assignmentService.autoAssignPending();
+        toast({
+          title: "Auto-assignment complete",
+          description: `${assigned} assigned${unassigned ? `, ${unassigned} left with no available underwriter` : ''}`,
+        });
+      } else {
+        const reassigned = await assignmentService.reassignStale();
+        toast({ title: "SLA sweep complete", description: `${reassigned} application(s) reassigned` });
+      }
+      onAssignmentsChanged();
+      await refresh();
+    } catch (err) {
+      console.error('Error running assignment routing:', err);
+      toast({ title: "Error", description: "Failed to run assignment routing", variant: "destructive" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const openEdit = (w: UnderwriterWorkload) => {
+    setEditing(w);
+    setForm({
+      max_open_assignments: w.max_open_assignments,
+      out_of_office: w.out_of_office,
+      out_of_office_until: w.out_of_office_until,
+      auto_assign: w.auto_assign,
+      loan_types: w.loan_types,
+      min_amount: w.min_amount,
+      max_amount: w.max_amount,
+    });
+  };
+
+  const handleSaveUnderwriter = async () => {
+    if (!editing || !form) return;
+    if (!Number.isInteger(form.max_open_assignments) || form.max_open_assignments < 1) {
+      toast({ title: "Validation Error", description: "Capacity must be a whole number of at least 1", variant: "destructive" });
+      return;
+    }
+    if (form.min_amount != null && form.max_amount != null && form.min_amount > form.max_amount) {
+      toast({ title: "Validation Error", description: "The minimum amount exceeds the maximum", variant: "destructive" });
+      return;
+    }
+    setWorking(true);
+    try {
+      await assignmentService.updateUnderwriterSettings(editing.user_id, form);
+      toast({ title: "Saved", description: "Underwriter settings updated" });
+      setEditing(null);
+      await refresh();
+    } catch (err) {
+      console.error('Error saving underwriter settings:', err);
+      toast({ title: "Error", description: "Failed to save underwriter settings", variant: "destructive" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleLoanType = (key: string, checked: boolean) => {
+    if (!form) return;
+    setForm({ ...form, loan_types: checked ? [...form.loan_types, key] : form.loan_types.filter((t) => t !== key) });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Gauge className="w-5 h-5" />
+                Underwriter Workload
+              </CardTitle>
+              <CardDescription>
+                Capacity, availability and routing skills used when applications are assigned automatically
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => runRouting('stale')} disabled={loading || working}>
+                <TimerReset className="w-4 h-4 mr-2" />
+                Reassign overdue
+              </Button>
+              <Button onClick={() => runRouting('pending')} disabled={loading || working}>
+                <Shuffle className="w-4 h-4 mr-2" />
+                Auto-assign pending
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {routing && (
+            <div className="flex flex-wrap items-end gap-4 p-4 rounded-lg border">
+              <div>
+                <Label>Strategy</Label>
+                <Select
+                  value={routing.strategy}
+                  onValueChange={(value) => setRouting({ ...routing, strategy: value as AssignmentStrategy })}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STRATEGIES.map((s) => (
+                      <SelectItem key={s} value={s}>{ASSIGNMENT_METHOD_LABELS[s]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="sla-hours">SLA (hours)</Label>
+                <Input
+                  id="sla-hours"
+                  type="number"
+                  min={1}
+                  className="w-[120px]"
+                  value={routing.sla_hours}
+                  onChange={(e) => setRouting({ ...routing, sla_hours: Number(e.target.value) })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="auto-assign-on-submit"
+                  checked={routing.auto_assign_on_submit}
+                  onCheckedChange={(checked) => setRouting({ ...routing, auto_assign_on_submit: checked })}
+                />
+                <Label htmlFor="auto-assign-on-submit">Assign on submission</Label>
+              </div>
+              <Button variant="outline" onClick={handleSaveRouting} disabled={working}>
+                Save routing
+              </Button>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading workload...</div>
+          ) : workload.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No underwriters are available for routing</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Underwriter</TableHead>
+                  <TableHead>Open / Capacity</TableHead>
+                  <TableHead>Overdue</TableHead>
+                  <TableHead>Products</TableHead>
+                  <TableHead>Amount Band</TableHead>
+                  <TableHead>Availability</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {workload.map((w) => (
+                  <TableRow key={w.user_id}>
+                    <TableCell className="font-medium">
+                      {w.first_name} {w.last_name}
+                      <p className="text-xs text-muted-foreground">{w.role.replace('_', ' ')}</p>
+                    </TableCell>
+                    <TableCell>
+                      <span className={w.open_assignments >= w.max_open_assignments ? 'text-destructive font-medium' : ''}>
+                        {w.open_assignments} / {w.max_open_assignments}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {w.overdue_assignments > 0 ? <Badge variant="destructive">{w.overdue_assignments}</Badge> : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm max-w-[220px]">
+                      {w.loan_types.length === 0 ? 'Any product' : w.loan_types.map((t) => getLabel(t)).join(', ')}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatBand(w)}</TableCell>
+                    <TableCell>
+                      {w.out_of_office ? (
+                        <Badge variant="secondary">
+                          <Plane className="w-3 h-3 mr-1" />
+                          Out{w.out_of_office_until ? ` until ${new Date(w.out_of_office_until).toLocaleDateString()}` : ''}
+                        </Badge>
+                      ) : w.auto_assign ? (
+                        <Badge variant="outline">Available</Badge>
+                      ) : (
+                        <Badge variant="outline">Manual only</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => openEdit(w)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Underwriter Settings</DialogTitle>
+            <DialogDescription>
+              {editing?.first_name} {editing?.last_name} — limits and skills used by auto-assignment
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4 py-2">
+              <div>
+                <Label htmlFor="capacity">Maximum open applications</Label>
+                <Input
+                  id="capacity"
+                  type="number"
+                  min={1}
+                  value={form.max_open_assignments}
+                  onChange={(e) => setForm({ ...form, max_open_assignments: Number(e.target.value) })}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="auto-assign"
+                  checked={form.auto_assign}
+                  onCheckedChange={(checked) => setForm({ ...form, auto_assign: checked })}
+                />
+                <Label htmlFor="auto-assign">Receive automatic assignments</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="out-of-office"
+                  checked={form.out_of_office}
+                  onCheckedChange={(checked) => setForm({ ...form, out_of_office: checked })}
+                />
+                <Label htmlFor="out-of-office">Out of office</Label>
+              </div>
+              {form.out_of_office && (
+                <div>
+                  <Label htmlFor="out-until">Back on (optional)</Label>
+                  <Input
+                    id="out-until"
+                    type="date"
+                    value={form.out_of_office_until ? form.out_of_office_until.slice(0, 10) : ''}
+                    onChange={(e) =>
+                      setForm({ ...form, out_of_office_until: e.target.value ? new Date(e.target.value).toISOString() : null })
+                    }
+                  />
+                </div>
+              )}
+              <div>
+                <Label>Loan products (none selected = any)</Label>
+                <div className="grid grid-cols-2 gap-2 mt-2 max-h-40 overflow-y-auto">
+                  {activeProducts.map((product) => (
+                    <label key={product.key} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.loan_types.includes(product.key)}
+                        onCheckedChange={(checked) => toggleLoanType(product.key, checked === true)}
+                      />
+                      {product.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="min-amount">Minimum amount</Label>
+                  <Input
+                    id="min-amount"
+                    type="number"
+                    min={0}
+                    value={form.min_amount ?? ''}
+                    onChange={(e) => setForm({ ...form, min_amount: toNumberOrNull(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="max-amount">Maximum amount</Label>
+                  <Input
+                    id="max-amount"
+                    type="number"
+                    min={0}
+                    value={form.max_amount ?? ''}
+                    onChange={(e) => setForm({ ...form, max_amount: toNumberOrNull(e.target.value) })}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveUnderwriter} disabled={working}>
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,4 @@
+export { CashFlowAnalysisPanel } from './CashFlowAnalysisPanel';
+export { FinancialSpreadPanel } from './FinancialSpreadPanel';
+export { RiskScoreBreakdown } from './RiskScoreBreakdown';
+export { UnderwriterWorkloadPanel } from './UnderwriterWorkloadPanel';
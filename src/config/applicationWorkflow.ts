@@ -0,0 +1,64 @@
+/**
+ * Loan application workflow states. The allowed transitions, their
+ * required roles and guards live in application_workflow_transitions and
+ * are enforced by the database on every status change.
+ */
+import type { Database } from '@/integrations/supabase/types';
+
+export type ApplicationStatus = Database['public']['Enums']['application_status'];
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  draft: 'Draft',
+  paused: 'Paused',
+  submitted: 'Submitted',
+  under_review: 'Under Review',
+  documents_requested: 'Documents Requested',
+  conditionally_approved: 'Conditionally Approved',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  funded: 'Funded',
+};
+
+/** Guard keys understood by application_guard_failure(). */
+export const WORKFLOW_GUARD_LABELS: Record<string, string> = {
+  required_documents_uploaded: 'All required documents uploaded',
+  underwriter_assigned: 'Underwriter assigned',
+  assigned_underwriter_approved: 'Approved by the assigned underwriter',
+  conditions_cleared: 'All conditions cleared or waived',
+};
+
+/** A transition out of the current status, as evaluated for the signed-in user. */
+export interface ApplicationTransition {
+  allowed: boolean;
+  from_status: ApplicationStatus;
+  to_status: ApplicationStatus;
+  action: string;
+  required_role: string;
+  guards: string[];
+  requires_notes: boolean;
+  // Why the transition is blocked; empty when allowed
+  reasons: string[];
+  // Above the dual approval threshold: the change waits for a second approver
+  requires_confirmation?: boolean;
+}
+
+export type StatusDecisionState = 'pending' | 'confirmed' | 'declined' | 'cancelled';
+
+/** A maker-checker decision on a high-value approval, funding or rejection. */
+export interface StatusDecision {
+  id: string;
+  application_id: string;
+  from_status: ApplicationStatus;
+  to_status: ApplicationStatus;
+  amount: number;
+  notes: string | null;
+  status: StatusDecisionState;
+  requested_by: string;
+  requested_at: string;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_notes: string | null;
+}
+
+export const getApplicationStatusLabel = (status: string): string =>
+  APPLICATION_STATUS_LABELS[status as ApplicationStatus] ?? status.replace(/_/g, ' ');
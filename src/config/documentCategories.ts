@@ -0,0 +1,33 @@
+/**
+ * Borrower document folders. The ids are stored in
+ * borrower_documents.document_category and in
+ * loan_products.required_document_categories.
+ */
+export interface DocumentCategory {
+  id: string;
+  name: string;
+  /** Filed by staff, e.g. generated term sheets; borrowers cannot upload into it */
+  issuedByLender?: boolean;
+}
+
+export const DOCUMENT_CATEGORIES: DocumentCategory[] = [
+  { id: 'business_tax_returns', name: 'Business Tax Returns' },
+  { id: 'personal_tax_returns', name: 'Personal Tax Returns' },
+  { id: 'pl_balance_sheet', name: 'P&L and Balance Sheet' },
+  { id: 'bank_statements', name: 'Bank Statements' },
+  { id: 'debt_schedule', name: 'Debt Schedule and Notes' },
+  { id: 'loan_app_license', name: "Loan Application & Driver's License" },
+  { id: 'ar_ap', name: 'AR & AP' },
+  { id: 'projections_resume', name: 'Projections, Resume & Business Plan' },
+  { id: 'sba_bank_docs', name: 'SBA & Bank Documents' },
+  { id: 'corp_articles', name: 'Corp Articles, Operating Agreement & EIN Form' },
+  { id: 'miscellaneous', name: 'Miscellaneous' },
+  { id: 'loan_documents', name: 'Term Sheets & Commitment Letters', issuedByLender: true },
+  { id: 'signed_documents', name: 'Signed Documents', issuedByLender: true },
+];
+
+/** Folders a borrower can upload into or be asked for */
+export const BORROWER_DOCUMENT_CATEGORIES = DOCUMENT_CATEGORIES.filter((c) => !c.issuedByLender);
+
+export const getDocumentCategoryName = (id: string): string =>
+  DOCUMENT_CATEGORIES.find((c) => c.id === id)?.name ?? id;
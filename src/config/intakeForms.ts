@@ -0,0 +1,26 @@
+/**
+ * Borrower application forms rendered by Index for /?id=<form_id>.
+ * loan_products.form_id picks which form a product uses.
+ */
+export interface IntakeForm {
+  id: number;
+  name: string;
+}
+
+export const INTAKE_FORMS: IntakeForm[] = [
+  { id: 1, name: 'SBA 7(a) application' },
+  { id: 2, name: 'SBA 504 application' },
+  { id: 3, name: 'USDA B&I application' },
+  { id: 4, name: 'Bridge loan application' },
+  { id: 5, name: 'Conventional loan application' },
+  { id: 6, name: 'Equipment financing application' },
+  { id: 7, name: 'Working capital application' },
+  { id: 8, name: 'Business line of credit application' },
+  { id: 9, name: 'Term loan application' },
+  { id: 10, name: 'Invoice factoring application' },
+  { id: 11, name: 'Refinance application' },
+  { id: 12, name: 'SBA Express application' },
+];
+
+export const getIntakeFormName = (id: number | null | undefined): string =>
+  INTAKE_FORMS.find((f) => f.id === id)?.name ?? 'None';
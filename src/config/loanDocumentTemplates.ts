@@ -0,0 +1,106 @@
+/**
+ * Templates for the loan documents staff issue after approval. Section
+ * text uses {{placeholders}} filled from LoanDocumentValues; the fee,
+ * condition and amortization tables are appended by the generator when
+ * the template asks for them.
+ */
+
+export type LoanDocumentType = 'term_sheet' | 'commitment_letter';
+
+export interface LoanDocumentSection {
+  heading?: string;
+  body: string;
+}
+
+export interface LoanDocumentTemplate {
+  type: LoanDocumentType;
+  name: string;
+  title: string;
+  sections: LoanDocumentSection[];
+  includeFees: boolean;
+  includeConditions: boolean;
+  includeAmortization: boolean;
+  /** Closing text after the tables */
+  closing: LoanDocumentSection[];
+  /** Issuing sends the document to the borrower for electronic signature */
+  requiresSignature: boolean;
+}
+
+/** Values available to template placeholders, already formatted for print. */
+export interface LoanDocumentValues {
+  issueDate: string;
+  expirationDate: string;
+  borrowerName: string;
+  businessName: string;
+  applicationNumber: string;
+  loanProduct: string;
+  amount: string;
+  interestRate: string;
+  termMonths: string;
+  interestOnlyMonths: string;
+  monthlyPayment: string;
+  interestOnlyPayment: string;
+  totalFees: string;
+  netProceeds: string;
+  totalInterest: string;
+  totalPayment: string;
+}
+
+export const LOAN_DOCUMENT_TEMPLATES: Record<LoanDocumentType, LoanDocumentTemplate> = {
+  term_sheet: {
+    type: 'term_sheet',
+    name: 'Term Sheet',
+    title: 'Summary of Terms and Conditions',
+    sections: [
+      {
+        body: 'This term sheet summarizes the principal terms of the proposed financing for {{businessName}} (application #{{applicationNumber}}). It is provided for discussion purposes only and is not a commitment to lend.',
+      },
+      {
+        heading: 'Proposed Terms',
+        body: 'Borrower: {{businessName}}\nProduct: {{loanProduct}}\nLoan amount: {{amount}}\nInterest rate: {{interestRate}} fixed\nTerm: {{termMonths}} months\nInterest-only period: {{interestOnlyMonths}} months\nMonthly principal and interest payment: {{monthlyPayment}}\nTotal fees: {{totalFees}}\nNet proceeds at closing: {{netProceeds}}',
+      },
+    ],
+    includeFees: true,
+    includeConditions: true,
+    includeAmortization: true,
+    closing: [
+      {
+        body: 'These terms are indicative and remain subject to final credit approval, satisfactory documentation and the conditions listed above. This term sheet expires on {{expirationDate}}.',
+      },
+    ],
+    requiresSignature: false,
+  },
+  commitment_letter: {
+    type: 'commitment_letter',
+    name: 'Commitment Letter',
+    title: 'Loan Commitment Letter',
+    sections: [
+      { body: '{{issueDate}}\n\n{{borrowerName}}\n{{businessName}}' },
+      { heading: 'Re: Application #{{applicationNumber}}', body: 'Dear {{borrowerName}},' },
+      {
+        body: 'We are pleased to inform you that Halo Business Finance has approved your request and commits to provide a {{loanProduct}} of {{amount}} to {{businessName}} on the terms and subject to the conditions set out in this letter.',
+      },
+      {
+        heading: 'Loan Terms',
+        body: 'Loan amount: {{amount}}\nInterest rate: {{interestRate}} fixed\nTerm: {{termMonths}} months, of which {{interestOnlyMonths}} months are interest-only\nMonthly principal and interest payment: {{monthlyPayment}}\nTotal interest over the term: {{totalInterest}}\nTotal of payments: {{totalPayment}}\nNet proceeds at closing after fees: {{netProceeds}}',
+      },
+    ],
+    includeFees: true,
+    includeConditions: true,
+    includeAmortization: false,
+    closing: [
+      {
+        heading: 'Acceptance',
+        body: 'This commitment expires on {{expirationDate}} unless the loan has closed or this letter has been accepted before that date. You may accept it by signing electronically in the borrower portal. Our obligation to fund is subject to satisfaction of every condition above and to no material adverse change in the financial condition of the borrower.',
+      },
+      { body: 'Sincerely,\n\nHalo Business Finance Underwriting' },
+    ],
+    requiresSignature: true,
+  },
+};
+
+/** Replaces {{placeholders}}; unknown names are left as written so they stand out in review. */
+export const fillLoanDocumentText = (text: string, values: LoanDocumentValues): string =>
+  text.replace(/\{\{(\w+)\}\}/g, (match, key: string) =>
+    key in values ? values[key as keyof LoanDocumentValues] : match,
+  );
@@ -45,6 +45,14 @@ export const IBM_PORTED_FUNCTIONS: ReadonlySet<string> = new Set([
   'security-telemetry',
   'send-document-email',
   'admin-dashboard',
+  'support-tickets',
+  'e-signature',
+  'credit-bureau',
+  'bank-aggregation',
+  'cash-flow-analysis',
+  'bank-statements',
+  'financial-spreading',
+  'crm-connector',
 ]);
 
 /**
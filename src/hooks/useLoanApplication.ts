@@ -1,10 +1,12 @@
 import { useState, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import { loanApplicationService, type LoanApplicationData } from '@/services/loanApplicationService';
 import { notificationService } from '@/services/notificationService';
 import { useAuth } from '@/contexts/AuthContext';
 import { sanitizeFormData } from '@/lib/utils';
 import { crmSyncService } from '@/services/crmSyncService';
+import { loanProductService } from '@/services/loanProductService';
 
 export const useLoanApplication = () => {
   const [isLoading, setIsLoading] = useState(false);
@@ -12,6 +14,14 @@ export const useLoanApplication = () => {
   const [eligibility, setEligibility] = useState<any>(null);
   const { toast } = useToast();
   const { user } = useAuth();
+  // Product picked in the selector when several products share this form
+  const [searchParams] = useSearchParams();
+  const selectedProduct = searchParams.get('product');
+
+  const withSelectedProduct = useCallback(async (applicationData: LoanApplicationData): Promise<LoanApplicationData> => ({
+    ...applicationData,
+    loan_type: await loanProductService.resolveSelectedProduct(applicationData.loan_type, selectedProduct),
+  }), [selectedProduct]);
 
   const validateApplication = useCallback(async (applicationData: LoanApplicationData) => {
     try {
@@ -34,7 +44,7 @@ export const useLoanApplication = () => {
   const checkEligibility = useCallback(async (applicationData: LoanApplicationData) => {
     try {
       setIsLoading(true);
-      const result = await loanApplicationService.calculateEligibility(applicationData);
+      const result = await loanApplicationService.calculateEligibility(await withSelectedProduct(applicationData));
       setEligibility(result);
       return result;
     } catch (error) {
@@ -47,7 +57,7 @@ export const useLoanApplication = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [toast]);
+  }, [toast, withSelectedProduct]);
 
   const submitApplication = useCallback(async (applicationData: LoanApplicationData) => {
     if (!user) {
@@ -62,7 +72,7 @@ export const useLoanApplication = () => {
     try {
       setIsLoading(true);
 
-      const sanitizedData = sanitizeFormData(applicationData) as LoanApplicationData;
+      const sanitizedData = await withSelectedProduct(sanitizeFormData(applicationData) as LoanApplicationData);
 
       const validationResult = await loanApplicationService.validateApplication(sanitizedData);
       if (!validationResult.isValid) {
@@ -87,6 +97,7 @@ export const useLoanApplication = () => {
           business_name: sanitizedData.business_name,
           first_name: sanitizedData.first_name,
           last_name: sanitizedData.last_name,
+          email: user.email,
           phone: sanitizedData.phone,
         }).catch(err => console.warn('[CRM Sync] Non-critical sync error:', err));
 
@@ -122,7 +133,7 @@ export const useLoanApplication = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [user, toast]);
+  }, [user, toast, withSelectedProduct]);
 
   const saveAsDraft = useCallback(async (applicationData: Partial<LoanApplicationData>) => {
     if (!user) {
@@ -136,6 +147,9 @@ export const useLoanApplication = () => {
 
     try {
       setIsLoading(true);
+      if (applicationData.loan_type) {
+        applicationData = { ...applicationData, loan_type: await loanProductService.resolveSelectedProduct(applicationData.loan_type, selectedProduct) };
+      }
       const result = await loanApplicationService.saveAsDraft(user.id, applicationData);
 
       // Sync draft to CRM (non-blocking)
@@ -149,6 +163,7 @@ export const useLoanApplication = () => {
           business_name: applicationData.business_name,
           first_name: applicationData.first_name,
           last_name: applicationData.last_name,
+          email: user.email,
           phone: applicationData.phone,
         }).catch(err => console.warn('[CRM Sync] Non-critical sync error:', err));
       }
@@ -170,7 +185,7 @@ export const useLoanApplication = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [user, toast]);
+  }, [user, toast, selectedProduct]);
 
   const deleteApplication = useCallback(async (applicationId: string) => {
     if (!user) {
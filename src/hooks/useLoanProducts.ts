@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { loanProductService } from '@/services/loanProductService';
+import type { LoanProduct } from '@/services/api';
+
+/** Loan product catalog plus label/lookup helpers that re-render once it loads. */
+export const useLoanProducts = () => {
+  const [products, setProducts] = useState<LoanProduct[]>(loanProductService.getCachedProducts());
+  const [loading, setLoading] = useState(products.length === 0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loanProductService.getProducts()
+      .then((rows) => {
+        if (!cancelled) setProducts(rows);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /** Bypass the cache, e.g. after an admin edit */
+  const reload = useCallback(async () => {
+    loanProductService.invalidate();
+    const rows = await loanProductService.getProducts();
+    setProducts(rows);
+    setError(null);
+    return rows;
+  }, []);
+
+  return {
+    products,
+    activeProducts: products.filter((p) => p.is_active),
+    loading,
+    error,
+    getLabel: (loanType: string | null | undefined) => loanProductService.getLabel(loanType),
+    getProduct: (loanType: string) => loanProductService.getCachedProduct(loanType),
+    reload,
+  };
+};
@@ -20,24 +20,36 @@ export type Database = {
           application_id: string
           assigned_at: string
           assigned_by: string | null
+          assignment_method: string
+          due_at: string | null
           id: string
           notes: string | null
+          reassigned_from: string | null
+          reassignment_count: number
         }
         Insert: {
           admin_id: string
           application_id: string
           assigned_at?: string
           assigned_by?: string | null
+          assignment_method?: string
+          due_at?: string | null
           id?: string
           notes?: string | null
+          reassigned_from?: string | null
+          reassignment_count?: number
         }
         Update: {
           admin_id?: string
           application_id?: string
           assigned_at?: string
           assigned_by?: string | null
+          assignment_method?: string
+          due_at?: string | null
           id?: string
           notes?: string | null
+          reassigned_from?: string | null
+          reassignment_count?: number
         }
         Relationships: [
           {
@@ -49,6 +61,296 @@ export type Database = {
           },
         ]
       }
+      admin_saved_views: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          is_default: boolean
+          name: string
+          page: string
+          sort: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          is_default?: boolean
+          name: string
+          page?: string
+          sort?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          is_default?: boolean
+          name?: string
+          page?: string
+          sort?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      adverse_action_notices: {
+        Row: {
+          application_id: string
+          created_at: string
+          decided_at: string
+          decided_by: string | null
+          decision_notes: string | null
+          delivery_channels: string[]
+          document_id: string | null
+          due_at: string
+          generated_at: string | null
+          generated_by: string | null
+          id: string
+          last_error: string | null
+          reasons: Json
+          risk_score: number | null
+          sent_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          decided_at?: string
+          decided_by?: string | null
+          decision_notes?: string | null
+          delivery_channels?: string[]
+          document_id?: string | null
+          due_at: string
+          generated_at?: string | null
+          generated_by?: string | null
+          id?: string
+          last_error?: string | null
+          reasons?: Json
+          risk_score?: number | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          decided_at?: string
+          decided_by?: string | null
+          decision_notes?: string | null
+          delivery_channels?: string[]
+          document_id?: string | null
+          due_at?: string
+          generated_at?: string | null
+          generated_by?: string | null
+          id?: string
+          last_error?: string | null
+          reasons?: Json
+          risk_score?: number | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "adverse_action_notices_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "adverse_action_notices_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "borrower_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_conditions: {
+        Row: {
+          application_id: string
+          assigned_to: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          document_category: string | null
+          document_id: string | null
+          due_date: string | null
+          id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          submitted_at: string | null
+          title: string
+          updated_at: string
+          user_id: string
+          waiver_reason: string | null
+        }
+        Insert: {
+          application_id: string
+          assigned_to?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          document_category?: string | null
+          document_id?: string | null
+          due_date?: string | null
+          id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          title: string
+          updated_at?: string
+          user_id?: string
+          waiver_reason?: string | null
+        }
+        Update: {
+          application_id?: string
+          assigned_to?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          document_category?: string | null
+          document_id?: string | null
+          due_date?: string | null
+          id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+          waiver_reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_conditions_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_conditions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "borrower_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_status_decisions: {
+        Row: {
+          amount: number
+          application_id: string
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          decision_notes: string | null
+          from_status: Database["public"]["Enums"]["application_status"]
+          id: string
+          notes: string | null
+          requested_at: string
+          requested_by: string
+          status: string
+          to_status: Database["public"]["Enums"]["application_status"]
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          application_id: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_notes?: string | null
+          from_status: Database["public"]["Enums"]["application_status"]
+          id?: string
+          notes?: string | null
+          requested_at?: string
+          requested_by: string
+          status?: string
+          to_status: Database["public"]["Enums"]["application_status"]
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          application_id?: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_notes?: string | null
+          from_status?: Database["public"]["Enums"]["application_status"]
+          id?: string
+          notes?: string | null
+          requested_at?: string
+          requested_by?: string
+          status?: string
+          to_status?: Database["public"]["Enums"]["application_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_status_decisions_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_workflow_transitions: {
+        Row: {
+          action: string
+          created_at: string
+          from_status: Database["public"]["Enums"]["application_status"]
+          guards: string[]
+          id: string
+          is_active: boolean
+          required_role: string
+          requires_notes: boolean
+          sort_order: number
+          to_status: Database["public"]["Enums"]["application_status"]
+          updated_at: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          from_status: Database["public"]["Enums"]["application_status"]
+          guards?: string[]
+          id?: string
+          is_active?: boolean
+          required_role?: string
+          requires_notes?: boolean
+          sort_order?: number
+          to_status: Database["public"]["Enums"]["application_status"]
+          updated_at?: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["application_status"]
+          guards?: string[]
+          id?: string
+          is_active?: boolean
+          required_role?: string
+          requires_notes?: boolean
+          sort_order?: number
+          to_status?: Database["public"]["Enums"]["application_status"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
       audit_logs: {
         Row: {
           action: string
@@ -90,7 +392,9 @@ export type Database = {
           account_name: string
           account_number: string
           account_type: string
+          available_balance: number | null
           balance: number
+          connection_id: string | null
           created_at: string
           currency: string
           external_id: string | null
@@ -98,6 +402,7 @@ export type Database = {
           institution: string
           is_business: boolean
           last_synced_at: string | null
+          source: string
           status: string
           updated_at: string
           user_id: string
@@ -106,7 +411,9 @@ export type Database = {
           account_name: string
           account_number: string
           account_type: string
+          available_balance?: number | null
           balance?: number
+          connection_id?: string | null
           created_at?: string
           currency?: string
           external_id?: string | null
@@ -114,6 +421,7 @@ export type Database = {
           institution: string
           is_business?: boolean
           last_synced_at?: string | null
+          source?: string
           status?: string
           updated_at?: string
           user_id: string
@@ -122,7 +430,9 @@ export type Database = {
           account_name?: string
           account_number?: string
           account_type?: string
+          available_balance?: number | null
           balance?: number
+          connection_id?: string | null
           created_at?: string
           currency?: string
           external_id?: string | null
@@ -130,807 +440,2563 @@ export type Database = {
           institution?: string
           is_business?: boolean
           last_synced_at?: string | null
+          source?: string
           status?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "bank_accounts_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "bank_connections"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      borrower_documents: {
+      bank_connection_tokens: {
         Row: {
-          description: string | null
-          document_category: string
-          file_name: string
-          file_path: string
-          file_size: number
-          file_type: string
-          id: string
-          is_latest_version: boolean
-          parent_document_id: string | null
-          updated_at: string
-          uploaded_at: string
-          user_id: string
-          version_number: number
+          access_token: string
+          connection_id: string
+          created_at: string
         }
         Insert: {
-          description?: string | null
-          document_category?: string
-          file_name: string
-          file_path: string
-          file_size: number
-          file_type: string
-          id?: string
-          is_latest_version?: boolean
-          parent_document_id?: string | null
-          updated_at?: string
-          uploaded_at?: string
-          user_id: string
-          version_number?: number
+          access_token: string
+          connection_id: string
+          created_at?: string
         }
         Update: {
-          description?: string | null
-          document_category?: string
-          file_name?: string
-          file_path?: string
-          file_size?: number
-          file_type?: string
-          id?: string
-          is_latest_version?: boolean
-          parent_document_id?: string | null
-          updated_at?: string
-          uploaded_at?: string
-          user_id?: string
-          version_number?: number
+          access_token?: string
+          connection_id?: string
+          created_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "borrower_documents_parent_document_id_fkey"
-            columns: ["parent_document_id"]
+            foreignKeyName: "bank_connection_tokens_connection_id_fkey"
+            columns: ["connection_id"]
             isOneToOne: false
-            referencedRelation: "borrower_documents"
+            referencedRelation: "bank_connections"
             referencedColumns: ["id"]
           },
         ]
       }
-      credit_scores: {
+      bank_connections: {
         Row: {
-          bureau: string
           created_at: string
+          error: string | null
+          external_id: string
           id: string
-          report_url: string | null
-          score: number
-          score_date: string
+          institution_id: string | null
+          institution_name: string
+          is_business: boolean
+          last_synced_at: string | null
+          next_sync_at: string
+          provider: string
+          status: string
+          sync_cursor: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
-          bureau: string
           created_at?: string
+          error?: string | null
+          external_id: string
           id?: string
-          report_url?: string | null
-          score: number
-          score_date?: string
+          institution_id?: string | null
+          institution_name: string
+          is_business?: boolean
+          last_synced_at?: string | null
+          next_sync_at?: string
+          provider: string
+          status?: string
+          sync_cursor?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
-          bureau?: string
           created_at?: string
+          error?: string | null
+          external_id?: string
           id?: string
-          report_url?: string | null
-          score?: number
-          score_date?: string
+          institution_id?: string | null
+          institution_name?: string
+          is_business?: boolean
+          last_synced_at?: string | null
+          next_sync_at?: string
+          provider?: string
+          status?: string
+          sync_cursor?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
-      crm_activities: {
+      bank_statement_imports: {
         Row: {
-          activity_type: string
-          completed_at: string | null
-          contact_id: string | null
+          account_id: string | null
+          account_mask: string | null
+          account_name: string | null
+          application_id: string | null
+          closing_balance: number | null
           created_at: string
-          description: string | null
-          duration_minutes: number | null
-          external_crm_id: string | null
+          currency: string
+          document_id: string
+          document_info: Json | null
+          error: string | null
+          format: string | null
           id: string
-          opportunity_id: string | null
-          priority: string | null
-          scheduled_at: string | null
-          status: string | null
-          subject: string
+          institution_name: string | null
+          integrity: string | null
+          integrity_flags: Json
+          opening_balance: number | null
+          parsed_by: string
+          period_end: string | null
+          period_start: string | null
+          status: string
+          total_credits: number
+          total_debits: number
+          transaction_count: number
           updated_at: string
           user_id: string
         }
         Insert: {
-          activity_type: string
-          completed_at?: string | null
-          contact_id?: string | null
+          account_id?: string | null
+          account_mask?: string | null
+          account_name?: string | null
+          application_id?: string | null
+          closing_balance?: number | null
           created_at?: string
-          description?: string | null
-          duration_minutes?: number | null
-          external_crm_id?: string | null
+          currency?: string
+          document_id: string
+          document_info?: Json | null
+          error?: string | null
+          format?: string | null
           id?: string
-          opportunity_id?: string | null
-          priority?: string | null
-          scheduled_at?: string | null
-          status?: string | null
-          subject: string
+          institution_name?: string | null
+          integrity?: string | null
+          integrity_flags?: Json
+          opening_balance?: number | null
+          parsed_by: string
+          period_end?: string | null
+          period_start?: string | null
+          status: string
+          total_credits?: number
+          total_debits?: number
+          transaction_count?: number
           updated_at?: string
           user_id: string
         }
         Update: {
-          activity_type?: string
-          completed_at?: string | null
-          contact_id?: string | null
+          account_id?: string | null
+          account_mask?: string | null
+          account_name?: string | null
+          application_id?: string | null
+          closing_balance?: number | null
           created_at?: string
-          description?: string | null
-          duration_minutes?: number | null
-          external_crm_id?: string | null
+          currency?: string
+          document_id?: string
+          document_info?: Json | null
+          error?: string | null
+          format?: string | null
           id?: string
-          opportunity_id?: string | null
-          priority?: string | null
-          scheduled_at?: string | null
-          status?: string | null
-          subject?: string
+          institution_name?: string | null
+          integrity?: string | null
+          integrity_flags?: Json
+          opening_balance?: number | null
+          parsed_by?: string
+          period_end?: string | null
+          period_start?: string | null
+          status?: string
+          total_credits?: number
+          total_debits?: number
+          transaction_count?: number
           updated_at?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "crm_activities_contact_id_fkey"
-            columns: ["contact_id"]
+            foreignKeyName: "bank_statement_imports_account_id_fkey"
+            columns: ["account_id"]
             isOneToOne: false
-            referencedRelation: "crm_contacts"
+            referencedRelation: "bank_accounts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "crm_activities_opportunity_id_fkey"
-            columns: ["opportunity_id"]
+            foreignKeyName: "bank_statement_imports_application_id_fkey"
+            columns: ["application_id"]
             isOneToOne: false
-            referencedRelation: "crm_opportunities"
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_imports_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: true
+            referencedRelation: "borrower_documents"
             referencedColumns: ["id"]
           },
         ]
       }
-      crm_contacts: {
+      bank_transactions: {
         Row: {
-          assigned_to: string | null
-          company_name: string | null
-          contact_type: string | null
+          account_id: string
+          amount: number
+          category: string | null
           created_at: string
-          custom_fields: Json | null
-          email: string
-          external_crm_id: string | null
-          first_name: string
+          currency: string
+          description: string
+          external_id: string
           id: string
-          job_title: string | null
-          last_contact_date: string | null
-          last_name: string
-          lead_source: string | null
-          lead_status: string | null
-          next_follow_up_date: string | null
-          notes: string | null
-          phone: string | null
-          tags: string[] | null
+          merchant_name: string | null
+          pending: boolean
+          posted_on: string
+          statement_import_id: string | null
           updated_at: string
-          user_id: string | null
+          user_id: string
         }
         Insert: {
-          assigned_to?: string | null
-          company_name?: string | null
-          contact_type?: string | null
+          account_id: string
+          amount: number
+          category?: string | null
           created_at?: string
-          custom_fields?: Json | null
-          email: string
-          external_crm_id?: string | null
-          first_name: string
+          currency?: string
+          description: string
+          external_id: string
           id?: string
-          job_title?: string | null
-          last_contact_date?: string | null
-          last_name: string
-          lead_source?: string | null
-          lead_status?: string | null
-          next_follow_up_date?: string | null
-          notes?: string | null
-          phone?: string | null
-          tags?: string[] | null
+          merchant_name?: string | null
+          pending?: boolean
+          posted_on: string
+          statement_import_id?: string | null
           updated_at?: string
-          user_id?: string | null
+          user_id: string
         }
         Update: {
-          assigned_to?: string | null
-          company_name?: string | null
-          contact_type?: string | null
+          account_id?: string
+          amount?: number
+          category?: string | null
           created_at?: string
-          custom_fields?: Json | null
-          email?: string
-          external_crm_id?: string | null
-          first_name?: string
+          currency?: string
+          description?: string
+          external_id?: string
           id?: string
-          job_title?: string | null
-          last_contact_date?: string | null
-          last_name?: string
-          lead_source?: string | null
-          lead_status?: string | null
-          next_follow_up_date?: string | null
-          notes?: string | null
-          phone?: string | null
-          tags?: string[] | null
+          merchant_name?: string | null
+          pending?: boolean
+          posted_on?: string
+          statement_import_id?: string | null
           updated_at?: string
-          user_id?: string | null
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "bank_transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_statement_import_id_fkey"
+            columns: ["statement_import_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_imports"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      crm_integration_settings: {
+      borrower_documents: {
         Row: {
-          api_endpoint: string | null
-          created_at: string
-          external_crm_name: string
-          field_mappings: Json | null
+          description: string | null
+          document_category: string
+          file_name: string
+          file_path: string
+          file_size: number
+          file_type: string
           id: string
-          last_sync_at: string | null
-          settings: Json | null
-          sync_direction: string | null
-          sync_enabled: boolean | null
+          is_latest_version: boolean
+          parent_document_id: string | null
           updated_at: string
+          uploaded_at: string
           user_id: string
-          webhook_url: string | null
+          version_number: number
         }
         Insert: {
-          api_endpoint?: string | null
-          created_at?: string
-          external_crm_name?: string
-          field_mappings?: Json | null
+          description?: string | null
+          document_category?: string
+          file_name: string
+          file_path: string
+          file_size: number
+          file_type: string
           id?: string
-          last_sync_at?: string | null
-          settings?: Json | null
-          sync_direction?: string | null
-          sync_enabled?: boolean | null
+          is_latest_version?: boolean
+          parent_document_id?: string | null
           updated_at?: string
+          uploaded_at?: string
           user_id: string
-          webhook_url?: string | null
+          version_number?: number
         }
         Update: {
-          api_endpoint?: string | null
-          created_at?: string
-          external_crm_name?: string
-          field_mappings?: Json | null
+          description?: string | null
+          document_category?: string
+          file_name?: string
+          file_path?: string
+          file_size?: number
+          file_type?: string
           id?: string
-          last_sync_at?: string | null
-          settings?: Json | null
-          sync_direction?: string | null
-          sync_enabled?: boolean | null
+          is_latest_version?: boolean
+          parent_document_id?: string | null
           updated_at?: string
+          uploaded_at?: string
           user_id?: string
-          webhook_url?: string | null
+          version_number?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "borrower_documents_parent_document_id_fkey"
+            columns: ["parent_document_id"]
+            isOneToOne: false
+            referencedRelation: "borrower_documents"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      crm_opportunities: {
+      cash_flow_analyses: {
         Row: {
-          actual_close_date: string | null
-          assigned_to: string | null
-          contact_id: string
+          account_ids: string[]
+          analyzed_by: string
+          application_id: string
+          avg_daily_balance: number
+          avg_monthly_net_cash_flow: number
+          avg_monthly_operating_expenses: number
+          avg_monthly_revenue: number
           created_at: string
-          custom_fields: Json | null
-          expected_close_date: string | null
-          external_crm_id: string | null
+          dscr: number | null
+          existing_debt_service: number
           id: string
-          loan_amount: number | null
-          loan_application_id: string | null
-          loan_type: string
-          loss_reason: string | null
-          notes: string | null
-          opportunity_name: string
-          probability: number | null
-          stage: string | null
-          updated_at: string
+          min_daily_balance: number
+          month_count: number
+          months: Json
+          negative_balance_days: number
+          nsf_count: number
+          observed_debt_payments: number
+          overdraft_count: number
+          period_end: string
+          period_start: string
+          proposed_amount: number | null
+          proposed_interest_only_months: number | null
+          proposed_payment: number
+          proposed_rate: number | null
+          proposed_term_months: number | null
+          revenue_trend_pct: number | null
+          transaction_count: number
+          underwriting: Json | null
+          user_id: string
         }
         Insert: {
-          actual_close_date?: string | null
-          assigned_to?: string | null
-          contact_id: string
+          account_ids?: string[]
+          analyzed_by: string
+          application_id: string
+          avg_daily_balance?: number
+          avg_monthly_net_cash_flow?: number
+          avg_monthly_operating_expenses?: number
+          avg_monthly_revenue?: number
           created_at?: string
-          custom_fields?: Json | null
-          expected_close_date?: string | null
-          external_crm_id?: string | null
+          dscr?: number | null
+          existing_debt_service?: number
           id?: string
-          loan_amount?: number | null
-          loan_application_id?: string | null
-          loan_type: string
-          loss_reason?: string | null
-          notes?: string | null
-          opportunity_name: string
-          probability?: number | null
-          stage?: string | null
-          updated_at?: string
+          min_daily_balance?: number
+          month_count: number
+          months?: Json
+          negative_balance_days?: number
+          nsf_count?: number
+          observed_debt_payments?: number
+          overdraft_count?: number
+          period_end: string
+          period_start: string
+          proposed_amount?: number | null
+          proposed_interest_only_months?: number | null
+          proposed_payment?: number
+          proposed_rate?: number | null
+          proposed_term_months?: number | null
+          revenue_trend_pct?: number | null
+          transaction_count?: number
+          underwriting?: Json | null
+          user_id: string
         }
         Update: {
-          actual_close_date?: string | null
-          assigned_to?: string | null
-          contact_id?: string
+          account_ids?: string[]
+          analyzed_by?: string
+          application_id?: string
+          avg_daily_balance?: number
+          avg_monthly_net_cash_flow?: number
+          avg_monthly_operating_expenses?: number
+          avg_monthly_revenue?: number
           created_at?: string
-          custom_fields?: Json | null
-          expected_close_date?: string | null
-          external_crm_id?: string | null
+          dscr?: number | null
+          existing_debt_service?: number
           id?: string
-          loan_amount?: number | null
-          loan_application_id?: string | null
-          loan_type?: string
-          loss_reason?: string | null
-          notes?: string | null
-          opportunity_name?: string
-          probability?: number | null
-          stage?: string | null
-          updated_at?: string
+          min_daily_balance?: number
+          month_count?: number
+          months?: Json
+          negative_balance_days?: number
+          nsf_count?: number
+          observed_debt_payments?: number
+          overdraft_count?: number
+          period_end?: string
+          period_start?: string
+          proposed_amount?: number | null
+          proposed_interest_only_months?: number | null
+          proposed_payment?: number
+          proposed_rate?: number | null
+          proposed_term_months?: number | null
+          revenue_trend_pct?: number | null
+          transaction_count?: number
+          underwriting?: Json | null
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "crm_opportunities_contact_id_fkey"
-            columns: ["contact_id"]
-            isOneToOne: false
-            referencedRelation: "crm_contacts"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "crm_opportunities_loan_application_id_fkey"
-            columns: ["loan_application_id"]
+            foreignKeyName: "cash_flow_analyses_application_id_fkey"
+            columns: ["application_id"]
             isOneToOne: false
             referencedRelation: "loan_applications"
             referencedColumns: ["id"]
           },
         ]
       }
-      crm_sync_log: {
+      credit_pulls: {
         Row: {
+          application_id: string | null
+          bureaus: string[]
+          completed_at: string | null
+          consent_ip: string | null
+          consent_reference: string | null
+          consent_type: string
+          consented_at: string
           created_at: string
-          data_payload: Json | null
-          entity_id: string | null
-          entity_type: string
-          error_message: string | null
-          external_id: string | null
+          error: string | null
           id: string
-          operation: string
-          processing_time_ms: number | null
+          inquiry_type: string
+          permissible_purpose: string
+          provider: string
+          pull_type: string
+          requested_by: string
           status: string
-          sync_type: string
           user_id: string
         }
         Insert: {
+          application_id?: string | null
+          bureaus: string[]
+          completed_at?: string | null
+          consent_ip?: string | null
+          consent_reference?: string | null
+          consent_type: string
+          consented_at: string
           created_at?: string
-          data_payload?: Json | null
-          entity_id?: string | null
-          entity_type: string
-          error_message?: string | null
-          external_id?: string | null
+          error?: string | null
           id?: string
-          operation: string
-          processing_time_ms?: number | null
-          status: string
-          sync_type: string
+          inquiry_type: string
+          permissible_purpose: string
+          provider: string
+          pull_type: string
+          requested_by: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          application_id?: string | null
+          bureaus?: string[]
+          completed_at?: string | null
+          consent_ip?: string | null
+          consent_reference?: string | null
+          consent_type?: string
+          consented_at?: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          inquiry_type?: string
+          permissible_purpose?: string
+          provider?: string
+          pull_type?: string
+          requested_by?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_pulls_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_pulls_consent_reference_fkey"
+            columns: ["consent_reference"]
+            isOneToOne: false
+            referencedRelation: "signature_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_scores: {
+        Row: {
+          bureau: string
+          created_at: string
+          credit_pull_id: string | null
+          factors: Json
+          id: string
+          report_url: string | null
+          score: number
+          score_date: string
+          score_max: number
+          score_min: number
+          score_model: string | null
+          score_type: string
+          summary: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bureau: string
+          created_at?: string
+          credit_pull_id?: string | null
+          factors?: Json
+          id?: string
+          report_url?: string | null
+          score: number
+          score_date?: string
+          score_max?: number
+          score_min?: number
+          score_model?: string | null
+          score_type?: string
+          summary?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bureau?: string
+          created_at?: string
+          credit_pull_id?: string | null
+          factors?: Json
+          id?: string
+          report_url?: string | null
+          score?: number
+          score_date?: string
+          score_max?: number
+          score_min?: number
+          score_model?: string | null
+          score_type?: string
+          summary?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_scores_credit_pull_id_fkey"
+            columns: ["credit_pull_id"]
+            isOneToOne: false
+            referencedRelation: "credit_pulls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_tradelines: {
+        Row: {
+          account_number_last4: string | null
+          account_status: string
+          account_type: string
+          balance: number | null
+          bureau: string
+          created_at: string
+          credit_limit: number | null
+          credit_pull_id: string
+          creditor_name: string
+          id: string
+          late_30_count: number
+          late_60_count: number
+          late_90_count: number
+          monthly_payment: number | null
+          opened_on: string | null
+          payment_status: string
+          reported_on: string | null
+          user_id: string
+        }
+        Insert: {
+          account_number_last4?: string | null
+          account_status?: string
+          account_type: string
+          balance?: number | null
+          bureau: string
+          created_at?: string
+          credit_limit?: number | null
+          credit_pull_id: string
+          creditor_name: string
+          id?: string
+          late_30_count?: number
+          late_60_count?: number
+          late_90_count?: number
+          monthly_payment?: number | null
+          opened_on?: string | null
+          payment_status?: string
+          reported_on?: string | null
+          user_id: string
+        }
+        Update: {
+          account_number_last4?: string | null
+          account_status?: string
+          account_type?: string
+          balance?: number | null
+          bureau?: string
+          created_at?: string
+          credit_limit?: number | null
+          credit_pull_id?: string
+          creditor_name?: string
+          id?: string
+          late_30_count?: number
+          late_60_count?: number
+          late_90_count?: number
+          monthly_payment?: number | null
+          opened_on?: string | null
+          payment_status?: string
+          reported_on?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_tradelines_credit_pull_id_fkey"
+            columns: ["credit_pull_id"]
+            isOneToOne: false
+            referencedRelation: "credit_pulls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crm_activities: {
+        Row: {
+          activity_type: string
+          completed_at: string | null
+          contact_id: string | null
+          created_at: string
+          description: string | null
+          duration_minutes: number | null
+          external_crm_id: string | null
+          id: string
+          opportunity_id: string | null
+          priority: string | null
+          scheduled_at: string | null
+          status: string | null
+          subject: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          activity_type: string
+          completed_at?: string | null
+          contact_id?: string | null
+          created_at?: string
+          description?: string | null
+          duration_minutes?: number | null
+          external_crm_id?: string | null
+          id?: string
+          opportunity_id?: string | null
+          priority?: string | null
+          scheduled_at?: string | null
+          status?: string | null
+          subject: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          activity_type?: string
+          completed_at?: string | null
+          contact_id?: string | null
+          created_at?: string
+          description?: string | null
+          duration_minutes?: number | null
+          external_crm_id?: string | null
+          id?: string
+          opportunity_id?: string | null
+          priority?: string | null
+          scheduled_at?: string | null
+          status?: string | null
+          subject?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crm_activities_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "crm_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "crm_activities_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "crm_opportunities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crm_contacts: {
+        Row: {
+          assigned_to: string | null
+          company_name: string | null
+          contact_type: string | null
+          created_at: string
+          custom_fields: Json | null
+          email: string
+          external_crm_id: string | null
+          first_name: string
+          id: string
+          job_title: string | null
+          last_contact_date: string | null
+          last_name: string
+          lead_source: string | null
+          lead_status: string | null
+          next_follow_up_date: string | null
+          notes: string | null
+          phone: string | null
+          tags: string[] | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          assigned_to?: string | null
+          company_name?: string | null
+          contact_type?: string | null
+          created_at?: string
+          custom_fields?: Json | null
+          email: string
+          external_crm_id?: string | null
+          first_name: string
+          id?: string
+          job_title?: string | null
+          last_contact_date?: string | null
+          last_name: string
+          lead_source?: string | null
+          lead_status?: string | null
+          next_follow_up_date?: string | null
+          notes?: string | null
+          phone?: string | null
+          tags?: string[] | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          assigned_to?: string | null
+          company_name?: string | null
+          contact_type?: string | null
+          created_at?: string
+          custom_fields?: Json | null
+          email?: string
+          external_crm_id?: string | null
+          first_name?: string
+          id?: string
+          job_title?: string | null
+          last_contact_date?: string | null
+          last_name?: string
+          lead_source?: string | null
+          lead_status?: string | null
+          next_follow_up_date?: string | null
+          notes?: string | null
+          phone?: string | null
+          tags?: string[] | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      crm_external_links: {
+        Row: {
+          connector_id: string
+          created_at: string
+          entity_type: string
+          external_id: string
+          external_updated_at: string | null
+          id: string
+          last_pulled_at: string | null
+          last_pushed_at: string | null
+          local_id: string
+          updated_at: string
+        }
+        Insert: {
+          connector_id: string
+          created_at?: string
+          entity_type: string
+          external_id: string
+          external_updated_at?: string | null
+          id?: string
+          last_pulled_at?: string | null
+          last_pushed_at?: string | null
+          local_id: string
+          updated_at?: string
+        }
+        Update: {
+          connector_id?: string
+          created_at?: string
+          entity_type?: string
+          external_id?: string
+          external_updated_at?: string | null
+          id?: string
+          last_pulled_at?: string | null
+          last_pushed_at?: string | null
+          local_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crm_external_links_connector_id_fkey"
+            columns: ["connector_id"]
+            isOneToOne: false
+            referencedRelation: "crm_integration_settings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crm_integration_settings: {
+        Row: {
+          api_endpoint: string | null
+          created_at: string
+          external_crm_name: string
+          field_mappings: Json | null
+          id: string
+          last_sync_at: string | null
+          settings: Json | null
+          sync_direction: string | null
+          sync_enabled: boolean | null
+          updated_at: string
+          user_id: string
+          webhook_url: string | null
+        }
+        Insert: {
+          api_endpoint?: string | null
+          created_at?: string
+          external_crm_name?: string
+          field_mappings?: Json | null
+          id?: string
+          last_sync_at?: string | null
+          settings?: Json | null
+          sync_direction?: string | null
+          sync_enabled?: boolean | null
+          updated_at?: string
+          user_id: string
+          webhook_url?: string | null
+        }
+        Update: {
+          api_endpoint?: string | null
+          created_at?: string
+          external_crm_name?: string
+          field_mappings?: Json | null
+          id?: string
+          last_sync_at?: string | null
+          settings?: Json | null
+          sync_direction?: string | null
+          sync_enabled?: boolean | null
+          updated_at?: string
+          user_id?: string
+          webhook_url?: string | null
+        }
+        Relationships: []
+      }
+      crm_opportunities: {
+        Row: {
+          actual_close_date: string | null
+          assigned_to: string | null
+          contact_id: string
+          created_at: string
+          custom_fields: Json | null
+          expected_close_date: string | null
+          external_crm_id: string | null
+          id: string
+          loan_amount: number | null
+          loan_application_id: string | null
+          loan_type: string
+          loss_reason: string | null
+          notes: string | null
+          opportunity_name: string
+          probability: number | null
+          stage: string | null
+          updated_at: string
+        }
+        Insert: {
+          actual_close_date?: string | null
+          assigned_to?: string | null
+          contact_id: string
+          created_at?: string
+          custom_fields?: Json | null
+          expected_close_date?: string | null
+          external_crm_id?: string | null
+          id?: string
+          loan_amount?: number | null
+          loan_application_id?: string | null
+          loan_type: string
+          loss_reason?: string | null
+          notes?: string | null
+          opportunity_name: string
+          probability?: number | null
+          stage?: string | null
+          updated_at?: string
+        }
+        Update: {
+          actual_close_date?: string | null
+          assigned_to?: string | null
+          contact_id?: string
+          created_at?: string
+          custom_fields?: Json | null
+          expected_close_date?: string | null
+          external_crm_id?: string | null
+          id?: string
+          loan_amount?: number | null
+          loan_application_id?: string | null
+          loan_type?: string
+          loss_reason?: string | null
+          notes?: string | null
+          opportunity_name?: string
+          probability?: number | null
+          stage?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crm_opportunities_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "crm_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "crm_opportunities_loan_application_id_fkey"
+            columns: ["loan_application_id"]
+            isOneToOne: false
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crm_reconciliation_runs: {
+        Row: {
+          completed_at: string | null
+          id: string
+          issues: Json
+          replay: Json | null
+          started_at: string
+          summary: Json
+          triggered_by: string | null
+        }
+        Insert: {
+          completed_at?: string | null
+          id?: string
+          issues?: Json
+          replay?: Json | null
+          started_at?: string
+          summary?: Json
+          triggered_by?: string | null
+        }
+        Update: {
+          completed_at?: string | null
+          id?: string
+          issues?: Json
+          replay?: Json | null
+          started_at?: string
+          summary?: Json
+          triggered_by?: string | null
+        }
+        Relationships: []
+      }
+      crm_sync_log: {
+        Row: {
+          created_at: string
+          data_payload: Json | null
+          entity_id: string | null
+          entity_type: string
+          error_message: string | null
+          external_id: string | null
+          id: string
+          operation: string
+          processing_time_ms: number | null
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          sync_type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          data_payload?: Json | null
+          entity_id?: string | null
+          entity_type: string
+          error_message?: string | null
+          external_id?: string | null
+          id?: string
+          operation: string
+          processing_time_ms?: number | null
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status: string
+          sync_type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          data_payload?: Json | null
+          entity_id?: string | null
+          entity_type?: string
+          error_message?: string | null
+          external_id?: string | null
+          id?: string
+          operation?: string
+          processing_time_ms?: number | null
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          sync_type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      email_deliveries: {
+        Row: {
+          bounce_reason: string | null
+          bounce_type: string | null
+          bounced_at: string | null
+          created_at: string
+          delivered_at: string | null
+          error_message: string | null
+          id: string
+          last_event_at: string | null
+          loan_application_id: string | null
+          metadata: Json
+          provider: string
+          provider_message_id: string | null
+          recipient: string
+          sent_at: string | null
+          status: string
+          subject: string
+          template: string
+          triggered_by: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          bounce_reason?: string | null
+          bounce_type?: string | null
+          bounced_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          error_message?: string | null
+          id?: string
+          last_event_at?: string | null
+          loan_application_id?: string | null
+          metadata?: Json
+          provider: string
+          provider_message_id?: string | null
+          recipient: string
+          sent_at?: string | null
+          status?: string
+          subject: string
+          template: string
+          triggered_by?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          bounce_reason?: string | null
+          bounce_type?: string | null
+          bounced_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          error_message?: string | null
+          id?: string
+          last_event_at?: string | null
+          loan_application_id?: string | null
+          metadata?: Json
+          provider?: string
+          provider_message_id?: string | null
+          recipient?: string
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          template?: string
+          triggered_by?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_deliveries_loan_application_id_fkey"
+            columns: ["loan_application_id"]
+            isOneToOne: false
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      existing_loans: {
+        Row: {
+          created_at: string
+          has_prepayment_penalty: boolean
+          id: string
+          interest_rate: number
+          lender: string
+          loan_application_id: string | null
+          loan_balance: number
+          loan_name: string
+          loan_purpose: string
+          loan_type: string
+          maturity_date: string
+          monthly_payment: number
+          original_amount: number
+          origination_date: string
+          prepayment_period_end_date: string | null
+          remaining_months: number
+          status: string
+          term_months: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          has_prepayment_penalty?: boolean
+          id?: string
+          interest_rate: number
+          lender: string
+          loan_application_id?: string | null
+          loan_balance: number
+          loan_name: string
+          loan_purpose: string
+          loan_type: string
+          maturity_date: string
+          monthly_payment: number
+          original_amount: number
+          origination_date: string
+          prepayment_period_end_date?: string | null
+          remaining_months: number
+          status?: string
+          term_months: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          has_prepayment_penalty?: boolean
+          id?: string
+          interest_rate?: number
+          lender?: string
+          loan_application_id?: string | null
+          loan_balance?: number
+          loan_name?: string
+          loan_purpose?: string
+          loan_type?: string
+          maturity_date?: string
+          monthly_payment?: number
+          original_amount?: number
+          origination_date?: string
+          prepayment_period_end_date?: string | null
+          remaining_months?: number
+          status?: string
+          term_months?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "existing_loans_loan_application_id_fkey"
+            columns: ["loan_application_id"]
+            isOneToOne: false
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      external_notification_webhooks: {
+        Row: {
+          channels: Json | null
+          created_at: string | null
+          description: string | null
+          event_types: Json | null
+          id: string
+          is_active: boolean | null
+          name: string
+          platform: string
+          updated_at: string | null
+          webhook_url: string
+        }
+        Insert: {
+          channels?: Json | null
+          created_at?: string | null
+          description?: string | null
+          event_types?: Json | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          platform: string
+          updated_at?: string | null
+          webhook_url: string
+        }
+        Update: {
+          channels?: Json | null
+          created_at?: string | null
+          description?: string | null
+          event_types?: Json | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          platform?: string
+          updated_at?: string | null
+          webhook_url?: string
+        }
+        Relationships: []
+      }
+      financial_spreads: {
+        Row: {
+          application_id: string
+          created_at: string
+          created_by: string
+          global_cash_flow: Json
+          id: string
+          notes: string | null
+          periods: Json
+          ratios: Json
+          source: string
+          source_document_ids: string[]
+          user_id: string
+          variances: Json
+          version: number
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          created_by: string
+          global_cash_flow?: Json
+          id?: string
+          notes?: string | null
+          periods?: Json
+          ratios?: Json
+          source: string
+          source_document_ids?: string[]
+          user_id: string
+          variances?: Json
+          version: number
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          created_by?: string
+          global_cash_flow?: Json
+          id?: string
+          notes?: string | null
+          periods?: Json
+          ratios?: Json
+          source?: string
+          source_document_ids?: string[]
+          user_id?: string
+          variances?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "financial_spreads_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loan_application_status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          created_at: string
+          id: string
+          loan_application_id: string
+          notes: string | null
+          status: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          loan_application_id: string
+          notes?: string | null
+          status: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          loan_application_id?: string
+          notes?: string | null
+          status?: string
+        }
+        Relationships: []
+      }
+      loan_applications: {
+        Row: {
+          amount_requested: number | null
+          application_number: string | null
+          application_started_date: string | null
+          application_submitted_date: string | null
+          business_address: string | null
+          business_city: string | null
+          business_name: string | null
+          business_state: string | null
+          business_zip: string | null
+          created_at: string
+          email: string | null
+          first_name: string | null
+          funded_date: string | null
+          id: string
+          last_name: string | null
+          loan_details: Json | null
+          loan_type: string
+          phone: string | null
+          status: Database["public"]["Enums"]["application_status"]
+          updated_at: string
+          user_id: string
+          years_in_business: number | null
+        }
+        Insert: {
+          amount_requested?: number | null
+          application_number?: string | null
+          application_started_date?: string | null
+          application_submitted_date?: string | null
+          business_address?: string | null
+          business_city?: string | null
+          business_name?: string | null
+          business_state?: string | null
+          business_zip?: string | null
+          created_at?: string
+          email?: string | null
+          first_name?: string | null
+          funded_date?: string | null
+          id?: string
+          last_name?: string | null
+          loan_details?: Json | null
+          loan_type: string
+          phone?: string | null
+          status?: Database["public"]["Enums"]["application_status"]
+          updated_at?: string
+          user_id: string
+          years_in_business?: number | null
+        }
+        Update: {
+          amount_requested?: number | null
+          application_number?: string | null
+          application_started_date?: string | null
+          application_submitted_date?: string | null
+          business_address?: string | null
+          business_city?: string | null
+          business_name?: string | null
+          business_state?: string | null
+          business_zip?: string | null
+          created_at?: string
+          email?: string | null
+          first_name?: string | null
+          funded_date?: string | null
+          id?: string
+          last_name?: string | null
+          loan_details?: Json | null
+          loan_type?: string
+          phone?: string | null
+          status?: Database["public"]["Enums"]["application_status"]
+          updated_at?: string
+          user_id?: string
+          years_in_business?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_applications_loan_type_fkey"
+            columns: ["loan_type"]
+            isOneToOne: false
+            referencedRelation: "loan_products"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      loan_documents: {
+        Row: {
+          application_id: string
+          created_at: string
+          document_id: string | null
+          document_type: string
+          generated_by: string | null
+          id: string
+          terms: Json
+          user_id: string
+          version: number
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          document_id?: string | null
+          document_type: string
+          generated_by?: string | null
+          id?: string
+          terms?: Json
+          user_id: string
+          version?: number
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          document_id?: string | null
+          document_type?: string
+          generated_by?: string | null
+          id?: string
+          terms?: Json
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_documents_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_documents_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "borrower_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loan_payments: {
+        Row: {
+          amount: number
+          amount_applied: number
+          balance_after: number | null
+          created_at: string
+          due_date: string | null
+          effective_date: string
+          entry_type: string
+          fee_amount: number
+          id: string
+          import_batch_id: string | null
+          installment_number: number | null
+          interest_amount: number
+          loan_id: string
+          notes: string | null
+          principal_amount: number
+          recorded_by: string | null
+          reference: string | null
+          related_payment_id: string | null
+          source: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          amount_applied?: number
+          balance_after?: number | null
+          created_at?: string
+          due_date?: string | null
+          effective_date?: string
+          entry_type: string
+          fee_amount?: number
+          id?: string
+          import_batch_id?: string | null
+          installment_number?: number | null
+          interest_amount?: number
+          loan_id: string
+          notes?: string | null
+          principal_amount?: number
+          recorded_by?: string | null
+          reference?: string | null
+          related_payment_id?: string | null
+          source?: string
+          status: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          amount_applied?: number
+          balance_after?: number | null
+          created_at?: string
+          due_date?: string | null
+          effective_date?: string
+          entry_type?: string
+          fee_amount?: number
+          id?: string
+          import_batch_id?: string | null
+          installment_number?: number | null
+          interest_amount?: number
+          loan_id?: string
+          notes?: string | null
+          principal_amount?: number
+          recorded_by?: string | null
+          reference?: string | null
+          related_payment_id?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_payments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "existing_loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_payments_related_payment_id_fkey"
+            columns: ["related_payment_id"]
+            isOneToOne: false
+            referencedRelation: "loan_payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loan_product_versions: {
+        Row: {
+          changed_by: string | null
+          changed_fields: string[]
+          created_at: string
+          id: string
+          product_key: string
+          snapshot: Json
+          version: number
+        }
+        Insert: {
+          changed_by?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          product_key: string
+          snapshot: Json
+          version: number
+        }
+        Update: {
+          changed_by?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          product_key?: string
+          snapshot?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_product_versions_product_key_fkey"
+            columns: ["product_key"]
+            isOneToOne: false
+            referencedRelation: "loan_products"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      loan_products: {
+        Row: {
+          category: string
+          created_at: string
+          description: string | null
+          eligibility_thresholds: Json
+          form_id: number | null
+          highlights: string | null
+          icon: string
+          interest_rate_max: number | null
+          interest_rate_min: number | null
+          is_active: boolean
+          key: string
+          max_amount: number | null
+          min_amount: number | null
+          name: string
+          rate_display: string | null
+          required_document_categories: string[]
+          retired_at: string | null
+          sort_order: number
+          term_options: string[]
+          updated_at: string
+          updated_by: string | null
+          version: number
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          description?: string | null
+          eligibility_thresholds?: Json
+          form_id?: number | null
+          highlights?: string | null
+          icon?: string
+          interest_rate_max?: number | null
+          interest_rate_min?: number | null
+          is_active?: boolean
+          key: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name: string
+          rate_display?: string | null
+          required_document_categories?: string[]
+          retired_at?: string | null
+          sort_order?: number
+          term_options?: string[]
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          description?: string | null
+          eligibility_thresholds?: Json
+          form_id?: number | null
+          highlights?: string | null
+          icon?: string
+          interest_rate_max?: number | null
+          interest_rate_min?: number | null
+          is_active?: boolean
+          key?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name?: string
+          rate_display?: string | null
+          required_document_categories?: string[]
+          retired_at?: string | null
+          sort_order?: number
+          term_options?: string[]
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+        }
+        Relationships: []
+      }
+      notification_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          created_by: string | null
+          dead_at: string | null
+          delivered_at: string | null
+          event: string
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          loan_application_id: string | null
+          locked_until: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          result: Json
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          created_by?: string | null
+          dead_at?: string | null
+          delivered_at?: string | null
+          event: string
+          id?: string
+          idempotency_key: string
+          last_error?: string | null
+          loan_application_id?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          result?: Json
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          created_by?: string | null
+          dead_at?: string | null
+          delivered_at?: string | null
+          event?: string
+          id?: string
+          idempotency_key?: string
+          last_error?: string | null
+          loan_application_id?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          result?: Json
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_outbox_loan_application_id_fkey"
+            columns: ["loan_application_id"]
+            isOneToOne: false
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          id: string
+          preferences: Json
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          sms_phone: string | null
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          preferences?: Json
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          sms_phone?: string | null
+          timezone?: string
+          updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
-          data_payload?: Json | null
-          entity_id?: string | null
-          entity_type?: string
-          error_message?: string | null
-          external_id?: string | null
           id?: string
-          operation?: string
-          processing_time_ms?: number | null
-          status?: string
-          sync_type?: string
+          preferences?: Json
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          sms_phone?: string | null
+          timezone?: string
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
-      existing_loans: {
+      notification_template_versions: {
         Row: {
+          changed_by: string | null
+          changed_fields: string[]
           created_at: string
-          has_prepayment_penalty: boolean
           id: string
-          interest_rate: number
-          lender: string
-          loan_application_id: string | null
-          loan_balance: number
-          loan_name: string
-          loan_purpose: string
-          loan_type: string
-          maturity_date: string
-          monthly_payment: number
-          original_amount: number
-          origination_date: string
-          prepayment_period_end_date: string | null
-          remaining_months: number
-          status: string
-          term_months: number
+          snapshot: Json
+          template_id: string
+          version: number
+        }
+        Insert: {
+          changed_by?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          snapshot: Json
+          template_id: string
+          version: number
+        }
+        Update: {
+          changed_by?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          snapshot?: Json
+          template_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "notification_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_templates: {
+        Row: {
+          channel: string
+          created_at: string
+          description: string | null
+          html_body: string | null
+          id: string
+          is_enabled: boolean
+          name: string
+          subject: string | null
+          template_key: string
+          text_body: string
           updated_at: string
+          updated_by: string | null
+          variables: string[]
+          version: number
+        }
+        Insert: {
+          channel: string
+          created_at?: string
+          description?: string | null
+          html_body?: string | null
+          id?: string
+          is_enabled?: boolean
+          name: string
+          subject?: string | null
+          template_key: string
+          text_body: string
+          updated_at?: string
+          updated_by?: string | null
+          variables?: string[]
+          version?: number
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          description?: string | null
+          html_body?: string | null
+          id?: string
+          is_enabled?: boolean
+          name?: string
+          subject?: string | null
+          template_key?: string
+          text_body?: string
+          updated_at?: string
+          updated_by?: string | null
+          variables?: string[]
+          version?: number
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          action_url: string | null
+          created_at: string
+          id: string
+          message: string
+          metadata: Json | null
+          read: boolean
+          read_at: string | null
+          title: string
+          type: string
           user_id: string
         }
         Insert: {
+          action_url?: string | null
           created_at?: string
-          has_prepayment_penalty?: boolean
           id?: string
-          interest_rate: number
-          lender: string
-          loan_application_id?: string | null
-          loan_balance: number
-          loan_name: string
-          loan_purpose: string
-          loan_type: string
-          maturity_date: string
-          monthly_payment: number
-          original_amount: number
-          origination_date: string
-          prepayment_period_end_date?: string | null
-          remaining_months: number
+          message: string
+          metadata?: Json | null
+          read?: boolean
+          read_at?: string | null
+          title: string
+          type?: string
+          user_id: string
+        }
+        Update: {
+          action_url?: string | null
+          created_at?: string
+          id?: string
+          message?: string
+          metadata?: Json | null
+          read?: boolean
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          business_name: string | null
+          created_at: string
+          first_name: string | null
+          id: string
+          last_name: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          business_name?: string | null
+          created_at?: string
+          first_name?: string | null
+          id: string
+          last_name?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          business_name?: string | null
+          created_at?: string
+          first_name?: string | null
+          id?: string
+          last_name?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      rate_limit_tracking: {
+        Row: {
+          blocked_until: string | null
+          created_at: string
+          endpoint: string
+          id: string
+          identifier: string
+          request_count: number
+          updated_at: string
+          window_end: string
+          window_start: string
+        }
+        Insert: {
+          blocked_until?: string | null
+          created_at?: string
+          endpoint: string
+          id?: string
+          identifier: string
+          request_count?: number
+          updated_at?: string
+          window_end: string
+          window_start?: string
+        }
+        Update: {
+          blocked_until?: string | null
+          created_at?: string
+          endpoint?: string
+          id?: string
+          identifier?: string
+          request_count?: number
+          updated_at?: string
+          window_end?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      security_telemetry: {
+        Row: {
+          count: number
+          created_at: string
+          id: string
+          metric_date: string
+          metric_name: string
+          updated_at: string
+        }
+        Insert: {
+          count?: number
+          created_at?: string
+          id?: string
+          metric_date?: string
+          metric_name: string
+          updated_at?: string
+        }
+        Update: {
+          count?: number
+          created_at?: string
+          id?: string
+          metric_date?: string
+          metric_name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      signature_disclosures: {
+        Row: {
+          body: string
+          created_at: string
+          disclosure_key: string
+          id: string
+          is_active: boolean
+          title: string
+          version: number
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          disclosure_key: string
+          id?: string
+          is_active?: boolean
+          title: string
+          version?: number
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          disclosure_key?: string
+          id?: string
+          is_active?: boolean
+          title?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      signature_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          details: Json
+          event: string
+          event_hash: string
+          id: number
+          ip_address: string | null
+          previous_hash: string | null
+          request_id: string
+          user_agent: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          event: string
+          event_hash: string
+          id?: number
+          ip_address?: string | null
+          previous_hash?: string | null
+          request_id: string
+          user_agent?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          event?: string
+          event_hash?: string
+          id?: number
+          ip_address?: string | null
+          previous_hash?: string | null
+          request_id?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "signature_events_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "signature_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      signature_requests: {
+        Row: {
+          application_id: string | null
+          created_at: string
+          decline_reason: string | null
+          disclosure_id: string | null
+          document_hash: string
+          expires_at: string | null
+          id: string
+          loan_document_id: string | null
+          requested_by: string | null
+          signature_name: string | null
+          signature_type: string | null
+          signed_at: string | null
+          signed_document_hash: string | null
+          signed_document_id: string | null
+          signer_ip: string | null
+          signer_user_agent: string | null
+          source_document_id: string | null
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+          viewed_at: string | null
+        }
+        Insert: {
+          application_id?: string | null
+          created_at?: string
+          decline_reason?: string | null
+          disclosure_id?: string | null
+          document_hash: string
+          expires_at?: string | null
+          id?: string
+          loan_document_id?: string | null
+          requested_by?: string | null
+          signature_name?: string | null
+          signature_type?: string | null
+          signed_at?: string | null
+          signed_document_hash?: string | null
+          signed_document_id?: string | null
+          signer_ip?: string | null
+          signer_user_agent?: string | null
+          source_document_id?: string | null
           status?: string
-          term_months: number
+          title: string
           updated_at?: string
           user_id: string
+          viewed_at?: string | null
         }
         Update: {
+          application_id?: string | null
           created_at?: string
-          has_prepayment_penalty?: boolean
+          decline_reason?: string | null
+          disclosure_id?: string | null
+          document_hash?: string
+          expires_at?: string | null
           id?: string
-          interest_rate?: number
-          lender?: string
-          loan_application_id?: string | null
-          loan_balance?: number
-          loan_name?: string
-          loan_purpose?: string
-          loan_type?: string
-          maturity_date?: string
-          monthly_payment?: number
-          original_amount?: number
-          origination_date?: string
-          prepayment_period_end_date?: string | null
-          remaining_months?: number
+          loan_document_id?: string | null
+          requested_by?: string | null
+          signature_name?: string | null
+          signature_type?: string | null
+          signed_at?: string | null
+          signed_document_hash?: string | null
+          signed_document_id?: string | null
+          signer_ip?: string | null
+          signer_user_agent?: string | null
+          source_document_id?: string | null
           status?: string
-          term_months?: number
+          title?: string
           updated_at?: string
           user_id?: string
+          viewed_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "existing_loans_loan_application_id_fkey"
-            columns: ["loan_application_id"]
+            foreignKeyName: "signature_requests_application_id_fkey"
+            columns: ["application_id"]
             isOneToOne: false
             referencedRelation: "loan_applications"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "signature_requests_disclosure_id_fkey"
+            columns: ["disclosure_id"]
+            isOneToOne: false
+            referencedRelation: "signature_disclosures"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "signature_requests_loan_document_id_fkey"
+            columns: ["loan_document_id"]
+            isOneToOne: false
+            referencedRelation: "loan_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "signature_requests_signed_document_id_fkey"
+            columns: ["signed_document_id"]
+            isOneToOne: false
+            referencedRelation: "borrower_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "signature_requests_source_document_id_fkey"
+            columns: ["source_document_id"]
+            isOneToOne: false
+            referencedRelation: "borrower_documents"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      external_notification_webhooks: {
-        Row: {
-          channels: Json | null
-          created_at: string | null
-          description: string | null
-          event_types: Json | null
-          id: string
-          is_active: boolean | null
-          name: string
-          platform: string
-          updated_at: string | null
-          webhook_url: string
-        }
-        Insert: {
-          channels?: Json | null
-          created_at?: string | null
-          description?: string | null
-          event_types?: Json | null
-          id?: string
-          is_active?: boolean | null
-          name: string
-          platform: string
-          updated_at?: string | null
-          webhook_url: string
-        }
-        Update: {
-          channels?: Json | null
-          created_at?: string | null
-          description?: string | null
-          event_types?: Json | null
-          id?: string
-          is_active?: boolean | null
-          name?: string
-          platform?: string
-          updated_at?: string | null
-          webhook_url?: string
-        }
-        Relationships: []
-      }
-      loan_application_status_history: {
+      sms_consents: {
         Row: {
-          changed_at: string
-          changed_by: string | null
+          consented_at: string | null
           created_at: string
-          id: string
-          loan_application_id: string
-          notes: string | null
+          opted_out_at: string | null
+          phone_number: string
+          source: string
           status: string
+          updated_at: string
+          user_id: string | null
         }
         Insert: {
-          changed_at?: string
-          changed_by?: string | null
+          consented_at?: string | null
           created_at?: string
-          id?: string
-          loan_application_id: string
-          notes?: string | null
+          opted_out_at?: string | null
+          phone_number: string
+          source: string
           status: string
+          updated_at?: string
+          user_id?: string | null
         }
         Update: {
-          changed_at?: string
-          changed_by?: string | null
+          consented_at?: string | null
           created_at?: string
-          id?: string
-          loan_application_id?: string
-          notes?: string | null
+          opted_out_at?: string | null
+          phone_number?: string
+          source?: string
           status?: string
+          updated_at?: string
+          user_id?: string | null
         }
         Relationships: []
       }
-      loan_applications: {
+      sms_deliveries: {
         Row: {
-          amount_requested: number | null
-          application_number: string | null
-          application_started_date: string | null
-          application_submitted_date: string | null
-          business_address: string | null
-          business_city: string | null
-          business_name: string | null
-          business_state: string | null
-          business_zip: string | null
+          body: string
           created_at: string
-          email: string | null
-          first_name: string | null
-          funded_date: string | null
+          delivered_at: string | null
+          error_message: string | null
           id: string
-          last_name: string | null
-          loan_details: Json | null
-          loan_type: Database["public"]["Enums"]["loan_type"]
-          phone: string | null
-          status: Database["public"]["Enums"]["application_status"]
+          last_event_at: string | null
+          loan_application_id: string | null
+          metadata: Json
+          provider: string
+          provider_message_id: string | null
+          recipient: string
+          send_after: string | null
+          sent_at: string | null
+          status: string
+          suppression_reason: string | null
+          template: string
+          triggered_by: string | null
           updated_at: string
-          user_id: string
-          years_in_business: number | null
+          user_id: string | null
         }
         Insert: {
-          amount_requested?: number | null
-          application_number?: string | null
-          application_started_date?: string | null
-          application_submitted_date?: string | null
-          business_address?: string | null
-          business_city?: string | null
-          business_name?: string | null
-          business_state?: string | null
-          business_zip?: string | null
+          body: string
           created_at?: string
-          email?: string | null
-          first_name?: string | null
-          funded_date?: string | null
+          delivered_at?: string | null
+          error_message?: string | null
           id?: string
-          last_name?: string | null
-          loan_details?: Json | null
-          loan_type: Database["public"]["Enums"]["loan_type"]
-          phone?: string | null
-          status?: Database["public"]["Enums"]["application_status"]
+          last_event_at?: string | null
+          loan_application_id?: string | null
+          metadata?: Json
+          provider: string
+          provider_message_id?: string | null
+          recipient: string
+          send_after?: string | null
+          sent_at?: string | null
+          status: string
+          suppression_reason?: string | null
+          template: string
+          triggered_by?: string | null
           updated_at?: string
-          user_id: string
-          years_in_business?: number | null
+          user_id?: string | null
         }
         Update: {
-          amount_requested?: number | null
-          application_number?: string | null
-          application_started_date?: string | null
-          application_submitted_date?: string | null
-          business_address?: string | null
-          business_city?: string | null
-          business_name?: string | null
-          business_state?: string | null
-          business_zip?: string | null
+          body?: string
           created_at?: string
-          email?: string | null
-          first_name?: string | null
-          funded_date?: string | null
+          delivered_at?: string | null
+          error_message?: string | null
           id?: string
-          last_name?: string | null
-          loan_details?: Json | null
-          loan_type?: Database["public"]["Enums"]["loan_type"]
-          phone?: string | null
-          status?: Database["public"]["Enums"]["application_status"]
+          last_event_at?: string | null
+          loan_application_id?: string | null
+          metadata?: Json
+          provider?: string
+          provider_message_id?: string | null
+          recipient?: string
+          send_after?: string | null
+          sent_at?: string | null
+          status?: string
+          suppression_reason?: string | null
+          template?: string
+          triggered_by?: string | null
           updated_at?: string
-          user_id?: string
-          years_in_business?: number | null
+          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "sms_deliveries_loan_application_id_fkey"
+            columns: ["loan_application_id"]
+            isOneToOne: false
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      notification_preferences: {
+      support_ticket_messages: {
         Row: {
+          author_id: string
+          body: string
           created_at: string
           id: string
-          preferences: Json
-          updated_at: string
-          user_id: string
+          is_internal: boolean
+          is_staff: boolean
+          ticket_id: string
         }
         Insert: {
+          author_id: string
+          body: string
           created_at?: string
           id?: string
-          preferences?: Json
-          updated_at?: string
-          user_id: string
+          is_internal?: boolean
+          is_staff?: boolean
+          ticket_id: string
         }
         Update: {
+          author_id?: string
+          body?: string
           created_at?: string
           id?: string
-          preferences?: Json
-          updated_at?: string
-          user_id?: string
+          is_internal?: boolean
+          is_staff?: boolean
+          ticket_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "support_ticket_messages_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "support_tickets"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      notifications: {
+      support_tickets: {
         Row: {
-          action_url: string | null
+          assigned_to: string | null
+          category: string
+          closed_at: string | null
+          contact_email: string | null
           created_at: string
+          document_id: string | null
+          first_responded_at: string | null
+          first_response_due_at: string | null
           id: string
-          message: string
-          metadata: Json | null
-          read: boolean
-          read_at: string | null
-          title: string
-          type: string
+          last_reply_at: string | null
+          loan_application_id: string | null
+          priority: string
+          resolution_due_at: string | null
+          resolved_at: string | null
+          status: string
+          subject: string
+          ticket_number: string
+          updated_at: string
           user_id: string
         }
         Insert: {
-          action_url?: string | null
+          assigned_to?: string | null
+          category?: string
+          closed_at?: string | null
+          contact_email?: string | null
           created_at?: string
+          document_id?: string | null
+          first_responded_at?: string | null
+          first_response_due_at?: string | null
           id?: string
-          message: string
-          metadata?: Json | null
-          read?: boolean
-          read_at?: string | null
-          title: string
-          type?: string
+          last_reply_at?: string | null
+          loan_application_id?: string | null
+          priority?: string
+          resolution_due_at?: string | null
+          resolved_at?: string | null
+          status?: string
+          subject: string
+          ticket_number?: string
+          updated_at?: string
           user_id: string
         }
         Update: {
-          action_url?: string | null
+          assigned_to?: string | null
+          category?: string
+          closed_at?: string | null
+          contact_email?: string | null
           created_at?: string
+          document_id?: string | null
+          first_responded_at?: string | null
+          first_response_due_at?: string | null
           id?: string
-          message?: string
-          metadata?: Json | null
-          read?: boolean
-          read_at?: string | null
-          title?: string
-          type?: string
+          last_reply_at?: string | null
+          loan_application_id?: string | null
+          priority?: string
+          resolution_due_at?: string | null
+          resolved_at?: string | null
+          status?: string
+          subject?: string
+          ticket_number?: string
+          updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "support_tickets_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "borrower_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "support_tickets_loan_application_id_fkey"
+            columns: ["loan_application_id"]
+            isOneToOne: false
+            referencedRelation: "loan_applications"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      system_settings: {
         Row: {
-          business_name: string | null
-          created_at: string
-          first_name: string | null
+          category: string
           id: string
-          last_name: string | null
-          phone: string | null
-          updated_at: string
+          setting_key: string
+          setting_value: Json
+          updated_at: string | null
+          updated_by: string | null
         }
         Insert: {
-          business_name?: string | null
-          created_at?: string
-          first_name?: string | null
-          id: string
-          last_name?: string | null
-          phone?: string | null
-          updated_at?: string
+          category: string
+          id?: string
+          setting_key: string
+          setting_value: Json
+          updated_at?: string | null
+          updated_by?: string | null
         }
         Update: {
-          business_name?: string | null
-          created_at?: string
-          first_name?: string | null
+          category?: string
           id?: string
-          last_name?: string | null
-          phone?: string | null
-          updated_at?: string
+          setting_key?: string
+          setting_value?: Json
+          updated_at?: string | null
+          updated_by?: string | null
         }
         Relationships: []
       }
-      rate_limit_tracking: {
+      underwriter_settings: {
         Row: {
-          blocked_until: string | null
+          auto_assign: boolean
           created_at: string
-          endpoint: string
-          id: string
-          identifier: string
-          request_count: number
+          last_assigned_at: string | null
+          loan_types: string[]
+          max_amount: number | null
+          max_open_assignments: number
+          min_amount: number | null
+          out_of_office: boolean
+          out_of_office_until: string | null
           updated_at: string
-          window_end: string
-          window_start: string
+          updated_by: string | null
+          user_id: string
         }
         Insert: {
-          blocked_until?: string | null
+          auto_assign?: boolean
           created_at?: string
-          endpoint: string
-          id?: string
-          identifier: string
-          request_count?: number
+          last_assigned_at?: string | null
+          loan_types?: string[]
+          max_amount?: number | null
+          max_open_assignments?: number
+          min_amount?: number | null
+          out_of_office?: boolean
+          out_of_office_until?: string | null
           updated_at?: string
-          window_end: string
-          window_start?: string
+          updated_by?: string | null
+          user_id: string
         }
         Update: {
-          blocked_until?: string | null
+          auto_assign?: boolean
           created_at?: string
-          endpoint?: string
-          id?: string
-          identifier?: string
-          request_count?: number
+          last_assigned_at?: string | null
+          loan_types?: string[]
+          max_amount?: number | null
+          max_open_assignments?: number
+          min_amount?: number | null
+          out_of_office?: boolean
+          out_of_office_until?: string | null
           updated_at?: string
-          window_end?: string
-          window_start?: string
+          updated_by?: string | null
+          user_id?: string
         }
         Relationships: []
       }
-      security_telemetry: {
+      underwriting_rule_sets: {
         Row: {
-          count: number
+          activated_at: string | null
+          auto_approval_max_score: number
+          base_score: number
           created_at: string
+          created_by: string | null
+          description: string | null
           id: string
-          metric_date: string
-          metric_name: string
+          loan_type: string
+          manual_review_min_score: number
+          name: string
+          retired_at: string | null
+          status: string
           updated_at: string
+          version: number
         }
         Insert: {
-          count?: number
+          activated_at?: string | null
+          auto_approval_max_score?: number
+          base_score?: number
           created_at?: string
+          created_by?: string | null
+          description?: string | null
           id?: string
-          metric_date?: string
-          metric_name: string
+          loan_type?: string
+          manual_review_min_score?: number
+          name: string
+          retired_at?: string | null
+          status?: string
           updated_at?: string
+          version: number
         }
         Update: {
-          count?: number
+          activated_at?: string | null
+          auto_approval_max_score?: number
+          base_score?: number
           created_at?: string
+          created_by?: string | null
+          description?: string | null
           id?: string
-          metric_date?: string
-          metric_name?: string
+          loan_type?: string
+          manual_review_min_score?: number
+          name?: string
+          retired_at?: string | null
+          status?: string
           updated_at?: string
+          version?: number
         }
         Relationships: []
       }
-      system_settings: {
+      underwriting_rules: {
         Row: {
-          category: string
+          bands: Json
+          created_at: string
+          factor_key: string
           id: string
-          setting_key: string
-          setting_value: Json
-          updated_at: string | null
-          updated_by: string | null
+          knockout_operator: string | null
+          knockout_value: Json | null
+          label: string
+          matches: Json
+          reason: string | null
+          rule_set_id: string
+          rule_type: string
+          sort_order: number
+          source_field: string
+          weight: number
         }
         Insert: {
-          category: string
+          bands?: Json
+          created_at?: string
+          factor_key: string
           id?: string
-          setting_key: string
-          setting_value: Json
-          updated_at?: string | null
-          updated_by?: string | null
+          knockout_operator?: string | null
+          knockout_value?: Json | null
+          label: string
+          matches?: Json
+          reason?: string | null
+          rule_set_id: string
+          rule_type: string
+          sort_order?: number
+          source_field: string
+          weight?: number
         }
         Update: {
-          category?: string
+          bands?: Json
+          created_at?: string
+          factor_key?: string
           id?: string
-          setting_key?: string
-          setting_value?: Json
-          updated_at?: string | null
-          updated_by?: string | null
+          knockout_operator?: string | null
+          knockout_value?: Json | null
+          label?: string
+          matches?: Json
+          reason?: string | null
+          rule_set_id?: string
+          rule_type?: string
+          sort_order?: number
+          source_field?: string
+          weight?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "underwriting_rules_rule_set_id_fkey"
+            columns: ["rule_set_id"]
+            isOneToOne: false
+            referencedRelation: "underwriting_rule_sets"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -958,6 +3024,37 @@ export type Database = {
       }
     }
     Views: {
+      adverse_action_notice_report: {
+        Row: {
+          amount_requested: number | null
+          application_id: string | null
+          application_number: string | null
+          business_address: string | null
+          business_city: string | null
+          business_name: string | null
+          business_state: string | null
+          business_zip: string | null
+          days_remaining: number | null
+          decided_at: string | null
+          decision_notes: string | null
+          delivery_channels: string[] | null
+          document_id: string | null
+          due_at: string | null
+          first_name: string | null
+          generated_at: string | null
+          id: string | null
+          is_overdue: boolean | null
+          last_error: string | null
+          last_name: string | null
+          loan_type: string | null
+          reasons: Json | null
+          risk_score: number | null
+          sent_at: string | null
+          status: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
       bank_accounts_masked: {
         Row: {
           account_name: string | null
@@ -1003,8 +3100,47 @@ export type Database = {
         }
         Relationships: []
       }
+      underwriter_workload: {
+        Row: {
+          auto_assign: boolean | null
+          last_assigned_at: string | null
+          loan_types: string[] | null
+          max_amount: number | null
+          max_open_assignments: number | null
+          min_amount: number | null
+          open_assignments: number | null
+          out_of_office: boolean | null
+          out_of_office_until: string | null
+          overdue_assignments: number | null
+          role: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      activate_underwriting_rule_set: {
+        Args: { _actor?: string; _rule_set_id: string }
+        Returns: undefined
+      }
+      adverse_action_reasons: {
+        Args: { _loan_details: Json; _max?: number; _notes: string }
+        Returns: Json
+      }
+      assess_late_loan_payments: {
+        Args: { _actor?: string; _fee_percent?: number; _grace_days?: number }
+        Returns: number
+      }
+      assign_application_automatically: {
+        Args: { _application_id: string; _assigned_by?: string; _strategy?: string }
+        Returns: string
+      }
+      assignment_routing_setting: { Args: { _key: string }; Returns: Json }
+      auto_assign_application: {
+        Args: { _actor?: string; _application_id: string; _strategy?: string }
+        Returns: string
+      }
+      auto_assign_pending_applications: { Args: { _strategy?: string }; Returns: Json }
       check_rate_limit: {
         Args: {
           _endpoint: string
@@ -1019,12 +3155,104 @@ export type Database = {
           reset_at: string
         }[]
       }
+      check_sms_eligibility: {
+        Args: { _daily_limit?: number; _phone: string; _user_id: string }
+        Returns: Json
+      }
       cleanup_old_crm_sync_logs: { Args: never; Returns: number }
       cleanup_rate_limit_tracking: { Args: never; Returns: number }
+      confirm_status_decision: {
+        Args: { _actor?: string; _decision_id: string; _notes?: string }
+        Returns: Json
+      }
+      crm_expected_stage: { Args: { _status: string }; Returns: string }
+      decline_status_decision: {
+        Args: { _actor?: string; _decision_id: string; _notes?: string }
+        Returns: {
+          amount: number
+          application_id: string
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          decision_notes: string | null
+          from_status: Database["public"]["Enums"]["application_status"]
+          id: string
+          notes: string | null
+          requested_at: string
+          requested_by: string
+          status: string
+          to_status: Database["public"]["Enums"]["application_status"]
+          updated_at: string
+        }
+      }
+      enqueue_notification: {
+        Args: {
+          _created_by?: string
+          _event: string
+          _idempotency_key: string
+          _loan_application_id?: string
+          _payload: Json
+        }
+        Returns: string
+      }
+      enqueue_webhook_notifications: {
+        Args: {
+          _created_by?: string
+          _data: Json
+          _event_type: string
+          _idempotency_key: string
+          _loan_application_id?: string
+          _message: string
+          _title: string
+        }
+        Returns: number
+      }
+      generate_loan_payment_schedule: {
+        Args: { _actor?: string; _loan_id?: string; _months?: number }
+        Returns: number
+      }
+      create_user_notification: {
+        Args: {
+          _action_url?: string
+          _event: string
+          _message: string
+          _metadata?: Json
+          _title: string
+          _type?: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      get_application_stats: { Args: { _actor?: string }; Returns: Json }
+      get_application_transitions: {
+        Args: { _actor?: string; _application_id: string }
+        Returns: Json
+      }
       get_current_user_role: {
         Args: never
         Returns: Database["public"]["Enums"]["user_role"]
       }
+      get_loan_delinquency_summary: {
+        Args: { _actor?: string }
+        Returns: {
+          bucket: string
+          days_past_due: number
+          installments_past_due: number
+          late_fees_due: number
+          loan_balance: number
+          loan_id: string
+          loan_name: string
+          monthly_payment: number
+          next_due_date: string
+          oldest_past_due_date: string
+          past_due_amount: number
+          user_id: string
+        }[]
+      }
+      get_sms_settings: {
+        Args: { _user_id: string }
+        Returns: Json
+      }
       get_user_notification_preferences: {
         Args: { _user_id: string }
         Returns: Json
@@ -1066,6 +3294,23 @@ export type Database = {
         Args: { _admin_id: string; _borrower_user_id: string }
         Returns: boolean
       }
+      loan_application_search_vector: {
+        Args: {
+          _application_number: string
+          _business_name: string
+          _first_name: string
+          _last_name: string
+        }
+        Returns: unknown
+      }
+      loan_remaining_months: {
+        Args: {
+          _annual_rate: number
+          _balance: number
+          _monthly_payment: number
+        }
+        Returns: number
+      }
       log_audit_event: {
         Args: {
           _action: string
@@ -1083,10 +3328,172 @@ export type Database = {
         Args: { notification_id: string }
         Returns: undefined
       }
+      pick_underwriter: {
+        Args: { _application_id: string; _exclude?: string; _strategy: string }
+        Returns: string
+      }
+      reapply_loan_payments: { Args: { _loan_id: string }; Returns: undefined }
+      reassign_stale_assignments: { Args: never; Returns: number }
+      record_email_event: {
+        Args: {
+          _bounce_type?: string
+          _event: string
+          _occurred_at?: string
+          _provider_message_id: string
+          _reason?: string
+        }
+        Returns: boolean
+      }
+      record_loan_document: {
+        Args: {
+          _actor?: string
+          _application_id: string
+          _document_type: string
+          _file_name: string
+          _file_path: string
+          _file_size: number
+          _terms: Json
+        }
+        Returns: {
+          application_id: string
+          created_at: string
+          document_id: string | null
+          document_type: string
+          generated_by: string | null
+          id: string
+          terms: Json
+          user_id: string
+          version: number
+        }
+      }
+      record_loan_payment: {
+        Args: {
+          _actor?: string
+          _amount: number
+          _import_batch_id?: string
+          _loan_id: string
+          _notes?: string
+          _payment_date?: string
+          _reference?: string
+          _source?: string
+        }
+        Returns: string
+      }
+      record_sms_keyword: {
+        Args: { _keyword: string; _phone: string }
+        Returns: string
+      }
+      record_sms_status: {
+        Args: {
+          _error?: string
+          _occurred_at?: string
+          _provider_message_id: string
+          _status: string
+        }
+        Returns: boolean
+      }
+      requeue_notification_outbox: {
+        Args: { _id: string }
+        Returns: boolean
+      }
+      requires_dual_approval: {
+        Args: { _application_id: string; _to_status: string }
+        Returns: boolean
+      }
+      reverse_loan_payment: {
+        Args: { _actor?: string; _payment_id: string; _reason?: string }
+        Returns: string
+      }
+      run_crm_reconciliation: {
+        Args: { _sample_limit?: number; _triggered_by?: string }
+        Returns: {
+          completed_at: string | null
+          id: string
+          issues: Json
+          replay: Json | null
+          started_at: string
+          summary: Json
+          triggered_by: string | null
+        }
+      }
+      schedule_loan_installments: {
+        Args: { _loan_id: string; _months: number }
+        Returns: number
+      }
+      search_loan_applications: {
+        Args: {
+          _actor?: string
+          _amount_max?: number
+          _amount_min?: number
+          _cursor?: string
+          _date_from?: string
+          _date_to?: string
+          _limit?: number
+          _loan_types?: string[]
+          _search?: string
+          _sort?: Json
+          _statuses?: string[]
+        }
+        Returns: Json
+      }
+      set_sms_settings: {
+        Args: {
+          _opt_in: boolean
+          _phone: string
+          _quiet_hours_end: string
+          _quiet_hours_start: string
+          _timezone: string
+          _user_id: string
+        }
+        Returns: Json
+      }
+      set_underwriter_out_of_office: {
+        Args: { _out_of_office: boolean; _until?: string; _user_id: string }
+        Returns: undefined
+      }
+      submit_application_condition: {
+        Args: { _actor?: string; _condition_id: string; _document_id: string }
+        Returns: {
+          application_id: string
+          assigned_to: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          document_category: string | null
+          document_id: string | null
+          due_date: string | null
+          id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          submitted_at: string | null
+          title: string
+          updated_at: string
+          user_id: string
+          waiver_reason: string | null
+        }
+      }
+      support_ticket_sla_hours: {
+        Args: { _priority: string }
+        Returns: Record<string, unknown>
+      }
+      transition_application_status: {
+        Args: {
+          _actor?: string
+          _application_id: string
+          _notes?: string
+          _to_status: string
+        }
+        Returns: Json
+      }
       update_profile: {
         Args: { _first_name: string; _last_name: string; _phone: string }
         Returns: undefined
       }
+      verify_signature_events: {
+        Args: { _request_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role:
@@ -1104,13 +3511,8 @@ export type Database = {
         | "rejected"
         | "funded"
         | "paused"
-      loan_type:
-        | "refinance"
-        | "bridge_loan"
-        | "purchase"
-        | "franchise"
-        | "factoring"
-        | "working_capital"
+        | "documents_requested"
+        | "conditionally_approved"
       user_role: "admin" | "user"
     }
     CompositeTypes: {
@@ -1255,14 +3657,8 @@ export const Constants = {
         "rejected",
         "funded",
         "paused",
-      ],
-      loan_type: [
-        "refinance",
-        "bridge_loan",
-        "purchase",
-        "franchise",
-        "factoring",
-        "working_capital",
+        "documents_requested",
+        "conditionally_approved",
       ],
       user_role: ["admin", "user"],
     },
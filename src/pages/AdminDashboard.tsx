@@ -17,7 +17,8 @@ import {
   BarChart3,
   CreditCard,
   Building2,
-  Plug
+  Plug,
+  FileWarning
 } from 'lucide-react';
 import { SecurityOverview } from '@/components/SecurityOverview';
 import { PageHeader } from '@/components/PageHeader';
@@ -79,6 +80,12 @@ const AdminDashboard = () => {
       description: 'Review pending applications and update their status',
       onClick: () => navigate('/admin/review')
     },
+    {
+      icon: FileWarning,
+      title: 'Adverse Action Notices',
+      description: 'Send ECOA notices to declined applicants and track the delivery deadline',
+      onClick: () => navigate('/admin/adverse-action')
+    },
     {
       icon: BarChart3,
       title: 'Analytics & Reports',
@@ -11,8 +11,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { ModernTabs as Tabs, ModernTabsContent as TabsContent, ModernTabsList as TabsList, ModernTabsTrigger as TabsTrigger } from '@/components/ui/modern-tabs';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
 import { adminService } from '@/services/adminService';
+import {
+  WORKFLOW_GUARD_LABELS,
+  getApplicationStatusLabel,
+  type ApplicationTransition,
+  type StatusDecision,
+} from '@/config/applicationWorkflow';
 import { PhoneInput } from '@/components/ui/phone-input';
+import { CashFlowAnalysisPanel, FinancialSpreadPanel, RiskScoreBreakdown } from '@/components/underwriting';
+import { ApplicationConditionsPanel } from '@/components/conditions';
+import { LoanDocumentsPanel } from '@/components/loan-documents';
+import { SignatureRequestsPanel } from '@/components/e-signature';
+import { CreditPullPanel } from '@/components/credit';
+import { BankStatementsPanel } from '@/components/bank-aggregation';
 import { 
   ArrowLeft, 
   FileText, 
@@ -38,6 +51,7 @@ import {
 
 interface LoanApplication {
   id: string;
+  user_id: string;
   application_number: string;
   first_name: string;
   last_name: string;
@@ -70,17 +84,20 @@ interface StatusHistory {
 const AdminLoanDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { authenticated, loading } = useAuth();
+  const { authenticated, loading, user } = useAuth();
   const { toast } = useToast();
 
   const [application, setApplication] = useState<LoanApplication | null>(null);
   const [statusHistory, setStatusHistory] = useState<StatusHistory[]>([]);
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState<Partial<LoanApplication>>({});
-  const [newStatus, setNewStatus] = useState('');
+  const [transitions, setTransitions] = useState<ApplicationTransition[]>([]);
+  const [decisions, setDecisions] = useState<StatusDecision[]>([]);
   const [statusNotes, setStatusNotes] = useState('');
   const [loadingData, setLoadingData] = useState(true);
   const [updatingStatus, setUpdatingStatus] = useState(false);
+  const [signatureRefreshKey, setSignatureRefreshKey] = useState(0);
+  const { products: loanProducts, getLabel } = useLoanProducts();
 
   useEffect(() => {
     if (!loading && !authenticated) {
@@ -96,12 +113,17 @@ const AdminLoanDetail = () => {
   const loadApplicationDetails = async () => {
     try {
       setLoadingData(true);
-      const applicationData = await adminService.getApplicationDetails(id!);
+      const [applicationData, nextTransitions, statusDecisions] = await Promise.all([
+        adminService.getApplicationDetails(id!),
+        adminService.getApplicationTransitions(id!),
+        adminService.getStatusDecisions(id!),
+      ]);
       
       if (applicationData) {
         setApplication(applicationData);
         setEditData(applicationData);
-        setNewStatus(applicationData.status);
+        setTransitions(nextTransitions);
+        setDecisions(statusDecisions);
       } else {
         throw new Error('Application not found');
       }
@@ -117,21 +139,41 @@ const AdminLoanDetail = () => {
     }
   };
 
-  const handleStatusUpdate = async () => {
-    if (!application || !newStatus) return;
+  // Conditions feed the conditions_cleared guard, so re-evaluate the next actions
+  const reloadTransitions = async () => {
+    if (!id) return;
+    try {
+      setTransitions(await adminService.getApplicationTransitions(id));
+    } catch (error) {
+      console.error('Error loading status transitions:', error);
+    }
+  };
+
+  const handleStatusUpdate = async (transition: ApplicationTransition) => {
+    if (!application) return;
+    if (transition.requires_notes && !statusNotes.trim()) {
+      toast({
+        title: "Notes required",
+        description: `Add a note explaining why before choosing "${transition.action}"`,
+        variant: "destructive"
+      });
+      return;
+    }
 
     setUpdatingStatus(true);
     try {
       const result = await adminService.updateApplicationStatus(
         application.id, 
-        newStatus, 
+        transition.to_status, 
         statusNotes
       );
       
       if (result) {
         toast({
-          title: "Success",
-          description: "Application status updated successfully"
+          title: result.pendingConfirmation ? "Awaiting confirmation" : "Success",
+          description: result.pendingConfirmation
+            ? `${transition.action} needs confirmation by a second approver`
+            : `Application moved to ${getApplicationStatusLabel(transition.to_status)}`
         });
         
         // Reload application details
@@ -150,6 +192,35 @@ const AdminLoanDetail = () => {
     }
   };
 
+  // Maker-checker: a second approver confirms or declines; the requester can only withdraw
+  const handleDecision = async (decision: StatusDecision, confirm: boolean) => {
+    setUpdatingStatus(true);
+    try {
+      if (confirm) {
+        await adminService.confirmStatusDecision(decision.id, statusNotes);
+      } else {
+        await adminService.declineStatusDecision(decision.id, statusNotes);
+      }
+      toast({
+        title: "Success",
+        description: confirm
+          ? `Application moved to ${getApplicationStatusLabel(decision.to_status)}`
+          : decision.requested_by === user?.id ? "Request withdrawn" : "Decision declined"
+      });
+      await loadApplicationDetails();
+      setStatusNotes('');
+    } catch (error) {
+      console.error('Error resolving status decision:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resolve the decision",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
   const handleSaveEdit = async () => {
     if (!application || !editData) return;
 
@@ -176,8 +247,11 @@ const AdminLoanDetail = () => {
     const statusConfig = {
       pending: { variant: 'secondary' as const, icon: Clock, className: '' },
       under_review: { variant: 'default' as const, icon: AlertCircle, className: '' },
+      documents_requested: { variant: 'secondary' as const, icon: AlertCircle, className: '' },
+      conditionally_approved: { variant: 'default' as const, icon: CheckCircle, className: 'bg-amber-100 text-amber-800' },
       approved: { variant: 'default' as const, icon: CheckCircle, className: 'bg-green-100 text-green-800' },
-      rejected: { variant: 'destructive' as const, icon: XCircle, className: '' }
+      rejected: { variant: 'destructive' as const, icon: XCircle, className: '' },
+      funded: { variant: 'default' as const, icon: CheckCircle, className: 'bg-purple-100 text-purple-800' }
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || { variant: 'secondary' as const, icon: Clock, className: '' };
@@ -186,7 +260,7 @@ const AdminLoanDetail = () => {
     return (
       <Badge variant={config.variant} className={config.className}>
         <Icon className="w-3 h-3 mr-1" />
-        {status.replace('_', ' ').toUpperCase()}
+        {getApplicationStatusLabel(status).toUpperCase()}
       </Badge>
     );
   };
@@ -202,6 +276,8 @@ const AdminLoanDetail = () => {
     );
   }
 
+  const pendingDecision = decisions.find((decision) => decision.status === 'pending');
+
   if (!application) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background to-muted/20 p-4 flex items-center justify-center">
@@ -276,6 +352,7 @@ const AdminLoanDetail = () => {
           <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="details">Application Details</TabsTrigger>
             <TabsTrigger value="status" count={statusHistory.length}>Status Management</TabsTrigger>
+            <TabsTrigger value="conditions">Conditions</TabsTrigger>
             <TabsTrigger value="documents">Documents</TabsTrigger>
             <TabsTrigger value="history" count={statusHistory.length}>History</TabsTrigger>
           </TabsList>
@@ -427,14 +504,15 @@ const AdminLoanDetail = () => {
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="refinance">Refinance</SelectItem>
-                          <SelectItem value="bridge">Bridge Loan</SelectItem>
-                          <SelectItem value="purchase">Purchase</SelectItem>
-                          <SelectItem value="working_capital">Working Capital Loan</SelectItem>
+                          {loanProducts
+                            .filter((product) => product.is_active || product.key === application.loan_type)
+                            .map((product) => (
+                              <SelectItem key={product.key} value={product.key}>{product.name}</SelectItem>
+                            ))}
                         </SelectContent>
                       </Select>
                     ) : (
-                      <p className="text-sm font-medium mt-1 capitalize">{application.loan_type}</p>
+                      <p className="text-sm font-medium mt-1">{getLabel(application.loan_type)}</p>
                     )}
                   </div>
                   <div>
@@ -481,6 +559,7 @@ const AdminLoanDetail = () => {
                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                        {Object.entries(application.loan_details).map(([key, value]) => {
                          if (value === null || value === undefined || value === '') return null;
+                         if (key === 'underwriting' || key === 'cash_flow' || key === 'financial_spread') return null;
                          
                          // Format the key for display
                          const displayKey = key
@@ -515,6 +594,40 @@ const AdminLoanDetail = () => {
                    )}
                   </CardContent>
                 </Card>
+
+                {/* Underwriting score explanation */}
+                <div className="lg:col-span-2">
+                  <RiskScoreBreakdown
+                    underwriting={application.loan_details?.underwriting}
+                    legacyRiskScore={application.loan_details?.risk_score}
+                  />
+                </div>
+
+                <div className="lg:col-span-2">
+                  <CreditPullPanel applicationId={application.id} userId={application.user_id} />
+                </div>
+
+                <div className="lg:col-span-2">
+                  <BankStatementsPanel applicationId={application.id} userId={application.user_id} />
+                </div>
+
+                <div className="lg:col-span-2">
+                  <CashFlowAnalysisPanel
+                    application={application}
+                    onAnalyzed={(underwriting) =>
+                      setApplication((prev) =>
+                        prev && {
+                          ...prev,
+                          loan_details: { ...prev.loan_details, underwriting, risk_score: underwriting.risk_score },
+                        },
+                      )
+                    }
+                  />
+                </div>
+
+                <div className="lg:col-span-2">
+                  <FinancialSpreadPanel application={application} />
+                </div>
               </div>
 
               {/* Timeline */}
@@ -565,29 +678,15 @@ const AdminLoanDetail = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Edit className="w-5 h-5" />
-                  Update Application Status
+                  Next Actions
                 </CardTitle>
                 <CardDescription>
-                  Change the status of this application and add notes
+                  Status changes allowed from {getApplicationStatusLabel(application.status)} by the application workflow
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div>
-                  <Label htmlFor="status">New Status</Label>
-                  <Select value={newStatus} onValueChange={setNewStatus}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select new status" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="under_review">Under Review</SelectItem>
-                      <SelectItem value="approved">Approved</SelectItem>
-                      <SelectItem value="rejected">Rejected</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div>
-                  <Label htmlFor="notes">Notes (Optional)</Label>
+                  <Label htmlFor="notes">Notes</Label>
                   <Textarea
                     id="notes"
                     placeholder="Add any notes about this status change..."
@@ -595,17 +694,90 @@ const AdminLoanDetail = () => {
                     onChange={(e) => setStatusNotes(e.target.value)}
                   />
                 </div>
-                <Button 
-                  onClick={handleStatusUpdate}
-                  disabled={updatingStatus || newStatus === application.status}
-                >
-                  {updatingStatus ? 'Updating...' : 'Update Status'}
-                </Button>
+                {pendingDecision && (
+                  <div className="flex flex-col md:flex-row md:items-start justify-between gap-3 p-3 rounded-lg border border-amber-300 bg-amber-50">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <Clock className="w-4 h-4 text-amber-600" />
+                        <span className="font-medium">Awaiting second approval</span>
+                        <span className="text-muted-foreground">→</span>
+                        {getStatusBadge(pendingDecision.to_status)}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Requested by {pendingDecision.requested_by === user?.id ? 'you' : 'another team member'} on{' '}
+                        {new Date(pendingDecision.requested_at).toLocaleString()} for ${Number(pendingDecision.amount).toLocaleString()}
+                      </p>
+                      {pendingDecision.notes && <p className="text-sm text-muted-foreground">{pendingDecision.notes}</p>}
+                    </div>
+                    {pendingDecision.requested_by === user?.id ? (
+                      <Button size="sm" variant="outline" onClick={() => handleDecision(pendingDecision, false)} disabled={updatingStatus}>
+                        Withdraw
+                      </Button>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => handleDecision(pendingDecision, true)} disabled={updatingStatus}>
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Confirm
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleDecision(pendingDecision, false)} disabled={updatingStatus}>
+                          <XCircle className="w-4 h-4 mr-1" />
+                          Decline
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+                {transitions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No further status changes are possible from {getApplicationStatusLabel(application.status)}.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {transitions.map((transition) => (
+                      <div key={transition.to_status} className="flex flex-col md:flex-row md:items-start justify-between gap-3 p-3 rounded-lg border">
+                        <div className="space-y-1">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span className="font-medium">{transition.action}</span>
+                            <span className="text-muted-foreground">→</span>
+                            {getStatusBadge(transition.to_status)}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Requires {transition.required_role === 'user' ? 'the borrower' : transition.required_role.replace('_', ' ')}
+                            {transition.requires_notes && ' · notes required'}
+                            {transition.requires_confirmation && ' · second approver required'}
+                            {transition.guards.length > 0 &&
+                              ` · ${transition.guards.map((guard) => WORKFLOW_GUARD_LABELS[guard] ?? guard).join(', ')}`}
+                          </p>
+                          {transition.reasons.map((reason) => (
+                            <p key={reason} className="text-xs text-destructive flex items-center gap-1">
+                              <XCircle className="w-3 h-3" />
+                              {reason}
+                            </p>
+                          ))}
+                        </div>
+                        <Button
+                          size="sm"
+                          variant={transition.to_status === 'rejected' ? 'destructive' : 'default'}
+                          onClick={() => handleStatusUpdate(transition)}
+                          disabled={updatingStatus || !transition.allowed || !!pendingDecision}
+                        >
+                          {updatingStatus ? 'Updating...' : transition.requires_confirmation ? `Request ${transition.action}` : transition.action}
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
 
+          <TabsContent value="conditions" className="space-y-4">
+            <ApplicationConditionsPanel applicationId={application.id} onConditionsChanged={reloadTransitions} />
+          </TabsContent>
+
           <TabsContent value="documents" className="space-y-4">
+            <LoanDocumentsPanel application={application} onIssued={() => setSignatureRefreshKey((k) => k + 1)} />
+            <SignatureRequestsPanel applicationId={application.id} refreshKey={signatureRefreshKey} />
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -668,6 +840,23 @@ const AdminLoanDetail = () => {
                     </div>
                   ))}
                 </div>
+                {decisions.some((decision) => decision.status !== 'pending') && (
+                  <div className="mt-6 space-y-2">
+                    <h4 className="text-sm font-medium">Dual approval decisions</h4>
+                    {decisions.filter((decision) => decision.status !== 'pending').map((decision) => (
+                      <div key={decision.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border text-sm">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          {getStatusBadge(decision.to_status)}
+                          <span className="capitalize">{decision.status}</span>
+                          {decision.decision_notes && <span className="text-muted-foreground">· {decision.decision_notes}</span>}
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(decision.decided_at ?? decision.requested_at).toLocaleString()}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
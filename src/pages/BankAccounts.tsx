@@ -5,38 +5,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { ModernTabs as Tabs, ModernTabsContent as TabsContent, ModernTabsList as TabsList, ModernTabsTrigger as TabsTrigger } from '@/components/ui/modern-tabs';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
-import { restQuery } from '@/services/supabaseHttp';
+import { bankAggregationService, type BankConnection, type LinkedBankAccount as BankAccount } from '@/services/bankAggregationService';
 import { BankBalanceWidget } from '@/components/BankBalanceWidget';
+import { ConnectBankDialog, TransactionsCard } from '@/components/bank-aggregation';
 import { PageHeader } from '@/components/PageHeader';
-import { Landmark, TrendingUp, DollarSign, Calendar, Building2, User, Plus, Trash2, Search, Filter, ArrowUpDown } from 'lucide-react';
-
-interface BankAccount {
-  id: string;
-  account_name: string;
-  account_number: string;
-  account_type: string;
-  balance: number;
-  currency: string;
-  institution: string;
-  is_business: boolean;
-  status: string;
-  updated_at: string;
-}
-
-interface NewAccountForm {
-  account_name: string;
-  account_number: string;
-  account_type: string;
-  institution: string;
-  balance: string;
-  is_business: boolean;
-}
+import { Landmark, TrendingUp, DollarSign, Calendar, Building2, Plus, Trash2, Search, Filter, ArrowUpDown, RefreshCw, ShieldCheck, AlertTriangle, FileText } from 'lucide-react';
 
 const BankAccounts = () => {
   const { authenticated, loading, user } = useAuth();
@@ -45,20 +23,17 @@ const BankAccounts = () => {
   const [loadingData, setLoadingData] = useState(true);
   const [personalAccounts, setPersonalAccounts] = useState<BankAccount[]>([]);
   const [businessAccounts, setBusinessAccounts] = useState<BankAccount[]>([]);
-  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [deleteAccountId, setDeleteAccountId] = useState<string | null>(null);
+  const [connections, setConnections] = useState<BankConnection[]>([]);
+  const [activeTab, setActiveTab] = useState('personal');
+  const [isConnectOpen, setIsConnectOpen] = useState(false);
+  const [connectKey, setConnectKey] = useState(0);
+  const [syncingConnectionId, setSyncingConnectionId] = useState<string | null>(null);
+  const [transactionsKey, setTransactionsKey] = useState(0);
+  const [deleteAccount, setDeleteAccount] = useState<BankAccount | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [accountTypeFilter, setAccountTypeFilter] = useState<string>('all');
   const [sortBy, setSortBy] = useState<string>('balance_desc');
-  const [newAccount, setNewAccount] = useState<NewAccountForm>({
-    account_name: '',
-    account_number: '',
-    account_type: 'Checking',
-    institution: '',
-    balance: '0',
-    is_business: false
-  });
 
   useEffect(() => {
     if (!loading && !authenticated) {
@@ -75,16 +50,12 @@ const BankAccounts = () => {
     try {
       if (!user) return;
 
-      const params = new URLSearchParams();
-      params.set('user_id', `eq.${user.id}`);
-      params.set('order', 'created_at.desc');
-      const { data } = await restQuery<BankAccount[]>('bank_accounts', { params });
+      const { connections, accounts } = await bankAggregationService.connections();
 
-      const personal = data?.filter(account => !account.is_business) || [];
-      const business = data?.filter(account => account.is_business) || [];
-
-      setPersonalAccounts(personal);
-      setBusinessAccounts(business);
+      setConnections(connections);
+      setPersonalAccounts(accounts.filter(account => !account.is_business));
+      setBusinessAccounts(accounts.filter(account => account.is_business));
+      setTransactionsKey(key => key + 1);
     } catch (error) {
       console.error('Error loading bank accounts:', error);
       toast({
@@ -97,80 +68,53 @@ const BankAccounts = () => {
     }
   };
 
-  const handleAddAccount = async () => {
-    try {
-      if (!user) return;
-
-      if (!newAccount.account_name || !newAccount.account_number || !newAccount.institution) {
-        toast({
-          title: "Validation Error",
-          description: "Please fill in all required fields",
-          variant: "destructive"
-        });
-        return;
-      }
-
-      await restQuery('bank_accounts', {
-        method: 'POST',
-        body: [{
-          user_id: user.id,
-          account_name: newAccount.account_name.trim(),
-          account_number: newAccount.account_number.trim(),
-          account_type: newAccount.account_type,
-          institution: newAccount.institution.trim(),
-          balance: parseFloat(newAccount.balance) || 0,
-          is_business: newAccount.is_business,
-          status: 'active'
-        }],
-      });
+  const openConnect = () => {
+    setConnectKey(key => key + 1);
+    setIsConnectOpen(true);
+  };
 
+  const handleSync = async (connectionId: string) => {
+    setSyncingConnectionId(connectionId);
+    try {
+      await bankAggregationService.sync(connectionId);
       toast({
         title: "Success",
-        description: "Bank account added successfully"
-      });
-
-      setIsAddDialogOpen(false);
-      setNewAccount({
-        account_name: '',
-        account_number: '',
-        account_type: 'Checking',
-        institution: '',
-        balance: '0',
-        is_business: false
+        description: "Balances and transactions refreshed"
       });
-      
-      loadBankAccounts();
     } catch (error) {
-      console.error('Error adding bank account:', error);
+      console.error('Error syncing bank connection:', error);
       toast({
         title: "Error",
-        description: "Failed to add bank account",
+        description: error instanceof Error ? error.message : "Failed to refresh bank account",
         variant: "destructive"
       });
+    } finally {
+      setSyncingConnectionId(null);
+      loadBankAccounts();
     }
   };
 
   const handleDeleteAccount = async () => {
-    if (!deleteAccountId) return;
+    if (!deleteAccount) return;
 
     setIsDeleting(true);
     try {
-      const params = new URLSearchParams();
-      params.set('id', `eq.${deleteAccountId}`);
-      await restQuery('bank_accounts', { method: 'DELETE', params });
+      await bankAggregationService.removeAccount(deleteAccount.id);
 
       toast({
         title: "Success",
-        description: "Bank account deleted successfully"
+        description: deleteAccount.connection_id
+          ? `${deleteAccount.institution} disconnected`
+          : "Bank account deleted successfully"
       });
 
-      setDeleteAccountId(null);
+      setDeleteAccount(null);
       loadBankAccounts();
     } catch (error) {
-      console.error('Error deleting bank account:', error);
+      console.error('Error removing bank account:', error);
       toast({
         title: "Error",
-        description: "Failed to delete bank account",
+        description: "Failed to remove bank account",
         variant: "destructive"
       });
     } finally {
@@ -182,7 +126,8 @@ const BankAccounts = () => {
     const statusConfig = {
       active: { variant: 'default' as const, className: 'bg-green-100 text-green-800' },
       pending: { variant: 'secondary' as const, className: 'bg-yellow-100 text-yellow-800' },
-      closed: { variant: 'destructive' as const, className: '' }
+      closed: { variant: 'destructive' as const, className: '' },
+      disconnected: { variant: 'outline' as const, className: 'text-muted-foreground' }
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.active;
@@ -202,7 +147,10 @@ const BankAccounts = () => {
   };
 
   const calculateTotalBalance = (accounts: BankAccount[]) => {
-    return accounts.reduce((sum, account) => sum + account.balance, 0);
+    // Disconnected banks no longer report, so their last balance is stale
+    return accounts
+      .filter(account => account.status !== 'disconnected')
+      .reduce((sum, account) => sum + account.balance, 0);
   };
 
   const filterAndSortAccounts = (accounts: BankAccount[]) => {
@@ -255,69 +203,116 @@ const BankAccounts = () => {
     [businessAccounts, searchTerm, accountTypeFilter, sortBy]
   );
 
-  const renderAccountCard = (account: BankAccount) => (
-    <Card key={account.id}>
-      <CardHeader>
-        <div className="flex items-start justify-between">
-          <div className="space-y-1">
-            <CardTitle className="flex items-center gap-2">
-              <Landmark className="w-5 h-5" />
-              {account.account_name}
-            </CardTitle>
-            <CardDescription>{account.institution}</CardDescription>
-          </div>
-          <div className="flex items-center gap-2">
-            {getStatusBadge(account.status)}
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={() => setDeleteAccountId(account.id)}
-              className="h-8 w-8 text-destructive hover:text-destructive"
-            >
-              <Trash2 className="h-4 w-4" />
-            </Button>
-          </div>
-        </div>
-      </CardHeader>
-      <CardContent className="space-y-4">
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <p className="text-sm text-muted-foreground mb-1">Account Number</p>
-            <p className="font-mono font-semibold">{account.account_number}</p>
-          </div>
-          <div>
-            <p className="text-sm text-muted-foreground mb-1">Account Type</p>
-            <p className="font-semibold">{account.account_type}</p>
+  const renderAccountCard = (account: BankAccount) => {
+    const linked = account.source === 'aggregated';
+    const fromStatements = account.source === 'statement';
+    const connected = account.status !== 'disconnected';
+
+    return (
+      <Card key={account.id}>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div className="space-y-1">
+              <CardTitle className="flex items-center gap-2">
+                <Landmark className="w-5 h-5" />
+                {account.account_name}
+              </CardTitle>
+              <CardDescription className="flex items-center gap-2">
+                {account.institution}
+                {linked ? (
+                  <Badge variant="outline" className="gap-1 text-green-700 border-green-200">
+                    <ShieldCheck className="h-3 w-3" />
+                    Verified
+                  </Badge>
+                ) : fromStatements ? (
+                  <Badge variant="outline" className="gap-1">
+                    <FileText className="h-3 w-3" />
+                    From statements
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="text-muted-foreground">Self-reported</Badge>
+                )}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {getStatusBadge(account.status)}
+              {linked && connected && account.connection_id && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Refresh from bank"
+                  onClick={() => handleSync(account.connection_id!)}
+                  disabled={syncingConnectionId !== null}
+                  className="h-8 w-8"
+                >
+                  <RefreshCw className={`h-4 w-4 ${syncingConnectionId === account.connection_id ? 'animate-spin' : ''}`} />
+                </Button>
+              )}
+              {connected && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title={linked ? 'Disconnect bank' : 'Delete account'}
+                  onClick={() => setDeleteAccount(account)}
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
-        </div>
-        
-        <div className="pt-4 border-t">
-          <div className="flex items-center justify-between">
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground mb-1">Account Number</p>
+              <p className="font-mono font-semibold">{account.account_number}</p>
+            </div>
             <div>
-              <p className="text-sm text-muted-foreground mb-1">Current Balance</p>
-              <p className="text-2xl font-bold text-primary">
-                {formatCurrency(account.balance)}
-              </p>
+              <p className="text-sm text-muted-foreground mb-1">Account Type</p>
+              <p className="font-semibold">{account.account_type}</p>
+            </div>
+          </div>
+          
+          <div className="pt-4 border-t">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground mb-1">Current Balance</p>
+                <p className="text-2xl font-bold text-primary">
+                  {formatCurrency(account.balance)}
+                </p>
+                {account.available_balance !== null && account.available_balance !== account.balance && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(account.available_balance)} available
+                  </p>
+                )}
+              </div>
+              <DollarSign className="w-8 h-8 text-muted-foreground" />
             </div>
-            <DollarSign className="w-8 h-8 text-muted-foreground" />
           </div>
-        </div>
 
-        <div className="flex items-center gap-2 text-xs text-muted-foreground">
-          <Calendar className="w-3 h-3" />
-          <span>
-            Last updated: {new Date(account.updated_at).toLocaleDateString('en-US', {
-              month: 'short',
-              day: 'numeric',
-              year: 'numeric',
-              hour: '2-digit',
-              minute: '2-digit'
-            })}
-          </span>
-        </div>
-      </CardContent>
-    </Card>
-  );
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Calendar className="w-3 h-3" />
+            <span>
+              {linked ? 'Last synced' : fromStatements ? 'Last statement read' : 'Last updated'}: {new Date(account.last_synced_at ?? account.updated_at).toLocaleDateString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                year: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit'
+              })}
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  // Self-reported accounts have no transactions behind them
+  const importedAccountIds = (accounts: BankAccount[]) =>
+    accounts.filter(account => account.source !== 'manual').map(account => account.id);
+
+  const failingConnections = connections.filter(connection => connection.status === 'error');
 
   if (loading || loadingData) {
     return (
@@ -344,11 +339,11 @@ const BankAccounts = () => {
         subtitle="View and manage your personal and business bank accounts"
       >
         <Button 
-          onClick={() => setIsAddDialogOpen(true)}
+          onClick={openConnect}
           className="flex items-center gap-2 bg-white text-blue-950 hover:bg-white/90"
         >
           <Plus className="h-4 w-4" />
-          Add Account
+          Connect Account
         </Button>
       </PageHeader>
 
@@ -356,98 +351,44 @@ const BankAccounts = () => {
         {/* Bank Balance Summary Widget */}
         <BankBalanceWidget />
 
-        <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogContent className="sm:max-w-[500px]">
-            <DialogHeader>
-              <DialogTitle>Add Bank Account</DialogTitle>
-              <DialogDescription>
-                Add a new personal or business bank account
-              </DialogDescription>
-            </DialogHeader>
-            <div className="grid gap-4 py-4">
-              <div className="grid gap-2">
-                <Label htmlFor="account_name">Account Name *</Label>
-                <Input
-                  id="account_name"
-                  placeholder="e.g., Personal Checking"
-                  value={newAccount.account_name}
-                  onChange={(e) => setNewAccount({ ...newAccount, account_name: e.target.value })}
-                />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="institution">Institution *</Label>
-                <Input
-                  id="institution"
-                  placeholder="e.g., Chase Bank"
-                  value={newAccount.institution}
-                  onChange={(e) => setNewAccount({ ...newAccount, institution: e.target.value })}
-                />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="account_number">Account Number *</Label>
-                <Input
-                  id="account_number"
-                  placeholder="e.g., ****1234"
-                  value={newAccount.account_number}
-                  onChange={(e) => setNewAccount({ ...newAccount, account_number: e.target.value })}
-                />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="account_type">Account Type</Label>
-                <Select
-                  value={newAccount.account_type}
-                  onValueChange={(value) => setNewAccount({ ...newAccount, account_type: value })}
-                >
-                  <SelectTrigger id="account_type">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Checking">Checking</SelectItem>
-                    <SelectItem value="Savings">Savings</SelectItem>
-                    <SelectItem value="Business Checking">Business Checking</SelectItem>
-                    <SelectItem value="Business Savings">Business Savings</SelectItem>
-                    <SelectItem value="Money Market">Money Market</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="balance">Current Balance</Label>
-                <Input
-                  id="balance"
-                  type="number"
-                  placeholder="0.00"
-                  value={newAccount.balance}
-                  onChange={(e) => setNewAccount({ ...newAccount, balance: e.target.value })}
-                />
-              </div>
-              <div className="flex items-center gap-2">
-                <input
-                  type="checkbox"
-                  id="is_business"
-                  checked={newAccount.is_business}
-                  onChange={(e) => setNewAccount({ ...newAccount, is_business: e.target.checked })}
-                  className="h-4 w-4"
-                />
-                <Label htmlFor="is_business" className="cursor-pointer">
-                  This is a business account
-                </Label>
-              </div>
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-                Cancel
+        {failingConnections.map(connection => (
+          <Alert key={connection.id} variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{connection.institution_name} needs attention</AlertTitle>
+            <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+              <span>
+                We couldn't refresh this bank{connection.error ? `: ${connection.error}` : ''}. We'll keep retrying, or you can try now.
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleSync(connection.id)}
+                disabled={syncingConnectionId !== null}
+              >
+                {syncingConnectionId === connection.id ? 'Refreshing...' : 'Retry'}
               </Button>
-              <Button onClick={handleAddAccount}>Add Account</Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
-
-        <AlertDialog open={!!deleteAccountId} onOpenChange={() => setDeleteAccountId(null)}>
+            </AlertDescription>
+          </Alert>
+        ))}
+
+        <ConnectBankDialog
+          key={connectKey}
+          open={isConnectOpen}
+          onOpenChange={setIsConnectOpen}
+          onConnected={loadBankAccounts}
+          defaultBusiness={activeTab === 'business'}
+        />
+
+        <AlertDialog open={!!deleteAccount} onOpenChange={() => setDeleteAccount(null)}>
           <AlertDialogContent>
             <AlertDialogHeader>
-              <AlertDialogTitle>Delete Bank Account</AlertDialogTitle>
+              <AlertDialogTitle>{deleteAccount?.connection_id ? 'Disconnect Bank' : 'Delete Bank Account'}</AlertDialogTitle>
               <AlertDialogDescription>
-                Are you sure you want to delete this bank account? This action cannot be undone.
+                {deleteAccount?.connection_id
+                  ? `Disconnect ${deleteAccount.institution}? Every account linked from this bank stops syncing. Transactions already imported stay on file for your applications.`
+                  : deleteAccount?.source === 'statement'
+                    ? 'Remove this account and the transactions read from your bank statements? Your uploaded statements stay in Documents.'
+                    : 'Are you sure you want to delete this bank account? This action cannot be undone.'}
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
@@ -457,13 +398,13 @@ const BankAccounts = () => {
                 disabled={isDeleting}
                 className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
               >
-                {isDeleting ? 'Deleting...' : 'Delete'}
+                {isDeleting ? 'Removing...' : deleteAccount?.connection_id ? 'Disconnect' : 'Delete'}
               </AlertDialogAction>
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
 
-        <Tabs defaultValue="personal" className="w-full">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="personal" count={filteredPersonalAccounts.length}>
               Personal Accounts
@@ -542,9 +483,15 @@ const BankAccounts = () => {
                   <p className="text-muted-foreground mb-4">
                     Connect your first personal bank account to get started
                   </p>
+                  <Button onClick={openConnect} className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    Connect Account
+                  </Button>
                 </CardContent>
               </Card>
             )}
+
+            <TransactionsCard accountIds={importedAccountIds(personalAccounts)} refreshKey={transactionsKey} />
           </TabsContent>
 
           <TabsContent value="business" className="space-y-6">
@@ -574,9 +521,15 @@ const BankAccounts = () => {
                   <p className="text-muted-foreground mb-4">
                     Connect your first business bank account to get started
                   </p>
+                  <Button onClick={openConnect} className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    Connect Account
+                  </Button>
                 </CardContent>
               </Card>
             )}
+
+            <TransactionsCard accountIds={importedAccountIds(businessAccounts)} refreshKey={transactionsKey} />
           </TabsContent>
         </Tabs>
       </div>
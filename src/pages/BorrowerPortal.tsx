@@ -31,6 +31,8 @@ import {
 } from 'lucide-react';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { PageHeader } from '@/components/PageHeader';
+import { BorrowerConditionsCard } from '@/components/conditions';
+import { PendingSignaturesCard } from '@/components/e-signature';
 import { PhoneInput, isValidPhoneNumber } from '@/components/ui/phone-input';
 
 const profileSchema = z.object({
@@ -219,6 +221,12 @@ const BorrowerPortal = () => {
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6">
         <div className="grid gap-4 sm:gap-6 grid-cols-1 lg:grid-cols-2">
+            <div className="lg:col-span-2 empty:hidden">
+              <BorrowerConditionsCard />
+            </div>
+            <div className="lg:col-span-2 empty:hidden">
+              <PendingSignaturesCard />
+            </div>
             <Card className="overflow-hidden">
               <CardHeader className="px-4 py-4 sm:px-6 sm:py-5">
                 <CardTitle className="flex items-center justify-between text-base sm:text-lg">
@@ -3,525 +3,473 @@ import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { TrendingUp, TrendingDown, ArrowRight, AlertCircle, CheckCircle2, XCircle } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { TrendingUp, TrendingDown, ArrowRight, AlertCircle, CheckCircle2, RefreshCw, FileSearch } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ModernTabs as Tabs, ModernTabsContent as TabsContent, ModernTabsList as TabsList, ModernTabsTrigger as TabsTrigger } from '@/components/ui/modern-tabs';
 import { PageHeader } from '@/components/PageHeader';
+import { useToast } from '@/hooks/use-toast';
+import {
+  creditBureauService,
+  getScoreRating,
+  latestByBureau,
+  BUREAU_LABELS,
+  BUSINESS_BUREAUS,
+  CONSUMER_BUREAUS,
+  type CreditHistory,
+  type CreditPullType,
+  type CreditSummary,
+  type Tradeline,
+} from '@/services/creditBureauService';
 
-export default function CreditReports() {
-  const [loading, setLoading] = useState(true);
-  const navigate = useNavigate();
+const TAB_COPY: Record<CreditPullType, { label: string; noun: string }> = {
+  consumer: { label: 'Personal', noun: 'personal credit report' },
+  business: { label: 'Business', noun: 'business credit report' },
+};
 
-  useEffect(() => {
-    const timer = setTimeout(() => setLoading(false), 800);
-    return () => clearTimeout(timer);
-  }, []);
+const PAYMENT_STATUS_LABELS: Record<Tradeline['payment_status'], string> = {
+  current: 'Current',
+  late_30: '30 days late',
+  late_60: '60 days late',
+  late_90: '90 days late',
+  late_120: '120+ days late',
+  derogatory: 'Derogatory',
+};
 
-  // Mock credit data matching Credit Karma style
-  const creditData = {
-    transUnion: {
-      score: 677,
-      change: 1,
-      rating: 'Fair',
-      maxScore: 850
-    },
-    equifax: {
-      score: 710,
-      change: 21,
-      rating: 'Good',
-      maxScore: 850
-    },
-    scoreHistory: [
-      { date: 'Sep 21', score: 670 },
-      { date: 'Sep 28', score: 675 },
-      { date: 'Oct 05', score: 672 },
-      { date: 'Oct 12', score: 676 },
-      { date: 'Oct 19', score: 680 },
-      { date: 'Oct 26', score: 685 },
-      { date: 'Nov 02', score: 677 }
-    ],
-    factors: [
-      { name: 'Payment history', value: 95, status: 'Needs work', impact: 'High impact', icon: 'warning' },
-      { name: 'Credit card use', value: 29, status: 'Good', impact: 'High impact', icon: 'check' },
-      { name: 'Derogatory marks', value: 0, status: 'Excellent', impact: 'High impact', icon: 'check' },
-      { name: 'Credit age', value: '3 yrs, 2 mos', status: 'Needs work', impact: 'Medium impact', icon: 'warning' },
-      { name: 'Total accounts', value: 8, status: 'Needs work', impact: 'Low impact', icon: 'warning' },
-      { name: 'Hard inquiries', value: 5, status: 'Needs work', impact: 'Low impact', icon: 'warning' }
-    ],
-    upcomingReports: [
-      { account: 'Capital One Credit Card', dueDate: 'Nov 10', balance: '$1,234' }
-    ]
-  };
+const formatCurrency = (value: number | null) =>
+  value === null ? '—' : value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
 
-  // Mock business credit data
-  const businessCreditData = {
-    dnb: {
-      score: 68,
-      change: 3,
-      rating: 'Good',
-      maxScore: 100
-    },
-    experian: {
-      score: 75,
-      change: -2,
-      rating: 'Fair',
-      maxScore: 100
-    },
-    scoreHistory: [
-      { date: 'Sep 21', score: 65 },
-      { date: 'Sep 28', score: 67 },
-      { date: 'Oct 05', score: 66 },
-      { date: 'Oct 12', score: 69 },
-      { date: 'Oct 19', score: 71 },
-      { date: 'Oct 26', score: 70 },
-      { date: 'Nov 02', score: 68 }
-    ],
-    factors: [
-      { name: 'Payment history', value: 88, status: 'Good', impact: 'High impact', icon: 'check' },
-      { name: 'Credit utilization', value: 45, status: 'Needs work', impact: 'High impact', icon: 'warning' },
-      { name: 'Public records', value: 0, status: 'Excellent', impact: 'High impact', icon: 'check' },
-      { name: 'Business age', value: '5 yrs, 7 mos', status: 'Good', impact: 'Medium impact', icon: 'check' },
-      { name: 'Trade lines', value: 12, status: 'Good', impact: 'Medium impact', icon: 'check' },
-      { name: 'Credit inquiries', value: 3, status: 'Good', impact: 'Low impact', icon: 'check' }
-    ],
-    upcomingReports: [
-      { account: 'Chase Business Line of Credit', dueDate: 'Nov 15', balance: '$8,450' }
-    ]
-  };
+const formatDate = (value: string) =>
+  new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: '2-digit' });
 
-  const getScoreRating = (score: number) => {
-    if (score >= 750) return { label: 'Excellent', color: 'text-green-600' };
-    if (score >= 700) return { label: 'Good', color: 'text-green-500' };
-    if (score >= 650) return { label: 'Fair', color: 'text-yellow-600' };
-    if (score >= 600) return { label: 'Poor', color: 'text-orange-600' };
-    return { label: 'Very Poor', color: 'text-red-600' };
-  };
+const formatAge = (months: number) => `${Math.floor(months / 12)} yrs, ${months % 12} mos`;
 
-  const getImpactColor = (impact: string) => {
-    if (impact.includes('High')) return 'text-red-600';
-    if (impact.includes('Medium')) return 'text-yellow-600';
-    return 'text-foreground';
-  };
+interface SummaryFactor {
+  name: string;
+  value: string;
+  good: boolean;
+  impact: string;
+  /** Shown as a bar when set */
+  percent?: number;
+}
 
-  const getStatusIcon = (icon: string) => {
-    if (icon === 'check') return <CheckCircle2 className="h-5 w-5 text-green-600" />;
-    if (icon === 'warning') return <AlertCircle className="h-5 w-5 text-yellow-600" />;
-    return <XCircle className="h-5 w-5 text-red-600" />;
-  };
+// The report summary as the factors lenders weigh, best first in order of impact
+const summaryFactors = (summary: CreditSummary, pullType: CreditPullType): SummaryFactor[] => {
+  const factors: SummaryFactor[] = [];
+  if (summary.utilization != null) {
+    factors.push({
+      name: pullType === 'consumer' ? 'Credit card use' : 'Credit utilization',
+      value: `${summary.utilization}%`,
+      good: summary.utilization < 30,
+      impact: 'High impact',
+      percent: Math.min(summary.utilization, 100),
+    });
+  }
+  if (summary.derogatory_accounts != null) {
+    factors.push({ name: 'Derogatory marks', value: String(summary.derogatory_accounts), good: summary.derogatory_accounts === 0, impact: 'High impact' });
+  }
+  if (summary.public_records != null) {
+    factors.push({ name: 'Public records', value: String(summary.public_records), good: summary.public_records === 0, impact: 'High impact' });
+  }
+  if (summary.oldest_account_months != null) {
+    factors.push({
+      name: pullType === 'consumer' ? 'Credit age' : 'Oldest trade line',
+      value: formatAge(summary.oldest_account_months),
+      good: summary.oldest_account_months >= 60,
+      impact: 'Medium impact',
+    });
+  }
+  if (summary.total_accounts != null) {
+    factors.push({ name: 'Total accounts', value: String(summary.total_accounts), good: summary.total_accounts >= 5, impact: 'Low impact' });
+  }
+  if (summary.inquiries != null) {
+    factors.push({ name: 'Hard inquiries', value: String(summary.inquiries), good: summary.inquiries <= 2, impact: 'Low impact' });
+  }
+  return factors;
+};
 
-  if (loading) {
+const getImpactColor = (impact: string) => {
+  if (impact.includes('High')) return 'text-red-600';
+  if (impact.includes('Medium')) return 'text-yellow-600';
+  return 'text-foreground';
+};
+
+interface CreditTabProps {
+  pullType: CreditPullType;
+  history: CreditHistory;
+  onPull: () => void;
+}
+
+// One tab of the dashboard: the latest score from each bureau, its trend, factors and accounts
+const CreditTab = ({ pullType, history, onPull }: CreditTabProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [tradelines, setTradelines] = useState<Tradeline[]>([]);
+
+  const bureaus = pullType === 'consumer' ? CONSUMER_BUREAUS : BUSINESS_BUREAUS;
+  const scores = history.scores.filter((s) => s.score_type === pullType);
+  const standings = latestByBureau(scores, bureaus);
+  const latestPull = history.pulls.find((p) => p.pull_type === pullType && p.status === 'completed');
+  const lastPull = history.pulls.find((p) => p.pull_type === pullType && p.status !== 'pending');
+  const latestPullId = latestPull?.id;
+
+  useEffect(() => {
+    if (!latestPullId) return;
+    let cancelled = false;
+    creditBureauService
+      .report(latestPullId)
+      .then((report) => {
+        if (!cancelled) setTradelines(report.tradelines);
+      })
+      .catch((err) => {
+        console.error('Error loading credit report:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load your accounts", variant: "destructive" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [latestPullId, toast]);
+
+  if (standings.length === 0) {
     return (
-      <div className="min-h-screen bg-background">
-        {/* Loading skeleton with banner */}
-        <div className="w-screen relative left-1/2 right-1/2 -ml-[50vw] -mr-[50vw] bg-blue-950 animate-pulse">
-          <div className="max-w-7xl mx-auto sm:px-6 md:py-[30px] lg:px-[34px] px-[30px] py-[15px]">
-            <div className="h-8 bg-white/20 rounded w-64 mb-2"></div>
-            <div className="h-4 bg-white/10 rounded w-48"></div>
-          </div>
-        </div>
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6">
-          <div className="space-y-6 animate-pulse">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="h-48 bg-muted rounded-lg"></div>
-              <div className="h-48 bg-muted rounded-lg"></div>
-            </div>
-            <div className="h-96 bg-muted rounded-lg"></div>
-          </div>
-        </div>
-      </div>
+      <Card>
+        <CardContent className="py-12 flex flex-col items-center text-center gap-3">
+          <FileSearch className="h-10 w-10 text-muted-foreground" />
+          <p className="font-medium">No {TAB_COPY[pullType].noun} yet</p>
+          <p className="text-sm text-muted-foreground max-w-md">
+            {lastPull?.status === 'failed'
+              ? 'Your last request could not be completed. Please try again.'
+              : `Check your ${TAB_COPY[pullType].noun} from ${bureaus.map((b) => BUREAU_LABELS[b]).join(', ')}. This is a soft inquiry and does not affect your score.`}
+          </p>
+          <Button onClick={onPull}>Check my {TAB_COPY[pullType].label.toLowerCase()} credit</Button>
+        </CardContent>
+      </Card>
     );
   }
 
-  return (
-    <div className="min-h-screen bg-background">
-      <PageHeader 
-        title="Credit Reports Dashboard" 
-        subtitle="Monitor your personal and business credit scores"
-      />
-
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6 space-y-6">
-        {/* Tabs for Personal vs Business */}
-        <Tabs defaultValue="personal" className="w-full">
-          <TabsList className="grid w-full max-w-md grid-cols-2">
-            <TabsTrigger value="personal" count={2}>Personal Credit</TabsTrigger>
-            <TabsTrigger value="business" count={2}>Business Credit</TabsTrigger>
-          </TabsList>
-
-        <TabsContent value="personal" className="space-y-6 mt-6">
-          {/* Dual Credit Score Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* TransUnion Card */}
-            <Card className="overflow-hidden">
-              <CardHeader className="pb-3">
-                <CardTitle className="text-lg font-semibold">TransUnion</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                <div className="flex items-end gap-3">
-                  <div className={`text-5xl font-bold ${getScoreRating(creditData.transUnion.score).color}`}>
-                    {creditData.transUnion.score}
-                  </div>
-                  <div className="pb-2 text-sm text-foreground">
-                    out of {creditData.transUnion.maxScore}
-                  </div>
-                </div>
-                <div className="flex items-center gap-2 text-sm">
-                  {creditData.transUnion.change > 0 ? (
-                    <TrendingUp className="h-4 w-4 text-green-600" />
-                  ) : (
-                    <TrendingDown className="h-4 w-4 text-red-600" />
-                  )}
-                  <span className={creditData.transUnion.change > 0 ? 'text-green-600' : 'text-red-600'}>
-                    {creditData.transUnion.change > 0 ? '+' : ''}{creditData.transUnion.change} Point
-                  </span>
-                  <span className="text-foreground">• {creditData.transUnion.rating}</span>
-                </div>
-                <p className="text-xs text-foreground">Checked daily</p>
-              </CardContent>
-            </Card>
+  // The summary and reason codes from the first bureau that reported them
+  const primary = standings.find((s) => Object.keys(s.latest.summary).length > 0)?.latest ?? standings[0].latest;
+  const factors = summaryFactors(primary.summary, pullType);
+  const reasonCodes = standings.flatMap((s) => s.latest.factors.map((f) => ({ ...f, bureau: s.latest.bureau })));
 
-            {/* Equifax Card */}
-            <Card className="overflow-hidden">
+  return (
+    <>
+      <div className={`grid grid-cols-1 gap-4 ${standings.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+        {standings.map(({ latest, change }) => {
+          const rating = getScoreRating(latest);
+          return (
+            <Card key={latest.bureau} className="overflow-hidden">
               <CardHeader className="pb-3">
-                <CardTitle className="text-lg font-semibold">Equifax</CardTitle>
+                <CardTitle className="text-lg font-semibold">{BUREAU_LABELS[latest.bureau]}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
                 <div className="flex items-end gap-3">
-                  <div className={`text-5xl font-bold ${getScoreRating(creditData.equifax.score).color}`}>
-                    {creditData.equifax.score}
-                  </div>
-                  <div className="pb-2 text-sm text-foreground">
-                    out of {creditData.equifax.maxScore}
-                  </div>
+                  <div className={`text-5xl font-bold ${rating.color}`}>{latest.score}</div>
+                  <div className="pb-2 text-sm text-foreground">out of {latest.score_max}</div>
                 </div>
                 <div className="flex items-center gap-2 text-sm">
-                  {creditData.equifax.change > 0 ? (
-                    <TrendingUp className="h-4 w-4 text-green-600" />
-                  ) : (
-                    <TrendingDown className="h-4 w-4 text-red-600" />
+                  {change !== null && change !== 0 && (
+                    <>
+                      {change > 0 ? (
+                        <TrendingUp className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <TrendingDown className="h-4 w-4 text-red-600" />
+                      )}
+                      <span className={change > 0 ? 'text-green-600' : 'text-red-600'}>
+                        {change > 0 ? '+' : ''}{change} {Math.abs(change) === 1 ? 'Point' : 'Points'}
+                      </span>
+                      <span className="text-foreground">•</span>
+                    </>
                   )}
-                  <span className={creditData.equifax.change > 0 ? 'text-green-600' : 'text-red-600'}>
-                    {creditData.equifax.change > 0 ? '+' : ''}{creditData.equifax.change} Points
-                  </span>
-                  <span className="text-foreground">• {creditData.equifax.rating}</span>
+                  <span className="text-foreground">{rating.label}</span>
                 </div>
-                <p className="text-xs text-foreground">Checked daily</p>
+                <p className="text-xs text-foreground">
+                  {latest.score_model ?? 'Score'} · reported {formatDate(latest.score_date)}
+                </p>
               </CardContent>
             </Card>
-          </div>
+          );
+        })}
+      </div>
 
-          <p className="text-sm text-foreground">
-            Scores checked daily with VantageScore 3.0
-          </p>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-sm text-foreground">
+          {latestPull
+            ? `Last checked ${new Date(latestPull.created_at).toLocaleDateString()} (${latestPull.inquiry_type} inquiry)`
+            : 'Scores from your lender'}
+        </p>
+        <Button variant="outline" size="sm" className="w-fit" onClick={onPull}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Check again
+        </Button>
+      </div>
 
-          {/* Score History Chart */}
-          <Card>
-            <CardHeader>
-              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
-                <div>
-                  <CardTitle>Score Trend</CardTitle>
-                  <CardDescription className="text-foreground">Your credit score over the last 3 months</CardDescription>
-                </div>
-                <Button 
-                  variant="link" 
-                  className="text-sm w-fit"
-                  onClick={() => navigate('/credit-score-simulator')}
-                >
-                  See what's changed <ArrowRight className="ml-1 h-4 w-4" />
-                </Button>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
+      {/* Score History Chart */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <CardTitle>Score Trend</CardTitle>
+              <CardDescription className="text-foreground">Your last reports from each bureau</CardDescription>
+            </div>
+            {pullType === 'consumer' && (
+              <Button
+                variant="link"
+                className="text-sm w-fit"
+                onClick={() => navigate('/credit-score-simulator')}
+              >
+                See what could change <ArrowRight className="ml-1 h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {standings.map(({ latest }) => {
+            const points = scores.filter((s) => s.bureau === latest.bureau).slice(0, 8).reverse();
+            return (
+              <div key={latest.bureau} className="space-y-2">
+                <p className="text-sm font-medium">{BUREAU_LABELS[latest.bureau]}</p>
                 <div className="flex items-end justify-between h-32 gap-1 sm:gap-2">
-                  {creditData.scoreHistory.map((point, index) => {
-                    const maxScore = Math.max(...creditData.scoreHistory.map(p => p.score));
-                    const height = (point.score / maxScore) * 100;
+                  {points.map((point) => {
+                    const height = 10 + ((point.score - point.score_min) / (point.score_max - point.score_min)) * 90;
                     return (
-                      <div key={index} className="flex flex-col items-center flex-1 gap-1">
+                      <div key={point.id} className="flex flex-col items-center justify-end flex-1 gap-1 h-full">
+                        <span className="text-[10px] sm:text-xs font-medium">{point.score}</span>
                         <div className="w-full bg-primary/20 rounded-t" style={{ height: `${height}%` }}>
                           <div className="w-full h-2 bg-primary rounded-t"></div>
                         </div>
-                        <span className="text-[10px] sm:text-xs text-foreground whitespace-nowrap">{point.date}</span>
+                        <span className="text-[10px] sm:text-xs text-foreground whitespace-nowrap">{formatDate(point.score_date)}</span>
                       </div>
                     );
                   })}
                 </div>
               </div>
-            </CardContent>
-          </Card>
+            );
+          })}
+        </CardContent>
+      </Card>
 
-          {/* Upcoming Bureau Reports */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Upcoming bureau reports</CardTitle>
-              <CardDescription className="text-foreground">
-                Based on your last credit report, we estimate these accounts will be reported to TransUnion in the next 7 days.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {creditData.upcomingReports.map((report, index) => (
-                  <div key={index} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 border rounded-lg">
-                    <div className="flex-1">
-                      <p className="font-medium text-sm">{report.account}</p>
-                      <p className="text-xs text-foreground">Due: {report.dueDate}</p>
-                    </div>
-                    <Badge variant="secondary" className="w-fit">{report.balance}</Badge>
+      {/* Credit Factors */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{pullType === 'consumer' ? 'Credit factors' : 'Business credit factors'}</CardTitle>
+          <CardDescription className="text-foreground">
+            See what's helping or hurting your score, as reported by {BUREAU_LABELS[primary.bureau]}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-6">
+            {factors.map((factor) => (
+              <div key={factor.name} className="flex items-center gap-3">
+                {factor.good ? (
+                  <CheckCircle2 className="h-5 w-5 text-green-600" />
+                ) : (
+                  <AlertCircle className="h-5 w-5 text-yellow-600" />
+                )}
+                <div className="flex-1">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="font-medium text-sm">{factor.name}</p>
+                    <span className="text-sm font-semibold">{factor.value}</span>
                   </div>
-                ))}
-              </div>
-              <Button 
-                variant="link" 
-                className="mt-4 p-0 h-auto text-sm w-fit"
-                onClick={() => navigate('/credit-score-simulator')}
-              >
-                Learn how debt reporting works <ArrowRight className="ml-1 h-4 w-4" />
-              </Button>
-            </CardContent>
-          </Card>
-
-          {/* Credit Factors */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Credit factors</CardTitle>
-              <CardDescription className="text-foreground">
-                See what's helping or hurting your score, and what to fix first. Try digging into your credit card use and payment history first. You can improve those factors more quickly.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-6">
-                {creditData.factors.map((factor, index) => (
-                  <div key={index} className="space-y-2">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-3 flex-1">
-                        {getStatusIcon(factor.icon)}
-                        <div className="flex-1">
-                          <div className="flex items-center justify-between mb-1">
-                            <p className="font-medium text-sm">{factor.name}</p>
-                            <div className="flex items-center gap-3">
-                              <span className="text-sm font-semibold">
-                                {typeof factor.value === 'number' && factor.name.includes('use') ? `${factor.value}%` : factor.value}
-                              </span>
-                            </div>
-                          </div>
-                          {typeof factor.value === 'number' && factor.name.includes('use') && (
-                            <Progress value={factor.value} className="h-2 mb-2" />
-                          )}
-                          <div className="flex items-center gap-2 text-xs">
-                            <Badge variant={factor.status === 'Excellent' || factor.status === 'Good' ? 'default' : 'secondary'}>
-                              {factor.status}
-                            </Badge>
-                            <span className={getImpactColor(factor.impact)}>{factor.impact}</span>
-                          </div>
-                        </div>
-                      </div>
-                    </div>
+                  {factor.percent !== undefined && <Progress value={factor.percent} className="h-2 mb-2" />}
+                  <div className="flex items-center gap-2 text-xs">
+                    <Badge variant={factor.good ? 'default' : 'secondary'}>{factor.good ? 'Good' : 'Needs work'}</Badge>
+                    <span className={getImpactColor(factor.impact)}>{factor.impact}</span>
                   </div>
-                ))}
-              </div>
-              <Button variant="outline" className="w-full mt-6">
-                View full credit report
-              </Button>
-            </CardContent>
-          </Card>
-
-          {/* Suggested Offers Section */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Suggested for your credit</CardTitle>
-              <CardDescription className="text-foreground">
-                We suggest offers based on your credit, Approval Odds, and money we make from our partners.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="text-center py-8 text-foreground">
-                <p className="text-sm">Credit card and loan offers will appear here based on your credit profile.</p>
+                </div>
               </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
+            ))}
+          </div>
 
-        <TabsContent value="business" className="space-y-6 mt-6">
-          {/* Dual Business Credit Score Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Dun & Bradstreet Card */}
-            <Card className="overflow-hidden">
-              <CardHeader className="pb-3">
-                <CardTitle className="text-lg font-semibold">Dun & Bradstreet</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                <div className="flex items-end gap-3">
-                  <div className={`text-5xl font-bold ${getScoreRating(businessCreditData.dnb.score * 8.5).color}`}>
-                    {businessCreditData.dnb.score}
-                  </div>
-                  <div className="pb-2 text-sm text-foreground">
-                    out of {businessCreditData.dnb.maxScore}
-                  </div>
-                </div>
-                <div className="flex items-center gap-2 text-sm">
-                  {businessCreditData.dnb.change > 0 ? (
-                    <TrendingUp className="h-4 w-4 text-green-600" />
-                  ) : (
-                    <TrendingDown className="h-4 w-4 text-red-600" />
-                  )}
-                  <span className={businessCreditData.dnb.change > 0 ? 'text-green-600' : 'text-red-600'}>
-                    {businessCreditData.dnb.change > 0 ? '+' : ''}{businessCreditData.dnb.change} Points
-                  </span>
-                  <span className="text-foreground">• {businessCreditData.dnb.rating}</span>
+          {reasonCodes.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <p className="text-sm font-medium">What the bureaus say is holding your score back</p>
+              {reasonCodes.map((reason) => (
+                <div key={`${reason.bureau}-${reason.code}`} className="flex items-start justify-between gap-3 text-sm p-3 border rounded-lg">
+                  <span>{reason.description}</span>
+                  <Badge variant="outline" className="shrink-0">{BUREAU_LABELS[reason.bureau]}</Badge>
                 </div>
-                <p className="text-xs text-foreground">Updated monthly</p>
-              </CardContent>
-            </Card>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
 
-            {/* Experian Business Card */}
-            <Card className="overflow-hidden">
-              <CardHeader className="pb-3">
-                <CardTitle className="text-lg font-semibold">Experian Business</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                <div className="flex items-end gap-3">
-                  <div className={`text-5xl font-bold ${getScoreRating(businessCreditData.experian.score * 8.5).color}`}>
-                    {businessCreditData.experian.score}
+      {/* Accounts */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{pullType === 'consumer' ? 'Accounts' : 'Trade lines'}</CardTitle>
+          <CardDescription className="text-foreground">
+            Accounts reported on your latest {TAB_COPY[pullType].noun}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {tradelines.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No accounts were reported.</p>
+          ) : (
+            <div className="space-y-3">
+              {tradelines.map((account) => (
+                <div key={account.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 border rounded-lg">
+                  <div className="flex-1">
+                    <p className="font-medium text-sm">
+                      {account.creditor_name}
+                      {account.account_number_last4 && <span className="text-muted-foreground"> ••••{account.account_number_last4}</span>}
+                    </p>
+                    <p className="text-xs text-foreground capitalize">
+                      {account.account_type.replace(/_/g, ' ')} · {BUREAU_LABELS[account.bureau]}
+                      {account.opened_on && ` · opened ${new Date(`${account.opened_on}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}`}
+                    </p>
                   </div>
-                  <div className="pb-2 text-sm text-foreground">
-                    out of {businessCreditData.experian.maxScore}
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">
+                      {formatCurrency(account.balance)}
+                      {account.credit_limit !== null && <span className="text-muted-foreground"> / {formatCurrency(account.credit_limit)}</span>}
+                    </span>
+                    <Badge variant={account.payment_status === 'current' ? 'secondary' : 'destructive'} className="w-fit">
+                      {PAYMENT_STATUS_LABELS[account.payment_status]}
+                    </Badge>
                   </div>
                 </div>
-                <div className="flex items-center gap-2 text-sm">
-                  {businessCreditData.experian.change > 0 ? (
-                    <TrendingUp className="h-4 w-4 text-green-600" />
-                  ) : (
-                    <TrendingDown className="h-4 w-4 text-red-600" />
-                  )}
-                  <span className={businessCreditData.experian.change > 0 ? 'text-green-600' : 'text-red-600'}>
-                    {businessCreditData.experian.change > 0 ? '+' : ''}{businessCreditData.experian.change} Points
-                  </span>
-                  <span className="text-foreground">• {businessCreditData.experian.rating}</span>
-                </div>
-                <p className="text-xs text-foreground">Updated monthly</p>
-              </CardContent>
-            </Card>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+};
+
+export default function CreditReports() {
+  const { toast } = useToast();
+  const [history, setHistory] = useState<CreditHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [pullType, setPullType] = useState<CreditPullType | null>(null);
+  const [consented, setConsented] = useState(false);
+  const [pulling, setPulling] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    creditBureauService
+      .history()
+      .then((result) => {
+        if (!cancelled) setHistory(result);
+      })
+      .catch((err) => {
+        console.error('Error loading credit history:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load your credit reports", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, toast]);
+
+  const openPull = (type: CreditPullType) => {
+    setConsented(false);
+    setPullType(type);
+  };
+
+  const handlePull = async () => {
+    if (!pullType) return;
+    setPulling(true);
+    try {
+      await creditBureauService.pullOwn(pullType);
+      toast({ title: "Report updated", description: `Your ${TAB_COPY[pullType].noun} is ready` });
+      setPullType(null);
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to pull your credit report",
+        variant: "destructive",
+      });
+    } finally {
+      setPulling(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        {/* Loading skeleton with banner */}
+        <div className="w-screen relative left-1/2 right-1/2 -ml-[50vw] -mr-[50vw] bg-blue-950 animate-pulse">
+          <div className="max-w-7xl mx-auto sm:px-6 md:py-[30px] lg:px-[34px] px-[30px] py-[15px]">
+            <div className="h-8 bg-white/20 rounded w-64 mb-2"></div>
+            <div className="h-4 bg-white/10 rounded w-48"></div>
           </div>
+        </div>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6">
+          <div className="space-y-6 animate-pulse">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="h-48 bg-muted rounded-lg"></div>
+              <div className="h-48 bg-muted rounded-lg"></div>
+            </div>
+            <div className="h-96 bg-muted rounded-lg"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
 
-          <p className="text-sm text-foreground">
-            Business credit scores updated monthly by major commercial credit bureaus
-          </p>
+  const emptyHistory: CreditHistory = { pulls: [], scores: [] };
+  const countFor = (type: CreditPullType) =>
+    new Set((history ?? emptyHistory).scores.filter((s) => s.score_type === type).map((s) => s.bureau)).size;
 
-          {/* Business Score History Chart */}
-          <Card>
-            <CardHeader>
-              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
-                <div>
-                  <CardTitle>Business Score Trend</CardTitle>
-                  <CardDescription className="text-foreground">Your business credit score over the last 3 months</CardDescription>
-                </div>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                <div className="flex items-end justify-between h-32 gap-1 sm:gap-2">
-                  {businessCreditData.scoreHistory.map((point, index) => {
-                    const maxScore = Math.max(...businessCreditData.scoreHistory.map(p => p.score));
-                    const height = (point.score / maxScore) * 100;
-                    return (
-                      <div key={index} className="flex flex-col items-center flex-1 gap-1">
-                        <div className="w-full bg-primary/20 rounded-t" style={{ height: `${height}%` }}>
-                          <div className="w-full h-2 bg-primary rounded-t"></div>
-                        </div>
-                        <span className="text-[10px] sm:text-xs text-foreground whitespace-nowrap">{point.date}</span>
-                      </div>
-                    );
-                  })}
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader
+        title="Credit Reports Dashboard"
+        subtitle="Monitor your personal and business credit scores"
+      />
 
-          {/* Upcoming Business Reports */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Upcoming business reports</CardTitle>
-              <CardDescription className="text-foreground">
-                Based on your business credit report, we estimate these accounts will be reported in the next 30 days.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {businessCreditData.upcomingReports.map((report, index) => (
-                  <div key={index} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 border rounded-lg">
-                    <div className="flex-1">
-                      <p className="font-medium text-sm">{report.account}</p>
-                      <p className="text-xs text-foreground">Due: {report.dueDate}</p>
-                    </div>
-                    <Badge variant="secondary" className="w-fit">{report.balance}</Badge>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6 pb-12 space-y-6">
+        {/* Tabs for Personal vs Business */}
+        <Tabs defaultValue="personal" className="w-full">
+          <TabsList className="grid w-full max-w-md grid-cols-2">
+            <TabsTrigger value="personal" count={countFor('consumer')}>Personal Credit</TabsTrigger>
+            <TabsTrigger value="business" count={countFor('business')}>Business Credit</TabsTrigger>
+          </TabsList>
 
-          {/* Business Credit Factors */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Business credit factors</CardTitle>
-              <CardDescription className="text-foreground">
-                Key factors affecting your business credit score. Focus on payment history and credit utilization for the fastest improvements.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-6">
-                {businessCreditData.factors.map((factor, index) => (
-                  <div key={index} className="space-y-2">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-3 flex-1">
-                        {getStatusIcon(factor.icon)}
-                        <div className="flex-1">
-                          <div className="flex items-center justify-between mb-1">
-                            <p className="font-medium text-sm">{factor.name}</p>
-                            <div className="flex items-center gap-3">
-                              <span className="text-sm font-semibold">
-                                {typeof factor.value === 'number' && factor.name.includes('utilization') ? `${factor.value}%` : factor.value}
-                              </span>
-                            </div>
-                          </div>
-                          {typeof factor.value === 'number' && factor.name.includes('utilization') && (
-                            <Progress value={factor.value} className="h-2 mb-2" />
-                          )}
-                          <div className="flex items-center gap-2 text-xs">
-                            <Badge variant={factor.status === 'Excellent' || factor.status === 'Good' ? 'default' : 'secondary'}>
-                              {factor.status}
-                            </Badge>
-                            <span className={getImpactColor(factor.impact)}>{factor.impact}</span>
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-              <Button variant="outline" className="w-full mt-6">
-                View full business credit report
-              </Button>
-            </CardContent>
-          </Card>
+          <TabsContent value="personal" className="space-y-6 mt-6">
+            <CreditTab pullType="consumer" history={history ?? emptyHistory} onPull={() => openPull('consumer')} />
+          </TabsContent>
 
-          {/* Business Financing Offers */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Business financing offers</CardTitle>
-              <CardDescription className="text-foreground">
-                Financing options based on your business credit profile and financial health.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="text-center py-8 text-foreground">
-                <p className="text-sm">Business loan and line of credit offers will appear here based on your business credit profile.</p>
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
-      </Tabs>
+          <TabsContent value="business" className="space-y-6 mt-6">
+            <CreditTab pullType="business" history={history ?? emptyHistory} onPull={() => openPull('business')} />
+          </TabsContent>
+        </Tabs>
       </div>
+
+      <Dialog open={pullType !== null} onOpenChange={(open) => !open && setPullType(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Check your {pullType ? TAB_COPY[pullType].noun : 'credit report'}</DialogTitle>
+            <DialogDescription>
+              We'll request your report from{' '}
+              {(pullType === 'business' ? BUSINESS_BUREAUS : CONSUMER_BUREAUS).map((b) => BUREAU_LABELS[b]).join(', ')}.
+              This is a soft inquiry and won't affect your score.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-start gap-2">
+            <Checkbox id="credit-consent" checked={consented} onCheckedChange={(checked) => setConsented(checked === true)} />
+            <Label htmlFor="credit-consent" className="text-sm font-normal leading-snug">
+              I authorize Halo Business Finance to obtain my {pullType === 'business' ? 'business' : 'personal'} credit report
+              for my own review, under my written instruction as permitted by the Fair Credit Reporting Act.
+            </Label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPullType(null)}>Cancel</Button>
+            <Button onClick={handlePull} disabled={!consented || pulling}>
+              {pulling ? 'Requesting...' : 'Get my report'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
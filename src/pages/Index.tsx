@@ -20,6 +20,7 @@ import { Badge } from "@/components/ui/badge";
 import { ModernTabs as Tabs, ModernTabsContent as TabsContent, ModernTabsList as TabsList, ModernTabsTrigger as TabsTrigger } from "@/components/ui/modern-tabs";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { useLoanProducts } from "@/hooks/useLoanProducts";
 import ApplicationsList from "@/components/ApplicationsList";
 import RefinanceForm from "@/components/forms/RefinanceForm";
 import BridgeLoanForm from "@/components/forms/BridgeLoanForm";
@@ -51,6 +52,7 @@ const FundedLoansView = ({
 }) => {
   const [fundedLoans, setFundedLoans] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const { getLabel } = useLoanProducts();
   useEffect(() => {
     const fetchFundedLoans = async () => {
       if (!userId) return;
@@ -60,19 +62,6 @@ const FundedLoansView = ({
     };
     fetchFundedLoans();
   }, [userId]);
-  const getLoanTypeDisplay = (loanType: string) => {
-    const types = {
-      refinance: 'Refinance',
-      bridge_loan: 'Bridge Loan',
-      working_capital: 'Working Capital Loan',
-      sba_7a: 'SBA 7(a)',
-      sba_504: 'SBA 504',
-      equipment_financing: 'Equipment Financing',
-      term_loan: 'Term Loan',
-      business_line_of_credit: 'Business Line of Credit'
-    };
-    return types[loanType as keyof typeof types] || loanType;
-  };
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -124,7 +113,7 @@ const FundedLoansView = ({
                   </p>
                   <div className="flex items-center gap-4 text-sm">
                     <span className="text-foreground">
-                      <span className="font-semibold">Type:</span> {getLoanTypeDisplay(loan.loan_type)}
+                      <span className="font-semibold">Type:</span> {getLabel(loan.loan_type)}
                     </span>
                     <span className="text-foreground">
                       <span className="font-semibold">Amount:</span> {formatCurrency(loan.amount_requested)}
@@ -305,103 +294,6 @@ const Index = () => {
       setSelectedLoanType(parseInt(loanTypeId));
     }
   }, [loanTypeId]);
-  const loanPrograms = [{
-    id: 1,
-    title: "SBA 7(a) Loans",
-    icon: Shield,
-    description: "Versatile financing for working capital, equipment, and real estate purchases",
-    badge: "Prime + 2.75%",
-    badgeColor: "bg-primary",
-    details: "Up to $5 million | Long-term financing | Most popular SBA program"
-  }, {
-    id: 2,
-    title: "SBA 504 Loans",
-    icon: Building,
-    description: "Fixed-rate financing for real estate and major equipment purchases",
-    badge: "Fixed Rate",
-    badgeColor: "bg-primary",
-    details: "Up to $5.5 million | 10% down payment | Long-term fixed rates"
-  }, {
-    id: 3,
-    title: "USDA B&I Loans",
-    icon: Shield,
-    description: "Rural business development financing backed by USDA guarantee",
-    badge: "Prime + 2%",
-    badgeColor: "bg-primary",
-    details: "Up to $25 million | Rural area focus | Job creation requirements"
-  }, {
-    id: 4,
-    title: "Bridge Loans",
-    icon: Building2,
-    description: "Short-term financing to bridge cash flow gaps while securing permanent financing",
-    badge: "8.5% APR",
-    badgeColor: "bg-accent",
-    details: "Fast 7-day closing | Up to $10 million | Quick access to capital"
-  }, {
-    id: 5,
-    title: "Conventional Loans",
-    icon: CreditCard,
-    description: "Traditional commercial financing for established businesses with strong credit profiles",
-    badge: "5.25% APR",
-    badgeColor: "bg-accent",
-    details: "No government guarantee | Faster approval | Flexible terms"
-  }, {
-    id: 6,
-    title: "Equipment Financing",
-    icon: Settings,
-    description: "Fund new or used equipment purchases with competitive terms",
-    badge: "6.25% APR",
-    badgeColor: "bg-accent",
-    details: "100% financing available | Fast approval | Equipment as collateral"
-  }, {
-    id: 7,
-    title: "Working Capital Loan",
-    icon: TrendingUp,
-    description: "Bridge cash flow gaps and fund day-to-day business operations",
-    badge: "Prime + 1%",
-    badgeColor: "bg-accent",
-    details: "Revolving credit line | Quick access | Fund daily operations"
-  }, {
-    id: 8,
-    title: "Business Line of Credit",
-    icon: CreditCard,
-    description: "Flexible access to capital when you need it with revolving credit lines",
-    badge: "Prime + 2%",
-    badgeColor: "bg-accent",
-    details: "Draw as needed | Pay interest only on used funds | Revolving credit"
-  }, {
-    id: 9,
-    title: "Term Loans",
-    icon: Banknote,
-    description: "Fixed-rate business loans for major investments and growth initiatives",
-    badge: "5.75% APR",
-    badgeColor: "bg-accent",
-    details: "Fixed monthly payments | Competitive rates | Major investments"
-  }, {
-    id: 10,
-    title: "Invoice Factoring",
-    icon: FileText,
-    description: "Convert outstanding invoices into immediate cash flow for your business",
-    badge: "1.5% Factor",
-    badgeColor: "bg-accent",
-    details: "90% advance rate | Same-day funding | No debt on balance sheet"
-  }, {
-    id: 11,
-    title: "Refinance Loans",
-    icon: RotateCcw,
-    description: "Refinance existing debt to improve cash flow and reduce monthly payments",
-    badge: "4.5% APR",
-    badgeColor: "bg-accent",
-    details: "Lower payments | Improved terms | Debt consolidation"
-  }, {
-    id: 12,
-    title: "SBA Express Loans",
-    icon: Zap,
-    description: "Fast-track SBA financing with expedited approval process",
-    badge: "Prime + 4.5%",
-    badgeColor: "bg-primary",
-    details: "Up to $500K | 36-hour approval | Express processing"
-  }];
   const handleLoanTypeSelect = (id: number) => {
     setSelectedLoanType(id);
     navigate(`/?id=${id}`);
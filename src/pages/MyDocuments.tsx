@@ -6,7 +6,10 @@ import { useToast } from '@/hooks/use-toast';
 import { restQuery, storageUpload, storageCreateSignedUrl, storageRemove, invokeEdgeFunction } from '@/services/supabaseHttp';
 import { authProvider } from '@/services/auth';
 import { crmSyncService } from '@/services/crmSyncService';
+import { bankStatementService } from '@/services/bankStatementService';
 import { PageHeader } from '@/components/PageHeader';
+import { BorrowerConditionsCard } from '@/components/conditions';
+import { PendingSignaturesCard } from '@/components/e-signature';
 import { 
   Upload, 
   ChevronRight,
@@ -43,6 +46,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
+import { DOCUMENT_CATEGORIES } from '@/config/documentCategories';
 
 interface Document {
   id: string;
@@ -61,6 +65,7 @@ interface Document {
 interface FolderCategory {
   id: string;
   name: string;
+  issuedByLender?: boolean;
   count: number;
 }
 
@@ -99,20 +104,10 @@ const MyDocuments = () => {
   const [linkExpiry, setLinkExpiry] = useState('3600'); // Default 1 hour
   const [recipientEmail, setRecipientEmail] = useState('');
   const [sendingEmail, setSendingEmail] = useState(false);
+  // Uploads can satisfy open conditions, so the conditions card reloads after each one
+  const [conditionsRefreshKey, setConditionsRefreshKey] = useState(0);
 
-  const folders: FolderCategory[] = [
-    { id: 'business_tax_returns', name: 'Business Tax Returns', count: 0 },
-    { id: 'personal_tax_returns', name: 'Personal Tax Returns', count: 0 },
-    { id: 'pl_balance_sheet', name: 'P&L and Balance Sheet', count: 0 },
-    { id: 'bank_statements', name: 'Bank Statements', count: 0 },
-    { id: 'debt_schedule', name: 'Debt Schedule and Notes', count: 0 },
-    { id: 'loan_app_license', name: "Loan Application & Driver's License", count: 0 },
-    { id: 'ar_ap', name: 'AR & AP', count: 0 },
-    { id: 'projections_resume', name: 'Projections, Resume & Business Plan', count: 0 },
-    { id: 'sba_bank_docs', name: 'SBA & Bank Documents', count: 0 },
-    { id: 'corp_articles', name: 'Corp Articles, Operating Agreement & EIN Form', count: 0 },
-    { id: 'miscellaneous', name: 'Miscellaneous', count: 0 },
-  ];
+  const folders: FolderCategory[] = DOCUMENT_CATEGORIES.map((c) => ({ ...c, count: 0 }));
 
   useEffect(() => {
     if (!loading && !authenticated) {
@@ -157,6 +152,21 @@ const MyDocuments = () => {
     }
   };
 
+  // Statements are read in the background so their transactions reach underwriting without linking a bank
+  const parseStatementInBackground = (documentId: string, fileName: string) => {
+    bankStatementService.parse(documentId)
+      .then((parsed) => {
+        if (parsed.status === 'failed') {
+          toast({
+            title: "Statement could not be read",
+            description: `${fileName}: ${parsed.error}`,
+            variant: "destructive"
+          });
+        }
+      })
+      .catch(err => console.warn('[Bank Statements] Parse error:', err));
+  };
+
   const validateFileType = (file: File): { valid: boolean; error?: string } => {
     const allowedTypes = {
       'application/pdf': ['.pdf'],
@@ -166,6 +176,10 @@ const MyDocuments = () => {
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
       'image/jpeg': ['.jpg', '.jpeg'],
       'image/png': ['.png'],
+      // Bank statement exports from online banking
+      'text/csv': ['.csv'],
+      'application/x-ofx': ['.ofx'],
+      'application/vnd.intu.qfx': ['.qfx'],
     };
 
     const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
@@ -175,7 +189,7 @@ const MyDocuments = () => {
     if (!isValidType && !isValidExtension) {
       return {
         valid: false,
-        error: 'Invalid file type. Please upload PDF, Word, Excel, or image files (JPG, PNG).'
+        error: 'Invalid file type. Please upload PDF, Word, Excel, CSV, OFX/QFX, or image files (JPG, PNG).'
       };
     }
 
@@ -279,7 +293,7 @@ const MyDocuments = () => {
             cacheControl: '3600',
           });
 
-          await restQuery('borrower_documents', {
+          const { data: inserted } = await restQuery<{ id: string }[]>('borrower_documents', {
             method: 'POST',
             body: [{
               user_id: user.id,
@@ -290,12 +304,16 @@ const MyDocuments = () => {
               document_category: selectedCategory,
               description: null
             }],
+            returnData: true,
           });
 
+          if (selectedCategory === 'bank_statements' && inserted?.[0]) {
+            parseStatementInBackground(inserted[0].id, file.name);
+          }
+
           // Sync to CRM (non-blocking)
           crmSyncService.syncDocumentUpload({
             user_id: user.id,
-            document_id: `${Date.now()}`,
             document_name: file.name,
             document_category: selectedCategory,
           }).catch(err => console.warn('[CRM Sync] Doc sync error:', err));
@@ -328,6 +346,7 @@ const MyDocuments = () => {
         setUploadDialogOpen(false);
         setUploadProgress(0);
         loadDocuments();
+        setConditionsRefreshKey((key) => key + 1);
       }, 500);
     } catch (error) {
       console.error('Error uploading documents:', error);
@@ -620,7 +639,7 @@ const MyDocuments = () => {
       clearInterval(progressInterval);
       setUploadProgress(95);
 
-      await restQuery('borrower_documents', {
+      const { data: inserted } = await restQuery<{ id: string }[]>('borrower_documents', {
         method: 'POST',
         body: [{
           user_id: user.id,
@@ -634,12 +653,16 @@ const MyDocuments = () => {
           parent_document_id: rootDocId,
           is_latest_version: true
         }],
+        returnData: true,
       });
 
+      if (documentToUpdate.document_category === 'bank_statements' && inserted?.[0]) {
+        parseStatementInBackground(inserted[0].id, newVersionFile.name);
+      }
+
       // Sync version upload to CRM (non-blocking)
       crmSyncService.syncDocumentUpload({
         user_id: user.id,
-        document_id: rootDocId,
         document_name: `${newVersionFile.name} (v${nextVersion})`,
         document_category: documentToUpdate.document_category,
       }).catch(err => console.warn('[CRM Sync] Doc version sync error:', err));
@@ -738,6 +761,20 @@ const MyDocuments = () => {
       </PageHeader>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6">
+        <div className="mb-4 empty:hidden">
+          <PendingSignaturesCard />
+        </div>
+        <div className="mb-4 empty:hidden">
+          <BorrowerConditionsCard
+            documents={documents}
+            refreshKey={conditionsRefreshKey}
+            onUpload={(category) => {
+              if (category) setSelectedCategory(category);
+              setUploadDialogOpen(true);
+            }}
+          />
+        </div>
+
         {/* Folders List */}
         <div className="bg-white rounded-lg border">
           {folders.map((folder) => {
@@ -868,7 +905,7 @@ const MyDocuments = () => {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {folders.map((folder) => (
+                  {folders.filter((folder) => !folder.issuedByLender).map((folder) => (
                     <SelectItem key={folder.id} value={folder.id}>
                       {folder.name}
                     </SelectItem>
@@ -895,7 +932,7 @@ const MyDocuments = () => {
                   type="file"
                   multiple
                   onChange={handleFileSelect}
-                  accept=".pdf,.doc,.docx,.xls,.xlsx,.jpg,.jpeg,.png"
+                  accept=".pdf,.doc,.docx,.xls,.xlsx,.csv,.ofx,.qfx,.jpg,.jpeg,.png"
                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                 />
                 <div className="text-center">
@@ -1034,7 +1071,7 @@ const MyDocuments = () => {
                 id="version-file"
                 type="file"
                 onChange={handleNewVersionFileSelect}
-                accept=".pdf,.doc,.docx,.xls,.xlsx,.jpg,.jpeg,.png"
+                accept=".pdf,.doc,.docx,.xls,.xlsx,.csv,.ofx,.qfx,.jpg,.jpeg,.png"
                 disabled={uploading}
               />
               {newVersionFile && (
@@ -7,6 +7,7 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
+import { SmsSettingsCard } from '@/components/notifications';
 import {
   notificationPreferencesService,
   NotificationPreferences,
@@ -122,6 +123,8 @@ const NotificationPreferencesPage = () => {
         </p>
       </div>
 
+      <SmsSettingsCard smsEnabled={Object.values(preferences).some((p) => p.sms)} />
+
       <Card className="mb-6">
         <CardHeader>
           <CardTitle>Quick Actions</CardTitle>
@@ -0,0 +1,270 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { PageHeader } from '@/components/PageHeader';
+import { SignaturePad } from '@/components/e-signature';
+import { useToast } from '@/hooks/use-toast';
+import {
+  signatureService,
+  SIGNATURE_STATUS_LABELS,
+  type AdoptedSignature,
+  type SignatureRequestDetail,
+} from '@/services/signatureService';
+import type { SignatureDrawing } from '@/utils/pdfGenerator';
+import { ArrowLeft, CheckCircle, FileText, PenLine } from 'lucide-react';
+
+interface Ceremony {
+  detail: SignatureRequestDetail;
+  /** Exactly what the signer is shown: the disclosure text or the document file */
+  presented: string | Blob | null;
+  documentUrl: string | null;
+  /** The signer's IP as the server saw it when the ceremony began */
+  ipAddress: string | null;
+}
+
+const SignDocument = () => {
+  const { requestId } = useParams<{ requestId: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [ceremony, setCeremony] = useState<Ceremony | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [signatureType, setSignatureType] = useState<'typed' | 'drawn'>('typed');
+  const [signatureName, setSignatureName] = useState('');
+  const [drawing, setDrawing] = useState<SignatureDrawing | null>(null);
+  const [consented, setConsented] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [declineOpen, setDeclineOpen] = useState(false);
+  const [declineReason, setDeclineReason] = useState('');
+
+  useEffect(() => {
+    if (!requestId) return;
+    let cancelled = false;
+    let documentUrl: string | null = null;
+
+    const load = async (): Promise<Ceremony> => {
+      const detail = await signatureService.get(requestId);
+      if (detail.request.status !== 'pending') {
+        return { detail, presented: null, documentUrl: null, ipAddress: null };
+      }
+      const presented = detail.disclosure ? detail.disclosure.body : await signatureService.loadSourceDocument(detail);
+      const { ip } = await signatureService.begin(requestId);
+      if (presented instanceof Blob) documentUrl = URL.createObjectURL(presented);
+      return { detail, presented, documentUrl, ipAddress: ip };
+    };
+
+    load()
+      .then((result) => {
+        if (!cancelled) setCeremony(result);
+      })
+      .catch((err) => {
+        console.error('Error loading signature request:', err);
+        if (!cancelled) {
+          toast({
+            title: "Error",
+            description: err instanceof Error ? err.message : "Failed to load the document",
+            variant: "destructive",
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+      if (documentUrl) URL.revokeObjectURL(documentUrl);
+    };
+  }, [requestId, toast]);
+
+  const adopted: AdoptedSignature | null = !signatureName.trim()
+    ? null
+    : signatureType === 'typed'
+      ? { type: 'typed', name: signatureName.trim() }
+      : drawing
+        ? { type: 'drawn', name: signatureName.trim(), drawing }
+        : null;
+
+  const handleSign = async () => {
+    if (!ceremony?.presented || !adopted) return;
+    setWorking(true);
+    try {
+      const request = await signatureService.sign(ceremony.detail, ceremony.presented, adopted, ceremony.ipAddress);
+      // Reload so the signed copy can be opened straight away
+      setCeremony({ ...ceremony, detail: await signatureService.get(request.id) });
+      toast({ title: "Signed", description: "A signed copy has been saved to your documents" });
+    } catch (err) {
+      console.error('Error signing document:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to sign the document",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!ceremony) return;
+    setWorking(true);
+    try {
+      const request = await signatureService.decline(ceremony.detail.request.id, declineReason);
+      setCeremony({ ...ceremony, detail: { ...ceremony.detail, request } });
+      setDeclineOpen(false);
+      toast({ title: "Declined", description: "We have let your loan officer know" });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to decline",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const request = ceremony?.detail.request;
+  const signedDocument = ceremony?.detail.signedDocument;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader
+        title="Review & Sign"
+        subtitle={request?.title}
+        loading={loading}
+      >
+        <Button variant="outline" className="text-foreground" onClick={() => navigate('/my-documents')}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          My Documents
+        </Button>
+      </PageHeader>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 pt-6 pb-12 space-y-4">
+        {loading ? (
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto" />
+        ) : !ceremony || !request ? (
+          <p className="text-muted-foreground text-center">This signature request could not be found.</p>
+        ) : request.status !== 'pending' ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {request.status === 'signed' && <CheckCircle className="w-5 h-5 text-green-600" />}
+                {request.title}
+              </CardTitle>
+              <CardDescription>
+                <Badge variant="outline">{SIGNATURE_STATUS_LABELS[request.status]}</Badge>
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              {request.status === 'signed' && request.signed_at ? (
+                <>
+                  <p>
+                    Signed by {request.signature_name} on {new Date(request.signed_at).toLocaleString()}.
+                  </p>
+                  {signedDocument && (
+                    <Button variant="outline" onClick={() => signatureService.open(signedDocument.file_path)}>
+                      <FileText className="w-4 h-4 mr-2" />
+                      View signed copy
+                    </Button>
+                  )}
+                </>
+              ) : (
+                <p className="text-muted-foreground">This request is no longer open for signature.</p>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>{ceremony.detail.disclosure?.title ?? request.title}</CardTitle>
+                <CardDescription>Please read the following carefully before signing.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {ceremony.detail.disclosure ? (
+                  <p className="text-sm whitespace-pre-wrap leading-relaxed">{ceremony.detail.disclosure.body}</p>
+                ) : ceremony.documentUrl ? (
+                  <iframe title={request.title} src={ceremony.documentUrl} className="w-full h-[600px] rounded-md border" />
+                ) : null}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <PenLine className="w-5 h-5" />
+                  Adopt Your Signature
+                </CardTitle>
+                <CardDescription>
+                  Your signature, the time, your IP address and a fingerprint of this document are recorded with it.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="signature-name">Full legal name</Label>
+                  <Input
+                    id="signature-name"
+                    value={signatureName}
+                    onChange={(e) => setSignatureName(e.target.value)}
+                    autoComplete="name"
+                  />
+                </div>
+                <Tabs value={signatureType} onValueChange={(value) => setSignatureType(value as 'typed' | 'drawn')}>
+                  <TabsList>
+                    <TabsTrigger value="typed">Type</TabsTrigger>
+                    <TabsTrigger value="drawn">Draw</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="typed">
+                    <div className="h-20 flex items-center px-4 rounded-md border bg-white">
+                      <span className="text-3xl italic font-serif text-gray-900">{signatureName}</span>
+                    </div>
+                  </TabsContent>
+                  <TabsContent value="drawn">
+                    <SignaturePad onChange={setDrawing} />
+                  </TabsContent>
+                </Tabs>
+                <div className="flex items-start gap-2">
+                  <Checkbox id="signature-consent" checked={consented} onCheckedChange={(checked) => setConsented(checked === true)} />
+                  <Label htmlFor="signature-consent" className="text-sm font-normal leading-snug">
+                    I have reviewed the document above and agree that my electronic signature is the legal equivalent of my handwritten signature.
+                  </Label>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2 sm:justify-end">
+                  <Button variant="ghost" onClick={() => setDeclineOpen(true)} disabled={working}>
+                    Decline
+                  </Button>
+                  <Button onClick={handleSign} disabled={working || !consented || !adopted}>
+                    {working ? 'Signing...' : 'Sign'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <Dialog open={declineOpen} onOpenChange={setDeclineOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Decline to sign</DialogTitle>
+            <DialogDescription>Let us know why so your loan officer can follow up.</DialogDescription>
+          </DialogHeader>
+          <Textarea value={declineReason} onChange={(e) => setDeclineReason(e.target.value)} placeholder="Reason (optional)" />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeclineOpen(false)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleDecline} disabled={working}>Decline</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SignDocument;
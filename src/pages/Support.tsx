@@ -1,27 +1,155 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import { ModernTabs as Tabs, ModernTabsContent as TabsContent, ModernTabsList as TabsList, ModernTabsTrigger as TabsTrigger } from '@/components/ui/modern-tabs';
 import { MessageSquare, Send, Ticket, Mail } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { PageHeader } from '@/components/PageHeader';
+import { TicketStatusBadge, TicketThread } from '@/components/support';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
+import { getDocumentCategoryName } from '@/config/documentCategories';
+import {
+  supportTicketService,
+  SUPPORT_TICKET_CATEGORY_LABELS,
+  SUPPORT_TICKET_PRIORITY_LABELS,
+  type SupportTicket,
+  type SupportTicketCategory,
+  type SupportTicketLinks,
+  type SupportTicketMessage,
+} from '@/services/supportTicketService';
+
+type BorrowerPriority = 'low' | 'normal' | 'high';
+
+interface TicketForm {
+  subject: string;
+  message: string;
+  category: SupportTicketCategory;
+  priority: BorrowerPriority;
+  applicationId: string;
+  documentId: string;
+}
+
+const EMPTY_FORM: TicketForm = {
+  subject: '',
+  message: '',
+  category: 'general',
+  priority: 'normal',
+  applicationId: 'none',
+  documentId: 'none',
+};
 
 const Support = () => {
   const { toast } = useToast();
-  const { username } = useAuth();
-  const [ticketSubject, setTicketSubject] = useState('');
-  const [ticketMessage, setTicketMessage] = useState('');
-  const [chatMessage, setChatMessage] = useState('');
-  const [chatMessages, setChatMessages] = useState<Array<{ text: string; sender: 'user' | 'support' }>>([]);
+  const { username, user } = useAuth();
+  const { getLabel } = useLoanProducts();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [tickets, setTickets] = useState<SupportTicket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [links, setLinks] = useState<SupportTicketLinks>({ applications: [], documents: [] });
+  const [form, setForm] = useState<TicketForm>(EMPTY_FORM);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [activeTicket, setActiveTicket] = useState<{ ticket: SupportTicket; messages: SupportTicketMessage[] } | null>(null);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const activeTab = searchParams.get('tab') === 'new' ? 'new' : 'tickets';
+  const openTicketId = searchParams.get('ticket');
+
+  useEffect(() => {
+    let cancelled = false;
+    supportTicketService.listTickets()
+      .then((rows) => {
+        if (!cancelled) setTickets(rows);
+      })
+      .catch((error) => {
+        console.error('Error loading tickets:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+    supportTicketService.getLinkableRecords(user.id)
+      .then((records) => {
+        if (!cancelled) setLinks(records);
+      })
+      .catch((error) => {
+        console.error('Error loading applications and documents:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  // Notifications link straight to a ticket with ?ticket=<id>
+  useEffect(() => {
+    if (!openTicketId) return;
+    let cancelled = false;
+    supportTicketService.getTicket(openTicketId)
+      .then((detail) => {
+        if (!cancelled) setActiveTicket(detail);
+      })
+      .catch((error) => {
+        console.error('Error loading ticket:', error);
+        if (!cancelled) {
+          toast({
+            title: "Ticket not found",
+            description: "It may have been removed or belong to another account",
+            variant: "destructive",
+          });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [openTicketId, toast]);
+
+  const setTab = (tab: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (tab === 'new') next.set('tab', 'new');
+    else next.delete('tab');
+    setSearchParams(next);
+  };
+
+  const openTicket = (ticketId: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (ticketId) next.set('ticket', ticketId);
+    else next.delete('ticket');
+    setSearchParams(next);
+    if (!ticketId) {
+      setActiveTicket(null);
+      setReply('');
+    }
+  };
+
+  const refreshTickets = async () => {
+    try {
+      setTickets(await supportTicketService.listTickets());
+    } catch (error) {
+      console.error('Error loading tickets:', error);
+    }
+  };
 
   const handleSubmitTicket = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!ticketSubject.trim() || !ticketMessage.trim()) {
+
+    if (!form.subject.trim() || !form.message.trim()) {
       toast({
         title: "Missing Information",
         description: "Please fill in all fields",
@@ -30,109 +158,120 @@ const Support = () => {
       return;
     }
 
-    // Here you would integrate with your backend
-    toast({
-      title: "Ticket Submitted",
-      description: "Our team will respond within 24 hours",
-    });
-
-    setTicketSubject('');
-    setTicketMessage('');
+    setSubmitting(true);
+    try {
+      const ticket = await supportTicketService.createTicket({
+        subject: form.subject.trim(),
+        description: form.message.trim(),
+        category: form.category,
+        priority: form.priority,
+        loanApplicationId: form.applicationId === 'none' ? undefined : form.applicationId,
+        documentId: form.documentId === 'none' ? undefined : form.documentId,
+      });
+      toast({
+        title: "Ticket Submitted",
+        description: `${ticket.ticket_number} is open. We'll reply here and notify you.`,
+      });
+      setForm(EMPTY_FORM);
+      setTickets((prev) => [ticket, ...prev]);
+      setTab('tickets');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to submit ticket",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
   };
 
-  const handleSendMessage = () => {
-    if (!chatMessage.trim()) return;
-
-    setChatMessages([...chatMessages, { text: chatMessage, sender: 'user' }]);
-    setChatMessage('');
+  const handleSendReply = async () => {
+    if (!activeTicket || !reply.trim()) return;
 
-    // Simulate support response
-    setTimeout(() => {
-      setChatMessages(prev => [...prev, { 
-        text: "Thank you for your message. A support agent will be with you shortly.", 
-        sender: 'support' 
-      }]);
-    }, 1000);
+    setSending(true);
+    try {
+      const message = await supportTicketService.reply(activeTicket.ticket.id, reply.trim());
+      setActiveTicket({ ...activeTicket, messages: [...activeTicket.messages, message] });
+      setReply('');
+      await refreshTickets();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send reply",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
   };
 
+  const openCount = tickets.filter((t) => t.status !== 'closed' && t.status !== 'resolved').length;
+
   return (
     <div className="min-h-screen bg-background">
-      <PageHeader 
-        title="Support Center" 
+      <PageHeader
+        title="Support Center"
         subtitle="Get help with your loan applications and account"
       />
 
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 pt-6 space-y-6">
 
-        <Tabs defaultValue="chat" className="w-full">
+        <Tabs value={activeTab} onValueChange={setTab} className="w-full">
           <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="chat" count={chatMessages.length} className="flex items-center gap-2">
+            <TabsTrigger value="tickets" count={openCount} className="flex items-center gap-2">
               <MessageSquare className="w-4 h-4" />
-              Live Chat
+              My Tickets
             </TabsTrigger>
-            <TabsTrigger value="ticket" className="flex items-center gap-2">
+            <TabsTrigger value="new" className="flex items-center gap-2">
               <Ticket className="w-4 h-4" />
               Create Ticket
             </TabsTrigger>
           </TabsList>
 
-          <TabsContent value="chat" className="mt-6">
+          <TabsContent value="tickets" className="mt-6">
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2 text-blue-900">
                   <MessageSquare className="w-5 h-5" />
-                  Live Chat Support
+                  My Support Tickets
                 </CardTitle>
-                <CardDescription>Chat with our support team in real-time</CardDescription>
+                <CardDescription>Follow up on your requests and reply to our team</CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  <div className="border rounded-lg p-4 h-96 overflow-y-auto bg-muted/30">
-                    {chatMessages.length === 0 ? (
-                      <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
-                        <MessageSquare className="w-12 h-12 mb-2" />
-                        <p>Start a conversation with our support team</p>
-                      </div>
-                    ) : (
-                      <div className="space-y-3">
-                        {chatMessages.map((msg, idx) => (
-                          <div
-                            key={idx}
-                            className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}
-                          >
-                            <div
-                              className={`max-w-[80%] rounded-lg px-4 py-2 ${
-                                msg.sender === 'user'
-                                  ? 'bg-primary text-primary-foreground'
-                                  : 'bg-card border'
-                              }`}
-                            >
-                              <p className="text-sm">{msg.text}</p>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    )}
+                {loading ? (
+                  <div className="text-center py-8 text-muted-foreground">Loading tickets...</div>
+                ) : tickets.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                    <Ticket className="w-12 h-12 mb-2" />
+                    <p>You haven't opened any tickets</p>
+                    <Button variant="link" onClick={() => setTab('new')}>Create a ticket</Button>
                   </div>
-
-                  <div className="flex gap-2">
-                    <Input
-                      placeholder="Type your message..."
-                      value={chatMessage}
-                      onChange={(e) => setChatMessage(e.target.value)}
-                      onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
-                    />
-                    <Button onClick={handleSendMessage} className="gap-2">
-                      <Send className="w-4 h-4" />
-                      Send
-                    </Button>
+                ) : (
+                  <div className="divide-y">
+                    {tickets.map((ticket) => (
+                      <button
+                        key={ticket.id}
+                        className="w-full text-left py-3 px-2 flex items-center justify-between gap-4 hover:bg-muted/50 rounded-md"
+                        onClick={() => openTicket(ticket.id)}
+                      >
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{ticket.subject}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {ticket.ticket_number} · {SUPPORT_TICKET_CATEGORY_LABELS[ticket.category]} ·
+                            {' '}updated {new Date(ticket.last_reply_at ?? ticket.created_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <TicketStatusBadge status={ticket.status} />
+                      </button>
+                    ))}
                   </div>
-                </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
 
-          <TabsContent value="ticket" className="mt-6">
+          <TabsContent value="new" className="mt-6">
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2 text-blue-900">
@@ -154,13 +293,85 @@ const Support = () => {
                     />
                   </div>
 
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Category</Label>
+                      <Select
+                        value={form.category}
+                        onValueChange={(value) => setForm({ ...form, category: value as SupportTicketCategory })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(SUPPORT_TICKET_CATEGORY_LABELS) as SupportTicketCategory[]).map((category) => (
+                            <SelectItem key={category} value={category}>{SUPPORT_TICKET_CATEGORY_LABELS[category]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Priority</Label>
+                      <Select
+                        value={form.priority}
+                        onValueChange={(value) => setForm({ ...form, priority: value as BorrowerPriority })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(['low', 'normal', 'high'] as BorrowerPriority[]).map((priority) => (
+                            <SelectItem key={priority} value={priority}>{SUPPORT_TICKET_PRIORITY_LABELS[priority]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  {(links.applications.length > 0 || links.documents.length > 0) && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Related Application</Label>
+                        <Select value={form.applicationId} onValueChange={(value) => setForm({ ...form, applicationId: value })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">None</SelectItem>
+                            {links.applications.map((app) => (
+                              <SelectItem key={app.id} value={app.id}>
+                                {app.application_number ?? 'Draft'} · {getLabel(app.loan_type)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Related Document</Label>
+                        <Select value={form.documentId} onValueChange={(value) => setForm({ ...form, documentId: value })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">None</SelectItem>
+                            {links.documents.map((doc) => (
+                              <SelectItem key={doc.id} value={doc.id}>
+                                {doc.file_name} ({getDocumentCategoryName(doc.document_category)})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <Label htmlFor="subject">Subject</Label>
                     <Input
                       id="subject"
                       placeholder="Brief description of your issue"
-                      value={ticketSubject}
-                      onChange={(e) => setTicketSubject(e.target.value)}
+                      value={form.subject}
+                      onChange={(e) => setForm({ ...form, subject: e.target.value })}
                       required
                     />
                   </div>
@@ -170,16 +381,16 @@ const Support = () => {
                     <Textarea
                       id="message"
                       placeholder="Describe your issue in detail..."
-                      value={ticketMessage}
-                      onChange={(e) => setTicketMessage(e.target.value)}
+                      value={form.message}
+                      onChange={(e) => setForm({ ...form, message: e.target.value })}
                       rows={8}
                       required
                     />
                   </div>
 
-                  <Button type="submit" className="w-full gap-2">
+                  <Button type="submit" className="w-full gap-2" disabled={submitting}>
                     <Mail className="w-4 h-4" />
-                    Submit Ticket
+                    {submitting ? 'Submitting...' : 'Submit Ticket'}
                   </Button>
                 </form>
               </CardContent>
@@ -204,6 +415,47 @@ const Support = () => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Ticket Thread Dialog */}
+      <Dialog open={!!openTicketId && !!activeTicket} onOpenChange={(open) => !open && openTicket(null)}>
+        <DialogContent className="max-w-2xl">
+          {activeTicket && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-3">
+                  {activeTicket.ticket.subject}
+                  <TicketStatusBadge status={activeTicket.ticket.status} />
+                </DialogTitle>
+                <DialogDescription>
+                  {activeTicket.ticket.ticket_number} · {SUPPORT_TICKET_CATEGORY_LABELS[activeTicket.ticket.category]} ·
+                  {' '}opened {new Date(activeTicket.ticket.created_at).toLocaleDateString()}
+                </DialogDescription>
+              </DialogHeader>
+              <ScrollArea className="h-[360px] pr-3">
+                <TicketThread messages={activeTicket.messages} viewer="borrower" />
+              </ScrollArea>
+              {activeTicket.ticket.status === 'closed' ? (
+                <p className="text-sm text-muted-foreground text-center">
+                  This ticket is closed. Create a new ticket if you need more help.
+                </p>
+              ) : (
+                <div className="flex gap-2">
+                  <Textarea
+                    placeholder="Write a reply..."
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    rows={2}
+                  />
+                  <Button onClick={handleSendReply} disabled={sending || !reply.trim()} className="gap-2 self-end">
+                    <Send className="w-4 h-4" />
+                    Send
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
+import { PageHeader } from '@/components/PageHeader';
+import {
+  adverseActionService,
+  ADVERSE_ACTION_STATUS_LABELS,
+  type AdverseActionNotice,
+} from '@/services/adverseActionService';
+import { AlertTriangle, Eye, FileWarning, RefreshCw, Send } from 'lucide-react';
+
+const applicantName = (notice: AdverseActionNotice) =>
+  [notice.first_name, notice.last_name].filter(Boolean).join(' ') || 'Unknown applicant';
+
+const dueLabel = (notice: AdverseActionNotice) => {
+  if (notice.is_overdue) return `Overdue by ${Math.abs(notice.days_remaining)} day${Math.abs(notice.days_remaining) === 1 ? '' : 's'}`;
+  return `${notice.days_remaining} day${notice.days_remaining === 1 ? '' : 's'} left`;
+};
+
+const AdverseActionNotices = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { getLabel } = useLoanProducts();
+  const [notices, setNotices] = useState<AdverseActionNotice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    adverseActionService
+      .listUnsent()
+      .then((rows) => {
+        if (!cancelled) setNotices(rows);
+      })
+      .catch((err) => {
+        console.error('Error loading adverse action notices:', err);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load adverse action notices", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, toast]);
+
+  const refresh = () => {
+    setLoading(true);
+    setRefreshKey((k) => k + 1);
+  };
+
+  const handleSend = async (notice: AdverseActionNotice) => {
+    setSendingId(notice.id);
+    try {
+      await adverseActionService.generateAndSend(notice);
+      toast({ title: "Notice filed", description: `The notice for #${notice.application_number} was added to the borrower's documents and queued for delivery` });
+      refresh();
+    } catch (err) {
+      console.error('Error sending adverse action notice:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to send the notice",
+        variant: "destructive",
+      });
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  const overdue = notices.filter((n) => n.is_overdue).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader
+        title="Adverse Action Notices"
+        subtitle="Notices of action taken owed to declined applicants under ECOA / Regulation B"
+      >
+        <Button
+          variant="outline"
+          onClick={refresh}
+          className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </PageHeader>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileWarning className="w-5 h-5" />
+              Unsent Notices
+            </CardTitle>
+            <CardDescription>
+              {overdue > 0
+                ? `${overdue} notice${overdue === 1 ? ' is' : 's are'} past the delivery deadline`
+                : 'Each declined application must receive its notice before the deadline shown'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading notices...</p>
+            ) : notices.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every declined applicant has been sent their notice.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Application</TableHead>
+                    <TableHead>Applicant</TableHead>
+                    <TableHead>Principal reasons</TableHead>
+                    <TableHead>Declined</TableHead>
+                    <TableHead>Deadline</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {notices.map((notice) => (
+                    <TableRow key={notice.id}>
+                      <TableCell>
+                        <button
+                          className="font-medium text-primary hover:underline"
+                          onClick={() => navigate(`/admin/loans/${notice.application_id}`)}
+                        >
+                          #{notice.application_number}
+                        </button>
+                        <p className="text-xs text-muted-foreground">{getLabel(notice.loan_type)}</p>
+                      </TableCell>
+                      <TableCell>
+                        <p>{applicantName(notice)}</p>
+                        {notice.business_name && <p className="text-xs text-muted-foreground">{notice.business_name}</p>}
+                      </TableCell>
+                      <TableCell className="max-w-sm">
+                        <ol className="list-decimal list-inside text-sm space-y-0.5">
+                          {notice.reasons.map((r) => (
+                            <li key={r.factor_key}>{r.reason}</li>
+                          ))}
+                        </ol>
+                      </TableCell>
+                      <TableCell>{new Date(notice.decided_at).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Badge variant={notice.is_overdue ? 'destructive' : notice.days_remaining <= 7 ? 'default' : 'outline'}>
+                          {notice.is_overdue && <AlertTriangle className="w-3 h-3 mr-1" />}
+                          {dueLabel(notice)}
+                        </Badge>
+                        <p className="text-xs text-muted-foreground mt-1">{new Date(notice.due_at).toLocaleDateString()}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{ADVERSE_ACTION_STATUS_LABELS[notice.status]}</Badge>
+                        {notice.last_error && <p className="text-xs text-destructive mt-1">{notice.last_error}</p>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => adverseActionService.preview(notice)}>
+                            <Eye className="w-4 h-4 mr-1" />
+                            Preview
+                          </Button>
+                          <Button size="sm" onClick={() => handleSend(notice)} disabled={sendingId !== null}>
+                            <Send className="w-4 h-4 mr-1" />
+                            {sendingId === notice.id ? 'Sending...' : notice.status === 'pending' ? 'Generate & Send' : 'Resend'}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AdverseActionNotices;
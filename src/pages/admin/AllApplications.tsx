@@ -1,12 +1,23 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import { adminService } from '@/services/adminService';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
+import {
+  adminService,
+  type ApplicationIndexPage,
+  type ApplicationIndexQuery,
+  type ApplicationSort,
+  type ApplicationSortColumn,
+} from '@/services/adminService';
+import { savedViewService, type SavedView } from '@/services/savedViewService';
 import { PageHeader } from '@/components/PageHeader';
 import { 
   FileText, 
@@ -17,79 +28,192 @@ import {
   Clock,
   CheckCircle,
   XCircle,
-  AlertCircle
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  Bookmark,
+  ChevronLeft,
+  ChevronRight,
+  Trash2
 } from 'lucide-react';
 
-interface LoanApplication {
-  id: string;
-  application_number: string;
-  first_name: string;
-  last_name: string;
-  business_name: string;
-  loan_type: string;
-  amount_requested: number;
-  status: string;
-  created_at: string;
-  years_in_business: number;
+const PAGE_SIZE = 25;
+
+const SORT_COLUMNS: { value: ApplicationSortColumn; label: string }[] = [
+  { value: 'created_at', label: 'Date applied' },
+  { value: 'updated_at', label: 'Last updated' },
+  { value: 'amount_requested', label: 'Amount' },
+  { value: 'business_name', label: 'Business name' },
+  { value: 'last_name', label: 'Applicant last name' },
+  { value: 'application_number', label: 'Application number' },
+  { value: 'status', label: 'Status' },
+  { value: 'loan_type', label: 'Loan type' },
+];
+
+const DEFAULT_SORT: ApplicationSort[] = [{ column: 'created_at', direction: 'desc' }];
+
+const EMPTY_PAGE: ApplicationIndexPage = { applications: [], total: 0, next_cursor: null };
+
+interface IndexResult {
+  // The request this page answers; a mismatch means a newer request is in flight
+  key: string;
+  page: ApplicationIndexPage;
 }
 
 const AllApplications = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [applications, setApplications] = useState<LoanApplication[]>([]);
-  const [filteredApplications, setFilteredApplications] = useState<LoanApplication[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [result, setResult] = useState<IndexResult | null>(null);
+  const [searchInput, setSearchInput] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [loanTypeFilter, setLoanTypeFilter] = useState('all');
+  const [sort, setSort] = useState<ApplicationSort[]>(DEFAULT_SORT);
+  // Cursor of every page visited so far; the last one is the page shown
+  const [cursors, setCursors] = useState<string[]>([]);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [viewsLoaded, setViewsLoaded] = useState(false);
+  const [activeViewId, setActiveViewId] = useState('none');
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [viewIsDefault, setViewIsDefault] = useState(false);
+  const { products: loanProducts, getLabel } = useLoanProducts();
+
+  const indexQuery = useMemo<ApplicationIndexQuery>(() => ({
+    search: searchTerm || undefined,
+    statuses: statusFilter === 'all' ? undefined : [statusFilter],
+    loanTypes: loanTypeFilter === 'all' ? undefined : [loanTypeFilter],
+    sort,
+    cursor: cursors[cursors.length - 1],
+    limit: PAGE_SIZE,
+  }), [searchTerm, statusFilter, loanTypeFilter, sort, cursors]);
+  const requestKey = `${JSON.stringify(indexQuery)}#${reloadCount}`;
+
+  const applyView = (view: SavedView | null) => {
+    const filters = view?.filters ?? {};
+    setActiveViewId(view?.id ?? 'none');
+    setSearchInput(filters.search ?? '');
+    setSearchTerm(filters.search ?? '');
+    setStatusFilter(filters.statuses?.[0] ?? 'all');
+    setLoanTypeFilter(filters.loanTypes?.[0] ?? 'all');
+    setSort(view?.sort.length ? view.sort : DEFAULT_SORT);
+    setCursors([]);
+  };
 
   useEffect(() => {
-    loadApplications();
+    let cancelled = false;
+    savedViewService.list()
+      .then((saved) => {
+        if (cancelled) return;
+        setViews(saved);
+        const defaultView = saved.find((view) => view.is_default);
+        if (defaultView) applyView(defaultView);
+      })
+      .catch((error) => console.error('Error loading saved views:', error))
+      .finally(() => {
+        if (!cancelled) setViewsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
+  // Search once typing pauses
   useEffect(() => {
-    filterApplications();
-  }, [applications, searchTerm, statusFilter, loanTypeFilter]);
+    const timer = setTimeout(() => {
+      const next = searchInput.trim();
+      if (next === searchTerm) return;
+      setSearchTerm(next);
+      setCursors([]);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, searchTerm]);
 
-  const loadApplications = async () => {
-    try {
-      const data = await adminService.getFilteredApplications({});
-      if (data) {
-        setApplications(data);
-      }
-    } catch (error) {
-      console.error('Error loading applications:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load applications",
-        variant: "destructive"
+  useEffect(() => {
+    if (!viewsLoaded) return;
+    let cancelled = false;
+    adminService.searchApplications(indexQuery)
+      .then((page) => {
+        if (!cancelled) setResult({ key: requestKey, page });
+      })
+      .catch((error) => {
+        console.error('Error loading applications:', error);
+        if (cancelled) return;
+        setResult({ key: requestKey, page: EMPTY_PAGE });
+        toast({
+          title: "Error",
+          description: "Failed to load applications",
+          variant: "destructive"
+        });
       });
-    } finally {
-      setLoading(false);
-    }
+    return () => {
+      cancelled = true;
+    };
+  }, [viewsLoaded, indexQuery, requestKey, toast]);
+
+  const handleStatusFilter = (value: string) => {
+    setStatusFilter(value);
+    setCursors([]);
   };
 
-  const filterApplications = () => {
-    let filtered = applications;
+  const handleLoanTypeFilter = (value: string) => {
+    setLoanTypeFilter(value);
+    setCursors([]);
+  };
 
-    if (searchTerm) {
-      filtered = filtered.filter(app => 
-        app.first_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        app.last_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        app.business_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        app.application_number?.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
+  const handleSortChange = (position: number, next: ApplicationSort | null) => {
+    const updated = [...sort];
+    if (next) updated[position] = next;
+    else updated.splice(position);
+    // A column only counts once; later duplicates are dropped
+    setSort(updated.filter((item, i) => updated.findIndex((other) => other.column === item.column) === i));
+    setCursors([]);
+  };
 
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(app => app.status === statusFilter);
+  const handleSaveView = async () => {
+    const name = viewName.trim();
+    if (!name) return;
+    try {
+      const saved = await savedViewService.save({
+        name,
+        filters: {
+          search: searchTerm || undefined,
+          statuses: indexQuery.statuses,
+          loanTypes: indexQuery.loanTypes,
+        },
+        sort,
+        is_default: viewIsDefault,
+      });
+      setViews(await savedViewService.list());
+      setActiveViewId(saved.id);
+      setSaveDialogOpen(false);
+      toast({ title: "View saved", description: `"${name}" is available from Saved views` });
+    } catch (error) {
+      console.error('Error saving view:', error);
+      toast({ title: "Error", description: "Failed to save the view", variant: "destructive" });
     }
+  };
 
-    if (loanTypeFilter !== 'all') {
-      filtered = filtered.filter(app => app.loan_type === loanTypeFilter);
+  const handleDeleteView = async () => {
+    const view = views.find((v) => v.id === activeViewId);
+    if (!view) return;
+    try {
+      await savedViewService.remove(view.id);
+      setViews(views.filter((v) => v.id !== view.id));
+      setActiveViewId('none');
+      toast({ title: "View deleted", description: `"${view.name}" was removed` });
+    } catch (error) {
+      console.error('Error deleting view:', error);
+      toast({ title: "Error", description: "Failed to delete the view", variant: "destructive" });
     }
+  };
 
-    setFilteredApplications(filtered);
+  const openSaveDialog = () => {
+    const view = views.find((v) => v.id === activeViewId);
+    setViewName(view?.name ?? '');
+    setViewIsDefault(view?.is_default ?? false);
+    setSaveDialogOpen(true);
   };
 
   const updateApplicationStatus = async (applicationId: string, newStatus: string) => {
@@ -97,10 +221,12 @@ const AllApplications = () => {
       const result = await adminService.updateApplicationStatus(applicationId, newStatus);
       if (result) {
         toast({
-          title: "Success",
-          description: "Application status updated successfully"
+          title: result.pendingConfirmation ? "Awaiting confirmation" : "Success",
+          description: result.pendingConfirmation
+            ? "A second approver must confirm this status change"
+            : "Application status updated successfully"
         });
-        loadApplications();
+        setReloadCount((count) => count + 1);
       }
     } catch (error) {
       console.error('Error updating status:', error);
@@ -133,7 +259,7 @@ const AllApplications = () => {
     );
   };
 
-  if (loading) {
+  if (!result) {
     return (
       <div className="min-h-screen bg-background">
         <PageHeader 
@@ -149,6 +275,9 @@ const AllApplications = () => {
     );
   }
 
+  const { page } = result;
+  const refreshing = result.key !== requestKey;
+
   return (
     <div className="min-h-screen bg-background">
       <PageHeader 
@@ -160,25 +289,54 @@ const AllApplications = () => {
         {/* Filters */}
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Filter className="w-5 h-5" />
-              Filters
-            </CardTitle>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <CardTitle className="flex items-center gap-2">
+                <Filter className="w-5 h-5" />
+                Filters
+              </CardTitle>
+              <div className="flex gap-2">
+                <Select
+                  value={activeViewId}
+                  onValueChange={(value) => applyView(views.find((view) => view.id === value) ?? null)}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <Bookmark className="w-4 h-4 mr-1" />
+                    <SelectValue placeholder="Saved views" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No saved view</SelectItem>
+                    {views.map((view) => (
+                      <SelectItem key={view.id} value={view.id}>
+                        {view.name}{view.is_default && ' (default)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={openSaveDialog}>
+                  Save view
+                </Button>
+                {activeViewId !== 'none' && (
+                  <Button variant="outline" size="icon" onClick={handleDeleteView}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
             <div className="flex flex-wrap gap-4">
               <div className="flex-1 min-w-[200px]">
                 <div className="relative">
                   <Search className="w-4 h-4 absolute left-3 top-3 text-muted-foreground" />
                   <Input
-                    placeholder="Search applications..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
+                    placeholder="Search applicant, business or application number..."
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
                     className="pl-9"
                   />
                 </div>
               </div>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select value={statusFilter} onValueChange={handleStatusFilter}>
                 <SelectTrigger className="w-[180px]">
                   <SelectValue placeholder="Filter by status" />
                 </SelectTrigger>
@@ -187,43 +345,115 @@ const AllApplications = () => {
                   <SelectItem value="draft">Draft</SelectItem>
                   <SelectItem value="submitted">Submitted</SelectItem>
                   <SelectItem value="under_review">Under Review</SelectItem>
+                  <SelectItem value="documents_requested">Documents Requested</SelectItem>
+                  <SelectItem value="conditionally_approved">Conditionally Approved</SelectItem>
                   <SelectItem value="approved">Approved</SelectItem>
                   <SelectItem value="rejected">Rejected</SelectItem>
                   <SelectItem value="funded">Funded</SelectItem>
+                  <SelectItem value="paused">Paused</SelectItem>
                 </SelectContent>
               </Select>
-              <Select value={loanTypeFilter} onValueChange={setLoanTypeFilter}>
+              <Select value={loanTypeFilter} onValueChange={handleLoanTypeFilter}>
                 <SelectTrigger className="w-[180px]">
                   <SelectValue placeholder="Filter by loan type" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Types</SelectItem>
-                  <SelectItem value="refinance">Refinance</SelectItem>
-                  <SelectItem value="bridge_loan">Bridge Loan</SelectItem>
-                  <SelectItem value="working_capital">Working Capital Loan</SelectItem>
+                  {loanProducts.map((product) => (
+                    <SelectItem key={product.key} value={product.key}>
+                      {product.name}{!product.is_active && ' (retired)'}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">Sort by</span>
+              {[0, 1].map((position) => {
+                const current = sort[position];
+                if (position > 0 && !sort[position - 1]) return null;
+                return (
+                  <div key={position} className="flex items-center gap-1">
+                    {position > 0 && <span className="text-sm text-muted-foreground mx-1">then</span>}
+                    <Select
+                      value={current?.column ?? 'none'}
+                      onValueChange={(value) =>
+                        handleSortChange(
+                          position,
+                          value === 'none' ? null : { column: value as ApplicationSortColumn, direction: current?.direction ?? 'asc' }
+                        )
+                      }
+                    >
+                      <SelectTrigger className="w-[190px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {position > 0 && <SelectItem value="none">None</SelectItem>}
+                        {SORT_COLUMNS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {current && (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() =>
+                          handleSortChange(position, { ...current, direction: current.direction === 'asc' ? 'desc' : 'asc' })
+                        }
+                      >
+                        {current.direction === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
           </CardContent>
         </Card>
 
         {/* Applications List */}
         <Card>
           <CardHeader>
-            <CardTitle>Applications ({filteredApplications.length})</CardTitle>
-            <CardDescription>
-              All loan applications submitted by users
-            </CardDescription>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div>
+                <CardTitle>Applications ({page.total.toLocaleString()})</CardTitle>
+                <CardDescription>
+                  All loan applications submitted by users
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Page {cursors.length + 1}</span>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setCursors(cursors.slice(0, -1))}
+                  disabled={refreshing || cursors.length === 0}
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => page.next_cursor && setCursors([...cursors, page.next_cursor])}
+                  disabled={refreshing || !page.next_cursor}
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
           </CardHeader>
-          <CardContent>
-            {filteredApplications.length === 0 ? (
+          <CardContent className={refreshing ? 'opacity-60 transition-opacity' : undefined}>
+            {page.applications.length === 0 ? (
               <div className="text-center py-8">
                 <FileText className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                 <p className="text-muted-foreground">No applications found</p>
               </div>
             ) : (
               <div className="space-y-4">
-                {filteredApplications.map((application) => (
+                {page.applications.map((application) => (
                   <Card key={application.id} className="border-l-4 border-l-primary/20">
                     <CardContent className="p-4">
                       <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
@@ -238,8 +468,8 @@ const AllApplications = () => {
                             {application.business_name} • {application.application_number}
                           </p>
                           <div className="flex flex-wrap gap-4 text-sm">
-                            <span>Type: <strong>{application.loan_type}</strong></span>
-                            <span>Amount: <strong>${application.amount_requested?.toLocaleString()}</strong></span>
+                            <span>Type: <strong>{getLabel(application.loan_type)}</strong></span>
+                            <span>Amount: <strong>${Number(application.amount_requested ?? 0).toLocaleString()}</strong></span>
                             <span>Years in Business: <strong>{application.years_in_business}</strong></span>
                           </div>
                           <p className="text-xs text-muted-foreground">
@@ -276,6 +506,45 @@ const AllApplications = () => {
           </CardContent>
         </Card>
       </div>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>
+              Save the current search, filters and sort. Saving under an existing name replaces that view.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={viewName}
+                maxLength={80}
+                onChange={(e) => setViewName(e.target.value)}
+                placeholder="e.g. SBA loans under review"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="view-default"
+                checked={viewIsDefault}
+                onCheckedChange={(checked) => setViewIsDefault(checked === true)}
+              />
+              <Label htmlFor="view-default">Open this view by default</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveView} disabled={!viewName.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
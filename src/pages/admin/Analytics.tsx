@@ -6,6 +6,7 @@ import { PremiumCard, PremiumCardHeader, PremiumCardTitle, PremiumCardContent }
 import { BarChart3, TrendingUp, DollarSign, Users, FileText, CheckCircle, Clock, Download, ArrowUpRight, ArrowDownRight } from 'lucide-react';
 import { restQuery } from '@/services/supabaseHttp';
 import { useToast } from '@/hooks/use-toast';
+import { loanProductService } from '@/services/loanProductService';
 import { EnhancedAreaChart, EnhancedBarChart, EnhancedPieChart, EnhancedLineChart } from '@/components/ui/charts';
 import { AnimatedCounter, AnimatedCurrency, AnimatedPercentage } from '@/components/ui/animated-counter';
 import { exportAnalyticsToCSV, exportAnalyticsToPDF } from '@/utils/analyticsExport';
@@ -46,6 +47,8 @@ const Analytics = () => {
   const fetchAnalytics = async () => {
     try {
       const { data: applications } = await restQuery<any[]>('loan_applications');
+      // Labels come from the product catalog; fall back to humanized keys if it is unavailable
+      await loanProductService.getProducts().catch(() => []);
 
       const data = applications || [];
       
@@ -69,7 +72,7 @@ const Analytics = () => {
         typeCount[type] = (typeCount[type] || 0) + 1;
       });
       const applicationsByType = Object.entries(typeCount).map(([name, value]) => ({
-        name: name.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase()),
+        name: loanProductService.getLabel(name),
         value
       }));
 
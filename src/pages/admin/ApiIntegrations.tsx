@@ -12,6 +12,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { externalNotificationService, ExternalWebhook } from '@/services/externalNotificationService';
 import { PageHeader } from '@/components/PageHeader';
+import { CrmSyncPanel } from '@/components/crm';
 import { 
   Plug, 
   Webhook, 
@@ -292,11 +293,12 @@ const ApiIntegrations = () => {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6 space-y-6">
 
         <Tabs defaultValue="all" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="all" count={integrations.length}>All Integrations</TabsTrigger>
             <TabsTrigger value="active" count={integrations.filter(i => i.isActive).length}>Active</TabsTrigger>
             <TabsTrigger value="webhooks" count={webhooks.length}>Webhooks</TabsTrigger>
             <TabsTrigger value="api-keys">API Keys</TabsTrigger>
+            <TabsTrigger value="crm-sync">CRM Sync</TabsTrigger>
           </TabsList>
 
           <TabsContent value="all" className="mt-6">
@@ -618,6 +620,10 @@ const ApiIntegrations = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="crm-sync" className="mt-6">
+            <CrmSyncPanel />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useUserRole } from '@/hooks/useUserRole';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -13,8 +14,10 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
 import { PageHeader } from '@/components/PageHeader';
+import { UnderwriterWorkloadPanel } from '@/components/underwriting';
 import { 
   assignmentService, 
+  ASSIGNMENT_METHOD_LABELS,
   ApplicationAssignment, 
   Underwriter, 
   UnassignedApplication 
@@ -31,7 +34,8 @@ import {
   AlertCircle,
   CheckCircle,
   Clock,
-  Shield
+  Shield,
+  Shuffle
 } from 'lucide-react';
 import {
   AlertDialog,
@@ -54,6 +58,7 @@ const ApplicationAssignments = () => {
   const [underwriters, setUnderwriters] = useState<Underwriter[]>([]);
   const [unassignedApplications, setUnassignedApplications] = useState<UnassignedApplication[]>([]);
   const [loading, setLoading] = useState(true);
+  const { getLabel } = useLoanProducts();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   
@@ -148,6 +153,32 @@ const ApplicationAssignments = () => {
     }
   };
 
+  const handleAutoAssign = async (applicationId: string) => {
+    try {
+      const assignmentId = await assignmentService.autoAssign(applicationId);
+      if (!assignmentId) {
+        toast({
+          title: "No underwriter available",
+          description: "Everyone eligible is out of office or at capacity. Assign this application manually.",
+          variant: "destructive"
+        });
+        return;
+      }
+      toast({
+        title: "Success",
+        description: "Application assigned automatically"
+      });
+      loadData();
+    } catch (error) {
+      console.error('Error auto-assigning application:', error);
+      toast({
+        title: "Error",
+        description: "Failed to auto-assign application",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleUpdateAssignment = async () => {
     if (!editingAssignment) return;
 
@@ -340,6 +371,8 @@ const ApplicationAssignments = () => {
           </Card>
         </div>
 
+        <UnderwriterWorkloadPanel onAssignmentsChanged={loadData} />
+
         {/* Filters */}
         <Card>
           <CardHeader>
@@ -429,8 +462,8 @@ const ApplicationAssignments = () => {
                           </p>
                         </div>
                       </TableCell>
-                      <TableCell className="capitalize">
-                        {assignment.application?.loan_type?.replace('_', ' ')}
+                      <TableCell>
+                        {getLabel(assignment.application?.loan_type)}
                       </TableCell>
                       <TableCell>
                         ${assignment.application?.amount_requested?.toLocaleString() || '0'}
@@ -451,7 +484,19 @@ const ApplicationAssignments = () => {
                         </div>
                       </TableCell>
                       <TableCell>
-                        {new Date(assignment.assigned_at).toLocaleDateString()}
+                        <p>{new Date(assignment.assigned_at).toLocaleDateString()}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {ASSIGNMENT_METHOD_LABELS[assignment.assignment_method] ?? 'Manual'}
+                        </p>
+                        {assignment.due_at && ['submitted', 'under_review'].includes(assignment.application?.status || '') && (
+                          new Date(assignment.due_at) < new Date() ? (
+                            <Badge variant="destructive" className="mt-1">Overdue</Badge>
+                          ) : (
+                            <p className="text-xs text-muted-foreground">
+                              Due {new Date(assignment.due_at).toLocaleString()}
+                            </p>
+                          )
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-2">
@@ -507,6 +552,14 @@ const ApplicationAssignments = () => {
                     <div className="flex items-center gap-4">
                       <span className="text-sm">${app.amount_requested?.toLocaleString()}</span>
                       {getStatusBadge(app.status)}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleAutoAssign(app.id)}
+                      >
+                        <Shuffle className="w-4 h-4 mr-1" />
+                        Auto
+                      </Button>
                       <Button
                         size="sm"
                         onClick={() => {
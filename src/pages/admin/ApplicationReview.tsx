@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
 import { adminService } from '@/services/adminService';
 import { PageHeader } from '@/components/PageHeader';
 import { Eye, CheckCircle, XCircle, Clock } from 'lucide-react';
@@ -13,6 +14,7 @@ const ApplicationReview = () => {
   const { toast } = useToast();
   const [pendingApplications, setPendingApplications] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const { getLabel } = useLoanProducts();
 
   useEffect(() => {
     loadPendingApplications();
@@ -41,10 +43,12 @@ const ApplicationReview = () => {
 
   const handleApprove = async (applicationId: string) => {
     try {
-      await adminService.updateApplicationStatus(applicationId, 'approved');
+      const result = await adminService.updateApplicationStatus(applicationId, 'approved');
       toast({
-        title: "Application Approved",
-        description: "The application has been approved successfully"
+        title: result.pendingConfirmation ? "Approval Requested" : "Application Approved",
+        description: result.pendingConfirmation
+          ? "A second approver must confirm this approval"
+          : "The application has been approved successfully"
       });
       loadPendingApplications();
     } catch (error) {
@@ -58,10 +62,12 @@ const ApplicationReview = () => {
 
   const handleReject = async (applicationId: string) => {
     try {
-      await adminService.updateApplicationStatus(applicationId, 'rejected');
+      const result = await adminService.updateApplicationStatus(applicationId, 'rejected');
       toast({
-        title: "Application Rejected",
-        description: "The application has been rejected"
+        title: result.pendingConfirmation ? "Rejection Requested" : "Application Rejected",
+        description: result.pendingConfirmation
+          ? "A second approver must confirm this rejection"
+          : "The application has been rejected"
       });
       loadPendingApplications();
     } catch (error) {
@@ -129,7 +135,7 @@ const ApplicationReview = () => {
                             {app.business_name} • {app.application_number}
                           </p>
                           <div className="flex flex-wrap gap-4 text-sm">
-                            <span>Type: <strong>{app.loan_type}</strong></span>
+                            <span>Type: <strong>{getLabel(app.loan_type)}</strong></span>
                             <span>Amount: <strong>${app.amount_requested?.toLocaleString()}</strong></span>
                           </div>
                           <p className="text-xs text-muted-foreground">
@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
 import { restQuery } from '@/services/supabaseHttp';
 import { PageHeader } from '@/components/PageHeader';
 import { 
@@ -71,6 +72,7 @@ const ExistingLoansManagement = () => {
   const [loans, setLoans] = useState<ExistingLoan[]>([]);
   const [filteredLoans, setFilteredLoans] = useState<ExistingLoan[]>([]);
   const [loading, setLoading] = useState(true);
+  const { activeProducts, getLabel } = useLoanProducts();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -334,12 +336,9 @@ const ExistingLoansManagement = () => {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="term_loan">Term Loan</SelectItem>
-                        <SelectItem value="sba_7a">SBA 7(a)</SelectItem>
-                        <SelectItem value="sba_504">SBA 504</SelectItem>
-                        <SelectItem value="equipment_financing">Equipment Financing</SelectItem>
-                        <SelectItem value="working_capital">Working Capital Loan</SelectItem>
-                        <SelectItem value="bridge_loan">Bridge Loan</SelectItem>
+                        {activeProducts.map((product) => (
+                          <SelectItem key={product.key} value={product.key}>{product.name}</SelectItem>
+                        ))}
                         <SelectItem value="other">Other</SelectItem>
                       </SelectContent>
                     </Select>
@@ -565,7 +564,7 @@ const ExistingLoansManagement = () => {
                     {filteredLoans.map((loan) => (
                       <TableRow key={loan.id}>
                         <TableCell className="font-medium">{loan.loan_name}</TableCell>
-                        <TableCell>{loan.loan_type.replace('_', ' ')}</TableCell>
+                        <TableCell>{getLabel(loan.loan_type)}</TableCell>
                         <TableCell>{loan.lender}</TableCell>
                         <TableCell>${loan.loan_balance.toLocaleString()}</TableCell>
                         <TableCell>${loan.monthly_payment.toLocaleString()}</TableCell>
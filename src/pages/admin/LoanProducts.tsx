@@ -1,38 +1,695 @@
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { PageHeader } from '@/components/PageHeader';
-import { Building2, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLoanProducts } from '@/hooks/useLoanProducts';
+import { loanProductService, type LoanProductInput } from '@/services/loanProductService';
+import type { LoanProduct, LoanProductCategory, LoanProductThresholds, LoanProductVersion } from '@/services/api';
+import { BORROWER_DOCUMENT_CATEGORIES, getDocumentCategoryName } from '@/config/documentCategories';
+import { INTAKE_FORMS, getIntakeFormName } from '@/config/intakeForms';
+import { PRODUCT_ICONS, getProductIcon } from '@/components/dashboard/productIcons';
+import { Archive, Building2, CheckCircle, Edit, History, Plus, RefreshCw, RotateCcw } from 'lucide-react';
+
+const CATEGORY_LABELS: Record<LoanProductCategory, string> = {
+  sba: 'SBA',
+  government: 'Government',
+  commercial: 'Commercial',
+  working_capital: 'Working Capital',
+};
+
+type ThresholdKey = keyof LoanProductThresholds;
+
+// Fractions are edited as percentages
+const THRESHOLD_FIELDS: { key: ThresholdKey; label: string; percent: boolean; hint: string }[] = [
+  { key: 'minCreditScore', label: 'Minimum credit score', percent: false, hint: 'e.g. 680' },
+  { key: 'minDscr', label: 'Minimum DSCR', percent: false, hint: 'e.g. 1.25' },
+  { key: 'maxLtv', label: 'Maximum LTV (%)', percent: true, hint: 'e.g. 80' },
+  { key: 'minYearsInBusiness', label: 'Minimum years in business', percent: false, hint: 'e.g. 2' },
+  { key: 'maxRevenuePct', label: 'Maximum % of annual revenue', percent: true, hint: 'e.g. 15' },
+  { key: 'minEquityPct', label: 'Minimum equity injection (%)', percent: true, hint: 'e.g. 10' },
+];
+
+interface ProductForm {
+  key: string;
+  name: string;
+  description: string;
+  highlights: string;
+  rate_display: string;
+  category: LoanProductCategory;
+  icon: string;
+  form_id: string;
+  sort_order: string;
+  min_amount: string;
+  max_amount: string;
+  interest_rate_min: string;
+  interest_rate_max: string;
+  term_options: string;
+  required_document_categories: string[];
+  thresholds: Record<ThresholdKey, string>;
+}
+
+const EMPTY_FORM: ProductForm = {
+  key: '',
+  name: '',
+  description: '',
+  highlights: '',
+  rate_display: '',
+  category: 'commercial',
+  icon: 'Banknote',
+  form_id: 'none',
+  sort_order: '0',
+  min_amount: '',
+  max_amount: '',
+  interest_rate_min: '',
+  interest_rate_max: '',
+  term_options: '',
+  required_document_categories: [],
+  thresholds: {
+    minCreditScore: '',
+    minDscr: '',
+    maxLtv: '',
+    minYearsInBusiness: '',
+    maxRevenuePct: '',
+    minEquityPct: '',
+  },
+};
+
+const toInput = (value: number | null | undefined) => (value === null || value === undefined ? '' : String(value));
+const toNumberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const productToForm = (product: LoanProduct): ProductForm => ({
+  key: product.key,
+  name: product.name,
+  description: product.description ?? '',
+  highlights: product.highlights ?? '',
+  rate_display: product.rate_display ?? '',
+  category: product.category,
+  icon: product.icon,
+  form_id: product.form_id === null ? 'none' : String(product.form_id),
+  sort_order: String(product.sort_order),
+  min_amount: toInput(product.min_amount),
+  max_amount: toInput(product.max_amount),
+  interest_rate_min: toInput(product.interest_rate_min),
+  interest_rate_max: toInput(product.interest_rate_max),
+  term_options: product.term_options.join(', '),
+  required_document_categories: product.required_document_categories,
+  thresholds: THRESHOLD_FIELDS.reduce((acc, field) => {
+    const value = product.eligibility_thresholds[field.key];
+    acc[field.key] = value === null || value === undefined ? '' : String(field.percent ? Math.round(value * 1000) / 10 : value);
+    return acc;
+  }, { ...EMPTY_FORM.thresholds }),
+});
+
+const formToInput = (form: ProductForm): LoanProductInput => ({
+  name: form.name.trim(),
+  description: form.description.trim() || null,
+  highlights: form.highlights.trim() || null,
+  rate_display: form.rate_display.trim() || null,
+  category: form.category,
+  icon: form.icon,
+  form_id: form.form_id === 'none' ? null : Number(form.form_id),
+  sort_order: Number(form.sort_order) || 0,
+  min_amount: toNumberOrNull(form.min_amount),
+  max_amount: toNumberOrNull(form.max_amount),
+  interest_rate_min: toNumberOrNull(form.interest_rate_min),
+  interest_rate_max: toNumberOrNull(form.interest_rate_max),
+  term_options: form.term_options.split(',').map((t) => t.trim()).filter(Boolean),
+  required_document_categories: form.required_document_categories,
+  // Every gate is stored explicitly; a blank field disables it
+  eligibility_thresholds: THRESHOLD_FIELDS.reduce<LoanProductThresholds>((acc, field) => {
+    const value = toNumberOrNull(form.thresholds[field.key]);
+    acc[field.key] = value === null ? null : field.percent ? value / 100 : value;
+    return acc;
+  }, {}),
+});
+
+const validateForm = (form: ProductForm, isNew: boolean): string | null => {
+  if (isNew && !/^[a-z0-9_]+$/.test(form.key)) return 'Key may only contain lowercase letters, numbers and underscores';
+  if (!form.name.trim()) return 'Name is required';
+  const numbers = [form.min_amount, form.max_amount, form.interest_rate_min, form.interest_rate_max, form.sort_order,
+    ...Object.values(form.thresholds)];
+  if (numbers.some((n) => n.trim() !== '' && !Number.isFinite(Number(n)))) return 'Amounts, rates and thresholds must be numbers';
+  const min = toNumberOrNull(form.min_amount);
+  const max = toNumberOrNull(form.max_amount);
+  if (min !== null && max !== null && min > max) return 'Minimum amount cannot exceed the maximum amount';
+  const rateMin = toNumberOrNull(form.interest_rate_min);
+  const rateMax = toNumberOrNull(form.interest_rate_max);
+  if (rateMin !== null && rateMax !== null && rateMin > rateMax) return 'Minimum rate cannot exceed the maximum rate';
+  return null;
+};
+
+const formatCurrency = (value: number | null) =>
+  value === null ? '—' : new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+const formatRange = (min: number | null, max: number | null, format: (n: number | null) => string) =>
+  min === null && max === null ? '—' : `${format(min)} – ${format(max)}`;
+
+const formatRate = (value: number | null) => (value === null ? '—' : `${value}%`);
 
 const LoanProducts = () => {
+  const { toast } = useToast();
+  const { products, loading, error: loadError, reload } = useLoanProducts();
+  const [saving, setSaving] = useState(false);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<LoanProduct | null>(null);
+  const [form, setForm] = useState<ProductForm>(EMPTY_FORM);
+
+  const [retiringProduct, setRetiringProduct] = useState<LoanProduct | null>(null);
+  const [retireReason, setRetireReason] = useState('');
+
+  const [historyProduct, setHistoryProduct] = useState<LoanProduct | null>(null);
+  const [versions, setVersions] = useState<LoanProductVersion[]>([]);
+  const [versionsLoading, setVersionsLoading] = useState(false);
+
+  const loadProducts = async () => {
+    try {
+      await reload();
+    } catch (err) {
+      console.error('Error loading loan products:', err);
+      toast({
+        title: "Error",
+        description: "Failed to load loan products",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingProduct(null);
+    setForm(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const openEditDialog = (product: LoanProduct) => {
+    setEditingProduct(product);
+    setForm(productToForm(product));
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    const isNew = editingProduct === null;
+    const validationError = validateForm(form, isNew);
+    if (validationError) {
+      toast({ title: "Invalid product", description: validationError, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const input = formToInput(form);
+      if (isNew) {
+        if (products.some((p) => p.key === form.key)) {
+          toast({ title: "Invalid product", description: `A product with key "${form.key}" already exists`, variant: "destructive" });
+          return;
+        }
+        await loanProductService.createProduct(form.key, input);
+        toast({ title: "Product Created", description: `${input.name} is now available to borrowers` });
+      } else {
+        const saved = await loanProductService.updateProduct(editingProduct.key, input);
+        toast({ title: "Product Updated", description: `${saved.name} saved as version ${saved.version}` });
+      }
+      setIsFormOpen(false);
+      await loadProducts();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save loan product",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRetire = async () => {
+    if (!retiringProduct) return;
+    try {
+      await loanProductService.retireProduct(retiringProduct.key, retireReason.trim() || undefined);
+      toast({ title: "Product Retired", description: `${retiringProduct.name} is no longer offered to new applicants` });
+      await loadProducts();
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to retire loan product", variant: "destructive" });
+    } finally {
+      setRetiringProduct(null);
+      setRetireReason('');
+    }
+  };
+
+  const handleReactivate = async (product: LoanProduct) => {
+    try {
+      await loanProductService.reactivateProduct(product.key);
+      toast({ title: "Product Reactivated", description: `${product.name} is available to borrowers again` });
+      await loadProducts();
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to reactivate loan product", variant: "destructive" });
+    }
+  };
+
+  const openHistory = async (product: LoanProduct) => {
+    setHistoryProduct(product);
+    setVersions([]);
+    setVersionsLoading(true);
+    try {
+      setVersions(await loanProductService.listVersions(product.key));
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to load product history", variant: "destructive" });
+    } finally {
+      setVersionsLoading(false);
+    }
+  };
+
+  const toggleDocument = (id: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      required_document_categories: checked
+        ? [...prev.required_document_categories, id]
+        : prev.required_document_categories.filter((c) => c !== id),
+    }));
+  };
+
+  const setThreshold = (key: ThresholdKey, value: string) => {
+    setForm((prev) => ({ ...prev, thresholds: { ...prev.thresholds, [key]: value } }));
+  };
+
+  const activeCount = products.filter((p) => p.is_active).length;
+
+  if (loading && products.length === 0) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background to-muted/20 p-4 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading loan products...</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background">
-      <PageHeader 
-        title="Loan Products" 
+      <PageHeader
+        title="Loan Products"
         subtitle="Manage available loan products and configurations"
       >
-        <Button>
-          <Plus className="w-4 h-4 mr-2" />
-          Add Product
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadProducts} className="bg-white/10 border-white/20 text-white hover:bg-white/20">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+          <Button onClick={openCreateDialog} className="bg-white text-blue-950 hover:bg-white/90">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Product
+          </Button>
+        </div>
       </PageHeader>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Active Products</p>
+                  <p className="text-2xl font-bold">{activeCount}</p>
+                </div>
+                <CheckCircle className="w-8 h-8 text-green-500" />
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Retired Products</p>
+                  <p className="text-2xl font-bold">{products.length - activeCount}</p>
+                </div>
+                <Archive className="w-8 h-8 text-muted-foreground" />
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Without Intake Form</p>
+                  <p className="text-2xl font-bold">{products.filter((p) => p.is_active && p.form_id === null).length}</p>
+                </div>
+                <Building2 className="w-8 h-8 text-primary" />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Building2 className="w-5 h-5" />
-              Active Loan Products
+              Loan Product Catalog ({products.length})
             </CardTitle>
-            <CardDescription>Configure and manage loan product offerings</CardDescription>
+            <CardDescription>
+              Changes apply immediately to the product selector and eligibility checks. Retired products stay on existing applications.
+            </CardDescription>
           </CardHeader>
-          <CardContent className="text-center py-8">
-            <Building2 className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-            <p className="text-muted-foreground">Loan product management coming soon</p>
+          <CardContent>
+            {loadError && (
+              <p className="text-sm text-destructive pb-4">Loan products could not be loaded: {loadError}</p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Intake Form</TableHead>
+                  <TableHead>Documents</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {products.map((product) => {
+                  const Icon = getProductIcon(product.icon);
+                  return (
+                    <TableRow key={product.key} className={product.is_active ? undefined : 'opacity-60'}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Icon className="w-4 h-4 text-primary" />
+                          <div>
+                            <p className="font-medium">{product.name}</p>
+                            <p className="text-xs text-muted-foreground font-mono">{product.key}</p>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>{CATEGORY_LABELS[product.category] ?? product.category}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatRange(product.min_amount, product.max_amount, formatCurrency)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatRange(product.interest_rate_min, product.interest_rate_max, formatRate)}</TableCell>
+                      <TableCell>{getIntakeFormName(product.form_id)}</TableCell>
+                      <TableCell>{product.required_document_categories.length}</TableCell>
+                      <TableCell>v{product.version}</TableCell>
+                      <TableCell>
+                        {product.is_active ? (
+                          <Badge className="bg-green-100 text-green-800">Active</Badge>
+                        ) : (
+                          <Badge variant="secondary">Retired</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openEditDialog(product)} title="Edit">
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => openHistory(product)} title="Version history">
+                            <History className="w-4 h-4" />
+                          </Button>
+                          {product.is_active ? (
+                            <Button variant="ghost" size="sm" onClick={() => setRetiringProduct(product)} title="Retire">
+                              <Archive className="w-4 h-4 text-destructive" />
+                            </Button>
+                          ) : (
+                            <Button variant="ghost" size="sm" onClick={() => handleReactivate(product)} title="Reactivate">
+                              <RotateCcw className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
           </CardContent>
         </Card>
       </div>
+
+      {/* Create / edit */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] p-0">
+          <DialogHeader className="px-6 pt-6">
+            <DialogTitle>{editingProduct ? `Edit ${editingProduct.name}` : 'Add Loan Product'}</DialogTitle>
+            <DialogDescription>
+              {editingProduct
+                ? `Saving creates version ${editingProduct.version + 1} if anything changed.`
+                : 'New products appear in the product selector once they have an intake form.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="max-h-[65vh] px-6">
+            <div className="space-y-6 pb-2">
+              <section className="space-y-4">
+                <h3 className="text-sm font-semibold">Product</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="product-key">Key</Label>
+                    <Input
+                      id="product-key"
+                      value={form.key}
+                      onChange={(e) => setForm({ ...form, key: e.target.value.toLowerCase() })}
+                      placeholder="e.g. sba_7a_small"
+                      disabled={editingProduct !== null}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="product-name">Name</Label>
+                    <Input id="product-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Category</Label>
+                    <Select value={form.category} onValueChange={(value) => setForm({ ...form, category: value as LoanProductCategory })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Icon</Label>
+                    <Select value={form.icon} onValueChange={(value) => setForm({ ...form, icon: value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {Object.keys(PRODUCT_ICONS).map((name) => (
+                          <SelectItem key={name} value={name}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Intake form</Label>
+                    <Select value={form.form_id} onValueChange={(value) => setForm({ ...form, form_id: value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None (not offered in the selector)</SelectItem>
+                        {INTAKE_FORMS.map((f) => (
+                          <SelectItem key={f.id} value={String(f.id)}>{f.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="product-sort">Display order</Label>
+                    <Input id="product-sort" type="number" value={form.sort_order} onChange={(e) => setForm({ ...form, sort_order: e.target.value })} />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="product-description">Description</Label>
+                  <Textarea id="product-description" rows={2} value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="product-highlights">Highlights</Label>
+                    <Input
+                      id="product-highlights"
+                      value={form.highlights}
+                      onChange={(e) => setForm({ ...form, highlights: e.target.value })}
+                      placeholder="Separate points with |"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="product-rate-display">Rate display</Label>
+                    <Input
+                      id="product-rate-display"
+                      value={form.rate_display}
+                      onChange={(e) => setForm({ ...form, rate_display: e.target.value })}
+                      placeholder="e.g. Prime + 2.75%"
+                    />
+                  </div>
+                </div>
+              </section>
+
+              <section className="space-y-4">
+                <h3 className="text-sm font-semibold">Amounts, rates and terms</h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="product-min-amount">Min amount ($)</Label>
+                    <Input id="product-min-amount" type="number" value={form.min_amount} onChange={(e) => setForm({ ...form, min_amount: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="product-max-amount">Max amount ($)</Label>
+                    <Input id="product-max-amount" type="number" value={form.max_amount} onChange={(e) => setForm({ ...form, max_amount: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="product-rate-min">Min rate (%)</Label>
+                    <Input id="product-rate-min" type="number" step="0.01" value={form.interest_rate_min} onChange={(e) => setForm({ ...form, interest_rate_min: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="product-rate-max">Max rate (%)</Label>
+                    <Input id="product-rate-max" type="number" step="0.01" value={form.interest_rate_max} onChange={(e) => setForm({ ...form, interest_rate_max: e.target.value })} />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="product-terms">Term options</Label>
+                  <Input
+                    id="product-terms"
+                    value={form.term_options}
+                    onChange={(e) => setForm({ ...form, term_options: e.target.value })}
+                    placeholder="Comma separated, e.g. 5 years, 10 years"
+                  />
+                </div>
+              </section>
+
+              <section className="space-y-4">
+                <div>
+                  <h3 className="text-sm font-semibold">Eligibility thresholds</h3>
+                  <p className="text-xs text-muted-foreground">Leave a field blank to skip that check.</p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {THRESHOLD_FIELDS.map((field) => (
+                    <div key={field.key} className="space-y-2">
+                      <Label htmlFor={`threshold-${field.key}`}>{field.label}</Label>
+                      <Input
+                        id={`threshold-${field.key}`}
+                        type="number"
+                        step="0.01"
+                        value={form.thresholds[field.key]}
+                        onChange={(e) => setThreshold(field.key, e.target.value)}
+                        placeholder={field.hint}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section className="space-y-4">
+                <h3 className="text-sm font-semibold">Required documents</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {BORROWER_DOCUMENT_CATEGORIES.map((category) => (
+                    <div key={category.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`doc-${category.id}`}
+                        checked={form.required_document_categories.includes(category.id)}
+                        onCheckedChange={(checked) => toggleDocument(category.id, checked === true)}
+                      />
+                      <Label htmlFor={`doc-${category.id}`} className="font-normal">{category.name}</Label>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            </div>
+          </ScrollArea>
+
+          <DialogFooter className="px-6 pb-6">
+            <Button variant="outline" onClick={() => setIsFormOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : editingProduct ? 'Save Changes' : 'Create Product'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Retire */}
+      <AlertDialog open={retiringProduct !== null} onOpenChange={(open) => !open && setRetiringProduct(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Retire {retiringProduct?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Borrowers will no longer be able to apply for this product. Existing applications keep it, and it can be reactivated later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="retire-reason">Reason (optional)</Label>
+            <Textarea id="retire-reason" rows={2} value={retireReason} onChange={(e) => setRetireReason(e.target.value)} />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => setRetireReason('')}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRetire} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Retire Product
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Version history */}
+      <Dialog open={historyProduct !== null} onOpenChange={(open) => !open && setHistoryProduct(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{historyProduct?.name} history</DialogTitle>
+            <DialogDescription>Every saved change is kept as a numbered version.</DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[60vh]">
+            {versionsLoading ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">Loading history...</p>
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No versions recorded</p>
+            ) : (
+              <div className="space-y-3 pr-3">
+                {versions.map((version) => (
+                  <div key={version.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">v{version.version}</Badge>
+                        {version.snapshot.is_active === false && <Badge variant="secondary">Retired</Badge>}
+                      </div>
+                      <span className="text-xs text-muted-foreground">{new Date(version.created_at).toLocaleString()}</span>
+                    </div>
+                    {version.changed_fields.length > 0 ? (
+                      <div className="flex flex-wrap gap-1">
+                        {version.changed_fields.map((field) => (
+                          <Badge key={field} variant="secondary" className="font-mono text-xs">{field}</Badge>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">Initial version</p>
+                    )}
+                    {version.snapshot.required_document_categories && version.snapshot.required_document_categories.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Documents: {version.snapshot.required_document_categories.map(getDocumentCategoryName).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
 
-export default LoanProducts;
\ No newline at end of file
+export default LoanProducts;
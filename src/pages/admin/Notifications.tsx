@@ -1,14 +1,96 @@
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { PageHeader } from '@/components/PageHeader';
-import { Bell, Plus, Send } from 'lucide-react';
+import { NotificationOutboxPanel, NotificationTemplatesPanel } from '@/components/notifications';
+import { useToast } from '@/hooks/use-toast';
+import {
+  emailDeliveryService,
+  EMAIL_DELIVERY_STATUS_LABELS,
+  EMAIL_PROVIDER_LABELS,
+  type EmailDelivery,
+  type EmailDeliveryStatus,
+} from '@/services/emailDeliveryService';
+import { Mail, Plus, RefreshCw, Search, Send } from 'lucide-react';
+
+const getStatusVariant = (status: EmailDeliveryStatus): 'default' | 'secondary' | 'destructive' | 'outline' =>
+  status === 'delivered' ? 'default' : status === 'sent' ? 'secondary' : status === 'deferred' ? 'outline' : 'destructive';
+
+const formatTemplate = (template: string) =>
+  template.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
 
 const Notifications = () => {
+  const { toast } = useToast();
+  const [deliveries, setDeliveries] = useState<EmailDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<'all' | EmailDeliveryStatus>('all');
+  const [search, setSearch] = useState('');
+  const [recipient, setRecipient] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    emailDeliveryService.listDeliveries({
+      recipient: recipient || undefined,
+      status: statusFilter === 'all' ? undefined : statusFilter,
+    })
+      .then((rows) => {
+        if (!cancelled) setDeliveries(rows);
+      })
+      .catch((err) => {
+        console.error('Error loading email deliveries:', err);
+        if (!cancelled) {
+          toast({
+            title: "Error",
+            description: "Failed to load email deliveries",
+            variant: "destructive"
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [recipient, statusFilter, toast]);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      setDeliveries(await emailDeliveryService.listDeliveries({
+        recipient: recipient || undefined,
+        status: statusFilter === 'all' ? undefined : statusFilter,
+      }));
+    } catch (err) {
+      console.error('Error loading email deliveries:', err);
+      toast({
+        title: "Error",
+        description: "Failed to load email deliveries",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applySearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setRecipient(search.trim());
+  };
+
+  const problemCount = deliveries.filter((d) => d.status === 'bounced' || d.status === 'failed').length;
+
   return (
     <div className="min-h-screen bg-background">
-      <PageHeader 
-        title="Notifications" 
-        subtitle="Send system notifications and manage alerts"
+      <PageHeader
+        title="Notifications"
+        subtitle="Send system notifications, manage message templates and track delivery"
       >
         <Button>
           <Plus className="w-4 h-4 mr-2" />
@@ -17,38 +99,150 @@ const Notifications = () => {
       </PageHeader>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6 space-y-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Send className="w-5 h-5" />
-                Send Notification
-              </CardTitle>
-              <CardDescription>Broadcast messages to users</CardDescription>
-            </CardHeader>
-            <CardContent className="text-center py-8">
-              <Send className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-              <p className="text-muted-foreground">Notification composer coming soon</p>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Bell className="w-5 h-5" />
-                Notification History
-              </CardTitle>
-              <CardDescription>View sent notifications</CardDescription>
-            </CardHeader>
-            <CardContent className="text-center py-8">
-              <Bell className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-              <p className="text-muted-foreground">Notification history coming soon</p>
-            </CardContent>
-          </Card>
-        </div>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Send className="w-5 h-5" />
+              Send Notification
+            </CardTitle>
+            <CardDescription>Broadcast messages to users</CardDescription>
+          </CardHeader>
+          <CardContent className="text-center py-8">
+            <Send className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">Notification composer coming soon</p>
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue="templates">
+          <TabsList>
+            <TabsTrigger value="templates">Templates</TabsTrigger>
+            <TabsTrigger value="deliveries">Email Deliveries</TabsTrigger>
+            <TabsTrigger value="outbox">Outbox</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="templates" className="mt-4">
+            <NotificationTemplatesPanel />
+          </TabsContent>
+
+          <TabsContent value="deliveries" className="mt-4">
+            <Card>
+              <CardHeader>
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <Mail className="w-5 h-5" />
+                      Email Deliveries
+                    </CardTitle>
+                    <CardDescription>
+                      Every email sent to borrowers, with provider status and bounce details
+                      {problemCount > 0 && ` · ${problemCount} bounced or failed`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <form onSubmit={applySearch} className="flex gap-2">
+                      <Input
+                        placeholder="Recipient email"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        className="w-[220px]"
+                      />
+                      <Button type="submit" variant="outline" size="icon">
+                        <Search className="w-4 h-4" />
+                      </Button>
+                    </form>
+                    <Select
+                      value={statusFilter}
+                      onValueChange={(value) => {
+                        setLoading(true);
+                        setStatusFilter(value as 'all' | EmailDeliveryStatus);
+                      }}
+                    >
+                      <SelectTrigger className="w-[160px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All statuses</SelectItem>
+                        {(Object.keys(EMAIL_DELIVERY_STATUS_LABELS) as EmailDeliveryStatus[]).map((status) => (
+                          <SelectItem key={status} value={status}>{EMAIL_DELIVERY_STATUS_LABELS[status]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" size="icon" onClick={refresh} disabled={loading}>
+                      <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="text-center py-8 text-muted-foreground">Loading deliveries...</div>
+                ) : deliveries.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Mail className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">No emails match these filters</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Sent</TableHead>
+                        <TableHead>Recipient</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Provider</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {deliveries.map((delivery) => (
+                        <TableRow key={delivery.id}>
+                          <TableCell className="text-sm whitespace-nowrap">
+                            {new Date(delivery.created_at).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="font-medium">{delivery.recipient}</TableCell>
+                          <TableCell>
+                            <p className="text-sm">{delivery.subject}</p>
+                            <p className="text-xs text-muted-foreground">{formatTemplate(delivery.template)}</p>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            <p>{EMAIL_PROVIDER_LABELS[delivery.provider]}</p>
+                            {delivery.provider_message_id && (
+                              <p className="text-xs text-muted-foreground font-mono truncate max-w-[180px]" title={delivery.provider_message_id}>
+                                {delivery.provider_message_id}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={getStatusVariant(delivery.status)}>
+                              {EMAIL_DELIVERY_STATUS_LABELS[delivery.status]}
+                              {delivery.bounce_type && ` (${delivery.bounce_type})`}
+                            </Badge>
+                            {(delivery.bounce_reason || delivery.error_message) && (
+                              <p className="text-xs text-muted-foreground mt-1 max-w-[260px]">
+                                {delivery.bounce_reason || delivery.error_message}
+                              </p>
+                            )}
+                            {delivery.delivered_at && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                Delivered {new Date(delivery.delivered_at).toLocaleString()}
+                              </p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="outbox" className="mt-4">
+            <NotificationOutboxPanel />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
 };
 
-export default Notifications;
\ No newline at end of file
+export default Notifications;
@@ -1,48 +1,729 @@
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { PageHeader } from '@/components/PageHeader';
-import { CreditCard, DollarSign } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  paymentService,
+  type DelinquencyBucket,
+  type LoanDelinquency,
+  type LoanPayment,
+  type LoanPaymentEntryType,
+  type ServicedLoan,
+} from '@/services/paymentService';
+import { parsePaymentCsv, type PaymentCsvResult } from '@/utils/paymentCsv';
+import { AlertTriangle, CalendarClock, CreditCard, DollarSign, Plus, RefreshCw, RotateCcw, Upload } from 'lucide-react';
+
+const ENTRY_TYPE_LABELS: Record<LoanPaymentEntryType, string> = {
+  scheduled: 'Scheduled',
+  received: 'Received',
+  late: 'Late Fee',
+  reversed: 'Reversal',
+};
+
+const BUCKETS: DelinquencyBucket[] = ['current', '1-29', '30-59', '60-89', '90+'];
+
+const BUCKET_LABELS: Record<DelinquencyBucket, string> = {
+  current: 'Current',
+  '1-29': '1–29 days',
+  '30-59': '30–59 days',
+  '60-89': '60–89 days',
+  '90+': '90+ days',
+};
+
+const formatCurrency = (value: number | null) =>
+  value === null ? '—' : new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+// Ledger dates are calendar dates; format without shifting time zones
+const formatDate = (value: string | null) =>
+  value ? new Date(`${value}T00:00:00`).toLocaleDateString('en-US') : '—';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const getStatusVariant = (payment: LoanPayment): 'default' | 'secondary' | 'destructive' | 'outline' => {
+  if (payment.status === 'reversed' || payment.entry_type === 'reversed') return 'outline';
+  if (payment.status === 'paid' || payment.status === 'posted') return 'default';
+  if (payment.entry_type === 'late' || (payment.due_date !== null && payment.due_date < today())) return 'destructive';
+  return 'secondary';
+};
+
+const getBucketVariant = (bucket: DelinquencyBucket): 'default' | 'secondary' | 'destructive' =>
+  bucket === 'current' ? 'default' : bucket === '1-29' ? 'secondary' : 'destructive';
+
+interface PaymentForm {
+  loanId: string;
+  amount: string;
+  paymentDate: string;
+  reference: string;
+  notes: string;
+}
+
+const EMPTY_FORM: PaymentForm = { loanId: '', amount: '', paymentDate: '', reference: '', notes: '' };
+
+interface LedgerData {
+  payments: LoanPayment[];
+  loans: ServicedLoan[];
+  delinquency: LoanDelinquency[];
+}
+
+const fetchLedger = async (): Promise<LedgerData> => {
+  const [payments, loans, delinquency] = await Promise.all([
+    paymentService.listPayments(),
+    paymentService.listLoans(),
+    paymentService.getDelinquencySummary(),
+  ]);
+  return { payments, loans, delinquency };
+};
 
 const PaymentManagement = () => {
+  const { toast } = useToast();
+  const [data, setData] = useState<LedgerData>({ payments: [], loans: [], delinquency: [] });
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  const [loanFilter, setLoanFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState<'all' | LoanPaymentEntryType>('all');
+
+  const [isRecordOpen, setIsRecordOpen] = useState(false);
+  const [form, setForm] = useState<PaymentForm>(EMPTY_FORM);
+
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importFileName, setImportFileName] = useState('');
+  const [importPreview, setImportPreview] = useState<PaymentCsvResult | null>(null);
+
+  const [reversingPayment, setReversingPayment] = useState<LoanPayment | null>(null);
+  const [reverseReason, setReverseReason] = useState('');
+
+  const showError = (description: string, err: unknown) => {
+    console.error(`${description}:`, err);
+    toast({
+      title: "Error",
+      description: err instanceof Error ? err.message : description,
+      variant: "destructive"
+    });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchLedger()
+      .then((ledger) => {
+        if (!cancelled) setData(ledger);
+      })
+      .catch((err) => {
+        console.error('Error loading payments:', err);
+        if (!cancelled) {
+          toast({
+            title: "Error",
+            description: "Failed to load payments",
+            variant: "destructive"
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [toast]);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      setData(await fetchLedger());
+    } catch (err) {
+      showError('Failed to load payments', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const { payments, loans, delinquency } = data;
+  const loanNames = new Map(loans.map((l) => [l.id, l.loan_name]));
+
+  const monthPrefix = today().slice(0, 7);
+  const collectedThisMonth = payments
+    .filter((p) => p.entry_type === 'received' && p.status === 'posted' && p.effective_date.startsWith(monthPrefix))
+    .reduce((sum, p) => sum + p.amount, 0);
+  const pastDueAmount = delinquency.reduce((sum, d) => sum + d.past_due_amount, 0);
+  const lateFeesDue = delinquency.reduce((sum, d) => sum + d.late_fees_due, 0);
+  const delinquentLoans = delinquency.filter((d) => d.bucket !== 'current');
+  const bucketTotals = BUCKETS.map((bucket) => {
+    const rows = delinquency.filter((d) => d.bucket === bucket);
+    return { bucket, count: rows.length, balance: rows.reduce((sum, d) => sum + d.loan_balance, 0) };
+  });
+
+  const filteredPayments = payments.filter((p) =>
+    (loanFilter === 'all' || p.loan_id === loanFilter) && (typeFilter === 'all' || p.entry_type === typeFilter)
+  );
+
+  const openRecordDialog = (loanId = '') => {
+    setForm({ ...EMPTY_FORM, loanId, paymentDate: today() });
+    setIsRecordOpen(true);
+  };
+
+  const handleRecordPayment = async () => {
+    const amount = Number(form.amount);
+    if (!form.loanId || !Number.isFinite(amount) || amount <= 0 || !form.paymentDate) {
+      toast({
+        title: "Validation Error",
+        description: "Select a loan and enter a positive amount and a payment date",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setWorking(true);
+    try {
+      await paymentService.recordPayment({
+        loanId: form.loanId,
+        amount,
+        paymentDate: form.paymentDate,
+        reference: form.reference.trim(),
+        notes: form.notes.trim(),
+      });
+      toast({
+        title: "Payment recorded",
+        description: `${formatCurrency(amount)} posted to ${loanNames.get(form.loanId) ?? 'the loan'}`
+      });
+      setIsRecordOpen(false);
+      await refresh();
+    } catch (err) {
+      showError('Failed to record payment', err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const openImportDialog = () => {
+    setImportFileName('');
+    setImportPreview(null);
+    setIsImportOpen(true);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    setImportFileName(file.name);
+    setImportPreview(parsePaymentCsv(await file.text(), loans));
+  };
+
+  const handleImport = async () => {
+    if (!importPreview || importPreview.rows.length === 0) return;
+
+    setWorking(true);
+    try {
+      const result = await paymentService.importPayments(importPreview.rows);
+      const skipped = result.duplicates > 0 ? `, ${result.duplicates} already posted` : '';
+      toast({
+        title: result.failures.length > 0 ? "Import finished with errors" : "Import complete",
+        description: `${result.imported} payments posted${skipped}` +
+          (result.failures.length > 0 ? `, ${result.failures.length} failed (line ${result.failures.map((f) => f.line).join(', ')})` : ''),
+        variant: result.failures.length > 0 ? "destructive" : "default"
+      });
+      setIsImportOpen(false);
+      await refresh();
+    } catch (err) {
+      showError('Failed to import payments', err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleReverse = async () => {
+    if (!reversingPayment) return;
+
+    setWorking(true);
+    try {
+      await paymentService.reversePayment(reversingPayment.id, reverseReason.trim());
+      toast({
+        title: "Payment reversed",
+        description: `${formatCurrency(reversingPayment.amount)} returned to the loan balance`
+      });
+      setReversingPayment(null);
+      setReverseReason('');
+      await refresh();
+    } catch (err) {
+      showError('Failed to reverse payment', err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleAssessLateFees = async () => {
+    setWorking(true);
+    try {
+      const assessed = await paymentService.assessLateFees();
+      toast({
+        title: "Late fees assessed",
+        description: assessed > 0 ? `${assessed} late fees charged` : 'No installments are past the grace period'
+      });
+      await refresh();
+    } catch (err) {
+      showError('Failed to assess late fees', err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleGenerateSchedules = async () => {
+    setWorking(true);
+    try {
+      const created = await paymentService.generateSchedule();
+      toast({
+        title: "Schedules updated",
+        description: created > 0 ? `${created} installments scheduled` : 'Every loan is already scheduled a year ahead'
+      });
+      await refresh();
+    } catch (err) {
+      showError('Failed to generate schedules', err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background">
-      <PageHeader 
-        title="Payment Management" 
-        subtitle="View and manage payment transactions"
-      />
+      <PageHeader
+        title="Payment Management"
+        subtitle="Post payments, import bank files and track delinquency on funded loans"
+      >
+        <Button variant="secondary" size="sm" onClick={refresh} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </PageHeader>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6 space-y-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <CreditCard className="w-5 h-5" />
-                Recent Transactions
-              </CardTitle>
-              <CardDescription>Latest payment activity</CardDescription>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <DollarSign className="w-4 h-4" />
+                Collected This Month
+              </CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(collectedThisMonth)}</CardTitle>
             </CardHeader>
-            <CardContent className="text-center py-8">
-              <CreditCard className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-              <p className="text-muted-foreground">Transaction history coming soon</p>
-            </CardContent>
           </Card>
-
           <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <DollarSign className="w-5 h-5" />
-                Payment Summary
-              </CardTitle>
-              <CardDescription>Overview of financial activity</CardDescription>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <CalendarClock className="w-4 h-4" />
+                Past Due
+              </CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(pastDueAmount)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <CreditCard className="w-4 h-4" />
+                Late Fees Outstanding
+              </CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(lateFeesDue)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                Delinquent Loans
+              </CardDescription>
+              <CardTitle className="text-2xl">{delinquentLoans.length} of {delinquency.length}</CardTitle>
             </CardHeader>
-            <CardContent className="text-center py-8">
-              <DollarSign className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-              <p className="text-muted-foreground">Payment summary coming soon</p>
-            </CardContent>
           </Card>
         </div>
+
+        <Tabs defaultValue="ledger">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <TabsList>
+              <TabsTrigger value="ledger">Ledger</TabsTrigger>
+              <TabsTrigger value="delinquency">Delinquency</TabsTrigger>
+            </TabsList>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={handleGenerateSchedules} disabled={working}>
+                <CalendarClock className="w-4 h-4 mr-2" />
+                Generate Schedules
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleAssessLateFees} disabled={working}>
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                Assess Late Fees
+              </Button>
+              <Button variant="outline" size="sm" onClick={openImportDialog} disabled={working}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import Bank File
+              </Button>
+              <Button size="sm" onClick={() => openRecordDialog(loanFilter === 'all' ? '' : loanFilter)} disabled={working}>
+                <Plus className="w-4 h-4 mr-2" />
+                Record Payment
+              </Button>
+            </div>
+          </div>
+
+          <TabsContent value="ledger">
+            <Card>
+              <CardHeader>
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div>
+                    <CardTitle>Payment Ledger</CardTitle>
+                    <CardDescription>Scheduled installments, received payments, late fees and reversals</CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Select value={loanFilter} onValueChange={setLoanFilter}>
+                      <SelectTrigger className="w-[220px]">
+                        <SelectValue placeholder="All loans" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All loans</SelectItem>
+                        {loans.map((loan) => (
+                          <SelectItem key={loan.id} value={loan.id}>{loan.loan_name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as 'all' | LoanPaymentEntryType)}>
+                      <SelectTrigger className="w-[160px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All entries</SelectItem>
+                        {(Object.keys(ENTRY_TYPE_LABELS) as LoanPaymentEntryType[]).map((type) => (
+                          <SelectItem key={type} value={type}>{ENTRY_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="text-center py-8 text-muted-foreground">Loading payments...</div>
+                ) : filteredPayments.length === 0 ? (
+                  <div className="text-center py-8">
+                    <CreditCard className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">No ledger entries match these filters</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Loan</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Applied</TableHead>
+                        <TableHead>Reference</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Balance After</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredPayments.map((payment) => (
+                        <TableRow key={payment.id}>
+                          <TableCell>{formatDate(payment.due_date ?? payment.effective_date)}</TableCell>
+                          <TableCell className="font-medium">{loanNames.get(payment.loan_id) ?? '—'}</TableCell>
+                          <TableCell>
+                            {ENTRY_TYPE_LABELS[payment.entry_type]}
+                            {payment.installment_number !== null && (
+                              <span className="text-muted-foreground"> #{payment.installment_number}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(payment.amount)}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {payment.entry_type === 'received'
+                              ? `P ${formatCurrency(payment.principal_amount)} · I ${formatCurrency(payment.interest_amount)}` +
+                                (payment.fee_amount > 0 ? ` · F ${formatCurrency(payment.fee_amount)}` : '')
+                              : payment.entry_type === 'reversed' ? '—' : formatCurrency(payment.amount_applied)}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {payment.reference ?? '—'}
+                            {payment.source === 'csv_import' && <Badge variant="outline" className="ml-2">CSV</Badge>}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={getStatusVariant(payment)} className="capitalize">{payment.status}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(payment.balance_after)}</TableCell>
+                          <TableCell className="text-right">
+                            {payment.entry_type === 'received' && payment.status === 'posted' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  setReverseReason('');
+                                  setReversingPayment(payment);
+                                }}
+                                disabled={working}
+                              >
+                                <RotateCcw className="w-4 h-4 mr-1" />
+                                Reverse
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="delinquency" className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {bucketTotals.map(({ bucket, count, balance }) => (
+                <Card key={bucket}>
+                  <CardHeader className="pb-2">
+                    <CardDescription>{BUCKET_LABELS[bucket]}</CardDescription>
+                    <CardTitle className="text-2xl">{count}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="text-sm text-muted-foreground">{formatCurrency(balance)} outstanding</CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Delinquent Loans</CardTitle>
+                <CardDescription>Loans with installments past their due date, oldest first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {delinquentLoans.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    {loading ? 'Loading delinquency...' : 'All loans are current'}
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Loan</TableHead>
+                        <TableHead>Bucket</TableHead>
+                        <TableHead className="text-right">Days Past Due</TableHead>
+                        <TableHead className="text-right">Missed</TableHead>
+                        <TableHead className="text-right">Past Due</TableHead>
+                        <TableHead className="text-right">Late Fees</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {delinquentLoans.map((row) => (
+                        <TableRow key={row.loan_id}>
+                          <TableCell className="font-medium">{row.loan_name}</TableCell>
+                          <TableCell>
+                            <Badge variant={getBucketVariant(row.bucket)}>{BUCKET_LABELS[row.bucket]}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{row.days_past_due}</TableCell>
+                          <TableCell className="text-right">{row.installments_past_due}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.past_due_amount)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.late_fees_due)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.loan_balance)}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => openRecordDialog(row.loan_id)} disabled={working}>
+                              Record Payment
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       </div>
+
+      {/* Record Payment Dialog */}
+      <Dialog open={isRecordOpen} onOpenChange={setIsRecordOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              The payment covers late fees first, then accrued interest, then principal.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Loan *</Label>
+              <Select value={form.loanId} onValueChange={(value) => setForm({ ...form, loanId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a loan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {loans.map((loan) => (
+                    <SelectItem key={loan.id} value={loan.id}>
+                      {loan.loan_name} ({formatCurrency(loan.loan_balance)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="payment-amount">Amount *</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment-date">Payment Date *</Label>
+                <Input
+                  id="payment-date"
+                  type="date"
+                  value={form.paymentDate}
+                  onChange={(e) => setForm({ ...form, paymentDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">Reference</Label>
+              <Input
+                id="payment-reference"
+                placeholder="Check or transaction number"
+                value={form.reference}
+                onChange={(e) => setForm({ ...form, reference: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-notes">Notes</Label>
+              <Textarea
+                id="payment-notes"
+                rows={2}
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRecordOpen(false)}>Cancel</Button>
+            <Button onClick={handleRecordPayment} disabled={working}>
+              {working ? 'Posting...' : 'Post Payment'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bank File Import Dialog */}
+      <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Import Bank File</DialogTitle>
+            <DialogDescription>
+              CSV with a header row: amount, date, loan_id or loan_name, and optionally reference and memo.
+              References already posted to a loan are skipped.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input type="file" accept=".csv,text/csv" onChange={(e) => handleImportFile(e.target.files?.[0])} />
+            {importPreview && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {importFileName}: {importPreview.rows.length} payments totalling{' '}
+                  {formatCurrency(importPreview.rows.reduce((sum, row) => sum + row.amount, 0))}
+                  {importPreview.errors.length > 0 && `, ${importPreview.errors.length} rows skipped`}
+                </p>
+                {importPreview.errors.length > 0 && (
+                  <div className="rounded-md border border-destructive/50 p-3 text-sm text-destructive space-y-1">
+                    {importPreview.errors.map((error) => (
+                      <p key={error.line}>Line {error.line}: {error.message}</p>
+                    ))}
+                  </div>
+                )}
+                {importPreview.rows.length > 0 && (
+                  <ScrollArea className="h-[280px]">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Line</TableHead>
+                          <TableHead>Loan</TableHead>
+                          <TableHead>Date</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                          <TableHead>Reference</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {importPreview.rows.map((row) => (
+                          <TableRow key={row.line}>
+                            <TableCell>{row.line}</TableCell>
+                            <TableCell>{loanNames.get(row.loanId)}</TableCell>
+                            <TableCell>{formatDate(row.paymentDate)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(row.amount)}</TableCell>
+                            <TableCell>{row.reference ?? '—'}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+                )}
+              </>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsImportOpen(false)}>Cancel</Button>
+            <Button onClick={handleImport} disabled={working || !importPreview || importPreview.rows.length === 0}>
+              {working ? 'Importing...' : `Import ${importPreview?.rows.length ?? 0} Payments`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reverse Confirmation */}
+      <AlertDialog open={!!reversingPayment} onOpenChange={(open) => !open && setReversingPayment(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reverse payment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {reversingPayment && (
+                <>
+                  {formatCurrency(reversingPayment.amount)} received on {formatDate(reversingPayment.effective_date)} will be
+                  backed out. Principal returns to the loan balance and the installments it covered reopen.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reverse-reason">Reason</Label>
+            <Textarea
+              id="reverse-reason"
+              rows={2}
+              placeholder="e.g. Returned for insufficient funds"
+              value={reverseReason}
+              onChange={(e) => setReverseReason(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReverse} disabled={working}>
+              Reverse Payment
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
 
-export default PaymentManagement;
\ No newline at end of file
+export default PaymentManagement;
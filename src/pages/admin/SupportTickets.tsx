@@ -1,48 +1,524 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import { PageHeader } from '@/components/PageHeader';
-import { MessageSquare, Inbox } from 'lucide-react';
+import { TicketStatusBadge, TicketThread } from '@/components/support';
+import { useToast } from '@/hooks/use-toast';
+import {
+  supportTicketService,
+  getTicketSla,
+  SUPPORT_TICKET_CATEGORY_LABELS,
+  SUPPORT_TICKET_PRIORITY_LABELS,
+  SUPPORT_TICKET_STATUS_LABELS,
+  type SlaState,
+  type SupportStaffMember,
+  type SupportTicket,
+  type SupportTicketMessage,
+  type SupportTicketPriority,
+  type SupportTicketStatus,
+  type SupportTicketUpdate,
+} from '@/services/supportTicketService';
+import { AlarmClock, CheckCircle2, Inbox, MessageSquare, RefreshCw, Send, UserX } from 'lucide-react';
+
+type StatusFilter = 'active' | 'all' | SupportTicketStatus;
+
+const ACTIVE_STATUSES: SupportTicketStatus[] = ['open', 'in_progress', 'waiting_on_customer'];
+
+const SLA_LABELS: Record<SlaState, string> = {
+  met: 'Met',
+  on_track: 'On track',
+  due_soon: 'Due soon',
+  breached: 'Breached',
+};
+
+const getSlaVariant = (state: SlaState): 'default' | 'secondary' | 'destructive' | 'outline' =>
+  state === 'breached' ? 'destructive' : state === 'due_soon' ? 'secondary' : state === 'met' ? 'outline' : 'default';
+
+const getPriorityVariant = (priority: SupportTicketPriority): 'default' | 'secondary' | 'destructive' | 'outline' =>
+  priority === 'urgent' ? 'destructive' : priority === 'high' ? 'default' : priority === 'normal' ? 'secondary' : 'outline';
+
+const borrowerName = (ticket: SupportTicket) =>
+  [ticket.first_name, ticket.last_name].filter(Boolean).join(' ') || ticket.contact_email || 'Borrower';
+
+const staffName = (member: SupportStaffMember) =>
+  [member.first_name, member.last_name].filter(Boolean).join(' ') || member.id.slice(0, 8);
+
+/** The SLA that matters right now: first response until answered, then resolution */
+const currentSla = (ticket: SupportTicket) => {
+  const sla = getTicketSla(ticket);
+  return ticket.first_responded_at || sla.firstResponse === 'met'
+    ? { label: 'Resolution', state: sla.resolution, dueAt: ticket.resolution_due_at }
+    : { label: 'First response', state: sla.firstResponse, dueAt: ticket.first_response_due_at };
+};
+
+// 'active' is filtered client-side since it spans several statuses
+const fetchQueue = (statusFilter: StatusFilter, assigneeFilter: string) =>
+  supportTicketService.listTickets({
+    scope: 'queue',
+    status: statusFilter === 'active' || statusFilter === 'all' ? undefined : statusFilter,
+    assignedTo: assigneeFilter === 'all' ? undefined : assigneeFilter,
+  });
 
 const SupportTickets = () => {
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [tickets, setTickets] = useState<SupportTicket[]>([]);
+  const [staff, setStaff] = useState<SupportStaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [assigneeFilter, setAssigneeFilter] = useState('all');
+
+  const [activeTicket, setActiveTicket] = useState<{ ticket: SupportTicket; messages: SupportTicketMessage[] } | null>(null);
+  const [reply, setReply] = useState('');
+  const [internalNote, setInternalNote] = useState(false);
+  const [working, setWorking] = useState(false);
+
+  const openTicketId = searchParams.get('ticket');
+
+  const showError = (description: string, err: unknown) => {
+    console.error(`${description}:`, err);
+    toast({
+      title: "Error",
+      description: err instanceof Error ? err.message : description,
+      variant: "destructive"
+    });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchQueue(statusFilter, assigneeFilter)
+      .then((rows) => {
+        if (!cancelled) setTickets(rows);
+      })
+      .catch((err) => {
+        console.error('Error loading tickets:', err);
+        if (!cancelled) {
+          toast({
+            title: "Error",
+            description: "Failed to load support tickets",
+            variant: "destructive"
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [statusFilter, assigneeFilter, toast]);
+
+  useEffect(() => {
+    let cancelled = false;
+    supportTicketService.listStaff()
+      .then((members) => {
+        if (!cancelled) setStaff(members);
+      })
+      .catch((err) => {
+        console.error('Error loading support staff:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Notifications link straight to a ticket with ?ticket=<id>
+  useEffect(() => {
+    if (!openTicketId) return;
+    let cancelled = false;
+    supportTicketService.getTicket(openTicketId)
+      .then((detail) => {
+        if (!cancelled) setActiveTicket(detail);
+      })
+      .catch((err) => {
+        console.error('Error loading ticket:', err);
+        if (!cancelled) {
+          toast({
+            title: "Error",
+            description: "Failed to load ticket",
+            variant: "destructive"
+          });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [openTicketId, toast]);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      setTickets(await fetchQueue(statusFilter, assigneeFilter));
+    } catch (err) {
+      showError('Failed to load support tickets', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeStatusFilter = (value: string) => {
+    setLoading(true);
+    setStatusFilter(value as StatusFilter);
+  };
+
+  const changeAssigneeFilter = (value: string) => {
+    setLoading(true);
+    setAssigneeFilter(value);
+  };
+
+  const openTicket = (ticketId: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (ticketId) next.set('ticket', ticketId);
+    else next.delete('ticket');
+    setSearchParams(next);
+    if (!ticketId) {
+      setActiveTicket(null);
+      setReply('');
+      setInternalNote(false);
+    }
+  };
+
+  const replaceTicket = (ticket: SupportTicket) => {
+    setTickets((prev) => prev.map((t) => (t.id === ticket.id ? ticket : t)));
+    setActiveTicket((prev) => (prev && prev.ticket.id === ticket.id ? { ...prev, ticket } : prev));
+  };
+
+  const handleUpdate = async (changes: SupportTicketUpdate) => {
+    if (!activeTicket) return;
+
+    setWorking(true);
+    try {
+      replaceTicket(await supportTicketService.updateTicket(activeTicket.ticket.id, changes));
+    } catch (err) {
+      showError('Failed to update ticket', err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSendReply = async () => {
+    if (!activeTicket || !reply.trim()) return;
+
+    setWorking(true);
+    try {
+      const ticketId = activeTicket.ticket.id;
+      await supportTicketService.reply(ticketId, reply.trim(), internalNote);
+      // Reload so the SLA stamps and status set by the reply trigger are reflected
+      const detail = await supportTicketService.getTicket(ticketId);
+      setActiveTicket(detail);
+      replaceTicket(detail.ticket);
+      setReply('');
+      toast({
+        title: internalNote ? "Note Added" : "Reply Sent",
+        description: internalNote ? "Only support staff can see this note" : "The borrower has been notified",
+      });
+    } catch (err) {
+      showError('Failed to send reply', err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const visibleTickets = statusFilter === 'active'
+    ? tickets.filter((t) => ACTIVE_STATUSES.includes(t.status))
+    : tickets;
+  const activeTickets = tickets.filter((t) => ACTIVE_STATUSES.includes(t.status));
+  const unassignedCount = activeTickets.filter((t) => !t.assigned_to).length;
+  const breachedCount = activeTickets.filter((t) => currentSla(t).state === 'breached').length;
+  const resolvedCount = tickets.filter((t) => t.status === 'resolved' || t.status === 'closed').length;
+  const staffNames = new Map(staff.map((m) => [m.id, staffName(m)]));
+
   return (
     <div className="min-h-screen bg-background">
-      <PageHeader 
-        title="Support Tickets" 
-        subtitle="Review and respond to user support requests"
-      />
+      <PageHeader
+        title="Support Tickets"
+        subtitle="Triage, assign and respond to borrower support requests"
+      >
+        <Button variant="secondary" size="sm" onClick={refresh} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </PageHeader>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6 space-y-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Inbox className="w-5 h-5" />
-                Open Tickets
-              </CardTitle>
-              <CardDescription>Tickets awaiting response</CardDescription>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <Inbox className="w-4 h-4" />
+                Active Tickets
+              </CardDescription>
+              <CardTitle className="text-2xl">{activeTickets.length}</CardTitle>
             </CardHeader>
-            <CardContent className="text-center py-8">
-              <Inbox className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-              <p className="text-muted-foreground">No open tickets</p>
-            </CardContent>
           </Card>
-
           <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <MessageSquare className="w-5 h-5" />
-                Ticket History
-              </CardTitle>
-              <CardDescription>Resolved and closed tickets</CardDescription>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <UserX className="w-4 h-4" />
+                Unassigned
+              </CardDescription>
+              <CardTitle className="text-2xl">{unassignedCount}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <AlarmClock className="w-4 h-4" />
+                SLA Breached
+              </CardDescription>
+              <CardTitle className="text-2xl">{breachedCount}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <CheckCircle2 className="w-4 h-4" />
+                Resolved / Closed
+              </CardDescription>
+              <CardTitle className="text-2xl">{resolvedCount}</CardTitle>
             </CardHeader>
-            <CardContent className="text-center py-8">
-              <MessageSquare className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-              <p className="text-muted-foreground">Ticket management coming soon</p>
-            </CardContent>
           </Card>
         </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div>
+                <CardTitle>Ticket Queue</CardTitle>
+                <CardDescription>Newest tickets first</CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Select value={statusFilter} onValueChange={changeStatusFilter}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">All active</SelectItem>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {(Object.keys(SUPPORT_TICKET_STATUS_LABELS) as SupportTicketStatus[]).map((status) => (
+                      <SelectItem key={status} value={status}>{SUPPORT_TICKET_STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={assigneeFilter} onValueChange={changeAssigneeFilter}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Anyone</SelectItem>
+                    <SelectItem value="me">Assigned to me</SelectItem>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {staff.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>{staffName(member)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading tickets...</div>
+            ) : visibleTickets.length === 0 ? (
+              <div className="text-center py-8">
+                <Inbox className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No tickets match these filters</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ticket</TableHead>
+                    <TableHead>Borrower</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Priority</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>SLA</TableHead>
+                    <TableHead>Assignee</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleTickets.map((ticket) => {
+                    const sla = currentSla(ticket);
+                    const closed = ticket.status === 'resolved' || ticket.status === 'closed';
+                    return (
+                      <TableRow key={ticket.id} className="cursor-pointer" onClick={() => openTicket(ticket.id)}>
+                        <TableCell>
+                          <p className="font-medium">{ticket.subject}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {ticket.ticket_number} · {ticket.message_count} message{ticket.message_count === 1 ? '' : 's'}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <p>{borrowerName(ticket)}</p>
+                          {ticket.business_name && (
+                            <p className="text-xs text-muted-foreground">{ticket.business_name}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{SUPPORT_TICKET_CATEGORY_LABELS[ticket.category]}</TableCell>
+                        <TableCell>
+                          <Badge variant={getPriorityVariant(ticket.priority)}>
+                            {SUPPORT_TICKET_PRIORITY_LABELS[ticket.priority]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell><TicketStatusBadge status={ticket.status} /></TableCell>
+                        <TableCell>
+                          {closed && sla.state !== 'breached' ? (
+                            <span className="text-sm text-muted-foreground">—</span>
+                          ) : (
+                            <div>
+                              <Badge variant={getSlaVariant(sla.state)}>{SLA_LABELS[sla.state]}</Badge>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {sla.label}{sla.dueAt ? ` · ${new Date(sla.dueAt).toLocaleString()}` : ''}
+                              </p>
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {ticket.assigned_to ? staffNames.get(ticket.assigned_to) ?? 'Staff' : (
+                            <span className="text-muted-foreground">Unassigned</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
       </div>
+
+      {/* Ticket Detail Dialog */}
+      <Dialog open={!!openTicketId && !!activeTicket} onOpenChange={(open) => !open && openTicket(null)}>
+        <DialogContent className="max-w-3xl">
+          {activeTicket && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-3">
+                  {activeTicket.ticket.subject}
+                  <TicketStatusBadge status={activeTicket.ticket.status} />
+                </DialogTitle>
+                <DialogDescription>
+                  {activeTicket.ticket.ticket_number} · {borrowerName(activeTicket.ticket)}
+                  {activeTicket.ticket.contact_email ? ` <${activeTicket.ticket.contact_email}>` : ''} ·
+                  {' '}{SUPPORT_TICKET_CATEGORY_LABELS[activeTicket.ticket.category]}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label>Status</Label>
+                  <Select
+                    value={activeTicket.ticket.status}
+                    onValueChange={(value) => handleUpdate({ status: value as SupportTicketStatus })}
+                    disabled={working}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SUPPORT_TICKET_STATUS_LABELS) as SupportTicketStatus[]).map((status) => (
+                        <SelectItem key={status} value={status}>{SUPPORT_TICKET_STATUS_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Priority</Label>
+                  <Select
+                    value={activeTicket.ticket.priority}
+                    onValueChange={(value) => handleUpdate({ priority: value as SupportTicketPriority })}
+                    disabled={working}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SUPPORT_TICKET_PRIORITY_LABELS) as SupportTicketPriority[]).map((priority) => (
+                        <SelectItem key={priority} value={priority}>{SUPPORT_TICKET_PRIORITY_LABELS[priority]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Assignee</Label>
+                  <Select
+                    value={activeTicket.ticket.assigned_to ?? 'unassigned'}
+                    onValueChange={(value) => handleUpdate({ assignedTo: value === 'unassigned' ? null : value })}
+                    disabled={working}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="unassigned">Unassigned</SelectItem>
+                      {staff.map((member) => (
+                        <SelectItem key={member.id} value={member.id}>{staffName(member)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2 text-xs">
+                {(['firstResponse', 'resolution'] as const).map((key) => {
+                  const state = getTicketSla(activeTicket.ticket)[key];
+                  const dueAt = key === 'firstResponse'
+                    ? activeTicket.ticket.first_response_due_at
+                    : activeTicket.ticket.resolution_due_at;
+                  return (
+                    <Badge key={key} variant={getSlaVariant(state)} className="gap-1">
+                      <AlarmClock className="w-3 h-3" />
+                      {key === 'firstResponse' ? 'First response' : 'Resolution'}: {SLA_LABELS[state]}
+                      {dueAt && state !== 'met' ? ` · due ${new Date(dueAt).toLocaleString()}` : ''}
+                    </Badge>
+                  );
+                })}
+              </div>
+
+              <ScrollArea className="h-[320px] pr-3">
+                <TicketThread
+                  messages={activeTicket.messages}
+                  viewer="staff"
+                  borrowerName={borrowerName(activeTicket.ticket)}
+                />
+              </ScrollArea>
+
+              <div className="space-y-2">
+                <Textarea
+                  placeholder={internalNote ? 'Add a note for the support team...' : 'Reply to the borrower...'}
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  rows={3}
+                />
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Switch id="internal-note" checked={internalNote} onCheckedChange={setInternalNote} />
+                    <Label htmlFor="internal-note" className="text-sm font-normal">Internal note</Label>
+                  </div>
+                  <Button onClick={handleSendReply} disabled={working || !reply.trim()} className="gap-2">
+                    {internalNote ? <MessageSquare className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+                    {internalNote ? 'Add Note' : 'Send Reply'}
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
 
-export default SupportTickets;
\ No newline at end of file
+export default SupportTickets;
@@ -4,7 +4,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { PageHeader } from '@/components/PageHeader';
-import { Bell, Mail, Database, Shield } from 'lucide-react';
+import { Bell, Mail, Database, Shield, UserCheck } from 'lucide-react';
 import { restQuery } from '@/services/supabaseHttp';
 import { useEffect, useState } from 'react';
 import { toast } from 'sonner';
@@ -248,6 +248,48 @@ const SystemSettings = () => {
               </div>
             </CardContent>
           </Card>
+
+          {/* Dual Approval */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <UserCheck className="w-5 h-5" />
+                Dual Approval
+              </CardTitle>
+              <CardDescription>Require a second underwriter to confirm high-value approvals, fundings and rejections</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="dual-approval-enabled">Require Second Approver</Label>
+                <Switch
+                  id="dual-approval-enabled"
+                  checked={settings.dual_approval?.enabled ?? true}
+                  onCheckedChange={(checked) => 
+                    updateSetting('dual_approval', {
+                      ...settings.dual_approval,
+                      enabled: checked
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dual-approval-threshold">Threshold ($)</Label>
+                <Input
+                  id="dual-approval-threshold"
+                  type="number"
+                  value={settings.dual_approval?.threshold ?? 250000}
+                  onChange={(e) => 
+                    updateSetting('dual_approval', {
+                      ...settings.dual_approval,
+                      threshold: parseInt(e.target.value)
+                    })
+                  }
+                  min="0"
+                />
+                <p className="text-xs text-muted-foreground">Applications requesting this amount or more need two approvers</p>
+              </div>
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
@@ -1,6 +1,7 @@
 import { authProvider } from '@/services/auth';
 import { auditService } from './auditService';
 import { invokeEdgeFunction, restQuery } from './supabaseHttp';
+import type { ApplicationTransition, StatusDecision } from '@/config/applicationWorkflow';
 
 export interface ApplicationStats {
   total: number;
@@ -22,6 +23,67 @@ export interface ApplicationFilter {
   searchTerm?: string;
 }
 
+export type ApplicationSortColumn =
+  | 'created_at'
+  | 'updated_at'
+  | 'amount_requested'
+  | 'application_number'
+  | 'business_name'
+  | 'last_name'
+  | 'status'
+  | 'loan_type';
+
+export interface ApplicationSort {
+  column: ApplicationSortColumn;
+  direction: 'asc' | 'desc';
+}
+
+export interface ApplicationIndexQuery {
+  search?: string;
+  statuses?: string[];
+  loanTypes?: string[];
+  dateFrom?: string;
+  dateTo?: string;
+  amountMin?: number;
+  amountMax?: number;
+  // Up to three columns; the application id is always the final tie breaker
+  sort?: ApplicationSort[];
+  // next_cursor of the previous page, only valid with the same filters and sort
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ApplicationIndexRow {
+  id: string;
+  user_id: string;
+  application_number: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  business_name: string | null;
+  loan_type: string;
+  amount_requested: number | null;
+  status: string;
+  years_in_business: number | null;
+  application_submitted_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ApplicationIndexPage {
+  applications: ApplicationIndexRow[];
+  total: number;
+  next_cursor: string | null;
+}
+
+/** Result of a status change; above the dual approval threshold it waits for a second approver. */
+export interface StatusUpdateResult {
+  success: boolean;
+  application?: Record<string, unknown>;
+  pendingConfirmation?: boolean;
+  decision?: StatusDecision;
+  message?: string;
+}
+
 export interface Analytics {
   totalApplications: number;
   applicationsTrend: { last30Days: number; last7Days: number };
@@ -57,10 +119,21 @@ class AdminService {
     }
   }
 
+  async searchApplications(indexQuery: ApplicationIndexQuery): Promise<ApplicationIndexPage> {
+    const data = await invokeEdgeFunction<ApplicationIndexPage>('admin-dashboard', { action: 'index', ...indexQuery });
+    await auditService.logAccess({
+      action: 'VIEW_LOAN_APPLICATIONS',
+      resourceType: 'loan_application',
+      details: { query: { ...indexQuery, cursor: undefined }, resultCount: data.applications?.length || 0, total: data.total },
+    });
+    return data;
+  }
+
   async updateApplicationStatus(applicationId: string, status: string, notes?: string) {
     try {
-      const data = await invokeEdgeFunction('admin-dashboard', { applicationId, status, notes });
-      await auditService.logLoanApplicationAccess(applicationId, 'update', { newStatus: status, notes });
+      // The workflow rejects transitions that are not allowed from the current status
+      const data = await invokeEdgeFunction<StatusUpdateResult>('admin-dashboard', { action: 'update-status', applicationId, status, notes });
+      await auditService.logLoanApplicationAccess(applicationId, 'update', { newStatus: status, notes, pendingConfirmation: !!data.pendingConfirmation });
       return data;
     } catch (error) {
       console.error('Error updating application status:', error);
@@ -68,6 +141,31 @@ class AdminService {
     }
   }
 
+  /** Next actions from the application's current status, with the reasons any are blocked. */
+  async getApplicationTransitions(applicationId: string): Promise<ApplicationTransition[]> {
+    const data = await invokeEdgeFunction<{ transitions: ApplicationTransition[] }>('admin-dashboard', { action: 'transitions', applicationId });
+    return data.transitions ?? [];
+  }
+
+  /** Maker-checker decisions on the application, newest first. */
+  async getStatusDecisions(applicationId: string): Promise<StatusDecision[]> {
+    const p = new URLSearchParams();
+    p.set('application_id', `eq.${applicationId}`);
+    p.set('order', 'requested_at.desc');
+    const { data } = await restQuery<StatusDecision[]>('application_status_decisions', { params: p });
+    return data || [];
+  }
+
+  /** Second approver confirms a pending decision; the requester cannot confirm their own. */
+  async confirmStatusDecision(decisionId: string, notes?: string): Promise<StatusUpdateResult> {
+    return invokeEdgeFunction<StatusUpdateResult>('admin-dashboard', { action: 'confirm-decision', decisionId, notes });
+  }
+
+  /** Declines a pending decision, or withdraws it when called by the requester. */
+  async declineStatusDecision(decisionId: string, notes?: string): Promise<StatusUpdateResult> {
+    return invokeEdgeFunction<StatusUpdateResult>('admin-dashboard', { action: 'decline-decision', decisionId, notes });
+  }
+
   async exportApplications(filters: ApplicationFilter): Promise<Blob> {
     try {
       const searchParams = new URLSearchParams();
@@ -133,23 +231,22 @@ class AdminService {
   }
 
   async batchUpdateStatus(applicationIds: string[], status: string, notes?: string) {
-    try {
-      const p = new URLSearchParams();
-      p.set('id', `in.(${applicationIds.join(',')})`);
-      const { data } = await restQuery('loan_applications', {
-        method: 'PATCH',
-        params: p,
-        body: { status, updated_at: new Date().toISOString() },
-        returnData: true,
-      });
-      for (const appId of applicationIds) {
-        await auditService.logLoanApplicationAccess(appId, 'update', { batchOperation: true, newStatus: status, notes, totalInBatch: applicationIds.length });
+    // Each application goes through the workflow on its own, so one blocked
+    // transition does not stop the rest of the batch. High-value changes wait
+    // for a second approver and are reported as pending.
+    const failed: Array<{ applicationId: string; error: string }> = [];
+    const pending: string[] = [];
+    for (const appId of applicationIds) {
+      try {
+        const data = await invokeEdgeFunction<StatusUpdateResult>('admin-dashboard', { action: 'update-status', applicationId: appId, status, notes });
+        if (data.pendingConfirmation) pending.push(appId);
+        await auditService.logLoanApplicationAccess(appId, 'update', { batchOperation: true, newStatus: status, notes, totalInBatch: applicationIds.length, pendingConfirmation: !!data.pendingConfirmation });
+      } catch (error) {
+        failed.push({ applicationId: appId, error: error instanceof Error ? error.message : 'Failed to update status' });
       }
-      return data;
-    } catch (error) {
-      console.error('Error batch updating applications:', error);
-      throw new Error('Failed to batch update applications');
     }
+    if (failed.length > 0) console.error('Error batch updating applications:', failed);
+    return { updated: applicationIds.length - failed.length - pending.length, pending, failed };
   }
 
   async getBorrowerBankAccounts(borrowerUserId: string) {
@@ -0,0 +1,96 @@
+import { generateAdverseActionNoticePDF } from '@/utils/pdfGenerator';
+import { invokeEdgeFunction, restQuery, storageUpload } from './supabaseHttp';
+
+export type AdverseActionNoticeStatus = 'pending' | 'generated' | 'sent';
+
+export const ADVERSE_ACTION_STATUS_LABELS: Record<AdverseActionNoticeStatus, string> = {
+  pending: 'Not generated',
+  generated: 'Awaiting delivery',
+  sent: 'Sent',
+};
+
+export interface AdverseActionReason {
+  factor_key: string;
+  label: string;
+  reason: string;
+}
+
+/**
+ * ECOA / Reg B notice opened when an application is rejected, joined with
+ * the applicant details the letter needs (adverse_action_notice_report).
+ */
+export interface AdverseActionNotice {
+  id: string;
+  application_id: string;
+  user_id: string;
+  application_number: string | null;
+  business_name: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  business_address: string | null;
+  business_city: string | null;
+  business_state: string | null;
+  business_zip: string | null;
+  loan_type: string;
+  amount_requested: number | null;
+  reasons: AdverseActionReason[];
+  risk_score: number | null;
+  decision_notes: string | null;
+  decided_at: string;
+  // End of the regulatory delivery window
+  due_at: string;
+  status: AdverseActionNoticeStatus;
+  document_id: string | null;
+  generated_at: string | null;
+  sent_at: string | null;
+  delivery_channels: string[];
+  last_error: string | null;
+  is_overdue: boolean;
+  days_remaining: number;
+}
+
+class AdverseActionService {
+  /** Notices not yet delivered, most urgent first. */
+  async listUnsent(): Promise<AdverseActionNotice[]> {
+    const p = new URLSearchParams();
+    p.set('status', 'neq.sent');
+    p.set('order', 'due_at.asc');
+    const { data } = await restQuery<AdverseActionNotice[]>('adverse_action_notice_report', { params: p });
+    return data || [];
+  }
+
+  async listForApplication(applicationId: string): Promise<AdverseActionNotice[]> {
+    const p = new URLSearchParams();
+    p.set('application_id', `eq.${applicationId}`);
+    p.set('order', 'decided_at.desc');
+    const { data } = await restQuery<AdverseActionNotice[]>('adverse_action_notice_report', { params: p });
+    return data || [];
+  }
+
+  /** Opens the rendered notice in a new tab without filing it. */
+  preview(notice: AdverseActionNotice): void {
+    const url = URL.createObjectURL(generateAdverseActionNoticePDF(notice));
+    window.open(url, '_blank');
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  }
+
+  /**
+   * Renders the notice, stores it in the borrower's documents and queues
+   * delivery; the outbox worker marks it sent once it reaches the borrower.
+   */
+  async generateAndSend(notice: AdverseActionNotice): Promise<void> {
+    const fileName = `adverse-action-notice-${notice.application_number ?? notice.application_id}.pdf`;
+    const file = new File([generateAdverseActionNoticePDF(notice)], fileName, { type: 'application/pdf' });
+    const filePath = `${notice.user_id}/${Date.now()}_${fileName}`;
+    await storageUpload('borrower-documents', filePath, file, { cacheControl: '3600' });
+    await invokeEdgeFunction('admin-dashboard', {
+      action: 'record-adverse-action',
+      noticeId: notice.id,
+      fileName,
+      filePath,
+      fileSize: file.size,
+    });
+  }
+}
+
+export const adverseActionService = new AdverseActionService();
@@ -10,7 +10,9 @@ import type {
   BankAccountsAPI,
   CreditScoresAPI,
   DocumentsAPI,
+  LoanProductsAPI,
   LoanApplication,
+  LoanProduct,
   BankAccount,
 } from './types';
 
@@ -121,9 +123,20 @@ const documents: DocumentsAPI = {
   },
 };
 
+const loanProducts: LoanProductsAPI = {
+  async list(): Promise<LoanProduct[]> {
+    const res = await callIbmApi<{ data: LoanProduct[] }>({
+      entity: 'loan_products',
+      action: 'list',
+    });
+    return res.data ?? [];
+  },
+};
+
 export const ibmProvider: DataAPI = {
   loanApplications,
   bankAccounts,
   creditScores,
   documents,
+  loanProducts,
 };
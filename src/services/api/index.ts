@@ -4,7 +4,7 @@
  * Primary: IBM PostgreSQL provider (via ibm-data-api edge function)
  * Fallback: Supabase provider kept in supabaseProvider.ts
  */
-export type { DataAPI, LoanApplication, BankAccount, CreditScore, BorrowerDocument } from './types';
+export type { DataAPI, LoanApplication, BankAccount, CreditScore, BorrowerDocument, LoanProduct, LoanProductCategory, LoanProductThresholds, LoanProductVersion } from './types';
 import { ibmProvider } from './ibmProvider';
 
 export const api = ibmProvider;
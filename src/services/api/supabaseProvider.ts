@@ -9,7 +9,9 @@ import type {
   BankAccountsAPI,
   CreditScoresAPI,
   DocumentsAPI,
+  LoanProductsAPI,
   LoanApplication,
+  LoanProduct,
   BankAccount,
 } from './types';
 
@@ -83,6 +85,7 @@ const creditScores: CreditScoresAPI = {
   async listScores(userId: string): Promise<{ score: number }[]> {
     const params = new URLSearchParams();
     params.set('user_id', `eq.${userId}`);
+    params.set('score_type', 'eq.consumer');
     params.set('select', 'score');
     const { data } = await restQuery<{ score: number }[]>('credit_scores', { params });
     return data ?? [];
@@ -99,9 +102,19 @@ const documents: DocumentsAPI = {
   },
 };
 
+const loanProducts: LoanProductsAPI = {
+  async list(): Promise<LoanProduct[]> {
+    const params = new URLSearchParams();
+    params.set('order', 'sort_order.asc,name.asc');
+    const { data } = await restQuery<LoanProduct[]>('loan_products', { params });
+    return data ?? [];
+  },
+};
+
 export const supabaseProvider: DataAPI = {
   loanApplications,
   bankAccounts,
   creditScores,
   documents,
+  loanProducts,
 };
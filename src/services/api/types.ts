@@ -50,6 +50,9 @@ export interface CreditScore {
   user_id: string;
   score: number;
   bureau: string;
+  score_type: 'consumer' | 'business';
+  score_min: number;
+  score_max: number;
   score_date: string;
   report_url: string | null;
   created_at: string;
@@ -72,6 +75,58 @@ export interface BorrowerDocument {
   updated_at: string;
 }
 
+export type LoanProductCategory = 'sba' | 'government' | 'commercial' | 'working_capital';
+
+/** Catalog entry; loan_applications.loan_type holds a LoanProduct key */
+export interface LoanProduct {
+  key: string;
+  name: string;
+  description: string | null;
+  highlights: string | null;
+  rate_display: string | null;
+  category: LoanProductCategory;
+  icon: string;
+  /** Stable id used by the /?id= deep links to pick the application form */
+  form_id: number | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  interest_rate_min: number | null;
+  interest_rate_max: number | null;
+  term_options: string[];
+  /** MyDocuments folder ids the borrower must upload */
+  required_document_categories: string[];
+  /** Overrides for the eligibility calculator; a null value disables that gate */
+  eligibility_thresholds: LoanProductThresholds;
+  is_active: boolean;
+  sort_order: number;
+  /** Incremented on every material change; see loan_product_versions */
+  version: number;
+  retired_at: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LoanProductThresholds {
+  maxLtv?: number | null;
+  minDscr?: number | null;
+  minCreditScore?: number | null;
+  minYearsInBusiness?: number | null;
+  maxRevenuePct?: number | null;
+  minEquityPct?: number | null;
+}
+
+/** Immutable snapshot written by the database on each product revision */
+export interface LoanProductVersion {
+  id: string;
+  product_key: string;
+  version: number;
+  snapshot: Partial<LoanProduct>;
+  changed_fields: string[];
+  changed_by: string | null;
+  created_at: string;
+}
+
 // -- Service interfaces --
 
 export interface LoanApplicationsAPI {
@@ -96,10 +151,16 @@ export interface DocumentsAPI {
   listCategories(userId: string): Promise<{ document_category: string }[]>;
 }
 
+export interface LoanProductsAPI {
+  /** All catalog entries, including retired products, ordered for display */
+  list(): Promise<LoanProduct[]>;
+}
+
 /** Top-level API facade used by components */
 export interface DataAPI {
   loanApplications: LoanApplicationsAPI;
   bankAccounts: BankAccountsAPI;
   creditScores: CreditScoresAPI;
   documents: DocumentsAPI;
+  loanProducts: LoanProductsAPI;
 }
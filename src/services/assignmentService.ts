@@ -1,6 +1,17 @@
 import { authProvider } from '@/services/auth';
 import { auditService } from './auditService';
-import { restQuery } from './supabaseHttp';
+import { callRpc, restQuery } from './supabaseHttp';
+
+export type AssignmentStrategy = 'round_robin' | 'least_loaded' | 'skill_based';
+export type AssignmentMethod = 'manual' | AssignmentStrategy | 'sla_reassignment';
+
+export const ASSIGNMENT_METHOD_LABELS: Record<AssignmentMethod, string> = {
+  manual: 'Manual',
+  round_robin: 'Round robin',
+  least_loaded: 'Least workload',
+  skill_based: 'Skill based',
+  sla_reassignment: 'SLA reassignment',
+};
 
 export interface ApplicationAssignment {
   id: string;
@@ -9,6 +20,11 @@ export interface ApplicationAssignment {
   assigned_by: string | null;
   assigned_at: string;
   notes: string | null;
+  assignment_method: AssignmentMethod;
+  // The SLA sweep hands the application to someone else once this passes
+  due_at: string | null;
+  reassigned_from: string | null;
+  reassignment_count: number;
   application?: {
     application_number: string;
     business_name: string;
@@ -30,6 +46,39 @@ export interface Underwriter {
   role: string;
 }
 
+/** A routing candidate from the underwriter_workload view. */
+export interface UnderwriterWorkload {
+  user_id: string;
+  role: string;
+  max_open_assignments: number;
+  out_of_office: boolean;
+  out_of_office_until: string | null;
+  auto_assign: boolean;
+  // Loan product codes; empty means any product
+  loan_types: string[];
+  min_amount: number | null;
+  max_amount: number | null;
+  last_assigned_at: string | null;
+  open_assignments: number;
+  overdue_assignments: number;
+  first_name?: string | null;
+  last_name?: string | null;
+}
+
+export type UnderwriterSettingsInput = Pick<
+  UnderwriterWorkload,
+  'max_open_assignments' | 'out_of_office' | 'out_of_office_until' | 'auto_assign' | 'loan_types' | 'min_amount' | 'max_amount'
+>;
+
+export interface AssignmentRoutingSettings {
+  strategy: AssignmentStrategy;
+  sla_hours: number;
+  // Route applications as soon as the borrower submits them
+  auto_assign_on_submit: boolean;
+}
+
+const DEFAULT_ROUTING: AssignmentRoutingSettings = { strategy: 'least_loaded', sla_hours: 48, auto_assign_on_submit: true };
+
 export interface UnassignedApplication {
   id: string;
   application_number: string;
@@ -64,7 +113,7 @@ class AssignmentService {
 
   async getAssignments(): Promise<ApplicationAssignment[]> {
     const p = new URLSearchParams();
-    p.set('select', 'id, application_id, admin_id, assigned_by, assigned_at, notes');
+    p.set('select', 'id, application_id, admin_id, assigned_by, assigned_at, notes, assignment_method, due_at, reassigned_from, reassignment_count');
     p.set('order', 'assigned_at.desc');
     const { data } = await restQuery<any[]>('admin_application_assignments', { params: p });
     if (!data || data.length === 0) return [];
@@ -146,6 +195,79 @@ class AssignmentService {
     await auditService.logAccess({ action: 'DELETE_ASSIGNMENT', resourceType: 'application_assignment', resourceId: assignmentId, details: { application_id: assignment?.application_id, admin_id: assignment?.admin_id } });
   }
 
+  async getWorkload(): Promise<UnderwriterWorkload[]> {
+    const { data } = await restQuery<UnderwriterWorkload[]>('underwriter_workload');
+    if (!data || data.length === 0) return [];
+
+    const pp = new URLSearchParams();
+    pp.set('id', `in.(${data.map((w) => w.user_id).join(',')})`);
+    pp.set('select', 'id, first_name, last_name');
+    const { data: profiles } = await restQuery<{ id: string; first_name: string | null; last_name: string | null }[]>('profiles', { params: pp });
+
+    return data.map((w) => {
+      const profile = profiles?.find((p) => p.id === w.user_id);
+      return {
+        ...w,
+        // NUMERIC columns arrive as strings from the IBM data API
+        min_amount: w.min_amount == null ? null : Number(w.min_amount),
+        max_amount: w.max_amount == null ? null : Number(w.max_amount),
+        first_name: profile?.first_name ?? null,
+        last_name: profile?.last_name ?? null,
+      };
+    });
+  }
+
+  async updateUnderwriterSettings(userId: string, settings: UnderwriterSettingsInput): Promise<void> {
+    const { data: userData } = await authProvider.getUser();
+    const p = new URLSearchParams();
+    p.set('on_conflict', 'user_id');
+    await restQuery('underwriter_settings', {
+      method: 'POST',
+      params: p,
+      body: {
+        user_id: userId,
+        ...settings,
+        out_of_office_until: settings.out_of_office ? settings.out_of_office_until : null,
+        updated_by: userData?.user?.id || null,
+      },
+    });
+    await auditService.logAccess({ action: 'UPDATE_UNDERWRITER_SETTINGS', resourceType: 'underwriter_settings', resourceId: userId, details: { ...settings } });
+  }
+
+  async setOutOfOffice(userId: string, outOfOffice: boolean, until?: string | null): Promise<void> {
+    await callRpc('set_underwriter_out_of_office', { _user_id: userId, _out_of_office: outOfOffice, _until: until ?? null });
+  }
+
+  async getRoutingSettings(): Promise<AssignmentRoutingSettings> {
+    const p = new URLSearchParams();
+    p.set('setting_key', 'eq.assignment_routing');
+    p.set('select', 'setting_value');
+    const { data } = await restQuery<{ setting_value: Partial<AssignmentRoutingSettings> }[]>('system_settings', { params: p });
+    return { ...DEFAULT_ROUTING, ...(data?.[0]?.setting_value ?? {}) };
+  }
+
+  async updateRoutingSettings(settings: AssignmentRoutingSettings): Promise<void> {
+    const p = new URLSearchParams();
+    p.set('setting_key', 'eq.assignment_routing');
+    await restQuery('system_settings', { method: 'PATCH', params: p, body: { setting_value: settings } });
+    await auditService.logAccess({ action: 'UPDATE_ASSIGNMENT_ROUTING', resourceType: 'system_setting', resourceId: 'assignment_routing', details: { ...settings } });
+  }
+
+  /** Route one application; returns the new assignment id, or null when nobody is available. */
+  async autoAssign(applicationId: string, strategy?: AssignmentStrategy): Promise<string | null> {
+    return callRpc<string | null>('auto_assign_application', { _application_id: applicationId, _strategy: strategy ?? null });
+  }
+
+  /** Route every unassigned submitted or under-review application, oldest first. */
+  async autoAssignPending(strategy?: AssignmentStrategy): Promise<{ assigned: number; unassigned: number }> {
+    return callRpc('auto_assign_pending_applications', { _strategy: strategy ?? null });
+  }
+
+  /** Hand open work past its SLA, or held by someone out of office, to another underwriter. */
+  async reassignStale(): Promise<number> {
+    return callRpc<number>('reassign_stale_assignments');
+  }
+
   async getAssignmentsForUnderwriter(underwriterId: string): Promise<ApplicationAssignment[]> {
     const assignments = await this.getAssignments();
     return assignments.filter(a => a.admin_id === underwriterId);
@@ -16,6 +16,21 @@ export type AuditAction =
   | 'ASSIGN_APPLICATION'
   | 'UPDATE_ASSIGNMENT'
   | 'DELETE_ASSIGNMENT'
+  | 'UPDATE_UNDERWRITER_SETTINGS'
+  | 'UPDATE_ASSIGNMENT_ROUTING'
+  | 'CREATE_LOAN_PRODUCT'
+  | 'UPDATE_LOAN_PRODUCT'
+  | 'RETIRE_LOAN_PRODUCT'
+  | 'REACTIVATE_LOAN_PRODUCT'
+  | 'UPDATE_NOTIFICATION_TEMPLATE'
+  | 'ENABLE_NOTIFICATION_TEMPLATE'
+  | 'DISABLE_NOTIFICATION_TEMPLATE'
+  | 'RESTORE_NOTIFICATION_TEMPLATE'
+  | 'CREATE_APPLICATION_CONDITION'
+  | 'UPDATE_APPLICATION_CONDITION'
+  | 'CLEAR_APPLICATION_CONDITION'
+  | 'WAIVE_APPLICATION_CONDITION'
+  | 'REOPEN_APPLICATION_CONDITION'
   | 'REPEATED_FAILED_LOGIN'
   | 'RATE_LIMIT_TRIGGERED'
   | 'SESSION_TIMEOUT';
@@ -28,7 +43,12 @@ export type ResourceType =
   | 'admin_dashboard'
   | 'security_audit'
   | 'user_role'
-  | 'application_assignment';
+  | 'application_assignment'
+  | 'underwriter_settings'
+  | 'system_setting'
+  | 'loan_product'
+  | 'notification_template'
+  | 'application_condition';
 
 interface AuditLogParams {
   action: AuditAction;
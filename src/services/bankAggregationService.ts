@@ -0,0 +1,130 @@
+import { invokeEdgeFunction } from './supabaseHttp';
+
+export type AggregationProvider = 'plaid' | 'sandbox';
+
+export interface Institution {
+  id: string;
+  name: string;
+}
+
+export interface LinkToken {
+  provider: AggregationProvider;
+  linkToken: string;
+  expiration: string;
+  /** Banks the sandbox can link; Plaid Link shows its own picker */
+  institutions?: Institution[];
+}
+
+export interface BankConnection {
+  id: string;
+  user_id: string;
+  provider: AggregationProvider;
+  institution_id: string | null;
+  institution_name: string;
+  is_business: boolean;
+  status: 'active' | 'error' | 'disconnected';
+  error: string | null;
+  last_synced_at: string | null;
+  next_sync_at: string;
+  created_at: string;
+}
+
+export interface LinkedBankAccount {
+  id: string;
+  user_id: string;
+  connection_id: string | null;
+  /**
+   * 'manual' accounts were typed in by the borrower and are not verified;
+   * 'statement' ones were read from uploaded bank statements
+   */
+  source: 'manual' | 'aggregated' | 'statement';
+  account_name: string;
+  account_number: string;
+  account_type: string;
+  institution: string;
+  balance: number;
+  available_balance: number | null;
+  currency: string;
+  is_business: boolean;
+  status: string;
+  last_synced_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BankTransaction {
+  id: string;
+  account_id: string;
+  user_id: string;
+  posted_on: string;
+  /** Money in is positive, money out negative */
+  amount: number;
+  currency: string;
+  description: string;
+  merchant_name: string | null;
+  category: string | null;
+  pending: boolean;
+}
+
+export interface BankConnections {
+  connections: BankConnection[];
+  accounts: LinkedBankAccount[];
+}
+
+// Postgres NUMERIC columns arrive as strings from the IBM backend
+const toAmount = (value: number | string | null) => (value === null ? null : Number(value));
+
+const normalizeAccount = (a: LinkedBankAccount): LinkedBankAccount => ({
+  ...a,
+  balance: Number(a.balance),
+  available_balance: toAmount(a.available_balance),
+});
+
+class BankAggregationService {
+  async createLinkToken(): Promise<LinkToken> {
+    return invokeEdgeFunction<LinkToken>('bank-aggregation', { action: 'link-token' });
+  }
+
+  /** Completes a Link session: records the bank and imports its accounts and transactions. */
+  async exchange(params: {
+    publicToken: string;
+    institution: { id: string | null; name: string };
+    isBusiness: boolean;
+  }): Promise<BankConnection> {
+    const { connection } = await invokeEdgeFunction<{ connection: BankConnection }>('bank-aggregation', {
+      action: 'exchange',
+      ...params,
+    });
+    return connection;
+  }
+
+  async sync(connectionId: string): Promise<BankConnection> {
+    const { connection } = await invokeEdgeFunction<{ connection: BankConnection }>('bank-aggregation', {
+      action: 'sync',
+      connectionId,
+    });
+    return connection;
+  }
+
+  /** Linked banks and accounts; the caller's own unless staff pass a userId. */
+  async connections(userId?: string): Promise<BankConnections> {
+    const result = await invokeEdgeFunction<BankConnections>('bank-aggregation', { action: 'connections', userId });
+    return { ...result, accounts: result.accounts.map(normalizeAccount) };
+  }
+
+  /** Imported transactions, newest first. */
+  async transactions(params: { userId?: string; accountIds?: string[]; since?: string; limit?: number } = {}): Promise<BankTransaction[]> {
+    const { transactions } = await invokeEdgeFunction<{ transactions: BankTransaction[] }>('bank-aggregation', {
+      action: 'transactions',
+      ...params,
+    });
+    return transactions.map((t) => ({ ...t, amount: Number(t.amount) }));
+  }
+
+  /** Deletes a self-reported account, or disconnects the bank behind a linked one. */
+  async removeAccount(accountId: string): Promise<void> {
+    await invokeEdgeFunction('bank-aggregation', { action: 'remove', accountId });
+  }
+}
+
+export const bankAggregationService = new BankAggregationService();
@@ -0,0 +1,89 @@
+import { invokeEdgeFunction } from './supabaseHttp';
+
+export type IntegrityStatus = 'verified' | 'unverified' | 'warning' | 'suspect';
+
+export interface IntegrityFlag {
+  code: string;
+  severity: 'high' | 'medium' | 'info';
+  message: string;
+  details: Record<string, unknown>;
+}
+
+export interface StatementImport {
+  id: string;
+  document_id: string;
+  user_id: string;
+  application_id: string | null;
+  /** The 'statement' bank account the transactions were filed under */
+  account_id: string | null;
+  status: 'parsed' | 'failed';
+  format: 'csv' | 'ofx' | 'pdf' | null;
+  institution_name: string | null;
+  account_name: string | null;
+  account_mask: string | null;
+  currency: string;
+  period_start: string | null;
+  period_end: string | null;
+  opening_balance: number | null;
+  closing_balance: number | null;
+  transaction_count: number;
+  total_credits: number;
+  total_debits: number;
+  integrity_flags: IntegrityFlag[];
+  /** Null when parsing failed */
+  integrity: IntegrityStatus | null;
+  /** Why parsing failed, fit to show the borrower */
+  error: string | null;
+  parsed_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StatementDocument {
+  id: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  uploaded_at: string;
+  version_number: number;
+}
+
+export interface BankStatements {
+  documents: StatementDocument[];
+  imports: StatementImport[];
+}
+
+// Postgres NUMERIC columns arrive as strings
+const toAmount = (value: number | string | null) => (value === null ? null : Number(value));
+
+const normalizeImport = (i: StatementImport): StatementImport => ({
+  ...i,
+  opening_balance: toAmount(i.opening_balance),
+  closing_balance: toAmount(i.closing_balance),
+  total_credits: Number(i.total_credits),
+  total_debits: Number(i.total_debits),
+});
+
+class BankStatementService {
+  /**
+   * Parses an uploaded Bank Statements document into transactions and checks it
+   * for tampering. Attached to the borrower's latest application unless one is given.
+   * A statement that cannot be read comes back as a 'failed' import with the reason.
+   */
+  async parse(documentId: string, applicationId?: string): Promise<StatementImport> {
+    const result = await invokeEdgeFunction<{ import: StatementImport }>('bank-statements', {
+      action: 'parse',
+      documentId,
+      applicationId,
+    });
+    return normalizeImport(result.import);
+  }
+
+  /** Uploaded statements and their imports; staff may pass another borrower's id. */
+  async list(userId?: string): Promise<BankStatements> {
+    const result = await invokeEdgeFunction<BankStatements>('bank-statements', { action: 'list', userId });
+    return { documents: result.documents, imports: result.imports.map(normalizeImport) };
+  }
+}
+
+export const bankStatementService = new BankStatementService();
@@ -0,0 +1,113 @@
+import { invokeEdgeFunction } from './supabaseHttp';
+import type { UnderwritingResult } from './loanApplicationService';
+
+export interface CashFlowTerms {
+  amount: number;
+  /** Annual rate in percent */
+  annualRate: number;
+  termMonths: number;
+  interestOnlyMonths: number;
+}
+
+export interface CashFlowMonth {
+  /** YYYY-MM */
+  month: string;
+  revenue: number;
+  operating_expenses: number;
+  debt_payments: number;
+  transfers_in: number;
+  transfers_out: number;
+  loan_proceeds: number;
+  /** Revenue less operating expenses, before debt service */
+  net_cash_flow: number;
+  average_balance: number;
+  ending_balance: number;
+  nsf_count: number;
+  overdraft_count: number;
+}
+
+export interface CashFlowAnalysis {
+  id: string;
+  application_id: string;
+  user_id: string;
+  analyzed_by: string;
+  period_start: string;
+  period_end: string;
+  month_count: number;
+  account_ids: string[];
+  transaction_count: number;
+  avg_monthly_revenue: number;
+  avg_monthly_operating_expenses: number;
+  avg_monthly_net_cash_flow: number;
+  revenue_trend_pct: number | null;
+  avg_daily_balance: number;
+  min_daily_balance: number;
+  negative_balance_days: number;
+  nsf_count: number;
+  overdraft_count: number;
+  /** Loan payments seen leaving the accounts, per month */
+  observed_debt_payments: number;
+  /** Monthly payments on the borrower's existing loans */
+  existing_debt_service: number;
+  proposed_amount: number | null;
+  proposed_rate: number | null;
+  proposed_term_months: number | null;
+  proposed_interest_only_months: number | null;
+  proposed_payment: number;
+  /** Null when there is no debt service to cover */
+  dscr: number | null;
+  months: CashFlowMonth[];
+  underwriting: UnderwritingResult | null;
+  created_at: string;
+}
+
+const NUMERIC_FIELDS = [
+  'avg_monthly_revenue',
+  'avg_monthly_operating_expenses',
+  'avg_monthly_net_cash_flow',
+  'avg_daily_balance',
+  'min_daily_balance',
+  'observed_debt_payments',
+  'existing_debt_service',
+  'proposed_payment',
+] as const;
+
+const NULLABLE_NUMERIC_FIELDS = ['revenue_trend_pct', 'proposed_amount', 'proposed_rate', 'dscr'] as const;
+
+// Postgres NUMERIC columns arrive as strings
+const normalizeAnalysis = (a: CashFlowAnalysis): CashFlowAnalysis => {
+  const normalized = { ...a };
+  for (const field of NUMERIC_FIELDS) normalized[field] = Number(a[field]);
+  for (const field of NULLABLE_NUMERIC_FIELDS) normalized[field] = a[field] === null ? null : Number(a[field]);
+  return normalized;
+};
+
+class CashFlowService {
+  /**
+   * Analyzes the borrower's linked and statement transactions for an application and the proposed
+   * terms, and re-scores the application with the results. Underwriters only.
+   */
+  async analyze(params: {
+    applicationId: string;
+    terms: CashFlowTerms;
+    months?: number;
+    accountIds?: string[];
+  }): Promise<CashFlowAnalysis> {
+    const { analysis } = await invokeEdgeFunction<{ analysis: CashFlowAnalysis }>('cash-flow-analysis', {
+      action: 'analyze',
+      ...params,
+    });
+    return normalizeAnalysis(analysis);
+  }
+
+  /** Previous analyses of an application, newest first. */
+  async history(applicationId: string): Promise<CashFlowAnalysis[]> {
+    const { analyses } = await invokeEdgeFunction<{ analyses: CashFlowAnalysis[] }>('cash-flow-analysis', {
+      action: 'history',
+      applicationId,
+    });
+    return analyses.map(normalizeAnalysis);
+  }
+}
+
+export const cashFlowService = new CashFlowService();
@@ -0,0 +1,154 @@
+import { authProvider } from '@/services/auth';
+import { auditService } from './auditService';
+import { callRpc, restQuery } from './supabaseHttp';
+
+export type ConditionStatus = 'open' | 'submitted' | 'cleared' | 'waived';
+
+export const CONDITION_STATUS_LABELS: Record<ConditionStatus, string> = {
+  open: 'Open',
+  submitted: 'Submitted',
+  cleared: 'Cleared',
+  waived: 'Waived',
+};
+
+/** An approval or closing condition the borrower must satisfy before funding. */
+export interface ApplicationCondition {
+  id: string;
+  application_id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  // Document folder that satisfies the condition
+  document_category: string | null;
+  status: ConditionStatus;
+  assigned_to: string | null;
+  due_date: string | null;
+  document_id: string | null;
+  submitted_at: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  waiver_reason: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ApplicationConditionInput = Pick<
+  ApplicationCondition,
+  'title' | 'description' | 'document_category' | 'assigned_to' | 'due_date'
+>;
+
+/** Conditions still blocking funding. */
+export const isConditionOutstanding = (condition: ApplicationCondition): boolean =>
+  condition.status === 'open' || condition.status === 'submitted';
+
+class ConditionService {
+  async listForApplication(applicationId: string): Promise<ApplicationCondition[]> {
+    const p = new URLSearchParams();
+    p.set('application_id', `eq.${applicationId}`);
+    p.set('order', 'created_at.asc');
+    const { data } = await restQuery<ApplicationCondition[]>('application_conditions', { params: p });
+    return data || [];
+  }
+
+  /** Conditions on the signed-in borrower's applications. */
+  async listMine(): Promise<ApplicationCondition[]> {
+    const { data: userData } = await authProvider.getUser();
+    const p = new URLSearchParams();
+    p.set('user_id', `eq.${userData?.user?.id}`);
+    p.set('order', 'created_at.asc');
+    const { data } = await restQuery<ApplicationCondition[]>('application_conditions', { params: p });
+    return data || [];
+  }
+
+  async create(applicationId: string, input: ApplicationConditionInput): Promise<ApplicationCondition> {
+    const { data: userData } = await authProvider.getUser();
+    const { data } = await restQuery<ApplicationCondition>('application_conditions', {
+      method: 'POST',
+      body: { ...input, application_id: applicationId, created_by: userData?.user?.id ?? null },
+      returnData: true,
+      single: true,
+    });
+    await auditService.logAccess({
+      action: 'CREATE_APPLICATION_CONDITION',
+      resourceType: 'application_condition',
+      resourceId: data.id,
+      details: { applicationId, title: input.title, documentCategory: input.document_category },
+    });
+    return data;
+  }
+
+  async update(conditionId: string, input: Partial<ApplicationConditionInput>): Promise<ApplicationCondition> {
+    const data = await this.patch(conditionId, { ...input });
+    await auditService.logAccess({
+      action: 'UPDATE_APPLICATION_CONDITION',
+      resourceType: 'application_condition',
+      resourceId: conditionId,
+      details: { changes: input },
+    });
+    return data;
+  }
+
+  async clear(conditionId: string): Promise<ApplicationCondition> {
+    return this.resolve(conditionId, 'cleared');
+  }
+
+  async waive(conditionId: string, reason: string): Promise<ApplicationCondition> {
+    return this.resolve(conditionId, 'waived', reason);
+  }
+
+  /** Sends a submitted or resolved condition back to the borrower. */
+  async reopen(conditionId: string): Promise<ApplicationCondition> {
+    const data = await this.patch(conditionId, { status: 'open' });
+    await auditService.logAccess({
+      action: 'REOPEN_APPLICATION_CONDITION',
+      resourceType: 'application_condition',
+      resourceId: conditionId,
+      details: { applicationId: data.application_id },
+    });
+    return data;
+  }
+
+  /** Satisfies a condition with one of the borrower's uploaded documents. */
+  async submit(conditionId: string, documentId: string): Promise<ApplicationCondition> {
+    return callRpc<ApplicationCondition>('submit_application_condition', {
+      _condition_id: conditionId,
+      _document_id: documentId,
+    });
+  }
+
+  private async resolve(
+    conditionId: string,
+    status: 'cleared' | 'waived',
+    waiverReason?: string,
+  ): Promise<ApplicationCondition> {
+    const { data: userData } = await authProvider.getUser();
+    const data = await this.patch(conditionId, {
+      status,
+      resolved_by: userData?.user?.id ?? null,
+      waiver_reason: waiverReason ?? null,
+    });
+    await auditService.logAccess({
+      action: status === 'cleared' ? 'CLEAR_APPLICATION_CONDITION' : 'WAIVE_APPLICATION_CONDITION',
+      resourceType: 'application_condition',
+      resourceId: conditionId,
+      details: { applicationId: data.application_id, waiverReason },
+    });
+    return data;
+  }
+
+  private async patch(conditionId: string, body: Record<string, unknown>): Promise<ApplicationCondition> {
+    const p = new URLSearchParams();
+    p.set('id', `eq.${conditionId}`);
+    const { data } = await restQuery<ApplicationCondition>('application_conditions', {
+      method: 'PATCH',
+      params: p,
+      body,
+      returnData: true,
+      single: true,
+    });
+    return data;
+  }
+}
+
+export const conditionService = new ConditionService();
@@ -0,0 +1,176 @@
+import { invokeEdgeFunction } from './supabaseHttp';
+
+export type CreditPullType = 'consumer' | 'business';
+export type ConsumerBureau = 'experian' | 'equifax' | 'transunion';
+export type BusinessBureau = 'experian_business' | 'dnb_paydex' | 'equifax_business';
+export type Bureau = ConsumerBureau | BusinessBureau;
+export type PermissiblePurpose = 'written_instruction' | 'credit_application' | 'account_review';
+
+export const CONSUMER_BUREAUS: ConsumerBureau[] = ['experian', 'equifax', 'transunion'];
+export const BUSINESS_BUREAUS: BusinessBureau[] = ['experian_business', 'dnb_paydex', 'equifax_business'];
+
+export const BUREAU_LABELS: Record<Bureau, string> = {
+  experian: 'Experian',
+  equifax: 'Equifax',
+  transunion: 'TransUnion',
+  experian_business: 'Experian Business',
+  dnb_paydex: 'D&B PAYDEX',
+  equifax_business: 'Equifax Business',
+};
+
+export const PERMISSIBLE_PURPOSE_LABELS: Record<PermissiblePurpose, string> = {
+  written_instruction: 'Borrower request',
+  credit_application: 'Credit application',
+  account_review: 'Account review',
+};
+
+export interface CreditPull {
+  id: string;
+  user_id: string;
+  application_id: string | null;
+  pull_type: CreditPullType;
+  bureaus: Bureau[];
+  provider: string;
+  permissible_purpose: PermissiblePurpose;
+  inquiry_type: 'soft' | 'hard';
+  consent_type: 'borrower_request' | 'signed_authorization';
+  /** The signed credit authorization, for staff pulls */
+  consent_reference: string | null;
+  consented_at: string;
+  requested_by: string;
+  status: 'pending' | 'completed' | 'failed';
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface CreditFactor {
+  code: string;
+  description: string;
+}
+
+export interface CreditSummary {
+  total_accounts?: number | null;
+  open_accounts?: number | null;
+  /** Percent of revolving limits in use */
+  utilization?: number | null;
+  inquiries?: number | null;
+  public_records?: number | null;
+  derogatory_accounts?: number | null;
+  oldest_account_months?: number | null;
+}
+
+export interface BureauScore {
+  id: string;
+  user_id: string;
+  credit_pull_id: string | null;
+  bureau: Bureau;
+  score: number;
+  score_type: CreditPullType;
+  score_model: string | null;
+  score_min: number;
+  score_max: number;
+  score_date: string;
+  factors: CreditFactor[];
+  summary: CreditSummary;
+}
+
+export interface Tradeline {
+  id: string;
+  credit_pull_id: string;
+  bureau: Bureau;
+  creditor_name: string;
+  account_type: string;
+  account_number_last4: string | null;
+  account_status: 'open' | 'closed' | 'collection' | 'charged_off';
+  payment_status: 'current' | 'late_30' | 'late_60' | 'late_90' | 'late_120' | 'derogatory';
+  balance: number | null;
+  credit_limit: number | null;
+  monthly_payment: number | null;
+  opened_on: string | null;
+  reported_on: string | null;
+  late_30_count: number;
+  late_60_count: number;
+  late_90_count: number;
+}
+
+export interface CreditHistory {
+  pulls: CreditPull[];
+  /** Newest first */
+  scores: BureauScore[];
+}
+
+export interface CreditReport {
+  pull: CreditPull;
+  scores: BureauScore[];
+  tradelines: Tradeline[];
+}
+
+export interface BureauStanding {
+  latest: BureauScore;
+  /** Points moved since the previous report from the same bureau */
+  change: number | null;
+}
+
+/** Latest score per bureau, in bureau order, from scores sorted newest first. */
+export const latestByBureau = (scores: BureauScore[], bureaus: Bureau[]): BureauStanding[] =>
+  bureaus.flatMap((bureau) => {
+    const [latest, previous] = scores.filter((s) => s.bureau === bureau);
+    return latest ? [{ latest, change: previous ? latest.score - previous.score : null }] : [];
+  });
+
+/** Where a score falls in its model's range, on the familiar 300–850 bands. */
+export const getScoreRating = (score: Pick<BureauScore, 'score' | 'score_min' | 'score_max'>) => {
+  const scaled = 300 + ((score.score - score.score_min) / (score.score_max - score.score_min)) * 550;
+  if (scaled >= 750) return { label: 'Excellent', color: 'text-green-600' };
+  if (scaled >= 700) return { label: 'Good', color: 'text-green-500' };
+  if (scaled >= 650) return { label: 'Fair', color: 'text-yellow-600' };
+  if (scaled >= 600) return { label: 'Poor', color: 'text-orange-600' };
+  return { label: 'Very Poor', color: 'text-red-600' };
+};
+
+// Postgres NUMERIC columns arrive as strings from the IBM backend
+const toAmount = (value: number | string | null) => (value === null ? null : Number(value));
+
+const normalizeTradeline = (t: Tradeline): Tradeline => ({
+  ...t,
+  balance: toAmount(t.balance),
+  credit_limit: toAmount(t.credit_limit),
+  monthly_payment: toAmount(t.monthly_payment),
+});
+
+class CreditBureauService {
+  /** Pulls and scores for a borrower; the caller's own unless staff pass a userId. */
+  async history(userId?: string): Promise<CreditHistory> {
+    return invokeEdgeFunction<CreditHistory>('credit-bureau', { action: 'history', userId });
+  }
+
+  async report(pullId: string): Promise<CreditReport> {
+    const report = await invokeEdgeFunction<CreditReport>('credit-bureau', { action: 'report', pullId });
+    return { ...report, tradelines: report.tradelines.map(normalizeTradeline) };
+  }
+
+  /** A borrower pulling their own report: a soft inquiry on their instruction. */
+  async pullOwn(pullType: CreditPullType): Promise<CreditPull> {
+    const { pull } = await invokeEdgeFunction<{ pull: CreditPull }>('credit-bureau', {
+      action: 'pull',
+      pullType,
+      permissiblePurpose: 'written_instruction',
+      consent: true,
+    });
+    return pull;
+  }
+
+  /** Staff pull under the borrower's signed credit authorization. */
+  async pullForApplication(params: {
+    userId: string;
+    applicationId: string;
+    pullType: CreditPullType;
+    permissiblePurpose: 'credit_application' | 'account_review';
+  }): Promise<CreditPull> {
+    const { pull } = await invokeEdgeFunction<{ pull: CreditPull }>('credit-bureau', { action: 'pull', ...params });
+    return pull;
+  }
+}
+
+export const creditBureauService = new CreditBureauService();
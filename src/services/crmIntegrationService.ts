@@ -0,0 +1,105 @@
+import { invokeEdgeFunction, restQuery } from '@/services/supabaseHttp';
+import type { CrmEntityType, CrmSyncLogEntry } from '@/services/crmSyncService';
+
+export interface CrmConnector {
+  id: string;
+  name: string;
+  provider: 'salesforce' | 'hubspot' | 'rest';
+  apiEndpoint: string | null;
+  syncDirection: 'push_only' | 'pull_only' | 'bidirectional' | null;
+  syncEnabled: boolean;
+  // Enabled, has an endpoint and was configured by an admin
+  active: boolean;
+  lastSyncAt: string | null;
+  credentials: { apiToken: boolean; webhookSecret: boolean };
+  fieldMappings: Record<CrmEntityType, Record<string, string>>;
+  webhookPath: string;
+}
+
+export type ReconciliationKind = 'missing' | 'stale' | 'orphaned';
+
+export interface ReconciliationIssue {
+  kind: ReconciliationKind;
+  entity_type: 'contact' | 'opportunity';
+  crm_id: string | null;
+  // Profile id for contacts, loan application id for opportunities
+  source_id: string | null;
+  detail: string;
+}
+
+export interface ReplaySummary {
+  selected: number;
+  replayed: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface ReconciliationRun {
+  id: string;
+  triggered_by: string | null;
+  summary: {
+    borrowers?: number;
+    applications?: number;
+    contacts?: number;
+    opportunities?: number;
+    open_failures?: number;
+    // Keyed "<kind>_<entity_type>", e.g. missing_contact
+    issues?: Record<string, number>;
+  };
+  issues: ReconciliationIssue[];
+  replay: ReplaySummary | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export const RECONCILIATION_KIND_LABELS: Record<ReconciliationKind, string> = {
+  missing: 'Missing',
+  stale: 'Stale',
+  orphaned: 'Orphaned',
+};
+
+class CrmIntegrationService {
+  /** External CRM connectors from crm_integration_settings (admins only). */
+  async getConnectors(): Promise<CrmConnector[]> {
+    const { connectors } = await invokeEdgeFunction<{ connectors: CrmConnector[] }>('crm-connector', { action: 'connectors' });
+    return connectors;
+  }
+
+  async getLatestRun(): Promise<ReconciliationRun | null> {
+    const p = new URLSearchParams();
+    p.set('order', 'started_at.desc');
+    p.set('limit', '1');
+    const { data } = await restQuery<ReconciliationRun[]>('crm_reconciliation_runs', { params: p });
+    return data?.[0] ?? null;
+  }
+
+  /** Compare borrowers and applications with the CRM tables, optionally replaying open failures first. */
+  async runReconciliation(replay = false): Promise<ReconciliationRun> {
+    const { run } = await invokeEdgeFunction<{ run: ReconciliationRun }>('crm-connector', { action: 'reconcile', replay });
+    return run;
+  }
+
+  /** Failed sync attempts nobody has replayed or dismissed, newest first. */
+  async listOpenFailures(limit = 100): Promise<CrmSyncLogEntry[]> {
+    const p = new URLSearchParams();
+    p.set('status', 'eq.failed');
+    p.set('resolved_at', 'is.null');
+    p.set('order', 'created_at.desc');
+    p.set('limit', String(limit));
+    const { data } = await restQuery<CrmSyncLogEntry[]>('crm_sync_log', { params: p });
+    return data || [];
+  }
+
+  /** Replay the given failures, or every open failure when none are given. */
+  async replay(logIds?: string[]): Promise<ReplaySummary> {
+    return invokeEdgeFunction<ReplaySummary>('crm-connector', { action: 'replay', ...(logIds ? { logIds } : {}) });
+  }
+
+  async dismiss(logIds: string[]): Promise<number> {
+    const { dismissed } = await invokeEdgeFunction<{ dismissed: number }>('crm-connector', { action: 'dismiss', logIds });
+    return dismissed;
+  }
+}
+
+export const crmIntegrationService = new CrmIntegrationService();
@@ -2,15 +2,21 @@
  * CRM Sync Service
  *
  * Pushes portal data (profiles, loan applications, documents, financials)
- * to CRM tables via the existing hbf-api rest-query endpoint.
+ * to CRM tables via the existing hbf-api rest-query endpoint, then asks the
+ * crm-connector function to forward each record to the external CRMs
+ * configured in crm_integration_settings.
  *
  * CRM tables: crm_contacts, crm_opportunities, crm_activities, crm_sync_log
  */
 
-import { restQuery } from './supabaseHttp';
+import { invokeEdgeFunction, restQuery } from './supabaseHttp';
+import { loanProductService } from './loanProductService';
+import type { ApplicationStatus } from '@/config/applicationWorkflow';
 
 // ── Types ──
 
+export type CrmEntityType = 'contact' | 'opportunity' | 'activity';
+
 export interface CrmContact {
   id?: string;
   user_id: string;
@@ -19,12 +25,9 @@ export interface CrmContact {
   email?: string;
   phone?: string;
   company_name?: string;
-  company_address?: string;
-  company_city?: string;
-  company_state?: string;
-  company_zip?: string;
-  source?: string;
-  status?: string;
+  lead_source?: string;
+  lead_status?: string;
+  contact_type?: string;
   created_at?: string;
   updated_at?: string;
 }
@@ -32,13 +35,11 @@ export interface CrmContact {
 export interface CrmOpportunity {
   id?: string;
   contact_id?: string;
-  user_id: string;
-  application_id: string;
+  loan_application_id: string;
+  opportunity_name: string;
   loan_type: string;
-  amount: number;
-  status: string;
+  loan_amount: number;
   stage?: string;
-  business_name?: string;
   notes?: string;
   created_at?: string;
   updated_at?: string;
@@ -46,56 +47,75 @@ export interface CrmOpportunity {
 
 export interface CrmActivity {
   id?: string;
-  contact_id?: string;
+  contact_id?: string | null;
+  opportunity_id?: string | null;
   user_id: string;
-  activity_type: string;
-  entity_type: string;
-  entity_id?: string;
-  description: string;
-  metadata?: Record<string, unknown>;
+  activity_type: 'call' | 'email' | 'meeting' | 'note' | 'task' | 'application_submitted' | 'status_change';
+  subject: string;
+  description?: string;
+  status?: 'pending' | 'completed' | 'cancelled';
+  completed_at?: string;
   created_at?: string;
 }
 
-interface CrmSyncLogEntry {
-  entity_type: string;
-  entity_id: string;
-  action: string;
-  status: 'success' | 'error';
-  error_message?: string;
-  synced_at?: string;
+export interface CrmSyncLogEntry {
+  id?: string;
+  user_id: string;
+  sync_type: 'manual' | 'automatic' | 'webhook';
+  operation: 'create' | 'update' | 'delete' | 'sync';
+  entity_type: CrmEntityType | 'application';
+  entity_id: string | null;
+  external_id?: string | null;
+  status: 'pending' | 'success' | 'failed' | 'partial' | 'skipped';
+  error_message?: string | null;
+  data_payload?: Record<string, unknown> | null;
+  processing_time_ms?: number | null;
+  resolved_at?: string | null;
+  resolved_by?: string | null;
+  resolution?: 'replayed' | 'dismissed' | null;
+  created_at?: string;
 }
 
 // ── Helpers ──
 
-async function logSync(entry: CrmSyncLogEntry): Promise<void> {
+async function logSync(entry: Pick<CrmSyncLogEntry, 'user_id' | 'operation' | 'entity_type' | 'entity_id' | 'status' | 'error_message'>): Promise<void> {
   try {
     await restQuery('crm_sync_log', {
       method: 'POST',
-      body: {
-        ...entry,
-        synced_at: new Date().toISOString(),
-      },
+      body: { ...entry, sync_type: 'automatic' },
     });
   } catch (err) {
     console.error('[CRM Sync] Failed to write sync log:', err);
   }
 }
 
+// Forward a local record to the external CRM connectors. The connector logs its own attempts.
+async function pushToConnectors(entityType: CrmEntityType, entityId: string): Promise<void> {
+  try {
+    await invokeEdgeFunction('crm-connector', { action: 'push', entityType, entityId });
+  } catch (err) {
+    console.warn(`[CRM Sync] External push of ${entityType} failed:`, err);
+  }
+}
+
+async function findOne<T>(table: string, column: string, value: string): Promise<T | null> {
+  const p = new URLSearchParams();
+  p.set(column, `eq.${value}`);
+  p.set('limit', '1');
+  const { data } = await restQuery<T[]>(table, { params: p });
+  return Array.isArray(data) && data.length > 0 ? data[0] : null;
+}
+
 // ── Contact Sync ──
 
-async function upsertContact(contact: CrmContact): Promise<void> {
+async function upsertContact(contact: CrmContact): Promise<string | null> {
+  let operation: CrmSyncLogEntry['operation'] = 'update';
   try {
     // Check if contact already exists for this user
-    const p = new URLSearchParams();
-    p.set('user_id', `eq.${contact.user_id}`);
-    const { data: existing } = await restQuery<CrmContact[]>('crm_contacts', {
-      params: p,
-    });
+    const existing = await findOne<CrmContact>('crm_contacts', 'user_id', contact.user_id);
+    let contactId = existing?.id ?? null;
 
-    const now = new Date().toISOString();
-
-    if (existing && Array.isArray(existing) && existing.length > 0) {
-      // Update existing contact
+    if (existing) {
       const updateParams = new URLSearchParams();
       updateParams.set('user_id', `eq.${contact.user_id}`);
       await restQuery('crm_contacts', {
@@ -104,103 +124,89 @@ async function upsertContact(contact: CrmContact): Promise<void> {
         body: {
           first_name: contact.first_name,
           last_name: contact.last_name,
-          email: contact.email,
-          phone: contact.phone,
-          company_name: contact.company_name,
-          company_address: contact.company_address,
-          company_city: contact.company_city,
-          company_state: contact.company_state,
-          company_zip: contact.company_zip,
-          updated_at: now,
+          ...(contact.email ? { email: contact.email } : {}),
+          ...(contact.phone ? { phone: contact.phone } : {}),
+          ...(contact.company_name ? { company_name: contact.company_name } : {}),
         },
       });
     } else {
-      // Create new contact
-      await restQuery('crm_contacts', {
+      operation = 'create';
+      if (!contact.email) throw new Error('An email address is required to create a CRM contact');
+      const { data } = await restQuery<CrmContact[]>('crm_contacts', {
         method: 'POST',
+        returnData: true,
         body: {
           ...contact,
-          source: contact.source || 'borrower_portal',
-          status: contact.status || 'active',
-          created_at: now,
-          updated_at: now,
+          lead_source: contact.lead_source || 'borrower_portal',
         },
       });
+      contactId = Array.isArray(data) ? data[0]?.id ?? null : null;
     }
 
-    await logSync({
-      entity_type: 'contact',
-      entity_id: contact.user_id,
-      action: existing && Array.isArray(existing) && existing.length > 0 ? 'update' : 'create',
-      status: 'success',
-    });
+    await logSync({ user_id: contact.user_id, entity_type: 'contact', entity_id: contactId, operation, status: 'success' });
+    if (contactId) await pushToConnectors('contact', contactId);
+    return contactId;
   } catch (err) {
     console.error('[CRM Sync] Contact sync failed:', err);
     await logSync({
+      user_id: contact.user_id,
       entity_type: 'contact',
-      entity_id: contact.user_id,
-      action: 'upsert',
-      status: 'error',
+      entity_id: null,
+      operation,
+      status: 'failed',
       error_message: err instanceof Error ? err.message : String(err),
     });
+    return null;
   }
 }
 
 // ── Opportunity Sync (Loan Applications) ──
 
-async function upsertOpportunity(opp: CrmOpportunity): Promise<void> {
+async function upsertOpportunity(userId: string, opp: CrmOpportunity): Promise<string | null> {
+  let operation: CrmSyncLogEntry['operation'] = 'update';
   try {
-    const p = new URLSearchParams();
-    p.set('application_id', `eq.${opp.application_id}`);
-    const { data: existing } = await restQuery<CrmOpportunity[]>('crm_opportunities', {
-      params: p,
-    });
-
-    const now = new Date().toISOString();
+    const existing = await findOne<CrmOpportunity>('crm_opportunities', 'loan_application_id', opp.loan_application_id);
+    let opportunityId = existing?.id ?? null;
 
-    if (existing && Array.isArray(existing) && existing.length > 0) {
+    if (existing) {
       const updateParams = new URLSearchParams();
-      updateParams.set('application_id', `eq.${opp.application_id}`);
+      updateParams.set('loan_application_id', `eq.${opp.loan_application_id}`);
       await restQuery('crm_opportunities', {
         method: 'PATCH',
         params: updateParams,
         body: {
+          opportunity_name: opp.opportunity_name,
           loan_type: opp.loan_type,
-          amount: opp.amount,
-          status: opp.status,
+          loan_amount: opp.loan_amount,
           stage: opp.stage,
-          business_name: opp.business_name,
-          notes: opp.notes,
-          updated_at: now,
+          ...(opp.notes ? { notes: opp.notes } : {}),
         },
       });
     } else {
-      await restQuery('crm_opportunities', {
+      operation = 'create';
+      if (!opp.contact_id) throw new Error('A CRM contact is required to create an opportunity');
+      const { data } = await restQuery<CrmOpportunity[]>('crm_opportunities', {
         method: 'POST',
-        body: {
-          ...opp,
-          stage: opp.stage || mapStatusToStage(opp.status),
-          created_at: now,
-          updated_at: now,
-        },
+        returnData: true,
+        body: opp,
       });
+      opportunityId = Array.isArray(data) ? data[0]?.id ?? null : null;
     }
 
-    await logSync({
-      entity_type: 'opportunity',
-      entity_id: opp.application_id,
-      action: existing && Array.isArray(existing) && existing.length > 0 ? 'update' : 'create',
-      status: 'success',
-    });
+    await logSync({ user_id: userId, entity_type: 'opportunity', entity_id: opportunityId, operation, status: 'success' });
+    if (opportunityId) await pushToConnectors('opportunity', opportunityId);
+    return opportunityId;
   } catch (err) {
     console.error('[CRM Sync] Opportunity sync failed:', err);
     await logSync({
+      user_id: userId,
       entity_type: 'opportunity',
-      entity_id: opp.application_id,
-      action: 'upsert',
-      status: 'error',
+      entity_id: null,
+      operation,
+      status: 'failed',
       error_message: err instanceof Error ? err.message : String(err),
     });
+    return null;
   }
 }
 
@@ -208,20 +214,19 @@ async function upsertOpportunity(opp: CrmOpportunity): Promise<void> {
 
 async function logActivity(activity: CrmActivity): Promise<void> {
   try {
-    await restQuery('crm_activities', {
+    const { data } = await restQuery<CrmActivity[]>('crm_activities', {
       method: 'POST',
+      returnData: true,
       body: {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
         ...activity,
-        created_at: new Date().toISOString(),
       },
     });
+    const activityId = Array.isArray(data) ? data[0]?.id ?? null : null;
 
-    await logSync({
-      entity_type: 'activity',
-      entity_id: activity.entity_id || activity.user_id,
-      action: 'create',
-      status: 'success',
-    });
+    await logSync({ user_id: activity.user_id, entity_type: 'activity', entity_id: activityId, operation: 'create', status: 'success' });
+    if (activityId) await pushToConnectors('activity', activityId);
   } catch (err) {
     console.error('[CRM Sync] Activity log failed:', err);
     // Don't log sync failure for activity logging to avoid loops
@@ -231,21 +236,19 @@ async function logActivity(activity: CrmActivity): Promise<void> {
 // ── Stage Mapping ──
 
 function mapStatusToStage(status: string): string {
-  const stageMap: Record<string, string> = {
+  // Mirrors crm_expected_stage() so the reconciliation agrees with what was pushed
+  const stageMap: Record<ApplicationStatus, string> = {
     draft: 'prospecting',
+    paused: 'prospecting',
     submitted: 'qualification',
-    pending_review: 'qualification',
-    under_review: 'needs_analysis',
-    in_review: 'needs_analysis',
-    documents_requested: 'needs_analysis',
+    under_review: 'qualification',
+    documents_requested: 'qualification',
     conditionally_approved: 'proposal',
     approved: 'negotiation',
     funded: 'closed_won',
-    declined: 'closed_lost',
-    withdrawn: 'closed_lost',
-    cancelled: 'closed_lost',
+    rejected: 'closed_lost',
   };
-  return stageMap[status] || 'qualification';
+  return stageMap[status as ApplicationStatus] || 'qualification';
 }
 
 // ── Public API ──
@@ -261,10 +264,6 @@ class CrmSyncService {
     email?: string;
     phone?: string;
     company_name?: string;
-    company_address?: string;
-    company_city?: string;
-    company_state?: string;
-    company_zip?: string;
   }): Promise<void> {
     await upsertContact({
       user_id: profile.user_id,
@@ -273,10 +272,6 @@ class CrmSyncService {
       email: profile.email,
       phone: profile.phone,
       company_name: profile.company_name,
-      company_address: profile.company_address,
-      company_city: profile.company_city,
-      company_state: profile.company_state,
-      company_zip: profile.company_zip,
     });
   }
 
@@ -292,75 +287,68 @@ class CrmSyncService {
     business_name?: string;
     first_name?: string;
     last_name?: string;
+    email?: string;
     phone?: string;
   }): Promise<void> {
-    // Also upsert the contact from application data
-    if (app.first_name && app.last_name) {
-      await upsertContact({
-        user_id: app.user_id,
-        first_name: app.first_name,
-        last_name: app.last_name,
-        phone: app.phone,
-        company_name: app.business_name,
-      });
-    }
+    const loanType = await loanProductService.resolveKey(app.loan_type);
 
-    await upsertOpportunity({
-      user_id: app.user_id,
-      application_id: app.application_id,
-      loan_type: app.loan_type,
-      amount: app.amount_requested,
-      status: app.status,
-      business_name: app.business_name,
+    // Also upsert the contact from application data
+    const contactId = app.first_name && app.last_name
+      ? await upsertContact({
+          user_id: app.user_id,
+          first_name: app.first_name,
+          last_name: app.last_name,
+          email: app.email,
+          phone: app.phone,
+          company_name: app.business_name,
+        })
+      : (await findOne<CrmContact>('crm_contacts', 'user_id', app.user_id))?.id ?? null;
+
+    const opportunityId = await upsertOpportunity(app.user_id, {
+      contact_id: contactId ?? undefined,
+      loan_application_id: app.application_id,
+      opportunity_name: `${app.business_name || `${app.first_name ?? ''} ${app.last_name ?? ''}`.trim() || 'Borrower'} - ${loanProductService.getLabel(loanType)}`,
+      loan_type: loanType,
+      loan_amount: app.amount_requested,
+      stage: mapStatusToStage(app.status),
     });
 
     await logActivity({
       user_id: app.user_id,
-      activity_type: 'loan_application_sync',
-      entity_type: 'loan_application',
-      entity_id: app.application_id,
-      description: `Loan application ${app.status}: ${app.loan_type} for $${app.amount_requested.toLocaleString()}`,
-      metadata: {
-        loan_type: app.loan_type,
-        amount: app.amount_requested,
-        status: app.status,
-      },
+      contact_id: contactId,
+      opportunity_id: opportunityId,
+      activity_type: app.status === 'draft' ? 'note' : 'application_submitted',
+      subject: `Loan application ${app.status}`,
+      description: `${loanProductService.getLabel(loanType)} for $${app.amount_requested.toLocaleString()}`,
     });
   }
 
   /**
-   * Sync a loan status change to CRM.
+   * Sync a loan status change to CRM. The opportunity and its borrower are
+   * looked up from the application, so staff can call this with only the id.
    */
   async syncStatusChange(app: {
     application_id: string;
-    user_id: string;
-    loan_type: string;
-    amount_requested: number;
-    old_status: string;
+    old_status?: string;
     new_status: string;
-    business_name?: string;
   }): Promise<void> {
-    await upsertOpportunity({
-      user_id: app.user_id,
-      application_id: app.application_id,
-      loan_type: app.loan_type,
-      amount: app.amount_requested,
-      status: app.new_status,
+    const opportunity = await findOne<CrmOpportunity>('crm_opportunities', 'loan_application_id', app.application_id);
+    if (!opportunity?.id || !opportunity.contact_id) return;
+    const contact = await findOne<CrmContact>('crm_contacts', 'id', opportunity.contact_id);
+    if (!contact?.user_id) return;
+
+    await upsertOpportunity(contact.user_id, {
+      ...opportunity,
       stage: mapStatusToStage(app.new_status),
-      business_name: app.business_name,
     });
 
     await logActivity({
-      user_id: app.user_id,
+      user_id: contact.user_id,
+      contact_id: contact.id,
+      opportunity_id: opportunity.id,
       activity_type: 'status_change',
-      entity_type: 'loan_application',
-      entity_id: app.application_id,
-      description: `Status changed from "${app.old_status}" to "${app.new_status}"`,
-      metadata: {
-        old_status: app.old_status,
-        new_status: app.new_status,
-        loan_type: app.loan_type,
-      },
+      subject: `Status changed to "${app.new_status}"`,
+      description: app.old_status ? `Status changed from "${app.old_status}" to "${app.new_status}"` : undefined,
     });
   }
 
@@ -369,22 +357,22 @@ class CrmSyncService {
    */
   async syncDocumentUpload(doc: {
     user_id: string;
-    document_id: string;
     document_name: string;
     document_category: string;
     application_id?: string;
   }): Promise<void> {
+    const contact = await findOne<CrmContact>('crm_contacts', 'user_id', doc.user_id);
+    const opportunity = doc.application_id
+      ? await findOne<CrmOpportunity>('crm_opportunities', 'loan_application_id', doc.application_id)
+      : null;
+
     await logActivity({
       user_id: doc.user_id,
-      activity_type: 'document_upload',
-      entity_type: 'document',
-      entity_id: doc.document_id,
-      description: `Document uploaded: ${doc.document_name} (${doc.document_category})`,
-      metadata: {
-        document_name: doc.document_name,
-        category: doc.document_category,
-        application_id: doc.application_id,
-      },
+      contact_id: contact?.id ?? null,
+      opportunity_id: opportunity?.id ?? null,
+      activity_type: 'note',
+      subject: `Document uploaded: ${doc.document_name}`,
+      description: `Category: ${doc.document_category}`,
     });
   }
 
@@ -394,17 +382,16 @@ class CrmSyncService {
   async syncFinancialUpdate(data: {
     user_id: string;
     type: 'bank_account' | 'credit_score';
-    entity_id: string;
     description: string;
-    metadata?: Record<string, unknown>;
   }): Promise<void> {
+    const contact = await findOne<CrmContact>('crm_contacts', 'user_id', data.user_id);
+
     await logActivity({
       user_id: data.user_id,
-      activity_type: `${data.type}_update`,
-      entity_type: data.type,
-      entity_id: data.entity_id,
+      contact_id: contact?.id ?? null,
+      activity_type: 'note',
+      subject: data.type === 'bank_account' ? 'Bank account updated' : 'Credit score updated',
       description: data.description,
-      metadata: data.metadata,
     });
   }
 
@@ -414,7 +401,7 @@ class CrmSyncService {
   async getSyncLog(entityType?: string, limit = 50): Promise<CrmSyncLogEntry[]> {
     const p = new URLSearchParams();
     if (entityType) p.set('entity_type', `eq.${entityType}`);
-    p.set('order', 'synced_at.desc');
+    p.set('order', 'created_at.desc');
     p.set('limit', String(limit));
     const { data } = await restQuery<CrmSyncLogEntry[]>('crm_sync_log', { params: p });
     return data || [];
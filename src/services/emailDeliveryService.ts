@@ -0,0 +1,56 @@
+import { restQuery } from '@/services/supabaseHttp';
+
+export type EmailDeliveryStatus = 'sent' | 'delivered' | 'deferred' | 'bounced' | 'failed';
+export type EmailProvider = 'smtp' | 'sendgrid' | 'outbox';
+
+export interface EmailDelivery {
+  id: string;
+  user_id: string | null;
+  recipient: string;
+  template: string;
+  subject: string;
+  provider: EmailProvider;
+  status: EmailDeliveryStatus;
+  provider_message_id: string | null;
+  error_message: string | null;
+  bounce_type: 'hard' | 'soft' | 'blocked' | 'dropped' | null;
+  bounce_reason: string | null;
+  loan_application_id: string | null;
+  triggered_by: string | null;
+  metadata: Record<string, unknown>;
+  sent_at: string | null;
+  delivered_at: string | null;
+  bounced_at: string | null;
+  last_event_at: string | null;
+  created_at: string;
+}
+
+export const EMAIL_DELIVERY_STATUS_LABELS: Record<EmailDeliveryStatus, string> = {
+  sent: 'Sent',
+  delivered: 'Delivered',
+  deferred: 'Deferred',
+  bounced: 'Bounced',
+  failed: 'Failed',
+};
+
+export const EMAIL_PROVIDER_LABELS: Record<EmailProvider, string> = {
+  smtp: 'SMTP',
+  sendgrid: 'SendGrid',
+  outbox: 'Local Outbox',
+};
+
+class EmailDeliveryService {
+  /** Outbound email log, newest first (admins only). */
+  async listDeliveries(filters: { recipient?: string; status?: EmailDeliveryStatus; template?: string; limit?: number } = {}): Promise<EmailDelivery[]> {
+    const p = new URLSearchParams();
+    if (filters.recipient) p.set('recipient', `ilike.%${filters.recipient}%`);
+    if (filters.status) p.set('status', `eq.${filters.status}`);
+    if (filters.template) p.set('template', `eq.${filters.template}`);
+    p.set('order', 'created_at.desc');
+    p.set('limit', String(filters.limit ?? 200));
+    const { data } = await restQuery<EmailDelivery[]>('email_deliveries', { params: p });
+    return data || [];
+  }
+}
+
+export const emailDeliveryService = new EmailDeliveryService();
@@ -68,8 +68,8 @@ class ExternalNotificationService {
 
   async testWebhook(webhookUrl: string, platform: 'slack' | 'discord'): Promise<void> {
     const message = platform === 'slack'
-      ? { text: '🔔 Test notification from Heritage Business Funding', blocks: [{ type: 'section', text: { type: 'mrkdwn', text: '*Test Notification*\nYour webhook is configured correctly!' } }] }
-      : { content: '🔔 **Test notification from Heritage Business Funding**\nYour webhook is configured correctly!' };
+      ? { text: '🔔 Test notification from Halo Business Finance', blocks: [{ type: 'section', text: { type: 'mrkdwn', text: '*Test Notification*\nYour webhook is configured correctly!' } }] }
+      : { content: '🔔 **Test notification from Halo Business Finance**\nYour webhook is configured correctly!' };
     const response = await fetch(webhookUrl, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(message) });
     if (!response.ok) throw new Error(`Failed to send test notification: ${response.statusText}`);
   }
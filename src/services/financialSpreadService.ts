@@ -0,0 +1,152 @@
+import { invokeEdgeFunction } from './supabaseHttp';
+
+export type SpreadLineKey =
+  | 'revenue'
+  | 'cost_of_goods_sold'
+  | 'operating_expenses'
+  | 'officer_compensation'
+  | 'depreciation_amortization'
+  | 'interest_expense'
+  | 'other_income'
+  | 'income_taxes'
+  | 'net_income'
+  | 'cash'
+  | 'accounts_receivable'
+  | 'inventory'
+  | 'current_assets'
+  | 'total_assets'
+  | 'current_liabilities'
+  | 'funded_debt'
+  | 'total_liabilities'
+  | 'equity';
+
+export interface SpreadPeriod {
+  label: string;
+  /** YYYY-MM-DD; balance sheet figures are as of this date */
+  period_end: string;
+  /** 12 for a fiscal year, fewer for an interim period */
+  months: number;
+  /** Operating expenses include officer pay, depreciation and interest; other income is net of other expenses */
+  lines: Partial<Record<SpreadLineKey, number | null>>;
+}
+
+export interface PeriodRatios {
+  period_end: string;
+  /** Reported, or revenue less expenses when the statement has no bottom line */
+  net_income: number | null;
+  gross_profit: number | null;
+  gross_margin_pct: number | null;
+  ebitda: number | null;
+  ebitda_margin_pct: number | null;
+  net_margin_pct: number | null;
+  revenue_growth_pct: number | null;
+  current_ratio: number | null;
+  working_capital: number | null;
+  /** Total liabilities over equity; null when equity is not positive */
+  debt_to_equity: number | null;
+  /** Loans and notes payable over annualized EBITDA */
+  debt_to_ebitda: number | null;
+}
+
+/** Annual amounts */
+export interface GlobalCashFlowInputs {
+  /** The owners' income from outside the business */
+  owner_income: number;
+  owner_living_expenses: number;
+  personal_debt_service: number;
+  business_debt_service: number;
+  proposed_debt_service: number;
+}
+
+export interface GlobalCashFlow extends GlobalCashFlowInputs {
+  basis_period_end: string | null;
+  /** Net income plus interest, depreciation and amortization, annualized */
+  business_cash_flow: number | null;
+  business_dscr: number | null;
+  global_cash_flow: number | null;
+  global_debt_service: number;
+  global_dscr: number | null;
+}
+
+export type SelfReportedField = 'annual_revenue' | 'net_income' | 'current_debt';
+
+export interface SpreadVariance {
+  field: SelfReportedField;
+  reported: number | null;
+  spread: number | null;
+  /** Spread against reported, in percent */
+  difference_pct: number | null;
+  severity: 'high' | 'medium' | null;
+}
+
+export interface FinancialSpread {
+  id: string;
+  application_id: string;
+  user_id: string;
+  version: number;
+  source: 'manual' | 'import';
+  source_document_ids: string[];
+  /** Oldest first */
+  periods: SpreadPeriod[];
+  ratios: PeriodRatios[];
+  global_cash_flow: GlobalCashFlow;
+  variances: SpreadVariance[];
+  notes: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface SpreadDocument {
+  id: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  uploaded_at: string;
+  version_number: number;
+}
+
+export interface SpreadHistory {
+  /** Newest version first */
+  spreads: FinancialSpread[];
+  /** The borrower's uploads under P&L and Balance Sheet */
+  documents: SpreadDocument[];
+  self_reported: Record<SelfReportedField, number | null>;
+}
+
+class FinancialSpreadService {
+  /**
+   * Reads a QuickBooks or Xero Profit and Loss / Balance Sheet export (CSV or Excel)
+   * the borrower uploaded into spread periods for review. Nothing is saved.
+   */
+  async importDocument(applicationId: string, documentId: string): Promise<SpreadPeriod[]> {
+    const { periods } = await invokeEdgeFunction<{ document_id: string; periods: SpreadPeriod[] }>('financial-spreading', {
+      action: 'import',
+      applicationId,
+      documentId,
+    });
+    return periods;
+  }
+
+  /** Saves the periods as the application's next spread version, with its ratios and variances. Underwriters only. */
+  async save(params: {
+    applicationId: string;
+    periods: SpreadPeriod[];
+    globalInputs: GlobalCashFlowInputs;
+    source: 'manual' | 'import';
+    documentIds: string[];
+    notes?: string;
+  }): Promise<FinancialSpread> {
+    const { spread } = await invokeEdgeFunction<{ spread: FinancialSpread }>('financial-spreading', {
+      action: 'save',
+      ...params,
+    });
+    return spread;
+  }
+
+  /** Spread versions of an application, the borrower's exports to import and the self-reported figures. */
+  async history(applicationId: string): Promise<SpreadHistory> {
+    return invokeEdgeFunction<SpreadHistory>('financial-spreading', { action: 'history', applicationId });
+  }
+}
+
+export const financialSpreadService = new FinancialSpreadService();
@@ -1,20 +1,83 @@
 import { invokeEdgeFunction, restQuery } from './supabaseHttp';
 import { crmSyncService } from './crmSyncService';
 
+export interface UnderwritingFactor {
+  factor_key: string;
+  label: string;
+  source_field: string;
+  value: unknown;
+  points: number;
+  weight: number;
+  contribution: number;
+  reason: string | null;
+}
+
+export interface UnderwritingKnockout {
+  factor_key: string;
+  label: string;
+  value: unknown;
+  reason: string;
+}
+
+/** Score breakdown stored in loan_details.underwriting by the processor, refreshed by cash-flow analysis */
+export interface UnderwritingResult {
+  rule_set_id: string | null;
+  rule_set_version: number;
+  rule_set_loan_type: string;
+  base_score: number;
+  risk_score: number;
+  auto_approval_max_score: number;
+  manual_review_min_score: number;
+  factors: UnderwritingFactor[];
+  knockouts: UnderwritingKnockout[];
+  scored_at: string;
+}
+
 export interface LoanApplicationValidation {
   isValid: boolean;
   errors: string[];
   riskScore: number;
   autoApprovalEligible: boolean;
+  knockoutReasons: string[];
+  underwriting?: UnderwritingResult;
+}
+
+export interface EligibilityMetrics {
+  annualRevenue: number | null;
+  netIncome: number | null;
+  currentDebt: number | null;
+  creditScore: number | null;
+  collateralValue: number | null;
+  ltv: number | null;
+  dscr: number | null;
+  estimatedMonthlyPayment: number;
+  annualDebtService: number | null;
 }
 
 export interface LoanEligibility {
   eligible: boolean;
+  /** Normalized product key, e.g. 'sba_7a' */
+  product: string;
+  productName: string;
   maxLoanAmount: number;
   interestRateRange: { min: number; max: number };
   termOptions: string[];
+  collateralRequirements: string[];
   requirements: string[];
+  /** MyDocuments folder ids required for this product */
+  requiredDocumentCategories: string[];
   reasons: string[];
+  metrics: EligibilityMetrics;
+  thresholds: {
+    minAmount: number;
+    maxAmount: number;
+    maxLtv: number | null;
+    minDscr: number | null;
+    minCreditScore: number | null;
+    minYearsInBusiness: number;
+    maxRevenuePct: number | null;
+    minEquityPct: number | null;
+  };
 }
 
 export interface LoanApplicationData {
@@ -56,13 +119,8 @@ class LoanApplicationService {
       const result = await invokeEdgeFunction('loan-application-processor', { action: 'updateStatus', applicationId, applicationData: { status, notes } });
 
       // Sync status change to CRM (non-blocking)
-      // We don't have full app data here, so log as activity
       crmSyncService.syncStatusChange({
         application_id: applicationId,
-        user_id: '',
-        loan_type: '',
-        amount_requested: 0,
-        old_status: 'unknown',
         new_status: status,
       }).catch(err => console.warn('[CRM Sync] Status sync error:', err));
 
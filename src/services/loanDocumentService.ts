@@ -0,0 +1,165 @@
+import { LOAN_DOCUMENT_TEMPLATES, type LoanDocumentType } from '@/config/loanDocumentTemplates';
+import { calculateAmortization, summarizeByYear } from '@/utils/loanCalculations';
+import { generateLoanDocumentPDF } from '@/utils/pdfGenerator';
+import { conditionService } from './conditionService';
+import { loanProductService } from './loanProductService';
+import { signatureService } from './signatureService';
+import { invokeEdgeFunction, restQuery, storageUpload } from './supabaseHttp';
+
+export interface LoanDocumentFee {
+  label: string;
+  amount: number;
+}
+
+/** Terms staff enter when issuing a term sheet or commitment letter. */
+export interface LoanDocumentTerms {
+  amount: number;
+  /** Annual rate in percent */
+  interest_rate: number;
+  term_months: number;
+  interest_only_months: number;
+  fees: LoanDocumentFee[];
+  expiration_date: string;
+}
+
+/** The terms as printed, stored with each issued version. */
+export interface IssuedLoanDocumentTerms extends LoanDocumentTerms {
+  monthly_payment: number;
+  total_fees: number;
+  conditions: string[];
+}
+
+export interface LoanDocument {
+  id: string;
+  application_id: string;
+  user_id: string;
+  document_type: LoanDocumentType;
+  document_id: string | null;
+  version: number;
+  terms: IssuedLoanDocumentTerms;
+  generated_by: string | null;
+  created_at: string;
+}
+
+/** The application fields the templates read. */
+export interface LoanDocumentApplication {
+  id: string;
+  user_id: string;
+  application_number: string;
+  first_name: string | null;
+  last_name: string | null;
+  business_name: string | null;
+  loan_type: string;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+class LoanDocumentService {
+  async listForApplication(applicationId: string): Promise<LoanDocument[]> {
+    const p = new URLSearchParams();
+    p.set('application_id', `eq.${applicationId}`);
+    p.set('order', 'created_at.desc');
+    const { data } = await restQuery<LoanDocument[]>('loan_documents', { params: p });
+    return data || [];
+  }
+
+  /** Opens the rendered document in a new tab without issuing it. */
+  async preview(type: LoanDocumentType, application: LoanDocumentApplication, terms: LoanDocumentTerms): Promise<void> {
+    const { blob } = await this.render(type, application, terms);
+    const url = URL.createObjectURL(blob);
+    window.open(url, '_blank');
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  }
+
+  /**
+   * Renders the document, files it in the borrower's loan documents folder
+   * and notifies them. Templates that require a signature are sent for
+   * signature against the hash of the file as filed.
+   */
+  async issue(type: LoanDocumentType, application: LoanDocumentApplication, terms: LoanDocumentTerms): Promise<LoanDocument> {
+    const { blob, issuedTerms } = await this.render(type, application, terms);
+    const fileName = `${type.replace('_', '-')}-${application.application_number ?? application.id}.pdf`;
+    const file = new File([blob], fileName, { type: 'application/pdf' });
+    const filePath = `${application.user_id}/${Date.now()}_${fileName}`;
+    await storageUpload('borrower-documents', filePath, file, { cacheControl: '3600' });
+    const { document } = await invokeEdgeFunction<{ document: LoanDocument }>('admin-dashboard', {
+      action: 'record-loan-document',
+      applicationId: application.id,
+      documentType: type,
+      terms: issuedTerms,
+      fileName,
+      filePath,
+      fileSize: file.size,
+    });
+
+    if (LOAN_DOCUMENT_TEMPLATES[type].requiresSignature && document.document_id) {
+      await signatureService.requestSignature({
+        userId: application.user_id,
+        applicationId: application.id,
+        title: `${LOAN_DOCUMENT_TEMPLATES[type].name} for application #${application.application_number ?? application.id}`,
+        sourceDocumentId: document.document_id,
+        loanDocumentId: document.id,
+        document: blob,
+        expiresAt: new Date(`${terms.expiration_date}T23:59:59`).toISOString(),
+      });
+    }
+    return document;
+  }
+
+  private async render(type: LoanDocumentType, application: LoanDocumentApplication, terms: LoanDocumentTerms) {
+    const calculation = calculateAmortization({
+      principal: terms.amount,
+      annualRate: terms.interest_rate,
+      termMonths: terms.term_months,
+      interestOnlyMonths: terms.interest_only_months,
+    });
+    if (!calculation) throw new Error('Enter a valid amount, rate and term');
+
+    const conditions = (await conditionService.listForApplication(application.id))
+      .filter((c) => c.status !== 'waived')
+      .map((c) => (c.description ? `${c.title}: ${c.description}` : c.title));
+    const fees = terms.fees.filter((fee) => fee.label.trim() && fee.amount > 0);
+    const totalFees = fees.reduce((sum, fee) => sum + fee.amount, 0);
+    const { result } = calculation;
+
+    const blob = generateLoanDocumentPDF({
+      template: LOAN_DOCUMENT_TEMPLATES[type],
+      values: {
+        issueDate: formatDate(new Date()),
+        expirationDate: formatDate(`${terms.expiration_date}T00:00:00`),
+        borrowerName: [application.first_name, application.last_name].filter(Boolean).join(' ') || 'Borrower',
+        businessName: application.business_name || 'the borrower',
+        applicationNumber: application.application_number,
+        loanProduct: loanProductService.getLabel(application.loan_type),
+        amount: formatCurrency(terms.amount),
+        interestRate: `${terms.interest_rate.toFixed(2)}%`,
+        termMonths: String(terms.term_months),
+        interestOnlyMonths: String(terms.interest_only_months),
+        monthlyPayment: formatCurrency(result.monthlyPayment),
+        interestOnlyPayment: formatCurrency(result.interestOnlyPayment ?? 0),
+        totalFees: formatCurrency(totalFees),
+        netProceeds: formatCurrency(terms.amount - totalFees),
+        totalInterest: formatCurrency(result.totalInterest),
+        totalPayment: formatCurrency(result.totalPayment),
+      },
+      fees: fees.map((fee) => ({ label: fee.label, amount: formatCurrency(fee.amount) })),
+      conditions,
+      amortization: summarizeByYear(calculation.schedule),
+    });
+
+    const issuedTerms: IssuedLoanDocumentTerms = {
+      ...terms,
+      fees,
+      monthly_payment: Math.round(result.monthlyPayment * 100) / 100,
+      total_fees: totalFees,
+      conditions,
+    };
+    return { blob, issuedTerms };
+  }
+}
+
+export const loanDocumentService = new LoanDocumentService();
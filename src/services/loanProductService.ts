@@ -0,0 +1,220 @@
+import { api } from '@/services/api';
+import type { LoanProduct, LoanProductVersion } from '@/services/api';
+import { authProvider } from '@/services/auth';
+import { auditService } from '@/services/auditService';
+import { restQuery } from '@/services/supabaseHttp';
+
+/** Fields an admin edits in the product console */
+export type LoanProductInput = Pick<
+  LoanProduct,
+  | 'name'
+  | 'description'
+  | 'highlights'
+  | 'rate_display'
+  | 'category'
+  | 'icon'
+  | 'form_id'
+  | 'min_amount'
+  | 'max_amount'
+  | 'interest_rate_min'
+  | 'interest_rate_max'
+  | 'term_options'
+  | 'required_document_categories'
+  | 'eligibility_thresholds'
+  | 'sort_order'
+>;
+
+// Re-read the catalog periodically so long sessions pick up admin changes
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Values some older forms and records used instead of a catalog key
+const LEGACY_KEYS: Record<string, string> = {
+  factoring: 'invoice_factoring',
+};
+
+const toNumberOrNull = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+/** NUMERIC columns arrive as strings from the IBM data API */
+const normalizeProduct = (p: LoanProduct): LoanProduct => ({
+  ...p,
+  form_id: toNumberOrNull(p.form_id),
+  min_amount: toNumberOrNull(p.min_amount),
+  max_amount: toNumberOrNull(p.max_amount),
+  interest_rate_min: toNumberOrNull(p.interest_rate_min),
+  interest_rate_max: toNumberOrNull(p.interest_rate_max),
+  term_options: p.term_options ?? [],
+  required_document_categories: p.required_document_categories ?? [],
+  eligibility_thresholds: p.eligibility_thresholds ?? {},
+  sort_order: Number(p.sort_order ?? 0),
+  version: Number(p.version ?? 1),
+});
+
+/** Humanize a key when the catalog has no entry for it, e.g. 'bridge_loan' -> 'Bridge Loan' */
+const humanizeKey = (key: string): string =>
+  key.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+
+class LoanProductService {
+  private products: LoanProduct[] | null = null;
+  private loadedAt = 0;
+  private pending: Promise<LoanProduct[]> | null = null;
+
+  /** Load the catalog, cached for a few minutes; concurrent callers share the request. */
+  async getProducts(): Promise<LoanProduct[]> {
+    if (this.products && Date.now() - this.loadedAt < CACHE_TTL_MS) return this.products;
+    if (!this.pending) {
+      this.pending = api.loanProducts.list()
+        .then((rows) => {
+          this.products = rows.map(normalizeProduct);
+          this.loadedAt = Date.now();
+          return this.products;
+        })
+        .catch((error) => {
+          console.error('Error fetching loan products:', error);
+          throw new Error('Failed to fetch loan products');
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+
+  async getActiveProducts(): Promise<LoanProduct[]> {
+    return (await this.getProducts()).filter((p) => p.is_active);
+  }
+
+  /** Drop the cached catalog so the next read picks up admin changes. */
+  invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  /** Synchronous view of the catalog; empty until getProducts() has resolved. */
+  getCachedProducts(): LoanProduct[] {
+    return this.products ?? [];
+  }
+
+  getCachedProduct(key: string): LoanProduct | undefined {
+    const normalized = this.normalizeKey(key);
+    return this.getCachedProducts().find((p) => p.key === normalized);
+  }
+
+  /** Display label for a loan_type; falls back to a humanized key before the catalog loads. */
+  getLabel(loanType: string | null | undefined): string {
+    if (!loanType) return '';
+    return this.getCachedProduct(loanType)?.name ?? humanizeKey(loanType);
+  }
+
+  /**
+   * Map a submitted loan_type to a catalog key. Accepts keys, product
+   * names ("Term Loan") and legacy values; unknown values pass through.
+   */
+  normalizeKey(loanType: string): string {
+    const raw = (loanType || '').trim();
+    if (LEGACY_KEYS[raw]) return LEGACY_KEYS[raw];
+    const products = this.getCachedProducts();
+    if (products.some((p) => p.key === raw)) return raw;
+    const byName = products.find((p) => p.name.toLowerCase() === raw.toLowerCase());
+    return byName?.key ?? raw;
+  }
+
+  async resolveKey(loanType: string): Promise<string> {
+    try {
+      await this.getProducts();
+    } catch {
+      // Fall through with whatever is cached; callers still get a usable key
+    }
+    return this.normalizeKey(loanType);
+  }
+
+  getCachedProductByFormId(formId: number): LoanProduct | undefined {
+    return this.getCachedProducts().find((p) => p.form_id === formId);
+  }
+
+  /**
+   * Several products can share one intake form. Forms submit their default
+   * key; use the product the borrower picked (?product=) when it is active
+   * and uses the same form.
+   */
+  async resolveSelectedProduct(formKey: string, selectedKey: string | null | undefined): Promise<string> {
+    if (!selectedKey || selectedKey === formKey) return formKey;
+    try {
+      await this.getProducts();
+    } catch {
+      return formKey;
+    }
+    const selected = this.getCachedProduct(selectedKey);
+    const formProduct = this.getCachedProduct(formKey);
+    if (selected?.is_active && formProduct && selected.form_id === formProduct.form_id) {
+      return selected.key;
+    }
+    return formKey;
+  }
+
+  // -- Admin console --
+
+  async createProduct(key: string, input: LoanProductInput): Promise<LoanProduct> {
+    const { data } = await restQuery<LoanProduct>('loan_products', {
+      method: 'POST',
+      body: { key, ...input, updated_by: await this.currentUserId() },
+      returnData: true,
+      single: true,
+    });
+    this.invalidate();
+    await auditService.logAccess({ action: 'CREATE_LOAN_PRODUCT', resourceType: 'loan_product', resourceId: key, details: { ...input } });
+    return normalizeProduct(data);
+  }
+
+  async updateProduct(key: string, input: Partial<LoanProductInput>): Promise<LoanProduct> {
+    const data = await this.patchProduct(key, input);
+    await auditService.logAccess({
+      action: 'UPDATE_LOAN_PRODUCT',
+      resourceType: 'loan_product',
+      resourceId: key,
+      details: { changes: input, version: data.version },
+    });
+    return data;
+  }
+
+  /** Hide a product from new applications; existing applications keep their product. */
+  async retireProduct(key: string, reason?: string): Promise<LoanProduct> {
+    const data = await this.patchProduct(key, { is_active: false });
+    await auditService.logAccess({ action: 'RETIRE_LOAN_PRODUCT', resourceType: 'loan_product', resourceId: key, details: { reason, version: data.version } });
+    return data;
+  }
+
+  async reactivateProduct(key: string): Promise<LoanProduct> {
+    const data = await this.patchProduct(key, { is_active: true });
+    await auditService.logAccess({ action: 'REACTIVATE_LOAN_PRODUCT', resourceType: 'loan_product', resourceId: key, details: { version: data.version } });
+    return data;
+  }
+
+  async listVersions(key: string): Promise<LoanProductVersion[]> {
+    const p = new URLSearchParams();
+    p.set('product_key', `eq.${key}`);
+    p.set('order', 'version.desc');
+    const { data } = await restQuery<LoanProductVersion[]>('loan_product_versions', { params: p });
+    return data || [];
+  }
+
+  private async patchProduct(key: string, changes: Partial<LoanProduct>): Promise<LoanProduct> {
+    const p = new URLSearchParams();
+    p.set('key', `eq.${key}`);
+    const { data } = await restQuery<LoanProduct>('loan_products', {
+      method: 'PATCH',
+      params: p,
+      body: { ...changes, updated_by: await this.currentUserId() },
+      returnData: true,
+      single: true,
+    });
+    this.invalidate();
+    return normalizeProduct(data);
+  }
+
+  private async currentUserId(): Promise<string | null> {
+    const { data } = await authProvider.getUser();
+    return data?.user?.id ?? null;
+  }
+}
+
+export const loanProductService = new LoanProductService();
@@ -0,0 +1,65 @@
+import { invokeEdgeFunction, restQuery } from '@/services/supabaseHttp';
+
+export type OutboxStatus = 'pending' | 'processing' | 'delivered' | 'dead';
+export type OutboxEvent = 'application_status_change' | 'loan_funded' | 'external_webhook';
+
+export interface OutboxChannelResult {
+  status: 'sent' | 'failed' | 'skipped' | 'deferred' | 'suppressed';
+  reason?: string;
+  deliveryId?: string | null;
+}
+
+export interface OutboxEntry {
+  id: string;
+  event: OutboxEvent;
+  payload: Record<string, unknown>;
+  idempotency_key: string;
+  loan_application_id: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_until: string | null;
+  last_error: string | null;
+  result: Record<string, OutboxChannelResult>;
+  created_by: string | null;
+  delivered_at: string | null;
+  dead_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const OUTBOX_STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  delivered: 'Delivered',
+  dead: 'Dead letter',
+};
+
+export const OUTBOX_EVENT_LABELS: Record<OutboxEvent, string> = {
+  application_status_change: 'Status change',
+  loan_funded: 'Loan funded',
+  external_webhook: 'External webhook',
+};
+
+class NotificationOutboxService {
+  /** Queued notifications, newest first (admins only). */
+  async listEntries(filters: { status?: OutboxStatus; limit?: number } = {}): Promise<OutboxEntry[]> {
+    const p = new URLSearchParams();
+    if (filters.status) p.set('status', `eq.${filters.status}`);
+    p.set('order', 'created_at.desc');
+    p.set('limit', String(filters.limit ?? 200));
+    const { data } = await restQuery<OutboxEntry[]>('notification_outbox', { params: p });
+    return data || [];
+  }
+
+  /** Send a dead-lettered notification back to the queue with a fresh retry budget. */
+  async requeue(outboxId: string): Promise<void> {
+    await invokeEdgeFunction('notification-service', {
+      action: 'requeue-outbox',
+      notificationData: { outboxId },
+    });
+  }
+}
+
+export const notificationOutboxService = new NotificationOutboxService();
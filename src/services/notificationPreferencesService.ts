@@ -1,5 +1,5 @@
 import { authProvider } from '@/services/auth';
-import { callRpc, restQuery } from './supabaseHttp';
+import { callRpc, invokeEdgeFunction, restQuery } from './supabaseHttp';
 
 export interface NotificationPreference {
   email: boolean;
@@ -17,6 +17,7 @@ export interface NotificationPreferences {
   payment_reminder: NotificationPreference;
   payment_received: NotificationPreference;
   status_update: NotificationPreference;
+  support_ticket_update: NotificationPreference;
 }
 
 export const notificationEventLabels: Record<keyof NotificationPreferences, string> = {
@@ -29,6 +30,7 @@ export const notificationEventLabels: Record<keyof NotificationPreferences, stri
   payment_reminder: 'Payment Reminder',
   payment_received: 'Payment Received',
   status_update: 'Status Update',
+  support_ticket_update: 'Support Ticket Update',
 };
 
 export const notificationEventDescriptions: Record<keyof NotificationPreferences, string> = {
@@ -41,8 +43,40 @@ export const notificationEventDescriptions: Record<keyof NotificationPreferences
   payment_reminder: 'Reminders for upcoming loan payments',
   payment_received: 'Confirmation when payments are processed',
   status_update: 'General status updates on your applications',
+  support_ticket_update: 'Replies and status changes on your support tickets',
 };
 
+export type SmsConsentStatus = 'opted_in' | 'opted_out';
+
+// Where texts go and when they may be sent; quiet hours are HH:MM in the user's time zone
+export interface SmsSettings {
+  phone: string | null;
+  consent_status: SmsConsentStatus | null;
+  consented_at: string | null;
+  opted_out_at: string | null;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  timezone: string;
+}
+
+export interface SmsSettingsUpdate {
+  phone: string | null;
+  optIn: boolean;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  timezone: string;
+}
+
+export const SMS_TIMEZONES: { value: string; label: string }[] = [
+  { value: 'America/New_York', label: 'Eastern' },
+  { value: 'America/Chicago', label: 'Central' },
+  { value: 'America/Denver', label: 'Mountain' },
+  { value: 'America/Phoenix', label: 'Arizona' },
+  { value: 'America/Los_Angeles', label: 'Pacific' },
+  { value: 'America/Anchorage', label: 'Alaska' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii' },
+];
+
 class NotificationPreferencesService {
   async getPreferences(): Promise<NotificationPreferences | null> {
     try {
@@ -102,6 +136,22 @@ class NotificationPreferencesService {
       throw new Error('Failed to toggle channel');
     }
   }
+
+  async getSmsSettings(): Promise<SmsSettings> {
+    const data = await invokeEdgeFunction<{ settings: SmsSettings }>('notification-service', {
+      action: 'get-sms-settings',
+    });
+    return data.settings;
+  }
+
+  // Consent is recorded against the number; changing it withdraws consent for the old one
+  async updateSmsSettings(update: SmsSettingsUpdate): Promise<SmsSettings> {
+    const data = await invokeEdgeFunction<{ settings: SmsSettings }>('notification-service', {
+      action: 'update-sms-settings',
+      notificationData: update,
+    });
+    return data.settings;
+  }
 }
 
 export const notificationPreferencesService = new NotificationPreferencesService();
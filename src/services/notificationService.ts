@@ -75,21 +75,16 @@ class NotificationService {
     applicationNumber: string,
     applicationId: string,
   ) {
-    const emailNotification: NotificationData = {
-      type: 'email',
-      recipient: applicantEmail,
-      template: 'application_submitted',
-      data: { applicantName, applicationNumber },
-      applicationId,
-    };
-    const smsNotification: NotificationData = {
-      type: 'sms',
-      recipient: '+1234567890',
-      template: 'application_submitted',
-      data: { applicantName, applicationNumber },
-      applicationId,
-    };
-    return await this.sendBulkNotifications([emailNotification, smsNotification]);
+    // Sent on the channels the applicant enabled; SMS only reaches an opted-in number
+    return await invokeEdgeFunction('notification-service', {
+      action: 'dispatch',
+      notificationData: {
+        event: 'application_submitted',
+        applicationId,
+        recipient: applicantEmail,
+        data: { applicantName, applicationNumber },
+      },
+    });
   }
 
   async sendWelcomeEmail(userEmail: string, userName: string) {
@@ -0,0 +1,167 @@
+import { authProvider } from '@/services/auth';
+import { auditService } from '@/services/auditService';
+import { invokeEdgeFunction, restQuery } from '@/services/supabaseHttp';
+
+export type TemplateChannel = 'email' | 'sms';
+
+export interface NotificationTemplate {
+  id: string;
+  template_key: string;
+  channel: TemplateChannel;
+  name: string;
+  description: string | null;
+  subject: string | null;
+  html_body: string | null;
+  text_body: string;
+  variables: string[];
+  is_enabled: boolean;
+  version: number;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NotificationTemplateVersion {
+  id: string;
+  template_id: string;
+  version: number;
+  snapshot: Partial<NotificationTemplate>;
+  changed_fields: string[];
+  changed_by: string | null;
+  created_at: string;
+}
+
+/** Wording an admin edits in the template console */
+export type NotificationTemplateInput = Pick<NotificationTemplate, 'name' | 'description' | 'subject' | 'html_body' | 'text_body'>;
+
+export interface TemplatePreview {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Applications offered as sample data in the preview */
+export interface PreviewApplication {
+  id: string;
+  application_number: string | null;
+  business_name: string | null;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+export const TEMPLATE_CHANNEL_LABELS: Record<TemplateChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+};
+
+// Placeholders look like {{applicantName}} or {{documentName|additional documents}}
+const PLACEHOLDER = /\{\{\s*(\w+)\s*(?:\|[^}]*)?\}\}/g;
+
+/** Placeholders used in the given wording that the sending code does not supply. */
+export const findUnknownVariables = (template: NotificationTemplate, ...bodies: (string | null | undefined)[]): string[] => {
+  const unknown = new Set<string>();
+  for (const body of bodies) {
+    for (const match of (body ?? '').matchAll(PLACEHOLDER)) {
+      if (!template.variables.includes(match[1])) unknown.add(match[1]);
+    }
+  }
+  return [...unknown];
+};
+
+class NotificationTemplateService {
+  async listTemplates(): Promise<NotificationTemplate[]> {
+    const p = new URLSearchParams();
+    p.set('order', 'template_key.asc,channel.asc');
+    const { data } = await restQuery<NotificationTemplate[]>('notification_templates', { params: p });
+    return data || [];
+  }
+
+  async updateTemplate(template: NotificationTemplate, input: Partial<NotificationTemplateInput>): Promise<NotificationTemplate> {
+    const data = await this.patchTemplate(template.id, input);
+    await auditService.logAccess({
+      action: 'UPDATE_NOTIFICATION_TEMPLATE',
+      resourceType: 'notification_template',
+      resourceId: template.id,
+      details: { template_key: template.template_key, channel: template.channel, changed: Object.keys(input), version: data.version },
+    });
+    return data;
+  }
+
+  /** Disabled templates are skipped by the notification backends instead of sent. */
+  async setEnabled(template: NotificationTemplate, isEnabled: boolean): Promise<NotificationTemplate> {
+    const data = await this.patchTemplate(template.id, { is_enabled: isEnabled });
+    await auditService.logAccess({
+      action: isEnabled ? 'ENABLE_NOTIFICATION_TEMPLATE' : 'DISABLE_NOTIFICATION_TEMPLATE',
+      resourceType: 'notification_template',
+      resourceId: template.id,
+      details: { template_key: template.template_key, channel: template.channel, version: data.version },
+    });
+    return data;
+  }
+
+  async listVersions(templateId: string): Promise<NotificationTemplateVersion[]> {
+    const p = new URLSearchParams();
+    p.set('template_id', `eq.${templateId}`);
+    p.set('order', 'version.desc');
+    const { data } = await restQuery<NotificationTemplateVersion[]>('notification_template_versions', { params: p });
+    return data || [];
+  }
+
+  /** Copy an earlier version's wording back; this is recorded as a new version. */
+  async restoreVersion(template: NotificationTemplate, version: NotificationTemplateVersion): Promise<NotificationTemplate> {
+    const { name, description, subject, html_body, text_body } = version.snapshot;
+    const data = await this.patchTemplate(template.id, { name, description, subject, html_body, text_body });
+    await auditService.logAccess({
+      action: 'RESTORE_NOTIFICATION_TEMPLATE',
+      resourceType: 'notification_template',
+      resourceId: template.id,
+      details: { template_key: template.template_key, channel: template.channel, restored_version: version.version, version: data.version },
+    });
+    return data;
+  }
+
+  /** Render wording (saved, or the unsaved draft) against sample data or a real application. */
+  async preview(template: NotificationTemplate, draft: Partial<NotificationTemplateInput>, applicationId?: string): Promise<TemplatePreview> {
+    const data = await invokeEdgeFunction<{ preview: TemplatePreview }>('notification-service', {
+      action: 'preview-template',
+      notificationData: {
+        templateKey: template.template_key,
+        channel: template.channel,
+        subject: draft.subject,
+        htmlBody: draft.html_body,
+        textBody: draft.text_body,
+        applicationId,
+      },
+    });
+    return data.preview;
+  }
+
+  async listPreviewApplications(): Promise<PreviewApplication[]> {
+    const p = new URLSearchParams();
+    p.set('select', 'id,application_number,business_name,first_name,last_name');
+    p.set('order', 'created_at.desc');
+    p.set('limit', '25');
+    const { data } = await restQuery<PreviewApplication[]>('loan_applications', { params: p });
+    return data || [];
+  }
+
+  private async patchTemplate(id: string, changes: Partial<NotificationTemplate>): Promise<NotificationTemplate> {
+    const p = new URLSearchParams();
+    p.set('id', `eq.${id}`);
+    const { data } = await restQuery<NotificationTemplate>('notification_templates', {
+      method: 'PATCH',
+      params: p,
+      body: { ...changes, updated_by: await this.currentUserId() },
+      returnData: true,
+      single: true,
+    });
+    return data;
+  }
+
+  private async currentUserId(): Promise<string | null> {
+    const { data } = await authProvider.getUser();
+    return data?.user?.id ?? null;
+  }
+}
+
+export const notificationTemplateService = new NotificationTemplateService();
@@ -0,0 +1,204 @@
+import { callRpc, invokeEdgeFunction, restQuery } from '@/services/supabaseHttp';
+
+export type LoanPaymentEntryType = 'scheduled' | 'received' | 'late' | 'reversed';
+export type LoanPaymentStatus = 'pending' | 'partial' | 'paid' | 'waived' | 'posted' | 'reversed';
+export type LoanPaymentSource = 'manual' | 'csv_import' | 'system';
+export type DelinquencyBucket = 'current' | '1-29' | '30-59' | '60-89' | '90+';
+
+export interface LoanPayment {
+  id: string;
+  loan_id: string;
+  user_id: string;
+  entry_type: LoanPaymentEntryType;
+  status: LoanPaymentStatus;
+  amount: number;
+  amount_applied: number;
+  principal_amount: number;
+  interest_amount: number;
+  fee_amount: number;
+  installment_number: number | null;
+  due_date: string | null;
+  effective_date: string;
+  reference: string | null;
+  related_payment_id: string | null;
+  source: LoanPaymentSource;
+  import_batch_id: string | null;
+  notes: string | null;
+  recorded_by: string | null;
+  balance_after: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** The servicing fields of an existing_loans row the payments console needs */
+export interface ServicedLoan {
+  id: string;
+  user_id: string;
+  loan_name: string;
+  lender: string;
+  loan_balance: number;
+  monthly_payment: number;
+  interest_rate: number;
+  remaining_months: number;
+  status: string;
+}
+
+export interface LoanDelinquency {
+  loan_id: string;
+  user_id: string;
+  loan_name: string;
+  loan_balance: number;
+  monthly_payment: number;
+  next_due_date: string | null;
+  oldest_past_due_date: string | null;
+  days_past_due: number;
+  past_due_amount: number;
+  late_fees_due: number;
+  installments_past_due: number;
+  bucket: DelinquencyBucket;
+}
+
+export interface RecordPaymentInput {
+  loanId: string;
+  amount: number;
+  paymentDate: string;
+  reference?: string;
+  notes?: string;
+}
+
+export interface PaymentImportRow extends RecordPaymentInput {
+  /** 1-based line in the source file, for error reporting */
+  line: number;
+}
+
+export interface PaymentImportResult {
+  batchId: string;
+  imported: number;
+  duplicates: number;
+  failures: { line: number; message: string }[];
+}
+
+/** NUMERIC columns arrive as strings from the IBM data API */
+const toNumber = (value: unknown): number => Number(value ?? 0);
+
+const normalizePayment = (p: LoanPayment): LoanPayment => ({
+  ...p,
+  amount: toNumber(p.amount),
+  amount_applied: toNumber(p.amount_applied),
+  principal_amount: toNumber(p.principal_amount),
+  interest_amount: toNumber(p.interest_amount),
+  fee_amount: toNumber(p.fee_amount),
+  balance_after: p.balance_after === null ? null : toNumber(p.balance_after),
+});
+
+const normalizeLoan = (l: ServicedLoan): ServicedLoan => ({
+  ...l,
+  loan_balance: toNumber(l.loan_balance),
+  monthly_payment: toNumber(l.monthly_payment),
+  interest_rate: toNumber(l.interest_rate),
+  remaining_months: toNumber(l.remaining_months),
+});
+
+const normalizeDelinquency = (d: LoanDelinquency): LoanDelinquency => ({
+  ...d,
+  loan_balance: toNumber(d.loan_balance),
+  monthly_payment: toNumber(d.monthly_payment),
+  days_past_due: toNumber(d.days_past_due),
+  past_due_amount: toNumber(d.past_due_amount),
+  late_fees_due: toNumber(d.late_fees_due),
+  installments_past_due: toNumber(d.installments_past_due),
+});
+
+/**
+ * Payment ledger for funded loans. Posting, reversal, scheduling and late
+ * fees run in database functions (which also write the audit trail) so
+ * balances stay consistent whichever backend serves the request.
+ */
+class PaymentService {
+  async listPayments(filters: { loanId?: string; entryType?: LoanPaymentEntryType; limit?: number } = {}): Promise<LoanPayment[]> {
+    const p = new URLSearchParams();
+    if (filters.loanId) p.set('loan_id', `eq.${filters.loanId}`);
+    if (filters.entryType) p.set('entry_type', `eq.${filters.entryType}`);
+    p.set('order', 'effective_date.desc,created_at.desc');
+    p.set('limit', String(filters.limit ?? 500));
+    const { data } = await restQuery<LoanPayment[]>('loan_payments', { params: p });
+    return (data || []).map(normalizePayment);
+  }
+
+  async listLoans(): Promise<ServicedLoan[]> {
+    const p = new URLSearchParams();
+    p.set('select', 'id,user_id,loan_name,lender,loan_balance,monthly_payment,interest_rate,remaining_months,status');
+    p.set('order', 'loan_name.asc');
+    const { data } = await restQuery<ServicedLoan[]>('existing_loans', { params: p });
+    return (data || []).map(normalizeLoan);
+  }
+
+  /** Post a received payment; returns the new ledger entry id. */
+  async recordPayment(input: RecordPaymentInput, source: LoanPaymentSource = 'manual', batchId?: string): Promise<string> {
+    return callRpc<string>('record_loan_payment', {
+      _loan_id: input.loanId,
+      _amount: input.amount,
+      _payment_date: input.paymentDate,
+      _reference: input.reference || null,
+      _source: source,
+      _notes: input.notes || null,
+      _import_batch_id: batchId ?? null,
+    });
+  }
+
+  async reversePayment(paymentId: string, reason?: string): Promise<string> {
+    return callRpc<string>('reverse_loan_payment', { _payment_id: paymentId, _reason: reason || null });
+  }
+
+  /** Top up scheduled installments; returns how many were created. */
+  async generateSchedule(loanId?: string, months = 12): Promise<number> {
+    const { created } = await invokeEdgeFunction<{ created: number }>('admin-dashboard', {
+      action: 'payment-schedule',
+      ...(loanId ? { loanId } : {}),
+      months,
+    });
+    return toNumber(created);
+  }
+
+  /** Charge late fees on installments past the grace period; returns how many were charged. */
+  async assessLateFees(graceDays = 10, feePercent = 5): Promise<number> {
+    const { assessed } = await invokeEdgeFunction<{ assessed: number }>('admin-dashboard', {
+      action: 'assess-late-fees',
+      graceDays,
+      feePercent,
+    });
+    return toNumber(assessed);
+  }
+
+  async getDelinquencySummary(): Promise<LoanDelinquency[]> {
+    const rows = await callRpc<LoanDelinquency[]>('get_loan_delinquency_summary');
+    return (rows || []).map(normalizeDelinquency);
+  }
+
+  /**
+   * Post each row of a bank file under one import batch. Rows whose
+   * reference was already posted are counted as duplicates, so re-importing
+   * the same file is harmless.
+   */
+  async importPayments(rows: PaymentImportRow[]): Promise<PaymentImportResult> {
+    const result: PaymentImportResult = { batchId: crypto.randomUUID(), imported: 0, duplicates: 0, failures: [] };
+
+    for (const row of rows) {
+      try {
+        await this.recordPayment(row, 'csv_import', result.batchId);
+        result.imported++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (/duplicate payment reference/i.test(message)) {
+          result.duplicates++;
+        } else {
+          result.failures.push({ line: row.line, message });
+        }
+      }
+    }
+
+    return result;
+  }
+}
+
+export const paymentService = new PaymentService();
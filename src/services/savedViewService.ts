@@ -0,0 +1,82 @@
+import { authProvider } from '@/services/auth';
+import { restQuery } from './supabaseHttp';
+import type { ApplicationIndexQuery, ApplicationSort } from './adminService';
+
+export type SavedViewPage = 'applications';
+
+export type SavedViewFilters = Omit<ApplicationIndexQuery, 'sort' | 'cursor' | 'limit'>;
+
+/** A named filter and sort preset saved by an admin for one list page. */
+export interface SavedView {
+  id: string;
+  user_id: string;
+  page: SavedViewPage;
+  name: string;
+  filters: SavedViewFilters;
+  sort: ApplicationSort[];
+  // Applied when the page opens; at most one per admin and page
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SavedViewInput = Pick<SavedView, 'name' | 'filters' | 'sort' | 'is_default'>;
+
+class SavedViewService {
+  async list(page: SavedViewPage = 'applications'): Promise<SavedView[]> {
+    const { data: userData } = await authProvider.getUser();
+    const p = new URLSearchParams();
+    p.set('user_id', `eq.${userData?.user?.id}`);
+    p.set('page', `eq.${page}`);
+    p.set('order', 'name.asc');
+    const { data } = await restQuery<SavedView[]>('admin_saved_views', { params: p });
+    return data || [];
+  }
+
+  /** Creates the view, or replaces the admin's existing view with the same name. */
+  async save(input: SavedViewInput, page: SavedViewPage = 'applications'): Promise<SavedView> {
+    const { data: userData } = await authProvider.getUser();
+    const userId = userData?.user?.id;
+    if (!userId) throw new Error('Not signed in');
+
+    if (input.is_default) await this.clearDefault(userId, page);
+
+    const existing = (await this.list(page)).find((view) => view.name === input.name);
+    if (existing) {
+      const p = new URLSearchParams();
+      p.set('id', `eq.${existing.id}`);
+      const { data } = await restQuery<SavedView>('admin_saved_views', {
+        method: 'PATCH',
+        params: p,
+        body: { filters: input.filters, sort: input.sort, is_default: input.is_default },
+        returnData: true,
+        single: true,
+      });
+      return data;
+    }
+
+    const { data } = await restQuery<SavedView>('admin_saved_views', {
+      method: 'POST',
+      body: { ...input, user_id: userId, page },
+      returnData: true,
+      single: true,
+    });
+    return data;
+  }
+
+  async remove(viewId: string): Promise<void> {
+    const p = new URLSearchParams();
+    p.set('id', `eq.${viewId}`);
+    await restQuery('admin_saved_views', { method: 'DELETE', params: p });
+  }
+
+  private async clearDefault(userId: string, page: SavedViewPage): Promise<void> {
+    const p = new URLSearchParams();
+    p.set('user_id', `eq.${userId}`);
+    p.set('page', `eq.${page}`);
+    p.set('is_default', 'is.true');
+    await restQuery('admin_saved_views', { method: 'PATCH', params: p, body: { is_default: false } });
+  }
+}
+
+export const savedViewService = new SavedViewService();
@@ -0,0 +1,237 @@
+import { generateSignedDocumentPDF, type SignatureDrawing } from '@/utils/pdfGenerator';
+import { invokeEdgeFunction, storageCreateSignedUrl, storageUpload } from './supabaseHttp';
+
+export type SignatureRequestStatus = 'pending' | 'signed' | 'declined' | 'voided';
+
+export const SIGNATURE_STATUS_LABELS: Record<SignatureRequestStatus, string> = {
+  pending: 'Awaiting signature',
+  signed: 'Signed',
+  declined: 'Declined',
+  voided: 'Voided',
+};
+
+export interface SignatureRequest {
+  id: string;
+  user_id: string;
+  application_id: string | null;
+  title: string;
+  disclosure_id: string | null;
+  source_document_id: string | null;
+  loan_document_id: string | null;
+  /** SHA-256 of what is to be signed, fixed when the request was made */
+  document_hash: string;
+  status: SignatureRequestStatus;
+  expires_at: string | null;
+  requested_by: string | null;
+  viewed_at: string | null;
+  signed_at: string | null;
+  signature_type: 'typed' | 'drawn' | null;
+  signature_name: string | null;
+  signer_ip: string | null;
+  signer_user_agent: string | null;
+  signed_document_id: string | null;
+  signed_document_hash: string | null;
+  decline_reason: string | null;
+  created_at: string;
+}
+
+export interface SignatureDisclosure {
+  id: string;
+  disclosure_key: string;
+  version: number;
+  title: string;
+  body: string;
+}
+
+export interface SignatureEvent {
+  id: number;
+  event: 'requested' | 'viewed' | 'signed' | 'declined' | 'voided';
+  actor_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+  event_hash: string;
+}
+
+interface StoredDocument {
+  id: string;
+  file_name: string;
+  file_path: string;
+}
+
+export interface SignatureRequestDetail {
+  request: SignatureRequest;
+  disclosure: SignatureDisclosure | null;
+  sourceDocument: StoredDocument | null;
+  /** The filed signature certificate, once signed */
+  signedDocument: StoredDocument | null;
+  events: SignatureEvent[];
+  /** False when the event trail no longer matches its hash chain */
+  chainValid: boolean;
+}
+
+/** What the signer adopted in the ceremony. */
+export type AdoptedSignature =
+  | { type: 'typed'; name: string }
+  | { type: 'drawn'; name: string; drawing: SignatureDrawing };
+
+export interface SignatureVerification {
+  /** The signed certificate still matches the hash recorded at signing */
+  documentIntact: boolean;
+  chainValid: boolean;
+}
+
+interface SignatureResponse {
+  request: SignatureRequest;
+  serverTime: string;
+  ip: string | null;
+}
+
+/** Lowercase hex SHA-256, matching what the database stores. */
+export const sha256Hex = async (data: Blob | string): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : await data.arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Screen and locale details recorded with the signature
+const deviceDetails = () => ({
+  platform: navigator.platform,
+  language: navigator.language,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  screen: `${window.screen.width}x${window.screen.height}`,
+});
+
+const fetchStoredFile = async (path: string): Promise<Blob> => {
+  const url = await storageCreateSignedUrl('borrower-documents', path, 300);
+  const res = await fetch(url);
+  if (!res.ok) throw new Error('Failed to download the document');
+  return res.blob();
+};
+
+class SignatureService {
+  /** The caller's own requests, or an application's when staff ask for it. */
+  async list(filters: { applicationId?: string; status?: SignatureRequestStatus } = {}): Promise<SignatureRequest[]> {
+    const { requests } = await invokeEdgeFunction<{ requests: SignatureRequest[] }>('e-signature', {
+      action: 'list',
+      ...filters,
+    });
+    return requests;
+  }
+
+  async get(requestId: string): Promise<SignatureRequestDetail> {
+    return invokeEdgeFunction<SignatureRequestDetail>('e-signature', { action: 'get', requestId });
+  }
+
+  /** Downloads the document to be signed so it can be shown and hashed. */
+  async loadSourceDocument(detail: SignatureRequestDetail): Promise<Blob> {
+    if (!detail.sourceDocument) throw new Error('This request has no document attached');
+    return fetchStoredFile(detail.sourceDocument.file_path);
+  }
+
+  /** Records that the signer opened the request; returns the IP the server saw. */
+  async begin(requestId: string): Promise<SignatureResponse> {
+    return invokeEdgeFunction<SignatureResponse>('e-signature', {
+      action: 'begin',
+      requestId,
+      device: deviceDetails(),
+    });
+  }
+
+  /**
+   * Hashes exactly what the signer was shown, renders the signature
+   * certificate, files it in their documents and completes the request.
+   * The server re-hashes both from storage and refuses the signature if
+   * either differs or the document no longer matches the request.
+   */
+  async sign(
+    detail: SignatureRequestDetail,
+    presented: string | Blob,
+    signature: AdoptedSignature,
+    ipAddress: string | null,
+  ): Promise<SignatureRequest> {
+    const { request } = detail;
+    const documentHash = await sha256Hex(presented);
+    if (documentHash !== request.document_hash) {
+      throw new Error('The document has changed since it was sent for signature. Please contact us for a new copy.');
+    }
+
+    const blob = generateSignedDocumentPDF({
+      requestId: request.id,
+      title: request.title,
+      disclosureText: detail.disclosure?.body,
+      documentName: detail.sourceDocument?.file_name,
+      documentHash,
+      signatureType: signature.type,
+      signatureName: signature.name,
+      drawing: signature.type === 'drawn' ? signature.drawing : undefined,
+      signedAt: new Date().toISOString(),
+      ipAddress,
+      userAgent: navigator.userAgent,
+    });
+    const fileName = `signed-${request.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}.pdf`;
+    const file = new File([blob], fileName, { type: 'application/pdf' });
+    const filePath = `${request.user_id}/${Date.now()}_${fileName}`;
+    await storageUpload('borrower-documents', filePath, file, { cacheControl: '3600' });
+
+    const { request: signed } = await invokeEdgeFunction<SignatureResponse>('e-signature', {
+      action: 'complete',
+      requestId: request.id,
+      signatureType: signature.type,
+      signatureName: signature.name,
+      documentHash,
+      fileName,
+      filePath,
+      signedDocumentHash: await sha256Hex(blob),
+      device: deviceDetails(),
+    });
+    return signed;
+  }
+
+  async decline(requestId: string, reason: string): Promise<SignatureRequest> {
+    const { request } = await invokeEdgeFunction<SignatureResponse>('e-signature', { action: 'decline', requestId, reason });
+    return request;
+  }
+
+  /** Asks the borrower to sign a document already filed in their folder; the server checks the hash against the stored copy. */
+  async requestSignature(params: {
+    userId: string;
+    applicationId?: string;
+    title: string;
+    sourceDocumentId: string;
+    loanDocumentId?: string;
+    document: Blob;
+    expiresAt?: string;
+  }): Promise<SignatureRequest> {
+    const { document, ...rest } = params;
+    const { request } = await invokeEdgeFunction<SignatureResponse>('e-signature', {
+      action: 'request',
+      ...rest,
+      documentHash: await sha256Hex(document),
+    });
+    return request;
+  }
+
+  async void(requestId: string, reason: string): Promise<SignatureRequest> {
+    const { request } = await invokeEdgeFunction<SignatureResponse>('e-signature', { action: 'void', requestId, reason });
+    return request;
+  }
+
+  /** Re-hashes the filed certificate and checks the event trail. */
+  async verify(requestId: string): Promise<SignatureVerification> {
+    const detail = await this.get(requestId);
+    const { request, signedDocument, chainValid } = detail;
+    if (!request.signed_document_hash || !signedDocument) return { documentIntact: false, chainValid };
+    const hash = await sha256Hex(await fetchStoredFile(signedDocument.file_path));
+    return { documentIntact: hash === request.signed_document_hash, chainValid };
+  }
+
+  /** Opens a stored document in a new tab. */
+  async open(path: string): Promise<void> {
+    const url = await storageCreateSignedUrl('borrower-documents', path, 3600);
+    window.open(url, '_blank');
+  }
+}
+
+export const signatureService = new SignatureService();
@@ -0,0 +1,171 @@
+import { invokeEdgeFunction, restQuery } from '@/services/supabaseHttp';
+
+export type SupportTicketStatus = 'open' | 'in_progress' | 'waiting_on_customer' | 'resolved' | 'closed';
+export type SupportTicketPriority = 'low' | 'normal' | 'high' | 'urgent';
+export type SupportTicketCategory = 'general' | 'application' | 'documents' | 'payments' | 'account' | 'technical';
+
+export interface SupportTicket {
+  id: string;
+  ticket_number: string;
+  user_id: string;
+  contact_email: string | null;
+  subject: string;
+  category: SupportTicketCategory;
+  priority: SupportTicketPriority;
+  status: SupportTicketStatus;
+  loan_application_id: string | null;
+  document_id: string | null;
+  assigned_to: string | null;
+  first_response_due_at: string | null;
+  resolution_due_at: string | null;
+  first_responded_at: string | null;
+  resolved_at: string | null;
+  closed_at: string | null;
+  last_reply_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined by the support-tickets function
+  first_name: string | null;
+  last_name: string | null;
+  business_name: string | null;
+  message_count: number;
+}
+
+export interface SupportTicketMessage {
+  id: string;
+  ticket_id: string;
+  author_id: string;
+  is_staff: boolean;
+  is_internal: boolean;
+  body: string;
+  created_at: string;
+}
+
+export interface SupportStaffMember {
+  id: string;
+  role: string;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+export interface CreateSupportTicketInput {
+  subject: string;
+  description: string;
+  category: SupportTicketCategory;
+  priority?: Exclude<SupportTicketPriority, 'urgent'>;
+  loanApplicationId?: string;
+  documentId?: string;
+}
+
+export interface SupportTicketUpdate {
+  status?: SupportTicketStatus;
+  priority?: SupportTicketPriority;
+  assignedTo?: string | null;
+}
+
+/** Applications and documents a borrower can attach to a ticket */
+export interface SupportTicketLinks {
+  applications: { id: string; application_number: string | null; loan_type: string; business_name: string | null }[];
+  documents: { id: string; file_name: string; document_category: string }[];
+}
+
+export type SlaState = 'met' | 'on_track' | 'due_soon' | 'breached';
+
+export const SUPPORT_TICKET_STATUS_LABELS: Record<SupportTicketStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  waiting_on_customer: 'Awaiting Reply',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+export const SUPPORT_TICKET_PRIORITY_LABELS: Record<SupportTicketPriority, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+export const SUPPORT_TICKET_CATEGORY_LABELS: Record<SupportTicketCategory, string> = {
+  general: 'General Question',
+  application: 'Loan Application',
+  documents: 'Documents',
+  payments: 'Payments',
+  account: 'Account & Login',
+  technical: 'Technical Issue',
+};
+
+// Deadlines within this window are flagged before they are missed
+const DUE_SOON_MS = 60 * 60 * 1000;
+
+const slaState = (dueAt: string | null, doneAt: string | null, now: number): SlaState => {
+  if (doneAt) return dueAt && new Date(doneAt) > new Date(dueAt) ? 'breached' : 'met';
+  if (!dueAt) return 'on_track';
+  const remaining = new Date(dueAt).getTime() - now;
+  if (remaining < 0) return 'breached';
+  return remaining < DUE_SOON_MS ? 'due_soon' : 'on_track';
+};
+
+/** SLA standing of a ticket's first-response and resolution targets */
+export const getTicketSla = (ticket: SupportTicket, now = Date.now()) => ({
+  firstResponse: slaState(ticket.first_response_due_at, ticket.first_responded_at, now),
+  resolution: slaState(ticket.resolution_due_at, ticket.resolved_at, now),
+});
+
+const call = <T>(action: string, params: Record<string, unknown> = {}) =>
+  invokeEdgeFunction<T>('support-tickets', { action, ...params });
+
+class SupportTicketService {
+  /** The caller's own tickets, or with scope 'queue' every ticket (support staff only). */
+  async listTickets(filters: { scope?: 'mine' | 'queue'; status?: SupportTicketStatus; assignedTo?: string } = {}): Promise<SupportTicket[]> {
+    const { tickets } = await call<{ tickets: SupportTicket[] }>('list', filters);
+    return tickets;
+  }
+
+  async getTicket(ticketId: string): Promise<{ ticket: SupportTicket; messages: SupportTicketMessage[] }> {
+    return call('get', { ticketId });
+  }
+
+  async createTicket(input: CreateSupportTicketInput): Promise<SupportTicket> {
+    const { ticket } = await call<{ ticket: SupportTicket }>('create', { ...input });
+    return ticket;
+  }
+
+  /** Add to the thread; internal notes are staff-only and never shown to the borrower. */
+  async reply(ticketId: string, body: string, internal = false): Promise<SupportTicketMessage> {
+    const { message } = await call<{ message: SupportTicketMessage }>('reply', { ticketId, body, internal });
+    return message;
+  }
+
+  /** Triage a ticket: status, priority and assignee (support staff only). */
+  async updateTicket(ticketId: string, changes: SupportTicketUpdate): Promise<SupportTicket> {
+    const { ticket } = await call<{ ticket: SupportTicket }>('update', { ticketId, ...changes });
+    return ticket;
+  }
+
+  async listStaff(): Promise<SupportStaffMember[]> {
+    const { staff } = await call<{ staff: SupportStaffMember[] }>('staff');
+    return staff;
+  }
+
+  async getLinkableRecords(userId: string): Promise<SupportTicketLinks> {
+    const appParams = new URLSearchParams();
+    appParams.set('user_id', `eq.${userId}`);
+    appParams.set('select', 'id,application_number,loan_type,business_name');
+    appParams.set('order', 'created_at.desc');
+
+    const docParams = new URLSearchParams();
+    docParams.set('user_id', `eq.${userId}`);
+    docParams.set('is_latest_version', 'is.true');
+    docParams.set('select', 'id,file_name,document_category');
+    docParams.set('order', 'uploaded_at.desc');
+
+    const [{ data: applications }, { data: documents }] = await Promise.all([
+      restQuery<SupportTicketLinks['applications']>('loan_applications', { params: appParams }),
+      restQuery<SupportTicketLinks['documents']>('borrower_documents', { params: docParams }),
+    ]);
+    return { applications: applications || [], documents: documents || [] };
+  }
+}
+
+export const supportTicketService = new SupportTicketService();
@@ -0,0 +1,121 @@
+/**
+ * Payment and amortization math shared by the loan calculators, the
+ * term sheet / commitment letter generator and cash-flow analysis.
+ */
+
+export interface CalculationResult {
+  monthlyPayment: number;
+  totalPayment: number;
+  totalInterest: number;
+  principalPaid: number;
+  interestOnlyPayment?: number;
+}
+
+export interface AmortizationEntry {
+  month: number;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number;
+}
+
+export interface AmortizationInput {
+  principal: number;
+  /** Annual rate in percent, e.g. 6.5 */
+  annualRate: number;
+  termMonths: number;
+  /** Leading months of interest-only payments within termMonths */
+  interestOnlyMonths?: number;
+}
+
+/** Months in a product catalog term option such as '10 years' or '18 months'. */
+export const termOptionMonths = (option: string | undefined): number => {
+  const value = parseInt(option ?? '', 10);
+  if (isNaN(value)) return 120;
+  return /month/i.test(option ?? '') ? value : value * 12;
+};
+
+/** Level payment that retires principal over the given number of months. */
+export const levelPayment = (principal: number, monthlyRate: number, months: number): number =>
+  monthlyRate === 0
+    ? principal / months
+    : (principal * monthlyRate * Math.pow(1 + monthlyRate, months)) / (Math.pow(1 + monthlyRate, months) - 1);
+
+/**
+ * Monthly schedule for a fully amortizing loan, optionally preceded by an
+ * interest-only period. Returns null when the inputs are not numbers.
+ */
+export const calculateAmortization = ({
+  principal,
+  annualRate,
+  termMonths,
+  interestOnlyMonths = 0,
+}: AmortizationInput): { result: CalculationResult; schedule: AmortizationEntry[] } | null => {
+  if (isNaN(principal) || isNaN(annualRate) || isNaN(termMonths) || termMonths <= 0) {
+    return null;
+  }
+
+  const monthlyRate = annualRate / 100 / 12;
+  const ioMonths = Math.min(Math.max(interestOnlyMonths, 0), termMonths - 1);
+  const schedule: AmortizationEntry[] = [];
+  let balance = principal;
+
+  const interestOnlyPayment = ioMonths > 0 ? principal * monthlyRate : undefined;
+  for (let i = 1; i <= ioMonths; i++) {
+    const interestPayment = balance * monthlyRate;
+    schedule.push({ month: i, payment: interestPayment, principal: 0, interest: interestPayment, balance });
+  }
+
+  const amortizingMonths = termMonths - ioMonths;
+  const monthlyPayment = levelPayment(balance, monthlyRate, amortizingMonths);
+  for (let i = ioMonths + 1; i <= termMonths; i++) {
+    const interestPayment = balance * monthlyRate;
+    const principalPayment = monthlyPayment - interestPayment;
+    balance -= principalPayment;
+    schedule.push({
+      month: i,
+      payment: monthlyPayment,
+      principal: principalPayment,
+      interest: interestPayment,
+      balance: Math.max(0, balance),
+    });
+  }
+
+  const totalPayment = (interestOnlyPayment ?? 0) * ioMonths + monthlyPayment * amortizingMonths;
+  return {
+    result: {
+      monthlyPayment,
+      totalPayment,
+      totalInterest: totalPayment - principal,
+      principalPaid: principal,
+      interestOnlyPayment,
+    },
+    schedule,
+  };
+};
+
+export interface AmortizationYear {
+  year: number;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number;
+}
+
+/** Rolls a monthly schedule up into loan years. */
+export const summarizeByYear = (schedule: AmortizationEntry[]): AmortizationYear[] => {
+  const years: AmortizationYear[] = [];
+  for (const entry of schedule) {
+    const year = Math.ceil(entry.month / 12);
+    const current = years[year - 1];
+    if (current) {
+      current.payment += entry.payment;
+      current.principal += entry.principal;
+      current.interest += entry.interest;
+      current.balance = entry.balance;
+    } else {
+      years.push({ year, payment: entry.payment, principal: entry.principal, interest: entry.interest, balance: entry.balance });
+    }
+  }
+  return years;
+};
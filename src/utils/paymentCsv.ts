@@ -0,0 +1,159 @@
+/**
+ * Bank File Import
+ * Parses payment CSV exports into rows for the payment ledger
+ */
+
+import type { PaymentImportRow, ServicedLoan } from '@/services/paymentService';
+
+export interface PaymentCsvError {
+  line: number;
+  message: string;
+}
+
+export interface PaymentCsvResult {
+  rows: PaymentImportRow[];
+  errors: PaymentCsvError[];
+}
+
+// Header names banks and processors commonly use for each field
+const COLUMN_ALIASES = {
+  loanId: ['loan_id', 'loan id', 'account_id'],
+  loanName: ['loan_name', 'loan name', 'loan', 'account', 'account_name'],
+  date: ['payment_date', 'date', 'posted_date', 'transaction_date', 'effective_date'],
+  amount: ['amount', 'payment_amount', 'credit'],
+  reference: ['reference', 'transaction_id', 'reference_number', 'ref', 'check_number'],
+  notes: ['memo', 'notes', 'description'],
+} as const;
+
+/** Split CSV text into records, honouring quoted fields with embedded commas, quotes and newlines. */
+const parseRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+};
+
+/** "$1,234.56" or "(1,234.56)" -> number; NaN when unparseable */
+const parseAmount = (raw: string): number => {
+  const trimmed = raw.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+  const value = Number(trimmed.replace(/[$,()\s-]/g, ''));
+  return negative ? -value : value;
+};
+
+/** Accepts YYYY-MM-DD and MM/DD/YYYY; returns YYYY-MM-DD or null */
+const parseDate = (raw: string): string | null => {
+  const value = raw.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  return null;
+};
+
+const findColumn = (headers: string[], aliases: readonly string[]): number =>
+  headers.findIndex((h) => aliases.includes(h));
+
+/**
+ * Parse a bank payment file. Rows are matched to loans by loan_id, or by
+ * loan_name when the file has no ids. Debits and rows that cannot be
+ * matched are reported as errors rather than imported.
+ */
+export const parsePaymentCsv = (text: string, loans: ServicedLoan[]): PaymentCsvResult => {
+  const records = parseRecords(text.replace(/^\uFEFF/, ''));
+  const errors: PaymentCsvError[] = [];
+  const rows: PaymentImportRow[] = [];
+
+  if (records.length === 0) {
+    return { rows, errors: [{ line: 1, message: 'File is empty' }] };
+  }
+
+  const headers = records[0].map((h) => h.trim().toLowerCase());
+  const col = {
+    loanId: findColumn(headers, COLUMN_ALIASES.loanId),
+    loanName: findColumn(headers, COLUMN_ALIASES.loanName),
+    date: findColumn(headers, COLUMN_ALIASES.date),
+    amount: findColumn(headers, COLUMN_ALIASES.amount),
+    reference: findColumn(headers, COLUMN_ALIASES.reference),
+    notes: findColumn(headers, COLUMN_ALIASES.notes),
+  };
+
+  if (col.amount < 0 || col.date < 0 || (col.loanId < 0 && col.loanName < 0)) {
+    return {
+      rows,
+      errors: [{ line: 1, message: 'Header row must include amount, date, and loan_id or loan_name columns' }],
+    };
+  }
+
+  const loansById = new Map(loans.map((l) => [l.id, l]));
+  const loansByName = new Map(loans.map((l) => [l.loan_name.trim().toLowerCase(), l]));
+  const cell = (record: string[], index: number) => (index >= 0 ? (record[index] ?? '').trim() : '');
+
+  records.slice(1).forEach((record, i) => {
+    const line = i + 2;
+    if (record.every((value) => value.trim() === '')) return;
+
+    const loanId = cell(record, col.loanId);
+    const loanName = cell(record, col.loanName);
+    const loan = loanId ? loansById.get(loanId) : loansByName.get(loanName.toLowerCase());
+    if (!loan) {
+      errors.push({ line, message: `No loan matches "${loanId || loanName}"` });
+      return;
+    }
+
+    const amount = parseAmount(cell(record, col.amount));
+    if (!Number.isFinite(amount) || amount <= 0) {
+      errors.push({ line, message: `Amount "${cell(record, col.amount)}" is not a positive payment` });
+      return;
+    }
+
+    const paymentDate = parseDate(cell(record, col.date));
+    if (!paymentDate) {
+      errors.push({ line, message: `Date "${cell(record, col.date)}" is not YYYY-MM-DD or MM/DD/YYYY` });
+      return;
+    }
+
+    rows.push({
+      line,
+      loanId: loan.id,
+      amount: Math.round(amount * 100) / 100,
+      paymentDate,
+      reference: cell(record, col.reference) || undefined,
+      notes: cell(record, col.notes) || undefined,
+    });
+  });
+
+  return { rows, errors };
+};
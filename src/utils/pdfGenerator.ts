@@ -4,6 +4,10 @@
  * For production, consider using jsPDF or pdfmake
  */
 
+import { loanProductService } from '@/services/loanProductService';
+import { fillLoanDocumentText, type LoanDocumentTemplate, type LoanDocumentValues } from '@/config/loanDocumentTemplates';
+import type { AmortizationYear } from '@/utils/loanCalculations';
+
 /**
  * Escapes HTML special characters to prevent XSS attacks
  * when inserting user-controlled content into HTML templates.
@@ -53,18 +57,6 @@ export const generateApplicationPDF = (application: ApplicationData) => {
     });
   };
 
-  const getLoanTypeDisplay = (loanType: string) => {
-    const types: Record<string, string> = {
-      refinance: 'Refinance of Property',
-      bridge_loan: 'Bridge Loan',
-      purchase: 'Purchase of Property',
-      franchise: 'Franchise Loan',
-      factoring: 'Factoring Loan',
-      working_capital: 'Working Capital Loan'
-    };
-    return types[loanType] || loanType;
-  };
-
   // Create a new window with the application details
   const printWindow = window.open('', '_blank');
   
@@ -158,7 +150,7 @@ export const generateApplicationPDF = (application: ApplicationData) => {
         </div>
         <div class="field">
           <div class="field-label">Application Type:</div>
-          <div class="field-value">${escapeHtml(getLoanTypeDisplay(application.loan_type))}</div>
+          <div class="field-value">${escapeHtml(loanProductService.getLabel(application.loan_type))}</div>
         </div>
         <div class="field">
           <div class="field-label">Requested Amount:</div>
@@ -233,3 +225,332 @@ export const generateApplicationPDF = (application: ApplicationData) => {
   printWindow.document.write(htmlContent);
   printWindow.document.close();
 };
+
+interface PdfBlock {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  // Extra space above the block, in points
+  spaceBefore?: number;
+  // Table row: cells spread evenly across the page instead of wrapped text
+  columns?: string[];
+  italic?: boolean;
+  // Hand-drawn signature, scaled to fit a box `size` points tall
+  drawing?: SignatureDrawing;
+}
+
+/** Pen strokes captured on a canvas, in canvas pixels. */
+export interface SignatureDrawing {
+  width: number;
+  height: number;
+  strokes: { x: number; y: number }[][];
+}
+
+const PDF_PAGE_WIDTH = 612;
+const PDF_PAGE_HEIGHT = 792;
+const PDF_MARGIN = 72;
+
+// Helvetica averages about half an em per character; wide enough for mixed case
+const wrapPdfText = (text: string, size: number): string[] => {
+  const maxChars = Math.floor((PDF_PAGE_WIDTH - PDF_MARGIN * 2) / (size * 0.52));
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + word.length + 1 > maxChars) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// PDF string literal; the standard fonts only cover Latin-1, so anything else becomes '?'
+const pdfString = (text: string) =>
+  `(${text.replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1')})`;
+
+/**
+ * Lays out text blocks on Letter pages in Helvetica and returns the PDF.
+ * Enough for letters and notices that are stored rather than printed.
+ */
+function buildTextPdf(blocks: PdfBlock[]): Blob {
+  const pages: string[][] = [[]];
+  let y = PDF_PAGE_HEIGHT - PDF_MARGIN;
+
+  for (const block of blocks) {
+    const size = block.size ?? 11;
+    const leading = size * 1.35;
+    y -= block.spaceBefore ?? 0;
+    const font = block.bold ? 'F2' : block.italic ? 'F3' : 'F1';
+    if (block.drawing) {
+      const { width, height, strokes } = block.drawing;
+      if (y - size < PDF_MARGIN) {
+        pages.push([]);
+        y = PDF_PAGE_HEIGHT - PDF_MARGIN;
+      }
+      const scale = Math.min((PDF_PAGE_WIDTH - PDF_MARGIN * 2) / width, size / height);
+      const point = (p: { x: number; y: number }) =>
+        `${(PDF_MARGIN + p.x * scale).toFixed(2)} ${(y - p.y * scale).toFixed(2)}`;
+      const paths = strokes
+        .filter((stroke) => stroke.length > 0)
+        .map((stroke) => [`${point(stroke[0])} m`, ...stroke.slice(1).map((p) => `${point(p)} l`)].join(' '));
+      pages[pages.length - 1].push(`q 0 0 0 RG 1.2 w 1 J 1 j ${paths.join(' ')} S Q`);
+      y -= size;
+      continue;
+    }
+    if (block.columns) {
+      if (y - leading < PDF_MARGIN) {
+        pages.push([]);
+        y = PDF_PAGE_HEIGHT - PDF_MARGIN;
+      }
+      y -= leading;
+      const width = (PDF_PAGE_WIDTH - PDF_MARGIN * 2) / block.columns.length;
+      block.columns.forEach((cell, i) => {
+        pages[pages.length - 1].push(
+          `BT /${font} ${size} Tf ${(PDF_MARGIN + i * width).toFixed(2)} ${y.toFixed(2)} Td ${pdfString(cell)} Tj ET`,
+        );
+      });
+      continue;
+    }
+    for (const line of wrapPdfText(block.text, size)) {
+      if (y - leading < PDF_MARGIN) {
+        pages.push([]);
+        y = PDF_PAGE_HEIGHT - PDF_MARGIN;
+      }
+      y -= leading;
+      if (line) {
+        pages[pages.length - 1].push(
+          `BT /${font} ${size} Tf ${PDF_MARGIN} ${y.toFixed(2)} Td ${pdfString(line)} Tj ET`,
+        );
+      }
+    }
+  }
+
+  // 1 catalog, 2 page tree, 3-5 fonts, then a page and its content stream per page
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Oblique /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((commands, i) => {
+    const stream = commands.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    );
+  });
+
+  // Everything is ASCII, so string length equals the byte offset
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+  return new Blob([pdf], { type: 'application/pdf' });
+}
+
+export interface AdverseActionNoticeData {
+  application_number: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  business_name: string | null;
+  business_address: string | null;
+  business_city: string | null;
+  business_state: string | null;
+  business_zip: string | null;
+  loan_type: string;
+  amount_requested: number | null;
+  decided_at: string;
+  reasons: { label: string; reason: string }[];
+}
+
+/**
+ * Renders the ECOA / Regulation B notice of action taken for a declined
+ * application, stating the principal reasons and the applicant's rights.
+ */
+export const generateAdverseActionNoticePDF = (notice: AdverseActionNoticeData): Blob => {
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+  const applicant = [notice.first_name, notice.last_name].filter(Boolean).join(' ');
+  const cityLine = [notice.business_city, [notice.business_state, notice.business_zip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  const amount = notice.amount_requested
+    ? ` for ${new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(notice.amount_requested)}`
+    : '';
+
+  const blocks: PdfBlock[] = [
+    { text: 'Halo Business Finance', size: 16, bold: true },
+    { text: 'Notice of Action Taken', size: 13, bold: true, spaceBefore: 4 },
+    { text: formatDate(new Date().toISOString()), spaceBefore: 18 },
+    {
+      text: [applicant, notice.business_name, notice.business_address, cityLine].filter(Boolean).join('\n'),
+      spaceBefore: 12,
+    },
+    {
+      text: `Re: Application #${notice.application_number ?? ''}, ${loanProductService.getLabel(notice.loan_type)}${amount}`,
+      bold: true,
+      spaceBefore: 18,
+    },
+    { text: `Dear ${applicant || notice.business_name || 'Applicant'},`, spaceBefore: 12 },
+    {
+      text: `Thank you for applying for credit with Halo Business Finance. After careful review, we are unable to approve your application. This decision was made on ${formatDate(notice.decided_at)}.`,
+      spaceBefore: 8,
+    },
+    { text: 'The principal reason(s) for our decision:', bold: true, spaceBefore: 12 },
+    ...notice.reasons.map((r, i) => ({ text: `${i + 1}. ${r.reason}`, spaceBefore: 4 })),
+    {
+      text: 'If you have questions about this decision or believe it was based on incorrect information, please contact Halo Business Finance support and reference your application number.',
+      spaceBefore: 12,
+    },
+    { text: 'Your Rights Under the Equal Credit Opportunity Act', bold: true, spaceBefore: 18 },
+    {
+      text: 'The federal Equal Credit Opportunity Act prohibits creditors from discriminating against credit applicants on the basis of race, color, religion, national origin, sex, marital status, age (provided the applicant has the capacity to enter into a binding contract); because all or part of the applicant\'s income derives from any public assistance program; or because the applicant has in good faith exercised any right under the Consumer Credit Protection Act. The federal agency that administers compliance with this law concerning this creditor is the Federal Trade Commission, Equal Credit Opportunity, Washington, DC 20580.',
+      size: 10,
+      spaceBefore: 6,
+    },
+    { text: 'This is a computer-generated document.', size: 9, spaceBefore: 24 },
+  ];
+
+  return buildTextPdf(blocks);
+};
+
+export interface LoanDocumentData {
+  template: LoanDocumentTemplate;
+  values: LoanDocumentValues;
+  fees: { label: string; amount: string }[];
+  conditions: string[];
+  amortization: AmortizationYear[];
+}
+
+/** Renders a term sheet or commitment letter from its template. */
+export const generateLoanDocumentPDF = ({ template, values, fees, conditions, amortization }: LoanDocumentData): Blob => {
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+  const sectionBlocks = (sections: LoanDocumentTemplate['sections']): PdfBlock[] =>
+    sections.flatMap((section) => [
+      ...(section.heading ? [{ text: fillLoanDocumentText(section.heading, values), bold: true, spaceBefore: 14 }] : []),
+      { text: fillLoanDocumentText(section.body, values), spaceBefore: section.heading ? 4 : 12 },
+    ]);
+
+  const blocks: PdfBlock[] = [
+    { text: 'Halo Business Finance', size: 16, bold: true },
+    { text: template.title, size: 13, bold: true, spaceBefore: 4 },
+    ...sectionBlocks(template.sections),
+  ];
+
+  if (template.includeFees && fees.length > 0) {
+    blocks.push({ text: 'Fees', bold: true, spaceBefore: 14 });
+    fees.forEach((fee) => blocks.push({ text: '', columns: [fee.label, fee.amount], spaceBefore: 2 }));
+    blocks.push({ text: '', columns: ['Total fees', values.totalFees], bold: true, spaceBefore: 2 });
+  }
+
+  if (template.includeConditions) {
+    blocks.push({ text: 'Conditions', bold: true, spaceBefore: 14 });
+    blocks.push(
+      ...(conditions.length > 0
+        ? conditions.map((condition, i) => ({ text: `${i + 1}. ${condition}`, spaceBefore: 4 }))
+        : [{ text: 'Standard closing documentation.', spaceBefore: 4 }]),
+    );
+  }
+
+  if (template.includeAmortization && amortization.length > 0) {
+    blocks.push({ text: 'Amortization by Loan Year', bold: true, spaceBefore: 14 });
+    blocks.push({ text: '', columns: ['Year', 'Payments', 'Principal', 'Interest', 'Ending balance'], bold: true, size: 10, spaceBefore: 4 });
+    amortization.forEach((row) =>
+      blocks.push({
+        text: '',
+        size: 10,
+        columns: [
+          String(row.year),
+          formatCurrency(row.payment),
+          formatCurrency(row.principal),
+          formatCurrency(row.interest),
+          formatCurrency(row.balance),
+        ],
+      }),
+    );
+  }
+
+  blocks.push(...sectionBlocks(template.closing));
+  blocks.push({ text: `Issued ${values.issueDate}. This is a computer-generated document.`, size: 9, spaceBefore: 24 });
+
+  return buildTextPdf(blocks);
+};
+
+export interface SignedDocumentData {
+  requestId: string;
+  title: string;
+  /** Disclosure text, printed in full; omitted when a document is signed */
+  disclosureText?: string;
+  /** File name of the signed document */
+  documentName?: string;
+  documentHash: string;
+  signatureType: 'typed' | 'drawn';
+  signatureName: string;
+  drawing?: SignatureDrawing;
+  signedAt: string;
+  ipAddress: string | null;
+  userAgent: string;
+}
+
+/**
+ * Renders the signature certificate filed with the borrower's documents:
+ * what was signed, the signature itself and the evidence captured with it.
+ * The hash of the document as presented ties the certificate to it.
+ */
+export const generateSignedDocumentPDF = (data: SignedDocumentData): Blob => {
+  const blocks: PdfBlock[] = [
+    { text: 'Halo Business Finance', size: 16, bold: true },
+    { text: 'Electronic Signature Certificate', size: 13, bold: true, spaceBefore: 4 },
+    { text: data.title, bold: true, spaceBefore: 18 },
+  ];
+
+  if (data.disclosureText) {
+    blocks.push({ text: data.disclosureText, spaceBefore: 8 });
+  } else {
+    blocks.push({
+      text: `The signer reviewed and signed the document "${data.documentName ?? data.title}" identified by the SHA-256 fingerprint below.`,
+      spaceBefore: 8,
+    });
+  }
+
+  blocks.push({ text: 'Signature', bold: true, spaceBefore: 18 });
+  if (data.signatureType === 'drawn' && data.drawing) {
+    blocks.push({ text: '', drawing: data.drawing, size: 60, spaceBefore: 8 });
+  } else {
+    blocks.push({ text: data.signatureName, italic: true, size: 22, spaceBefore: 4 });
+  }
+  blocks.push({ text: `Signed electronically by ${data.signatureName}`, size: 10, spaceBefore: 4 });
+
+  blocks.push({ text: 'Signing Evidence', bold: true, spaceBefore: 18 });
+  [
+    ['Signed at', new Date(data.signedAt).toISOString()],
+    ['Signature type', data.signatureType === 'drawn' ? 'Drawn' : 'Typed'],
+    ['IP address', data.ipAddress ?? 'Not available'],
+    ['Request ID', data.requestId],
+  ].forEach(([label, value]) => blocks.push({ text: '', size: 10, columns: [label, value], spaceBefore: 2 }));
+  blocks.push({ text: `Device: ${data.userAgent}`, size: 9, spaceBefore: 4 });
+  blocks.push({ text: `Document SHA-256: ${data.documentHash}`, size: 9, spaceBefore: 4 });
+  blocks.push({
+    text: 'The SHA-256 fingerprint of this certificate and every step of the signing are recorded by Halo Business Finance in a hash-chained audit trail. Any change to this file or to the signed document can be detected by recomputing the fingerprints.',
+    size: 9,
+    spaceBefore: 24,
+  });
+
+  return buildTextPdf(blocks);
+};
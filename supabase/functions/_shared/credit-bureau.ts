@@ -0,0 +1,310 @@
+// Shared credit bureau access for Supabase Edge Functions.
+// A bureau adapter is chosen from the environment: CREDIT_BUREAU_PROVIDER=gateway|stub,
+// or inferred from CREDIT_BUREAU_API_URL, falling back to the local stub.
+// Adapters return reports in the shape complete_credit_pull records.
+// Mirrors ibm-functions/src/credit-bureau.js.
+
+export type BureauProvider = 'gateway' | 'stub';
+export type ConsumerBureau = 'experian' | 'equifax' | 'transunion';
+export type BusinessBureau = 'experian_business' | 'dnb_paydex' | 'equifax_business';
+export type Bureau = ConsumerBureau | BusinessBureau;
+
+export const CONSUMER_BUREAUS: ConsumerBureau[] = ['experian', 'equifax', 'transunion'];
+export const BUSINESS_BUREAUS: BusinessBureau[] = ['experian_business', 'dnb_paydex', 'equifax_business'];
+
+// Each bureau's score model and the range it reports on
+export const BUREAU_MODELS: Record<Bureau, { model: string; min: number; max: number }> = {
+  experian: { model: 'FICO Score 8', min: 300, max: 850 },
+  equifax: { model: 'FICO Score 8', min: 300, max: 850 },
+  transunion: { model: 'FICO Score 8', min: 300, max: 850 },
+  experian_business: { model: 'Intelliscore Plus', min: 1, max: 100 },
+  dnb_paydex: { model: 'PAYDEX', min: 1, max: 100 },
+  equifax_business: { model: 'Business Credit Risk Score', min: 101, max: 992 },
+};
+
+export interface BureauSubject {
+  userId: string;
+  firstName: string | null;
+  lastName: string | null;
+  businessName: string | null;
+  address: { street: string | null; city: string | null; state: string | null; zip: string | null };
+}
+
+export interface BureauPullRequest {
+  pullId: string;
+  pullType: 'consumer' | 'business';
+  bureaus: Bureau[];
+  inquiryType: 'soft' | 'hard';
+  permissiblePurpose: string;
+  subject: BureauSubject;
+}
+
+export interface BureauTradeline {
+  creditor_name: string;
+  account_type: string;
+  account_number_last4: string | null;
+  account_status: 'open' | 'closed' | 'collection' | 'charged_off';
+  payment_status: 'current' | 'late_30' | 'late_60' | 'late_90' | 'late_120' | 'derogatory';
+  balance: number | null;
+  credit_limit: number | null;
+  monthly_payment: number | null;
+  opened_on: string | null;
+  reported_on: string | null;
+  late_30_count: number;
+  late_60_count: number;
+  late_90_count: number;
+}
+
+export interface BureauReport {
+  bureau: Bureau;
+  score: number;
+  score_model: string;
+  score_min: number;
+  score_max: number;
+  report_date: string;
+  factors: { code: string; description: string }[];
+  summary: Record<string, number | null>;
+  tradelines: BureauTradeline[];
+}
+
+export interface BureauAdapter {
+  readonly provider: BureauProvider;
+  pull(request: BureauPullRequest): Promise<BureauReport[]>;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const toNumber = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' || Number.isNaN(Number(value)) ? null : Number(value);
+
+// What the gateway returns per bureau; everything but bureau and score is optional
+interface GatewayReport {
+  bureau: string;
+  score: number | string;
+  scoreModel?: string;
+  scoreMin?: number;
+  scoreMax?: number;
+  reportDate?: string;
+  factors?: { code?: string; description?: string }[];
+  summary?: Partial<Record<
+    'totalAccounts' | 'openAccounts' | 'utilization' | 'inquiries' | 'publicRecords' | 'derogatoryAccounts' | 'oldestAccountMonths',
+    number | string | null
+  >>;
+  tradelines?: {
+    creditorName?: string;
+    accountType?: string;
+    accountNumber?: string;
+    accountStatus?: BureauTradeline['account_status'];
+    paymentStatus?: BureauTradeline['payment_status'];
+    balance?: number | string | null;
+    creditLimit?: number | string | null;
+    monthlyPayment?: number | string | null;
+    openedOn?: string;
+    reportedOn?: string;
+    late30Count?: number;
+    late60Count?: number;
+    late90Count?: number;
+  }[];
+}
+
+// Maps a gateway response onto our report shape, filling the score range from the bureau's model
+function parseReport(raw: GatewayReport): BureauReport {
+  const bureau = raw.bureau as Bureau;
+  const model = BUREAU_MODELS[bureau];
+  if (!model) throw new Error(`Unknown bureau in response: ${raw.bureau}`);
+  const score = toNumber(raw.score);
+  if (score === null) throw new Error(`No score returned for ${bureau}`);
+  const summary = raw.summary ?? {};
+
+  return {
+    bureau,
+    score: Math.round(score),
+    score_model: raw.scoreModel ?? model.model,
+    score_min: toNumber(raw.scoreMin) ?? model.min,
+    score_max: toNumber(raw.scoreMax) ?? model.max,
+    report_date: raw.reportDate ?? today(),
+    factors: (raw.factors ?? []).map((f) => ({ code: String(f.code ?? ''), description: String(f.description ?? '') })),
+    summary: {
+      total_accounts: toNumber(summary.totalAccounts),
+      open_accounts: toNumber(summary.openAccounts),
+      utilization: toNumber(summary.utilization),
+      inquiries: toNumber(summary.inquiries),
+      public_records: toNumber(summary.publicRecords),
+      derogatory_accounts: toNumber(summary.derogatoryAccounts),
+      oldest_account_months: toNumber(summary.oldestAccountMonths),
+    },
+    tradelines: (raw.tradelines ?? []).map((t) => ({
+      creditor_name: t.creditorName ?? 'Unknown creditor',
+      account_type: t.accountType ?? 'other',
+      account_number_last4: t.accountNumber ? t.accountNumber.slice(-4) : null,
+      account_status: t.accountStatus ?? 'open',
+      payment_status: t.paymentStatus ?? 'current',
+      balance: toNumber(t.balance),
+      credit_limit: toNumber(t.creditLimit),
+      monthly_payment: toNumber(t.monthlyPayment),
+      opened_on: t.openedOn ?? null,
+      reported_on: t.reportedOn ?? null,
+      late_30_count: t.late30Count ?? 0,
+      late_60_count: t.late60Count ?? 0,
+      late_90_count: t.late90Count ?? 0,
+    })),
+  };
+}
+
+// A reseller or tri-merge gateway that fronts the bureaus behind one API
+class GatewayAdapter implements BureauAdapter {
+  readonly provider = 'gateway';
+
+  constructor(private apiUrl: string, private apiKey: string) {}
+
+  async pull(request: BureauPullRequest): Promise<BureauReport[]> {
+    const response = await fetch(`${this.apiUrl.replace(/\/$/, '')}/reports`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        reference: request.pullId,
+        reportType: request.pullType,
+        bureaus: request.bureaus,
+        inquiryType: request.inquiryType,
+        permissiblePurpose: request.permissiblePurpose,
+        subject: request.subject,
+      }),
+    });
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.error || body?.message || `Bureau gateway returned HTTP ${response.status}`);
+    }
+    return ((body?.reports ?? []) as GatewayReport[]).map(parseReport);
+  }
+}
+
+const CONSUMER_FACTORS = [
+  { code: '01', description: 'Amount owed on revolving accounts is too high' },
+  { code: '08', description: 'Too many inquiries in the last 12 months' },
+  { code: '13', description: 'Time since delinquency is too recent or unknown' },
+  { code: '14', description: 'Length of time accounts have been established' },
+  { code: '18', description: 'Number of accounts with delinquency' },
+  { code: '30', description: 'Time since most recent account opening is too short' },
+];
+
+const BUSINESS_FACTORS = [
+  { code: 'B01', description: 'Payments to suppliers made beyond terms' },
+  { code: 'B02', description: 'Limited time in business' },
+  { code: 'B03', description: 'High balance relative to available trade credit' },
+  { code: 'B04', description: 'Number of recently opened trade accounts' },
+  { code: 'B05', description: 'Industry risk classification' },
+];
+
+const CONSUMER_CREDITORS: [string, string][] = [
+  ['Chase Card Services', 'revolving'],
+  ['Capital One', 'revolving'],
+  ['Wells Fargo Home Mortgage', 'mortgage'],
+  ['Toyota Financial Services', 'auto'],
+  ['Navient', 'student_loan'],
+  ['American Express', 'revolving'],
+];
+
+const BUSINESS_CREDITORS: [string, string][] = [
+  ['Uline', 'trade'],
+  ['Grainger', 'trade'],
+  ['Bank of America Business', 'revolving'],
+  ['Ford Credit Commercial', 'equipment'],
+  ['Staples Business Credit', 'trade'],
+];
+
+// Deterministic pseudo-random numbers so repeated pulls in the same month agree
+function seededRandom(seed: string): () => number {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+  }
+  return () => {
+    h = Math.imul(h ^ (h >>> 15), h | 1);
+    h ^= h + Math.imul(h ^ (h >>> 7), h | 61);
+    return ((h ^ (h >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Generates plausible reports for local testing; no bureau is contacted
+class StubAdapter implements BureauAdapter {
+  readonly provider = 'stub';
+
+  pull(request: BureauPullRequest): Promise<BureauReport[]> {
+    const month = today().slice(0, 7);
+    return Promise.resolve(request.bureaus.map((bureau) => {
+      const random = seededRandom(`${request.subject.userId}:${bureau}:${month}`);
+      const between = (min: number, max: number) => Math.floor(min + random() * (max - min + 1));
+      const model = BUREAU_MODELS[bureau];
+      const business = request.pullType === 'business';
+      const creditors = business ? BUSINESS_CREDITORS : CONSUMER_CREDITORS;
+      const factors = business ? BUSINESS_FACTORS : CONSUMER_FACTORS;
+
+      const tradelines: BureauTradeline[] = creditors
+        .filter(() => random() < 0.75)
+        .map(([creditor_name, account_type]) => {
+          const revolving = account_type === 'revolving' || account_type === 'trade';
+          const credit_limit = revolving ? between(20, 300) * 100 : between(100, 3000) * 100;
+          const late30 = random() < 0.15 ? between(1, 2) : 0;
+          const opened = new Date();
+          opened.setMonth(opened.getMonth() - between(6, 180));
+          return {
+            creditor_name,
+            account_type,
+            account_number_last4: String(between(0, 9999)).padStart(4, '0'),
+            account_status: 'open',
+            payment_status: late30 > 0 && random() < 0.3 ? 'late_30' : 'current',
+            balance: Math.round(credit_limit * random()),
+            credit_limit,
+            monthly_payment: revolving ? between(25, 400) : between(150, 2500),
+            opened_on: opened.toISOString().slice(0, 10),
+            reported_on: today(),
+            late_30_count: late30,
+            late_60_count: 0,
+            late_90_count: 0,
+          } satisfies BureauTradeline;
+        });
+
+      const limits = tradelines.reduce((sum, t) => sum + (t.credit_limit ?? 0), 0);
+      const balances = tradelines.reduce((sum, t) => sum + (t.balance ?? 0), 0);
+      const oldest = tradelines.reduce((min, t) => (t.opened_on && t.opened_on < min ? t.opened_on : min), today());
+      const oldestMonths = Math.round((Date.now() - new Date(oldest).getTime()) / (30.44 * 24 * 3600 * 1000));
+      // Most subjects land in the upper-middle of the range
+      const span = model.max - model.min;
+
+      return {
+        bureau,
+        score: model.min + Math.round(span * (0.55 + random() * 0.4)),
+        score_model: model.model,
+        score_min: model.min,
+        score_max: model.max,
+        report_date: today(),
+        factors: [...factors].sort(() => random() - 0.5).slice(0, between(2, 4)),
+        summary: {
+          total_accounts: tradelines.length,
+          open_accounts: tradelines.filter((t) => t.account_status === 'open').length,
+          utilization: limits > 0 ? Math.round((balances / limits) * 100) : null,
+          inquiries: between(0, 4),
+          public_records: random() < 0.05 ? 1 : 0,
+          derogatory_accounts: tradelines.filter((t) => t.payment_status !== 'current').length,
+          oldest_account_months: oldestMonths,
+        },
+        tradelines,
+      };
+    }));
+  }
+}
+
+export function getBureauAdapter(): BureauAdapter {
+  const apiUrl = Deno.env.get('CREDIT_BUREAU_API_URL');
+  const apiKey = Deno.env.get('CREDIT_BUREAU_API_KEY');
+  const configured = Deno.env.get('CREDIT_BUREAU_PROVIDER') || (apiUrl ? 'gateway' : 'stub');
+
+  if (configured === 'gateway' && apiUrl && apiKey) {
+    return new GatewayAdapter(apiUrl, apiKey);
+  }
+  if (configured !== 'stub') {
+    console.warn(`Credit bureau provider "${configured}" is not fully configured; using the stub bureau instead`);
+  }
+  return new StubAdapter();
+}
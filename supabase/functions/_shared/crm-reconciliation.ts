@@ -0,0 +1,101 @@
+// CRM reconciliation and replay for Supabase Edge Functions.
+// runReconciliation() stores a run_crm_reconciliation report;
+// replayFailures() pushes the records behind open failed crm_sync_log
+// entries again, once per record and connector, and marks the entries
+// replayed. A replay that fails again leaves a fresh open failure.
+// Mirrors ibm-functions/src/crm-reconciliation.js.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { CRM_ENTITIES, type CrmEntity, pushEntity } from "./crm.ts";
+
+export interface ReplaySummary {
+  selected: number;
+  replayed: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+interface FailedLogRow {
+  id: string;
+  entity_type: string;
+  entity_id: string | null;
+  data_payload: { connector_id?: string } | null;
+}
+
+export async function runReconciliation(supabase: SupabaseClient, triggeredBy: string | null = null) {
+  const { data, error } = await supabase.rpc('run_crm_reconciliation', { _triggered_by: triggeredBy });
+  if (error) throw error;
+  return data as { id: string; summary: Record<string, unknown>; replay: ReplaySummary | null };
+}
+
+/** Replay open failures, optionally only the given log entries. */
+export async function replayFailures(
+  supabase: SupabaseClient,
+  { logIds = null, limit = 100, userId = null }: { logIds?: string[] | null; limit?: number; userId?: string | null } = {},
+): Promise<ReplaySummary> {
+  let q = supabase
+    .from('crm_sync_log')
+    .select('id, entity_type, entity_id, data_payload')
+    .eq('status', 'failed')
+    .is('resolved_at', null)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (logIds) q = q.in('id', logIds);
+  const { data, error } = await q;
+  if (error) throw error;
+  const rows = (data ?? []) as FailedLogRow[];
+
+  // One push per record and connector, however many times it failed
+  const groups = new Map<string, { entityType: string; entityId: string | null; connectorId: string | null; logIds: string[] }>();
+  for (const row of rows) {
+    const connectorId = row.data_payload?.connector_id ?? null;
+    const key = `${row.entity_type}:${row.entity_id}:${connectorId ?? ''}`;
+    if (!groups.has(key)) groups.set(key, { entityType: row.entity_type, entityId: row.entity_id, connectorId, logIds: [] });
+    groups.get(key)!.logIds.push(row.id);
+  }
+
+  const summary: ReplaySummary = { selected: rows.length, replayed: 0, succeeded: 0, failed: 0, skipped: 0 };
+  const resolved: string[] = [];
+  for (const group of groups.values()) {
+    if (!group.entityId || !CRM_ENTITIES.includes(group.entityType as CrmEntity)) {
+      summary.skipped += group.logIds.length;
+      continue;
+    }
+    const { found, results } = await pushEntity(supabase, group.entityType as CrmEntity, group.entityId, {
+      userId,
+      syncType: 'manual',
+      connectorId: group.connectorId,
+    });
+    // Records that no longer exist, or connectors since disabled, stay open for an admin to dismiss
+    if (!found || results.length === 0) {
+      summary.skipped += group.logIds.length;
+      continue;
+    }
+    summary.replayed++;
+    if (results.every((r) => r.status === 'success')) summary.succeeded++;
+    else summary.failed++;
+    resolved.push(...group.logIds);
+  }
+
+  if (resolved.length) {
+    await supabase
+      .from('crm_sync_log')
+      .update({ resolved_at: new Date().toISOString(), resolved_by: userId, resolution: 'replayed' })
+      .in('id', resolved);
+  }
+  return summary;
+}
+
+/** Close failures that should not be replayed. Returns the number closed. */
+export async function dismissFailures(supabase: SupabaseClient, logIds: string[], userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('crm_sync_log')
+    .update({ resolved_at: new Date().toISOString(), resolved_by: userId, resolution: 'dismissed' })
+    .in('id', logIds)
+    .eq('status', 'failed')
+    .is('resolved_at', null)
+    .select('id');
+  if (error) throw error;
+  return data?.length ?? 0;
+}
@@ -0,0 +1,458 @@
+// External CRM connector for Supabase Edge Functions.
+// Enabled crm_integration_settings rows owned by an admin are connectors:
+// pushEntity() sends local CRM records to them through their
+// field_mappings, applyInbound() applies signed webhook updates when the
+// CRM's modification time is newer than the local row. Every attempt is
+// written to crm_sync_log.
+// Mirrors ibm-functions/src/crm-connector.js.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+
+export const CRM_ENTITIES = ['contact', 'opportunity', 'activity'] as const;
+export type CrmEntity = typeof CRM_ENTITIES[number];
+export type ProviderName = 'salesforce' | 'hubspot' | 'rest';
+type Fields = Record<string, unknown>;
+type Mapping = Record<string, string>;
+
+export interface Connector {
+  id: string;
+  user_id: string;
+  external_crm_name: string;
+  api_endpoint: string | null;
+  sync_enabled: boolean | null;
+  sync_direction: string | null;
+  field_mappings: Record<string, Mapping> | null;
+  settings: Record<string, unknown> | null;
+  last_sync_at: string | null;
+}
+
+export interface InboundChange {
+  entityType?: CrmEntity;
+  externalId?: string;
+  updatedAt?: string | null;
+  deleted: boolean;
+  fields: Fields;
+}
+
+export interface PushResult {
+  connectorId: string;
+  connector: string;
+  status: 'success' | 'failed';
+  operation: 'create' | 'update';
+  externalId?: string;
+  error?: string;
+}
+
+const TABLES: Record<CrmEntity, string> = { contact: 'crm_contacts', opportunity: 'crm_opportunities', activity: 'crm_activities' };
+
+// Columns the CRM may change on an inbound update; everything else is owned by the portal
+const WRITABLE_COLUMNS: Record<CrmEntity, string[]> = {
+  contact: ['first_name', 'last_name', 'email', 'phone', 'company_name', 'job_title', 'lead_status', 'contact_type', 'notes', 'last_contact_date', 'next_follow_up_date'],
+  opportunity: ['opportunity_name', 'loan_amount', 'stage', 'probability', 'expected_close_date', 'actual_close_date', 'loss_reason', 'notes'],
+  activity: ['subject', 'description', 'status', 'priority', 'scheduled_at', 'completed_at', 'duration_minutes'],
+};
+
+// Local foreign keys sent as references to the linked external record
+const REFERENCE_COLUMNS: Record<CrmEntity, Record<string, CrmEntity>> = {
+  contact: {},
+  opportunity: { contact_id: 'contact' },
+  activity: { contact_id: 'contact', opportunity_id: 'opportunity' },
+};
+
+interface Provider {
+  objects: Record<CrmEntity, string>;
+  defaultMappings: Record<CrmEntity, Mapping>;
+  references: Partial<Record<CrmEntity, Record<string, string>>>;
+  createUrl: (base: string, object: string) => string;
+  updateUrl: (base: string, object: string, id: string) => string;
+  body: (fields: Fields) => unknown;
+  parseWebhook: (body: unknown, objects: Record<string, CrmEntity>) => InboundChange[];
+}
+
+const identity = (columns: string[]): Mapping => Object.fromEntries(columns.map((c) => [c, c]));
+
+const PROVIDERS: Record<ProviderName, Provider> = {
+  salesforce: {
+    objects: { contact: 'Contact', opportunity: 'Opportunity', activity: 'Task' },
+    defaultMappings: {
+      contact: { FirstName: 'first_name', LastName: 'last_name', Email: 'email', Phone: 'phone', Title: 'job_title', Description: 'notes' },
+      opportunity: { Name: 'opportunity_name', Type: 'loan_type', Amount: 'loan_amount', StageName: 'stage', Probability: 'probability', CloseDate: 'expected_close_date', Description: 'notes' },
+      activity: { Subject: 'subject', Description: 'description', Status: 'status', Priority: 'priority' },
+    },
+    references: { opportunity: { contact_id: 'ContactId' }, activity: { contact_id: 'WhoId', opportunity_id: 'WhatId' } },
+    createUrl: (base, object) => `${base}/sobjects/${object}`,
+    updateUrl: (base, object, id) => `${base}/sobjects/${object}/${encodeURIComponent(id)}`,
+    body: (fields) => fields,
+    // Flow / Apex callouts post the changed records: { records: [{ attributes: { type }, Id, LastModifiedDate, ... }] }
+    parseWebhook(body, objects) {
+      const records = (body as { records?: Fields[] })?.records ?? [];
+      return records.map((record) => {
+        const { attributes, Id, LastModifiedDate, IsDeleted, ...fields } = record;
+        return {
+          entityType: objects[String((attributes as { type?: string })?.type)],
+          externalId: Id ? String(Id) : undefined,
+          updatedAt: LastModifiedDate as string | undefined,
+          deleted: IsDeleted === true,
+          fields,
+        };
+      });
+    },
+  },
+  hubspot: {
+    objects: { contact: 'contacts', opportunity: 'deals', activity: 'tasks' },
+    defaultMappings: {
+      contact: { firstname: 'first_name', lastname: 'last_name', email: 'email', phone: 'phone', company: 'company_name', jobtitle: 'job_title' },
+      opportunity: { dealname: 'opportunity_name', amount: 'loan_amount', dealstage: 'stage', closedate: 'expected_close_date', description: 'notes' },
+      activity: { hs_task_subject: 'subject', hs_task_body: 'description', hs_task_status: 'status', hs_task_priority: 'priority', hs_timestamp: 'created_at' },
+    },
+    // Associations are a separate HubSpot API and are not synced
+    references: {},
+    createUrl: (base, object) => `${base}/crm/v3/objects/${object}`,
+    updateUrl: (base, object, id) => `${base}/crm/v3/objects/${object}/${encodeURIComponent(id)}`,
+    body: (fields) => ({ properties: fields }),
+    // Webhook subscriptions post one event per changed property: [{ subscriptionType, objectId, propertyName, propertyValue, occurredAt }]
+    parseWebhook(body) {
+      const prefixes: Record<string, CrmEntity> = { contact: 'contact', deal: 'opportunity', task: 'activity' };
+      const grouped = new Map<string, InboundChange>();
+      for (const ev of (Array.isArray(body) ? body : []) as Fields[]) {
+        const [object, change] = String(ev.subscriptionType ?? '').split('.');
+        const entityType = prefixes[object];
+        const key = `${entityType}:${ev.objectId}`;
+        const entry = grouped.get(key) ?? { entityType, externalId: String(ev.objectId), updatedAt: null, deleted: false, fields: {} };
+        if (change === 'deletion') entry.deleted = true;
+        if (ev.propertyName) entry.fields[String(ev.propertyName)] = ev.propertyValue;
+        const occurredAt = Number(ev.occurredAt);
+        if (occurredAt && (!entry.updatedAt || occurredAt > Date.parse(entry.updatedAt))) {
+          entry.updatedAt = new Date(occurredAt).toISOString();
+        }
+        grouped.set(key, entry);
+      }
+      return [...grouped.values()];
+    },
+  },
+  // Any JSON API exposing /contacts, /opportunities and /activities
+  rest: {
+    objects: { contact: 'contacts', opportunity: 'opportunities', activity: 'activities' },
+    defaultMappings: {
+      contact: identity(WRITABLE_COLUMNS.contact),
+      opportunity: identity([...WRITABLE_COLUMNS.opportunity, 'loan_type']),
+      activity: identity([...WRITABLE_COLUMNS.activity, 'activity_type']),
+    },
+    references: { opportunity: { contact_id: 'contact_id' }, activity: { contact_id: 'contact_id', opportunity_id: 'opportunity_id' } },
+    createUrl: (base, object) => `${base}/${object}`,
+    updateUrl: (base, object, id) => `${base}/${object}/${encodeURIComponent(id)}`,
+    body: (fields) => fields,
+    // { events: [{ entityType, externalId, updatedAt, deleted?, fields }] }
+    parseWebhook(body) {
+      const events = (body as { events?: Fields[] })?.events ?? [];
+      return events.map((ev) => ({
+        entityType: ev.entityType as CrmEntity,
+        externalId: ev.externalId != null ? String(ev.externalId) : undefined,
+        updatedAt: ev.updatedAt as string | undefined,
+        deleted: ev.deleted === true,
+        fields: (ev.fields as Fields) ?? {},
+      }));
+    },
+  },
+};
+
+/** Provider for a connector: settings.provider, else guessed from the CRM name. */
+export function providerFor(connector: Connector): ProviderName {
+  const name = String(connector.settings?.provider ?? connector.external_crm_name ?? '').toLowerCase();
+  if (name.includes('salesforce')) return 'salesforce';
+  if (name.includes('hubspot')) return 'hubspot';
+  return 'rest';
+}
+
+/** External field → local column mapping for one entity, falling back to the provider defaults. */
+export function mappingFor(connector: Connector, entityType: CrmEntity): Mapping {
+  const configured = connector.field_mappings?.[entityType];
+  if (configured && typeof configured === 'object' && Object.keys(configured).length) return configured;
+  return PROVIDERS[providerFor(connector)].defaultMappings[entityType];
+}
+
+const envSuffix = (connector: Connector) => connector.external_crm_name.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+
+const apiToken = (connector: Connector) =>
+  Deno.env.get(`CRM_API_TOKEN_${envSuffix(connector)}`) || Deno.env.get('CRM_API_TOKEN');
+
+const webhookSecret = (connector: Connector) =>
+  Deno.env.get(`CRM_WEBHOOK_SECRET_${envSuffix(connector)}`) || Deno.env.get('CRM_WEBHOOK_SECRET');
+
+/** Whether the connector's credentials are present in the environment. */
+export const connectorConfigured = (connector: Connector) => ({ apiToken: !!apiToken(connector), webhookSecret: !!webhookSecret(connector) });
+
+// ── Connectors ──
+
+const DIRECTIONS = { push: ['push_only', 'bidirectional'], pull: ['pull_only', 'bidirectional'] };
+
+/** Enabled connectors for a direction. Rows created by non-admins are ignored. */
+export async function loadConnectors(supabase: SupabaseClient, direction: 'push' | 'pull'): Promise<Connector[]> {
+  const { data, error } = await supabase
+    .from('crm_integration_settings')
+    .select('*')
+    .eq('sync_enabled', true)
+    .not('api_endpoint', 'is', null)
+    .in('sync_direction', DIRECTIONS[direction])
+    .order('created_at');
+  if (error) throw error;
+  const connectors: Connector[] = [];
+  for (const connector of (data ?? []) as Connector[]) {
+    const { data: isAdmin } = await supabase.rpc('has_role_or_higher', { _user_id: connector.user_id, _minimum_role: 'admin' });
+    if (isAdmin) connectors.push(connector);
+  }
+  return connectors;
+}
+
+interface LogAttempt {
+  connector: Connector;
+  userId: string | null;
+  syncType: 'automatic' | 'manual' | 'webhook';
+  operation: 'create' | 'update' | 'delete';
+  entityType: CrmEntity;
+  entityId: string | null;
+  externalId?: string | null;
+  status: 'success' | 'failed' | 'skipped';
+  error?: string | null;
+  payload?: Fields;
+  startedAt: number;
+}
+
+async function logAttempt(supabase: SupabaseClient, entry: LogAttempt) {
+  const { connector } = entry;
+  const { error } = await supabase.from('crm_sync_log').insert({
+    user_id: entry.userId ?? connector.user_id,
+    sync_type: entry.syncType,
+    operation: entry.operation,
+    entity_type: entry.entityType,
+    entity_id: entry.entityId,
+    external_id: entry.externalId ?? null,
+    status: entry.status,
+    error_message: entry.error ?? null,
+    data_payload: { connector_id: connector.id, connector: connector.external_crm_name, ...(entry.payload ?? {}) },
+    processing_time_ms: Date.now() - entry.startedAt,
+  });
+  if (error) console.error('[CRM] Failed to write sync log:', error);
+}
+
+interface LinkRow {
+  id: string;
+  local_id: string;
+  external_id: string;
+  external_updated_at: string | null;
+}
+
+async function findLink(
+  supabase: SupabaseClient,
+  connectorId: string,
+  entityType: CrmEntity,
+  by: { localId?: string; externalId?: string },
+): Promise<LinkRow | null> {
+  let q = supabase.from('crm_external_links').select('*').eq('connector_id', connectorId).eq('entity_type', entityType);
+  q = by.localId ? q.eq('local_id', by.localId) : q.eq('external_id', by.externalId ?? '');
+  const { data } = await q.maybeSingle();
+  return (data as LinkRow | null) ?? null;
+}
+
+// ── Push ──
+
+export async function loadLocalRecord(supabase: SupabaseClient, entityType: CrmEntity, entityId: string): Promise<Fields | null> {
+  const { data } = await supabase.from(TABLES[entityType]).select('*').eq('id', entityId).maybeSingle();
+  return (data as Fields | null) ?? null;
+}
+
+async function buildFields(supabase: SupabaseClient, connector: Connector, entityType: CrmEntity, record: Fields): Promise<Fields> {
+  const provider = PROVIDERS[providerFor(connector)];
+  const fields: Fields = {};
+  for (const [externalField, column] of Object.entries(mappingFor(connector, entityType))) {
+    if (record[column] !== undefined && record[column] !== null) fields[externalField] = record[column];
+  }
+  const references = provider.references[entityType] ?? {};
+  for (const [column, target] of Object.entries(REFERENCE_COLUMNS[entityType])) {
+    const externalField = references[column];
+    if (!externalField || !record[column]) continue;
+    const link = await findLink(supabase, connector.id, target, { localId: String(record[column]) });
+    if (link) fields[externalField] = link.external_id;
+  }
+  return fields;
+}
+
+async function sendToConnector(connector: Connector, entityType: CrmEntity, externalId: string | undefined, fields: Fields): Promise<string> {
+  const provider = PROVIDERS[providerFor(connector)];
+  const token = apiToken(connector);
+  if (!token) throw new Error(`No API token configured for ${connector.external_crm_name}`);
+
+  const base = (connector.api_endpoint ?? '').replace(/\/+$/, '');
+  const object = provider.objects[entityType];
+  const resp = await fetch(externalId ? provider.updateUrl(base, object, externalId) : provider.createUrl(base, object), {
+    method: externalId ? 'PATCH' : 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify(provider.body(fields)),
+    signal: AbortSignal.timeout(15000),
+  });
+  if (!resp.ok) {
+    const detail = (await resp.text().catch(() => '')).slice(0, 500);
+    throw new Error(`${connector.external_crm_name} returned HTTP ${resp.status}${detail ? `: ${detail}` : ''}`);
+  }
+  if (externalId) return externalId;
+  const body = await resp.json().catch(() => ({}));
+  const createdId = body.id ?? body.Id ?? body.data?.id;
+  if (!createdId) throw new Error(`${connector.external_crm_name} did not return an id for the new ${entityType}`);
+  return String(createdId);
+}
+
+async function pushToConnector(
+  supabase: SupabaseClient,
+  connector: Connector,
+  entityType: CrmEntity,
+  record: Fields,
+  options: { userId: string | null; syncType: 'automatic' | 'manual' },
+): Promise<PushResult> {
+  const startedAt = Date.now();
+  const localId = String(record.id);
+  const link = await findLink(supabase, connector.id, entityType, { localId });
+  const operation = link ? 'update' : 'create';
+  const base = { connector, userId: options.userId, syncType: options.syncType, operation, entityType, entityId: localId, startedAt } as const;
+  try {
+    const fields = await buildFields(supabase, connector, entityType, record);
+    const externalId = await sendToConnector(connector, entityType, link?.external_id, fields);
+    const now = new Date().toISOString();
+    await supabase.from('crm_external_links').upsert(
+      { connector_id: connector.id, entity_type: entityType, local_id: localId, external_id: externalId, last_pushed_at: now },
+      { onConflict: 'connector_id,entity_type,local_id' },
+    );
+    await supabase.from('crm_integration_settings').update({ last_sync_at: now }).eq('id', connector.id);
+    await logAttempt(supabase, { ...base, externalId, status: 'success', payload: { fields: Object.keys(fields) } });
+    return { connectorId: connector.id, connector: connector.external_crm_name, status: 'success', operation, externalId };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`[CRM] Push ${entityType} ${localId} to ${connector.external_crm_name} failed:`, err);
+    await logAttempt(supabase, { ...base, externalId: link?.external_id ?? null, status: 'failed', error: message });
+    return { connectorId: connector.id, connector: connector.external_crm_name, status: 'failed', operation, error: message };
+  }
+}
+
+/**
+ * Push one local record to every push-enabled connector, or to the given
+ * connector only. Failures are logged per connector, not thrown.
+ */
+export async function pushEntity(
+  supabase: SupabaseClient,
+  entityType: CrmEntity,
+  entityId: string,
+  { userId = null, syncType = 'automatic', connectorId = null }: { userId?: string | null; syncType?: 'automatic' | 'manual'; connectorId?: string | null } = {},
+): Promise<{ found: boolean; results: PushResult[] }> {
+  const record = await loadLocalRecord(supabase, entityType, entityId);
+  if (!record) return { found: false, results: [] };
+  const connectors = (await loadConnectors(supabase, 'push')).filter((c) => !connectorId || c.id === connectorId);
+  const results: PushResult[] = [];
+  for (const connector of connectors) {
+    results.push(await pushToConnector(supabase, connector, entityType, record, { userId, syncType }));
+  }
+  return { found: true, results };
+}
+
+// ── Inbound ──
+
+const toHex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map((b) => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Check the X-CRM-Signature header: "sha256=" followed by the hex
+ * HMAC-SHA256 of the raw request body under the connector's webhook secret.
+ */
+export async function verifyWebhookSignature(connector: Connector, rawBody: string, header: string | null): Promise<boolean> {
+  const secret = webhookSecret(connector);
+  if (!secret || !rawBody || !header) return false;
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const expected = `sha256=${toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(rawBody)))}`;
+  if (expected.length !== header.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ header.charCodeAt(i);
+  return diff === 0;
+}
+
+type Outcome = 'applied' | 'skipped' | 'failed';
+
+async function applyChange(supabase: SupabaseClient, connector: Connector, change: InboundChange & { entityType: CrmEntity; externalId: string }): Promise<Outcome> {
+  const startedAt = Date.now();
+  const { entityType, externalId } = change;
+  const base = { connector, userId: null, syncType: 'webhook', operation: 'update', entityType, entityId: null as string | null, externalId, startedAt } as const;
+
+  const link = await findLink(supabase, connector.id, entityType, { externalId });
+  if (!link) {
+    await logAttempt(supabase, { ...base, status: 'skipped', error: 'No linked local record' });
+    return 'skipped';
+  }
+  const linked = { ...base, entityId: link.local_id };
+  if (change.deleted) {
+    await logAttempt(supabase, { ...linked, operation: 'delete', status: 'skipped', error: 'Deletes in the CRM are not applied to the portal' });
+    return 'skipped';
+  }
+
+  const record = await loadLocalRecord(supabase, entityType, link.local_id);
+  if (!record) {
+    await logAttempt(supabase, { ...linked, status: 'skipped', error: 'Local record no longer exists' });
+    return 'skipped';
+  }
+
+  // Timestamp conflict rule: the most recent modification wins
+  const externalTime = change.updatedAt ? new Date(change.updatedAt) : null;
+  if (!externalTime || Number.isNaN(externalTime.getTime())) {
+    await logAttempt(supabase, { ...linked, status: 'failed', error: 'Update has no modification time' });
+    return 'failed';
+  }
+  if (externalTime <= new Date(String(record.updated_at)) || (link.external_updated_at && externalTime <= new Date(link.external_updated_at))) {
+    await logAttempt(supabase, {
+      ...linked,
+      status: 'skipped',
+      error: 'Local record is newer',
+      payload: { external_updated_at: externalTime.toISOString(), local_updated_at: record.updated_at },
+    });
+    return 'skipped';
+  }
+
+  const updates: Fields = {};
+  for (const [externalField, column] of Object.entries(mappingFor(connector, entityType))) {
+    if (externalField in change.fields && WRITABLE_COLUMNS[entityType].includes(column)) updates[column] = change.fields[externalField];
+  }
+  const columns = Object.keys(updates);
+  if (columns.length) {
+    const { error } = await supabase.from(TABLES[entityType]).update(updates).eq('id', link.local_id);
+    if (error) {
+      console.error(`[CRM] Inbound ${entityType} ${externalId} from ${connector.external_crm_name} failed:`, error);
+      await logAttempt(supabase, { ...linked, status: 'failed', error: error.message, payload: { fields: columns } });
+      return 'failed';
+    }
+  }
+  await supabase
+    .from('crm_external_links')
+    .update({ last_pulled_at: new Date().toISOString(), external_updated_at: externalTime.toISOString() })
+    .eq('id', link.id);
+  await logAttempt(supabase, {
+    ...linked,
+    status: columns.length ? 'success' : 'skipped',
+    error: columns.length ? null : 'No mapped fields changed',
+    payload: { fields: columns },
+  });
+  return columns.length ? 'applied' : 'skipped';
+}
+
+/** Apply a verified webhook body from a connector. Returns counts by outcome. */
+export async function applyInbound(supabase: SupabaseClient, connector: Connector, body: unknown) {
+  const provider = PROVIDERS[providerFor(connector)];
+  const objects = Object.fromEntries(Object.entries(provider.objects).map(([entity, object]) => [object, entity as CrmEntity]));
+  const changes = provider.parseWebhook(body, objects);
+  const summary = { received: changes.length, applied: 0, skipped: 0, failed: 0 };
+  for (const change of changes) {
+    const { entityType, externalId } = change;
+    if (!entityType || !CRM_ENTITIES.includes(entityType) || !externalId) {
+      summary.skipped++;
+      continue;
+    }
+    summary[await applyChange(supabase, connector, { ...change, entityType, externalId })]++;
+  }
+  if (summary.applied) {
+    await supabase.from('crm_integration_settings').update({ last_sync_at: new Date().toISOString() }).eq('id', connector.id);
+  }
+  return summary;
+}
@@ -0,0 +1,124 @@
+// Preference-aware notification dispatch for Supabase Edge Functions.
+// Looks up the recipient's get_user_notification_preferences once and sends
+// the event on each channel they have enabled: email and SMS from the
+// template store, in-app through create_user_notification.
+// Mirrors ibm-functions/src/notification-dispatcher.js.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { deliverEmail } from "./email.ts";
+import { deliverSms } from "./sms.ts";
+import { renderNotificationTemplate } from "./templates.ts";
+
+export type NotificationChannel = 'email' | 'sms' | 'in_app';
+
+export interface InAppContent {
+  title: string;
+  message: string;
+  type?: 'info' | 'success' | 'warning' | 'error';
+  actionUrl?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface DispatchRequest {
+  userId: string;
+  // Preference key and template key, e.g. application_approved
+  event: string;
+  data: Record<string, unknown>;
+  // Defaults to every channel
+  channels?: NotificationChannel[];
+  email?: string | null;
+  applicationId?: string | null;
+  triggeredBy?: string | null;
+  inApp?: InAppContent;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ChannelResult {
+  status: 'sent' | 'failed' | 'skipped' | 'deferred' | 'suppressed';
+  reason?: string;
+  deliveryId?: string | null;
+}
+
+export type DispatchResult = Partial<Record<NotificationChannel, ChannelResult>>;
+
+type ChannelPreferences = Record<NotificationChannel, boolean>;
+
+// Events without a stored preference use the same defaults as new accounts
+const DEFAULT_CHANNELS: ChannelPreferences = { email: true, in_app: true, sms: false };
+
+export async function dispatchNotification(supabase: SupabaseClient, request: DispatchRequest): Promise<DispatchResult> {
+  const { data: preferences, error } = await supabase.rpc('get_user_notification_preferences', { _user_id: request.userId });
+  if (error) console.error('Failed to load notification preferences:', error);
+  const enabled: ChannelPreferences = { ...DEFAULT_CHANNELS, ...(preferences?.[request.event] ?? {}) };
+
+  const results: DispatchResult = {};
+  for (const channel of request.channels ?? ['email', 'sms', 'in_app'] as NotificationChannel[]) {
+    if (!enabled[channel]) {
+      results[channel] = { status: 'skipped', reason: 'preference' };
+      continue;
+    }
+    try {
+      results[channel] = channel === 'email'
+        ? await sendEmailChannel(supabase, request)
+        : channel === 'sms'
+          ? await sendSmsChannel(supabase, request)
+          : await sendInAppChannel(supabase, request);
+    } catch (err) {
+      console.error(`Failed to dispatch ${request.event} on ${channel}:`, err);
+      results[channel] = { status: 'failed', reason: err instanceof Error ? err.message : 'Dispatch failed' };
+    }
+  }
+  return results;
+}
+
+async function sendEmailChannel(supabase: SupabaseClient, request: DispatchRequest): Promise<ChannelResult> {
+  if (!request.email) return { status: 'skipped', reason: 'no_address' };
+  const result = await renderNotificationTemplate(supabase, request.event, 'email', request.data);
+  if (result.status !== 'rendered') return { status: 'skipped', reason: `template_${result.status}` };
+
+  const delivery = await deliverEmail(supabase, {
+    to: request.email,
+    subject: result.rendered.subject,
+    html: result.rendered.html,
+    text: result.rendered.text,
+  }, {
+    template: request.event,
+    userId: request.userId,
+    applicationId: request.applicationId,
+    triggeredBy: request.triggeredBy,
+    metadata: { ...request.metadata, template_version: result.rendered.version },
+  });
+  return { status: delivery.status === 'sent' ? 'sent' : 'failed', reason: delivery.error ?? delivery.bounceReason, deliveryId: delivery.id };
+}
+
+async function sendSmsChannel(supabase: SupabaseClient, request: DispatchRequest): Promise<ChannelResult> {
+  const { data: settings } = await supabase.from('notification_preferences').select('sms_phone').eq('user_id', request.userId).maybeSingle();
+  if (!settings?.sms_phone) return { status: 'skipped', reason: 'no_phone' };
+  const result = await renderNotificationTemplate(supabase, request.event, 'sms', request.data);
+  if (result.status !== 'rendered') return { status: 'skipped', reason: `template_${result.status}` };
+
+  const delivery = await deliverSms(supabase, { to: settings.sms_phone, body: result.rendered.text }, {
+    template: request.event,
+    userId: request.userId,
+    applicationId: request.applicationId,
+    triggeredBy: request.triggeredBy,
+    metadata: { ...request.metadata, template_version: result.rendered.version },
+  });
+  return { status: delivery.status, reason: delivery.reason ?? delivery.error, deliveryId: delivery.id };
+}
+
+async function sendInAppChannel(supabase: SupabaseClient, request: DispatchRequest): Promise<ChannelResult> {
+  if (!request.inApp) return { status: 'skipped', reason: 'no_content' };
+  const { title, message, type = 'info', actionUrl, metadata } = request.inApp;
+  const { data: created, error } = await supabase.rpc('create_user_notification', {
+    _user_id: request.userId,
+    _event: request.event,
+    _title: title,
+    _message: message,
+    _type: type,
+    _action_url: actionUrl ?? null,
+    _metadata: metadata ?? {},
+  });
+  if (error) throw error;
+  return created ? { status: 'sent' } : { status: 'skipped', reason: 'preference' };
+}
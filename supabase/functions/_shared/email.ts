@@ -0,0 +1,202 @@
+// Shared email delivery for Supabase Edge Functions.
+// A transport is chosen from the environment: EMAIL_TRANSPORT=smtp|sendgrid|outbox,
+// or inferred from SENDGRID_API_KEY / SMTP_HOST, falling back to the local outbox.
+// Every attempt is recorded in public.email_deliveries.
+// Mirrors ibm-functions/src/email-transport.js.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import nodemailer from "npm:nodemailer@6.9.16";
+
+export type EmailProvider = 'smtp' | 'sendgrid' | 'outbox';
+export type EmailSendStatus = 'sent' | 'bounced' | 'failed';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailSendResult {
+  status: EmailSendStatus;
+  providerMessageId: string | null;
+  error?: string;
+  bounceType?: 'hard' | 'blocked';
+  bounceReason?: string;
+}
+
+export interface EmailTransport {
+  readonly provider: EmailProvider;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export interface EmailDeliveryContext {
+  template: string;
+  userId?: string | null;
+  applicationId?: string | null;
+  triggeredBy?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface EmailDelivery extends EmailSendResult {
+  id: string | null;
+  provider: EmailProvider;
+}
+
+const DEFAULT_FROM = 'Halo Business Finance <notifications@halobusinessfinance.com>';
+
+function parseAddress(value: string): { name?: string; email: string } {
+  const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match ? { name: match[1] || undefined, email: match[2] } : { email: value.trim() };
+}
+
+const fromAddress = () => Deno.env.get('EMAIL_FROM') || DEFAULT_FROM;
+
+class SmtpTransport implements EmailTransport {
+  readonly provider = 'smtp';
+  private transporter: ReturnType<typeof nodemailer.createTransport>;
+
+  constructor(host: string) {
+    // Supabase blocks outbound port 587, so implicit TLS on 465 is the default here
+    const port = Number(Deno.env.get('SMTP_PORT') || 465);
+    const user = Deno.env.get('SMTP_USER');
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: port === 465,
+      auth: user ? { user, pass: Deno.env.get('SMTP_PASSWORD') } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const info = await this.transporter.sendMail({ from: fromAddress(), ...message });
+      if (info.rejected?.length) {
+        return { status: 'bounced', providerMessageId: info.messageId ?? null, bounceType: 'hard', bounceReason: info.response };
+      }
+      return { status: 'sent', providerMessageId: info.messageId ?? null };
+    } catch (error) {
+      const smtpError = error as { responseCode?: number; response?: string; message?: string };
+      // 5xx replies are permanent rejections of the recipient or message
+      if (smtpError.responseCode && smtpError.responseCode >= 500) {
+        return { status: 'bounced', providerMessageId: null, bounceType: 'hard', bounceReason: smtpError.response ?? smtpError.message };
+      }
+      return { status: 'failed', providerMessageId: null, error: smtpError.message ?? 'SMTP delivery failed' };
+    }
+  }
+}
+
+class SendGridTransport implements EmailTransport {
+  readonly provider = 'sendgrid';
+
+  constructor(private apiKey: string, private apiUrl: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: parseAddress(fromAddress()),
+        subject: message.subject,
+        content: [
+          { type: 'text/plain', value: message.text },
+          { type: 'text/html', value: message.html },
+        ],
+      }),
+    });
+
+    if (response.ok) {
+      return { status: 'sent', providerMessageId: response.headers.get('X-Message-Id') };
+    }
+
+    const body = await response.json().catch(() => null);
+    const reason = body?.errors?.map((e: { message?: string }) => e.message).filter(Boolean).join('; ')
+      || `HTTP ${response.status}`;
+    return { status: 'failed', providerMessageId: null, error: reason };
+  }
+}
+
+// Writes each message as JSON for local testing; nothing leaves the machine
+class OutboxTransport implements EmailTransport {
+  readonly provider = 'outbox';
+
+  constructor(private dir: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const id = crypto.randomUUID();
+    try {
+      await Deno.mkdir(this.dir, { recursive: true });
+      await Deno.writeTextFile(
+        `${this.dir}/${id}.json`,
+        JSON.stringify({ id, from: fromAddress(), ...message, createdAt: new Date().toISOString() }, null, 2),
+      );
+      return { status: 'sent', providerMessageId: id };
+    } catch (error) {
+      return { status: 'failed', providerMessageId: null, error: error instanceof Error ? error.message : 'Outbox write failed' };
+    }
+  }
+}
+
+export function getEmailTransport(): EmailTransport {
+  const sendGridKey = Deno.env.get('SENDGRID_API_KEY');
+  const smtpHost = Deno.env.get('SMTP_HOST');
+  const configured = Deno.env.get('EMAIL_TRANSPORT') || (sendGridKey ? 'sendgrid' : smtpHost ? 'smtp' : 'outbox');
+
+  if (configured === 'sendgrid' && sendGridKey) {
+    return new SendGridTransport(sendGridKey, Deno.env.get('SENDGRID_API_URL') || 'https://api.sendgrid.com/v3/mail/send');
+  }
+  if (configured === 'smtp' && smtpHost) {
+    return new SmtpTransport(smtpHost);
+  }
+  if (configured !== 'outbox') {
+    console.warn(`Email transport "${configured}" is not fully configured; writing to the outbox instead`);
+  }
+  return new OutboxTransport(Deno.env.get('EMAIL_OUTBOX_DIR') || '/tmp/email-outbox');
+}
+
+/** Send through the configured transport and record the outcome. Never throws on delivery failure. */
+export async function deliverEmail(
+  supabase: SupabaseClient,
+  message: EmailMessage,
+  context: EmailDeliveryContext,
+): Promise<EmailDelivery> {
+  const transport = getEmailTransport();
+  let result: EmailSendResult;
+  try {
+    result = await transport.send(message);
+  } catch (error) {
+    result = { status: 'failed', providerMessageId: null, error: error instanceof Error ? error.message : 'Delivery failed' };
+  }
+
+  if (result.status !== 'sent') {
+    console.error(`Email to ${message.to} ${result.status}:`, result.error ?? result.bounceReason);
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('email_deliveries')
+    .insert({
+      user_id: context.userId ?? null,
+      recipient: message.to,
+      template: context.template,
+      subject: message.subject,
+      provider: transport.provider,
+      status: result.status,
+      provider_message_id: result.providerMessageId,
+      error_message: result.error ?? null,
+      bounce_type: result.bounceType ?? null,
+      bounce_reason: result.bounceReason ?? null,
+      loan_application_id: context.applicationId ?? null,
+      triggered_by: context.triggeredBy ?? null,
+      metadata: context.metadata ?? {},
+      sent_at: result.status === 'sent' ? now : null,
+      bounced_at: result.status === 'bounced' ? now : null,
+    })
+    .select('id')
+    .single();
+
+  if (error) console.error('Failed to record email delivery:', error);
+
+  return { id: data?.id ?? null, provider: transport.provider, ...result };
+}
@@ -0,0 +1,55 @@
+// Durable notification outbox for Supabase Edge Functions.
+// Queues notifications for the outbox worker in ibm-functions
+// (POST /api/notification-outbox/drain), which delivers them with
+// retries and dead-letters rows that keep failing.
+// Mirrors the enqueue half of ibm-functions/src/notification-outbox.js.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+
+export type OutboxEvent = 'application_status_change' | 'loan_funded' | 'external_webhook' | 'adverse_action_notice';
+
+export interface EnqueueRequest {
+  event: OutboxEvent;
+  payload: Record<string, unknown>;
+  // Reusing a key returns the existing row instead of queueing a duplicate
+  idempotencyKey: string;
+  applicationId?: string | null;
+  createdBy?: string | null;
+}
+
+export interface WebhookEnqueueRequest {
+  eventType: string;
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+  idempotencyKey: string;
+  applicationId?: string | null;
+  createdBy?: string | null;
+}
+
+export async function enqueueNotification(supabase: SupabaseClient, request: EnqueueRequest): Promise<string> {
+  const { data, error } = await supabase.rpc('enqueue_notification', {
+    _event: request.event,
+    _payload: request.payload,
+    _idempotency_key: request.idempotencyKey,
+    _loan_application_id: request.applicationId ?? null,
+    _created_by: request.createdBy ?? null,
+  });
+  if (error) throw error;
+  return data as string;
+}
+
+/** Queue one row per active webhook subscribed to the event type. Returns the number queued. */
+export async function enqueueWebhookNotifications(supabase: SupabaseClient, request: WebhookEnqueueRequest): Promise<number> {
+  const { data, error } = await supabase.rpc('enqueue_webhook_notifications', {
+    _event_type: request.eventType,
+    _title: request.title,
+    _message: request.message,
+    _data: request.data ?? {},
+    _idempotency_key: request.idempotencyKey,
+    _loan_application_id: request.applicationId ?? null,
+    _created_by: request.createdBy ?? null,
+  });
+  if (error) throw error;
+  return data as number;
+}
@@ -0,0 +1,200 @@
+// Shared SMS delivery for Supabase Edge Functions.
+// A transport is chosen from the environment: SMS_TRANSPORT=twilio|outbox,
+// or inferred from TWILIO_ACCOUNT_SID, falling back to the local outbox.
+// TWILIO_API_URL can point the Twilio transport at a local stand-in.
+// Every text passes check_sms_eligibility (consent, daily cap, quiet hours)
+// and is recorded in public.sms_deliveries.
+// Mirrors ibm-functions/src/sms-transport.js.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+
+export type SmsProvider = 'twilio' | 'outbox';
+export type SmsDeliveryStatus = 'sent' | 'failed' | 'deferred' | 'suppressed';
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsSendResult {
+  status: 'sent' | 'failed';
+  providerMessageId: string | null;
+  error?: string;
+}
+
+export interface SmsTransport {
+  readonly provider: SmsProvider;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+}
+
+export interface SmsDeliveryContext {
+  template: string;
+  userId?: string | null;
+  applicationId?: string | null;
+  triggeredBy?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SmsDelivery {
+  id: string | null;
+  provider: SmsProvider;
+  status: SmsDeliveryStatus;
+  providerMessageId: string | null;
+  reason?: string;
+  sendAfter?: string;
+  error?: string;
+}
+
+interface SmsEligibility {
+  allowed: boolean;
+  reason?: 'not_opted_in' | 'opted_out' | 'rate_limited' | 'quiet_hours';
+  send_after?: string;
+}
+
+export const SMS_HELP_REPLY = 'Halo Business Finance: account alerts. Msg & data rates may apply. Reply STOP to unsubscribe. Help: support@halobusinessfinance.com';
+export const SMS_STOP_REPLY = 'Halo Business Finance: You are unsubscribed and will receive no further texts. Reply START to resubscribe.';
+export const SMS_START_REPLY = 'Halo Business Finance: You are resubscribed to account alerts. Reply STOP to unsubscribe.';
+
+/** Normalize to E.164, assuming US numbers when no country code is given. Returns null if invalid. */
+export function normalizePhone(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  let e164: string;
+  if (trimmed.startsWith('+')) e164 = `+${digits}`;
+  else if (digits.length === 10) e164 = `+1${digits}`;
+  else if (digits.length === 11 && digits.startsWith('1')) e164 = `+${digits}`;
+  else return null;
+  return /^\+[1-9]\d{7,14}$/.test(e164) ? e164 : null;
+}
+
+class TwilioTransport implements SmsTransport {
+  readonly provider = 'twilio';
+
+  constructor(private accountSid: string, private authToken: string, private apiUrl: string) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const form = new URLSearchParams({ To: message.to, Body: message.body });
+    const messagingServiceSid = Deno.env.get('TWILIO_MESSAGING_SERVICE_SID');
+    if (messagingServiceSid) form.set('MessagingServiceSid', messagingServiceSid);
+    else form.set('From', Deno.env.get('TWILIO_FROM_NUMBER') ?? '');
+    const statusCallback = Deno.env.get('SMS_STATUS_CALLBACK_URL');
+    if (statusCallback) form.set('StatusCallback', statusCallback);
+
+    const response = await fetch(`${this.apiUrl}/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: form,
+    });
+
+    const body = await response.json().catch(() => null);
+    if (response.ok) return { status: 'sent', providerMessageId: body?.sid ?? null };
+    return { status: 'failed', providerMessageId: null, error: body?.message || `HTTP ${response.status}` };
+  }
+}
+
+// Writes each message as JSON for local testing; nothing leaves the machine
+class OutboxTransport implements SmsTransport {
+  readonly provider = 'outbox';
+
+  constructor(private dir: string) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const id = crypto.randomUUID();
+    try {
+      await Deno.mkdir(this.dir, { recursive: true });
+      await Deno.writeTextFile(
+        `${this.dir}/${id}.json`,
+        JSON.stringify({ id, ...message, createdAt: new Date().toISOString() }, null, 2),
+      );
+      return { status: 'sent', providerMessageId: id };
+    } catch (error) {
+      return { status: 'failed', providerMessageId: null, error: error instanceof Error ? error.message : 'Outbox write failed' };
+    }
+  }
+}
+
+export function getSmsTransport(): SmsTransport {
+  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const configured = Deno.env.get('SMS_TRANSPORT') || (accountSid ? 'twilio' : 'outbox');
+
+  if (configured === 'twilio' && accountSid && authToken) {
+    return new TwilioTransport(accountSid, authToken, Deno.env.get('TWILIO_API_URL') || 'https://api.twilio.com');
+  }
+  if (configured !== 'outbox') {
+    console.warn(`SMS transport "${configured}" is not fully configured; writing to the outbox instead`);
+  }
+  return new OutboxTransport(Deno.env.get('SMS_OUTBOX_DIR') || '/tmp/sms-outbox');
+}
+
+/**
+ * Send a text if the recipient has opted in, is under the daily cap and is
+ * outside quiet hours; otherwise record it as deferred or suppressed.
+ * Never throws on delivery failure.
+ */
+export async function deliverSms(
+  supabase: SupabaseClient,
+  message: SmsMessage,
+  context: SmsDeliveryContext,
+): Promise<SmsDelivery> {
+  const transport = getSmsTransport();
+  const record = async (fields: Record<string, unknown>): Promise<string | null> => {
+    const { data, error } = await supabase
+      .from('sms_deliveries')
+      .insert({
+        user_id: context.userId ?? null,
+        recipient: message.to,
+        template: context.template,
+        body: message.body,
+        provider: transport.provider,
+        loan_application_id: context.applicationId ?? null,
+        triggered_by: context.triggeredBy ?? null,
+        metadata: context.metadata ?? {},
+        ...fields,
+      })
+      .select('id')
+      .single();
+    if (error) console.error('Failed to record SMS delivery:', error);
+    return data?.id ?? null;
+  };
+
+  const { data: eligibility, error: eligibilityError } = await supabase.rpc('check_sms_eligibility', {
+    _user_id: context.userId ?? null,
+    _phone: message.to,
+    _daily_limit: Number(Deno.env.get('SMS_DAILY_LIMIT') || 5),
+  });
+  if (eligibilityError) {
+    console.error('SMS eligibility check failed:', eligibilityError);
+    return { id: null, provider: transport.provider, status: 'failed', providerMessageId: null, error: 'Eligibility check failed' };
+  }
+
+  const check = eligibility as SmsEligibility;
+  if (!check.allowed && check.reason === 'quiet_hours') {
+    const id = await record({ status: 'deferred', send_after: check.send_after });
+    return { id, provider: transport.provider, status: 'deferred', providerMessageId: null, reason: check.reason, sendAfter: check.send_after };
+  }
+  if (!check.allowed) {
+    const id = await record({ status: 'suppressed', suppression_reason: check.reason });
+    return { id, provider: transport.provider, status: 'suppressed', providerMessageId: null, reason: check.reason };
+  }
+
+  let result: SmsSendResult;
+  try {
+    result = await transport.send(message);
+  } catch (error) {
+    result = { status: 'failed', providerMessageId: null, error: error instanceof Error ? error.message : 'Delivery failed' };
+  }
+  if (result.status !== 'sent') console.error(`SMS to ${message.to} failed:`, result.error);
+
+  const id = await record({
+    status: result.status,
+    provider_message_id: result.providerMessageId,
+    error_message: result.error ?? null,
+    sent_at: result.status === 'sent' ? new Date().toISOString() : null,
+  });
+  return { id, provider: transport.provider, ...result };
+}
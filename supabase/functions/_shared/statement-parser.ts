@@ -0,0 +1,641 @@
+// Bank statement parsing for borrowers who upload statements instead of
+// linking accounts.
+//
+// Reads CSV exports, OFX/QFX downloads and text-based PDF statements into the
+// normalized transaction model bank aggregation uses (money in as positive
+// amounts), and checks the result for signs of tampering: balances that do not
+// reconcile, running balances that break, and PDFs re-saved by editing tools.
+// Scanned PDFs have no text layer and are rejected rather than guessed at.
+// Mirrors ibm-functions/src/statement-parser.js.
+
+import { getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+
+export type StatementFormat = 'csv' | 'ofx' | 'pdf';
+
+export interface StatementTransaction {
+  posted_on: string;
+  /** Money in is positive, money out negative */
+  amount: number;
+  description: string;
+  /** Running balance printed after the transaction, when the statement shows one */
+  balance: number | null;
+}
+
+export interface DocumentInfo {
+  producer: string | null;
+  creator: string | null;
+  created_at: string | null;
+  modified_at: string | null;
+  page_count: number;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  institution_name: string | null;
+  account_name: string | null;
+  /** Last four digits of the account number */
+  account_mask: string | null;
+  is_business: boolean;
+  currency: string;
+  period_start: string | null;
+  period_end: string | null;
+  opening_balance: number | null;
+  closing_balance: number | null;
+  transactions: StatementTransaction[];
+  /** PDF metadata; null for CSV and OFX */
+  document_info: DocumentInfo | null;
+}
+
+export interface IntegrityFlag {
+  code: string;
+  severity: 'high' | 'medium' | 'info';
+  message: string;
+  details: Record<string, unknown>;
+}
+
+/** Another import of the same account, as stored; NUMERIC columns may arrive as strings */
+export interface NeighbouringStatement {
+  period_start: string | null;
+  period_end: string | null;
+  opening_balance: number | string | null;
+  closing_balance: number | string | null;
+}
+
+type StatementSummary = Pick<
+  ParsedStatement,
+  'period_start' | 'period_end' | 'opening_balance' | 'closing_balance' | 'account_mask' | 'account_name'
+>;
+
+const MAX_PDF_PAGES = 60;
+const MAX_TRANSACTIONS = 10000;
+
+// Cents; anything smaller is rounding in the source
+const TOLERANCE = 0.01;
+
+// Producers seen on edited statements; banks generate theirs from reporting systems
+const EDITING_TOOLS = /photoshop|illustrator|acrobat pro|pdfescape|sejda|ilovepdf|smallpdf|pdf-?xchange|foxit phantom|nitro|inkscape|canva|microsoft.{0,10}word|libreoffice|openoffice|google docs/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const MONEY = String.raw`\(?[-+]?\$?\s?\d{1,3}(?:,?\d{3})*\.\d{2}\)?(?:\s?(?:CR|DR)\b|-)?`;
+const LONG_DATE = String.raw`(?:\d{4}-\d{2}-\d{2}|\d{1,2}[\/.-]\d{1,2}[\/.-]\d{2,4}|[A-Za-z]{3,9}\.?\s+\d{1,2},?\s+\d{4}|\d{1,2}\s+[A-Za-z]{3,9}\.?,?\s+\d{4})`;
+const SHORT_DATE = String.raw`(?:\d{1,2}[\/-]\d{1,2}(?:[\/-]\d{2,4})?|[A-Za-z]{3}\.?\s+\d{1,2}|\d{1,2}\s+[A-Za-z]{3})`;
+
+// The amount may follow an "as of" date
+const BALANCE_AMOUNT = String.raw`\s+balance(?:\s+(?:on|as of)\s+${LONG_DATE})?[^\d($+-]*(?:${SHORT_DATE}[^\d($+-]*)?(${MONEY})`;
+const OPENING_BALANCE = new RegExp(String.raw`(?:beginning|opening|starting|previous|prior)${BALANCE_AMOUNT}`, 'i');
+const CLOSING_BALANCE = new RegExp(String.raw`(?:ending|closing|new)${BALANCE_AMOUNT}`, 'i');
+const PERIOD = new RegExp(String.raw`(${LONG_DATE})\s*(?:-|–|—|to|through|thru)\s*(${LONG_DATE})`, 'i');
+const ACCOUNT_NUMBER = /account\s*(?:number|no\.?|#)\s*:?\s*[xX*•\d -]*?(\d{4})\b/i;
+const ACCOUNT_NAME = /\b((?:business|commercial|small business|personal|premier|analysis|interest)\s+)?(checking|savings|money market)\b/i;
+const INSTITUTION = /\b(bank|credit union|bancorp|banc|savings|federal|financial|trust)\b|\bN\.A\.?/i;
+const BUSINESS = /\b(business|commercial|llc|l\.l\.c\.|inc\.?|corp\.?|corporation|ltd)\b/i;
+
+const TRANSACTION_LINE = new RegExp(String.raw`^(${SHORT_DATE})\s+(.+?)\s+(${MONEY})(?:\s+(${MONEY}))?$`);
+const CREDIT_SECTION = /^(deposits|credits|additions|other credits|electronic (deposits|credits)|deposits (and|&) (other )?(credits|additions))\b/i;
+const DEBIT_SECTION = /^(withdrawals|debits|subtractions|checks( paid)?|payments|fees|service (fees|charges)|card (purchases|transactions)|atm|electronic (withdrawals|payments|debits)|other (debits|withdrawals))\b/i;
+// Daily balance tables list a date and a balance, which would otherwise read as transactions
+const BALANCE_SECTION = /^(daily (ending )?balance|balance summary|ending daily balance)/i;
+const SUMMARY_LINE = /\b(total (deposits|withdrawals|credits|debits|additions|subtractions|checks|fees|for)|subtotal|balance (forward|brought)|(beginning|ending|opening|closing) balance)\b/i;
+const CREDIT_HINT = /deposit|credit|transfer from|payment received|refund|interest paid|reversal/i;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (!(month >= 1 && month <= 12 && day >= 1 && day <= 31)) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+const fullYear = (year: number) => (year < 100 ? 2000 + year : year);
+
+/**
+ * A statement date as YYYY-MM-DD. US month-first order for numeric dates; dates
+ * without a year take the year from the statement period (see yearFor).
+ */
+export function parseStatementDate(value: string, yearFor?: (month: number) => number): string | null {
+  const text = value.trim().replace(/\s+/g, ' ');
+  let m = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return isoDate(+m[1], +m[2], +m[3]);
+  m = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (m) return isoDate(+m[1], +m[2], +m[3]);
+  m = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (m) return isoDate(fullYear(+m[3]), +m[1], +m[2]);
+  m = text.match(/^(\d{1,2})[/-](\d{1,2})$/);
+  if (m && yearFor) return isoDate(yearFor(+m[1]), +m[1], +m[2]);
+  m = text.match(/^([A-Za-z]{3,9})\.? (\d{1,2}),? ?(\d{4})?$/);
+  if (m && monthIndex(m[1]) > 0) {
+    const month = monthIndex(m[1]);
+    const year = m[3] ? +m[3] : yearFor?.(month);
+    return year ? isoDate(year, month, +m[2]) : null;
+  }
+  m = text.match(/^(\d{1,2}) ([A-Za-z]{3,9})\.?,? ?(\d{4})?$/);
+  if (m && monthIndex(m[2]) > 0) {
+    const month = monthIndex(m[2]);
+    const year = m[3] ? +m[3] : yearFor?.(month);
+    return year ? isoDate(year, month, +m[1]) : null;
+  }
+  return null;
+}
+
+/**
+ * A money amount, or null when the text is not one. Parentheses, a leading or
+ * trailing minus and a DR suffix mean a negative amount.
+ */
+export function parseMoney(value: string | null | undefined): number | null {
+  let text = String(value ?? '').trim();
+  if (!text) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/(\s?DR|-)$/i.test(text)) {
+    negative = true;
+    text = text.replace(/(\s?DR|-)$/i, '');
+  }
+  text = text.replace(/\s?CR$/i, '').replace(/[$,\s]/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  const amount = Number(text);
+  return negative ? -amount : amount;
+}
+
+/** Which parser reads a file, from its leading bytes and then its extension. */
+export function detectStatementFormat(fileName: string, bytes: Uint8Array): StatementFormat | null {
+  const head = new TextDecoder().decode(bytes.subarray(0, 1024));
+  if (head.startsWith('%PDF')) return 'pdf';
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+  if (/\.(ofx|qfx)$/i.test(fileName)) return 'ofx';
+  if (/\.(csv|txt)$/i.test(fileName)) return 'csv';
+  return null;
+}
+
+// Statement-level details written in free text: CSV preambles and PDF pages
+function readSummary(text: string): StatementSummary {
+  const period = text.match(PERIOD);
+  const periodStart = period ? parseStatementDate(period[1]) : null;
+  const periodEnd = period ? parseStatementDate(period[2]) : null;
+  const opening = text.match(OPENING_BALANCE);
+  const closing = text.match(CLOSING_BALANCE);
+  const accountName = text.match(ACCOUNT_NAME);
+  return {
+    period_start: periodStart && periodEnd && periodStart <= periodEnd ? periodStart : null,
+    period_end: periodStart && periodEnd && periodStart <= periodEnd ? periodEnd : null,
+    opening_balance: opening ? parseMoney(opening[1]) : null,
+    closing_balance: closing ? parseMoney(closing[1]) : null,
+    account_mask: text.match(ACCOUNT_NUMBER)?.[1] ?? null,
+    account_name: accountName ? accountName[0].replace(/\s+/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase()) : null,
+  };
+}
+
+// Statements are usually newest-last; exports are often newest-first
+function chronological(transactions: StatementTransaction[]) {
+  if (transactions.length > 1 && transactions[0].posted_on > transactions[transactions.length - 1].posted_on) {
+    return [...transactions].reverse();
+  }
+  return transactions;
+}
+
+// Missing balances are worked out from the transactions' running balances
+function completeStatement(statement: ParsedStatement): ParsedStatement {
+  const transactions = chronological(statement.transactions);
+  if (transactions.length === 0) throw new Error('No transactions were found in this statement');
+  if (transactions.length > MAX_TRANSACTIONS) throw new Error('This statement has too many transactions to process');
+
+  const dates = transactions.map((t) => t.posted_on).sort();
+  const first = transactions[0];
+  const last = transactions[transactions.length - 1];
+  return {
+    ...statement,
+    transactions,
+    period_start: statement.period_start ?? dates[0],
+    period_end: statement.period_end ?? dates[dates.length - 1],
+    opening_balance: statement.opening_balance ?? (first.balance !== null ? round2(first.balance - first.amount) : null),
+    closing_balance: statement.closing_balance ?? last.balance,
+  };
+}
+
+// ── CSV ──
+
+/** Rows of a CSV export, the delimiter guessed from the first line; blank rows dropped. */
+export function splitCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+/** A CSV export: a header row naming a date column and either an amount or debit/credit columns. */
+export function parseCsvStatement(text: string): ParsedStatement {
+  const rows = splitCsv(text);
+  const headerIndex = rows.slice(0, 40).findIndex((r) => {
+    const header = r.map((c) => c.trim().toLowerCase());
+    return header.some((h) => h.includes('date')) && header.some((h) => /amount|debit|credit|withdrawal|deposit/.test(h));
+  });
+  if (headerIndex < 0) throw new Error('No header row with a date and an amount column was found');
+
+  const header = rows[headerIndex].map((c) => c.trim().toLowerCase());
+  const column = (pattern: RegExp, exclude?: RegExp) => header.findIndex((h) => pattern.test(h) && !exclude?.test(h));
+  const postedColumn = column(/post(ed|ing)? date/);
+  const dateColumn = postedColumn >= 0 ? postedColumn : column(/date/);
+  const descriptionColumn = column(/description|memo|payee|details|narrative|^name$|merchant/);
+  const amountColumn = column(/amount/, /balance|debit|credit|withdrawal|deposit/);
+  const debitColumn = column(/debit|withdrawal|money out|paid out/, /credit/);
+  const creditColumn = column(/credit|deposit|money in|paid in/, /debit/);
+  const balanceColumn = column(/balance/);
+  const typeColumn = column(/^(type|transaction type|dr\/cr|cr\/dr|debit\/credit)$/);
+  if (amountColumn < 0 && debitColumn < 0 && creditColumn < 0) {
+    throw new Error('No amount column was found');
+  }
+
+  const transactions: StatementTransaction[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const postedOn = parseStatementDate(row[dateColumn] ?? '');
+    if (!postedOn) continue;
+
+    let amount: number | null = null;
+    if (amountColumn >= 0 && (row[amountColumn] ?? '').trim()) {
+      amount = parseMoney(row[amountColumn]);
+      const type = (row[typeColumn] ?? '').trim().toLowerCase();
+      if (amount !== null && amount > 0 && /^(debit|dr|withdrawal|d)$/.test(type)) amount = -amount;
+    } else {
+      const debit = debitColumn >= 0 ? parseMoney(row[debitColumn]) : null;
+      const credit = creditColumn >= 0 ? parseMoney(row[creditColumn]) : null;
+      if (debit !== null || credit !== null) amount = Math.abs(credit ?? 0) - Math.abs(debit ?? 0);
+    }
+    if (amount === null) continue;
+
+    transactions.push({
+      posted_on: postedOn,
+      amount: round2(amount),
+      description: (descriptionColumn >= 0 ? row[descriptionColumn] : '').trim().replace(/\s+/g, ' ') || 'Transaction',
+      balance: balanceColumn >= 0 ? parseMoney(row[balanceColumn]) : null,
+    });
+  }
+
+  const preamble = rows.slice(0, headerIndex).map((r) => r.join(' ').replace(/\s+/g, ' ').trim()).join('\n');
+  const summary = readSummary(preamble);
+  return completeStatement({
+    format: 'csv',
+    institution_name: preamble.split('\n').find((l) => INSTITUTION.test(l) && l.length <= 60) ?? null,
+    is_business: BUSINESS.test(preamble),
+    currency: 'USD',
+    ...summary,
+    transactions,
+    document_info: null,
+  });
+}
+
+// ── OFX / QFX ──
+
+// SGML OFX leaves elements unclosed, so values run to the next tag or line end
+const ofxValue = (block: string, tag: string) => block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1]?.trim() || null;
+
+/** An OFX or Quicken (QFX) download, in either the SGML or the XML dialect. */
+export function parseOfxStatement(text: string): ParsedStatement {
+  if (!/<STMTTRN>/i.test(text)) throw new Error('No transactions were found in this OFX file');
+
+  const transactions: StatementTransaction[] = text.split(/<STMTTRN>/i).slice(1).flatMap((part) => {
+    const block = part.split(/<\/STMTTRN>/i)[0];
+    const postedOn = parseStatementDate(ofxValue(block, 'DTPOSTED') ?? '');
+    const amount = parseMoney(ofxValue(block, 'TRNAMT'));
+    if (!postedOn || amount === null) return [];
+    const name = ofxValue(block, 'NAME');
+    const memo = ofxValue(block, 'MEMO');
+    return [{
+      posted_on: postedOn,
+      amount,
+      description: [name, memo && memo !== name ? memo : null].filter(Boolean).join(' ') || 'Transaction',
+      balance: null,
+    }];
+  });
+
+  const ledger = text.split(/<LEDGERBAL>/i)[1] ?? '';
+  const accountType = ofxValue(text, 'ACCTTYPE');
+  const institution = ofxValue(text, 'ORG');
+  return completeStatement({
+    format: 'ofx',
+    institution_name: institution,
+    account_name: /<CCSTMTRS>/i.test(text) ? 'Credit Card' : accountType ? accountType.replace('MONEYMRKT', 'Money Market').replace(/^\w+/, (w) => w[0] + w.slice(1).toLowerCase()) : null,
+    account_mask: ofxValue(text, 'ACCTID')?.replace(/\D/g, '').slice(-4) || null,
+    is_business: BUSINESS.test(institution ?? '') || /<BUSINESSACCT>|COMMERCIAL/i.test(text),
+    currency: ofxValue(text, 'CURDEF') ?? 'USD',
+    period_start: parseStatementDate(ofxValue(text, 'DTSTART') ?? ''),
+    period_end: parseStatementDate(ofxValue(text, 'DTEND') ?? ''),
+    // OFX reports the balance at download time only, so there is nothing to open against
+    opening_balance: null,
+    closing_balance: parseMoney(ofxValue(ledger, 'BALAMT')),
+    transactions,
+    document_info: null,
+  });
+}
+
+// ── PDF ──
+
+// "D:20260105123000-05'00'" → ISO timestamp
+function pdfDate(value: unknown): string | null {
+  const m = typeof value === 'string' ? value.match(/^(?:D:)?(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?/) : null;
+  if (!m) return null;
+  return new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +(m[4] ?? 0), +(m[5] ?? 0), +(m[6] ?? 0))).toISOString();
+}
+
+/** The text lines of each page, top to bottom, and the document metadata. */
+export async function extractPdfText(bytes: Uint8Array): Promise<{ lines: string[]; info: DocumentInfo }> {
+  const pdf = await getDocumentProxy(bytes);
+  if (pdf.numPages > MAX_PDF_PAGES) throw new Error(`Statements over ${MAX_PDF_PAGES} pages are not supported`);
+
+  const lines: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const items = content.items
+      .flatMap((item) => ('str' in item && item.str.trim() ? [{ x: item.transform[4], y: item.transform[5], text: item.str.trim() }] : []))
+      .sort((a, b) => b.y - a.y || a.x - b.x);
+
+    // Items within a couple of points vertically sit on the same printed line
+    let row: typeof items = [];
+    for (const item of items) {
+      if (row.length && Math.abs(row[0].y - item.y) > 2) {
+        lines.push(row.sort((a, b) => a.x - b.x).map((i) => i.text).join(' '));
+        row = [];
+      }
+      row.push(item);
+    }
+    if (row.length) lines.push(row.sort((a, b) => a.x - b.x).map((i) => i.text).join(' '));
+  }
+
+  const { info } = await pdf.getMetadata().catch(() => ({ info: {} }));
+  const metadata = (info ?? {}) as Record<string, unknown>;
+  return {
+    lines,
+    info: {
+      producer: typeof metadata.Producer === 'string' ? metadata.Producer : null,
+      creator: typeof metadata.Creator === 'string' ? metadata.Creator : null,
+      created_at: pdfDate(metadata.CreationDate),
+      modified_at: pdfDate(metadata.ModDate),
+      page_count: pdf.numPages,
+    },
+  };
+}
+
+/**
+ * A text-based PDF statement. Transaction lines start with a date and end with
+ * the amount, optionally followed by the running balance. Whether an amount is
+ * money in or out comes from its own sign, then the running balance, then the
+ * section it is listed under.
+ */
+export function parsePdfStatement(lines: string[], info: DocumentInfo | null): ParsedStatement {
+  if (lines.length === 0) {
+    throw new Error('This PDF has no readable text. It may be a scan; upload the CSV or OFX export from online banking instead.');
+  }
+  const text = lines.join('\n');
+  const summary = readSummary(text);
+
+  // Short dates take their year from the statement period, which may span New Year
+  const startYear = summary.period_start ? +summary.period_start.slice(0, 4) : null;
+  const endYear = summary.period_end ? +summary.period_end.slice(0, 4) : new Date().getUTCFullYear();
+  const startMonth = summary.period_start ? +summary.period_start.slice(5, 7) : 1;
+  const yearFor = (month: number) => (startYear !== null && startYear !== endYear && month >= startMonth ? startYear : endYear);
+
+  const transactions: StatementTransaction[] = [];
+  let section: 'credit' | 'debit' | 'skip' | null = null;
+  let previousBalance = summary.opening_balance;
+  for (const rawLine of lines) {
+    const line = rawLine.trim().replace(/\s+/g, ' ');
+    if (BALANCE_SECTION.test(line)) section = 'skip';
+    else if (CREDIT_SECTION.test(line)) section = 'credit';
+    else if (DEBIT_SECTION.test(line)) section = 'debit';
+    if (section === 'skip' || SUMMARY_LINE.test(line)) continue;
+
+    const m = line.match(TRANSACTION_LINE);
+    if (!m) continue;
+    const postedOn = parseStatementDate(m[1], yearFor);
+    const parsed = parseMoney(m[3]);
+    if (!postedOn || parsed === null) continue;
+    const balance = m[4] ? parseMoney(m[4]) : null;
+    const description = m[2].trim();
+
+    let amount = parsed;
+    const explicit = parsed < 0 || /CR$/i.test(m[3]);
+    if (!explicit) {
+      const magnitude = Math.abs(parsed);
+      if (balance !== null && previousBalance !== null && Math.abs(previousBalance + magnitude - balance) < TOLERANCE) {
+        amount = magnitude;
+      } else if (balance !== null && previousBalance !== null && Math.abs(previousBalance - magnitude - balance) < TOLERANCE) {
+        amount = -magnitude;
+      } else if (section) {
+        amount = section === 'credit' ? magnitude : -magnitude;
+      } else {
+        amount = CREDIT_HINT.test(description) ? magnitude : -magnitude;
+      }
+    }
+    if (balance !== null) previousBalance = balance;
+
+    transactions.push({ posted_on: postedOn, amount: round2(amount), description, balance });
+  }
+
+  const header = lines.slice(0, 40).join('\n');
+  return completeStatement({
+    format: 'pdf',
+    institution_name: lines.slice(0, 15).map((l) => l.trim()).find((l) => INSTITUTION.test(l) && l.length <= 60 && !/\d{3}/.test(l)) ?? null,
+    is_business: BUSINESS.test(header) || /business|commercial/i.test(summary.account_name ?? ''),
+    currency: 'USD',
+    ...summary,
+    transactions,
+    document_info: info,
+  });
+}
+
+/** Parse an uploaded statement of any supported format. Throws with a message fit to show the borrower. */
+export async function parseStatement(fileName: string, bytes: Uint8Array): Promise<ParsedStatement> {
+  const format = detectStatementFormat(fileName, bytes);
+  if (!format) throw new Error('Unsupported statement format. Upload a PDF, CSV, OFX or QFX file.');
+
+  if (format === 'pdf') {
+    const { lines, info } = await extractPdfText(bytes);
+    return parsePdfStatement(lines, info);
+  }
+  const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '');
+  return format === 'ofx' ? parseOfxStatement(text) : parseCsvStatement(text);
+}
+
+// ── Integrity checks ──
+
+const money = (n: number) => `$${n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Signs that a statement was altered: balances that do not reconcile with the
+ * transactions, running balances that break, activity outside the statement
+ * period, and PDFs produced or re-saved by editing software. 'high' flags are
+ * arithmetic that cannot be explained; 'medium' ones warrant a look; 'info'
+ * ones note what could not be checked.
+ */
+export function checkStatementIntegrity(statement: ParsedStatement): IntegrityFlag[] {
+  const flags: IntegrityFlag[] = [];
+  const { transactions, opening_balance: opening, closing_balance: closing } = statement;
+  const net = round2(transactions.reduce((sum, t) => sum + t.amount, 0));
+
+  if (opening !== null && closing !== null && Math.abs(round2(opening + net) - closing) >= TOLERANCE) {
+    flags.push({
+      code: 'balance_mismatch',
+      severity: 'high',
+      message: `Opening balance ${money(opening)} plus transactions of ${money(net)} is ${money(round2(opening + net))}, but the statement closes at ${money(closing)}`,
+      details: { opening_balance: opening, net_change: net, expected_closing: round2(opening + net), closing_balance: closing },
+    });
+  }
+
+  const breaks: { posted_on: string; description: string; expected: number; printed: number }[] = [];
+  let running = opening;
+  for (const t of transactions) {
+    if (t.balance === null) continue;
+    if (running !== null && Math.abs(round2(running + t.amount) - t.balance) >= TOLERANCE) {
+      breaks.push({ posted_on: t.posted_on, description: t.description, expected: round2(running + t.amount), printed: t.balance });
+    }
+    running = t.balance;
+  }
+  if (breaks.length > 0) {
+    flags.push({
+      code: 'running_balance_break',
+      severity: 'high',
+      message: `The running balance does not follow from the transactions on ${breaks.length} line${breaks.length === 1 ? '' : 's'}`,
+      details: { breaks: breaks.slice(0, 10) },
+    });
+  }
+
+  const { period_start: start, period_end: end } = statement;
+  if (start && end) {
+    const outside = transactions.filter((t) => t.posted_on < start || t.posted_on > end);
+    if (outside.length > 0) {
+      flags.push({
+        code: 'outside_period',
+        severity: 'medium',
+        message: `${outside.length} transaction${outside.length === 1 ? ' is' : 's are'} dated outside the statement period`,
+        details: { dates: [...new Set(outside.map((t) => t.posted_on))].slice(0, 10) },
+      });
+    }
+  }
+
+  const info = statement.document_info;
+  if (info) {
+    const tool = [info.producer, info.creator].find((value) => value && EDITING_TOOLS.test(value));
+    if (tool) {
+      flags.push({
+        code: 'editing_software',
+        severity: 'medium',
+        message: `The PDF was produced by ${tool}, not a bank statement system`,
+        details: { producer: info.producer, creator: info.creator },
+      });
+    }
+    if (info.created_at && info.modified_at && Date.parse(info.modified_at) - Date.parse(info.created_at) > 24 * 3600 * 1000) {
+      flags.push({
+        code: 'modified_after_creation',
+        severity: 'medium',
+        message: 'The PDF was modified after the bank generated it',
+        details: { created_at: info.created_at, modified_at: info.modified_at },
+      });
+    }
+  }
+
+  if ((opening === null || closing === null) && !transactions.some((t) => t.balance !== null)) {
+    flags.push({
+      code: 'unverifiable',
+      severity: 'info',
+      message: 'The statement has no balances to reconcile the transactions against',
+      details: {},
+    });
+  }
+
+  return flags;
+}
+
+/**
+ * Whether a statement picks up where the same account's neighbouring statements
+ * leave off: each should open at the previous one's closing balance, with no
+ * uncovered days in between. `others` are the account's other parsed imports.
+ */
+export function checkStatementContinuity(
+  statement: ParsedStatement,
+  others: NeighbouringStatement[],
+): IntegrityFlag[] {
+  const flags: IntegrityFlag[] = [];
+  const previous = others
+    .filter((o) => o.period_end && statement.period_start && o.period_end < statement.period_start)
+    .sort((a, b) => (b.period_end ?? '').localeCompare(a.period_end ?? ''))[0];
+  const next = others
+    .filter((o) => o.period_start && statement.period_end && o.period_start > statement.period_end)
+    .sort((a, b) => (a.period_start ?? '').localeCompare(b.period_start ?? ''))[0];
+
+  const balance = (value: number | string | null) => (value === null ? null : Number(value));
+  const previousClosing = previous ? balance(previous.closing_balance) : null;
+  const nextOpening = next ? balance(next.opening_balance) : null;
+
+  if (previous && previousClosing !== null && statement.opening_balance !== null
+    && Math.abs(previousClosing - statement.opening_balance) >= TOLERANCE) {
+    flags.push({
+      code: 'statement_gap',
+      severity: 'high',
+      message: `Opens at ${money(statement.opening_balance)}, but the previous statement closed at ${money(previousClosing)}`,
+      details: { previous_period_end: previous.period_end, previous_closing_balance: previousClosing, opening_balance: statement.opening_balance },
+    });
+  }
+  if (next && nextOpening !== null && statement.closing_balance !== null
+    && Math.abs(nextOpening - statement.closing_balance) >= TOLERANCE) {
+    flags.push({
+      code: 'statement_gap',
+      severity: 'high',
+      message: `Closes at ${money(statement.closing_balance)}, but the next statement opens at ${money(nextOpening)}`,
+      details: { next_period_start: next.period_start, next_opening_balance: nextOpening, closing_balance: statement.closing_balance },
+    });
+  }
+
+  const dayAfter = (iso: string) => new Date(Date.parse(`${iso}T00:00:00Z`) + 24 * 3600 * 1000).toISOString().slice(0, 10);
+  const uncoveredFrom = previous?.period_end ? dayAfter(previous.period_end) : null;
+  if (uncoveredFrom && statement.period_start && uncoveredFrom < statement.period_start) {
+    flags.push({
+      code: 'missing_period',
+      severity: 'info',
+      message: `No statement covers ${uncoveredFrom} to the start of this one`,
+      details: { from: uncoveredFrom, to: statement.period_start },
+    });
+  }
+
+  return flags;
+}
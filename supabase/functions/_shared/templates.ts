@@ -0,0 +1,142 @@
+// Shared notification template rendering for Supabase Edge Functions.
+// Wording lives in public.notification_templates and is edited by admins;
+// bodies reference variables as {{name}} or {{name|fallback}}.
+// Mirrors ibm-functions/src/notification-templates.js.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+
+export type TemplateChannel = 'email' | 'sms';
+
+export interface NotificationTemplate {
+  id: string;
+  template_key: string;
+  channel: TemplateChannel;
+  name: string;
+  description: string | null;
+  subject: string | null;
+  html_body: string | null;
+  text_body: string;
+  variables: string[];
+  is_enabled: boolean;
+  version: number;
+}
+
+export interface RenderedTemplate {
+  subject: string;
+  html: string;
+  text: string;
+  version: number;
+}
+
+export type TemplateRenderResult =
+  | { status: 'rendered'; rendered: RenderedTemplate }
+  | { status: 'missing' }
+  | { status: 'disabled' };
+
+// Draft wording supplied by the admin editor before it is saved
+export interface TemplateDraft {
+  subject?: string | null;
+  html_body?: string | null;
+  text_body?: string | null;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g;
+
+// Values used when previewing without an application, or for variables an application cannot supply
+const SAMPLE_VALUES: Record<string, string> = {
+  applicantName: 'Jordan Smith',
+  businessName: 'Smith Manufacturing LLC',
+  applicationNumber: 'HBF-000123',
+  loanType: 'sba_7a',
+  loanAmount: '$250,000.00',
+  newStatus: 'under_review',
+  loanNumber: 'LN-000123',
+  monthlyPayment: '$2,845.12',
+  interestRate: '9.50',
+  termMonths: '120',
+  documentName: 'your most recent bank statements',
+  amountDue: '$2,845.12',
+  dueDate: new Date(Date.now() + 7 * 86400000).toLocaleDateString('en-US'),
+  userName: 'Jordan',
+  loginUrl: 'https://portal.halobusinessfinance.com/auth',
+  daysAgo: '3',
+  continueUrl: 'https://portal.halobusinessfinance.com/loan-applications',
+  ticketNumber: 'SUP-000042',
+  ticketSubject: 'Question about my documents',
+  ticketUpdate: 'New reply',
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Replace {{name}} placeholders; unknown variables fall back to their default or an empty string. */
+export function renderString(source: string, data: Record<string, unknown>, html = false): string {
+  return source.replace(PLACEHOLDER, (_match, name: string, fallback?: string) => {
+    const value = data[name];
+    if (value === undefined || value === null || value === '') return (fallback ?? '').trim();
+    return html ? escapeHtml(String(value)) : String(value);
+  });
+}
+
+export function renderTemplate(template: NotificationTemplate, data: Record<string, unknown>, draft: TemplateDraft = {}): RenderedTemplate {
+  const text = draft.text_body ?? template.text_body;
+  return {
+    subject: renderString(draft.subject ?? template.subject ?? '', data),
+    html: renderString(draft.html_body ?? template.html_body ?? '', data, true),
+    text: renderString(text, data),
+    version: template.version,
+  };
+}
+
+export async function loadTemplate(supabase: SupabaseClient, key: string, channel: TemplateChannel): Promise<NotificationTemplate | null> {
+  const { data, error } = await supabase
+    .from('notification_templates')
+    .select('*')
+    .eq('template_key', key)
+    .eq('channel', channel)
+    .maybeSingle();
+  if (error) throw error;
+  return data as NotificationTemplate | null;
+}
+
+/** Load and render a template for sending. Disabled templates are reported, not rendered. */
+export async function renderNotificationTemplate(
+  supabase: SupabaseClient,
+  key: string,
+  channel: TemplateChannel,
+  data: Record<string, unknown>,
+): Promise<TemplateRenderResult> {
+  const template = await loadTemplate(supabase, key, channel);
+  if (!template) return { status: 'missing' };
+  if (!template.is_enabled) return { status: 'disabled' };
+  return { status: 'rendered', rendered: renderTemplate(template, data) };
+}
+
+/** Sample variables for previews, taken from a real application when one is given. */
+export async function sampleTemplateData(supabase: SupabaseClient, applicationId?: string): Promise<Record<string, string>> {
+  const sample = { ...SAMPLE_VALUES };
+  if (!applicationId) return sample;
+
+  const { data: app, error } = await supabase
+    .from('loan_applications')
+    .select('application_number, first_name, last_name, business_name, loan_type, amount_requested, status')
+    .eq('id', applicationId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!app) return sample;
+
+  const applicantName = [app.first_name, app.last_name].filter(Boolean).join(' ');
+  if (applicantName) {
+    sample.applicantName = applicantName;
+    sample.userName = app.first_name || applicantName;
+  }
+  if (app.business_name) sample.businessName = app.business_name;
+  if (app.application_number) sample.applicationNumber = app.application_number;
+  if (app.loan_type) sample.loanType = app.loan_type;
+  if (app.amount_requested != null) {
+    sample.loanAmount = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(Number(app.amount_requested));
+  }
+  if (app.status) sample.newStatus = app.status;
+  return sample;
+}
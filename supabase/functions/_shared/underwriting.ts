@@ -0,0 +1,286 @@
+// Data-driven underwriting engine.
+// Rule sets are loaded from underwriting_rule_sets / underwriting_rules so the
+// credit team can change policy without a redeploy. Every score carries the
+// rule-set version and per-factor contributions for later explanation.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+
+export type RuleType = 'band' | 'match' | 'knockout';
+export type KnockoutOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq' | 'in' | 'not_in' | 'missing';
+
+// min is inclusive and max exclusive unless the band says otherwise
+export interface ScoreBand {
+  min?: number | null;
+  max?: number | null;
+  min_exclusive?: boolean;
+  max_inclusive?: boolean;
+  points: number;
+}
+
+export interface UnderwritingRule {
+  factor_key: string;
+  label: string;
+  source_field: string;
+  rule_type: RuleType;
+  weight: number;
+  bands: ScoreBand[];
+  matches: Record<string, number>;
+  knockout_operator: KnockoutOperator | null;
+  knockout_value: unknown;
+  reason: string | null;
+  sort_order: number;
+}
+
+export interface UnderwritingRuleSet {
+  id: string | null;
+  loan_type: string;
+  version: number;
+  base_score: number;
+  auto_approval_max_score: number;
+  manual_review_min_score: number;
+  rules: UnderwritingRule[];
+}
+
+export interface FactorContribution {
+  factor_key: string;
+  label: string;
+  source_field: string;
+  value: unknown;
+  points: number;
+  weight: number;
+  contribution: number;
+  reason: string | null;
+}
+
+export interface KnockoutResult {
+  factor_key: string;
+  label: string;
+  value: unknown;
+  reason: string;
+}
+
+export interface UnderwritingResult {
+  rule_set_id: string | null;
+  rule_set_version: number;
+  rule_set_loan_type: string;
+  base_score: number;
+  risk_score: number;
+  auto_approval_max_score: number;
+  manual_review_min_score: number;
+  factors: FactorContribution[];
+  knockouts: KnockoutResult[];
+  scored_at: string;
+}
+
+// Used only when no active rule set can be loaded; mirrors the seeded default policy.
+export const FALLBACK_RULE_SET: UnderwritingRuleSet = {
+  id: null,
+  loan_type: 'default',
+  version: 0,
+  base_score: 50,
+  auto_approval_max_score: 30,
+  manual_review_min_score: 70,
+  rules: [
+    {
+      factor_key: 'years_in_business', label: 'Time in business', source_field: 'years_in_business',
+      rule_type: 'band', weight: 1, matches: {}, knockout_operator: null, knockout_value: null,
+      bands: [{ min: 5, points: -15 }, { min: 2, max: 5, points: -8 }, { min: 1, max: 2, points: 0 }, { max: 1, points: 20 }],
+      reason: 'Limited time in business', sort_order: 1,
+    },
+    {
+      factor_key: 'loan_amount', label: 'Requested amount', source_field: 'amount_requested',
+      rule_type: 'band', weight: 1, matches: {}, knockout_operator: null, knockout_value: null,
+      // More than $5M, as the hard-coded policy scored it
+      bands: [
+        { min: 5000000, min_exclusive: true, points: 15 },
+        { min: 100000, max: 5000000, max_inclusive: true, points: 0 },
+        { max: 100000, points: -5 },
+      ],
+      reason: 'Requested amount exceeds program comfort level', sort_order: 2,
+    },
+    {
+      factor_key: 'loan_product', label: 'Loan product', source_field: 'loan_type',
+      rule_type: 'match', weight: 1, bands: [], knockout_operator: null, knockout_value: null,
+      matches: { refinance: -10, bridge_loan: 10, working_capital: 5 },
+      reason: 'Product carries elevated structural risk', sort_order: 3,
+    },
+    {
+      factor_key: 'dscr', label: 'Debt service coverage', source_field: 'cash_flow.dscr',
+      rule_type: 'band', weight: 1, matches: {}, knockout_operator: null, knockout_value: null,
+      bands: [{ min: 1.5, points: -15 }, { min: 1.25, max: 1.5, points: -5 }, { min: 1, max: 1.25, points: 10 }, { max: 1, points: 25 }],
+      reason: 'Bank cash flow does not comfortably cover debt service', sort_order: 4,
+    },
+    {
+      factor_key: 'nsf_overdrafts', label: 'NSF and overdraft events', source_field: 'cash_flow.nsf_overdraft_events',
+      rule_type: 'band', weight: 1, matches: {}, knockout_operator: null, knockout_value: null,
+      bands: [{ max: 1, points: -5 }, { min: 1, max: 4, points: 5 }, { min: 4, points: 15 }],
+      reason: 'Returned items or overdrafts on the business accounts', sort_order: 5,
+    },
+  ],
+};
+
+/**
+ * Load the active rule set for a loan product, falling back to the active
+ * 'default' set and finally to the built-in policy.
+ */
+export async function loadActiveRuleSet(supabase: SupabaseClient, loanType: string): Promise<UnderwritingRuleSet> {
+  try {
+    const { data, error } = await supabase
+      .from('underwriting_rule_sets')
+      .select('id, loan_type, version, base_score, auto_approval_max_score, manual_review_min_score, underwriting_rules(*)')
+      .in('loan_type', [loanType, 'default'])
+      .eq('status', 'active');
+
+    if (error) throw error;
+
+    const rows = (data || []) as RuleSetRow[];
+    const ruleSet = rows.find((rs) => rs.loan_type === loanType) || rows.find((rs) => rs.loan_type === 'default');
+    if (!ruleSet) {
+      console.warn(`No active underwriting rule set for ${loanType}; using fallback policy`);
+      return FALLBACK_RULE_SET;
+    }
+
+    return normalizeRuleSet(ruleSet, ruleSet.underwriting_rules || []);
+  } catch (error) {
+    console.error('Failed to load underwriting rule set:', error);
+    return FALLBACK_RULE_SET;
+  }
+}
+
+interface RuleSetRow {
+  id: string;
+  loan_type: string;
+  version: number;
+  base_score: number | string;
+  auto_approval_max_score: number | string;
+  manual_review_min_score: number | string;
+  underwriting_rules: Partial<UnderwritingRule>[] | null;
+}
+
+function normalizeRuleSet(row: RuleSetRow, rules: Partial<UnderwritingRule>[]): UnderwritingRuleSet {
+  return {
+    id: row.id,
+    loan_type: row.loan_type,
+    version: Number(row.version),
+    base_score: Number(row.base_score),
+    auto_approval_max_score: Number(row.auto_approval_max_score),
+    manual_review_min_score: Number(row.manual_review_min_score),
+    rules: rules
+      .map((r) => ({
+        factor_key: r.factor_key,
+        label: r.label,
+        source_field: r.source_field,
+        rule_type: r.rule_type,
+        weight: Number(r.weight ?? 1),
+        bands: Array.isArray(r.bands) ? r.bands : [],
+        matches: r.matches && typeof r.matches === 'object' ? r.matches : {},
+        knockout_operator: r.knockout_operator ?? null,
+        knockout_value: r.knockout_value ?? null,
+        reason: r.reason ?? null,
+        sort_order: Number(r.sort_order ?? 0),
+      }))
+      .sort((a, b) => a.sort_order - b.sort_order),
+  };
+}
+
+/** Resolve a column name or a dotted loan_details path against the application. */
+export function resolveField(application: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    application,
+  );
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]/g, ''));
+  return Number.isFinite(n) ? n : null;
+}
+
+function matchesBand(value: number, band: ScoreBand): boolean {
+  const aboveMin = band.min === null || band.min === undefined || (band.min_exclusive ? value > band.min : value >= band.min);
+  const belowMax = band.max === null || band.max === undefined || (band.max_inclusive ? value <= band.max : value < band.max);
+  return aboveMin && belowMax;
+}
+
+function isKnockedOut(operator: KnockoutOperator, value: unknown, threshold: unknown): boolean {
+  if (operator === 'missing') return value === null || value === undefined || value === '';
+  if (value === null || value === undefined || value === '') return false;
+
+  if (operator === 'in' || operator === 'not_in') {
+    const list = Array.isArray(threshold) ? threshold.map(String) : [];
+    const found = list.includes(String(value));
+    return operator === 'in' ? found : !found;
+  }
+  if (operator === 'eq') return String(value) === String(threshold);
+  if (operator === 'neq') return String(value) !== String(threshold);
+
+  const n = toNumber(value);
+  const t = toNumber(threshold);
+  if (n === null || t === null) return false;
+  switch (operator) {
+    case 'lt': return n < t;
+    case 'lte': return n <= t;
+    case 'gt': return n > t;
+    case 'gte': return n >= t;
+    default: return false;
+  }
+}
+
+/** Score an application against a rule set. Pure: no I/O. */
+export function scoreApplication(application: Record<string, unknown>, ruleSet: UnderwritingRuleSet): UnderwritingResult {
+  const factors: FactorContribution[] = [];
+  const knockouts: KnockoutResult[] = [];
+
+  for (const rule of ruleSet.rules) {
+    const value = resolveField(application, rule.source_field);
+
+    if (rule.rule_type === 'knockout') {
+      if (rule.knockout_operator && isKnockedOut(rule.knockout_operator, value, rule.knockout_value)) {
+        knockouts.push({
+          factor_key: rule.factor_key,
+          label: rule.label,
+          value: value ?? null,
+          reason: rule.reason || `${rule.label} does not meet program requirements`,
+        });
+      }
+      continue;
+    }
+
+    let points = 0;
+    if (rule.rule_type === 'band') {
+      const n = toNumber(value);
+      const band = n === null ? undefined : rule.bands.find((b) => matchesBand(n, b));
+      points = band?.points ?? 0;
+    } else if (rule.rule_type === 'match') {
+      points = value === null || value === undefined ? 0 : Number(rule.matches[String(value)] ?? 0);
+    }
+
+    const contribution = Math.round(points * rule.weight * 100) / 100;
+    factors.push({
+      factor_key: rule.factor_key,
+      label: rule.label,
+      source_field: rule.source_field,
+      value: value ?? null,
+      points,
+      weight: rule.weight,
+      contribution,
+      reason: contribution > 0 ? rule.reason : null,
+    });
+  }
+
+  const rawScore = factors.reduce((sum, f) => sum + f.contribution, ruleSet.base_score);
+
+  return {
+    rule_set_id: ruleSet.id,
+    rule_set_version: ruleSet.version,
+    rule_set_loan_type: ruleSet.loan_type,
+    base_score: ruleSet.base_score,
+    risk_score: Math.max(0, Math.min(100, Math.round(rawScore))),
+    auto_approval_max_score: ruleSet.auto_approval_max_score,
+    manual_review_min_score: ruleSet.manual_review_min_score,
+    factors,
+    knockouts,
+    scored_at: new Date().toISOString(),
+  };
+}
@@ -41,6 +41,39 @@ interface ApplicationFilter {
   searchTerm?: string;
 }
 
+const SORT_COLUMNS = [
+  'created_at',
+  'updated_at',
+  'amount_requested',
+  'application_number',
+  'business_name',
+  'last_name',
+  'status',
+  'loan_type',
+] as const;
+
+// Workflow and document actions open to underwriters; the database re-checks the actor's role
+const UNDERWRITER_ACTIONS = new Set([
+  'update-status', 'transitions', 'confirm-decision', 'decline-decision', 'record-adverse-action', 'record-loan-document'
+]);
+
+// Server-side application index: keyset pagination, multi-column sort and full-text search
+const indexSchema = z.object({
+  search: z.string().max(100).optional(),
+  statuses: z.array(z.string().max(50)).max(20).optional(),
+  loanTypes: z.array(z.string().max(100)).max(20).optional(),
+  dateFrom: z.string().datetime({ offset: true }).optional(),
+  dateTo: z.string().datetime({ offset: true }).optional(),
+  amountMin: z.number().nonnegative().optional(),
+  amountMax: z.number().nonnegative().optional(),
+  sort: z.array(z.object({
+    column: z.enum(SORT_COLUMNS),
+    direction: z.enum(['asc', 'desc']),
+  })).max(3).optional(),
+  cursor: z.string().max(2000).optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -77,7 +110,7 @@ serve(async (req) => {
       }
     );
 
-    // Verify user is authenticated and is admin
+    // Verify user is authenticated
     const { data: { user }, error: authError } = await supabase.auth.getUser();
     if (authError || !user) {
       return new Response(
@@ -86,16 +119,9 @@ serve(async (req) => {
       );
     }
 
-    // Check if user has admin role using secure has_role RPC function
-    const { data: isAdmin, error: roleError } = await supabase
-      .rpc('has_role', { _user_id: user.id, _role: 'admin' });
-
-    if (roleError || !isAdmin) {
-      return new Response(
-        JSON.stringify({ error: 'Admin access required' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    // The workflow functions take the caller's id from the backend and are not
+    // granted to signed-in users, so they are called with the service role alone
+    const serviceClient = createClient(supabaseUrl, serviceRoleKey);
 
     const url = new URL(req.url);
     let action = url.searchParams.get('action') || 'stats';
@@ -113,6 +139,25 @@ serve(async (req) => {
       }
     }
 
+    // Check if user has admin role using secure has_role RPC function;
+    // underwriters may also run the workflow actions
+    const { data: isAdmin, error: roleError } = await supabase
+      .rpc('has_role', { _user_id: user.id, _role: 'admin' });
+
+    let allowed = !roleError && !!isAdmin;
+    if (!allowed && UNDERWRITER_ACTIONS.has(action)) {
+      const { data: isUnderwriter, error: underwriterError } = await supabase
+        .rpc('has_role_or_higher', { _user_id: user.id, _minimum_role: 'underwriter' });
+      allowed = !underwriterError && !!isUnderwriter;
+    }
+
+    if (!allowed) {
+      return new Response(
+        JSON.stringify({ error: 'Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     switch (action) {
       case 'stats':
         return await getApplicationStats(supabase);
@@ -121,6 +166,17 @@ serve(async (req) => {
         const filters = body ? body : Object.fromEntries(url.searchParams.entries());
         return await getFilteredApplications(supabase, filters);
       
+      case 'index': {
+        const indexValidation = indexSchema.safeParse(body ?? {});
+        if (!indexValidation.success) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid index query', details: indexValidation.error.format() }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return await searchApplicationIndex(supabase, indexValidation.data);
+      }
+
       case 'update-status':
         const updateSchema = z.object({
           applicationId: z.string().uuid(),
@@ -141,8 +197,97 @@ serve(async (req) => {
           );
         }
         const { applicationId, status, notes } = updateValidation.data;
-        return await updateApplicationStatus(supabase, applicationId, status, notes);
+        return await updateApplicationStatus(serviceClient, user.id, applicationId, status, notes);
+
+      case 'transitions': {
+        const transitionsValidation = z.object({ applicationId: z.string().uuid() }).safeParse(body ?? {});
+        if (!transitionsValidation.success) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid request', details: transitionsValidation.error.format() }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return await getApplicationTransitions(serviceClient, user.id, transitionsValidation.data.applicationId);
+      }
       
+      case 'confirm-decision':
+      case 'decline-decision': {
+        const decisionValidation = z.object({
+          decisionId: z.string().uuid(),
+          notes: z.string().max(1000).optional()
+        }).safeParse(body ?? {});
+        if (!decisionValidation.success) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid request', details: decisionValidation.error.format() }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        const { decisionId, notes: decisionNotes } = decisionValidation.data;
+        return await resolveStatusDecision(serviceClient, user.id, decisionId, action === 'confirm-decision', decisionNotes);
+      }
+
+      case 'record-adverse-action': {
+        const noticeValidation = z.object({
+          noticeId: z.string().uuid(),
+          fileName: z.string().min(1).max(255),
+          filePath: z.string().min(1).max(1024),
+          fileSize: z.number().int().nonnegative()
+        }).safeParse(body ?? {});
+        if (!noticeValidation.success) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid notice data', details: noticeValidation.error.format() }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return await recordAdverseActionNotice(supabase, user.id, noticeValidation.data);
+      }
+
+      case 'record-loan-document': {
+        const documentValidation = z.object({
+          applicationId: z.string().uuid(),
+          documentType: z.enum(['term_sheet', 'commitment_letter']),
+          terms: z.record(z.unknown()),
+          fileName: z.string().min(1).max(255),
+          filePath: z.string().min(1).max(1024),
+          fileSize: z.number().int().nonnegative()
+        }).safeParse(body ?? {});
+        if (!documentValidation.success) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid document data', details: documentValidation.error.format() }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return await recordLoanDocument(supabase, user.id, documentValidation.data);
+      }
+
+      case 'payment-schedule': {
+        const scheduleValidation = z.object({
+          loanId: z.string().uuid().optional(),
+          months: z.number().int().min(1).max(360).optional()
+        }).safeParse(body ?? {});
+        if (!scheduleValidation.success) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid schedule request', details: scheduleValidation.error.format() }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return await generatePaymentSchedule(serviceClient, user.id, scheduleValidation.data);
+      }
+
+      case 'assess-late-fees': {
+        const lateFeeValidation = z.object({
+          graceDays: z.number().int().min(0).max(365).optional(),
+          feePercent: z.number().min(0).max(100).optional()
+        }).safeParse(body ?? {});
+        if (!lateFeeValidation.success) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid late fee request', details: lateFeeValidation.error.format() }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return await assessLateFees(serviceClient, user.id, lateFeeValidation.data);
+      }
+
       case 'export':
         return await exportApplications(supabase, Object.fromEntries(url.searchParams.entries()));
 
@@ -168,54 +313,13 @@ serve(async (req) => {
 
 async function getApplicationStats(supabase: any): Promise<Response> {
   try {
-    // Get all applications
-    const { data: applications, error } = await supabase
-      .from('loan_applications')
-      .select('*');
+    // Aggregated in the database so the whole table is never loaded
+    const { data: stats, error } = await supabase.rpc('get_application_stats');
 
     if (error) throw error;
 
-    const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    const startOfWeek = new Date(now);
-    startOfWeek.setDate(now.getDate() - now.getDay());
-
-    const stats: ApplicationStats = {
-      total: applications.length,
-      byStatus: {},
-      byLoanType: {},
-      totalAmount: 0,
-      averageAmount: 0,
-      thisMonth: 0,
-      thisWeek: 0
-    };
-
-    applications.forEach((app: any) => {
-      // Status counts
-      stats.byStatus[app.status] = (stats.byStatus[app.status] || 0) + 1;
-      
-      // Loan type counts
-      stats.byLoanType[app.loan_type] = (stats.byLoanType[app.loan_type] || 0) + 1;
-      
-      // Amount calculations
-      if (app.amount_requested) {
-        stats.totalAmount += app.amount_requested;
-      }
-      
-      // Time-based counts
-      const createdAt = new Date(app.created_at);
-      if (createdAt >= startOfMonth) {
-        stats.thisMonth++;
-      }
-      if (createdAt >= startOfWeek) {
-        stats.thisWeek++;
-      }
-    });
-
-    stats.averageAmount = applications.length > 0 ? stats.totalAmount / applications.length : 0;
-
     return new Response(
-      JSON.stringify({ stats }),
+      JSON.stringify({ stats: stats as ApplicationStats }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
@@ -230,6 +334,37 @@ async function getApplicationStats(supabase: any): Promise<Response> {
   }
 }
 
+async function searchApplicationIndex(supabase: any, query: z.infer<typeof indexSchema>): Promise<Response> {
+  try {
+    const { data, error } = await supabase.rpc('search_loan_applications', {
+      _search: query.search || null,
+      _statuses: query.statuses?.length ? query.statuses : null,
+      _loan_types: query.loanTypes?.length ? query.loanTypes : null,
+      _date_from: query.dateFrom || null,
+      _date_to: query.dateTo || null,
+      _amount_min: query.amountMin ?? null,
+      _amount_max: query.amountMax ?? null,
+      _sort: query.sort ?? null,
+      _cursor: query.cursor || null,
+      _limit: query.limit ?? 25,
+    });
+
+    if (error) throw error;
+
+    return new Response(
+      JSON.stringify(data),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error searching application index:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to search applications' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
 async function getFilteredApplications(supabase: any, filters: ApplicationFilter): Promise<Response> {
   try {
     let query = supabase
@@ -338,63 +473,53 @@ async function getFilteredApplications(supabase: any, filters: ApplicationFilter
 
 async function updateApplicationStatus(
   supabase: any, 
+  actorId: string,
   applicationId: string, 
   status: string, 
   notes?: string
 ): Promise<Response> {
   try {
-    // Get current application details
-    const { data: application, error: fetchError } = await supabase
-      .from('loan_applications')
-      .select('*')
-      .eq('id', applicationId)
-      .single();
+    // The workflow checks the transition, the actor's role and the guards
+    const { data: result, error } = await supabase.rpc('transition_application_status', {
+      _application_id: applicationId,
+      _to_status: status,
+      _actor: actorId,
+      _notes: notes || null,
+    });
 
-    if (fetchError) throw fetchError;
+    if (error) throw error;
 
-    // Update application status
-    const { data: updatedApplication, error: updateError } = await supabase
-      .from('loan_applications')
-      .update({
-        status: status,
-        updated_at: new Date().toISOString(),
-        loan_details: {
-          ...application.loan_details,
-          status_notes: notes || '',
-          status_updated_at: new Date().toISOString()
-        }
-      })
-      .eq('id', applicationId)
-      .select()
-      .single();
-
-    if (updateError) throw updateError;
-
-    // Trigger notification (call notification service)
-    try {
-      await supabase.functions.invoke('notification-service', {
-        body: {
-          action: 'application-status-change',
-          notificationData: {
-            applicationId,
-            newStatus: status,
-            applicantEmail: application.email || null, // Use actual applicant email if available
-            applicantName: `${application.first_name} ${application.last_name}`,
-            applicationNumber: application.application_number
-          }
-        }
-      });
-    } catch (notificationError) {
-      console.error('Failed to send notification:', notificationError);
-      // Don't fail the status update if notification fails
+    if (!result?.allowed) {
+      return new Response(
+        JSON.stringify({
+          error: 'Status change not allowed',
+          reasons: result?.reasons ?? []
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Above the dual approval threshold the change waits for a second approver
+    if (result.pending_confirmation) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          pendingConfirmation: true,
+          decision: result.decision,
+          message: 'Status change is awaiting confirmation by a second approver'
+        }),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
+    // The status trigger has queued borrower and webhook notifications in
+    // notification_outbox within the same transaction; the outbox worker delivers them
     console.log(`Application ${applicationId} status updated to: ${status}`);
 
     return new Response(
       JSON.stringify({
         success: true,
-        application: updatedApplication,
+        application: result.application,
         message: 'Application status updated successfully'
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -411,6 +536,221 @@ async function updateApplicationStatus(
   }
 }
 
+async function getApplicationTransitions(supabase: ReturnType<typeof createClient>, actorId: string, applicationId: string): Promise<Response> {
+  try {
+    const { data: transitions, error } = await supabase.rpc('get_application_transitions', {
+      _application_id: applicationId,
+      _actor: actorId,
+    });
+
+    if (error) throw error;
+
+    return new Response(
+      JSON.stringify({ transitions }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error getting application transitions:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to get application transitions' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+// Maker-checker: a second approver confirms or declines a pending decision.
+// The database rejects the requester confirming their own decision.
+async function resolveStatusDecision(
+  supabase: ReturnType<typeof createClient>,
+  actorId: string,
+  decisionId: string,
+  confirm: boolean,
+  notes?: string
+): Promise<Response> {
+  try {
+    const { data: result, error } = await supabase.rpc(
+      confirm ? 'confirm_status_decision' : 'decline_status_decision',
+      { _decision_id: decisionId, _actor: actorId, _notes: notes || null }
+    );
+
+    if (error) {
+      // Raised by the decision functions: not pending, same user, status moved on
+      if (error.code === 'P0001') {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      throw error;
+    }
+
+    if (confirm && !result?.allowed) {
+      return new Response(
+        JSON.stringify({ error: 'Status change not allowed', reasons: result?.reasons ?? [] }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify(confirm
+        ? { success: true, application: result.application, decision: result.decision }
+        : { success: true, decision: result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error resolving status decision:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to resolve the status decision' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+async function recordAdverseActionNotice(
+  supabase: ReturnType<typeof createClient>,
+  actorId: string,
+  notice: { noticeId: string; fileName: string; filePath: string; fileSize: number }
+): Promise<Response> {
+  try {
+    const { data, error } = await supabase.rpc('record_adverse_action_notice', {
+      _notice_id: notice.noticeId,
+      _file_name: notice.fileName,
+      _file_path: notice.filePath,
+      _file_size: notice.fileSize,
+      _actor: actorId
+    });
+
+    if (error) {
+      // Raised by record_adverse_action_notice: already sent, wrong folder
+      if (error.code === 'P0001') {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      throw error;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, notice: data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error recording adverse action notice:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to record the adverse action notice' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+async function recordLoanDocument(
+  supabase: ReturnType<typeof createClient>,
+  actorId: string,
+  document: {
+    applicationId: string;
+    documentType: 'term_sheet' | 'commitment_letter';
+    terms: Record<string, unknown>;
+    fileName: string;
+    filePath: string;
+    fileSize: number;
+  }
+): Promise<Response> {
+  try {
+    const { data, error } = await supabase.rpc('record_loan_document', {
+      _application_id: document.applicationId,
+      _document_type: document.documentType,
+      _terms: document.terms,
+      _file_name: document.fileName,
+      _file_path: document.filePath,
+      _file_size: document.fileSize,
+      _actor: actorId
+    });
+
+    if (error) {
+      // Raised by record_loan_document: not approved, wrong folder
+      if (error.code === 'P0001') {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      throw error;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, document: data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error recording loan document:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to record the loan document' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+async function generatePaymentSchedule(
+  supabase: ReturnType<typeof createClient>,
+  actorId: string,
+  request: { loanId?: string; months?: number }
+): Promise<Response> {
+  try {
+    const { data, error } = await supabase.rpc('generate_loan_payment_schedule', {
+      _loan_id: request.loanId ?? null,
+      _months: request.months ?? 12,
+      _actor: actorId
+    });
+
+    if (error) throw error;
+
+    return new Response(
+      JSON.stringify({ success: true, created: data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error generating payment schedule:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to generate the payment schedule' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+async function assessLateFees(
+  supabase: ReturnType<typeof createClient>,
+  actorId: string,
+  request: { graceDays?: number; feePercent?: number }
+): Promise<Response> {
+  try {
+    const { data, error } = await supabase.rpc('assess_late_loan_payments', {
+      _grace_days: request.graceDays ?? 10,
+      _fee_percent: request.feePercent ?? 5,
+      _actor: actorId
+    });
+
+    if (error) throw error;
+
+    return new Response(
+      JSON.stringify({ success: true, assessed: data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error assessing late fees:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to assess late fees' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
 /**
  * Sanitize a value for CSV export to prevent CSV injection attacks.
  * Prefixes dangerous characters (=, +, -, @, tab, carriage return) with a single quote
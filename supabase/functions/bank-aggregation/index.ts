@@ -0,0 +1,267 @@
+// Supabase Edge Function: bank-aggregation
+// Links borrowers' bank accounts through the configured aggregation provider
+// and imports their balances and 12 months of transactions, so underwriters
+// work from verified cash flow rather than self-reported balances. Borrowers
+// link, refresh and disconnect their own banks; underwriters read and refresh
+// them. Access tokens stay in bank_connection_tokens and never leave the server.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { collectSync, getAggregationProvider } from "../_shared/bank-aggregation.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Linking and refreshing call the provider, which bills per request
+const SYNC_LIMIT = { maxRequests: 10, windowSeconds: 3600 };
+
+const exchangeSchema = z.object({
+  publicToken: z.string().min(1).max(500),
+  institution: z.object({ id: z.string().max(100).nullable().optional(), name: z.string().min(1).max(200) }),
+  isBusiness: z.boolean().default(false),
+});
+
+const transactionsSchema = z.object({
+  userId: z.string().uuid().optional(),
+  accountIds: z.array(z.string().uuid()).max(50).optional(),
+  since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  limit: z.number().int().min(1).max(5000).default(500),
+});
+
+const schemas: Record<string, z.ZodTypeAny> = {
+  'link-token': z.object({}),
+  exchange: exchangeSchema,
+  sync: z.object({ connectionId: z.string().uuid() }),
+  connections: z.object({ userId: z.string().uuid().optional() }),
+  transactions: transactionsSchema,
+  remove: z.object({ accountId: z.string().uuid() }),
+};
+
+interface Caller {
+  id: string;
+  isStaff: boolean;
+  ip: string | null;
+}
+
+interface BankConnection {
+  id: string;
+  user_id: string;
+  provider: string;
+  status: string;
+  sync_cursor: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) return json({ error: 'Missing authorization header' }, 401);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) return json({ error: 'Service configuration error' }, 500);
+
+    const { data: { user }, error: authError } = await createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: { Authorization: authHeader } },
+    }).auth.getUser();
+    if (authError || !user) return json({ error: 'Invalid or expired token' }, 401);
+
+    // Access rules are enforced below and in the bank connection functions, so data calls use the service role
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action as string;
+    const schema = schemas[action];
+    if (!schema) return json({ error: 'Invalid action' }, 400);
+
+    const validation = schema.safeParse(body);
+    if (!validation.success) {
+      return json({ error: 'Invalid request format', details: validation.error.format() }, 400);
+    }
+
+    const { data: isStaff } = await supabase
+      .rpc('has_role_or_higher', { _user_id: user.id, _minimum_role: 'underwriter' });
+
+    const caller: Caller = {
+      id: user.id,
+      isStaff: !!isStaff,
+      ip: req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || req.headers.get('x-real-ip') || null,
+    };
+    const data = validation.data;
+
+    // Only staff look at someone else's banking
+    if (data.userId && data.userId !== caller.id && !caller.isStaff) {
+      return json({ error: 'Underwriter access required' }, 403);
+    }
+
+    if (action === 'exchange' || action === 'sync') {
+      const { data: rateLimit } = await supabase.rpc('check_rate_limit', {
+        _identifier: caller.id,
+        _endpoint: `bank-aggregation:${action}`,
+        _max_requests: SYNC_LIMIT.maxRequests,
+        _window_seconds: SYNC_LIMIT.windowSeconds,
+      });
+      if (rateLimit?.[0] && !rateLimit[0].allowed) {
+        return json({ error: 'Too many bank refreshes. Please try again later.' }, 429);
+      }
+    }
+
+    switch (action) {
+      case 'link-token':
+        return json(await getAggregationProvider().createLinkToken(caller.id));
+      case 'exchange':
+        return await exchange(supabase, caller, data);
+      case 'sync':
+        return await refresh(supabase, caller, data.connectionId);
+      case 'connections':
+        return await listConnections(supabase, data.userId ?? caller.id);
+      case 'transactions':
+        return await listTransactions(supabase, data.userId ?? caller.id, data);
+      case 'remove':
+        return await removeAccount(supabase, caller, data.accountId);
+      default:
+        return json({ error: 'Invalid action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error in bank-aggregation:', error);
+    return json({ error: 'An error occurred processing your request' }, 500);
+  }
+});
+
+// Pulls balances and transaction changes since the connection's cursor and records them.
+// Provider failures are recorded on the connection rather than thrown.
+async function syncConnection(supabase: SupabaseClient, connection: BankConnection) {
+  let failure: string | null = null;
+  let result = null;
+  try {
+    const provider = getAggregationProvider(connection.provider);
+    if (provider.provider !== connection.provider) {
+      throw new Error(`The ${connection.provider} aggregation provider is not configured`);
+    }
+    const { data: token } = await supabase
+      .from('bank_connection_tokens').select('access_token').eq('connection_id', connection.id).maybeSingle();
+    if (!token) throw new Error('No access token on file for this connection');
+    result = await collectSync(provider, token.access_token, connection.sync_cursor);
+  } catch (err) {
+    console.error(`Bank sync for connection ${connection.id} failed:`, err);
+    failure = err instanceof Error ? err.message : 'Bank sync failed';
+  }
+
+  const { data: synced, error } = await supabase.rpc('record_bank_sync', {
+    _connection_id: connection.id,
+    _accounts: result?.accounts ?? null,
+    _transactions: result?.transactions ?? null,
+    _removed: result?.removed ?? null,
+    _cursor: result?.cursor ?? null,
+    _error: failure,
+  });
+  if (error) throw error;
+  return { connection: synced, failure };
+}
+
+async function exchange(supabase: SupabaseClient, caller: Caller, data: z.infer<typeof exchangeSchema>) {
+  const provider = getAggregationProvider();
+  let item;
+  try {
+    item = await provider.exchangePublicToken(data.publicToken);
+  } catch (err) {
+    console.error('Public token exchange failed:', err);
+    return json({ error: 'The bank could not be linked. Please try again.' }, 502);
+  }
+
+  const { data: connection, error } = await supabase.rpc('create_bank_connection', {
+    _user_id: caller.id,
+    _provider: provider.provider,
+    _external_id: item.itemId,
+    _institution_id: data.institution.id ?? null,
+    _institution_name: data.institution.name,
+    _is_business: data.isBusiness,
+    _access_token: item.accessToken,
+    _ip: caller.ip,
+  });
+  if (error) {
+    // The same item linked twice
+    if (error.code === '23505') return json({ error: 'This bank is already linked' }, 409);
+    throw error;
+  }
+
+  const { connection: synced, failure } = await syncConnection(supabase, connection);
+  if (failure) return json({ error: 'The bank was linked but its accounts could not be imported yet', connection: synced }, 502);
+  return json({ connection: synced });
+}
+
+async function refresh(supabase: SupabaseClient, caller: Caller, connectionId: string) {
+  const { data: connection } = await supabase.from('bank_connections').select('*').eq('id', connectionId).maybeSingle();
+  if (!connection || (!caller.isStaff && connection.user_id !== caller.id)) {
+    return json({ error: 'Bank connection not found' }, 404);
+  }
+  if (connection.status === 'disconnected') {
+    return json({ error: 'This bank has been disconnected. Link it again to resume syncing.' }, 409);
+  }
+
+  const { connection: synced, failure } = await syncConnection(supabase, connection);
+  if (failure) return json({ error: 'The bank could not be reached. Please try again later.', connection: synced }, 502);
+  return json({ connection: synced });
+}
+
+async function listConnections(supabase: SupabaseClient, userId: string) {
+  const [{ data: connections, error }, { data: accounts, error: accountsError }] = await Promise.all([
+    supabase.from('bank_connections').select('*').eq('user_id', userId).order('created_at', { ascending: false }),
+    supabase.from('bank_accounts').select('*').eq('user_id', userId).order('created_at', { ascending: false }),
+  ]);
+  if (error) throw error;
+  if (accountsError) throw accountsError;
+  return json({ connections: connections || [], accounts: accounts || [] });
+}
+
+async function listTransactions(supabase: SupabaseClient, userId: string, data: z.infer<typeof transactionsSchema>) {
+  let query = supabase.from('bank_transactions').select('*').eq('user_id', userId);
+  if (data.accountIds) query = query.in('account_id', data.accountIds);
+  if (data.since) query = query.gte('posted_on', data.since);
+
+  const { data: transactions, error } = await query
+    .order('posted_on', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(data.limit);
+  if (error) throw error;
+  return json({ transactions: transactions || [] });
+}
+
+// Self-reported accounts are deleted; linked ones disconnect their whole connection
+async function removeAccount(supabase: SupabaseClient, caller: Caller, accountId: string) {
+  const { data: account } = await supabase.from('bank_accounts').select('*').eq('id', accountId).maybeSingle();
+  if (!account || account.user_id !== caller.id) return json({ error: 'Bank account not found' }, 404);
+
+  if (!account.connection_id) {
+    const { error } = await supabase.from('bank_accounts').delete().eq('id', accountId);
+    if (error) throw error;
+    return json({ success: true, removed: 'account' });
+  }
+
+  const [{ data: connection }, { data: token }] = await Promise.all([
+    supabase.from('bank_connections').select('*').eq('id', account.connection_id).single(),
+    supabase.from('bank_connection_tokens').select('access_token').eq('connection_id', account.connection_id).maybeSingle(),
+  ]);
+  if (token) {
+    // Revoking the provider's access is best effort; we forget the token either way
+    await getAggregationProvider(connection.provider).removeItem(token.access_token)
+      .catch((err) => console.error(`Could not remove item for connection ${connection.id}:`, err));
+  }
+
+  const { data: disconnected, error } = await supabase.rpc('disconnect_bank_connection', {
+    _connection_id: account.connection_id,
+    _actor: caller.id,
+    _ip: caller.ip,
+  });
+  if (error) throw error;
+  return json({ success: true, removed: 'connection', connection: disconnected });
+}
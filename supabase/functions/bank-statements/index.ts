@@ -0,0 +1,207 @@
+// Supabase Edge Function: bank-statements
+// Parses bank statements borrowers upload to Documents under Bank Statements
+// (CSV, OFX/QFX or text-based PDF) into the same transactions linked accounts
+// import, attaches the result to the borrower's application and flags balance
+// discontinuities and other signs of tampering. Borrowers parse their own
+// uploads; underwriters parse and review any borrower's.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  checkStatementContinuity,
+  checkStatementIntegrity,
+  parseStatement,
+  type ParsedStatement,
+} from "../_shared/statement-parser.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Reading large PDFs is CPU-heavy
+const PARSE_LIMIT = { maxRequests: 30, windowSeconds: 3600 };
+
+const parseSchema = z.object({
+  documentId: z.string().uuid(),
+  applicationId: z.string().uuid().optional(),
+});
+
+const schemas: Record<string, z.ZodTypeAny> = {
+  parse: parseSchema,
+  list: z.object({ userId: z.string().uuid().optional() }),
+};
+
+interface Caller {
+  id: string;
+  isStaff: boolean;
+  ip: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) return json({ error: 'Missing authorization header' }, 401);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) return json({ error: 'Service configuration error' }, 500);
+
+    const { data: { user }, error: authError } = await createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: { Authorization: authHeader } },
+    }).auth.getUser();
+    if (authError || !user) return json({ error: 'Invalid or expired token' }, 401);
+
+    // Access is checked below and in record_statement_import; statements are read from storage with the service role
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action as string;
+    const schema = schemas[action];
+    if (!schema) return json({ error: 'Invalid action' }, 400);
+
+    const validation = schema.safeParse(body);
+    if (!validation.success) {
+      return json({ error: 'Invalid request format', details: validation.error.format() }, 400);
+    }
+
+    const { data: isStaff } = await supabase
+      .rpc('has_role_or_higher', { _user_id: user.id, _minimum_role: 'underwriter' });
+
+    const caller: Caller = {
+      id: user.id,
+      isStaff: !!isStaff,
+      ip: req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || req.headers.get('x-real-ip') || null,
+    };
+    const data = validation.data;
+
+    // Only staff look at someone else's statements
+    if (data.userId && data.userId !== caller.id && !caller.isStaff) {
+      return json({ error: 'Underwriter access required' }, 403);
+    }
+
+    if (action === 'parse') {
+      const { data: rateLimit } = await supabase.rpc('check_rate_limit', {
+        _identifier: caller.id,
+        _endpoint: 'bank-statements:parse',
+        _max_requests: PARSE_LIMIT.maxRequests,
+        _window_seconds: PARSE_LIMIT.windowSeconds,
+      });
+      if (rateLimit?.[0] && !rateLimit[0].allowed) {
+        return json({ error: 'Too many statements parsed. Please try again later.' }, 429);
+      }
+    }
+
+    switch (action) {
+      case 'parse':
+        return await parse(supabase, caller, data);
+      case 'list':
+        return await listStatements(supabase, data.userId ?? caller.id);
+      default:
+        return json({ error: 'Invalid action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error in bank-statements:', error);
+    return json({ error: 'An error occurred processing your request' }, 500);
+  }
+});
+
+// Other parsed statements of the same account, to check this one continues from them
+async function neighbouringStatements(
+  supabase: SupabaseClient,
+  userId: string,
+  documentId: string,
+  statement: ParsedStatement,
+) {
+  const { data: imports, error } = await supabase
+    .from('bank_statement_imports')
+    .select('document_id, institution_name, account_mask, period_start, period_end, opening_balance, closing_balance, borrower_documents!inner(is_latest_version)')
+    .eq('user_id', userId)
+    .eq('status', 'parsed')
+    .eq('borrower_documents.is_latest_version', true)
+    .neq('document_id', documentId);
+  if (error) throw error;
+
+  const institution = (statement.institution_name ?? '').toLowerCase();
+  return (imports || []).filter((i) =>
+    (i.institution_name ?? '').toLowerCase() === institution && i.account_mask === statement.account_mask);
+}
+
+// Unreadable statements are recorded as failed imports for the borrower to replace, not thrown
+async function parse(supabase: SupabaseClient, caller: Caller, data: z.infer<typeof parseSchema>) {
+  const { data: document } = await supabase
+    .from('borrower_documents')
+    .select('id, user_id, file_name, file_path, document_category, is_latest_version')
+    .eq('id', data.documentId)
+    .maybeSingle();
+  if (!document || (!caller.isStaff && document.user_id !== caller.id)) {
+    return json({ error: 'Document not found' }, 404);
+  }
+  if (document.document_category !== 'bank_statements') {
+    return json({ error: 'Only documents filed under Bank Statements can be parsed' }, 400);
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from('borrower-documents')
+    .download(document.file_path);
+  if (downloadError || !file) throw downloadError ?? new Error(`Statement file missing for document ${document.id}`);
+
+  let statement: ParsedStatement | null = null;
+  let failure: string | null = null;
+  try {
+    statement = await parseStatement(document.file_name, new Uint8Array(await file.arrayBuffer()));
+  } catch (err) {
+    console.error(`Parsing statement ${document.id} failed:`, err);
+    failure = err instanceof Error ? err.message : 'The statement could not be read';
+  }
+
+  const flags = statement
+    ? [
+      ...checkStatementIntegrity(statement),
+      ...checkStatementContinuity(statement, await neighbouringStatements(supabase, document.user_id, document.id, statement)),
+    ]
+    : [];
+
+  const { data: recorded, error } = await supabase.rpc('record_statement_import', {
+    _document_id: document.id,
+    _application_id: data.applicationId ?? null,
+    _statement: statement,
+    _flags: flags,
+    _error: failure,
+    _actor: caller.id,
+    _ip: caller.ip,
+  });
+  if (error) {
+    if (error.code === 'P0001') return json({ error: error.message }, 409);
+    throw error;
+  }
+  return json({ import: recorded });
+}
+
+async function listStatements(supabase: SupabaseClient, userId: string) {
+  const [{ data: documents, error }, { data: imports, error: importsError }] = await Promise.all([
+    supabase
+      .from('borrower_documents')
+      .select('id, file_name, file_type, file_size, uploaded_at, version_number')
+      .eq('user_id', userId)
+      .eq('document_category', 'bank_statements')
+      .eq('is_latest_version', true)
+      .order('uploaded_at', { ascending: false }),
+    supabase
+      .from('bank_statement_imports')
+      .select('*')
+      .eq('user_id', userId)
+      .order('period_end', { ascending: false, nullsFirst: false }),
+  ]);
+  if (error) throw error;
+  if (importsError) throw importsError;
+  return json({ documents: documents || [], imports: imports || [] });
+}
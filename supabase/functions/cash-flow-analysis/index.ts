@@ -0,0 +1,208 @@
+// Supabase Edge Function: cash-flow-analysis
+// Analyzes the borrower's imported bank transactions for a loan application:
+// monthly revenue, average daily balance, NSF and overdraft activity, existing
+// debt service and DSCR for the proposed terms. Each run is recorded and the
+// application is re-scored against the active underwriting rule set with the
+// verified cash flow. Underwriters only.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  analysisWindow,
+  analyzeCashFlow,
+  cashFlowScoringInput,
+  type CashFlowTransaction,
+} from "../_shared/cash-flow.ts";
+import { loadActiveRuleSet, scoreApplication } from "../_shared/underwriting.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ANALYZE_LIMIT = { maxRequests: 30, windowSeconds: 3600 };
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+const analyzeSchema = z.object({
+  applicationId: z.string().uuid(),
+  months: z.number().int().min(3).max(24).default(12),
+  accountIds: z.array(z.string().uuid()).min(1).max(50).optional(),
+  terms: z.object({
+    amount: z.number().positive().max(100000000),
+    annualRate: z.number().min(0).max(50),
+    termMonths: z.number().int().min(1).max(480),
+    interestOnlyMonths: z.number().int().min(0).max(120).default(0),
+  }),
+});
+
+const schemas: Record<string, z.ZodTypeAny> = {
+  analyze: analyzeSchema,
+  history: z.object({ applicationId: z.string().uuid() }),
+};
+
+interface Caller {
+  id: string;
+  ip: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) return json({ error: 'Missing authorization header' }, 401);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) return json({ error: 'Service configuration error' }, 500);
+
+    const { data: { user }, error: authError } = await createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: { Authorization: authHeader } },
+    }).auth.getUser();
+    if (authError || !user) return json({ error: 'Invalid or expired token' }, 401);
+
+    // Access is checked below and in record_cash_flow_analysis, so data calls use the service role
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: isStaff } = await supabase
+      .rpc('has_role_or_higher', { _user_id: user.id, _minimum_role: 'underwriter' });
+    if (!isStaff) return json({ error: 'Underwriter access required' }, 403);
+
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action as string;
+    const schema = schemas[action];
+    if (!schema) return json({ error: 'Invalid action' }, 400);
+
+    const validation = schema.safeParse(body);
+    if (!validation.success) {
+      return json({ error: 'Invalid request format', details: validation.error.format() }, 400);
+    }
+
+    const caller: Caller = {
+      id: user.id,
+      ip: req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || req.headers.get('x-real-ip') || null,
+    };
+    const data = validation.data;
+
+    if (action === 'analyze') {
+      const { data: rateLimit } = await supabase.rpc('check_rate_limit', {
+        _identifier: caller.id,
+        _endpoint: 'cash-flow-analysis:analyze',
+        _max_requests: ANALYZE_LIMIT.maxRequests,
+        _window_seconds: ANALYZE_LIMIT.windowSeconds,
+      });
+      if (rateLimit?.[0] && !rateLimit[0].allowed) {
+        return json({ error: 'Too many analyses. Please try again later.' }, 429);
+      }
+    }
+
+    switch (action) {
+      case 'analyze':
+        return await analyze(supabase, caller, data);
+      case 'history':
+        return await getHistory(supabase, data.applicationId);
+      default:
+        return json({ error: 'Invalid action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error in cash-flow-analysis:', error);
+    return json({ error: 'An error occurred processing your request' }, 500);
+  }
+});
+
+// Settled transactions since the window start, paged past the PostgREST row cap
+async function loadTransactions(supabase: SupabaseClient, accountIds: string[], since: string) {
+  const transactions: CashFlowTransaction[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('bank_transactions')
+      .select('account_id, posted_on, amount, description, merchant_name, category, pending')
+      .in('account_id', accountIds)
+      .eq('pending', false)
+      .gte('posted_on', since)
+      .order('posted_on')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    transactions.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return transactions;
+  }
+}
+
+async function analyze(supabase: SupabaseClient, caller: Caller, data: z.infer<typeof analyzeSchema>) {
+  const { data: application } = await supabase
+    .from('loan_applications').select('*').eq('id', data.applicationId).maybeSingle();
+  if (!application) return json({ error: 'Loan application not found' }, 404);
+
+  // Linked and statement accounts only: self-reported balances have no transactions behind them
+  let accountQuery = supabase
+    .from('bank_accounts')
+    .select('id, account_type, balance')
+    .eq('user_id', application.user_id)
+    .in('source', ['aggregated', 'statement'])
+    .neq('status', 'disconnected');
+  if (data.accountIds) accountQuery = accountQuery.in('id', data.accountIds);
+  const { data: accounts, error: accountsError } = await accountQuery;
+  if (accountsError) throw accountsError;
+  if (!accounts?.length) {
+    return json({ error: 'The borrower has no linked bank accounts or parsed statements to analyze' }, 409);
+  }
+
+  const window = analysisWindow(data.months);
+  const [transactions, { data: existingLoans, error: loansError }] = await Promise.all([
+    loadTransactions(supabase, accounts.map((a) => a.id), window.start),
+    // The loan this application funded is the one being sized, not existing debt
+    supabase
+      .from('existing_loans')
+      .select('monthly_payment, loan_application_id')
+      .eq('user_id', application.user_id)
+      .neq('status', 'paid_off'),
+  ]);
+  if (loansError) throw loansError;
+
+  const analysis = analyzeCashFlow({
+    accounts,
+    transactions,
+    existingLoans: (existingLoans || []).filter((l) => l.loan_application_id !== application.id),
+    terms: data.terms,
+    window,
+  });
+  if (analysis.month_count === 0) {
+    return json({ error: 'Not enough transaction history to analyze yet' }, 409);
+  }
+
+  const ruleSet = await loadActiveRuleSet(supabase, application.loan_type);
+  const underwriting = scoreApplication({ ...application, cash_flow: cashFlowScoringInput(analysis) }, ruleSet);
+
+  const { data: recorded, error } = await supabase.rpc('record_cash_flow_analysis', {
+    _application_id: application.id,
+    _analysis: analysis,
+    _underwriting: underwriting,
+    _actor: caller.id,
+    _ip: caller.ip,
+  });
+  if (error) {
+    if (error.code === 'P0001') return json({ error: error.message }, 409);
+    throw error;
+  }
+  return json({ analysis: recorded });
+}
+
+async function getHistory(supabase: SupabaseClient, applicationId: string) {
+  const { data: analyses, error } = await supabase
+    .from('cash_flow_analyses')
+    .select('*')
+    .eq('application_id', applicationId)
+    .order('created_at', { ascending: false })
+    .limit(20);
+  if (error) throw error;
+  return json({ analyses: analyses || [] });
+}
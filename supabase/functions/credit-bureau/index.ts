@@ -0,0 +1,229 @@
+// Supabase Edge Function: credit-bureau
+// Pulls consumer tri-merge and business credit reports through the
+// configured bureau adapter. Borrowers may pull their own reports as a
+// soft inquiry; underwriters pull for an application or account review
+// on the strength of the borrower's signed credit authorization. The
+// permissible purpose and consent are checked and recorded by
+// start_credit_pull before any bureau is contacted.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  BUSINESS_BUREAUS,
+  CONSUMER_BUREAUS,
+  getBureauAdapter,
+  type Bureau,
+  type BureauSubject,
+} from "../_shared/credit-bureau.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Bureau calls cost money and leave inquiries, so pulls are throttled per caller
+const PULL_LIMIT = { maxRequests: 5, windowSeconds: 3600 };
+
+const pullSchema = z.object({
+  pullType: z.enum(['consumer', 'business']),
+  bureaus: z.array(z.enum([...CONSUMER_BUREAUS, ...BUSINESS_BUREAUS] as [Bureau, ...Bureau[]])).min(1).optional(),
+  userId: z.string().uuid().optional(),
+  applicationId: z.string().uuid().optional(),
+  permissiblePurpose: z.enum(['written_instruction', 'credit_application', 'account_review']),
+  // Borrowers tick the on-screen authorization; staff pulls rely on the signed disclosure
+  consent: z.boolean().default(false),
+});
+
+const schemas: Record<string, z.ZodTypeAny> = {
+  pull: pullSchema,
+  history: z.object({ userId: z.string().uuid().optional() }),
+  report: z.object({ pullId: z.string().uuid() }),
+};
+
+interface Caller {
+  id: string;
+  isStaff: boolean;
+  ip: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) return json({ error: 'Missing authorization header' }, 401);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) return json({ error: 'Service configuration error' }, 500);
+
+    const { data: { user }, error: authError } = await createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: { Authorization: authHeader } },
+    }).auth.getUser();
+    if (authError || !user) return json({ error: 'Invalid or expired token' }, 401);
+
+    // Access rules are enforced below and in the credit pull functions, so data calls use the service role
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action as string;
+    const schema = schemas[action];
+    if (!schema) return json({ error: 'Invalid action' }, 400);
+
+    const validation = schema.safeParse(body);
+    if (!validation.success) {
+      return json({ error: 'Invalid request format', details: validation.error.format() }, 400);
+    }
+
+    const { data: isStaff } = await supabase
+      .rpc('has_role_or_higher', { _user_id: user.id, _minimum_role: 'underwriter' });
+
+    const caller: Caller = {
+      id: user.id,
+      isStaff: !!isStaff,
+      ip: req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || req.headers.get('x-real-ip') || null,
+    };
+    const data = validation.data;
+
+    // Only staff look at someone else's credit
+    if (data.userId && data.userId !== caller.id && !caller.isStaff) {
+      return json({ error: 'Underwriter access required' }, 403);
+    }
+
+    switch (action) {
+      case 'pull':
+        return await pullCredit(supabase, caller, data);
+      case 'history':
+        return await getHistory(supabase, data.userId ?? caller.id);
+      case 'report':
+        return await getReport(supabase, caller, data.pullId);
+      default:
+        return json({ error: 'Invalid action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error in credit-bureau:', error);
+    return json({ error: 'An error occurred processing your request' }, 500);
+  }
+});
+
+async function pullCredit(supabase: SupabaseClient, caller: Caller, data: z.infer<typeof pullSchema>) {
+  const userId = data.userId ?? caller.id;
+  if (userId === caller.id && !data.consent) {
+    return json({ error: 'Please authorize the credit pull' }, 400);
+  }
+
+  const { data: rateLimit } = await supabase.rpc('check_rate_limit', {
+    _identifier: caller.id,
+    _endpoint: 'credit-bureau:pull',
+    _max_requests: PULL_LIMIT.maxRequests,
+    _window_seconds: PULL_LIMIT.windowSeconds,
+  });
+  if (rateLimit?.[0] && !rateLimit[0].allowed) {
+    return json({ error: 'Too many credit pulls. Please try again later.' }, 429);
+  }
+
+  const adapter = getBureauAdapter();
+  const { data: pull, error } = await supabase.rpc('start_credit_pull', {
+    _user_id: userId,
+    _application_id: data.applicationId ?? null,
+    _pull_type: data.pullType,
+    _bureaus: data.bureaus ?? (data.pullType === 'consumer' ? CONSUMER_BUREAUS : BUSINESS_BUREAUS),
+    _permissible_purpose: data.permissiblePurpose,
+    _provider: adapter.provider,
+    _consent_ip: caller.ip,
+    _actor: caller.id,
+  });
+  if (error) {
+    // Raised by start_credit_pull: no consent, wrong purpose, unknown application
+    if (error.code === 'P0001') return json({ error: error.message }, 409);
+    throw error;
+  }
+
+  let reports = null;
+  let failure: string | null = null;
+  try {
+    reports = await adapter.pull({
+      pullId: pull.id,
+      pullType: pull.pull_type,
+      bureaus: pull.bureaus,
+      inquiryType: pull.inquiry_type,
+      permissiblePurpose: pull.permissible_purpose,
+      subject: await loadSubject(supabase, userId, data.applicationId),
+    });
+  } catch (err) {
+    console.error(`Credit pull ${pull.id} failed:`, err);
+    failure = err instanceof Error ? err.message : 'Bureau request failed';
+  }
+
+  const { data: completed, error: completeError } = await supabase.rpc('complete_credit_pull', {
+    _pull_id: pull.id,
+    _reports: reports,
+    _error: failure,
+  });
+  if (completeError) throw completeError;
+
+  if (failure) return json({ error: 'The credit bureau could not be reached. Please try again later.', pull: completed }, 502);
+  return json({ pull: completed });
+}
+
+// Name and business address as the bureaus match on them; the application's copy is the most recent
+async function loadSubject(supabase: SupabaseClient, userId: string, applicationId?: string): Promise<BureauSubject> {
+  let applicationQuery = supabase
+    .from('loan_applications')
+    .select('first_name, last_name, business_name, business_address, business_city, business_state, business_zip')
+    .eq('user_id', userId);
+  applicationQuery = applicationId
+    ? applicationQuery.eq('id', applicationId)
+    : applicationQuery.order('created_at', { ascending: false }).limit(1);
+
+  const [{ data: profile }, { data: applications }] = await Promise.all([
+    supabase.from('profiles').select('first_name, last_name, business_name').eq('id', userId).maybeSingle(),
+    applicationQuery,
+  ]);
+  const application = applications?.[0];
+
+  return {
+    userId,
+    firstName: application?.first_name ?? profile?.first_name ?? null,
+    lastName: application?.last_name ?? profile?.last_name ?? null,
+    businessName: application?.business_name ?? profile?.business_name ?? null,
+    address: {
+      street: application?.business_address ?? null,
+      city: application?.business_city ?? null,
+      state: application?.business_state ?? null,
+      zip: application?.business_zip ?? null,
+    },
+  };
+}
+
+async function getHistory(supabase: SupabaseClient, userId: string) {
+  const [{ data: pulls, error }, { data: scores, error: scoresError }] = await Promise.all([
+    supabase.from('credit_pulls').select('*').eq('user_id', userId).order('created_at', { ascending: false }).limit(50),
+    supabase.from('credit_scores').select('*').eq('user_id', userId).order('score_date', { ascending: false }).limit(200),
+  ]);
+  if (error) throw error;
+  if (scoresError) throw scoresError;
+  return json({ pulls: pulls || [], scores: scores || [] });
+}
+
+// A completed pull with the scores and accounts it returned
+async function getReport(supabase: SupabaseClient, caller: Caller, pullId: string) {
+  const { data: pull } = await supabase.from('credit_pulls').select('*').eq('id', pullId).maybeSingle();
+  if (!pull || (!caller.isStaff && pull.user_id !== caller.id)) {
+    return json({ error: 'Credit report not found' }, 404);
+  }
+
+  const [{ data: scores, error }, { data: tradelines, error: tradelinesError }] = await Promise.all([
+    supabase.from('credit_scores').select('*').eq('credit_pull_id', pullId).order('bureau'),
+    supabase.from('credit_tradelines').select('*').eq('credit_pull_id', pullId).order('bureau').order('creditor_name'),
+  ]);
+  if (error) throw error;
+  if (tradelinesError) throw tradelinesError;
+  return json({ pull, scores: scores || [], tradelines: tradelines || [] });
+}
@@ -0,0 +1,180 @@
+// Supabase Edge Function: crm-connector
+// push:       send a local CRM record to the external CRM connectors.
+//             Borrowers may push their own records; admins any record.
+// connectors: (admin) configured connectors and whether their
+//             credentials are present.
+// reconcile:  (admin) compare borrowers and applications with the CRM
+//             tables; optionally replay open failures first.
+// replay:     (admin) push the records behind open failed sync log
+//             entries again.
+// dismiss:    (admin) close failed entries without replaying them.
+// Inbound CRM updates arrive on the crm-webhook function.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  connectorConfigured,
+  type Connector,
+  CRM_ENTITIES,
+  type CrmEntity,
+  loadConnectors,
+  loadLocalRecord,
+  mappingFor,
+  providerFor,
+  pushEntity,
+} from "../_shared/crm.ts";
+import { dismissFailures, replayFailures, runReconciliation } from "../_shared/crm-reconciliation.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ADMIN_ONLY_ACTIONS = ['connectors', 'reconcile', 'replay', 'dismiss'];
+
+const schemas: Record<string, z.ZodTypeAny> = {
+  push: z.object({
+    entityType: z.enum(CRM_ENTITIES),
+    entityId: z.string().uuid(),
+    connectorId: z.string().uuid().optional(),
+    syncType: z.enum(['automatic', 'manual']).default('automatic'),
+  }),
+  connectors: z.object({}),
+  reconcile: z.object({ replay: z.boolean().default(false) }),
+  replay: z.object({
+    logIds: z.array(z.string().uuid()).min(1).max(500).optional(),
+    limit: z.number().int().min(1).max(500).default(100),
+  }),
+  dismiss: z.object({ logIds: z.array(z.string().uuid()).min(1).max(500) }),
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const audit = (supabase: SupabaseClient, userId: string, action: string, resourceType: string, resourceId: string | null, details: Record<string, unknown>) =>
+  supabase.rpc('log_audit_event', {
+    _user_id: userId,
+    _action: action,
+    _resource_type: resourceType,
+    _resource_id: resourceId,
+    _ip_address: null,
+    _user_agent: null,
+    _details: details,
+  });
+
+// Replay first so the report counts only failures that are still open
+async function reconcile(supabase: SupabaseClient, replay: boolean, userId: string) {
+  const replaySummary = replay ? await replayFailures(supabase, { userId, limit: 500 }) : null;
+  const run = await runReconciliation(supabase, userId);
+  if (!replaySummary) return run;
+  const { data, error } = await supabase.from('crm_reconciliation_runs').update({ replay: replaySummary }).eq('id', run.id).select().single();
+  if (error) throw error;
+  return data;
+}
+
+// The borrower a local CRM record belongs to
+async function recordOwner(supabase: SupabaseClient, entityType: CrmEntity, record: Record<string, unknown>) {
+  if (entityType !== 'opportunity') return record.user_id;
+  const { data } = await supabase.from('crm_contacts').select('user_id').eq('id', record.contact_id).maybeSingle();
+  return data?.user_id ?? null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) return json({ error: 'Missing authorization header' }, 401);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) return json({ error: 'Service configuration error' }, 500);
+
+    const { data: { user }, error: authError } = await createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: { Authorization: authHeader } },
+    }).auth.getUser();
+    if (authError || !user) return json({ error: 'Invalid or expired token' }, 401);
+
+    // Access rules are enforced below, so data calls use the service role rather than the caller's RLS
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action as string;
+    const schema = schemas[action];
+    if (!schema) return json({ error: 'Invalid action' }, 400);
+
+    const validation = schema.safeParse(body);
+    if (!validation.success) {
+      return json({ error: 'Invalid request format', details: validation.error.format() }, 400);
+    }
+
+    const { data: isAdmin } = await supabase
+      .rpc('has_role_or_higher', { _user_id: user.id, _minimum_role: 'admin' });
+    if (ADMIN_ONLY_ACTIONS.includes(action) && !isAdmin) {
+      return json({ error: 'Admin access required' }, 403);
+    }
+
+    const data = validation.data;
+    switch (action) {
+      case 'push': {
+        const record = await loadLocalRecord(supabase, data.entityType, data.entityId);
+        if (!record) return json({ error: 'Record not found' }, 404);
+        if (!isAdmin && (await recordOwner(supabase, data.entityType, record)) !== user.id) {
+          return json({ error: 'Access denied' }, 403);
+        }
+        const { results } = await pushEntity(supabase, data.entityType, data.entityId, {
+          userId: user.id,
+          syncType: isAdmin ? data.syncType : 'automatic',
+          connectorId: data.connectorId ?? null,
+        });
+        return json({ success: results.every((r) => r.status === 'success'), results });
+      }
+      case 'connectors': {
+        const { data: rows, error } = await supabase.from('crm_integration_settings').select('*').order('created_at');
+        if (error) throw error;
+        const active = new Set(
+          [...await loadConnectors(supabase, 'push'), ...await loadConnectors(supabase, 'pull')].map((c) => c.id),
+        );
+        const connectors = ((rows ?? []) as Connector[]).map((c) => ({
+          id: c.id,
+          name: c.external_crm_name,
+          provider: providerFor(c),
+          apiEndpoint: c.api_endpoint,
+          syncDirection: c.sync_direction,
+          syncEnabled: c.sync_enabled === true,
+          active: active.has(c.id),
+          lastSyncAt: c.last_sync_at,
+          credentials: connectorConfigured(c),
+          fieldMappings: Object.fromEntries(CRM_ENTITIES.map((e) => [e, mappingFor(c, e)])),
+          webhookPath: `/functions/v1/crm-webhook?connector=${c.id}`,
+        }));
+        return json({ connectors });
+      }
+      case 'reconcile': {
+        const run = await reconcile(supabase, data.replay, user.id);
+        await audit(supabase, user.id, 'CRM_RECONCILIATION_RUN', 'crm_reconciliation_run', run.id, {
+          issues: run.summary?.issues ?? {},
+          replay: run.replay,
+        });
+        return json({ run });
+      }
+      case 'replay': {
+        const summary = await replayFailures(supabase, { logIds: data.logIds ?? null, limit: data.limit, userId: user.id });
+        await audit(supabase, user.id, 'CRM_SYNC_REPLAYED', 'crm_sync_log', null, { ...summary, logIds: data.logIds ?? null });
+        return json({ success: true, ...summary });
+      }
+      case 'dismiss': {
+        const dismissed = await dismissFailures(supabase, data.logIds, user.id);
+        await audit(supabase, user.id, 'CRM_SYNC_DISMISSED', 'crm_sync_log', null, { dismissed, logIds: data.logIds });
+        return json({ success: true, dismissed });
+      }
+    }
+    return json({ error: 'Invalid action' }, 400);
+  } catch (error) {
+    console.error('CRM connector error:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,45 @@
+// Supabase Edge Function: crm-webhook
+// Inbound record updates from an external CRM connector
+// (POST ?connector=<crm_integration_settings id>). Requests are
+// authenticated by X-CRM-Signature: sha256=<hex HMAC of the body>;
+// updates are applied only when newer than the portal's copy.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { applyInbound, loadConnectors, verifyWebhookSignature } from "../_shared/crm.ts";
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+serve(async (req) => {
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) return json({ error: 'Service configuration error' }, 500);
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const connectorId = new URL(req.url).searchParams.get('connector');
+    const connector = (await loadConnectors(supabase, 'pull')).find((c) => c.id === connectorId);
+    if (!connector) return json({ error: 'Unknown connector' }, 404);
+
+    const rawBody = await req.text();
+    if (!(await verifyWebhookSignature(connector, rawBody, req.headers.get('X-CRM-Signature')))) {
+      return json({ error: 'Invalid signature' }, 401);
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return json({ error: 'Invalid JSON body' }, 400);
+    }
+
+    const summary = await applyInbound(supabase, connector, body);
+    return json({ success: true, ...summary });
+  } catch (error) {
+    console.error('CRM webhook error:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
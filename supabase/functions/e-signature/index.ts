@@ -0,0 +1,308 @@
+// Supabase Edge Function: e-signature
+// Borrowers review and sign the disclosures and documents waiting for
+// their signature; underwriters request signatures on documents and void
+// requests that no longer apply. The caller's IP and user agent are taken
+// from the request here, never from the client, and the database
+// functions record them on the signature and its event trail. Document
+// hashes are computed here from storage; the browser's must match them.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const STAFF_ONLY_ACTIONS = ['request', 'void'];
+
+const sha256Hex = z.string().regex(/^[0-9a-fA-F]{64}$/).transform((s) => s.toLowerCase());
+
+// Screen and timezone details the browser reports, kept as evidence only
+const device = z.record(z.union([z.string().max(200), z.number(), z.boolean()])).default({});
+
+const listSchema = z.object({
+  applicationId: z.string().uuid().optional(),
+  status: z.enum(['pending', 'signed', 'declined', 'voided']).optional(),
+});
+
+const completeSchema = z.object({
+  requestId: z.string().uuid(),
+  signatureType: z.enum(['typed', 'drawn']),
+  signatureName: z.string().trim().min(2).max(200),
+  documentHash: sha256Hex,
+  fileName: z.string().min(1).max(255),
+  filePath: z.string().min(1).max(1024),
+  signedDocumentHash: sha256Hex,
+  device,
+});
+
+const requestSchema = z.object({
+  userId: z.string().uuid(),
+  applicationId: z.string().uuid().optional(),
+  title: z.string().trim().min(1).max(200),
+  sourceDocumentId: z.string().uuid(),
+  loanDocumentId: z.string().uuid().optional(),
+  documentHash: sha256Hex,
+  expiresAt: z.string().datetime().optional(),
+});
+
+const schemas: Record<string, z.ZodTypeAny> = {
+  list: listSchema,
+  get: z.object({ requestId: z.string().uuid() }),
+  begin: z.object({ requestId: z.string().uuid(), device }),
+  complete: completeSchema,
+  decline: z.object({ requestId: z.string().uuid(), reason: z.string().trim().max(1000).default('') }),
+  request: requestSchema,
+  void: z.object({ requestId: z.string().uuid(), reason: z.string().trim().max(1000).default('') }),
+};
+
+interface Caller {
+  id: string;
+  isStaff: boolean;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) return json({ error: 'Missing authorization header' }, 401);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) return json({ error: 'Service configuration error' }, 500);
+
+    const { data: { user }, error: authError } = await createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: { Authorization: authHeader } },
+    }).auth.getUser();
+    if (authError || !user) return json({ error: 'Invalid or expired token' }, 401);
+
+    // Access rules are enforced below and in the signature functions, so data calls use the service role
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action as string;
+    const schema = schemas[action];
+    if (!schema) return json({ error: 'Invalid action' }, 400);
+
+    const validation = schema.safeParse(body);
+    if (!validation.success) {
+      return json({ error: 'Invalid request format', details: validation.error.format() }, 400);
+    }
+
+    const { data: isStaff } = await supabase
+      .rpc('has_role_or_higher', { _user_id: user.id, _minimum_role: 'underwriter' });
+    if (STAFF_ONLY_ACTIONS.includes(action) && !isStaff) {
+      return json({ error: 'Underwriter access required' }, 403);
+    }
+
+    const caller: Caller = {
+      id: user.id,
+      isStaff: !!isStaff,
+      ip: req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || req.headers.get('x-real-ip') || null,
+      userAgent: req.headers.get('user-agent'),
+    };
+    const data = validation.data;
+
+    switch (action) {
+      case 'list':
+        return await listRequests(supabase, caller, data);
+      case 'get':
+        return await getRequest(supabase, caller, data.requestId);
+      case 'begin':
+        return await callSignatureFunction(supabase, 'begin_signature', {
+          _request_id: data.requestId,
+          _signer: caller.id,
+          _ip: caller.ip,
+          _user_agent: caller.userAgent,
+          _device: data.device,
+        }, caller);
+      case 'complete':
+        return await completeSignature(supabase, caller, data);
+      case 'decline':
+        return await callSignatureFunction(supabase, 'decline_signature', {
+          _request_id: data.requestId,
+          _signer: caller.id,
+          _reason: data.reason,
+          _ip: caller.ip,
+          _user_agent: caller.userAgent,
+        }, caller);
+      case 'request':
+        return await requestSignature(supabase, caller, data);
+      case 'void':
+        return await callSignatureFunction(supabase, 'void_signature_request', {
+          _request_id: data.requestId,
+          _reason: data.reason,
+          _actor: caller.id,
+        }, caller);
+      default:
+        return json({ error: 'Invalid action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error in e-signature:', error);
+    return json({ error: 'An error occurred processing your request' }, 500);
+  }
+});
+
+async function listRequests(supabase: SupabaseClient, caller: Caller, { applicationId, status }: z.infer<typeof listSchema>) {
+  let query = supabase.from('signature_requests').select('*').order('created_at', { ascending: false }).limit(200);
+
+  // Staff can list an application's requests; otherwise callers see their own
+  if (applicationId && caller.isStaff) query = query.eq('application_id', applicationId);
+  else {
+    query = query.eq('user_id', caller.id);
+    if (applicationId) query = query.eq('application_id', applicationId);
+  }
+  if (status) query = query.eq('status', status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return json({ requests: data || [] });
+}
+
+// The request with what is to be signed and its evidence trail
+async function getRequest(supabase: SupabaseClient, caller: Caller, requestId: string) {
+  const { data: request } = await supabase.from('signature_requests').select('*').eq('id', requestId).maybeSingle();
+  if (!request || (!caller.isStaff && request.user_id !== caller.id)) {
+    return json({ error: 'Signature request not found' }, 404);
+  }
+
+  const document = (id: string | null) =>
+    id
+      ? supabase.from('borrower_documents').select('id, file_name, file_path').eq('id', id).maybeSingle()
+      : Promise.resolve({ data: null });
+
+  const [{ data: disclosure }, { data: sourceDocument }, { data: signedDocument }, { data: events, error }, { data: chainValid }] = await Promise.all([
+    request.disclosure_id
+      ? supabase.from('signature_disclosures').select('id, disclosure_key, version, title, body').eq('id', request.disclosure_id).maybeSingle()
+      : Promise.resolve({ data: null }),
+    document(request.source_document_id),
+    document(request.signed_document_id),
+    supabase.from('signature_events').select('*').eq('request_id', requestId).order('id'),
+    supabase.rpc('verify_signature_events', { _request_id: requestId }),
+  ]);
+  if (error) throw error;
+
+  return json({ request, disclosure, sourceDocument, signedDocument, events: events || [], chainValid: chainValid !== false });
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (bytes: BufferSource) => toHex(await crypto.subtle.digest('SHA-256', bytes));
+
+// Hash and size of a stored borrower document, or null when it is not there
+async function hashStoredFile(supabase: SupabaseClient, path: string): Promise<{ hash: string; size: number } | null> {
+  const { data: file, error } = await supabase.storage.from('borrower-documents').download(path);
+  if (error || !file) return null;
+  const bytes = await file.arrayBuffer();
+  return { hash: await sha256(bytes), size: bytes.byteLength };
+}
+
+// Pins the hash of the document as stored, not as the underwriter's browser read it
+async function requestSignature(supabase: SupabaseClient, caller: Caller, data: z.infer<typeof requestSchema>) {
+  const { data: document } = await supabase
+    .from('borrower_documents')
+    .select('id, user_id, file_path')
+    .eq('id', data.sourceDocumentId)
+    .maybeSingle();
+  if (!document || document.user_id !== data.userId) {
+    return json({ error: 'The document to sign must belong to the signer' }, 409);
+  }
+
+  const stored = await hashStoredFile(supabase, document.file_path);
+  if (!stored) throw new Error(`File missing for document ${document.id}`);
+  if (stored.hash !== data.documentHash) {
+    return json({ error: 'The document does not match the stored copy' }, 409);
+  }
+
+  return await callSignatureFunction(supabase, 'create_signature_request', {
+    _user_id: data.userId,
+    _application_id: data.applicationId ?? null,
+    _title: data.title,
+    _source_document_id: data.sourceDocumentId,
+    _loan_document_id: data.loanDocumentId ?? null,
+    _document_hash: stored.hash,
+    _expires_at: data.expiresAt ?? null,
+    _actor: caller.id,
+  }, caller);
+}
+
+// Re-hashes what the signer was shown and the certificate they uploaded, so
+// the hashes recorded with the signature do not come from the browser
+async function completeSignature(supabase: SupabaseClient, caller: Caller, data: z.infer<typeof completeSchema>) {
+  const { data: request } = await supabase
+    .from('signature_requests')
+    .select('id, user_id, disclosure_id, source_document_id')
+    .eq('id', data.requestId)
+    .maybeSingle();
+  if (!request || request.user_id !== caller.id) {
+    return json({ error: 'Signature request not found' }, 404);
+  }
+
+  const segments = data.filePath.split('/');
+  if (segments[0] !== caller.id || segments.includes('..')) {
+    return json({ error: "The signed document must be stored in the signer's folder" }, 409);
+  }
+
+  let documentHash: string | null = null;
+  if (request.disclosure_id) {
+    const { data: disclosure } = await supabase
+      .from('signature_disclosures')
+      .select('body')
+      .eq('id', request.disclosure_id)
+      .maybeSingle();
+    if (disclosure) documentHash = await sha256(new TextEncoder().encode(disclosure.body));
+  } else if (request.source_document_id) {
+    const { data: document } = await supabase
+      .from('borrower_documents')
+      .select('file_path')
+      .eq('id', request.source_document_id)
+      .maybeSingle();
+    if (document) documentHash = (await hashStoredFile(supabase, document.file_path))?.hash ?? null;
+  }
+  if (!documentHash) return json({ error: 'The document to sign is no longer available' }, 409);
+  if (documentHash !== data.documentHash) {
+    return json({ error: 'The document has changed since it was sent for signature' }, 409);
+  }
+
+  const signed = await hashStoredFile(supabase, data.filePath);
+  if (!signed) return json({ error: 'The signed document has not been uploaded' }, 409);
+  if (signed.hash !== data.signedDocumentHash) {
+    return json({ error: 'The signed document does not match the uploaded copy' }, 409);
+  }
+
+  return await callSignatureFunction(supabase, 'complete_signature', {
+    _request_id: data.requestId,
+    _signer: caller.id,
+    _signature_type: data.signatureType,
+    _signature_name: data.signatureName,
+    _document_hash: documentHash,
+    _signed_file_name: data.fileName,
+    _signed_file_path: data.filePath,
+    _signed_file_size: signed.size,
+    _signed_document_hash: signed.hash,
+    _ip: caller.ip,
+    _user_agent: caller.userAgent,
+    _device: data.device,
+  }, caller);
+}
+
+async function callSignatureFunction(supabase: SupabaseClient, fn: string, args: Record<string, unknown>, caller: Caller) {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) {
+    // Raised by the signature functions: not found, already signed, hash mismatch
+    if (error.code === 'P0001') return json({ error: error.message }, 409);
+    throw error;
+  }
+  return json({ request: data, serverTime: new Date().toISOString(), ip: caller.ip });
+}
@@ -0,0 +1,76 @@
+// Supabase Edge Function: email-events
+// Receives delivery events from a SendGrid-compatible event webhook and
+// applies them to email_deliveries (delivered, deferred, bounced).
+// The provider cannot send a user token, so the shared secret in the
+// ?token= query parameter authenticates the caller.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+
+const TRACKED_EVENTS = new Set(['delivered', 'deferred', 'bounce', 'dropped']);
+
+const eventSchema = z.object({
+  event: z.string().max(50),
+  sg_message_id: z.string().max(255).optional(),
+  reason: z.string().max(2000).optional(),
+  type: z.string().max(50).optional(),
+  timestamp: z.number().optional(),
+}).passthrough();
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+function validToken(token: string | null): boolean {
+  const secret = Deno.env.get('EMAIL_WEBHOOK_SECRET');
+  if (!secret || !token || token.length !== secret.length) return false;
+  // Constant-time comparison
+  let diff = 0;
+  for (let i = 0; i < secret.length; i++) diff |= secret.charCodeAt(i) ^ token.charCodeAt(i);
+  return diff === 0;
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  try {
+    if (!validToken(new URL(req.url).searchParams.get('token'))) {
+      return json({ error: 'Invalid webhook token' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) return json({ error: 'Service configuration error' }, 500);
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const validation = z.array(eventSchema).max(1000).safeParse(await req.json().catch(() => null));
+    if (!validation.success) {
+      return json({ error: 'Invalid request format', details: validation.error.format() }, 400);
+    }
+
+    let matched = 0;
+    for (const ev of validation.data) {
+      if (!TRACKED_EVENTS.has(ev.event) || !ev.sg_message_id) continue;
+
+      // sg_message_id is the X-Message-Id returned at send time plus a routing suffix
+      const messageId = ev.sg_message_id.split('.')[0];
+      const bounceType = ev.event === 'dropped' ? 'dropped' : ev.type === 'blocked' ? 'blocked' : ev.event === 'bounce' ? 'hard' : null;
+      const occurredAt = ev.timestamp ? new Date(ev.timestamp * 1000).toISOString() : new Date().toISOString();
+
+      const { data, error } = await supabase.rpc('record_email_event', {
+        _provider_message_id: messageId,
+        _event: ev.event,
+        _reason: ev.reason ?? null,
+        _bounce_type: bounceType,
+        _occurred_at: occurredAt,
+      });
+      if (error) throw error;
+      if (data) matched++;
+    }
+
+    return json({ success: true, received: validation.data.length, matched });
+  } catch (error) {
+    console.error('Error in email-events:', error);
+    return json({ error: 'An error occurred processing your request' }, 500);
+  }
+});
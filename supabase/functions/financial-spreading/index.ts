@@ -0,0 +1,229 @@
+// Supabase Edge Function: financial-spreading
+// Spreads the borrower's income statements and balance sheets for a loan
+// application. Underwriters key in the periods or import QuickBooks and Xero
+// Profit and Loss / Balance Sheet exports the borrower uploaded under P&L and
+// Balance Sheet; each save derives the ratios, global cash flow and variances
+// from the self-reported figures and is kept as a new version of the spread.
+// Underwriters only.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  computeSpread,
+  importFinancialStatements,
+  MAX_PERIODS,
+  selfReportedFigures,
+  SPREAD_LINE_KEYS,
+} from "../_shared/financial-spreading.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const IMPORT_LIMIT = { maxRequests: 30, windowSeconds: 3600 };
+
+const amount = z.number().min(-100000000000).max(100000000000);
+const annualAmount = z.number().min(0).max(100000000000).default(0);
+
+const importSchema = z.object({
+  applicationId: z.string().uuid(),
+  documentId: z.string().uuid(),
+});
+
+const saveSchema = z.object({
+  applicationId: z.string().uuid(),
+  periods: z.array(z.object({
+    label: z.string().trim().min(1).max(40),
+    period_end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    months: z.number().int().min(1).max(12),
+    lines: z.record(z.enum(SPREAD_LINE_KEYS), amount.nullable()),
+  })).min(1).max(MAX_PERIODS),
+  globalInputs: z.object({
+    owner_income: annualAmount,
+    owner_living_expenses: annualAmount,
+    personal_debt_service: annualAmount,
+    business_debt_service: annualAmount,
+    proposed_debt_service: annualAmount,
+  }),
+  source: z.enum(['manual', 'import']).default('manual'),
+  documentIds: z.array(z.string().uuid()).max(10).default([]),
+  notes: z.string().max(2000).optional(),
+});
+
+const schemas: Record<string, z.ZodTypeAny> = {
+  import: importSchema,
+  save: saveSchema,
+  history: z.object({ applicationId: z.string().uuid() }),
+};
+
+interface Caller {
+  id: string;
+  ip: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) return json({ error: 'Missing authorization header' }, 401);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) return json({ error: 'Service configuration error' }, 500);
+
+    const { data: { user }, error: authError } = await createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: { Authorization: authHeader } },
+    }).auth.getUser();
+    if (authError || !user) return json({ error: 'Invalid or expired token' }, 401);
+
+    // Access is checked below and in record_financial_spread, so data calls use the service role
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: isStaff } = await supabase
+      .rpc('has_role_or_higher', { _user_id: user.id, _minimum_role: 'underwriter' });
+    if (!isStaff) return json({ error: 'Underwriter access required' }, 403);
+
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action as string;
+    const schema = schemas[action];
+    if (!schema) return json({ error: 'Invalid action' }, 400);
+
+    const validation = schema.safeParse(body);
+    if (!validation.success) {
+      return json({ error: 'Invalid request format', details: validation.error.format() }, 400);
+    }
+
+    const caller: Caller = {
+      id: user.id,
+      ip: req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || req.headers.get('x-real-ip') || null,
+    };
+    const data = validation.data;
+
+    if (action === 'import') {
+      const { data: rateLimit } = await supabase.rpc('check_rate_limit', {
+        _identifier: caller.id,
+        _endpoint: 'financial-spreading:import',
+        _max_requests: IMPORT_LIMIT.maxRequests,
+        _window_seconds: IMPORT_LIMIT.windowSeconds,
+      });
+      if (rateLimit?.[0] && !rateLimit[0].allowed) {
+        return json({ error: 'Too many imports. Please try again later.' }, 429);
+      }
+    }
+
+    switch (action) {
+      case 'import':
+        return await importStatements(supabase, data);
+      case 'save':
+        return await saveSpread(supabase, caller, data);
+      case 'history':
+        return await getHistory(supabase, data.applicationId);
+      default:
+        return json({ error: 'Invalid action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error in financial-spreading:', error);
+    return json({ error: 'An error occurred processing your request' }, 500);
+  }
+});
+
+// Read for the underwriter to review; nothing is saved until they save the spread
+async function importStatements(supabase: SupabaseClient, data: z.infer<typeof importSchema>) {
+  const { data: application } = await supabase
+    .from('loan_applications').select('id, user_id').eq('id', data.applicationId).maybeSingle();
+  if (!application) return json({ error: 'Loan application not found' }, 404);
+
+  const { data: document } = await supabase
+    .from('borrower_documents')
+    .select('id, user_id, file_name, file_path, document_category')
+    .eq('id', data.documentId)
+    .maybeSingle();
+  if (!document || document.user_id !== application.user_id) {
+    return json({ error: 'Document not found' }, 404);
+  }
+  if (document.document_category !== 'pl_balance_sheet') {
+    return json({ error: 'Only documents filed under P&L and Balance Sheet can be imported' }, 400);
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from('borrower-documents')
+    .download(document.file_path);
+  if (downloadError || !file) throw downloadError ?? new Error(`File missing for document ${document.id}`);
+
+  try {
+    const periods = importFinancialStatements(document.file_name, new Uint8Array(await file.arrayBuffer()));
+    return json({ document_id: document.id, periods });
+  } catch (err) {
+    console.error(`Importing financial statements from ${document.id} failed:`, err);
+    return json({ error: err instanceof Error ? err.message : 'The export could not be read' }, 400);
+  }
+}
+
+async function saveSpread(supabase: SupabaseClient, caller: Caller, data: z.infer<typeof saveSchema>) {
+  const ends = data.periods.map((p) => p.period_end);
+  if (new Set(ends).size !== ends.length) {
+    return json({ error: 'Each period must end on a different date' }, 400);
+  }
+
+  const { data: application } = await supabase
+    .from('loan_applications').select('id, loan_details').eq('id', data.applicationId).maybeSingle();
+  if (!application) return json({ error: 'Loan application not found' }, 404);
+
+  const spread = computeSpread({
+    periods: data.periods,
+    globalInputs: data.globalInputs,
+    loanDetails: application.loan_details,
+  });
+
+  const { data: recorded, error } = await supabase.rpc('record_financial_spread', {
+    _application_id: application.id,
+    _spread: spread,
+    _source: data.source,
+    _document_ids: data.documentIds,
+    _notes: data.notes ?? null,
+    _actor: caller.id,
+    _ip: caller.ip,
+  });
+  if (error) {
+    if (error.code === 'P0001') return json({ error: error.message }, 409);
+    throw error;
+  }
+  return json({ spread: recorded });
+}
+
+async function getHistory(supabase: SupabaseClient, applicationId: string) {
+  const { data: application } = await supabase
+    .from('loan_applications').select('id, user_id, loan_details').eq('id', applicationId).maybeSingle();
+  if (!application) return json({ error: 'Loan application not found' }, 404);
+
+  const [{ data: spreads, error }, { data: documents, error: documentsError }] = await Promise.all([
+    supabase
+      .from('financial_spreads')
+      .select('*')
+      .eq('application_id', applicationId)
+      .order('version', { ascending: false })
+      .limit(20),
+    supabase
+      .from('borrower_documents')
+      .select('id, file_name, file_type, file_size, uploaded_at, version_number')
+      .eq('user_id', application.user_id)
+      .eq('document_category', 'pl_balance_sheet')
+      .eq('is_latest_version', true)
+      .order('uploaded_at', { ascending: false }),
+  ]);
+  if (error) throw error;
+  if (documentsError) throw documentsError;
+  return json({
+    spreads: spreads || [],
+    documents: documents || [],
+    self_reported: selfReportedFigures(application.loan_details),
+  });
+}
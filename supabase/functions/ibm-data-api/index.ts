@@ -94,7 +94,8 @@ type Operation =
   | { entity: "bank_accounts"; action: "list_active"; userId: string }
   | { entity: "bank_accounts"; action: "list_balances"; userId: string }
   | { entity: "credit_scores"; action: "list_scores"; userId: string }
-  | { entity: "documents"; action: "list_categories"; userId: string };
+  | { entity: "documents"; action: "list_categories"; userId: string }
+  | { entity: "loan_products"; action: "list" };
 
 async function handleOperation(op: Operation) {
   return withClient(async (client) => {
@@ -140,10 +141,15 @@ async function handleOperation(op: Operation) {
             return jsonResp({ success: true });
           }
           case "update_status": {
-            await client.queryObject(
+            // Recorded as the workflow actor so the trigger checks the borrower's role
+            const tx = client.createTransaction("update_status");
+            await tx.begin();
+            await tx.queryObject(`SELECT set_config('app.workflow_actor', $1, true)`, [op.userId]);
+            await tx.queryObject(
               `UPDATE public.loan_applications SET status = $1, updated_at = NOW() WHERE id = $2 AND user_id = $3`,
               [op.status, op.id, op.userId]
             );
+            await tx.commit();
             return jsonResp({ success: true });
           }
         }
@@ -174,7 +180,7 @@ async function handleOperation(op: Operation) {
       // --- Credit Scores ---
       case "credit_scores": {
         const r = await client.queryObject(
-          `SELECT score FROM public.credit_scores WHERE user_id = $1`,
+          `SELECT score FROM public.credit_scores WHERE user_id = $1 AND score_type = 'consumer'`,
           [op.userId]
         );
         return jsonResp({ data: r.rows });
@@ -188,6 +194,14 @@ async function handleOperation(op: Operation) {
         );
         return jsonResp({ data: r.rows });
       }
+
+      // --- Loan Product Catalog (not user-scoped) ---
+      case "loan_products": {
+        const r = await client.queryObject(
+          `SELECT * FROM public.loan_products ORDER BY sort_order, name`
+        );
+        return jsonResp({ data: r.rows });
+      }
     }
 
     return jsonResp({ error: "Unknown operation" }, 400);
@@ -239,6 +253,8 @@ serve(async (req) => {
           return { entity, action: "list_scores", userId };
         case "documents":
           return { entity, action: "list_categories", userId };
+        case "loan_products":
+          return { entity, action: "list" };
         default:
           throw new Error(`Unknown entity: ${entity}`);
       }
@@ -0,0 +1,536 @@
+// Product-specific eligibility calculator.
+// Each loan product carries its own program caps, LTV/DSCR/credit gates,
+// collateral requirements and term options. Financial inputs are read from
+// loan_details as submitted by the product forms (camelCase or snake_case).
+// PRODUCT_RULES are the defaults; admins override amounts, rates, terms and
+// thresholds per product in loan_products (see loadProductRules).
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+
+export interface ProductEligibilityRules {
+  key: string;
+  name: string;
+  minAmount: number;
+  maxAmount: number;
+  /** Max loan-to-value against the collateral value, as a fraction; null when not collateral-sized */
+  maxLtv: number | null;
+  /** Minimum debt service coverage ratio; null when the product is not cash-flow sized */
+  minDscr: number | null;
+  minCreditScore: number | null;
+  minYearsInBusiness: number;
+  /** Cap as a fraction of annual revenue (revolving and short-term products) */
+  maxRevenuePct: number | null;
+  /** Minimum owner equity injection as a fraction of the project cost */
+  minEquityPct: number | null;
+  interestRateRange: { min: number; max: number };
+  /** Amortization used to estimate the annual debt service for DSCR */
+  amortizationMonths: number;
+  termOptions: string[];
+  collateralRequirements: string[];
+  requirements: string[];
+  /** MyDocuments folder ids the borrower must upload for this product */
+  requiredDocumentCategories: string[];
+}
+
+export interface EligibilityMetrics {
+  annualRevenue: number | null;
+  netIncome: number | null;
+  currentDebt: number | null;
+  creditScore: number | null;
+  collateralValue: number | null;
+  ltv: number | null;
+  dscr: number | null;
+  estimatedMonthlyPayment: number;
+  annualDebtService: number | null;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  product: string;
+  productName: string;
+  maxLoanAmount: number;
+  interestRateRange: { min: number; max: number };
+  termOptions: string[];
+  collateralRequirements: string[];
+  requirements: string[];
+  requiredDocumentCategories: string[];
+  reasons: string[];
+  metrics: EligibilityMetrics;
+  thresholds: {
+    minAmount: number;
+    maxAmount: number;
+    maxLtv: number | null;
+    minDscr: number | null;
+    minCreditScore: number | null;
+    minYearsInBusiness: number;
+    maxRevenuePct: number | null;
+    minEquityPct: number | null;
+  };
+}
+
+export interface EligibilityInput {
+  loan_type: string;
+  amount_requested: number;
+  years_in_business: number;
+  loan_details?: Record<string, unknown> | null;
+}
+
+// Existing debt is reported as a balance; service it as a 5-year note at 8%.
+const EXISTING_DEBT_RATE = 8;
+const EXISTING_DEBT_TERM_MONTHS = 60;
+
+const GENERAL_REQUIREMENTS = [
+  'Valid business license',
+  'Financial statements (last 2 years)',
+  'Tax returns (business and personal)',
+  'Bank statements (last 6 months)',
+];
+
+export const PRODUCT_RULES: Record<string, ProductEligibilityRules> = {
+  sba_7a: {
+    key: 'sba_7a', name: 'SBA 7(a) Loan',
+    minAmount: 50000, maxAmount: 5000000,
+    maxLtv: null, minDscr: 1.15, minCreditScore: 650, minYearsInBusiness: 2,
+    maxRevenuePct: null, minEquityPct: 0.1,
+    interestRateRange: { min: 10.5, max: 13.5 }, amortizationMonths: 120,
+    termOptions: ['10 years (working capital / equipment)', '25 years (real estate)'],
+    collateralRequirements: [
+      'All available business assets for loans over $50,000',
+      'Personal residence where equity exceeds 25%',
+      'Personal guarantee from owners of 20% or more',
+    ],
+    requirements: ['SBA Form 1919', 'Personal financial statement (SBA Form 413)', 'Business plan or project description'],
+    requiredDocumentCategories: [],
+  },
+  sba_504: {
+    key: 'sba_504', name: 'SBA 504 Loan',
+    minAmount: 125000, maxAmount: 5500000,
+    maxLtv: 0.9, minDscr: 1.15, minCreditScore: 680, minYearsInBusiness: 2,
+    maxRevenuePct: null, minEquityPct: 0.1,
+    interestRateRange: { min: 6.0, max: 7.5 }, amortizationMonths: 300,
+    termOptions: ['10 years (equipment)', '20 years (real estate)', '25 years (real estate)'],
+    collateralRequirements: [
+      'First lien on the financed real estate or equipment (bank portion)',
+      'Second lien on the financed real estate or equipment (CDC portion)',
+      'Personal guarantee from owners of 20% or more',
+    ],
+    requirements: ['Project cost breakdown', 'Appraisal of the project property', 'Job creation or public policy goal statement'],
+    requiredDocumentCategories: [],
+  },
+  sba_express: {
+    key: 'sba_express', name: 'SBA Express Loan',
+    minAmount: 1000, maxAmount: 500000,
+    maxLtv: null, minDscr: 1.15, minCreditScore: 650, minYearsInBusiness: 2,
+    maxRevenuePct: null, minEquityPct: null,
+    interestRateRange: { min: 11.0, max: 14.5 }, amortizationMonths: 84,
+    termOptions: ['Up to 7 years (revolving)', '10 years (term)', '25 years (real estate)'],
+    collateralRequirements: [
+      'None required for loans of $50,000 or less',
+      'Lender collateral policy applies above $50,000',
+      'Personal guarantee from owners of 20% or more',
+    ],
+    requirements: ['SBA Form 1919', 'Business plan or project description'],
+    requiredDocumentCategories: [],
+  },
+  usda_bi: {
+    key: 'usda_bi', name: 'USDA B&I Loan',
+    minAmount: 500000, maxAmount: 25000000,
+    maxLtv: 0.8, minDscr: 1.25, minCreditScore: 680, minYearsInBusiness: 1,
+    maxRevenuePct: null, minEquityPct: 0.1,
+    interestRateRange: { min: 6.5, max: 9.5 }, amortizationMonths: 360,
+    termOptions: ['7 years (working capital)', '15 years (equipment)', '30 years (real estate)'],
+    collateralRequirements: [
+      'Discounted collateral value covering the loan amount',
+      'Personal and corporate guarantees from owners of 20% or more',
+    ],
+    requirements: ['Project located in an eligible rural area (population under 50,000)', 'Feasibility study for loans over $2.5M', 'Environmental review'],
+    requiredDocumentCategories: [],
+  },
+  equipment_financing: {
+    key: 'equipment_financing', name: 'Equipment Financing',
+    minAmount: 1000, maxAmount: 5000000,
+    maxLtv: 1.0, minDscr: 1.2, minCreditScore: 600, minYearsInBusiness: 1,
+    maxRevenuePct: null, minEquityPct: null,
+    interestRateRange: { min: 7.0, max: 15.0 }, amortizationMonths: 60,
+    termOptions: ['2 years', '3 years', '5 years', '7 years'],
+    collateralRequirements: ['First lien (UCC-1) on the financed equipment'],
+    requirements: ['Equipment quote or invoice'],
+    requiredDocumentCategories: [],
+  },
+  invoice_factoring: {
+    key: 'invoice_factoring', name: 'Invoice Factoring',
+    minAmount: 10000, maxAmount: 10000000,
+    maxLtv: null, minDscr: null, minCreditScore: null, minYearsInBusiness: 0.5,
+    maxRevenuePct: null, minEquityPct: null,
+    interestRateRange: { min: 12.0, max: 36.0 }, amortizationMonths: 3,
+    termOptions: ['30-day advances', '60-day advances', '90-day advances'],
+    collateralRequirements: ['Assignment of the factored receivables', 'Notice of assignment to account debtors'],
+    requirements: ['Accounts receivable aging report', 'Sample invoices', 'Customer list with credit terms'],
+    requiredDocumentCategories: [],
+  },
+  business_line_of_credit: {
+    key: 'business_line_of_credit', name: 'Business Line of Credit',
+    minAmount: 10000, maxAmount: 5000000,
+    maxLtv: null, minDscr: 1.25, minCreditScore: 650, minYearsInBusiness: 1,
+    maxRevenuePct: 0.15, minEquityPct: null,
+    interestRateRange: { min: 8.0, max: 18.0 }, amortizationMonths: 24,
+    termOptions: ['12-month revolving', '24-month revolving'],
+    collateralRequirements: ['Blanket lien (UCC-1) on business assets', 'Personal guarantee'],
+    requirements: ['Accounts receivable and payable aging reports'],
+    requiredDocumentCategories: [],
+  },
+  term_loan: {
+    key: 'term_loan', name: 'Term Loan',
+    minAmount: 25000, maxAmount: 5000000,
+    maxLtv: null, minDscr: 1.25, minCreditScore: 660, minYearsInBusiness: 2,
+    maxRevenuePct: null, minEquityPct: null,
+    interestRateRange: { min: 7.0, max: 14.0 }, amortizationMonths: 60,
+    termOptions: ['1 year', '3 years', '5 years', '7 years', '10 years'],
+    collateralRequirements: ['Blanket lien (UCC-1) on business assets', 'Personal guarantee'],
+    requirements: ['Business plan or use-of-funds statement'],
+    requiredDocumentCategories: [],
+  },
+  conventional: {
+    key: 'conventional', name: 'Conventional Loan',
+    minAmount: 100000, maxAmount: 50000000,
+    maxLtv: 0.8, minDscr: 1.25, minCreditScore: 680, minYearsInBusiness: 2,
+    maxRevenuePct: null, minEquityPct: null,
+    interestRateRange: { min: 6.5, max: 9.5 }, amortizationMonths: 300,
+    termOptions: ['5 years', '10 years', '15 years', '20 years', '25 years'],
+    collateralRequirements: ['First lien on the collateral offered', 'Personal guarantee'],
+    requirements: ['Appraisal of the collateral', 'Business plan or project description'],
+    requiredDocumentCategories: [],
+  },
+  refinance: {
+    key: 'refinance', name: 'Refinance',
+    minAmount: 100000, maxAmount: 50000000,
+    maxLtv: 0.8, minDscr: 1.25, minCreditScore: 660, minYearsInBusiness: 1,
+    maxRevenuePct: null, minEquityPct: null,
+    interestRateRange: { min: 3.5, max: 6.5 }, amortizationMonths: 300,
+    termOptions: ['5 years', '10 years', '15 years', '20 years', '25 years'],
+    collateralRequirements: ['First lien on the refinanced property', 'Assignment of leases and rents'],
+    requirements: ['Payoff statement for the existing loan', 'Current rent roll and operating statement', 'Appraisal of the property'],
+    requiredDocumentCategories: [],
+  },
+  bridge_loan: {
+    key: 'bridge_loan', name: 'Bridge Loan',
+    minAmount: 100000, maxAmount: 10000000,
+    maxLtv: 0.75, minDscr: null, minCreditScore: 620, minYearsInBusiness: 0,
+    maxRevenuePct: null, minEquityPct: null,
+    interestRateRange: { min: 6.0, max: 12.0 }, amortizationMonths: 24,
+    termOptions: ['6 months', '12 months', '18 months', '24 months'],
+    collateralRequirements: ['First lien on the subject property'],
+    requirements: ['Documented exit strategy (sale or take-out financing)', 'Appraisal of the property'],
+    requiredDocumentCategories: [],
+  },
+  working_capital: {
+    key: 'working_capital', name: 'Working Capital Loan',
+    minAmount: 10000, maxAmount: 2000000,
+    maxLtv: null, minDscr: 1.2, minCreditScore: 600, minYearsInBusiness: 1,
+    maxRevenuePct: 0.2, minEquityPct: null,
+    interestRateRange: { min: 4.0, max: 8.0 }, amortizationMonths: 36,
+    termOptions: ['1 year', '2 years', '3 years', '5 years'],
+    collateralRequirements: ['Blanket lien (UCC-1) on business assets', 'Personal guarantee'],
+    requirements: ['Cash flow projection for the next 12 months'],
+    requiredDocumentCategories: [],
+  },
+  default: {
+    key: 'default', name: 'Business Loan',
+    minAmount: 1000, maxAmount: 50000000,
+    maxLtv: null, minDscr: 1.25, minCreditScore: null, minYearsInBusiness: 1,
+    maxRevenuePct: null, minEquityPct: null,
+    interestRateRange: { min: 4.0, max: 10.0 }, amortizationMonths: 120,
+    termOptions: ['2 years', '5 years', '10 years'],
+    collateralRequirements: ['Collateral as determined at underwriting'],
+    requirements: ['Business plan or project description'],
+    requiredDocumentCategories: [],
+  },
+};
+
+// Display labels some forms submit as loan_type, and legacy enum values.
+const LOAN_TYPE_ALIASES: Record<string, string> = {
+  'sba 7(a) loan': 'sba_7a',
+  'sba 504 loan': 'sba_504',
+  'sba express loan': 'sba_express',
+  'usda b&i loan': 'usda_bi',
+  'business line of credit': 'business_line_of_credit',
+  'conventional loan': 'conventional',
+  'term loan': 'term_loan',
+  'factoring': 'invoice_factoring',
+};
+
+/** Map a submitted loan_type (product key, form label or legacy value) to a product key. */
+export function normalizeLoanType(loanType: string): string {
+  const raw = (loanType || '').trim();
+  if (PRODUCT_RULES[raw]) return raw;
+  return LOAN_TYPE_ALIASES[raw.toLowerCase()] ?? raw;
+}
+
+export function getProductRules(loanType: string): ProductEligibilityRules {
+  return PRODUCT_RULES[normalizeLoanType(loanType)] ?? PRODUCT_RULES.default;
+}
+
+export interface LoanProductRow {
+  key: string;
+  name: string;
+  min_amount: number | string | null;
+  max_amount: number | string | null;
+  interest_rate_min: number | string | null;
+  interest_rate_max: number | string | null;
+  term_options: string[] | null;
+  required_document_categories: string[] | null;
+  eligibility_thresholds: Record<string, number | null> | null;
+}
+
+const THRESHOLD_KEYS = ['maxLtv', 'minDscr', 'minCreditScore', 'minYearsInBusiness', 'maxRevenuePct', 'minEquityPct'] as const;
+
+/**
+ * Overlay a loan_products row on the code defaults. Only values the admin
+ * has set replace a default; a threshold explicitly set to null disables it.
+ */
+export function mergeProductRules(row: LoanProductRow): ProductEligibilityRules {
+  const base = PRODUCT_RULES[row.key] ?? { ...PRODUCT_RULES.default, key: row.key };
+  const rules: ProductEligibilityRules = { ...base, interestRateRange: { ...base.interestRateRange } };
+
+  rules.name = row.name || base.name;
+  rules.minAmount = toNumber(row.min_amount) ?? base.minAmount;
+  rules.maxAmount = toNumber(row.max_amount) ?? base.maxAmount;
+  rules.interestRateRange.min = toNumber(row.interest_rate_min) ?? base.interestRateRange.min;
+  rules.interestRateRange.max = toNumber(row.interest_rate_max) ?? base.interestRateRange.max;
+  if (row.term_options?.length) rules.termOptions = row.term_options;
+  rules.requiredDocumentCategories = row.required_document_categories ?? [];
+
+  const thresholds = row.eligibility_thresholds || {};
+  for (const key of THRESHOLD_KEYS) {
+    if (!(key in thresholds)) continue;
+    const value = toNumber(thresholds[key]);
+    if (key === 'minYearsInBusiness') rules.minYearsInBusiness = value ?? 0;
+    else rules[key] = value;
+  }
+
+  return rules;
+}
+
+/** Load the current catalog settings for a product; falls back to the code defaults. */
+export async function loadProductRules(supabase: SupabaseClient, loanType: string): Promise<ProductEligibilityRules> {
+  const key = normalizeLoanType(loanType);
+  try {
+    const { data, error } = await supabase
+      .from('loan_products')
+      .select('key, name, min_amount, max_amount, interest_rate_min, interest_rate_max, term_options, required_document_categories, eligibility_thresholds')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return getProductRules(key);
+
+    return mergeProductRules(data as LoanProductRow);
+  } catch (error) {
+    console.error('Failed to load loan product settings:', error);
+    return getProductRules(key);
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]/g, ''));
+  return Number.isFinite(n) ? n : null;
+}
+
+function pick(details: Record<string, unknown>, ...keys: string[]): number | null {
+  for (const key of keys) {
+    const n = toNumber(details[key]);
+    if (n !== null) return n;
+  }
+  return null;
+}
+
+/** Standard amortizing payment; annualRate is a percentage. */
+export function monthlyPayment(principal: number, annualRate: number, months: number): number {
+  if (principal <= 0 || months <= 0) return 0;
+  const r = annualRate / 100 / 12;
+  if (r === 0) return principal / months;
+  return (principal * r * Math.pow(1 + r, months)) / (Math.pow(1 + r, months) - 1);
+}
+
+/** Inverse of monthlyPayment: the principal a given payment will service. */
+function principalForPayment(payment: number, annualRate: number, months: number): number {
+  if (payment <= 0 || months <= 0) return 0;
+  const r = annualRate / 100 / 12;
+  if (r === 0) return payment * months;
+  return (payment * (1 - Math.pow(1 + r, -months))) / r;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const money = (n: number) => `$${Math.round(n).toLocaleString()}`;
+
+/**
+ * Calculate product-specific eligibility. Pure: no I/O. Pass the rules from
+ * loadProductRules to apply the admin-configured catalog settings.
+ */
+export function calculateProductEligibility(
+  input: EligibilityInput,
+  rules: ProductEligibilityRules = getProductRules(input.loan_type)
+): EligibilityResult {
+  const details = (input.loan_details || {}) as Record<string, unknown>;
+  const amount = Number(input.amount_requested) || 0;
+  const reasons: string[] = [];
+  const requirements: string[] = [];
+
+  const monthlyRevenue = pick(details, 'monthlyRevenue', 'monthly_revenue');
+  const annualRevenue = pick(details, 'annualRevenue', 'annual_revenue') ?? (monthlyRevenue !== null ? monthlyRevenue * 12 : null);
+  const creditScore = pick(details, 'creditScore', 'credit_score');
+
+  // Cash flow available for debt service
+  let netIncome = pick(details, 'netIncome', 'net_income');
+  if (netIncome === null) {
+    const monthlyIncome = pick(details, 'monthly_income', 'monthlyIncome');
+    const monthlyExpenses = pick(details, 'monthly_expenses', 'monthlyExpenses');
+    if (monthlyIncome !== null) netIncome = monthlyIncome * 12;
+    else if (monthlyRevenue !== null && monthlyExpenses !== null) netIncome = (monthlyRevenue - monthlyExpenses) * 12;
+  }
+
+  // existing_loan_amount on a refinance is retired by the new loan, so it is not counted here
+  const currentDebt = pick(details, 'currentDebt', 'current_debt', 'existingDebt', 'existing_debt', 'outstandingDebt', 'outstanding_debt');
+
+  // Collateral value and the amount actually financed against it
+  let collateralValue = pick(details, 'property_value', 'propertyValue', 'collateralValue', 'collateral_value');
+  let financedAmount = amount;
+  if (rules.key === 'equipment_financing') {
+    collateralValue = collateralValue ?? pick(details, 'equipmentCost', 'equipment_cost') ?? amount;
+    financedAmount = Math.max(0, amount - (pick(details, 'downPayment', 'down_payment') ?? 0));
+  }
+
+  const midRate = (rules.interestRateRange.min + rules.interestRateRange.max) / 2;
+  const estimatedMonthlyPayment = monthlyPayment(financedAmount, midRate, rules.amortizationMonths);
+  const existingDebtService = currentDebt ? monthlyPayment(currentDebt, EXISTING_DEBT_RATE, EXISTING_DEBT_TERM_MONTHS) * 12 : 0;
+  const annualDebtService = estimatedMonthlyPayment * 12 + existingDebtService;
+
+  const caps: number[] = [rules.maxAmount];
+
+  // Time in business
+  if (input.years_in_business < rules.minYearsInBusiness) {
+    if (rules.minYearsInBusiness >= 2) {
+      requirements.push(`Businesses under ${rules.minYearsInBusiness} years require projections and a resume of management experience`);
+    } else {
+      reasons.push(`${rules.name} requires at least ${rules.minYearsInBusiness} year(s) in business`);
+    }
+  }
+
+  // Credit score
+  if (rules.minCreditScore !== null) {
+    if (creditScore === null) {
+      requirements.push(`Credit report (minimum score ${rules.minCreditScore})`);
+    } else if (creditScore < rules.minCreditScore) {
+      reasons.push(`Credit score ${creditScore} is below the ${rules.name} minimum of ${rules.minCreditScore}`);
+    }
+  }
+
+  // Loan-to-value
+  let ltv: number | null = null;
+  if (rules.maxLtv !== null) {
+    if (collateralValue && collateralValue > 0) {
+      ltv = round2(financedAmount / collateralValue);
+      caps.push(collateralValue * rules.maxLtv + (amount - financedAmount));
+      if (ltv > rules.maxLtv) {
+        reasons.push(`Loan-to-value of ${Math.round(ltv * 100)}% exceeds the ${Math.round(rules.maxLtv * 100)}% maximum`);
+      }
+    } else {
+      requirements.push(`Collateral valuation to confirm loan-to-value (maximum ${Math.round(rules.maxLtv * 100)}%)`);
+    }
+  }
+
+  // Debt service coverage
+  let dscr: number | null = null;
+  if (rules.minDscr !== null) {
+    if (netIncome !== null && annualDebtService > 0) {
+      dscr = round2(netIncome / annualDebtService);
+      const supportablePayment = (netIncome / rules.minDscr - existingDebtService) / 12;
+      caps.push(Math.max(0, principalForPayment(supportablePayment, midRate, rules.amortizationMonths)) + (amount - financedAmount));
+      if (dscr < rules.minDscr) {
+        reasons.push(`Debt service coverage of ${dscr.toFixed(2)}x is below the ${rules.minDscr.toFixed(2)}x minimum`);
+      }
+    } else {
+      requirements.push(`Net income or cash flow figures to confirm debt service coverage (minimum ${rules.minDscr.toFixed(2)}x)`);
+    }
+  }
+
+  // Revenue-sized products
+  if (rules.maxRevenuePct !== null) {
+    if (annualRevenue !== null) {
+      caps.push(annualRevenue * rules.maxRevenuePct);
+    } else {
+      requirements.push('Annual revenue to size the facility');
+    }
+  }
+
+  // Equity injection
+  if (rules.minEquityPct !== null) {
+    const ownerEquity = pick(details, 'ownerEquity', 'owner_equity');
+    if (ownerEquity !== null && amount > 0 && ownerEquity / amount < rules.minEquityPct) {
+      reasons.push(`Owner equity of ${money(ownerEquity)} is below the ${Math.round(rules.minEquityPct * 100)}% injection required`);
+    }
+  }
+
+  // Product-specific gates
+  if (rules.key === 'invoice_factoring') {
+    const receivables = pick(details, 'accountsReceivableBalance', 'accounts_receivable_balance');
+    const advanceRate = Math.min(pick(details, 'factorAdvanceRate', 'factor_advance_rate') ?? 80, 90) / 100;
+    if (receivables !== null) caps.push(receivables * advanceRate);
+    const badDebt = pick(details, 'badDebtPercentage', 'bad_debt_percentage');
+    if (badDebt !== null && badDebt > 5) reasons.push(`Bad debt of ${badDebt}% exceeds the 5% maximum for factoring`);
+  }
+  if (rules.key === 'usda_bi') {
+    const rural = String(details.ruralLocation ?? details.rural_location ?? '').toLowerCase();
+    if (rural === 'no') reasons.push('USDA B&I financing requires a project located in an eligible rural area');
+    else if (rural !== 'yes') requirements.push('USDA rural area eligibility determination');
+  }
+  if (rules.key === 'bridge_loan' && !details.exit_strategy && !details.exitStrategy) {
+    requirements.push('Exit strategy must be documented before approval');
+  }
+
+  const maxLoanAmount = Math.max(0, Math.floor(Math.min(...caps)));
+
+  if (amount < rules.minAmount) {
+    reasons.push(`Requested amount is below the ${rules.name} minimum of ${money(rules.minAmount)}`);
+  }
+  if (amount > rules.maxAmount) {
+    reasons.push(`Requested amount exceeds the ${rules.name} program cap of ${money(rules.maxAmount)}`);
+  } else if (amount > maxLoanAmount) {
+    reasons.push(`Requested amount exceeds maximum eligible amount of ${money(maxLoanAmount)}`);
+  }
+
+  return {
+    eligible: reasons.length === 0,
+    product: rules.key,
+    productName: rules.name,
+    maxLoanAmount,
+    interestRateRange: rules.interestRateRange,
+    termOptions: rules.termOptions,
+    collateralRequirements: rules.collateralRequirements,
+    requirements: [...requirements, ...GENERAL_REQUIREMENTS, ...rules.requirements],
+    requiredDocumentCategories: rules.requiredDocumentCategories,
+    reasons,
+    metrics: {
+      annualRevenue,
+      netIncome,
+      currentDebt,
+      creditScore,
+      collateralValue,
+      ltv,
+      dscr,
+      estimatedMonthlyPayment: round2(estimatedMonthlyPayment),
+      annualDebtService: annualDebtService > 0 ? round2(annualDebtService) : null,
+    },
+    thresholds: {
+      minAmount: rules.minAmount,
+      maxAmount: rules.maxAmount,
+      maxLtv: rules.maxLtv,
+      minDscr: rules.minDscr,
+      minCreditScore: rules.minCreditScore,
+      minYearsInBusiness: rules.minYearsInBusiness,
+      maxRevenuePct: rules.maxRevenuePct,
+      minEquityPct: rules.minEquityPct,
+    },
+  };
+}
@@ -1,6 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { loadActiveRuleSet, scoreApplication, type UnderwritingResult } from "../_shared/underwriting.ts";
+import { calculateProductEligibility, loadProductRules } from "./eligibility.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -179,6 +181,8 @@ interface ApplicationValidationResult {
   errors: string[];
   riskScore: number;
   autoApprovalEligible: boolean;
+  knockoutReasons: string[];
+  underwriting?: UnderwritingResult;
 }
 
 async function checkRateLimit(
@@ -358,7 +362,7 @@ Deno.serve(async (req) => {
             { status: 400, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
           );
         }
-        return await validateApplication(applicationData, rateLimitHeaders);
+        return await validateApplication(supabase, applicationData, rateLimitHeaders);
       
       case 'process':
         if (!applicationData) {
@@ -396,7 +400,7 @@ Deno.serve(async (req) => {
           );
         }
         
-        return await updateApplicationStatus(supabase, applicationId, applicationData.status, applicationData.notes, rateLimitHeaders);
+        return await updateApplicationStatus(supabase, userId, applicationId, applicationData.status, applicationData.notes, rateLimitHeaders);
       
       case 'calculate-eligibility':
         if (!applicationData) {
@@ -405,7 +409,7 @@ Deno.serve(async (req) => {
             { status: 400, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
           );
         }
-        return await calculateEligibility(applicationData, rateLimitHeaders);
+        return await calculateEligibility(supabase, applicationData, rateLimitHeaders);
 
       default:
         return new Response(
@@ -427,12 +431,13 @@ Deno.serve(async (req) => {
   }
 });
 
-async function validateApplication(applicationData: LoanApplicationData, rateLimitHeaders: Record<string, string>): Promise<Response> {
+async function validateApplication(supabase: SupabaseClient, applicationData: LoanApplicationData, rateLimitHeaders: Record<string, string>): Promise<Response> {
   const validation: ApplicationValidationResult = {
     isValid: true,
     errors: [],
     riskScore: 0,
-    autoApprovalEligible: false
+    autoApprovalEligible: false,
+    knockoutReasons: []
   };
 
   // Basic validation
@@ -475,40 +480,28 @@ async function validateApplication(applicationData: LoanApplicationData, rateLim
     validation.isValid = false;
   }
 
-  // Risk scoring algorithm
-  let riskScore = 50; // Base score
+  // Loan product must exist in the catalog and still be offered
+  const { data: product } = await supabase
+    .from('loan_products')
+    .select('key, is_active')
+    .eq('key', applicationData.loan_type)
+    .maybeSingle();
 
-  // Years in business factor
-  if (applicationData.years_in_business >= 5) {
-    riskScore -= 15;
-  } else if (applicationData.years_in_business >= 2) {
-    riskScore -= 8;
-  } else if (applicationData.years_in_business < 1) {
-    riskScore += 20;
+  if (!product?.is_active) {
+    validation.errors.push('Selected loan product is not available');
+    validation.isValid = false;
   }
 
-  // Loan amount factor
-  if (applicationData.amount_requested > 5000000) {
-    riskScore += 15;
-  } else if (applicationData.amount_requested < 100000) {
-    riskScore -= 5;
-  }
+  // Risk scoring against the active underwriting rule set for this product
+  const ruleSet = await loadActiveRuleSet(supabase, applicationData.loan_type);
+  const underwriting = scoreApplication(applicationData as unknown as Record<string, unknown>, ruleSet);
 
-  // Loan type factor
-  switch (applicationData.loan_type) {
-    case 'refinance':
-      riskScore -= 10;
-      break;
-    case 'bridge_loan':
-      riskScore += 10;
-      break;
-    case 'working_capital':
-      riskScore += 5;
-      break;
-  }
-
-  validation.riskScore = Math.max(0, Math.min(100, riskScore));
-  validation.autoApprovalEligible = validation.riskScore < 30 && validation.isValid;
+  validation.underwriting = underwriting;
+  validation.riskScore = underwriting.risk_score;
+  validation.knockoutReasons = underwriting.knockouts.map(k => k.reason);
+  validation.autoApprovalEligible = validation.isValid
+    && underwriting.knockouts.length === 0
+    && validation.riskScore < underwriting.auto_approval_max_score;
 
   return new Response(
     JSON.stringify(validation),
@@ -530,8 +523,8 @@ async function processApplication(supabase: any, applicationData: LoanApplicatio
     }
 
     // First validate the application
-    const validationResponse = await validateApplication(applicationData, rateLimitHeaders);
-    const validation = await validationResponse.json();
+    const validationResponse = await validateApplication(supabase, applicationData, rateLimitHeaders);
+    const validation: ApplicationValidationResult = await validationResponse.json();
 
     if (!validation.isValid) {
       return new Response(
@@ -544,13 +537,13 @@ async function processApplication(supabase: any, applicationData: LoanApplicatio
       );
     }
 
-    // Determine initial status based on risk score
-    let initialStatus = 'submitted';
-    if (validation.autoApprovalEligible) {
-      initialStatus = 'under_review';
-    } else if (validation.riskScore > 70) {
-      initialStatus = 'requires_review';
-    }
+    // Determine initial status based on risk score. Knockouts and high scores
+    // go in as submitted, flagged for manual review in loan_details.
+    const initialStatus = validation.autoApprovalEligible ? 'under_review' : 'submitted';
+    const requiresManualReview = !validation.autoApprovalEligible && (
+      validation.knockoutReasons.length > 0 ||
+      validation.riskScore > (validation.underwriting?.manual_review_min_score ?? 70)
+    );
 
     // Generate application number
     const applicationNumber = generateApplicationNumber();
@@ -567,7 +560,10 @@ async function processApplication(supabase: any, applicationData: LoanApplicatio
         loan_details: {
           ...applicationData.loan_details,
           risk_score: validation.riskScore,
-          auto_approval_eligible: validation.autoApprovalEligible
+          auto_approval_eligible: validation.autoApprovalEligible,
+          requires_manual_review: requiresManualReview,
+          knockout_reasons: validation.knockoutReasons,
+          underwriting: validation.underwriting
         }
       })
       .select()
@@ -578,7 +574,7 @@ async function processApplication(supabase: any, applicationData: LoanApplicatio
     }
 
     // Log application processing
-    console.log(`Application ${applicationNumber} processed with risk score: ${validation.riskScore}`);
+    console.log(`Application ${applicationNumber} processed with risk score: ${validation.riskScore} (rule set v${validation.underwriting?.rule_set_version})`);
 
     return new Response(
       JSON.stringify({
@@ -607,6 +603,7 @@ async function processApplication(supabase: any, applicationData: LoanApplicatio
 
 async function updateApplicationStatus(
   supabase: any, 
+  actorId: string,
   applicationId: string, 
   newStatus: string, 
   notes?: string,
@@ -614,17 +611,6 @@ async function updateApplicationStatus(
 ): Promise<Response> {
   const safeRateLimitHeaders = rateLimitHeaders ?? {};
   try {
-    // First, fetch the current loan_details to merge safely
-    const { data: currentApp, error: fetchError } = await supabase
-      .from('loan_applications')
-      .select('loan_details')
-      .eq('id', applicationId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
     // Comprehensive input sanitization for notes field
     // Prevents XSS and injection attacks by:
     // 1. Trimming whitespace
@@ -649,32 +635,50 @@ async function updateApplicationStatus(
     };
     
     const sanitizedNotes = sanitizeNotes(notes);
-    const updatedLoanDetails = {
-      ...(currentApp?.loan_details || {}),
-      status_notes: sanitizedNotes
-    };
 
-    const { data, error } = await supabase
-      .from('loan_applications')
-      .update({
-        status: newStatus,
-        updated_at: new Date().toISOString(),
-        loan_details: updatedLoanDetails
-      })
-      .eq('id', applicationId)
-      .select()
-      .single();
+    // The workflow checks the transition, the actor's role and the guards.
+    // This client uses the service role, so the actor is passed explicitly.
+    const { data: result, error } = await supabase.rpc('transition_application_status', {
+      _application_id: applicationId,
+      _to_status: newStatus,
+      _actor: actorId,
+      _notes: sanitizedNotes || null,
+    });
 
     if (error) {
       throw error;
     }
 
+    if (!result?.allowed) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: 'Status change not allowed',
+          reasons: result?.reasons ?? []
+        }),
+        { status: 409, headers: { ...corsHeaders, ...safeRateLimitHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Above the dual approval threshold the change waits for a second approver
+    if (result.pending_confirmation) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          pendingConfirmation: true,
+          decision: result.decision,
+          message: 'Status change is awaiting confirmation by a second approver'
+        }),
+        { status: 202, headers: { ...corsHeaders, ...safeRateLimitHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.log(`Application ${applicationId} status updated to: ${newStatus}`);
 
     return new Response(
       JSON.stringify({
         success: true,
-        application: data,
+        application: result.application,
         message: 'Application status updated successfully'
       }),
       { headers: { ...corsHeaders, ...safeRateLimitHeaders, 'Content-Type': 'application/json' } }
@@ -693,66 +697,9 @@ async function updateApplicationStatus(
   }
 }
 
-async function calculateEligibility(applicationData: LoanApplicationData, rateLimitHeaders: Record<string, string>): Promise<Response> {
-  const eligibility = {
-    eligible: true,
-    maxLoanAmount: 0,
-    interestRateRange: { min: 0, max: 0 },
-    termOptions: [] as string[],
-    requirements: [] as string[],
-    reasons: [] as string[]
-  };
-
-  // Calculate max loan amount based on business age and type
-  let baseAmount = 1000000; // $1M base
-  
-  if (applicationData.years_in_business >= 5) {
-    baseAmount *= 5;
-  } else if (applicationData.years_in_business >= 2) {
-    baseAmount *= 2;
-  } else if (applicationData.years_in_business < 1) {
-    baseAmount *= 0.5;
-    eligibility.requirements.push('Minimum 1 year in business preferred');
-  }
-
-  // Adjust based on loan type
-  switch (applicationData.loan_type) {
-    case 'refinance':
-      baseAmount *= 1.2;
-      eligibility.interestRateRange = { min: 3.5, max: 6.5 };
-      eligibility.termOptions = ['5 years', '10 years', '15 years', '20 years', '25 years'];
-      break;
-    case 'bridge_loan':
-      baseAmount *= 0.8;
-      eligibility.interestRateRange = { min: 6.0, max: 12.0 };
-      eligibility.termOptions = ['6 months', '12 months', '18 months', '24 months'];
-      break;
-    case 'working_capital':
-      baseAmount *= 0.6;
-      eligibility.interestRateRange = { min: 4.0, max: 8.0 };
-      eligibility.termOptions = ['1 year', '2 years', '3 years', '5 years'];
-      break;
-    default:
-      eligibility.interestRateRange = { min: 4.0, max: 10.0 };
-      eligibility.termOptions = ['2 years', '5 years', '10 years'];
-  }
-
-  eligibility.maxLoanAmount = Math.min(baseAmount, 50000000);
-
-  // Check if requested amount exceeds eligibility
-  if (applicationData.amount_requested > eligibility.maxLoanAmount) {
-    eligibility.eligible = false;
-    eligibility.reasons.push(`Requested amount exceeds maximum eligible amount of $${eligibility.maxLoanAmount.toLocaleString()}`);
-  }
-
-  // Add general requirements
-  eligibility.requirements.push(
-    'Valid business license',
-    'Financial statements (last 2 years)',
-    'Tax returns (business and personal)',
-    'Bank statements (last 6 months)',
-    'Business plan or project description'
-  );
+async function calculateEligibility(supabase: SupabaseClient, applicationData: LoanApplicationData, rateLimitHeaders: Record<string, string>): Promise<Response> {
+  const rules = await loadProductRules(supabase, applicationData.loan_type);
+  const eligibility = calculateProductEligibility(applicationData, rules);
 
   return new Response(
     JSON.stringify(eligibility),
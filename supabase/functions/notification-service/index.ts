@@ -1,6 +1,11 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { dispatchNotification, type DispatchResult } from "../_shared/dispatch.ts";
+import { deliverEmail } from "../_shared/email.ts";
+import { enqueueNotification, enqueueWebhookNotifications } from "../_shared/outbox.ts";
+import { deliverSms, normalizePhone } from "../_shared/sms.ts";
+import { loadTemplate, renderNotificationTemplate, renderTemplate, sampleTemplateData, type TemplateChannel, type TemplateRenderResult } from "../_shared/templates.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,6 +20,11 @@ const RATE_LIMITS: Record<string, { maxRequests: number; windowSeconds: number }
   'application-status-change': { maxRequests: 100, windowSeconds: 60 }, // 100 per minute
   'loan-funded': { maxRequests: 20, windowSeconds: 60 },       // 20 per minute (admin only)
   'send-external': { maxRequests: 30, windowSeconds: 60 },     // 30 per minute (admin only)
+  'preview-template': { maxRequests: 60, windowSeconds: 60 },  // 60 per minute (admin only)
+  'dispatch': { maxRequests: 30, windowSeconds: 60 },          // 30 per minute
+  'get-sms-settings': { maxRequests: 30, windowSeconds: 60 },  // 30 per minute
+  'update-sms-settings': { maxRequests: 10, windowSeconds: 60 }, // 10 per minute
+  'requeue-outbox': { maxRequests: 30, windowSeconds: 60 },    // 30 per minute (admin only)
 };
 
 interface RateLimitResult {
@@ -30,16 +40,46 @@ interface NotificationData {
   template: string;
   data: any;
   applicationId?: string;
+  // Recipient's account, when the email goes to a registered user
+  userId?: string;
 }
 
-interface EmailTemplate {
-  subject: string;
-  html: string;
-  text: string;
+// Admin editor preview: stored template rendered with any unsaved wording
+interface TemplatePreviewRequest {
+  templateKey?: string;
+  channel?: TemplateChannel;
+  subject?: string | null;
+  htmlBody?: string | null;
+  textBody?: string;
+  applicationId?: string;
+}
+
+// Preference-aware send of one event to a user
+interface DispatchEventRequest {
+  event?: string;
+  userId?: string;
+  applicationId?: string;
+  recipient?: string;
+  data?: Record<string, unknown>;
+}
+
+// Client used to record deliveries and the user whose request sent them
+interface SendContext {
+  supabase: SupabaseClient;
+  userId: string;
+  userEmail?: string;
 }
 
+const smsSettingsSchema = z.object({
+  phone: z.string().max(30).nullable(),
+  optIn: z.boolean(),
+  quietHoursStart: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+  quietHoursEnd: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+  timezone: z.string().max(64).refine(isValidTimeZone, 'Unknown time zone'),
+});
+
 // Actions that require admin role
-const ADMIN_ONLY_ACTIONS = ['loan-funded', 'send-external', 'send-bulk'];
+const ADMIN_ONLY_ACTIONS = ['loan-funded', 'send-external', 'send-bulk', 'preview-template', 'requeue-outbox'];
 
 async function checkRateLimit(
   supabase: any,
@@ -147,7 +187,7 @@ Deno.serve(async (req) => {
 
     // Validation schema for request body
     const requestSchema = z.object({
-      action: z.enum(['send', 'send-bulk', 'get-templates', 'application-status-change', 'loan-funded', 'send-external']),
+      action: z.enum(['send', 'send-bulk', 'get-templates', 'application-status-change', 'loan-funded', 'send-external', 'preview-template', 'dispatch', 'get-sms-settings', 'update-sms-settings', 'requeue-outbox']),
       notificationData: z.any().optional()
     });
 
@@ -171,7 +211,24 @@ Deno.serve(async (req) => {
       monthlyPayment: z.number().min(0).max(10000000).optional(),
       interestRate: z.number().min(0).max(100).optional(),
       termMonths: z.number().int().min(1).max(600).optional(),
-      userId: z.string().uuid().optional()
+      userId: z.string().uuid().optional(),
+      // Template preview: unsaved wording from the admin editor
+      templateKey: z.string().max(100).optional(),
+      channel: z.enum(['email', 'sms']).optional(),
+      subject: z.string().max(500).nullable().optional(),
+      htmlBody: z.string().max(50000).nullable().optional(),
+      textBody: z.string().max(20000).optional(),
+      // Dispatch: template and preference key of the event
+      event: z.string().max(100).optional(),
+      // SMS settings, validated by smsSettingsSchema
+      phone: z.string().max(30).nullable().optional(),
+      optIn: z.boolean().optional(),
+      quietHoursStart: z.string().max(5).optional(),
+      quietHoursEnd: z.string().max(5).optional(),
+      timezone: z.string().max(64).optional(),
+      // Outbox: makes repeated status-change, loan-funded and webhook requests safe
+      idempotencyKey: z.string().max(200).optional(),
+      outboxId: z.string().uuid().optional()
     });
 
     const body = await req.json();
@@ -265,24 +322,48 @@ Deno.serve(async (req) => {
     // Log the action for audit purposes
     console.log(`User ${user.id} executing action: ${action}`);
 
+    const ctx: SendContext = { supabase, userId: user.id, userEmail: user.email };
+
     switch (action) {
       case 'send':
-        return await sendNotification(notificationData, rateLimitHeaders);
+        // Texts go to arbitrary numbers, so only admins may send them directly
+        if (notificationData?.type === 'sms' && !(await isAdmin(supabase, user.id))) {
+          return new Response(
+            JSON.stringify({ error: 'Forbidden - admin role required to send SMS directly' }),
+            { status: 403, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return await sendNotification(ctx, notificationData, rateLimitHeaders);
       
       case 'send-bulk':
-        return await sendBulkNotifications(notificationData.notifications, rateLimitHeaders);
+        return await sendBulkNotifications(ctx, notificationData.notifications, rateLimitHeaders);
       
       case 'get-templates':
-        return await getEmailTemplates(rateLimitHeaders);
+        return await getEmailTemplates(supabase, rateLimitHeaders);
 
       case 'application-status-change':
-        return await handleApplicationStatusChange(supabase, notificationData, rateLimitHeaders);
+        return await handleApplicationStatusChange(ctx, notificationData, rateLimitHeaders);
 
       case 'loan-funded':
-        return await handleLoanFunded(supabase, notificationData, rateLimitHeaders);
+        return await handleLoanFunded(ctx, notificationData, rateLimitHeaders);
 
       case 'send-external':
-        return await sendExternalNotifications(supabase, notificationData, rateLimitHeaders);
+        return await sendExternalNotifications(ctx, notificationData, rateLimitHeaders);
+
+      case 'preview-template':
+        return await previewTemplate(supabase, notificationData, rateLimitHeaders);
+
+      case 'dispatch':
+        return await dispatchEvent(ctx, notificationData, rateLimitHeaders);
+
+      case 'get-sms-settings':
+        return await getSmsSettings(ctx, rateLimitHeaders);
+
+      case 'update-sms-settings':
+        return await updateSmsSettings(ctx, notificationData, rateLimitHeaders);
+
+      case 'requeue-outbox':
+        return await requeueOutbox(ctx, notificationData, rateLimitHeaders);
 
       default:
         return new Response(
@@ -300,15 +381,15 @@ Deno.serve(async (req) => {
   }
 });
 
-async function sendNotification(notificationData: NotificationData, rateLimitHeaders: Record<string, string>): Promise<Response> {
+async function sendNotification(ctx: SendContext, notificationData: NotificationData, rateLimitHeaders: Record<string, string>): Promise<Response> {
   try {
     console.log(`Sending ${notificationData.type} notification to ${notificationData.recipient}`);
 
     switch (notificationData.type) {
       case 'email':
-        return await sendEmail(notificationData, rateLimitHeaders);
+        return await sendEmail(ctx, notificationData, rateLimitHeaders);
       case 'sms':
-        return await sendSMS(notificationData, rateLimitHeaders);
+        return await sendSMS(ctx, notificationData, rateLimitHeaders);
       case 'system':
         return await createSystemNotification(notificationData, rateLimitHeaders);
       default:
@@ -326,24 +407,50 @@ async function sendNotification(notificationData: NotificationData, rateLimitHea
   }
 }
 
-async function sendEmail(notificationData: NotificationData, rateLimitHeaders: Record<string, string>): Promise<Response> {
+async function sendEmail(ctx: SendContext, notificationData: NotificationData, rateLimitHeaders: Record<string, string>): Promise<Response> {
   try {
-    const template = getEmailTemplate(notificationData.template, notificationData.data);
-    
-    console.log('EMAIL NOTIFICATION:');
-    console.log('To:', notificationData.recipient);
-    console.log('Subject:', template.subject);
-    console.log('Content:', template.text);
-    
+    const result = await renderNotificationTemplate(ctx.supabase, notificationData.template, 'email', notificationData.data ?? {});
+    if (result.status !== 'rendered') {
+      return templateUnavailable(result, notificationData.template, 'email', rateLimitHeaders);
+    }
+    const template = result.rendered;
+
+    const delivery = await deliverEmail(ctx.supabase, {
+      to: notificationData.recipient,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+    }, {
+      template: notificationData.template,
+      userId: notificationData.userId,
+      applicationId: notificationData.applicationId,
+      triggeredBy: ctx.userId,
+      metadata: { template_version: template.version },
+    });
+
     const emailLog = {
+      deliveryId: delivery.id,
       timestamp: new Date().toISOString(),
       recipient: notificationData.recipient,
       template: notificationData.template,
       subject: template.subject,
-      status: 'sent',
+      provider: delivery.provider,
+      providerMessageId: delivery.providerMessageId,
+      status: delivery.status,
       application_id: notificationData.applicationId
     };
 
+    if (delivery.status !== 'sent') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: delivery.status === 'bounced' ? 'Email was rejected by the recipient server' : 'Failed to send email',
+          emailLog
+        }),
+        { status: 502, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -365,29 +472,56 @@ async function sendEmail(notificationData: NotificationData, rateLimitHeaders: R
   }
 }
 
-async function sendSMS(notificationData: NotificationData, rateLimitHeaders: Record<string, string>): Promise<Response> {
+async function sendSMS(ctx: SendContext, notificationData: NotificationData, rateLimitHeaders: Record<string, string>): Promise<Response> {
   try {
-    const message = getSMSTemplate(notificationData.template, notificationData.data);
-    
-    console.log('SMS NOTIFICATION:');
-    console.log('To:', notificationData.recipient);
-    console.log('Message:', message);
-    
+    const phone = normalizePhone(notificationData.recipient);
+    if (!phone) {
+      return new Response(
+        JSON.stringify({ success: false, message: 'Invalid phone number' }),
+        { status: 400, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await renderNotificationTemplate(ctx.supabase, notificationData.template, 'sms', notificationData.data ?? {});
+    if (result.status !== 'rendered') {
+      return templateUnavailable(result, notificationData.template, 'sms', rateLimitHeaders);
+    }
+
+    const delivery = await deliverSms(ctx.supabase, { to: phone, body: result.rendered.text }, {
+      template: notificationData.template,
+      userId: notificationData.userId,
+      applicationId: notificationData.applicationId,
+      triggeredBy: ctx.userId,
+      metadata: { template_version: result.rendered.version },
+    });
+
     const smsLog = {
+      deliveryId: delivery.id,
       timestamp: new Date().toISOString(),
-      recipient: notificationData.recipient,
+      recipient: phone,
       template: notificationData.template,
-      message: message,
-      status: 'sent',
+      provider: delivery.provider,
+      providerMessageId: delivery.providerMessageId,
+      status: delivery.status,
+      reason: delivery.reason,
+      sendAfter: delivery.sendAfter,
       application_id: notificationData.applicationId
     };
 
+    if (delivery.status === 'failed') {
+      return new Response(
+        JSON.stringify({ success: false, message: 'Failed to send SMS', smsLog }),
+        { status: 502, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const messages = {
+      sent: 'SMS notification sent successfully',
+      deferred: 'SMS held until the recipient\'s quiet hours end',
+      suppressed: 'SMS not sent: the recipient has not opted in or has reached the daily limit',
+    };
     return new Response(
-      JSON.stringify({
-        success: true,
-        message: 'SMS notification sent successfully',
-        smsLog
-      }),
+      JSON.stringify({ success: delivery.status !== 'suppressed', message: messages[delivery.status], smsLog }),
       { headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
     );
 
@@ -415,24 +549,32 @@ async function createSystemNotification(notificationData: NotificationData, rate
   );
 }
 
-async function handleApplicationStatusChange(supabase: any, notificationData: any, rateLimitHeaders: Record<string, string>): Promise<Response> {
+// Status-change, loan-funded and webhook notifications go through the outbox so
+// a provider outage is retried instead of lost
+function outboxKey(prefix: string, notificationData: { idempotencyKey?: string }): string {
+  return `${prefix}:${notificationData.idempotencyKey ?? crypto.randomUUID()}`;
+}
+
+function queuedResponse(body: Record<string, unknown>, rateLimitHeaders: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({ success: true, queued: true, ...body }),
+    { status: 202, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+async function handleApplicationStatusChange(ctx: SendContext, notificationData: any, rateLimitHeaders: Record<string, string>): Promise<Response> {
   try {
     const { applicationId, newStatus, applicantEmail, applicantName, applicationNumber } = notificationData;
 
-    const emailNotification: NotificationData = {
-      type: 'email',
-      recipient: applicantEmail,
-      template: `application_${newStatus}`,
-      data: {
-        applicantName,
-        applicationNumber,
-        newStatus,
-        timestamp: new Date().toISOString()
-      },
-      applicationId
-    };
+    const outboxId = await enqueueNotification(ctx.supabase, {
+      event: 'application_status_change',
+      payload: { applicationId, newStatus, applicantEmail, applicantName, applicationNumber },
+      idempotencyKey: outboxKey(`application_status_change:${applicationId ?? 'none'}:${newStatus}`, notificationData),
+      applicationId,
+      createdBy: ctx.userId,
+    });
 
-    return await sendNotification(emailNotification, rateLimitHeaders);
+    return queuedResponse({ outboxId }, rateLimitHeaders);
 
   } catch (error) {
     console.error('Error handling application status change:', error);
@@ -446,81 +588,32 @@ async function handleApplicationStatusChange(supabase: any, notificationData: an
   }
 }
 
-async function handleLoanFunded(supabase: any, notificationData: any, rateLimitHeaders: Record<string, string>): Promise<Response> {
+async function handleLoanFunded(ctx: SendContext, notificationData: any, rateLimitHeaders: Record<string, string>): Promise<Response> {
+  const { supabase } = ctx;
   try {
-    const { applicantEmail, applicantName, loanNumber, loanAmount, loanType, monthlyPayment, interestRate, termMonths, userId } = notificationData;
-
-    console.log('Sending loan funded notification to:', applicantEmail);
-
-    // Send to external webhooks (Slack/Discord)
-    try {
-      await sendExternalNotifications(supabase, {
-        eventType: 'loan_funded',
-        title: '🎉 Loan Funded',
-        message: `${loanType} loan of ${formatCurrency(loanAmount)} has been funded for ${applicantName}`,
-        data: {
-          loanAmount: formatCurrency(loanAmount),
-          loanType,
-          applicantName,
-          loanNumber,
-          monthlyPayment: formatCurrency(monthlyPayment),
-          interestRate: `${interestRate.toFixed(2)}%`,
-          termMonths: `${termMonths} months`
-        }
-      }, rateLimitHeaders);
-    } catch (error) {
-      console.error('Error sending to external webhooks:', error);
-    }
-
-    // Create in-app notification
-    if (userId) {
-      try {
-        const { error: notifError } = await supabase
-          .from('notifications')
-          .insert({
-            user_id: userId,
-            title: 'Loan Funded Successfully!',
-            message: `Your ${loanType} loan of ${formatCurrency(loanAmount)} has been approved and funded. Monthly payment: ${formatCurrency(monthlyPayment)}`,
-            type: 'success',
-            action_url: '/existing-loans',
-            metadata: {
-              loanNumber,
-              loanAmount,
-              loanType,
-              monthlyPayment,
-              interestRate,
-              termMonths,
-            },
-          });
-
-        if (notifError) {
-          console.error('Error creating in-app notification:', notifError);
-        } else {
-          console.log('In-app notification created successfully for user:', userId);
-        }
-      } catch (error) {
-        console.error('Error creating in-app notification:', error);
-      }
-    }
+    const { applicantEmail, applicantName, loanNumber, loanAmount, loanType, monthlyPayment, interestRate, termMonths, userId, applicationId } = notificationData;
+    const idempotencyKey = outboxKey(`loan_funded:${applicationId ?? loanNumber ?? 'none'}`, notificationData);
+
+    const outboxId = await enqueueNotification(supabase, {
+      event: 'loan_funded',
+      payload: { applicationId, userId, applicantEmail, applicantName, loanNumber, loanAmount, loanType, monthlyPayment, interestRate, termMonths },
+      idempotencyKey,
+      applicationId,
+      createdBy: ctx.userId,
+    });
 
-    // Send email notification
-    const emailNotification: NotificationData = {
-      type: 'email',
-      recipient: applicantEmail,
-      template: 'loan_funded',
-      data: {
-        applicantName,
-        loanNumber,
-        loanAmount: formatCurrency(loanAmount),
-        loanType,
-        monthlyPayment: formatCurrency(monthlyPayment),
-        interestRate: interestRate.toFixed(2),
-        termMonths,
-        timestamp: new Date().toISOString()
-      }
-    };
+    // Slack/Discord
+    const webhooksQueued = await enqueueWebhookNotifications(supabase, {
+      eventType: 'loan_funded',
+      title: '🎉 Loan Funded',
+      message: `${loanType} loan of ${formatCurrency(loanAmount)} has been funded for ${applicantName}`,
+      data: { loanAmount: formatCurrency(loanAmount), loanType, applicantName, loanNumber },
+      idempotencyKey,
+      applicationId,
+      createdBy: ctx.userId,
+    });
 
-    return await sendNotification(emailNotification, rateLimitHeaders);
+    return queuedResponse({ outboxId, webhooksQueued }, rateLimitHeaders);
 
   } catch (error) {
     console.error('Error handling loan funded notification:', error);
@@ -543,69 +636,27 @@ function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
-async function sendExternalNotifications(supabase: any, notificationData: any, rateLimitHeaders: Record<string, string>): Promise<Response> {
+async function sendExternalNotifications(ctx: SendContext, notificationData: any, rateLimitHeaders: Record<string, string>): Promise<Response> {
   try {
-    const { eventType, title, message, data } = notificationData;
-
-    // Get all active webhooks for this event type
-    const { data: webhooks, error } = await supabase
-      .from('external_notification_webhooks')
-      .select('*')
-      .eq('is_active', true)
-      .contains('event_types', [eventType]);
-
-    if (error) {
-      console.error('Error fetching webhooks:', error);
+    const { eventType, title, message, data } = notificationData ?? {};
+    if (!eventType || !title || !message) {
       return new Response(
-        JSON.stringify({ success: false, error: 'Failed to fetch webhooks' }),
-        { status: 500, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ success: false, error: 'eventType, title and message are required' }),
+        { status: 400, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (!webhooks || webhooks.length === 0) {
-      return new Response(
-        JSON.stringify({ success: true, message: 'No active webhooks for this event type' }),
-        { headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const results = [];
-
-    for (const webhook of webhooks) {
-      try {
-        const payload = webhook.platform === 'slack' 
-          ? formatSlackMessage(title, message, data)
-          : formatDiscordMessage(title, message, data);
-
-        const response = await fetch(webhook.webhook_url, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(payload),
-        });
-
-        results.push({
-          webhook: webhook.name,
-          platform: webhook.platform,
-          success: response.ok,
-          status: response.status,
-        });
-
-        console.log(`Sent notification to ${webhook.platform} webhook: ${webhook.name}`, response.ok);
-      } catch (error) {
-        console.error(`Error sending to ${webhook.platform} webhook ${webhook.name}:`, error);
-        results.push({
-          webhook: webhook.name,
-          platform: webhook.platform,
-          success: false,
-          error: 'Failed to send'
-        });
-      }
-    }
+    // One outbox row per subscribed webhook, so each platform is retried on its own
+    const webhooksQueued = await enqueueWebhookNotifications(ctx.supabase, {
+      eventType,
+      title,
+      message,
+      data,
+      idempotencyKey: outboxKey(`external:${eventType}`, notificationData),
+      createdBy: ctx.userId,
+    });
 
-    return new Response(
-      JSON.stringify({ success: true, results }),
-      { headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
-    );
+    return queuedResponse({ webhooksQueued }, rateLimitHeaders);
 
   } catch (error) {
     console.error('Error in sendExternalNotifications:', error);
@@ -616,86 +667,18 @@ async function sendExternalNotifications(supabase: any, notificationData: any, r
   }
 }
 
-function formatSlackMessage(title: string, message: string, data: any) {
-  const fields = [];
-  
-  if (data) {
-    if (data.loanAmount) fields.push({ type: 'mrkdwn', text: `*Amount:*\n${data.loanAmount}` });
-    if (data.loanType) fields.push({ type: 'mrkdwn', text: `*Type:*\n${data.loanType}` });
-    if (data.applicantName) fields.push({ type: 'mrkdwn', text: `*Applicant:*\n${data.applicantName}` });
-    if (data.applicationNumber) fields.push({ type: 'mrkdwn', text: `*Application #:*\n${data.applicationNumber}` });
-  }
-
-  return {
-    text: `${title}: ${message}`,
-    blocks: [
-      {
-        type: 'header',
-        text: {
-          type: 'plain_text',
-          text: title,
-          emoji: true
-        }
-      },
-      {
-        type: 'section',
-        text: {
-          type: 'mrkdwn',
-          text: message
-        }
-      },
-      ...(fields.length > 0 ? [{
-        type: 'section',
-        fields: fields
-      }] : []),
-      {
-        type: 'context',
-        elements: [
-          {
-            type: 'mrkdwn',
-            text: `Sent from Heritage Business Funding | ${new Date().toLocaleString()}`
-          }
-        ]
-      }
-    ]
-  };
-}
-
-function formatDiscordMessage(title: string, message: string, data: any) {
-  const fields = [];
-  
-  if (data) {
-    if (data.loanAmount) fields.push({ name: 'Amount', value: data.loanAmount, inline: true });
-    if (data.loanType) fields.push({ name: 'Type', value: data.loanType, inline: true });
-    if (data.applicantName) fields.push({ name: 'Applicant', value: data.applicantName, inline: true });
-    if (data.applicationNumber) fields.push({ name: 'Application #', value: data.applicationNumber, inline: true });
-  }
-
-  return {
-    embeds: [{
-      title,
-      description: message,
-      color: 0x00d26a,
-      fields: fields.length > 0 ? fields : undefined,
-      timestamp: new Date().toISOString(),
-      footer: {
-        text: 'Heritage Business Funding'
-      }
-    }]
-  };
-}
-
-async function sendBulkNotifications(notifications: NotificationData[], rateLimitHeaders: Record<string, string>): Promise<Response> {
+async function sendBulkNotifications(ctx: SendContext, notifications: NotificationData[], rateLimitHeaders: Record<string, string>): Promise<Response> {
   try {
     const results = await Promise.all(
-      notifications.map(notification => sendNotification(notification, rateLimitHeaders))
+      notifications.map(notification => sendNotification(ctx, notification, rateLimitHeaders))
     );
 
     return new Response(
       JSON.stringify({
         success: true,
         message: 'Bulk notifications processed',
-        resultsCount: results.length
+        resultsCount: results.length,
+        failedCount: results.filter(result => !result.ok).length
       }),
       { headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
     );
@@ -709,101 +692,213 @@ async function sendBulkNotifications(notifications: NotificationData[], rateLimi
   }
 }
 
-async function getEmailTemplates(rateLimitHeaders: Record<string, string>): Promise<Response> {
-  const templates = {
-    application_submitted: {
-      subject: 'Application Received - Heritage Business Funding',
-      description: 'Sent when a new application is submitted'
-    },
-    application_under_review: {
-      subject: 'Application Under Review - Heritage Business Funding',
-      description: 'Sent when application moves to review stage'
-    },
-    application_approved: {
-      subject: 'Congratulations! Your Application is Approved',
-      description: 'Sent when application is approved'
-    },
-    application_rejected: {
-      subject: 'Application Update - Heritage Business Funding',
-      description: 'Sent when application is declined'
-    },
-    loan_funded: {
-      subject: 'Your Loan Has Been Funded!',
-      description: 'Sent when loan is funded'
-    },
-    document_required: {
-      subject: 'Document Required - Heritage Business Funding',
-      description: 'Sent when additional documents are needed'
-    },
-    payment_reminder: {
-      subject: 'Payment Reminder - Heritage Business Funding',
-      description: 'Sent before payment due date'
-    },
-    welcome: {
-      subject: 'Welcome to Heritage Business Funding',
-      description: 'Sent to new users'
-    }
-  };
+// Missing templates are a caller error; disabled ones are skipped on purpose
+function templateUnavailable(result: Exclude<TemplateRenderResult, { status: 'rendered' }>, key: string, channel: TemplateChannel, rateLimitHeaders: Record<string, string>): Response {
+  if (result.status === 'disabled') {
+    console.log(`Skipping ${channel} notification: template ${key} is disabled`);
+    return new Response(
+      JSON.stringify({ success: false, skipped: true, message: `The ${key} ${channel} template is disabled` }),
+      { headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+  return new Response(
+    JSON.stringify({ success: false, message: `No ${channel} template named ${key}` }),
+    { status: 404, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+async function getEmailTemplates(supabase: SupabaseClient, rateLimitHeaders: Record<string, string>): Promise<Response> {
+  const { data, error } = await supabase
+    .from('notification_templates')
+    .select('template_key, channel, name, description, subject, variables, is_enabled, version')
+    .order('template_key');
+  if (error) throw error;
+
+  const templates: Record<string, unknown> = {};
+  const smsTemplates: Record<string, unknown> = {};
+  for (const t of data || []) {
+    const entry = { name: t.name, subject: t.subject, description: t.description, variables: t.variables, enabled: t.is_enabled, version: t.version };
+    if (t.channel === 'email') templates[t.template_key] = entry;
+    else smsTemplates[t.template_key] = entry;
+  }
 
   return new Response(
-    JSON.stringify({ templates }),
+    JSON.stringify({ templates, smsTemplates }),
     { headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
   );
 }
 
-function getEmailTemplate(templateName: string, data: any): EmailTemplate {
-  const templates: Record<string, (data: any) => EmailTemplate> = {
-    application_submitted: (data) => ({
-      subject: 'Application Received - Heritage Business Funding',
-      html: `<h1>Thank you, ${data.applicantName}!</h1><p>Your application #${data.applicationNumber} has been received.</p>`,
-      text: `Thank you, ${data.applicantName}! Your application #${data.applicationNumber} has been received.`
-    }),
-    application_under_review: (data) => ({
-      subject: 'Application Under Review - Heritage Business Funding',
-      html: `<h1>Hello, ${data.applicantName}</h1><p>Your application #${data.applicationNumber} is now under review.</p>`,
-      text: `Hello, ${data.applicantName}. Your application #${data.applicationNumber} is now under review.`
-    }),
-    application_approved: (data) => ({
-      subject: 'Congratulations! Your Application is Approved',
-      html: `<h1>Great news, ${data.applicantName}!</h1><p>Your application #${data.applicationNumber} has been approved!</p>`,
-      text: `Great news, ${data.applicantName}! Your application #${data.applicationNumber} has been approved!`
-    }),
-    application_rejected: (data) => ({
-      subject: 'Application Update - Heritage Business Funding',
-      html: `<h1>Hello, ${data.applicantName}</h1><p>We regret to inform you that your application #${data.applicationNumber} was not approved.</p>`,
-      text: `Hello, ${data.applicantName}. We regret to inform you that your application #${data.applicationNumber} was not approved.`
-    }),
-    loan_funded: (data) => ({
-      subject: 'Your Loan Has Been Funded!',
-      html: `<h1>Congratulations, ${data.applicantName}!</h1><p>Your ${data.loanType} loan of ${data.loanAmount} has been funded!</p>`,
-      text: `Congratulations, ${data.applicantName}! Your ${data.loanType} loan of ${data.loanAmount} has been funded!`
-    }),
-    welcome: (data) => ({
-      subject: 'Welcome to Heritage Business Funding',
-      html: `<h1>Welcome, ${data.userName}!</h1><p>Thank you for joining Heritage Business Funding.</p>`,
-      text: `Welcome, ${data.userName}! Thank you for joining Heritage Business Funding.`
-    }),
-    application_reminder: (data) => ({
-      subject: 'Complete Your Application - Heritage Business Funding',
-      html: `<h1>Hello, ${data.userName}</h1><p>You have an incomplete application from ${data.daysAgo} days ago.</p>`,
-      text: `Hello, ${data.userName}. You have an incomplete application from ${data.daysAgo} days ago.`
-    })
-  };
-
-  const templateFn = templates[templateName] || templates.welcome;
-  return templateFn(data);
+// Render stored or draft wording against sample data so admins can check an edit before saving
+async function previewTemplate(supabase: SupabaseClient, notificationData: TemplatePreviewRequest | undefined, rateLimitHeaders: Record<string, string>): Promise<Response> {
+  const { templateKey, channel, subject, htmlBody, textBody, applicationId } = notificationData ?? {};
+  if (!templateKey || !channel) {
+    return new Response(
+      JSON.stringify({ error: 'templateKey and channel are required' }),
+      { status: 400, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const template = await loadTemplate(supabase, templateKey, channel);
+  if (!template) {
+    return new Response(
+      JSON.stringify({ error: `No ${channel} template named ${templateKey}` }),
+      { status: 404, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const sampleData = await sampleTemplateData(supabase, applicationId);
+  const preview = renderTemplate(template, sampleData, { subject, html_body: htmlBody, text_body: textBody });
+
+  return new Response(
+    JSON.stringify({ preview, sampleData }),
+    { headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+async function isAdmin(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('has_role', { _user_id: userId, _role: 'admin' });
+  return !error && !!data;
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
 }
 
-function getSMSTemplate(templateName: string, data: any): string {
-  const templates: Record<string, (data: any) => string> = {
-    application_submitted: (data) => 
-      `Heritage Business Funding: Your application #${data.applicationNumber} has been received. We'll be in touch soon!`,
-    application_approved: (data) => 
-      `Heritage Business Funding: Great news! Your application #${data.applicationNumber} has been approved! Log in for details.`,
-    loan_funded: (data) => 
-      `Heritage Business Funding: Your ${data.loanType} loan of ${data.loanAmount} has been funded! Check your account for details.`,
-  };
-
-  const templateFn = templates[templateName] || (() => `Heritage Business Funding notification`);
-  return templateFn(data);
+// A dispatch succeeds when at least one channel sent, held or deliberately skipped the message
+function dispatchResponse(results: DispatchResult, rateLimitHeaders: Record<string, string>): Response {
+  const outcomes = Object.values(results);
+  const success = outcomes.length === 0 || outcomes.some(result => result?.status !== 'failed');
+  return new Response(
+    JSON.stringify({ success, results }),
+    { status: success ? 200 : 502, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Send one event on every channel the recipient has enabled. Borrowers may
+// only notify themselves, about their own applications.
+async function dispatchEvent(ctx: SendContext, notificationData: DispatchEventRequest | undefined, rateLimitHeaders: Record<string, string>): Promise<Response> {
+  const { event, applicationId, recipient, data } = notificationData ?? {};
+  if (!event) {
+    return new Response(
+      JSON.stringify({ error: 'event is required' }),
+      { status: 400, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data: application } = applicationId
+    ? await ctx.supabase.from('loan_applications').select('user_id, email').eq('id', applicationId).maybeSingle()
+    : { data: null };
+  const targetUserId = notificationData?.userId ?? application?.user_id ?? ctx.userId;
+
+  const ownsTarget = targetUserId === ctx.userId && (!application || application.user_id === ctx.userId);
+  if (!ownsTarget && !(await isAdmin(ctx.supabase, ctx.userId))) {
+    return new Response(
+      JSON.stringify({ error: 'Forbidden - you can only send notifications to yourself' }),
+      { status: 403, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const results = await dispatchNotification(ctx.supabase, {
+    userId: targetUserId,
+    event,
+    data: data ?? {},
+    channels: ['email', 'sms'],
+    email: recipient ?? (targetUserId === ctx.userId ? ctx.userEmail : null) ?? application?.email,
+    applicationId,
+    triggeredBy: ctx.userId,
+  });
+  return dispatchResponse(results, rateLimitHeaders);
+}
+
+async function getSmsSettings(ctx: SendContext, rateLimitHeaders: Record<string, string>): Promise<Response> {
+  const { data, error } = await ctx.supabase.rpc('get_sms_settings', { _user_id: ctx.userId });
+  if (error) throw error;
+  return new Response(
+    JSON.stringify({ settings: data }),
+    { headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+async function updateSmsSettings(ctx: SendContext, notificationData: unknown, rateLimitHeaders: Record<string, string>): Promise<Response> {
+  const validation = smsSettingsSchema.safeParse(notificationData);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid SMS settings', details: validation.error.format() }),
+      { status: 400, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { phone, optIn, quietHoursStart, quietHoursEnd, timezone } = validation.data;
+  const normalized = phone ? normalizePhone(phone) : null;
+  if ((phone && !normalized) || (optIn && !normalized)) {
+    return new Response(
+      JSON.stringify({ error: 'A valid mobile number is required to receive texts' }),
+      { status: 400, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data, error } = await ctx.supabase.rpc('set_sms_settings', {
+    _user_id: ctx.userId,
+    _phone: normalized,
+    _opt_in: optIn,
+    _quiet_hours_start: quietHoursStart,
+    _quiet_hours_end: quietHoursEnd,
+    _timezone: timezone,
+  });
+  if (error) throw error;
+
+  await ctx.supabase.rpc('log_audit_event', {
+    _user_id: ctx.userId,
+    _action: 'SMS_SETTINGS_UPDATED',
+    _resource_type: 'notification_preferences',
+    _resource_id: null,
+    _ip_address: null,
+    _user_agent: null,
+    _details: { phone: normalized, optIn, quietHoursStart, quietHoursEnd, timezone },
+  });
+
+  return new Response(
+    JSON.stringify({ settings: data }),
+    { headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Give a dead-lettered notification a fresh set of attempts
+async function requeueOutbox(ctx: SendContext, notificationData: { outboxId?: string } | undefined, rateLimitHeaders: Record<string, string>): Promise<Response> {
+  const outboxId = notificationData?.outboxId;
+  if (!outboxId) {
+    return new Response(
+      JSON.stringify({ error: 'outboxId is required' }),
+      { status: 400, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data: requeued, error } = await ctx.supabase.rpc('requeue_notification_outbox', { _id: outboxId });
+  if (error) throw error;
+  if (!requeued) {
+    return new Response(
+      JSON.stringify({ error: 'Only dead-lettered notifications can be requeued' }),
+      { status: 409, headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  await ctx.supabase.rpc('log_audit_event', {
+    _user_id: ctx.userId,
+    _action: 'REQUEUE_NOTIFICATION',
+    _resource_type: 'notification',
+    _resource_id: outboxId,
+    _ip_address: null,
+    _user_agent: null,
+    _details: {},
+  });
+
+  return new Response(
+    JSON.stringify({ success: true }),
+    { headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' } }
+  );
 }
@@ -0,0 +1,90 @@
+// Supabase Edge Function: sms-webhook
+// Receives Twilio-compatible inbound messages and status callbacks.
+// STOP/START/HELP replies update sms_consents and are answered with TwiML;
+// status callbacks are applied to sms_deliveries.
+// Requests are authenticated by the X-Twilio-Signature header.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { normalizePhone, SMS_HELP_REPLY, SMS_START_REPLY, SMS_STOP_REPLY } from "../_shared/sms.ts";
+
+const KEYWORD_REPLIES: Record<string, string> = {
+  opted_out: SMS_STOP_REPLY,
+  opted_in: SMS_START_REPLY,
+  help: SMS_HELP_REPLY,
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const twiml = (message?: string | null) =>
+  new Response(
+    `<?xml version="1.0" encoding="UTF-8"?><Response>${message ? `<Message>${escapeXml(message)}</Message>` : ''}</Response>`,
+    { headers: { 'Content-Type': 'text/xml' } },
+  );
+
+// Twilio signs the full webhook URL followed by each POST parameter, sorted by name
+async function validSignature(req: Request, params: URLSearchParams): Promise<boolean> {
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const signature = req.headers.get('X-Twilio-Signature');
+  if (!authToken || !signature) return false;
+
+  const url = Deno.env.get('SMS_WEBHOOK_URL') || req.url;
+  const payload = [...params.keys()].sort().reduce((acc, key) => acc + key + (params.get(key) ?? ''), url);
+  const key = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(authToken), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign'],
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(digest)));
+
+  if (expected.length !== signature.length) return false;
+  // Constant-time comparison
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  return diff === 0;
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  try {
+    const params = new URLSearchParams(await req.text());
+    if (!(await validSignature(req, params))) {
+      return json({ error: 'Invalid signature' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) return json({ error: 'Service configuration error' }, 500);
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // Status callbacks carry MessageStatus and no Body
+    const messageStatus = params.get('MessageStatus');
+    if (messageStatus && !params.has('Body')) {
+      const errorCode = params.get('ErrorCode');
+      const { data, error } = await supabase.rpc('record_sms_status', {
+        _provider_message_id: params.get('MessageSid') ?? '',
+        _status: messageStatus,
+        _error: params.get('ErrorMessage') || (errorCode ? `Error ${errorCode}` : null),
+      });
+      if (error) throw error;
+      return json({ success: true, matched: data ?? false });
+    }
+
+    const phone = normalizePhone(params.get('From'));
+    if (!phone) return twiml();
+    const { data: action, error } = await supabase.rpc('record_sms_keyword', {
+      _phone: phone,
+      _keyword: params.get('Body') ?? '',
+    });
+    if (error) throw error;
+    if (action) console.log(`SMS keyword received: ${action}`);
+    return twiml(action ? KEYWORD_REPLIES[action] : null);
+  } catch (error) {
+    console.error('Error in sms-webhook:', error);
+    return json({ error: 'An error occurred processing your request' }, 500);
+  }
+});
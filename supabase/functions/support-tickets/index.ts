@@ -0,0 +1,345 @@
+// Supabase Edge Function: support-tickets
+// Borrowers open, read and reply to their own tickets; staff with the
+// customer_service role or higher work the whole queue. Thread state and
+// in-app notifications are maintained by database triggers.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { dispatchNotification } from "../_shared/dispatch.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const STAFF_ROLES = ['customer_service', 'underwriter', 'moderator', 'admin', 'super_admin'];
+const STAFF_ONLY_ACTIONS = ['update', 'staff'];
+
+const ticketStatus = z.enum(['open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed']);
+
+const listSchema = z.object({
+  scope: z.enum(['mine', 'queue']).default('mine'),
+  status: ticketStatus.optional(),
+  assignedTo: z.union([z.literal('me'), z.literal('unassigned'), z.string().uuid()]).optional(),
+});
+
+const createSchema = z.object({
+  subject: z.string().trim().min(3).max(200),
+  description: z.string().trim().min(1).max(5000),
+  category: z.enum(['general', 'application', 'documents', 'payments', 'account', 'technical']).default('general'),
+  // Urgent is reserved for staff triage
+  priority: z.enum(['low', 'normal', 'high']).default('normal'),
+  loanApplicationId: z.string().uuid().optional(),
+  documentId: z.string().uuid().optional(),
+});
+
+const replySchema = z.object({
+  ticketId: z.string().uuid(),
+  body: z.string().trim().min(1).max(5000),
+  internal: z.boolean().default(false),
+});
+
+const updateSchema = z.object({
+  ticketId: z.string().uuid(),
+  status: ticketStatus.optional(),
+  priority: z.enum(['low', 'normal', 'high', 'urgent']).optional(),
+  assignedTo: z.string().uuid().nullable().optional(),
+});
+
+const schemas: Record<string, z.ZodTypeAny> = {
+  list: listSchema,
+  get: z.object({ ticketId: z.string().uuid() }),
+  create: createSchema,
+  reply: replySchema,
+  update: updateSchema,
+  staff: z.object({}),
+};
+
+interface TicketRow {
+  id: string;
+  ticket_number: string;
+  user_id: string;
+  contact_email: string | null;
+  subject: string;
+  priority: string;
+  status: string;
+  assigned_to: string | null;
+  [column: string]: unknown;
+}
+
+interface Caller {
+  id: string;
+  email: string | null;
+  isStaff: boolean;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) return json({ error: 'Missing authorization header' }, 401);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) return json({ error: 'Service configuration error' }, 500);
+
+    const { data: { user }, error: authError } = await createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: { Authorization: authHeader } },
+    }).auth.getUser();
+    if (authError || !user) return json({ error: 'Invalid or expired token' }, 401);
+
+    // Access rules are enforced below, so data calls use the service role rather than the caller's RLS
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action as string;
+    const schema = schemas[action];
+    if (!schema) return json({ error: 'Invalid action' }, 400);
+
+    const validation = schema.safeParse(body);
+    if (!validation.success) {
+      return json({ error: 'Invalid request format', details: validation.error.format() }, 400);
+    }
+
+    const { data: isStaff } = await supabase
+      .rpc('has_role_or_higher', { _user_id: user.id, _minimum_role: 'customer_service' });
+    if (STAFF_ONLY_ACTIONS.includes(action) && !isStaff) {
+      return json({ error: 'Support staff access required' }, 403);
+    }
+
+    const caller: Caller = { id: user.id, email: user.email ?? null, isStaff: !!isStaff };
+    const data = validation.data;
+
+    switch (action) {
+      case 'list':
+        return await listTickets(supabase, caller, data);
+      case 'get':
+        return await getTicket(supabase, caller, data.ticketId);
+      case 'create':
+        return await createTicket(supabase, caller, data);
+      case 'reply':
+        return await replyToTicket(supabase, caller, data);
+      case 'update':
+        return await updateTicket(supabase, caller, data);
+      case 'staff':
+        return await listStaff(supabase);
+      default:
+        return json({ error: 'Invalid action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error in support-tickets:', error);
+    return json({ error: 'An error occurred processing your request' }, 500);
+  }
+});
+
+// Add borrower names and public message counts, matching the IBM route's shape
+async function withDetails(supabase: SupabaseClient, tickets: TicketRow[]) {
+  if (tickets.length === 0) return [];
+  const userIds = [...new Set(tickets.map((t) => t.user_id))];
+  const [{ data: profiles }, { data: messages }] = await Promise.all([
+    supabase.from('profiles').select('id, first_name, last_name, business_name').in('id', userIds),
+    supabase.from('support_ticket_messages').select('ticket_id').in('ticket_id', tickets.map((t) => t.id)).eq('is_internal', false),
+  ]);
+
+  const profilesById = new Map((profiles || []).map((p) => [p.id, p]));
+  const counts: Record<string, number> = {};
+  for (const m of messages || []) counts[m.ticket_id] = (counts[m.ticket_id] || 0) + 1;
+
+  return tickets.map((t) => ({
+    ...t,
+    first_name: profilesById.get(t.user_id)?.first_name ?? null,
+    last_name: profilesById.get(t.user_id)?.last_name ?? null,
+    business_name: profilesById.get(t.user_id)?.business_name ?? null,
+    message_count: counts[t.id] || 0,
+  }));
+}
+
+async function loadTicket(supabase: SupabaseClient, ticketId: string) {
+  const { data } = await supabase.from('support_tickets').select('*').eq('id', ticketId).maybeSingle();
+  if (!data) return null;
+  return (await withDetails(supabase, [data]))[0];
+}
+
+async function listTickets(supabase: SupabaseClient, caller: Caller, { scope, status, assignedTo }: z.infer<typeof listSchema>) {
+  let query = supabase.from('support_tickets').select('*').order('created_at', { ascending: false }).limit(500);
+
+  if (scope !== 'queue' || !caller.isStaff) query = query.eq('user_id', caller.id);
+  if (status) query = query.eq('status', status);
+  if (assignedTo === 'unassigned') query = query.is('assigned_to', null);
+  else if (assignedTo) query = query.eq('assigned_to', assignedTo === 'me' ? caller.id : assignedTo);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return json({ tickets: await withDetails(supabase, data || []) });
+}
+
+async function getTicket(supabase: SupabaseClient, caller: Caller, ticketId: string) {
+  const ticket = await loadTicket(supabase, ticketId);
+  if (!ticket || (!caller.isStaff && ticket.user_id !== caller.id)) {
+    return json({ error: 'Ticket not found' }, 404);
+  }
+
+  let query = supabase.from('support_ticket_messages').select('*').eq('ticket_id', ticketId).order('created_at');
+  if (!caller.isStaff) query = query.eq('is_internal', false);
+  const { data: messages, error } = await query;
+  if (error) throw error;
+
+  return json({ ticket, messages: messages || [] });
+}
+
+async function createTicket(supabase: SupabaseClient, caller: Caller, data: z.infer<typeof createSchema>) {
+  // Linked records must belong to the borrower opening the ticket
+  if (data.loanApplicationId) {
+    const { data: app } = await supabase.from('loan_applications').select('id')
+      .eq('id', data.loanApplicationId).eq('user_id', caller.id).maybeSingle();
+    if (!app) return json({ error: 'Application not found' }, 400);
+  }
+  if (data.documentId) {
+    const { data: doc } = await supabase.from('borrower_documents').select('id')
+      .eq('id', data.documentId).eq('user_id', caller.id).maybeSingle();
+    if (!doc) return json({ error: 'Document not found' }, 400);
+  }
+
+  const { data: ticket, error } = await supabase
+    .from('support_tickets')
+    .insert({
+      user_id: caller.id,
+      contact_email: caller.email,
+      subject: data.subject,
+      category: data.category,
+      priority: data.priority,
+      loan_application_id: data.loanApplicationId ?? null,
+      document_id: data.documentId ?? null,
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const { error: messageError } = await supabase
+    .from('support_ticket_messages')
+    .insert({ ticket_id: ticket.id, author_id: caller.id, is_staff: false, body: data.description });
+  if (messageError) throw messageError;
+
+  await supabase.rpc('log_audit_event', {
+    _user_id: caller.id,
+    _action: 'CREATE_SUPPORT_TICKET',
+    _resource_type: 'support_ticket',
+    _resource_id: ticket.id,
+    _details: { category: data.category, priority: data.priority },
+  });
+
+  return json({ ticket: await loadTicket(supabase, ticket.id) });
+}
+
+async function replyToTicket(supabase: SupabaseClient, caller: Caller, { ticketId, body, internal }: z.infer<typeof replySchema>) {
+  const ticket = await loadTicket(supabase, ticketId);
+  if (!ticket || (!caller.isStaff && ticket.user_id !== caller.id)) {
+    return json({ error: 'Ticket not found' }, 404);
+  }
+  if (!caller.isStaff && ticket.status === 'closed') {
+    return json({ error: 'This ticket is closed; open a new ticket instead' }, 400);
+  }
+  if (internal && !caller.isStaff) {
+    return json({ error: 'Only staff can add internal notes' }, 403);
+  }
+
+  // Staff replying on their own ticket are answering as the borrower
+  const asStaff = caller.isStaff && ticket.user_id !== caller.id;
+  const { data: message, error } = await supabase
+    .from('support_ticket_messages')
+    .insert({ ticket_id: ticketId, author_id: caller.id, is_staff: asStaff, is_internal: internal && asStaff, body })
+    .select()
+    .single();
+  if (error) throw error;
+
+  if (asStaff && !internal) {
+    await notifyBorrower(supabase, ticket, 'New reply');
+  }
+
+  await supabase.rpc('log_audit_event', {
+    _user_id: caller.id,
+    _action: internal ? 'ADD_SUPPORT_TICKET_NOTE' : 'REPLY_SUPPORT_TICKET',
+    _resource_type: 'support_ticket',
+    _resource_id: ticketId,
+    _details: { is_staff: asStaff },
+  });
+
+  return json({ message });
+}
+
+async function updateTicket(supabase: SupabaseClient, caller: Caller, { ticketId, status, priority, assignedTo }: z.infer<typeof updateSchema>) {
+  const ticket = await loadTicket(supabase, ticketId);
+  if (!ticket) return json({ error: 'Ticket not found' }, 404);
+
+  if (assignedTo) {
+    const { data: roles } = await supabase.from('user_roles').select('role').eq('user_id', assignedTo).in('role', STAFF_ROLES).limit(1);
+    if (!roles?.length) return json({ error: 'Tickets can only be assigned to support staff' }, 400);
+  }
+
+  const changes: Record<string, unknown> = {};
+  if (status !== undefined) changes.status = status;
+  if (priority !== undefined) changes.priority = priority;
+  if (assignedTo !== undefined) changes.assigned_to = assignedTo;
+  if (Object.keys(changes).length === 0) return json({ error: 'Nothing to update' }, 400);
+
+  const { error } = await supabase.from('support_tickets').update(changes).eq('id', ticketId);
+  if (error) throw error;
+
+  if (status && status !== ticket.status && ['resolved', 'closed'].includes(status)) {
+    await notifyBorrower(supabase, ticket, status === 'resolved' ? 'Resolved' : 'Closed');
+  }
+
+  await supabase.rpc('log_audit_event', {
+    _user_id: caller.id,
+    _action: 'UPDATE_SUPPORT_TICKET',
+    _resource_type: 'support_ticket',
+    _resource_id: ticketId,
+    _details: { changes, previous: { status: ticket.status, priority: ticket.priority, assigned_to: ticket.assigned_to } },
+  });
+
+  return json({ ticket: await loadTicket(supabase, ticketId) });
+}
+
+async function listStaff(supabase: SupabaseClient) {
+  const { data: roles, error } = await supabase.from('user_roles').select('user_id, role').in('role', STAFF_ROLES);
+  if (error) throw error;
+
+  // One entry per person, labelled with their highest role
+  const highest = new Map<string, string>();
+  for (const r of roles || []) {
+    const current = highest.get(r.user_id);
+    if (!current || STAFF_ROLES.indexOf(r.role) > STAFF_ROLES.indexOf(current)) highest.set(r.user_id, r.role);
+  }
+  if (highest.size === 0) return json({ staff: [] });
+
+  const { data: profiles } = await supabase.from('profiles').select('id, first_name, last_name').in('id', [...highest.keys()]);
+  const profilesById = new Map((profiles || []).map((p) => [p.id, p]));
+
+  return json({
+    staff: [...highest.entries()].map(([id, role]) => ({
+      id,
+      role,
+      first_name: profilesById.get(id)?.first_name ?? null,
+      last_name: profilesById.get(id)?.last_name ?? null,
+    })),
+  });
+}
+
+// Tell the borrower about the update on the channels they enabled for ticket updates
+async function notifyBorrower(supabase: SupabaseClient, ticket: TicketRow, update: string) {
+  await dispatchNotification(supabase, {
+    userId: ticket.user_id,
+    event: 'support_ticket_update',
+    data: { ticketNumber: ticket.ticket_number, ticketSubject: ticket.subject, ticketUpdate: update },
+    channels: ['email', 'sms'],
+    email: ticket.contact_email,
+    metadata: { ticket_id: ticket.id },
+  });
+}
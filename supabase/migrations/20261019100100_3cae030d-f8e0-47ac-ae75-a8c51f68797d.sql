@@ -0,0 +1,191 @@
+-- ============================================================
+-- Underwriting rules engine: versioned, data-driven risk scoring
+-- Replaces the hard-coded branches in loan-application-processor.
+-- A rule set belongs to one loan product ('default' applies to any
+-- product without its own active set). Once a set leaves 'draft'
+-- its rules are frozen so historical scores stay explainable.
+-- ============================================================
+
+CREATE TABLE public.underwriting_rule_sets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  loan_type TEXT NOT NULL DEFAULT 'default',
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'active', 'retired')),
+  base_score NUMERIC(6,2) NOT NULL DEFAULT 50,
+  auto_approval_max_score NUMERIC(6,2) NOT NULL DEFAULT 30, -- score must be below this for auto-approval
+  manual_review_min_score NUMERIC(6,2) NOT NULL DEFAULT 70, -- score above this requires manual review
+  created_by UUID,
+  activated_at TIMESTAMP WITH TIME ZONE,
+  retired_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (loan_type, version)
+);
+
+CREATE TABLE public.underwriting_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_set_id UUID NOT NULL REFERENCES public.underwriting_rule_sets(id) ON DELETE CASCADE,
+  factor_key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  -- Application column or dotted path into loan_details, e.g. 'loan_details.creditScore'
+  source_field TEXT NOT NULL,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('band', 'match', 'knockout')),
+  weight NUMERIC(6,3) NOT NULL DEFAULT 1,
+  -- band: [{ "min": 5, "max": null, "points": -15 }] — min inclusive, max exclusive
+  bands JSONB NOT NULL DEFAULT '[]',
+  -- match: { "refinance": -10, "bridge_loan": 10 }
+  matches JSONB NOT NULL DEFAULT '{}',
+  knockout_operator TEXT CHECK (knockout_operator IN ('lt', 'lte', 'gt', 'gte', 'eq', 'neq', 'in', 'not_in', 'missing')),
+  knockout_value JSONB,
+  reason TEXT, -- borrower/examiner-facing explanation when this factor adds risk or knocks out
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (rule_set_id, factor_key),
+  CHECK (rule_type <> 'knockout' OR knockout_operator IS NOT NULL)
+);
+
+-- Only one active rule set per loan product
+CREATE UNIQUE INDEX idx_underwriting_rule_sets_one_active
+  ON public.underwriting_rule_sets(loan_type)
+  WHERE status = 'active';
+
+CREATE INDEX idx_underwriting_rules_rule_set_id ON public.underwriting_rules(rule_set_id, sort_order);
+
+CREATE TRIGGER update_underwriting_rule_sets_updated_at
+  BEFORE UPDATE ON public.underwriting_rule_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rules of an active or retired set are immutable
+CREATE OR REPLACE FUNCTION public.prevent_published_rule_modification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status
+  FROM public.underwriting_rule_sets
+  WHERE id = COALESCE(NEW.rule_set_id, OLD.rule_set_id);
+
+  IF v_status IS NOT NULL AND v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Rules of a published rule set cannot be modified. Create a new version instead.';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER prevent_published_rule_modification
+  BEFORE INSERT OR UPDATE OR DELETE ON public.underwriting_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_published_rule_modification();
+
+-- Activate a draft rule set, retiring the currently active set for the same product
+CREATE OR REPLACE FUNCTION public.activate_underwriting_rule_set(_rule_set_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan_type TEXT;
+  v_status TEXT;
+BEGIN
+  IF NOT public.has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to activate underwriting rules';
+  END IF;
+
+  SELECT loan_type, status INTO v_loan_type, v_status
+  FROM public.underwriting_rule_sets
+  WHERE id = _rule_set_id
+  FOR UPDATE;
+
+  IF v_loan_type IS NULL THEN
+    RAISE EXCEPTION 'Rule set % not found', _rule_set_id;
+  END IF;
+
+  IF v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft rule sets can be activated';
+  END IF;
+
+  UPDATE public.underwriting_rule_sets
+  SET status = 'retired', retired_at = now()
+  WHERE loan_type = v_loan_type AND status = 'active';
+
+  UPDATE public.underwriting_rule_sets
+  SET status = 'active', activated_at = now()
+  WHERE id = _rule_set_id;
+
+  PERFORM public.log_audit_event(
+    auth.uid(), 'ACTIVATE_UNDERWRITING_RULES', 'underwriting_rule_set', _rule_set_id,
+    NULL, NULL, jsonb_build_object('loan_type', v_loan_type)
+  );
+END;
+$$;
+
+-- Row Level Security
+ALTER TABLE public.underwriting_rule_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.underwriting_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Underwriters can view rule sets"
+ON public.underwriting_rule_sets
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'underwriter'));
+
+CREATE POLICY "Admins can manage rule sets"
+ON public.underwriting_rule_sets
+FOR ALL
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'))
+WITH CHECK (public.has_role_or_higher(auth.uid(), 'admin'));
+
+CREATE POLICY "Underwriters can view rules"
+ON public.underwriting_rules
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'underwriter'));
+
+CREATE POLICY "Admins can manage rules"
+ON public.underwriting_rules
+FOR ALL
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'))
+WITH CHECK (public.has_role_or_higher(auth.uid(), 'admin'));
+
+-- Seed version 1 of the default rule set with the previously hard-coded policy
+WITH default_set AS (
+  INSERT INTO public.underwriting_rule_sets (
+    loan_type, version, name, description, status, base_score,
+    auto_approval_max_score, manual_review_min_score, activated_at
+  ) VALUES (
+    'default', 1, 'Baseline risk policy',
+    'Initial policy migrated from the hard-coded processor scoring.',
+    'draft', 50, 30, 70, now()
+  )
+  RETURNING id
+)
+INSERT INTO public.underwriting_rules (rule_set_id, factor_key, label, source_field, rule_type, bands, matches, reason, sort_order)
+SELECT id, r.factor_key, r.label, r.source_field, r.rule_type, r.bands::jsonb, r.matches::jsonb, r.reason, r.sort_order
+FROM default_set, (VALUES
+  ('years_in_business', 'Time in business', 'years_in_business', 'band',
+   '[{"min":5,"points":-15},{"min":2,"max":5,"points":-8},{"min":1,"max":2,"points":0},{"max":1,"points":20}]',
+   '{}', 'Limited time in business', 1),
+  ('loan_amount', 'Requested amount', 'amount_requested', 'band',
+   '[{"min":5000000,"points":15},{"min":100000,"max":5000000,"points":0},{"max":100000,"points":-5}]',
+   '{}', 'Requested amount exceeds program comfort level', 2),
+  ('loan_product', 'Loan product', 'loan_type', 'match',
+   '[]', '{"refinance":-10,"bridge_loan":10,"working_capital":5}',
+   'Product carries elevated structural risk', 3)
+) AS r(factor_key, label, source_field, rule_type, bands, matches, reason, sort_order);
+
+UPDATE public.underwriting_rule_sets
+SET status = 'active'
+WHERE loan_type = 'default' AND version = 1;
+
+COMMENT ON TABLE public.underwriting_rule_sets IS 'Versioned underwriting policies per loan product. Scored applications record the rule set id and version in loan_details.underwriting.';
+COMMENT ON TABLE public.underwriting_rules IS 'Risk factors, weights, thresholds and knock-out criteria belonging to an underwriting rule set.';
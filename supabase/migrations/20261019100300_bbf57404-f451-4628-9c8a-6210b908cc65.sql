@@ -0,0 +1,115 @@
+-- ============================================================
+-- Loan product catalog
+-- The loan_type enum only knew six legacy values while the borrower
+-- forms submit their own product keys (sba_7a, sba_504, ...). Product
+-- keys, labels and limits now live in loan_products and
+-- loan_applications.loan_type references the catalog instead of the enum.
+-- ============================================================
+
+CREATE TABLE public.loan_products (
+  key TEXT NOT NULL PRIMARY KEY CHECK (key ~ '^[a-z0-9_]+$'),
+  name TEXT NOT NULL,
+  description TEXT,
+  -- Short selling points shown under the product in the selector
+  highlights TEXT,
+  rate_display TEXT, -- e.g. 'Prime + 2.75%'
+  category TEXT NOT NULL DEFAULT 'commercial' CHECK (category IN ('sba', 'government', 'commercial', 'working_capital')),
+  -- lucide icon name rendered by the product selector
+  icon TEXT NOT NULL DEFAULT 'Banknote',
+  -- Stable id used by the /?id= deep links to pick the application form
+  form_id SMALLINT UNIQUE,
+  min_amount NUMERIC(15,2),
+  max_amount NUMERIC(15,2),
+  interest_rate_min NUMERIC(6,3),
+  interest_rate_max NUMERIC(6,3),
+  term_options TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount),
+  CHECK (interest_rate_min IS NULL OR interest_rate_max IS NULL OR interest_rate_min <= interest_rate_max)
+);
+
+CREATE INDEX idx_loan_products_active ON public.loan_products(is_active, sort_order);
+
+CREATE TRIGGER update_loan_products_updated_at
+  BEFORE UPDATE ON public.loan_products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.loan_products (
+  key, name, description, highlights, rate_display, category, icon, form_id,
+  min_amount, max_amount, interest_rate_min, interest_rate_max, term_options, is_active, sort_order
+) VALUES
+  ('sba_7a', 'SBA 7(a) Loan', 'Versatile financing for working capital, equipment, and real estate purchases',
+   'Up to $5 million | Long-term financing | Most popular SBA program', 'Prime + 2.75%', 'sba', 'Shield', 1,
+   50000, 5000000, 10.5, 13.5, ARRAY['10 years', '25 years'], true, 1),
+  ('sba_504', 'SBA 504 Loan', 'Fixed-rate financing for real estate and major equipment purchases',
+   'Up to $5.5 million | 10% down payment | Long-term fixed rates', 'Fixed Rate', 'sba', 'Building', 2,
+   125000, 5500000, 6.0, 7.5, ARRAY['10 years', '20 years', '25 years'], true, 2),
+  ('usda_bi', 'USDA B&I Loan', 'Rural business development financing backed by USDA guarantee',
+   'Up to $25 million | Rural area focus | Job creation requirements', 'Prime + 2%', 'government', 'Shield', 3,
+   500000, 25000000, 6.5, 9.5, ARRAY['7 years', '15 years', '30 years'], true, 3),
+  ('bridge_loan', 'Bridge Loan', 'Short-term financing to bridge cash flow gaps while securing permanent financing',
+   'Fast 7-day closing | Up to $10 million | Quick access to capital', '8.5% APR', 'commercial', 'Building2', 4,
+   100000, 10000000, 6.0, 12.0, ARRAY['6 months', '12 months', '18 months', '24 months'], true, 4),
+  ('conventional', 'Conventional Loan', 'Traditional commercial financing for established businesses with strong credit profiles',
+   'No government guarantee | Faster approval | Flexible terms', '5.25% APR', 'commercial', 'CreditCard', 5,
+   100000, 50000000, 6.5, 9.5, ARRAY['5 years', '10 years', '15 years', '20 years', '25 years'], true, 5),
+  ('equipment_financing', 'Equipment Financing', 'Fund new or used equipment purchases with competitive terms',
+   '100% financing available | Fast approval | Equipment as collateral', '6.25% APR', 'working_capital', 'Settings', 6,
+   1000, 5000000, 7.0, 15.0, ARRAY['2 years', '3 years', '5 years', '7 years'], true, 6),
+  ('working_capital', 'Working Capital Loan', 'Bridge cash flow gaps and fund day-to-day business operations',
+   'Revolving credit line | Quick access | Fund daily operations', 'Prime + 1%', 'working_capital', 'TrendingUp', 7,
+   10000, 2000000, 4.0, 8.0, ARRAY['1 year', '2 years', '3 years', '5 years'], true, 7),
+  ('business_line_of_credit', 'Business Line of Credit', 'Flexible access to capital when you need it with revolving credit lines',
+   'Draw as needed | Pay interest only on used funds | Revolving credit', 'Prime + 2%', 'working_capital', 'CreditCard', 8,
+   10000, 5000000, 8.0, 18.0, ARRAY['12 months', '24 months'], true, 8),
+  ('term_loan', 'Term Loan', 'Fixed-rate business loans for major investments and growth initiatives',
+   'Fixed monthly payments | Competitive rates | Major investments', '5.75% APR', 'commercial', 'Banknote', 9,
+   25000, 5000000, 7.0, 14.0, ARRAY['1 year', '3 years', '5 years', '7 years', '10 years'], true, 9),
+  ('invoice_factoring', 'Invoice Factoring', 'Convert outstanding invoices into immediate cash flow for your business',
+   '90% advance rate | Same-day funding | No debt on balance sheet', '1.5% Factor', 'working_capital', 'FileText', 10,
+   10000, 10000000, 12.0, 36.0, ARRAY['30 days', '60 days', '90 days'], true, 10),
+  ('refinance', 'Refinance Loan', 'Refinance existing debt to improve cash flow and reduce monthly payments',
+   'Lower payments | Improved terms | Debt consolidation', '4.5% APR', 'commercial', 'RotateCcw', 11,
+   100000, 50000000, 3.5, 6.5, ARRAY['5 years', '10 years', '15 years', '20 years', '25 years'], true, 11),
+  ('sba_express', 'SBA Express Loan', 'Fast-track SBA financing with expedited approval process',
+   'Up to $500K | 36-hour approval | Express processing', 'Prime + 4.5%', 'sba', 'Zap', 12,
+   1000, 500000, 11.0, 14.5, ARRAY['7 years', '10 years', '25 years'], true, 12),
+  -- Legacy enum values kept so historical applications still resolve a label
+  ('purchase', 'Purchase of Property', NULL, NULL, NULL, 'commercial', 'Building', NULL,
+   NULL, NULL, NULL, NULL, '{}', false, 100),
+  ('franchise', 'Franchise Loan', NULL, NULL, NULL, 'commercial', 'Building2', NULL,
+   NULL, NULL, NULL, NULL, '{}', false, 101);
+
+-- Move loan_applications.loan_type from the enum onto the catalog
+ALTER TABLE public.loan_applications
+  ALTER COLUMN loan_type TYPE TEXT USING loan_type::TEXT;
+
+UPDATE public.loan_applications SET loan_type = 'invoice_factoring' WHERE loan_type = 'factoring';
+
+ALTER TABLE public.loan_applications
+  ADD CONSTRAINT loan_applications_loan_type_fkey
+  FOREIGN KEY (loan_type) REFERENCES public.loan_products(key) ON UPDATE CASCADE;
+
+DROP TYPE public.loan_type;
+
+-- Row Level Security
+ALTER TABLE public.loan_products ENABLE ROW LEVEL SECURITY;
+
+-- Retired products stay readable so historical applications keep their labels
+CREATE POLICY "Anyone can view loan products"
+ON public.loan_products
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage loan products"
+ON public.loan_products
+FOR ALL
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'))
+WITH CHECK (public.has_role_or_higher(auth.uid(), 'admin'));
+
+COMMENT ON TABLE public.loan_products IS 'Loan product catalog; loan_applications.loan_type references key';
@@ -0,0 +1,161 @@
+-- ============================================================
+-- Loan product configuration console
+-- Adds the admin-managed settings (required documents, eligibility
+-- thresholds, retirement) to loan_products and keeps an immutable
+-- snapshot of every revision in loan_product_versions.
+-- ============================================================
+
+ALTER TABLE public.loan_products
+  ADD COLUMN required_document_categories TEXT[] NOT NULL DEFAULT '{}',
+  -- Overrides for the eligibility calculator, e.g.
+  -- { "maxLtv": 0.8, "minDscr": 1.25, "minCreditScore": 680, "minYearsInBusiness": 2,
+  --   "maxRevenuePct": null, "minEquityPct": 0.1 }; a null value disables that gate
+  ADD COLUMN eligibility_thresholds JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN retired_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN updated_by UUID;
+
+-- Several products may share one intake form (e.g. two SBA 7(a) variants)
+ALTER TABLE public.loan_products DROP CONSTRAINT loan_products_form_id_key;
+
+CREATE TABLE public.loan_product_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_key TEXT NOT NULL REFERENCES public.loan_products(key) ON UPDATE CASCADE ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  changed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (product_key, version)
+);
+
+CREATE INDEX idx_loan_product_versions_product ON public.loan_product_versions(product_key, version DESC);
+
+-- Bump the version and stamp retirement on every material change
+CREATE OR REPLACE FUNCTION public.bump_loan_product_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (to_jsonb(NEW) - ARRAY['version', 'updated_at', 'updated_by', 'sort_order'])
+     IS DISTINCT FROM (to_jsonb(OLD) - ARRAY['version', 'updated_at', 'updated_by', 'sort_order']) THEN
+    NEW.version := OLD.version + 1;
+  END IF;
+
+  IF OLD.is_active AND NOT NEW.is_active THEN
+    NEW.retired_at := now();
+  ELSIF NOT OLD.is_active AND NEW.is_active THEN
+    NEW.retired_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Record a snapshot of each new version
+CREATE OR REPLACE FUNCTION public.snapshot_loan_product_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changed TEXT[] := '{}';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.version = OLD.version THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(array_agg(n.key ORDER BY n.key), '{}')
+    INTO v_changed
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key NOT IN ('version', 'updated_at', 'updated_by', 'sort_order', 'retired_at');
+  END IF;
+
+  INSERT INTO public.loan_product_versions (product_key, version, snapshot, changed_fields, changed_by)
+  VALUES (NEW.key, NEW.version, to_jsonb(NEW), v_changed, COALESCE(NEW.updated_by, auth.uid()));
+
+  RETURN NEW;
+END;
+$$;
+
+-- Products referenced by applications are retired, never deleted
+CREATE OR REPLACE FUNCTION public.prevent_used_loan_product_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.loan_applications WHERE loan_type = OLD.key) THEN
+    RAISE EXCEPTION 'Loan product % has applications; retire it instead of deleting', OLD.key;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+-- Seed eligibility thresholds and required documents from the calculator defaults
+UPDATE public.loan_products p SET
+  eligibility_thresholds = v.thresholds::jsonb,
+  required_document_categories = v.documents
+FROM (VALUES
+  ('sba_7a', '{"maxLtv": null, "minDscr": 1.15, "minCreditScore": 650, "minYearsInBusiness": 2, "maxRevenuePct": null, "minEquityPct": 0.1}',
+   ARRAY['business_tax_returns', 'personal_tax_returns', 'pl_balance_sheet', 'bank_statements', 'debt_schedule', 'sba_bank_docs']),
+  ('sba_504', '{"maxLtv": 0.9, "minDscr": 1.15, "minCreditScore": 680, "minYearsInBusiness": 2, "maxRevenuePct": null, "minEquityPct": 0.1}',
+   ARRAY['business_tax_returns', 'personal_tax_returns', 'pl_balance_sheet', 'bank_statements', 'debt_schedule', 'sba_bank_docs']),
+  ('sba_express', '{"maxLtv": null, "minDscr": 1.15, "minCreditScore": 650, "minYearsInBusiness": 2, "maxRevenuePct": null, "minEquityPct": null}',
+   ARRAY['business_tax_returns', 'personal_tax_returns', 'pl_balance_sheet', 'bank_statements', 'sba_bank_docs']),
+  ('usda_bi', '{"maxLtv": 0.8, "minDscr": 1.25, "minCreditScore": 680, "minYearsInBusiness": 1, "maxRevenuePct": null, "minEquityPct": 0.1}',
+   ARRAY['business_tax_returns', 'personal_tax_returns', 'pl_balance_sheet', 'bank_statements', 'debt_schedule', 'projections_resume']),
+  ('equipment_financing', '{"maxLtv": 1.0, "minDscr": 1.2, "minCreditScore": 600, "minYearsInBusiness": 1, "maxRevenuePct": null, "minEquityPct": null}',
+   ARRAY['business_tax_returns', 'bank_statements']),
+  ('invoice_factoring', '{"maxLtv": null, "minDscr": null, "minCreditScore": null, "minYearsInBusiness": 0.5, "maxRevenuePct": null, "minEquityPct": null}',
+   ARRAY['ar_ap', 'bank_statements']),
+  ('business_line_of_credit', '{"maxLtv": null, "minDscr": 1.25, "minCreditScore": 650, "minYearsInBusiness": 1, "maxRevenuePct": 0.15, "minEquityPct": null}',
+   ARRAY['business_tax_returns', 'pl_balance_sheet', 'bank_statements', 'ar_ap']),
+  ('term_loan', '{"maxLtv": null, "minDscr": 1.25, "minCreditScore": 660, "minYearsInBusiness": 2, "maxRevenuePct": null, "minEquityPct": null}',
+   ARRAY['business_tax_returns', 'personal_tax_returns', 'pl_balance_sheet', 'bank_statements']),
+  ('conventional', '{"maxLtv": 0.8, "minDscr": 1.25, "minCreditScore": 680, "minYearsInBusiness": 2, "maxRevenuePct": null, "minEquityPct": null}',
+   ARRAY['business_tax_returns', 'personal_tax_returns', 'pl_balance_sheet', 'bank_statements', 'debt_schedule']),
+  ('refinance', '{"maxLtv": 0.8, "minDscr": 1.25, "minCreditScore": 660, "minYearsInBusiness": 1, "maxRevenuePct": null, "minEquityPct": null}',
+   ARRAY['business_tax_returns', 'pl_balance_sheet', 'bank_statements', 'debt_schedule']),
+  ('bridge_loan', '{"maxLtv": 0.75, "minDscr": null, "minCreditScore": 620, "minYearsInBusiness": 0, "maxRevenuePct": null, "minEquityPct": null}',
+   ARRAY['bank_statements', 'debt_schedule']),
+  ('working_capital', '{"maxLtv": null, "minDscr": 1.2, "minCreditScore": 600, "minYearsInBusiness": 1, "maxRevenuePct": 0.2, "minEquityPct": null}',
+   ARRAY['business_tax_returns', 'bank_statements', 'ar_ap'])
+) AS v(key, thresholds, documents)
+WHERE p.key = v.key;
+
+-- Version 1 of every existing product
+INSERT INTO public.loan_product_versions (product_key, version, snapshot)
+SELECT key, version, to_jsonb(p) FROM public.loan_products p;
+
+-- Triggers are attached after seeding so the seed itself is version 1
+CREATE TRIGGER bump_loan_product_version
+  BEFORE UPDATE ON public.loan_products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_loan_product_version();
+
+CREATE TRIGGER snapshot_loan_product_version
+  AFTER INSERT OR UPDATE ON public.loan_products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_loan_product_version();
+
+CREATE TRIGGER prevent_used_loan_product_delete
+  BEFORE DELETE ON public.loan_products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_used_loan_product_delete();
+
+-- Row Level Security
+ALTER TABLE public.loan_product_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view loan product versions"
+ON public.loan_product_versions
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'));
+
+COMMENT ON TABLE public.loan_product_versions IS 'Immutable snapshot of each loan product revision';
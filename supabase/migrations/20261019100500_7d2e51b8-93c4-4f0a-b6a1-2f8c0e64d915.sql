@@ -0,0 +1,463 @@
+-- ============================================================
+-- Loan payment ledger and servicing
+-- Every scheduled installment, received payment, late fee and
+-- reversal on an existing loan is a loan_payments row. Posting or
+-- reversing a payment updates existing_loans.loan_balance and
+-- remaining_months, so servicing data is no longer hand-edited.
+-- ============================================================
+
+-- The funding trigger and the admin form write product keys here
+ALTER TABLE public.existing_loans DROP CONSTRAINT IF EXISTS existing_loans_loan_type_check;
+
+CREATE TABLE public.loan_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  loan_id UUID NOT NULL REFERENCES public.existing_loans(id) ON DELETE CASCADE,
+  -- Borrower, copied from the loan for RLS
+  user_id UUID NOT NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('scheduled', 'received', 'late', 'reversed')),
+  -- scheduled/late: pending, partial, paid, waived; received: posted, reversed; reversed: posted
+  status TEXT NOT NULL CHECK (status IN ('pending', 'partial', 'paid', 'waived', 'posted', 'reversed')),
+  amount NUMERIC(15,2) NOT NULL CHECK (amount >= 0),
+  -- Portion of a scheduled installment or late fee covered by received payments
+  amount_applied NUMERIC(15,2) NOT NULL DEFAULT 0,
+  -- How a received payment was split
+  principal_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  interest_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  fee_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  installment_number INTEGER,
+  due_date DATE,
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- Bank or processor reference; unique per loan for received payments
+  reference TEXT,
+  -- late: the installment it penalizes; reversed: the payment it reverses
+  related_payment_id UUID REFERENCES public.loan_payments(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv_import', 'system')),
+  import_batch_id UUID,
+  notes TEXT,
+  recorded_by UUID,
+  balance_after NUMERIC(15,2),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_loan_payments_loan ON public.loan_payments(loan_id, effective_date DESC);
+CREATE INDEX idx_loan_payments_user ON public.loan_payments(user_id);
+CREATE INDEX idx_loan_payments_open ON public.loan_payments(due_date)
+  WHERE entry_type IN ('scheduled', 'late') AND status IN ('pending', 'partial');
+CREATE UNIQUE INDEX idx_loan_payments_installment ON public.loan_payments(loan_id, installment_number)
+  WHERE entry_type = 'scheduled';
+CREATE UNIQUE INDEX idx_loan_payments_reference ON public.loan_payments(loan_id, reference)
+  WHERE entry_type = 'received' AND reference IS NOT NULL;
+CREATE UNIQUE INDEX idx_loan_payments_late_fee ON public.loan_payments(related_payment_id)
+  WHERE entry_type = 'late';
+
+CREATE TRIGGER update_loan_payments_updated_at
+  BEFORE UPDATE ON public.loan_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Months left to amortize a balance at the current payment (same formula as the loan calculator)
+CREATE OR REPLACE FUNCTION public.loan_remaining_months(_balance NUMERIC, _annual_rate NUMERIC, _monthly_payment NUMERIC)
+RETURNS INTEGER
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_rate DOUBLE PRECISION := COALESCE(_annual_rate, 0) / 1200;
+BEGIN
+  IF _balance IS NULL OR _balance <= 0 THEN
+    RETURN 0;
+  END IF;
+  IF _monthly_payment IS NULL OR _monthly_payment <= 0 THEN
+    RETURN NULL;
+  END IF;
+  IF v_rate = 0 THEN
+    RETURN CEIL(_balance / _monthly_payment)::INTEGER;
+  END IF;
+  -- Payment does not cover the interest; the loan never amortizes
+  IF _monthly_payment <= _balance * v_rate THEN
+    RETURN NULL;
+  END IF;
+  RETURN CEIL(-LN(1 - v_rate * _balance / _monthly_payment) / LN(1 + v_rate))::INTEGER;
+END;
+$$;
+
+-- Create upcoming scheduled installments; NULL loan id schedules every loan with a balance
+CREATE OR REPLACE FUNCTION public.schedule_loan_installments(_loan_id UUID, _months INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan RECORD;
+  v_first INTEGER;
+  v_created INTEGER := 0;
+  v_rows INTEGER;
+BEGIN
+  FOR v_loan IN
+    SELECT * FROM public.existing_loans
+    WHERE (_loan_id IS NULL OR id = _loan_id)
+      AND loan_balance > 0
+      AND monthly_payment > 0
+  LOOP
+    -- Installments already behind the borrower are not scheduled
+    v_first := GREATEST(v_loan.term_months - v_loan.remaining_months, 0) + 1;
+
+    INSERT INTO public.loan_payments (
+      loan_id, user_id, entry_type, status, amount, installment_number, due_date, effective_date, source
+    )
+    SELECT v_loan.id, v_loan.user_id, 'scheduled', 'pending', ROUND(v_loan.monthly_payment, 2), n,
+           (v_loan.origination_date + make_interval(months => n))::DATE,
+           (v_loan.origination_date + make_interval(months => n))::DATE,
+           'system'
+    FROM generate_series(v_first, LEAST(v_loan.term_months, v_first + _months - 1)) AS n
+    ON CONFLICT (loan_id, installment_number) WHERE entry_type = 'scheduled' DO NOTHING;
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_created := v_created + v_rows;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_loan_payment_schedule(_loan_id UUID DEFAULT NULL, _months INTEGER DEFAULT 12)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to schedule loan payments';
+  END IF;
+
+  RETURN public.schedule_loan_installments(_loan_id, _months);
+END;
+$$;
+
+-- Re-apply posted payments to installments and late fees, oldest first.
+-- Called after every post or reversal so applications always match the ledger.
+CREATE OR REPLACE FUNCTION public.reapply_loan_payments(_loan_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_installment_credit NUMERIC;
+  v_fee_credit NUMERIC;
+  v_entry RECORD;
+  v_apply NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(amount - fee_amount), 0), COALESCE(SUM(fee_amount), 0)
+  INTO v_installment_credit, v_fee_credit
+  FROM public.loan_payments
+  WHERE loan_id = _loan_id AND entry_type = 'received' AND status = 'posted';
+
+  FOR v_entry IN
+    SELECT id, entry_type, amount FROM public.loan_payments
+    WHERE loan_id = _loan_id AND entry_type IN ('scheduled', 'late') AND status <> 'waived'
+    ORDER BY due_date, installment_number NULLS LAST, created_at
+  LOOP
+    IF v_entry.entry_type = 'scheduled' THEN
+      v_apply := LEAST(v_installment_credit, v_entry.amount);
+      v_installment_credit := v_installment_credit - v_apply;
+    ELSE
+      v_apply := LEAST(v_fee_credit, v_entry.amount);
+      v_fee_credit := v_fee_credit - v_apply;
+    END IF;
+
+    UPDATE public.loan_payments
+    SET amount_applied = v_apply,
+        status = CASE
+          WHEN v_apply >= v_entry.amount THEN 'paid'
+          WHEN v_apply > 0 THEN 'partial'
+          ELSE 'pending'
+        END
+    WHERE id = v_entry.id;
+  END LOOP;
+END;
+$$;
+
+-- Post a received payment: late fees first, then interest, then principal
+CREATE OR REPLACE FUNCTION public.record_loan_payment(
+  _loan_id UUID,
+  _amount NUMERIC,
+  _payment_date DATE DEFAULT CURRENT_DATE,
+  _reference TEXT DEFAULT NULL,
+  _source TEXT DEFAULT 'manual',
+  _notes TEXT DEFAULT NULL,
+  _import_batch_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan public.existing_loans%ROWTYPE;
+  v_fees_due NUMERIC;
+  v_fee NUMERIC;
+  v_interest NUMERIC;
+  v_principal NUMERIC;
+  v_balance NUMERIC;
+  v_payment_id UUID;
+BEGIN
+  IF NOT public.has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to record loan payments';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.existing_loans WHERE id = _loan_id FOR UPDATE;
+  IF v_loan.id IS NULL THEN
+    RAISE EXCEPTION 'Loan % not found', _loan_id;
+  END IF;
+
+  IF _reference IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.loan_payments
+    WHERE loan_id = _loan_id AND entry_type = 'received' AND reference = _reference
+  ) THEN
+    RAISE EXCEPTION 'Duplicate payment reference % for this loan', _reference;
+  END IF;
+
+  SELECT COALESCE(SUM(amount - amount_applied), 0) INTO v_fees_due
+  FROM public.loan_payments
+  WHERE loan_id = _loan_id AND entry_type = 'late' AND status IN ('pending', 'partial');
+
+  v_fee := LEAST(_amount, v_fees_due);
+  v_interest := LEAST(_amount - v_fee, ROUND(v_loan.loan_balance * v_loan.interest_rate / 1200, 2));
+  v_principal := LEAST(_amount - v_fee - v_interest, v_loan.loan_balance);
+  v_balance := v_loan.loan_balance - v_principal;
+
+  INSERT INTO public.loan_payments (
+    loan_id, user_id, entry_type, status, amount, principal_amount, interest_amount, fee_amount,
+    effective_date, reference, source, import_batch_id, notes, recorded_by, balance_after
+  ) VALUES (
+    _loan_id, v_loan.user_id, 'received', 'posted', _amount, v_principal, v_interest, v_fee,
+    COALESCE(_payment_date, CURRENT_DATE), NULLIF(TRIM(_reference), ''), COALESCE(_source, 'manual'),
+    _import_batch_id, _notes, auth.uid(), v_balance
+  )
+  RETURNING id INTO v_payment_id;
+
+  UPDATE public.existing_loans
+  SET loan_balance = v_balance,
+      remaining_months = LEAST(
+        COALESCE(public.loan_remaining_months(v_balance, interest_rate, monthly_payment), remaining_months),
+        term_months
+      )
+  WHERE id = _loan_id;
+
+  PERFORM public.reapply_loan_payments(_loan_id);
+
+  PERFORM public.log_audit_event(
+    auth.uid(), 'RECORD_LOAN_PAYMENT', 'loan_payment', v_payment_id,
+    NULL, NULL, jsonb_build_object('loan_id', _loan_id, 'amount', _amount, 'source', _source, 'reference', _reference)
+  );
+
+  RETURN v_payment_id;
+END;
+$$;
+
+-- Reverse a posted payment (returned check, NSF, keying error) and restore the balance
+CREATE OR REPLACE FUNCTION public.reverse_loan_payment(_payment_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.loan_payments%ROWTYPE;
+  v_balance NUMERIC;
+  v_reversal_id UUID;
+BEGIN
+  IF NOT public.has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to reverse loan payments';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.loan_payments WHERE id = _payment_id FOR UPDATE;
+  IF v_payment.id IS NULL OR v_payment.entry_type <> 'received' THEN
+    RAISE EXCEPTION 'Payment % not found', _payment_id;
+  END IF;
+  IF v_payment.status = 'reversed' THEN
+    RAISE EXCEPTION 'Payment % has already been reversed', _payment_id;
+  END IF;
+
+  PERFORM 1 FROM public.existing_loans WHERE id = v_payment.loan_id FOR UPDATE;
+
+  UPDATE public.loan_payments SET status = 'reversed' WHERE id = _payment_id;
+
+  UPDATE public.existing_loans
+  SET loan_balance = loan_balance + v_payment.principal_amount,
+      remaining_months = LEAST(
+        COALESCE(public.loan_remaining_months(loan_balance + v_payment.principal_amount, interest_rate, monthly_payment), remaining_months),
+        term_months
+      )
+  WHERE id = v_payment.loan_id
+  RETURNING loan_balance INTO v_balance;
+
+  INSERT INTO public.loan_payments (
+    loan_id, user_id, entry_type, status, amount, principal_amount, interest_amount, fee_amount,
+    effective_date, related_payment_id, source, notes, recorded_by, balance_after
+  ) VALUES (
+    v_payment.loan_id, v_payment.user_id, 'reversed', 'posted', v_payment.amount, v_payment.principal_amount,
+    v_payment.interest_amount, v_payment.fee_amount, CURRENT_DATE, _payment_id, 'manual', _reason, auth.uid(), v_balance
+  )
+  RETURNING id INTO v_reversal_id;
+
+  PERFORM public.reapply_loan_payments(v_payment.loan_id);
+
+  PERFORM public.log_audit_event(
+    auth.uid(), 'REVERSE_LOAN_PAYMENT', 'loan_payment', _payment_id,
+    NULL, NULL, jsonb_build_object('loan_id', v_payment.loan_id, 'amount', v_payment.amount, 'reason', _reason)
+  );
+
+  RETURN v_reversal_id;
+END;
+$$;
+
+-- Charge a late fee on each installment still open after the grace period
+CREATE OR REPLACE FUNCTION public.assess_late_loan_payments(_grace_days INTEGER DEFAULT 10, _fee_percent NUMERIC DEFAULT 5)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to assess late fees';
+  END IF;
+
+  INSERT INTO public.loan_payments (
+    loan_id, user_id, entry_type, status, amount, due_date, effective_date, related_payment_id, source, notes
+  )
+  SELECT s.loan_id, s.user_id, 'late', 'pending', ROUND(s.amount * _fee_percent / 100, 2),
+         CURRENT_DATE, CURRENT_DATE, s.id, 'system',
+         'Installment ' || s.installment_number || ' due ' || s.due_date || ' unpaid after ' || _grace_days || ' days'
+  FROM public.loan_payments s
+  WHERE s.entry_type = 'scheduled'
+    AND s.status IN ('pending', 'partial')
+    AND s.due_date + _grace_days < CURRENT_DATE
+  ON CONFLICT (related_payment_id) WHERE entry_type = 'late' DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+
+  IF v_created > 0 THEN
+    PERFORM public.log_audit_event(
+      auth.uid(), 'ASSESS_LATE_FEES', 'loan_payment', NULL,
+      NULL, NULL, jsonb_build_object('late_fees', v_created, 'grace_days', _grace_days, 'fee_percent', _fee_percent)
+    );
+  END IF;
+
+  RETURN v_created;
+END;
+$$;
+
+-- One row per loan with a balance: amount and age of what is past due
+CREATE OR REPLACE FUNCTION public.get_loan_delinquency_summary()
+RETURNS TABLE (
+  loan_id UUID,
+  user_id UUID,
+  loan_name TEXT,
+  loan_balance NUMERIC,
+  monthly_payment NUMERIC,
+  next_due_date DATE,
+  oldest_past_due_date DATE,
+  days_past_due INTEGER,
+  past_due_amount NUMERIC,
+  late_fees_due NUMERIC,
+  installments_past_due INTEGER,
+  bucket TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to view delinquency';
+  END IF;
+
+  RETURN QUERY
+  WITH open_entries AS (
+    SELECT p.loan_id,
+           MIN(p.due_date) FILTER (WHERE p.entry_type = 'scheduled' AND p.due_date < CURRENT_DATE) AS oldest_due,
+           MIN(p.due_date) FILTER (WHERE p.entry_type = 'scheduled' AND p.due_date >= CURRENT_DATE) AS next_due,
+           COALESCE(SUM(p.amount - p.amount_applied) FILTER (WHERE p.entry_type = 'scheduled' AND p.due_date < CURRENT_DATE), 0) AS past_due,
+           COALESCE(SUM(p.amount - p.amount_applied) FILTER (WHERE p.entry_type = 'late'), 0) AS fees,
+           COUNT(*) FILTER (WHERE p.entry_type = 'scheduled' AND p.due_date < CURRENT_DATE)::INTEGER AS late_count
+    FROM public.loan_payments p
+    WHERE p.entry_type IN ('scheduled', 'late') AND p.status IN ('pending', 'partial')
+    GROUP BY p.loan_id
+  )
+  SELECT l.id, l.user_id, l.loan_name, l.loan_balance, l.monthly_payment,
+         o.next_due, o.oldest_due,
+         COALESCE(CURRENT_DATE - o.oldest_due, 0)::INTEGER,
+         COALESCE(o.past_due, 0), COALESCE(o.fees, 0), COALESCE(o.late_count, 0),
+         CASE
+           WHEN o.oldest_due IS NULL THEN 'current'
+           WHEN CURRENT_DATE - o.oldest_due < 30 THEN '1-29'
+           WHEN CURRENT_DATE - o.oldest_due < 60 THEN '30-59'
+           WHEN CURRENT_DATE - o.oldest_due < 90 THEN '60-89'
+           ELSE '90+'
+         END
+  FROM public.existing_loans l
+  LEFT JOIN open_entries o ON o.loan_id = l.id
+  WHERE l.loan_balance > 0
+  ORDER BY COALESCE(CURRENT_DATE - o.oldest_due, 0) DESC, l.loan_name;
+END;
+$$;
+
+-- New loans (funded applications or entered by an admin) get their first year scheduled
+CREATE OR REPLACE FUNCTION public.schedule_new_existing_loan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.schedule_loan_installments(NEW.id, 12);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER schedule_new_existing_loan
+  AFTER INSERT ON public.existing_loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.schedule_new_existing_loan();
+
+-- Schedule the loans already on the books
+SELECT public.schedule_loan_installments(NULL, 12);
+
+-- Row Level Security
+ALTER TABLE public.loan_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own loan payments"
+ON public.loan_payments
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all loan payments"
+ON public.loan_payments
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'));
+
+-- Writes go through record_loan_payment / reverse_loan_payment; direct edits are limited to admins
+CREATE POLICY "Admins can update loan payment notes"
+ON public.loan_payments
+FOR UPDATE
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'))
+WITH CHECK (public.has_role_or_higher(auth.uid(), 'admin'));
+
+COMMENT ON TABLE public.loan_payments IS 'Servicing ledger: scheduled installments, received payments, late fees and reversals per existing loan';
@@ -0,0 +1,328 @@
+-- ============================================================
+-- Support ticketing
+-- Borrowers open tickets (optionally about an application or a
+-- document) and staff with the customer_service role or higher
+-- triage, assign, reply and close them against SLA targets.
+-- Replies notify the other party in-app, subject to their
+-- notification preferences.
+-- ============================================================
+
+CREATE SEQUENCE public.support_ticket_number_seq;
+
+CREATE TABLE public.support_tickets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ticket_number TEXT NOT NULL UNIQUE DEFAULT 'TKT-' || LPAD(nextval('public.support_ticket_number_seq')::TEXT, 6, '0'),
+  user_id UUID NOT NULL,
+  -- Borrower's sign-in email when the ticket was opened, for reply emails
+  contact_email TEXT,
+  subject TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'general'
+    CHECK (category IN ('general', 'application', 'documents', 'payments', 'account', 'technical')),
+  priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed')),
+  loan_application_id UUID REFERENCES public.loan_applications(id) ON DELETE SET NULL,
+  document_id UUID REFERENCES public.borrower_documents(id) ON DELETE SET NULL,
+  assigned_to UUID,
+  first_response_due_at TIMESTAMP WITH TIME ZONE,
+  resolution_due_at TIMESTAMP WITH TIME ZONE,
+  first_responded_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  last_reply_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.support_ticket_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ticket_id UUID NOT NULL REFERENCES public.support_tickets(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL,
+  is_staff BOOLEAN NOT NULL DEFAULT false,
+  -- Staff-only notes, never shown to the borrower
+  is_internal BOOLEAN NOT NULL DEFAULT false,
+  body TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (is_staff OR NOT is_internal)
+);
+
+CREATE INDEX idx_support_tickets_user ON public.support_tickets(user_id, created_at DESC);
+CREATE INDEX idx_support_tickets_queue ON public.support_tickets(status, priority, created_at);
+CREATE INDEX idx_support_tickets_assigned ON public.support_tickets(assigned_to) WHERE assigned_to IS NOT NULL;
+CREATE INDEX idx_support_ticket_messages_ticket ON public.support_ticket_messages(ticket_id, created_at);
+
+CREATE TRIGGER update_support_tickets_updated_at
+  BEFORE UPDATE ON public.support_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- SLA targets in hours by priority: first staff response, then resolution
+CREATE OR REPLACE FUNCTION public.support_ticket_sla_hours(_priority TEXT, OUT first_response INTEGER, OUT resolution INTEGER)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT v.first_response, v.resolution
+  FROM (VALUES
+    ('urgent', 1, 8),
+    ('high', 4, 24),
+    ('normal', 8, 72),
+    ('low', 24, 120)
+  ) AS v(priority, first_response, resolution)
+  WHERE v.priority = _priority;
+$$;
+
+-- Stamp SLA deadlines and lifecycle timestamps
+CREATE OR REPLACE FUNCTION public.set_support_ticket_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_sla RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.priority IS DISTINCT FROM OLD.priority THEN
+    SELECT * INTO v_sla FROM public.support_ticket_sla_hours(NEW.priority);
+    NEW.first_response_due_at := NEW.created_at + make_interval(hours => v_sla.first_response);
+    NEW.resolution_due_at := NEW.created_at + make_interval(hours => v_sla.resolution);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'resolved' THEN
+      NEW.resolved_at := COALESCE(NEW.resolved_at, now());
+    ELSIF NEW.status = 'closed' THEN
+      NEW.resolved_at := COALESCE(NEW.resolved_at, now());
+      NEW.closed_at := now();
+    ELSE
+      NEW.resolved_at := NULL;
+      NEW.closed_at := NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_support_ticket_sla
+  BEFORE INSERT OR UPDATE ON public.support_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_support_ticket_sla();
+
+-- In-app notification that honours the recipient's preference for the event
+CREATE OR REPLACE FUNCTION public.create_user_notification(
+  _user_id UUID,
+  _event TEXT,
+  _title TEXT,
+  _message TEXT,
+  _type TEXT DEFAULT 'info',
+  _action_url TEXT DEFAULT NULL,
+  _metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_enabled BOOLEAN;
+BEGIN
+  SELECT (preferences -> _event ->> 'in_app')::BOOLEAN INTO v_enabled
+  FROM public.notification_preferences
+  WHERE user_id = _user_id;
+
+  -- No stored preference means the defaults, which enable in-app
+  IF v_enabled IS FALSE THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url, metadata)
+  VALUES (_user_id, _title, _message, _type, _action_url, _metadata);
+  RETURN true;
+END;
+$$;
+
+-- Only triggers and backend routes may create notifications for other users
+REVOKE EXECUTE ON FUNCTION public.create_user_notification(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Keep the ticket's status and SLA stamps in step with the thread, and notify the other side
+CREATE OR REPLACE FUNCTION public.handle_support_ticket_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket public.support_tickets%ROWTYPE;
+BEGIN
+  SELECT * INTO v_ticket FROM public.support_tickets WHERE id = NEW.ticket_id;
+
+  IF NEW.is_internal THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.is_staff THEN
+    UPDATE public.support_tickets SET
+      first_responded_at = COALESCE(first_responded_at, NEW.created_at),
+      last_reply_at = NEW.created_at,
+      status = CASE WHEN status IN ('open', 'in_progress') THEN 'waiting_on_customer' ELSE status END
+    WHERE id = NEW.ticket_id;
+
+    PERFORM public.create_user_notification(
+      v_ticket.user_id,
+      'support_ticket_update',
+      'New reply on ' || v_ticket.ticket_number,
+      'Support replied to "' || v_ticket.subject || '"',
+      'info',
+      '/support?ticket=' || v_ticket.id,
+      jsonb_build_object('ticket_id', v_ticket.id, 'message_id', NEW.id)
+    );
+  ELSE
+    -- A borrower reply reopens a ticket that was waiting on them or resolved
+    UPDATE public.support_tickets SET
+      last_reply_at = NEW.created_at,
+      status = CASE WHEN status IN ('waiting_on_customer', 'resolved') THEN 'open' ELSE status END
+    WHERE id = NEW.ticket_id;
+
+    IF v_ticket.assigned_to IS NOT NULL THEN
+      PERFORM public.create_user_notification(
+        v_ticket.assigned_to,
+        'support_ticket_update',
+        'Borrower replied on ' || v_ticket.ticket_number,
+        '"' || v_ticket.subject || '" has a new message',
+        'info',
+        '/admin/support?ticket=' || v_ticket.id,
+        jsonb_build_object('ticket_id', v_ticket.id, 'message_id', NEW.id)
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_support_ticket_message
+  AFTER INSERT ON public.support_ticket_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_support_ticket_message();
+
+-- Tell the borrower when staff resolve or close their ticket, and staff when they are assigned one
+CREATE OR REPLACE FUNCTION public.notify_support_ticket_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('resolved', 'closed') THEN
+    PERFORM public.create_user_notification(
+      NEW.user_id,
+      'support_ticket_update',
+      NEW.ticket_number || ' ' || NEW.status,
+      '"' || NEW.subject || '" was marked ' || NEW.status || '. Reply to reopen it if you still need help.',
+      'success',
+      '/support?ticket=' || NEW.id,
+      jsonb_build_object('ticket_id', NEW.id, 'status', NEW.status)
+    );
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL AND NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+     AND NEW.assigned_to IS DISTINCT FROM auth.uid() THEN
+    PERFORM public.create_user_notification(
+      NEW.assigned_to,
+      'support_ticket_update',
+      NEW.ticket_number || ' assigned to you',
+      '"' || NEW.subject || '" (' || NEW.priority || ' priority)',
+      'info',
+      '/admin/support?ticket=' || NEW.id,
+      jsonb_build_object('ticket_id', NEW.id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_support_ticket_change
+  AFTER UPDATE ON public.support_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_support_ticket_change();
+
+-- Ticket replies get their own notification preference
+ALTER TABLE public.notification_preferences
+  ALTER COLUMN preferences SET DEFAULT '{
+    "loan_funded": {"email": true, "in_app": true, "sms": false},
+    "application_submitted": {"email": true, "in_app": true, "sms": false},
+    "application_approved": {"email": true, "in_app": true, "sms": true},
+    "application_rejected": {"email": true, "in_app": true, "sms": false},
+    "application_under_review": {"email": true, "in_app": true, "sms": false},
+    "document_required": {"email": true, "in_app": true, "sms": false},
+    "payment_reminder": {"email": true, "in_app": true, "sms": false},
+    "payment_received": {"email": true, "in_app": true, "sms": false},
+    "status_update": {"email": true, "in_app": true, "sms": false},
+    "support_ticket_update": {"email": true, "in_app": true, "sms": false}
+  }'::jsonb;
+
+UPDATE public.notification_preferences
+SET preferences = preferences || '{"support_ticket_update": {"email": true, "in_app": true, "sms": false}}'::jsonb
+WHERE NOT preferences ? 'support_ticket_update';
+
+-- Row Level Security
+ALTER TABLE public.support_tickets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.support_ticket_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tickets"
+ON public.support_tickets
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can open their own tickets"
+ON public.support_tickets
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND assigned_to IS NULL AND status = 'open');
+
+CREATE POLICY "Support staff can view all tickets"
+ON public.support_tickets
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'customer_service'));
+
+CREATE POLICY "Support staff can update tickets"
+ON public.support_tickets
+FOR UPDATE
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'customer_service'));
+
+CREATE POLICY "Users can view public replies on their tickets"
+ON public.support_ticket_messages
+FOR SELECT
+TO authenticated
+USING (
+  NOT is_internal
+  AND EXISTS (SELECT 1 FROM public.support_tickets t WHERE t.id = ticket_id AND t.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can reply on their open tickets"
+ON public.support_ticket_messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = author_id
+  AND NOT is_staff
+  AND EXISTS (SELECT 1 FROM public.support_tickets t WHERE t.id = ticket_id AND t.user_id = auth.uid() AND t.status <> 'closed')
+);
+
+CREATE POLICY "Support staff can view all messages"
+ON public.support_ticket_messages
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'customer_service'));
+
+CREATE POLICY "Support staff can reply"
+ON public.support_ticket_messages
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = author_id AND is_staff AND public.has_role_or_higher(auth.uid(), 'customer_service'));
+
+COMMENT ON TABLE public.support_tickets IS 'Borrower support requests with SLA deadlines; managed through the support-tickets function';
+COMMENT ON TABLE public.support_ticket_messages IS 'Ticket thread; is_internal notes are visible to staff only';
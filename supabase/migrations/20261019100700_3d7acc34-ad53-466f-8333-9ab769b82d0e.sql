@@ -0,0 +1,131 @@
+-- ============================================================
+-- Email delivery log
+-- Every email handed to the configured transport (SMTP,
+-- SendGrid-compatible HTTP API or the local outbox) is recorded
+-- with its outcome and provider message ID. Provider event
+-- webhooks later mark deliveries as delivered, deferred or
+-- bounced so admins can confirm a borrower received a message.
+-- ============================================================
+
+CREATE TABLE public.email_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Recipient account when known; emails can go to addresses without one
+  user_id UUID,
+  recipient TEXT NOT NULL,
+  template TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('smtp', 'sendgrid', 'outbox')),
+  status TEXT NOT NULL DEFAULT 'sent'
+    CHECK (status IN ('sent', 'delivered', 'deferred', 'bounced', 'failed')),
+  provider_message_id TEXT,
+  error_message TEXT,
+  bounce_type TEXT CHECK (bounce_type IN ('hard', 'soft', 'blocked', 'dropped')),
+  bounce_reason TEXT,
+  loan_application_id UUID REFERENCES public.loan_applications(id) ON DELETE SET NULL,
+  -- Signed-in user whose action sent the email
+  triggered_by UUID,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  bounced_at TIMESTAMP WITH TIME ZONE,
+  last_event_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_email_deliveries_recipient ON public.email_deliveries (lower(recipient), created_at DESC);
+CREATE INDEX idx_email_deliveries_user ON public.email_deliveries (user_id, created_at DESC);
+CREATE INDEX idx_email_deliveries_status ON public.email_deliveries (status, created_at DESC);
+CREATE INDEX idx_email_deliveries_application ON public.email_deliveries (loan_application_id);
+CREATE INDEX idx_email_deliveries_provider_message ON public.email_deliveries (provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+CREATE TRIGGER update_email_deliveries_updated_at
+BEFORE UPDATE ON public.email_deliveries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================
+-- Apply a provider delivery event (delivered, deferred, bounce,
+-- dropped) to the matching delivery. A bounce is final: a later
+-- "delivered" event for the same message does not overwrite it.
+-- Returns false when no delivery carries the message ID.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.record_email_event(
+  _provider_message_id TEXT,
+  _event TEXT,
+  _reason TEXT DEFAULT NULL,
+  _bounce_type TEXT DEFAULT NULL,
+  _occurred_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.email_deliveries%ROWTYPE;
+BEGIN
+  SELECT * INTO _delivery
+  FROM public.email_deliveries
+  WHERE provider_message_id = _provider_message_id
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF _event = 'delivered' THEN
+    UPDATE public.email_deliveries
+    SET status = CASE WHEN status = 'bounced' THEN status ELSE 'delivered' END,
+        delivered_at = COALESCE(delivered_at, _occurred_at),
+        last_event_at = _occurred_at
+    WHERE id = _delivery.id;
+  ELSIF _event = 'deferred' THEN
+    UPDATE public.email_deliveries
+    SET status = CASE WHEN status IN ('bounced', 'delivered') THEN status ELSE 'deferred' END,
+        bounce_reason = COALESCE(_reason, bounce_reason),
+        last_event_at = _occurred_at
+    WHERE id = _delivery.id;
+  ELSIF _event IN ('bounce', 'dropped') THEN
+    UPDATE public.email_deliveries
+    SET status = 'bounced',
+        bounce_type = COALESCE(_bounce_type, CASE WHEN _event = 'dropped' THEN 'dropped' ELSE 'hard' END),
+        bounce_reason = _reason,
+        bounced_at = _occurred_at,
+        last_event_at = _occurred_at
+    WHERE id = _delivery.id;
+  ELSE
+    UPDATE public.email_deliveries
+    SET last_event_at = _occurred_at
+    WHERE id = _delivery.id;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Called only by the email-events webhook with service credentials
+REVOKE EXECUTE ON FUNCTION public.record_email_event(TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- RLS: deliveries are written by the notification backends with
+-- service credentials; admins read the log, borrowers see their own
+-- ============================================================
+ALTER TABLE public.email_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all email deliveries"
+ON public.email_deliveries
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view emails sent to them"
+ON public.email_deliveries
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.email_deliveries IS 'Outbound email log with transport outcome, provider message ID and bounce details';
@@ -0,0 +1,295 @@
+-- ============================================================
+-- Notification template store
+-- Email and SMS wording moves out of the notification backends
+-- into admin-editable templates with {{variable}} placeholders,
+-- a per-template enable switch and an immutable snapshot of
+-- every revision in notification_template_versions.
+-- Also corrects the lender name recorded on funded loans.
+-- ============================================================
+
+CREATE TABLE public.notification_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_key TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  name TEXT NOT NULL,
+  description TEXT,
+  -- Email only; SMS templates use text_body alone
+  subject TEXT,
+  html_body TEXT,
+  text_body TEXT NOT NULL,
+  -- Placeholders the sending code supplies, e.g. {applicantName,applicationNumber};
+  -- bodies reference them as {{name}} or {{name|fallback}}
+  variables TEXT[] NOT NULL DEFAULT '{}',
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  version INTEGER NOT NULL DEFAULT 1,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (template_key, channel),
+  CHECK (channel = 'sms' OR (subject IS NOT NULL AND html_body IS NOT NULL))
+);
+
+CREATE TABLE public.notification_template_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES public.notification_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  changed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (template_id, version)
+);
+
+CREATE INDEX idx_notification_template_versions_template ON public.notification_template_versions(template_id, version DESC);
+
+CREATE TRIGGER update_notification_templates_updated_at
+BEFORE UPDATE ON public.notification_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Bump the version on every wording or enablement change
+CREATE OR REPLACE FUNCTION public.bump_notification_template_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (to_jsonb(NEW) - ARRAY['version', 'updated_at', 'updated_by'])
+     IS DISTINCT FROM (to_jsonb(OLD) - ARRAY['version', 'updated_at', 'updated_by']) THEN
+    NEW.version := OLD.version + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Record a snapshot of each new version
+CREATE OR REPLACE FUNCTION public.snapshot_notification_template_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changed TEXT[] := '{}';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.version = OLD.version THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(array_agg(n.key ORDER BY n.key), '{}')
+    INTO v_changed
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key NOT IN ('version', 'updated_at', 'updated_by');
+  END IF;
+
+  INSERT INTO public.notification_template_versions (template_id, version, snapshot, changed_fields, changed_by)
+  VALUES (NEW.id, NEW.version, to_jsonb(NEW), v_changed, COALESCE(NEW.updated_by, auth.uid()));
+
+  RETURN NEW;
+END;
+$$;
+
+-- Seed from the wording previously hard-coded in notification-service
+INSERT INTO public.notification_templates (template_key, channel, name, description, subject, html_body, text_body, variables) VALUES
+  ('application_submitted', 'email', 'Application Received', 'Sent when a new application is submitted',
+   'Application Received - Halo Business Finance',
+   '<h1>Thank you, {{applicantName}}!</h1><p>Your application #{{applicationNumber}} has been received.</p>',
+   'Thank you, {{applicantName}}! Your application #{{applicationNumber}} has been received.',
+   '{applicantName,applicationNumber}'),
+  ('application_under_review', 'email', 'Application Under Review', 'Sent when application moves to review stage',
+   'Application Under Review - Halo Business Finance',
+   '<h1>Hello, {{applicantName}}</h1><p>Your application #{{applicationNumber}} is now under review.</p>',
+   'Hello, {{applicantName}}. Your application #{{applicationNumber}} is now under review.',
+   '{applicantName,applicationNumber}'),
+  ('application_approved', 'email', 'Application Approved', 'Sent when application is approved',
+   'Congratulations! Your Application is Approved',
+   '<h1>Great news, {{applicantName}}!</h1><p>Your application #{{applicationNumber}} has been approved!</p>',
+   'Great news, {{applicantName}}! Your application #{{applicationNumber}} has been approved!',
+   '{applicantName,applicationNumber}'),
+  ('application_rejected', 'email', 'Application Declined', 'Sent when application is declined',
+   'Application Update - Halo Business Finance',
+   '<h1>Hello, {{applicantName}}</h1><p>We regret to inform you that your application #{{applicationNumber}} was not approved.</p>',
+   'Hello, {{applicantName}}. We regret to inform you that your application #{{applicationNumber}} was not approved.',
+   '{applicantName,applicationNumber}'),
+  ('loan_funded', 'email', 'Loan Funded', 'Sent when loan is funded',
+   'Your Loan Has Been Funded!',
+   '<h1>Congratulations, {{applicantName}}!</h1><p>Your {{loanType}} loan of {{loanAmount}} has been funded!</p>',
+   'Congratulations, {{applicantName}}! Your {{loanType}} loan of {{loanAmount}} has been funded!',
+   '{applicantName,loanType,loanAmount,loanNumber,monthlyPayment,interestRate,termMonths}'),
+  ('document_required', 'email', 'Document Required', 'Sent when additional documents are needed',
+   'Document Required - Halo Business Finance',
+   '<h1>Hello, {{applicantName}}</h1><p>We need {{documentName|additional documents}} to continue reviewing application #{{applicationNumber}}. Please upload it from your dashboard.</p>',
+   'Hello, {{applicantName}}. We need {{documentName|additional documents}} to continue reviewing application #{{applicationNumber}}. Please upload it from your dashboard.',
+   '{applicantName,applicationNumber,documentName}'),
+  ('payment_reminder', 'email', 'Payment Reminder', 'Sent before payment due date',
+   'Payment Reminder - Halo Business Finance',
+   '<h1>Hello, {{applicantName}}</h1><p>Your payment of {{amountDue}} for loan {{loanNumber}} is due on {{dueDate}}.</p>',
+   'Hello, {{applicantName}}. Your payment of {{amountDue}} for loan {{loanNumber}} is due on {{dueDate}}.',
+   '{applicantName,loanNumber,amountDue,dueDate}'),
+  ('welcome', 'email', 'Welcome', 'Sent to new users',
+   'Welcome to Halo Business Finance',
+   '<h1>Welcome, {{userName}}!</h1><p>Thank you for joining Halo Business Finance.</p>',
+   'Welcome, {{userName}}! Thank you for joining Halo Business Finance.',
+   '{userName,loginUrl}'),
+  ('application_reminder', 'email', 'Incomplete Application Reminder', 'Sent when a draft application has not been finished',
+   'Complete Your Application - Halo Business Finance',
+   '<h1>Hello, {{userName}}</h1><p>You have an incomplete application from {{daysAgo}} days ago.</p>',
+   'Hello, {{userName}}. You have an incomplete application from {{daysAgo}} days ago.',
+   '{userName,daysAgo,continueUrl}'),
+  ('support_ticket_update', 'email', 'Support Ticket Update', 'Sent when support replies to or resolves a ticket',
+   '{{ticketUpdate}} on {{ticketNumber}}: {{ticketSubject}}',
+   '<p>{{ticketUpdate}} on your support ticket {{ticketNumber}}: {{ticketSubject}}.</p><p>Sign in to the portal and open Support to view the conversation.</p>',
+   '{{ticketUpdate}} on your support ticket {{ticketNumber}}: {{ticketSubject}}. Sign in to the portal and open Support to view the conversation.',
+   '{ticketNumber,ticketSubject,ticketUpdate}'),
+  ('application_submitted', 'sms', 'Application Received (SMS)', 'Text sent when a new application is submitted',
+   NULL, NULL,
+   'Halo Business Finance: Your application #{{applicationNumber}} has been received. We''ll be in touch soon!',
+   '{applicationNumber}'),
+  ('application_approved', 'sms', 'Application Approved (SMS)', 'Text sent when application is approved',
+   NULL, NULL,
+   'Halo Business Finance: Great news! Your application #{{applicationNumber}} has been approved! Log in for details.',
+   '{applicationNumber}'),
+  ('loan_funded', 'sms', 'Loan Funded (SMS)', 'Text sent when loan is funded',
+   NULL, NULL,
+   'Halo Business Finance: Your {{loanType}} loan of {{loanAmount}} has been funded! Check your account for details.',
+   '{loanType,loanAmount}');
+
+-- Version 1 of every seeded template
+INSERT INTO public.notification_template_versions (template_id, version, snapshot)
+SELECT id, version, to_jsonb(t) FROM public.notification_templates t;
+
+-- Triggers are attached after seeding so the seed itself is version 1
+CREATE TRIGGER bump_notification_template_version
+  BEFORE UPDATE ON public.notification_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_notification_template_version();
+
+CREATE TRIGGER snapshot_notification_template_version
+  AFTER INSERT OR UPDATE ON public.notification_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_notification_template_version();
+
+-- Row Level Security: templates are read by the backends with service
+-- credentials; only admins see or change them through the API
+ALTER TABLE public.notification_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view notification templates"
+ON public.notification_templates
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create notification templates"
+ON public.notification_templates
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role_or_higher(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update notification templates"
+ON public.notification_templates
+FOR UPDATE
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'))
+WITH CHECK (public.has_role_or_higher(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view notification template versions"
+ON public.notification_template_versions
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'));
+
+COMMENT ON TABLE public.notification_templates IS 'Admin-editable email and SMS wording; {{variable}} placeholders are filled by the notification backends';
+COMMENT ON TABLE public.notification_template_versions IS 'Immutable snapshot of each notification template revision';
+
+-- ============================================================
+-- Funded loans: record the lender under the current brand
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.create_existing_loan_on_funded()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_term_months INTEGER := 60;
+  v_interest_rate NUMERIC := 7.5;
+  v_monthly_payment NUMERIC;
+BEGIN
+  IF NEW.status = 'funded' AND (OLD.status IS NULL OR OLD.status != 'funded') THEN
+    
+    -- Extract term and interest rate from loan_details if available
+    IF NEW.loan_details IS NOT NULL THEN
+      IF NEW.loan_details->>'term_months' IS NOT NULL THEN
+        v_term_months := (NEW.loan_details->>'term_months')::INTEGER;
+      END IF;
+      
+      IF NEW.loan_details->>'interest_rate' IS NOT NULL THEN
+        v_interest_rate := (NEW.loan_details->>'interest_rate')::NUMERIC;
+      END IF;
+    END IF;
+    
+    -- Calculate monthly payment
+    IF NEW.amount_requested IS NOT NULL AND NEW.amount_requested > 0 THEN
+      v_monthly_payment := NEW.amount_requested * 
+        (v_interest_rate / 1200 * POWER(1 + v_interest_rate / 1200, v_term_months)) / 
+        (POWER(1 + v_interest_rate / 1200, v_term_months) - 1);
+    ELSE
+      v_monthly_payment := 0;
+    END IF;
+    
+    -- Insert the existing loan record
+    INSERT INTO public.existing_loans (
+      user_id,
+      loan_application_id,
+      loan_name,
+      loan_type,
+      lender,
+      loan_balance,
+      original_amount,
+      monthly_payment,
+      interest_rate,
+      term_months,
+      remaining_months,
+      maturity_date,
+      origination_date,
+      status,
+      loan_purpose,
+      has_prepayment_penalty,
+      prepayment_period_end_date
+    ) VALUES (
+      NEW.user_id,
+      NEW.id,
+      COALESCE(NEW.business_name, NEW.first_name || ' ' || NEW.last_name) || ' - ' || NEW.loan_type,
+      NEW.loan_type,
+      'Halo Business Finance',
+      COALESCE(NEW.amount_requested, 0),
+      COALESCE(NEW.amount_requested, 0),
+      v_monthly_payment,
+      v_interest_rate,
+      v_term_months,
+      v_term_months,
+      CURRENT_DATE + (v_term_months || ' months')::INTERVAL,
+      CURRENT_DATE,
+      'current',
+      COALESCE(NEW.loan_details->>'loan_purpose', 'Business financing'),
+      false,
+      NULL
+    );
+    
+    -- Note: Notification sending removed from trigger for security.
+    -- Edge functions handle notifications using service role credentials.
+    
+    RAISE NOTICE 'Created existing loan for application %', NEW.id;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$;
+
+UPDATE public.existing_loans
+SET lender = 'Halo Business Finance'
+WHERE lender = 'Heritage Business Funding';
@@ -0,0 +1,343 @@
+-- ============================================================
+-- SMS channel
+-- Borrowers opt in to texts for a specific number, can opt out at
+-- any time by replying STOP, and set quiet hours in their own time
+-- zone. Every text handed to the SMS transport (Twilio-compatible
+-- HTTP API or the local outbox) is recorded in sms_deliveries,
+-- including ones held for quiet hours or suppressed for missing
+-- consent or the daily cap.
+-- ============================================================
+
+-- Per-user SMS settings live next to the per-event channel switches
+ALTER TABLE public.notification_preferences
+  ADD COLUMN sms_phone TEXT CHECK (sms_phone ~ '^\+[1-9][0-9]{7,14}$'),
+  ADD COLUMN quiet_hours_start TIME DEFAULT '21:00',
+  ADD COLUMN quiet_hours_end TIME DEFAULT '08:00',
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'America/New_York';
+
+-- Consent is tracked per phone number: a STOP reply applies to the
+-- number regardless of which account registered it
+CREATE TABLE public.sms_consents (
+  phone_number TEXT NOT NULL PRIMARY KEY CHECK (phone_number ~ '^\+[1-9][0-9]{7,14}$'),
+  user_id UUID,
+  status TEXT NOT NULL CHECK (status IN ('opted_in', 'opted_out')),
+  -- web: preferences page; keyword: STOP/START reply; admin: support staff
+  source TEXT NOT NULL CHECK (source IN ('web', 'keyword', 'admin')),
+  consented_at TIMESTAMP WITH TIME ZONE,
+  opted_out_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sms_consents_user ON public.sms_consents (user_id);
+
+CREATE TRIGGER update_sms_consents_updated_at
+BEFORE UPDATE ON public.sms_consents
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.sms_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID,
+  recipient TEXT NOT NULL,
+  template TEXT NOT NULL,
+  body TEXT NOT NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('twilio', 'outbox')),
+  status TEXT NOT NULL
+    CHECK (status IN ('sent', 'delivered', 'undelivered', 'failed', 'deferred', 'suppressed')),
+  -- Why a text was not sent: not_opted_in, opted_out, rate_limited
+  suppression_reason TEXT,
+  -- Deferred texts are sent once quiet hours end
+  send_after TIMESTAMP WITH TIME ZONE,
+  provider_message_id TEXT,
+  error_message TEXT,
+  loan_application_id UUID REFERENCES public.loan_applications(id) ON DELETE SET NULL,
+  triggered_by UUID,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  last_event_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sms_deliveries_user ON public.sms_deliveries (user_id, created_at DESC);
+CREATE INDEX idx_sms_deliveries_recipient ON public.sms_deliveries (recipient, created_at DESC);
+CREATE INDEX idx_sms_deliveries_deferred ON public.sms_deliveries (send_after)
+  WHERE status = 'deferred';
+CREATE INDEX idx_sms_deliveries_provider_message ON public.sms_deliveries (provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+CREATE TRIGGER update_sms_deliveries_updated_at
+BEFORE UPDATE ON public.sms_deliveries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Current SMS settings and consent for a user
+CREATE OR REPLACE FUNCTION public.get_sms_settings(_user_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'phone', np.sms_phone,
+    'consent_status', c.status,
+    'consented_at', c.consented_at,
+    'opted_out_at', c.opted_out_at,
+    'quiet_hours_start', to_char(COALESCE(np.quiet_hours_start, '21:00'::time), 'HH24:MI'),
+    'quiet_hours_end', to_char(COALESCE(np.quiet_hours_end, '08:00'::time), 'HH24:MI'),
+    'timezone', COALESCE(np.timezone, 'America/New_York')
+  )
+  FROM (SELECT _user_id AS user_id) u
+  LEFT JOIN public.notification_preferences np ON np.user_id = u.user_id
+  LEFT JOIN public.sms_consents c ON c.phone_number = np.sms_phone;
+$$;
+
+-- Save a user's SMS number, consent and quiet hours. Changing the
+-- number withdraws consent for the old one.
+CREATE OR REPLACE FUNCTION public.set_sms_settings(
+  _user_id UUID,
+  _phone TEXT,
+  _opt_in BOOLEAN,
+  _quiet_hours_start TIME,
+  _quiet_hours_end TIME,
+  _timezone TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = _timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', _timezone;
+  END IF;
+
+  SELECT sms_phone INTO v_previous FROM public.notification_preferences WHERE user_id = _user_id;
+
+  INSERT INTO public.notification_preferences (user_id, sms_phone, quiet_hours_start, quiet_hours_end, timezone)
+  VALUES (_user_id, _phone, _quiet_hours_start, _quiet_hours_end, _timezone)
+  ON CONFLICT (user_id) DO UPDATE
+  SET sms_phone = EXCLUDED.sms_phone,
+      quiet_hours_start = EXCLUDED.quiet_hours_start,
+      quiet_hours_end = EXCLUDED.quiet_hours_end,
+      timezone = EXCLUDED.timezone,
+      updated_at = now();
+
+  IF v_previous IS NOT NULL AND v_previous IS DISTINCT FROM _phone THEN
+    UPDATE public.sms_consents
+    SET status = 'opted_out', source = 'web', opted_out_at = now()
+    WHERE phone_number = v_previous AND user_id = _user_id AND status = 'opted_in';
+  END IF;
+
+  IF _phone IS NOT NULL THEN
+    INSERT INTO public.sms_consents (phone_number, user_id, status, source, consented_at, opted_out_at)
+    VALUES (
+      _phone, _user_id,
+      CASE WHEN _opt_in THEN 'opted_in' ELSE 'opted_out' END,
+      'web',
+      CASE WHEN _opt_in THEN now() END,
+      CASE WHEN _opt_in THEN NULL ELSE now() END
+    )
+    ON CONFLICT (phone_number) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        status = EXCLUDED.status,
+        source = 'web',
+        consented_at = CASE WHEN _opt_in THEN now() ELSE sms_consents.consented_at END,
+        opted_out_at = CASE WHEN _opt_in THEN NULL ELSE now() END;
+  END IF;
+
+  RETURN public.get_sms_settings(_user_id);
+END;
+$$;
+
+-- Decide whether a text may go out now. Returns
+--   {"allowed": true}
+--   {"allowed": false, "reason": "not_opted_in" | "opted_out" | "rate_limited"}
+--   {"allowed": false, "reason": "quiet_hours", "send_after": <timestamptz>}
+CREATE OR REPLACE FUNCTION public.check_sms_eligibility(
+  _user_id UUID,
+  _phone TEXT,
+  _daily_limit INTEGER DEFAULT 5
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_consent TEXT;
+  v_sent INTEGER;
+  v_start TIME;
+  v_end TIME;
+  v_timezone TEXT;
+  v_local TIMESTAMP;
+  v_resume TIMESTAMP;
+BEGIN
+  SELECT status INTO v_consent FROM public.sms_consents WHERE phone_number = _phone;
+  IF v_consent IS NULL THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'not_opted_in');
+  ELSIF v_consent = 'opted_out' THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'opted_out');
+  END IF;
+
+  SELECT count(*) INTO v_sent
+  FROM public.sms_deliveries
+  WHERE (recipient = _phone OR (_user_id IS NOT NULL AND user_id = _user_id))
+    AND status IN ('sent', 'delivered', 'undelivered')
+    AND sent_at > now() - INTERVAL '24 hours';
+  IF v_sent >= _daily_limit THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'rate_limited');
+  END IF;
+
+  SELECT quiet_hours_start, quiet_hours_end, timezone
+  INTO v_start, v_end, v_timezone
+  FROM public.notification_preferences
+  WHERE user_id = _user_id;
+
+  IF v_start IS NOT NULL AND v_end IS NOT NULL AND v_start <> v_end THEN
+    v_local := now() AT TIME ZONE COALESCE(v_timezone, 'America/New_York');
+    -- The window may wrap past midnight, e.g. 21:00-08:00
+    IF (v_start < v_end AND v_local::time >= v_start AND v_local::time < v_end)
+       OR (v_start > v_end AND (v_local::time >= v_start OR v_local::time < v_end)) THEN
+      v_resume := v_local::date + v_end;
+      IF v_resume <= v_local THEN
+        v_resume := v_resume + INTERVAL '1 day';
+      END IF;
+      RETURN jsonb_build_object(
+        'allowed', false,
+        'reason', 'quiet_hours',
+        'send_after', v_resume AT TIME ZONE COALESCE(v_timezone, 'America/New_York')
+      );
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('allowed', true);
+END;
+$$;
+
+-- Apply an inbound opt-out/opt-in keyword. Returns the resulting
+-- action ('opted_out', 'opted_in', 'help') or NULL for other replies.
+CREATE OR REPLACE FUNCTION public.record_sms_keyword(_phone TEXT, _keyword TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_keyword TEXT := upper(trim(_keyword));
+BEGIN
+  IF v_keyword IN ('STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT') THEN
+    INSERT INTO public.sms_consents (phone_number, status, source, opted_out_at)
+    VALUES (_phone, 'opted_out', 'keyword', now())
+    ON CONFLICT (phone_number) DO UPDATE
+    SET status = 'opted_out', source = 'keyword', opted_out_at = now();
+
+    -- Nothing held for quiet hours should go out after a STOP
+    UPDATE public.sms_deliveries
+    SET status = 'suppressed', suppression_reason = 'opted_out'
+    WHERE recipient = _phone AND status = 'deferred';
+    RETURN 'opted_out';
+  ELSIF v_keyword IN ('START', 'UNSTOP', 'YES') THEN
+    INSERT INTO public.sms_consents (phone_number, status, source, consented_at)
+    VALUES (_phone, 'opted_in', 'keyword', now())
+    ON CONFLICT (phone_number) DO UPDATE
+    SET status = 'opted_in', source = 'keyword', consented_at = now(), opted_out_at = NULL;
+    RETURN 'opted_in';
+  ELSIF v_keyword IN ('HELP', 'INFO') THEN
+    RETURN 'help';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Apply a provider status callback to the matching delivery
+CREATE OR REPLACE FUNCTION public.record_sms_status(
+  _provider_message_id TEXT,
+  _status TEXT,
+  _error TEXT DEFAULT NULL,
+  _occurred_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _status NOT IN ('delivered', 'undelivered', 'failed') THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.sms_deliveries
+  SET status = _status,
+      error_message = COALESCE(_error, error_message),
+      delivered_at = CASE WHEN _status = 'delivered' THEN COALESCE(delivered_at, _occurred_at) ELSE delivered_at END,
+      last_event_at = _occurred_at
+  WHERE provider_message_id = _provider_message_id;
+  RETURN FOUND;
+END;
+$$;
+
+-- Only the notification backends call these, with service credentials
+REVOKE EXECUTE ON FUNCTION public.get_sms_settings(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_sms_settings(UUID, TEXT, BOOLEAN, TIME, TIME, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_sms_eligibility(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_sms_keyword(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_sms_status(TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- RLS: written by the notification backends; admins read the log,
+-- borrowers see their own consent and texts
+-- ============================================================
+ALTER TABLE public.sms_consents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sms_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all SMS consents"
+ON public.sms_consents
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own SMS consent"
+ON public.sms_consents
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all SMS deliveries"
+ON public.sms_deliveries
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own SMS deliveries"
+ON public.sms_deliveries
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+COMMENT ON TABLE public.sms_consents IS 'SMS opt-in/opt-out per phone number; STOP replies apply regardless of account';
+COMMENT ON TABLE public.sms_deliveries IS 'Outbound SMS log, including texts deferred for quiet hours or suppressed';
+
+-- ============================================================
+-- SMS wording for the remaining dispatched events
+-- ============================================================
+INSERT INTO public.notification_templates (template_key, channel, name, description, subject, html_body, text_body, variables) VALUES
+  ('application_under_review', 'sms', 'Application Under Review (SMS)', 'Text sent when an application moves to review',
+   NULL, NULL,
+   'Halo Business Finance: Application #{{applicationNumber}} is now under review. We''ll text you when there''s an update. Reply STOP to opt out.',
+   '{applicationNumber}'),
+  ('application_rejected', 'sms', 'Application Decision (SMS)', 'Text sent when an application is declined',
+   NULL, NULL,
+   'Halo Business Finance: A decision has been made on application #{{applicationNumber}}. Log in to view the details. Reply STOP to opt out.',
+   '{applicationNumber}'),
+  ('support_ticket_update', 'sms', 'Support Ticket Update (SMS)', 'Text sent when support replies to or resolves a ticket',
+   NULL, NULL,
+   'Halo Business Finance: {{ticketUpdate}} on support ticket {{ticketNumber}}. Log in to view the conversation. Reply STOP to opt out.',
+   '{ticketNumber,ticketUpdate}')
+ON CONFLICT (template_key, channel) DO NOTHING;
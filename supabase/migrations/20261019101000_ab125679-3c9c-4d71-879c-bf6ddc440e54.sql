@@ -0,0 +1,223 @@
+-- ============================================================
+-- Durable notification outbox
+-- Borrower and external-webhook notifications are written to
+-- notification_outbox in the same transaction as the change that
+-- caused them, then delivered by the outbox worker
+-- (POST /api/notification-outbox/drain) with exponential backoff.
+-- Rows that keep failing are parked as 'dead' for an admin to
+-- inspect and requeue.
+-- ============================================================
+
+CREATE TABLE public.notification_outbox (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event TEXT NOT NULL
+    CHECK (event IN ('application_status_change', 'loan_funded', 'external_webhook')),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Enqueueing the same key twice is a no-op
+  idempotency_key TEXT NOT NULL UNIQUE,
+  loan_application_id UUID REFERENCES public.loan_applications(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'delivered', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8 CHECK (max_attempts > 0),
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Lease held by the worker while a row is being delivered
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  -- Outcome per channel; channels already handled are not repeated on retry
+  result JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  dead_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notification_outbox_due ON public.notification_outbox (next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX idx_notification_outbox_status ON public.notification_outbox (status, created_at DESC);
+CREATE INDEX idx_notification_outbox_application ON public.notification_outbox (loan_application_id);
+
+CREATE TRIGGER update_notification_outbox_updated_at
+BEFORE UPDATE ON public.notification_outbox
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queue a notification; returns the existing row's id when the key was already used
+CREATE OR REPLACE FUNCTION public.enqueue_notification(
+  _event TEXT,
+  _payload JSONB,
+  _idempotency_key TEXT,
+  _loan_application_id UUID DEFAULT NULL,
+  _created_by UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO public.notification_outbox (event, payload, idempotency_key, loan_application_id, created_by)
+  VALUES (_event, COALESCE(_payload, '{}'::jsonb), _idempotency_key, _loan_application_id, _created_by)
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM public.notification_outbox WHERE idempotency_key = _idempotency_key;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- One outbox row per active webhook subscribed to the event, so a
+-- failing Slack channel is retried without re-posting to Discord
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_notifications(
+  _event_type TEXT,
+  _title TEXT,
+  _message TEXT,
+  _data JSONB,
+  _idempotency_key TEXT,
+  _loan_application_id UUID DEFAULT NULL,
+  _created_by UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO public.notification_outbox (event, payload, idempotency_key, loan_application_id, created_by)
+  SELECT
+    'external_webhook',
+    jsonb_build_object(
+      'webhookId', w.id,
+      'eventType', _event_type,
+      'title', _title,
+      'message', _message,
+      'data', COALESCE(_data, '{}'::jsonb)
+    ),
+    _idempotency_key || ':webhook:' || w.id,
+    _loan_application_id,
+    _created_by
+  FROM public.external_notification_webhooks w
+  WHERE w.is_active AND w.event_types ? _event_type
+  ON CONFLICT (idempotency_key) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Queue the borrower notification and subscribed webhooks whenever an
+-- application changes status, in the same transaction as the update
+CREATE OR REPLACE FUNCTION public.enqueue_application_status_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT := NEW.status::text;
+  v_key TEXT := 'application_status_change:' || NEW.id || ':' || NEW.status::text || ':' || txid_current();
+  v_name TEXT := COALESCE(NULLIF(TRIM(COALESCE(NEW.first_name, '') || ' ' || COALESCE(NEW.last_name, '')), ''), NEW.business_name, 'Applicant');
+  v_amount TEXT := to_char(COALESCE(NEW.amount_requested, 0), 'FM$999,999,999,990.00');
+  v_data JSONB;
+BEGIN
+  IF OLD.status IS NOT DISTINCT FROM NEW.status OR v_status IS NULL OR v_status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  v_data := jsonb_build_object(
+    'applicantName', v_name,
+    'applicationNumber', NEW.application_number,
+    'loanType', NEW.loan_type,
+    'loanAmount', v_amount
+  );
+
+  IF v_status = 'funded' THEN
+    PERFORM public.enqueue_notification(
+      'loan_funded',
+      jsonb_build_object('applicationId', NEW.id),
+      v_key,
+      NEW.id,
+      auth.uid()
+    );
+    PERFORM public.enqueue_webhook_notifications(
+      'loan_funded',
+      '🎉 Loan Funded',
+      format('%s loan of %s has been funded for %s', NEW.loan_type, v_amount, v_name),
+      v_data,
+      v_key,
+      NEW.id,
+      auth.uid()
+    );
+  ELSE
+    PERFORM public.enqueue_notification(
+      'application_status_change',
+      jsonb_build_object('applicationId', NEW.id, 'newStatus', v_status, 'previousStatus', OLD.status::text),
+      v_key,
+      NEW.id,
+      auth.uid()
+    );
+    PERFORM public.enqueue_webhook_notifications(
+      'application_' || v_status,
+      'Application ' || initcap(replace(v_status, '_', ' ')),
+      format('Application %s for %s is now %s', NEW.application_number, v_name, replace(v_status, '_', ' ')),
+      v_data,
+      v_key,
+      NEW.id,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_application_status_notifications
+  AFTER UPDATE OF status ON public.loan_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_application_status_notifications();
+
+-- Put a dead-lettered row back in the queue with a fresh retry budget
+CREATE OR REPLACE FUNCTION public.requeue_notification_outbox(_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.notification_outbox
+  SET status = 'pending',
+      attempts = 0,
+      next_attempt_at = now(),
+      locked_until = NULL,
+      dead_at = NULL
+  WHERE id = _id AND status = 'dead';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Called by the notification backends with the service role only
+REVOKE EXECUTE ON FUNCTION public.enqueue_notification(TEXT, JSONB, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_notifications(TEXT, TEXT, TEXT, JSONB, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.requeue_notification_outbox(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- Row level security
+-- ============================================================
+ALTER TABLE public.notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the notification outbox"
+ON public.notification_outbox
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'));
+
+COMMENT ON TABLE public.notification_outbox IS 'Transactional outbox for borrower and webhook notifications; dead rows are the dead-letter queue';
@@ -0,0 +1,62 @@
+-- ============================================================
+-- External CRM connector
+-- Enabled crm_integration_settings rows are connectors: local CRM
+-- contacts, opportunities and activities are pushed to them using
+-- their field_mappings, and inbound updates arrive on a signed
+-- webhook. crm_external_links remembers which external record each
+-- local record corresponds to, per connector.
+-- ============================================================
+
+CREATE TABLE public.crm_external_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  connector_id UUID NOT NULL REFERENCES public.crm_integration_settings(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('contact', 'opportunity', 'activity')),
+  local_id UUID NOT NULL,
+  external_id TEXT NOT NULL,
+  last_pushed_at TIMESTAMP WITH TIME ZONE,
+  last_pulled_at TIMESTAMP WITH TIME ZONE,
+  -- Modification time the external CRM reported on the last inbound update
+  external_updated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (connector_id, entity_type, local_id),
+  UNIQUE (connector_id, entity_type, external_id)
+);
+
+CREATE INDEX idx_crm_external_links_local ON public.crm_external_links (entity_type, local_id);
+
+CREATE TRIGGER update_crm_external_links_updated_at
+BEFORE UPDATE ON public.crm_external_links
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Inbound updates older than the local record are recorded as skipped
+ALTER TABLE public.crm_sync_log DROP CONSTRAINT IF EXISTS crm_sync_log_status_check;
+ALTER TABLE public.crm_sync_log ADD CONSTRAINT crm_sync_log_status_check
+  CHECK (status IN ('pending', 'success', 'failed', 'partial', 'skipped'));
+
+CREATE INDEX IF NOT EXISTS idx_crm_sync_log_entity ON public.crm_sync_log (entity_type, entity_id);
+
+-- ============================================================
+-- Row level security
+-- Connectors send borrower data to the configured endpoint, so
+-- only admins may create or change them.
+-- ============================================================
+ALTER TABLE public.crm_external_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view CRM links"
+ON public.crm_external_links
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Users can manage their own integration settings" ON public.crm_integration_settings;
+
+CREATE POLICY "Admins can manage CRM integration settings"
+ON public.crm_integration_settings
+FOR ALL
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'))
+WITH CHECK (public.has_role_or_higher(auth.uid(), 'admin'));
+
+COMMENT ON TABLE public.crm_external_links IS 'Local CRM record to external CRM record mapping, one row per connector and record';
@@ -0,0 +1,198 @@
+-- ============================================================
+-- CRM sync reconciliation and replay
+-- run_crm_reconciliation() compares borrowers' profiles and loan
+-- applications with crm_contacts / crm_opportunities and records
+-- missing, stale and orphaned records in crm_reconciliation_runs.
+-- Failed crm_sync_log entries stay open until they are replayed or
+-- dismissed, and the retention cleanup no longer deletes open ones.
+-- ============================================================
+
+ALTER TABLE public.crm_sync_log
+  ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS resolved_by UUID,
+  ADD COLUMN IF NOT EXISTS resolution TEXT CHECK (resolution IN ('replayed', 'dismissed'));
+
+CREATE INDEX IF NOT EXISTS idx_crm_sync_log_open_failures ON public.crm_sync_log (created_at DESC)
+  WHERE status = 'failed' AND resolved_at IS NULL;
+
+CREATE TABLE public.crm_reconciliation_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- NULL when started by the scheduler
+  triggered_by UUID,
+  -- Counts per check, plus totals and open sync failures
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Up to _sample_limit examples per check: { kind, entity_type, crm_id, source_id, detail }
+  issues JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Filled in when the run also replayed failures: { selected, replayed, succeeded, failed, skipped }
+  replay JSONB,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_crm_reconciliation_runs_started ON public.crm_reconciliation_runs (started_at DESC);
+
+-- Opportunity stage a loan application status should map to (matches
+-- mapStatusToStage in crmSyncService); NULL when any stage is acceptable
+CREATE OR REPLACE FUNCTION public.crm_expected_stage(_status TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _status
+    WHEN 'draft' THEN 'prospecting'
+    WHEN 'submitted' THEN 'qualification'
+    WHEN 'under_review' THEN 'qualification'
+    WHEN 'approved' THEN 'negotiation'
+    WHEN 'funded' THEN 'closed_won'
+    WHEN 'rejected' THEN 'closed_lost'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_crm_reconciliation(
+  _triggered_by UUID DEFAULT NULL,
+  _sample_limit INTEGER DEFAULT 50
+)
+RETURNS public.crm_reconciliation_runs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run public.crm_reconciliation_runs;
+BEGIN
+  INSERT INTO public.crm_reconciliation_runs (triggered_by) VALUES (_triggered_by) RETURNING * INTO v_run;
+
+  -- Only borrowers (users with an application) are expected to have a contact
+  CREATE TEMP TABLE crm_reconciliation_issues AS
+  WITH borrowers AS (
+    SELECT p.* FROM public.profiles p
+    WHERE EXISTS (SELECT 1 FROM public.loan_applications la WHERE la.user_id = p.id)
+  )
+  SELECT 'missing'::text AS kind, 'contact'::text AS entity_type, NULL::uuid AS crm_id, b.id AS source_id,
+         'Borrower has no CRM contact'::text AS detail
+  FROM borrowers b
+  WHERE NOT EXISTS (SELECT 1 FROM public.crm_contacts c WHERE c.user_id = b.id)
+
+  UNION ALL
+  SELECT 'stale', 'contact', c.id, b.id,
+         'Differs from profile: ' || concat_ws(', ',
+           CASE WHEN b.first_name IS NOT NULL AND b.first_name IS DISTINCT FROM c.first_name THEN 'first name' END,
+           CASE WHEN b.last_name IS NOT NULL AND b.last_name IS DISTINCT FROM c.last_name THEN 'last name' END,
+           CASE WHEN b.phone IS NOT NULL AND b.phone IS DISTINCT FROM c.phone THEN 'phone' END,
+           CASE WHEN b.business_name IS NOT NULL AND b.business_name IS DISTINCT FROM c.company_name THEN 'company' END)
+  FROM public.crm_contacts c
+  JOIN borrowers b ON b.id = c.user_id
+  WHERE (b.first_name IS NOT NULL AND b.first_name IS DISTINCT FROM c.first_name)
+     OR (b.last_name IS NOT NULL AND b.last_name IS DISTINCT FROM c.last_name)
+     OR (b.phone IS NOT NULL AND b.phone IS DISTINCT FROM c.phone)
+     OR (b.business_name IS NOT NULL AND b.business_name IS DISTINCT FROM c.company_name)
+
+  UNION ALL
+  -- Contacts without a user are CRM leads; only a user that no longer exists is an orphan
+  SELECT 'orphaned', 'contact', c.id, c.user_id, 'Portal user no longer exists'
+  FROM public.crm_contacts c
+  WHERE c.user_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = c.user_id)
+
+  UNION ALL
+  SELECT 'missing', 'opportunity', NULL, la.id,
+         'Application ' || COALESCE(la.application_number, la.id::text) || ' has no CRM opportunity'
+  FROM public.loan_applications la
+  WHERE NOT EXISTS (SELECT 1 FROM public.crm_opportunities o WHERE o.loan_application_id = la.id)
+
+  UNION ALL
+  SELECT 'stale', 'opportunity', o.id, la.id,
+         'Differs from application: ' || concat_ws(', ',
+           CASE WHEN public.crm_expected_stage(la.status::text) IS DISTINCT FROM o.stage
+                 AND public.crm_expected_stage(la.status::text) IS NOT NULL
+                THEN format('stage %s, expected %s', COALESCE(o.stage, 'none'), public.crm_expected_stage(la.status::text)) END,
+           CASE WHEN la.amount_requested IS NOT NULL AND la.amount_requested IS DISTINCT FROM o.loan_amount
+                THEN format('amount %s, expected %s', COALESCE(o.loan_amount::text, 'none'), la.amount_requested) END)
+  FROM public.crm_opportunities o
+  JOIN public.loan_applications la ON la.id = o.loan_application_id
+  WHERE (public.crm_expected_stage(la.status::text) IS NOT NULL AND public.crm_expected_stage(la.status::text) IS DISTINCT FROM o.stage)
+     OR (la.amount_requested IS NOT NULL AND la.amount_requested IS DISTINCT FROM o.loan_amount)
+
+  UNION ALL
+  SELECT 'orphaned', 'opportunity', o.id, o.loan_application_id,
+         CASE WHEN o.loan_application_id IS NULL THEN 'Opportunity has no loan application'
+              ELSE 'Application belongs to a different borrower than the contact' END
+  FROM public.crm_opportunities o
+  LEFT JOIN public.loan_applications la ON la.id = o.loan_application_id
+  LEFT JOIN public.crm_contacts c ON c.id = o.contact_id
+  WHERE o.loan_application_id IS NULL
+     OR (c.user_id IS NOT NULL AND la.user_id IS DISTINCT FROM c.user_id);
+
+  UPDATE public.crm_reconciliation_runs
+  SET summary = jsonb_build_object(
+        'borrowers', (SELECT COUNT(DISTINCT user_id) FROM public.loan_applications),
+        'applications', (SELECT COUNT(*) FROM public.loan_applications),
+        'contacts', (SELECT COUNT(*) FROM public.crm_contacts),
+        'opportunities', (SELECT COUNT(*) FROM public.crm_opportunities),
+        'open_failures', (SELECT COUNT(*) FROM public.crm_sync_log WHERE status = 'failed' AND resolved_at IS NULL),
+        'issues', COALESCE((
+          SELECT jsonb_object_agg(key, n) FROM (
+            SELECT kind || '_' || entity_type AS key, COUNT(*) AS n
+            FROM crm_reconciliation_issues GROUP BY kind, entity_type
+          ) counts
+        ), '{}'::jsonb)
+      ),
+      issues = COALESCE((
+        SELECT jsonb_agg(to_jsonb(sample) - 'rn' ORDER BY sample.kind, sample.entity_type, sample.rn)
+        FROM (
+          SELECT i.*, row_number() OVER (PARTITION BY i.kind, i.entity_type ORDER BY i.source_id) AS rn
+          FROM crm_reconciliation_issues i
+        ) sample
+        WHERE sample.rn <= _sample_limit
+      ), '[]'::jsonb),
+      completed_at = now()
+  WHERE id = v_run.id
+  RETURNING * INTO v_run;
+
+  DROP TABLE crm_reconciliation_issues;
+  RETURN v_run;
+END;
+$$;
+
+-- Keep failures nobody has replayed or dismissed; everything else expires after 90 days
+CREATE OR REPLACE FUNCTION public.cleanup_old_crm_sync_logs()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM public.crm_sync_log
+  WHERE created_at < NOW() - INTERVAL '90 days'
+    AND (status <> 'failed' OR resolved_at IS NOT NULL);
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  DELETE FROM public.crm_reconciliation_runs
+  WHERE started_at < NOW() - INTERVAL '90 days';
+
+  RAISE NOTICE 'Deleted % old CRM sync log entries', deleted_count;
+  RETURN deleted_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.cleanup_old_crm_sync_logs() IS 'Deletes CRM sync logs older than 90 days, keeping failures that have not been replayed or dismissed. Should be called periodically via cron job or scheduled function.';
+
+-- Called by the CRM connector backends with the service role only
+REVOKE EXECUTE ON FUNCTION public.run_crm_reconciliation(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- Row level security
+-- ============================================================
+ALTER TABLE public.crm_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view CRM reconciliation runs"
+ON public.crm_reconciliation_runs
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'));
+
+COMMENT ON TABLE public.crm_reconciliation_runs IS 'Results of comparing portal borrowers and applications with the local CRM tables';
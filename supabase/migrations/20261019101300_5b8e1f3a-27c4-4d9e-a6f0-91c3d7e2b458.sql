@@ -0,0 +1,414 @@
+-- ============================================================
+-- Underwriter workload balancing and auto-assignment
+-- Underwriters get a capacity limit, an out-of-office flag and an
+-- optional loan product / amount band. Submitted applications are
+-- routed automatically (round robin, least open workload or skill
+-- based) and assignments still open after the SLA are handed to
+-- another underwriter by reassign_stale_assignments().
+-- ============================================================
+
+CREATE TABLE public.underwriter_settings (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_open_assignments INTEGER NOT NULL DEFAULT 10 CHECK (max_open_assignments > 0),
+  -- Excluded from routing; the SLA sweep moves their open work to others
+  out_of_office BOOLEAN NOT NULL DEFAULT false,
+  -- Out of office ends automatically at this time when set
+  out_of_office_until TIMESTAMP WITH TIME ZONE,
+  auto_assign BOOLEAN NOT NULL DEFAULT true,
+  -- Loan product codes this underwriter handles; empty means any product
+  loan_types TEXT[] NOT NULL DEFAULT '{}',
+  min_amount NUMERIC CHECK (min_amount IS NULL OR min_amount >= 0),
+  max_amount NUMERIC CHECK (max_amount IS NULL OR max_amount >= 0),
+  -- Used by the round-robin strategy
+  last_assigned_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_by UUID,
+  CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+);
+
+CREATE TRIGGER update_underwriter_settings_updated_at
+BEFORE UPDATE ON public.underwriter_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.admin_application_assignments
+  ADD COLUMN IF NOT EXISTS assignment_method TEXT NOT NULL DEFAULT 'manual'
+    CHECK (assignment_method IN ('manual', 'round_robin', 'least_loaded', 'skill_based', 'sla_reassignment')),
+  -- Reassigned by the SLA sweep when the application is still open after this
+  ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS reassigned_from UUID,
+  ADD COLUMN IF NOT EXISTS reassignment_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_admin_application_assignments_due
+  ON public.admin_application_assignments (due_at)
+  WHERE due_at IS NOT NULL;
+
+INSERT INTO public.system_settings (setting_key, setting_value, category) VALUES
+('assignment_routing', '{"strategy": "least_loaded", "sla_hours": 48, "auto_assign_on_submit": true}'::jsonb, 'underwriting')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- ============================================================
+-- Workload
+-- ============================================================
+
+-- Candidates for routing: every underwriter, plus admins who opted in with
+-- a settings row. Open work is an assignment whose application is still
+-- submitted or under review.
+CREATE OR REPLACE VIEW public.underwriter_workload
+WITH (security_invoker = true)
+AS
+SELECT
+  r.user_id,
+  r.role::text AS role,
+  COALESCE(s.max_open_assignments, 10) AS max_open_assignments,
+  COALESCE(s.out_of_office AND (s.out_of_office_until IS NULL OR s.out_of_office_until > now()), false) AS out_of_office,
+  s.out_of_office_until,
+  COALESCE(s.auto_assign, true) AS auto_assign,
+  COALESCE(s.loan_types, '{}') AS loan_types,
+  s.min_amount,
+  s.max_amount,
+  s.last_assigned_at,
+  (
+    SELECT COUNT(*)::integer
+    FROM public.admin_application_assignments a
+    JOIN public.loan_applications la ON la.id = a.application_id
+    WHERE a.admin_id = r.user_id
+      AND la.status::text IN ('submitted', 'under_review')
+  ) AS open_assignments,
+  (
+    SELECT COUNT(*)::integer
+    FROM public.admin_application_assignments a
+    JOIN public.loan_applications la ON la.id = a.application_id
+    WHERE a.admin_id = r.user_id
+      AND la.status::text IN ('submitted', 'under_review')
+      AND a.due_at < now()
+  ) AS overdue_assignments
+FROM (
+  SELECT DISTINCT ON (user_id) user_id, role
+  FROM public.user_roles
+  WHERE role IN ('underwriter', 'admin', 'super_admin')
+  ORDER BY user_id, role = 'underwriter' DESC
+) r
+LEFT JOIN public.underwriter_settings s ON s.user_id = r.user_id
+WHERE r.role = 'underwriter' OR s.user_id IS NOT NULL;
+
+COMMENT ON VIEW public.underwriter_workload IS 'Underwriters eligible for routing with their capacity, availability and open assignment counts';
+
+CREATE OR REPLACE FUNCTION public.assignment_routing_setting(_key TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT setting_value -> _key FROM public.system_settings WHERE setting_key = 'assignment_routing';
+$$;
+
+-- Keep manual assignments on the same SLA clock as automatic ones
+CREATE OR REPLACE FUNCTION public.set_assignment_due_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.due_at IS NULL THEN
+    NEW.due_at := now() + make_interval(hours => COALESCE((public.assignment_routing_setting('sla_hours'))::integer, 48));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_admin_application_assignment_due_at
+BEFORE INSERT ON public.admin_application_assignments
+FOR EACH ROW
+EXECUTE FUNCTION public.set_assignment_due_at();
+
+-- ============================================================
+-- Routing
+-- ============================================================
+
+-- Pick an available underwriter for an application, or NULL when everyone
+-- is out of office, at capacity or outside the product / amount band.
+CREATE OR REPLACE FUNCTION public.pick_underwriter(
+  _application_id UUID,
+  _strategy TEXT,
+  _exclude UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_app RECORD;
+  v_user_id UUID;
+BEGIN
+  SELECT id, loan_type, amount_requested INTO v_app FROM public.loan_applications WHERE id = _application_id;
+  IF v_app.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT w.user_id INTO v_user_id
+  FROM public.underwriter_workload w
+  WHERE w.auto_assign
+    AND NOT w.out_of_office
+    AND w.open_assignments < w.max_open_assignments
+    AND w.user_id IS DISTINCT FROM _exclude
+    AND NOT EXISTS (
+      SELECT 1 FROM public.admin_application_assignments a
+      WHERE a.application_id = _application_id AND a.admin_id = w.user_id
+    )
+    -- The product and amount band restrict every strategy
+    AND (cardinality(w.loan_types) = 0 OR v_app.loan_type = ANY (w.loan_types))
+    AND (w.min_amount IS NULL OR COALESCE(v_app.amount_requested, 0) >= w.min_amount)
+    AND (w.max_amount IS NULL OR COALESCE(v_app.amount_requested, 0) <= w.max_amount)
+  ORDER BY
+    -- Skill based: specialists for the product first, then the narrowest amount band
+    CASE WHEN _strategy = 'skill_based' THEN (v_app.loan_type = ANY (w.loan_types)) END DESC NULLS LAST,
+    CASE WHEN _strategy = 'skill_based' THEN COALESCE(w.max_amount, 'Infinity'::numeric) - COALESCE(w.min_amount, 0) END ASC NULLS LAST,
+    CASE WHEN _strategy = 'round_robin' THEN w.last_assigned_at END ASC NULLS FIRST,
+    w.open_assignments::numeric / w.max_open_assignments,
+    w.last_assigned_at ASC NULLS FIRST,
+    w.user_id
+  LIMIT 1;
+
+  RETURN v_user_id;
+END;
+$$;
+
+-- Backend-only: assign without a caller check. Returns the assignment id,
+-- or NULL when the application is already assigned or nobody is available.
+CREATE OR REPLACE FUNCTION public.assign_application_automatically(
+  _application_id UUID,
+  _strategy TEXT DEFAULT NULL,
+  _assigned_by UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_strategy TEXT := COALESCE(_strategy, public.assignment_routing_setting('strategy') #>> '{}', 'least_loaded');
+  v_underwriter UUID;
+  v_assignment_id UUID;
+BEGIN
+  IF v_strategy NOT IN ('round_robin', 'least_loaded', 'skill_based') THEN
+    RAISE EXCEPTION 'Unknown assignment strategy %', v_strategy;
+  END IF;
+
+  -- Serialise concurrent routing of the same application
+  PERFORM 1 FROM public.loan_applications WHERE id = _application_id FOR UPDATE;
+  IF EXISTS (SELECT 1 FROM public.admin_application_assignments WHERE application_id = _application_id) THEN
+    RETURN NULL;
+  END IF;
+
+  v_underwriter := public.pick_underwriter(_application_id, v_strategy);
+  IF v_underwriter IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.admin_application_assignments (application_id, admin_id, assigned_by, assignment_method, notes)
+  VALUES (_application_id, v_underwriter, _assigned_by, v_strategy, 'Assigned automatically (' || replace(v_strategy, '_', ' ') || ')')
+  RETURNING id INTO v_assignment_id;
+
+  INSERT INTO public.underwriter_settings (user_id, last_assigned_at)
+  VALUES (v_underwriter, now())
+  ON CONFLICT (user_id) DO UPDATE SET last_assigned_at = EXCLUDED.last_assigned_at;
+
+  PERFORM public.log_audit_event(
+    _assigned_by, 'AUTO_ASSIGN_APPLICATION', 'loan_application', _application_id,
+    NULL, NULL, jsonb_build_object('assigned_to', v_underwriter, 'strategy', v_strategy, 'assignment_id', v_assignment_id)
+  );
+
+  RETURN v_assignment_id;
+END;
+$$;
+
+-- Admin entry point for a single application
+CREATE OR REPLACE FUNCTION public.auto_assign_application(_application_id UUID, _strategy TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to assign applications';
+  END IF;
+  RETURN public.assign_application_automatically(_application_id, _strategy, auth.uid());
+END;
+$$;
+
+-- Route every unassigned submitted / under-review application, oldest first
+CREATE OR REPLACE FUNCTION public.auto_assign_pending_applications(_strategy TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_app RECORD;
+  v_assigned INTEGER := 0;
+  v_unassigned INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to assign applications';
+  END IF;
+
+  FOR v_app IN
+    SELECT la.id FROM public.loan_applications la
+    WHERE la.status::text IN ('submitted', 'under_review')
+      AND NOT EXISTS (SELECT 1 FROM public.admin_application_assignments a WHERE a.application_id = la.id)
+    ORDER BY la.created_at
+  LOOP
+    IF public.assign_application_automatically(v_app.id, _strategy, auth.uid()) IS NOT NULL THEN
+      v_assigned := v_assigned + 1;
+    ELSE
+      v_unassigned := v_unassigned + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('assigned', v_assigned, 'unassigned', v_unassigned);
+END;
+$$;
+
+-- Hand open assignments past their SLA, or held by someone out of office,
+-- to another available underwriter. Assignments nobody can take stay put.
+CREATE OR REPLACE FUNCTION public.reassign_stale_assignments()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_strategy TEXT := COALESCE(public.assignment_routing_setting('strategy') #>> '{}', 'least_loaded');
+  v_row RECORD;
+  v_underwriter UUID;
+  v_reassigned INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to reassign applications';
+  END IF;
+
+  FOR v_row IN
+    SELECT a.id, a.application_id, a.admin_id, a.due_at
+    FROM public.admin_application_assignments a
+    JOIN public.loan_applications la ON la.id = a.application_id
+    WHERE la.status::text IN ('submitted', 'under_review')
+      AND (
+        a.due_at < now()
+        OR EXISTS (
+          SELECT 1 FROM public.underwriter_settings s
+          WHERE s.user_id = a.admin_id
+            AND s.out_of_office
+            AND (s.out_of_office_until IS NULL OR s.out_of_office_until > now())
+        )
+      )
+    ORDER BY a.due_at NULLS LAST
+    FOR UPDATE OF a SKIP LOCKED
+  LOOP
+    v_underwriter := public.pick_underwriter(v_row.application_id, v_strategy, v_row.admin_id);
+    CONTINUE WHEN v_underwriter IS NULL;
+
+    UPDATE public.admin_application_assignments
+    SET admin_id = v_underwriter,
+        reassigned_from = v_row.admin_id,
+        assignment_method = 'sla_reassignment',
+        assigned_at = now(),
+        due_at = now() + make_interval(hours => COALESCE((public.assignment_routing_setting('sla_hours'))::integer, 48)),
+        reassignment_count = reassignment_count + 1
+    WHERE id = v_row.id;
+
+    INSERT INTO public.underwriter_settings (user_id, last_assigned_at)
+    VALUES (v_underwriter, now())
+    ON CONFLICT (user_id) DO UPDATE SET last_assigned_at = EXCLUDED.last_assigned_at;
+
+    PERFORM public.log_audit_event(
+      auth.uid(), 'REASSIGN_STALE_APPLICATION', 'loan_application', v_row.application_id,
+      NULL, NULL, jsonb_build_object('from', v_row.admin_id, 'to', v_underwriter, 'due_at', v_row.due_at, 'assignment_id', v_row.id)
+    );
+    v_reassigned := v_reassigned + 1;
+  END LOOP;
+
+  RETURN v_reassigned;
+END;
+$$;
+
+-- Underwriters set their own out-of-office; admins may set anyone's
+CREATE OR REPLACE FUNCTION public.set_underwriter_out_of_office(
+  _user_id UUID,
+  _out_of_office BOOLEAN,
+  _until TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM _user_id AND NOT public.has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: only admins can change another underwriter''s availability';
+  END IF;
+
+  INSERT INTO public.underwriter_settings (user_id, out_of_office, out_of_office_until, updated_by)
+  VALUES (_user_id, _out_of_office, CASE WHEN _out_of_office THEN _until END, auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+  SET out_of_office = EXCLUDED.out_of_office,
+      out_of_office_until = EXCLUDED.out_of_office_until,
+      updated_by = EXCLUDED.updated_by;
+END;
+$$;
+
+-- Route applications as they are submitted. A routing failure must never
+-- block the borrower's submission, so it is only logged.
+CREATE OR REPLACE FUNCTION public.auto_assign_submitted_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status::text = 'submitted'
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status)
+     AND COALESCE((public.assignment_routing_setting('auto_assign_on_submit'))::boolean, false) THEN
+    BEGIN
+      PERFORM public.assign_application_automatically(NEW.id);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Auto-assignment of application % failed: %', NEW.id, SQLERRM;
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER auto_assign_submitted_application
+AFTER INSERT OR UPDATE OF status ON public.loan_applications
+FOR EACH ROW
+EXECUTE FUNCTION public.auto_assign_submitted_application();
+
+REVOKE EXECUTE ON FUNCTION public.assign_application_automatically(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.pick_underwriter(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- Row level security
+-- ============================================================
+ALTER TABLE public.underwriter_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage underwriter settings"
+ON public.underwriter_settings
+FOR ALL
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'))
+WITH CHECK (public.has_role_or_higher(auth.uid(), 'admin'));
+
+CREATE POLICY "Underwriters can view their own settings"
+ON public.underwriter_settings
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+COMMENT ON TABLE public.underwriter_settings IS 'Per-underwriter capacity, availability and routing skills used by auto-assignment';
@@ -0,0 +1,4 @@
+-- Workflow states referenced by the CRM stage mapping that the enum never had.
+-- Added on their own so the workflow migration can use them once committed.
+ALTER TYPE public.application_status ADD VALUE IF NOT EXISTS 'documents_requested';
+ALTER TYPE public.application_status ADD VALUE IF NOT EXISTS 'conditionally_approved';
@@ -0,0 +1,348 @@
+-- ============================================================
+-- Application workflow
+-- application_workflow_transitions defines which status changes are
+-- allowed, the minimum role for each and the guard conditions that must
+-- hold. A trigger enforces it on every status update, whichever backend
+-- or client writes it; transition_application_status() is the entry
+-- point the backends use, and get_application_transitions() lists the
+-- next actions for the admin loan detail page.
+-- ============================================================
+
+CREATE TABLE public.application_workflow_transitions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  from_status public.application_status NOT NULL,
+  to_status public.application_status NOT NULL,
+  -- Label of the action button, e.g. "Start review"
+  action TEXT NOT NULL,
+  -- 'user' means the borrower who owns the application (or an admin)
+  required_role public.app_role NOT NULL DEFAULT 'underwriter',
+  -- Keys understood by application_guard_failure()
+  guards TEXT[] NOT NULL DEFAULT '{}',
+  requires_notes BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (from_status, to_status),
+  CHECK (from_status <> to_status)
+);
+
+CREATE TRIGGER update_application_workflow_transitions_updated_at
+BEFORE UPDATE ON public.application_workflow_transitions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.application_workflow_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view the application workflow"
+ON public.application_workflow_transitions
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage the application workflow"
+ON public.application_workflow_transitions
+FOR ALL
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'))
+WITH CHECK (public.has_role_or_higher(auth.uid(), 'admin'));
+
+COMMENT ON TABLE public.application_workflow_transitions IS 'Allowed loan application status transitions with the required role and guard conditions';
+
+INSERT INTO public.application_workflow_transitions (from_status, to_status, action, required_role, guards, requires_notes, sort_order) VALUES
+  ('draft', 'submitted', 'Submit application', 'user', '{}', false, 10),
+  ('draft', 'paused', 'Pause application', 'user', '{}', false, 20),
+  ('paused', 'draft', 'Resume application', 'user', '{}', false, 10),
+  ('submitted', 'under_review', 'Start review', 'underwriter', '{}', false, 10),
+  ('submitted', 'documents_requested', 'Request documents', 'underwriter', '{}', true, 20),
+  ('submitted', 'rejected', 'Decline', 'underwriter', '{}', true, 90),
+  ('under_review', 'documents_requested', 'Request documents', 'underwriter', '{}', true, 10),
+  ('under_review', 'conditionally_approved', 'Approve with conditions', 'underwriter', '{underwriter_assigned}', true, 20),
+  ('under_review', 'approved', 'Approve', 'underwriter', '{underwriter_assigned,required_documents_uploaded}', false, 30),
+  ('under_review', 'rejected', 'Decline', 'underwriter', '{underwriter_assigned}', true, 90),
+  ('documents_requested', 'under_review', 'Resume review', 'underwriter', '{required_documents_uploaded}', false, 10),
+  ('documents_requested', 'rejected', 'Decline', 'underwriter', '{}', true, 90),
+  ('conditionally_approved', 'approved', 'Clear to close', 'underwriter', '{required_documents_uploaded}', false, 10),
+  ('conditionally_approved', 'rejected', 'Decline', 'underwriter', '{}', true, 90),
+  ('approved', 'funded', 'Mark funded', 'admin', '{assigned_underwriter_approved,required_documents_uploaded}', false, 10),
+  ('rejected', 'under_review', 'Reopen', 'admin', '{}', true, 10);
+
+-- ============================================================
+-- Guards and evaluation
+-- ============================================================
+
+-- NULL when the guard holds, otherwise the reason it does not
+CREATE OR REPLACE FUNCTION public.application_guard_failure(_application_id UUID, _guard TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_app public.loan_applications;
+  v_missing TEXT[];
+BEGIN
+  SELECT * INTO v_app FROM public.loan_applications WHERE id = _application_id;
+
+  CASE _guard
+    WHEN 'required_documents_uploaded' THEN
+      -- Documents belong to the borrower, so any application of theirs can use them
+      SELECT array_agg(c ORDER BY c) INTO v_missing
+      FROM public.loan_products p
+      CROSS JOIN LATERAL unnest(p.required_document_categories) AS c
+      WHERE p.key = v_app.loan_type
+        AND NOT EXISTS (
+          SELECT 1 FROM public.borrower_documents d
+          WHERE d.user_id = v_app.user_id AND d.document_category = c AND d.is_latest_version
+        );
+      IF v_missing IS NOT NULL THEN
+        RETURN 'Required documents missing: ' || array_to_string(v_missing, ', ');
+      END IF;
+
+    WHEN 'underwriter_assigned' THEN
+      IF NOT EXISTS (SELECT 1 FROM public.admin_application_assignments WHERE application_id = _application_id) THEN
+        RETURN 'No underwriter is assigned';
+      END IF;
+
+    WHEN 'assigned_underwriter_approved' THEN
+      IF NOT EXISTS (
+        SELECT 1
+        FROM public.loan_application_status_history h
+        JOIN public.admin_application_assignments a
+          ON a.application_id = h.loan_application_id AND a.admin_id = h.changed_by
+        WHERE h.loan_application_id = _application_id AND h.status = 'approved'
+      ) THEN
+        RETURN 'The assigned underwriter has not approved this application';
+      END IF;
+
+    ELSE
+      RETURN format('Unknown workflow guard "%s"', _guard);
+  END CASE;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Whether _actor may move the application to _to_status right now. A NULL
+-- actor is a backend process: the role check is skipped, the guards are not.
+CREATE OR REPLACE FUNCTION public.evaluate_application_transition(
+  _application_id UUID,
+  _to_status TEXT,
+  _actor UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_app public.loan_applications;
+  v_transition public.application_workflow_transitions;
+  v_reasons TEXT[] := '{}';
+  v_guard TEXT;
+  v_failure TEXT;
+BEGIN
+  SELECT * INTO v_app FROM public.loan_applications WHERE id = _application_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('allowed', false, 'to_status', _to_status, 'reasons', jsonb_build_array('Application not found'));
+  END IF;
+
+  SELECT * INTO v_transition
+  FROM public.application_workflow_transitions
+  WHERE from_status = v_app.status AND to_status::text = _to_status AND is_active;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'from_status', v_app.status,
+      'to_status', _to_status,
+      'reasons', jsonb_build_array(format('An application cannot move from %s to %s', v_app.status, _to_status))
+    );
+  END IF;
+
+  IF _actor IS NOT NULL AND NOT (
+    (v_transition.required_role = 'user' AND (_actor = v_app.user_id OR public.has_role_or_higher(_actor, 'admin')))
+    OR (v_transition.required_role <> 'user' AND public.has_role_or_higher(_actor, v_transition.required_role))
+  ) THEN
+    v_reasons := v_reasons || format('Requires the %s role', v_transition.required_role);
+  END IF;
+
+  FOREACH v_guard IN ARRAY v_transition.guards LOOP
+    v_failure := public.application_guard_failure(_application_id, v_guard);
+    IF v_failure IS NOT NULL THEN
+      v_reasons := v_reasons || v_failure;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'allowed', cardinality(v_reasons) = 0,
+    'from_status', v_app.status,
+    'to_status', v_transition.to_status,
+    'action', v_transition.action,
+    'required_role', v_transition.required_role,
+    'guards', to_jsonb(v_transition.guards),
+    'requires_notes', v_transition.requires_notes,
+    'reasons', to_jsonb(v_reasons)
+  );
+END;
+$$;
+
+-- Every transition out of the current status, allowed or not, with the reasons
+CREATE OR REPLACE FUNCTION public.get_application_transitions(_application_id UUID, _actor UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), _actor);
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT public.has_role_or_higher(auth.uid(), 'underwriter')
+     AND NOT EXISTS (SELECT 1 FROM public.loan_applications WHERE id = _application_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Unauthorized: cannot view the workflow of this application';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(public.evaluate_application_transition(_application_id, t.to_status::text, v_actor) ORDER BY t.sort_order, t.to_status)
+    FROM public.application_workflow_transitions t
+    JOIN public.loan_applications la ON la.id = _application_id AND la.status = t.from_status
+    WHERE t.is_active
+  ), '[]'::jsonb);
+END;
+$$;
+
+-- ============================================================
+-- Transition entry point and enforcement
+-- ============================================================
+
+-- Returns the evaluation plus the updated application when it was allowed.
+-- The actor and notes are handed to the triggers through transaction-local
+-- settings because the IBM backend has no auth.uid().
+CREATE OR REPLACE FUNCTION public.transition_application_status(
+  _application_id UUID,
+  _to_status TEXT,
+  _actor UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_check JSONB;
+  v_app public.loan_applications;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot change status on behalf of another user';
+  END IF;
+
+  v_check := public.evaluate_application_transition(_application_id, _to_status, _actor);
+  IF (v_check ->> 'allowed')::boolean AND (v_check ->> 'requires_notes')::boolean AND NULLIF(trim(_notes), '') IS NULL THEN
+    v_check := v_check || jsonb_build_object('allowed', false, 'reasons', jsonb_build_array('Notes are required for this action'));
+  END IF;
+  IF NOT (v_check ->> 'allowed')::boolean THEN
+    RETURN v_check;
+  END IF;
+
+  PERFORM set_config('app.workflow_actor', COALESCE(_actor::text, ''), true);
+  PERFORM set_config('app.workflow_notes', COALESCE(_notes, ''), true);
+
+  UPDATE public.loan_applications
+  SET status = _to_status::public.application_status,
+      updated_at = now(),
+      loan_details = COALESCE(loan_details, '{}'::jsonb) || jsonb_build_object(
+        'status_notes', COALESCE(_notes, ''),
+        'status_updated_at', now()
+      )
+  WHERE id = _application_id
+  RETURNING * INTO v_app;
+
+  PERFORM set_config('app.workflow_actor', '', true);
+  PERFORM set_config('app.workflow_notes', '', true);
+
+  RETURN v_check || jsonb_build_object('application', to_jsonb(v_app));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_application_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_check JSONB;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  v_check := public.evaluate_application_transition(
+    NEW.id,
+    NEW.status::text,
+    COALESCE(auth.uid(), NULLIF(current_setting('app.workflow_actor', true), '')::uuid)
+  );
+  IF NOT (v_check ->> 'allowed')::boolean THEN
+    RAISE EXCEPTION 'Status change not allowed: %',
+      (SELECT string_agg(r, '; ') FROM jsonb_array_elements_text(v_check -> 'reasons') AS r)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_application_workflow
+  BEFORE UPDATE OF status ON public.loan_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_application_workflow();
+
+-- Record who made the change and why, also for changes made through the IBM backend
+CREATE OR REPLACE FUNCTION public.track_loan_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only insert if status actually changed
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO public.loan_application_status_history (
+      loan_application_id,
+      status,
+      changed_by,
+      notes
+    ) VALUES (
+      NEW.id,
+      NEW.status,
+      COALESCE(auth.uid(), NULLIF(current_setting('app.workflow_actor', true), '')::uuid),
+      'Status changed from ' || COALESCE(OLD.status::text, 'none') || ' to ' || NEW.status
+        || COALESCE(': ' || NULLIF(current_setting('app.workflow_notes', true), ''), '')
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+-- Keep the CRM reconciliation in step with the new states
+CREATE OR REPLACE FUNCTION public.crm_expected_stage(_status TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _status
+    WHEN 'draft' THEN 'prospecting'
+    WHEN 'paused' THEN 'prospecting'
+    WHEN 'submitted' THEN 'qualification'
+    WHEN 'under_review' THEN 'qualification'
+    WHEN 'documents_requested' THEN 'qualification'
+    WHEN 'conditionally_approved' THEN 'proposal'
+    WHEN 'approved' THEN 'negotiation'
+    WHEN 'funded' THEN 'closed_won'
+    WHEN 'rejected' THEN 'closed_lost'
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.application_guard_failure(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.evaluate_application_transition(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,275 @@
+-- ============================================================
+-- Application conditions
+-- Underwriters approve with conditions (an updated bank statement, an
+-- insurance certificate, a landlord waiver...). Each condition can be
+-- linked to a document category, assigned to a staff member, satisfied
+-- by the borrower with a document, and cleared or waived. The workflow
+-- guard conditions_cleared keeps the application from funding until
+-- every condition is resolved.
+-- ============================================================
+
+CREATE TABLE public.application_conditions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES public.loan_applications(id) ON DELETE CASCADE,
+  -- Borrower who satisfies the condition; copied from the application
+  user_id UUID NOT NULL,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  description TEXT,
+  -- borrower_documents.document_category the borrower should upload into
+  document_category TEXT,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'submitted', 'cleared', 'waived')),
+  -- Staff member responsible for reviewing it
+  assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  due_date DATE,
+  document_id UUID REFERENCES public.borrower_documents(id) ON DELETE SET NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  waiver_reason TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (status <> 'waived' OR NULLIF(trim(waiver_reason), '') IS NOT NULL)
+);
+
+CREATE INDEX idx_application_conditions_application ON public.application_conditions (application_id);
+CREATE INDEX idx_application_conditions_open ON public.application_conditions (user_id, document_category)
+  WHERE status = 'open';
+
+-- Fill in the borrower and keep the submission and resolution stamps consistent
+CREATE OR REPLACE FUNCTION public.prepare_application_condition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT user_id INTO NEW.user_id FROM public.loan_applications WHERE id = NEW.application_id;
+    NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'open' THEN
+        NEW.document_id := NULL;
+        NEW.submitted_at := NULL;
+        NEW.resolved_by := NULL;
+        NEW.resolved_at := NULL;
+        NEW.waiver_reason := NULL;
+      WHEN 'submitted' THEN
+        NEW.submitted_at := COALESCE(NEW.submitted_at, now());
+      ELSE
+        NEW.resolved_by := COALESCE(NEW.resolved_by, auth.uid());
+        NEW.resolved_at := now();
+    END CASE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_application_condition
+  BEFORE INSERT OR UPDATE ON public.application_conditions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_application_condition();
+
+CREATE TRIGGER update_application_conditions_updated_at
+BEFORE UPDATE ON public.application_conditions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Tell the borrower what is needed, and the reviewer when it arrives
+CREATE OR REPLACE FUNCTION public.notify_application_condition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.status = 'open' THEN
+    PERFORM public.create_user_notification(
+      NEW.user_id,
+      'document_required',
+      'Action needed on your application',
+      NEW.title,
+      'warning',
+      '/my-documents',
+      jsonb_build_object('condition_id', NEW.id, 'application_id', NEW.application_id, 'document_category', NEW.document_category)
+    );
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'submitted' AND OLD.status IS DISTINCT FROM 'submitted' AND NEW.assigned_to IS NOT NULL THEN
+    PERFORM public.create_user_notification(
+      NEW.assigned_to,
+      'status_update',
+      'Condition ready for review',
+      NEW.title,
+      'info',
+      '/admin/loans/' || NEW.application_id,
+      jsonb_build_object('condition_id', NEW.id, 'application_id', NEW.application_id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_application_condition
+  AFTER INSERT OR UPDATE OF status ON public.application_conditions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_application_condition();
+
+ALTER TABLE public.application_conditions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Underwriters manage application conditions"
+ON public.application_conditions
+FOR ALL
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'underwriter'))
+WITH CHECK (public.has_role_or_higher(auth.uid(), 'underwriter'));
+
+CREATE POLICY "Borrowers view conditions on their applications"
+ON public.application_conditions
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+COMMENT ON TABLE public.application_conditions IS 'Approval and closing conditions on a loan application, satisfied by borrower documents and cleared or waived by underwriters';
+
+-- ============================================================
+-- Borrower submissions
+-- ============================================================
+
+-- Satisfy a condition with one of the borrower's documents
+CREATE OR REPLACE FUNCTION public.submit_application_condition(_condition_id UUID, _document_id UUID)
+RETURNS public.application_conditions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_condition public.application_conditions;
+  v_document public.borrower_documents;
+BEGIN
+  SELECT * INTO v_condition FROM public.application_conditions WHERE id = _condition_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Condition not found';
+  END IF;
+  IF auth.uid() IS NOT NULL AND auth.uid() <> v_condition.user_id THEN
+    RAISE EXCEPTION 'Unauthorized: the condition belongs to another borrower';
+  END IF;
+  IF v_condition.status NOT IN ('open', 'submitted') THEN
+    RAISE EXCEPTION 'The condition is already %', v_condition.status;
+  END IF;
+
+  SELECT * INTO v_document FROM public.borrower_documents WHERE id = _document_id;
+  IF NOT FOUND OR v_document.user_id <> v_condition.user_id THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+  IF v_condition.document_category IS NOT NULL AND v_document.document_category <> v_condition.document_category THEN
+    RAISE EXCEPTION 'The condition needs a document from the % folder', v_condition.document_category;
+  END IF;
+
+  UPDATE public.application_conditions
+  SET status = 'submitted', document_id = _document_id, submitted_at = now()
+  WHERE id = _condition_id
+  RETURNING * INTO v_condition;
+
+  RETURN v_condition;
+END;
+$$;
+
+-- A new upload into a condition's folder satisfies its open conditions
+CREATE OR REPLACE FUNCTION public.link_document_to_conditions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.application_conditions c
+  SET status = 'submitted', document_id = NEW.id, submitted_at = now()
+  FROM public.loan_applications la
+  WHERE la.id = c.application_id
+    AND c.user_id = NEW.user_id
+    AND c.document_category = NEW.document_category
+    AND c.status = 'open'
+    AND la.status::text NOT IN ('funded', 'rejected');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_document_to_conditions
+  AFTER INSERT ON public.borrower_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.link_document_to_conditions();
+
+-- ============================================================
+-- Workflow guard
+-- ============================================================
+
+-- NULL when the guard holds, otherwise the reason it does not
+CREATE OR REPLACE FUNCTION public.application_guard_failure(_application_id UUID, _guard TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_app public.loan_applications;
+  v_missing TEXT[];
+  v_outstanding INTEGER;
+BEGIN
+  SELECT * INTO v_app FROM public.loan_applications WHERE id = _application_id;
+
+  CASE _guard
+    WHEN 'required_documents_uploaded' THEN
+      -- Documents belong to the borrower, so any application of theirs can use them
+      SELECT array_agg(c ORDER BY c) INTO v_missing
+      FROM public.loan_products p
+      CROSS JOIN LATERAL unnest(p.required_document_categories) AS c
+      WHERE p.key = v_app.loan_type
+        AND NOT EXISTS (
+          SELECT 1 FROM public.borrower_documents d
+          WHERE d.user_id = v_app.user_id AND d.document_category = c AND d.is_latest_version
+        );
+      IF v_missing IS NOT NULL THEN
+        RETURN 'Required documents missing: ' || array_to_string(v_missing, ', ');
+      END IF;
+
+    WHEN 'underwriter_assigned' THEN
+      IF NOT EXISTS (SELECT 1 FROM public.admin_application_assignments WHERE application_id = _application_id) THEN
+        RETURN 'No underwriter is assigned';
+      END IF;
+
+    WHEN 'assigned_underwriter_approved' THEN
+      IF NOT EXISTS (
+        SELECT 1
+        FROM public.loan_application_status_history h
+        JOIN public.admin_application_assignments a
+          ON a.application_id = h.loan_application_id AND a.admin_id = h.changed_by
+        WHERE h.loan_application_id = _application_id AND h.status = 'approved'
+      ) THEN
+        RETURN 'The assigned underwriter has not approved this application';
+      END IF;
+
+    WHEN 'conditions_cleared' THEN
+      SELECT COUNT(*) INTO v_outstanding
+      FROM public.application_conditions
+      WHERE application_id = _application_id AND status IN ('open', 'submitted');
+      IF v_outstanding > 0 THEN
+        RETURN format('%s condition(s) not yet cleared or waived', v_outstanding);
+      END IF;
+
+    ELSE
+      RETURN format('Unknown workflow guard "%s"', _guard);
+  END CASE;
+
+  RETURN NULL;
+END;
+$$;
+
+UPDATE public.application_workflow_transitions
+SET guards = array_append(guards, 'conditions_cleared')
+WHERE (from_status, to_status) IN (('approved', 'funded'), ('conditionally_approved', 'approved'))
+  AND NOT 'conditions_cleared' = ANY (guards);
@@ -0,0 +1,402 @@
+-- ============================================================
+-- Maker-checker dual approval
+-- Approving, funding or rejecting an application at or above the
+-- dual_approval threshold records a pending decision instead of changing
+-- the status. A second, different user with underwriter or higher role
+-- confirms it, and only then does the transition run. Both identities are
+-- written to audit_logs through log_audit_event.
+-- ============================================================
+
+INSERT INTO public.system_settings (setting_key, setting_value, category) VALUES
+('dual_approval', '{"enabled": true, "threshold": 250000, "statuses": ["approved", "funded", "rejected"]}'::jsonb, 'underwriting')
+ON CONFLICT (setting_key) DO NOTHING;
+
+CREATE TABLE public.application_status_decisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES public.loan_applications(id) ON DELETE CASCADE,
+  from_status public.application_status NOT NULL,
+  to_status public.application_status NOT NULL,
+  -- Amount that triggered dual control, as it was when requested
+  amount NUMERIC NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'confirmed', 'declined', 'cancelled')),
+  requested_by UUID NOT NULL,
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  decided_by UUID,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  decision_notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (decided_by IS NULL OR status = 'cancelled' OR decided_by <> requested_by)
+);
+
+-- One decision awaiting confirmation per application
+CREATE UNIQUE INDEX idx_application_status_decisions_pending
+  ON public.application_status_decisions (application_id)
+  WHERE status = 'pending';
+CREATE INDEX idx_application_status_decisions_application
+  ON public.application_status_decisions (application_id, requested_at DESC);
+
+CREATE TRIGGER update_application_status_decisions_updated_at
+BEFORE UPDATE ON public.application_status_decisions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.application_status_decisions ENABLE ROW LEVEL SECURITY;
+
+-- Written only through the decision functions below
+CREATE POLICY "Underwriters view status decisions"
+ON public.application_status_decisions
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'underwriter'));
+
+COMMENT ON TABLE public.application_status_decisions IS 'Maker-checker decisions on high-value approvals, fundings and rejections';
+
+-- ============================================================
+-- Threshold
+-- ============================================================
+
+-- Whether moving the application to _to_status needs a second approver
+CREATE OR REPLACE FUNCTION public.requires_dual_approval(_application_id UUID, _to_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT COALESCE((s.setting_value ->> 'enabled')::boolean, false)
+      AND s.setting_value -> 'statuses' ? _to_status
+      AND la.amount_requested >= COALESCE((s.setting_value ->> 'threshold')::numeric, 0)
+    FROM public.loan_applications la
+    CROSS JOIN public.system_settings s
+    WHERE la.id = _application_id AND s.setting_key = 'dual_approval'
+  ), false);
+$$;
+
+-- ============================================================
+-- Transitions
+-- ============================================================
+
+-- The workflow check and status update, without the caller check or dual
+-- control; shared by transition_application_status and the checker
+CREATE OR REPLACE FUNCTION public.apply_application_transition(
+  _application_id UUID,
+  _to_status TEXT,
+  _actor UUID,
+  _notes TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_check JSONB;
+  v_app public.loan_applications;
+BEGIN
+  v_check := public.evaluate_application_transition(_application_id, _to_status, _actor);
+  IF (v_check ->> 'allowed')::boolean AND (v_check ->> 'requires_notes')::boolean AND NULLIF(trim(_notes), '') IS NULL THEN
+    v_check := v_check || jsonb_build_object('allowed', false, 'reasons', jsonb_build_array('Notes are required for this action'));
+  END IF;
+  IF NOT (v_check ->> 'allowed')::boolean THEN
+    RETURN v_check;
+  END IF;
+
+  PERFORM set_config('app.workflow_actor', COALESCE(_actor::text, ''), true);
+  PERFORM set_config('app.workflow_notes', COALESCE(_notes, ''), true);
+
+  UPDATE public.loan_applications
+  SET status = _to_status::public.application_status,
+      updated_at = now(),
+      loan_details = COALESCE(loan_details, '{}'::jsonb) || jsonb_build_object(
+        'status_notes', COALESCE(_notes, ''),
+        'status_updated_at', now()
+      )
+  WHERE id = _application_id
+  RETURNING * INTO v_app;
+
+  PERFORM set_config('app.workflow_actor', '', true);
+  PERFORM set_config('app.workflow_notes', '', true);
+
+  RETURN v_check || jsonb_build_object('application', to_jsonb(v_app));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.transition_application_status(
+  _application_id UUID,
+  _to_status TEXT,
+  _actor UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_check JSONB;
+  v_app public.loan_applications;
+  v_decision public.application_status_decisions;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot change status on behalf of another user';
+  END IF;
+
+  IF NOT public.requires_dual_approval(_application_id, _to_status) THEN
+    RETURN public.apply_application_transition(_application_id, _to_status, _actor, _notes);
+  END IF;
+
+  -- The maker must be allowed the transition before a checker is asked
+  v_check := public.evaluate_application_transition(_application_id, _to_status, _actor);
+  IF (v_check ->> 'allowed')::boolean AND (v_check ->> 'requires_notes')::boolean AND NULLIF(trim(_notes), '') IS NULL THEN
+    v_check := v_check || jsonb_build_object('allowed', false, 'reasons', jsonb_build_array('Notes are required for this action'));
+  END IF;
+  IF (v_check ->> 'allowed')::boolean AND _actor IS NULL THEN
+    v_check := v_check || jsonb_build_object('allowed', false, 'reasons', jsonb_build_array('Dual approval needs an identified requester'));
+  END IF;
+  IF (v_check ->> 'allowed')::boolean AND EXISTS (
+    SELECT 1 FROM public.application_status_decisions
+    WHERE application_id = _application_id AND status = 'pending'
+  ) THEN
+    v_check := v_check || jsonb_build_object('allowed', false, 'reasons', jsonb_build_array('Another decision is already awaiting confirmation'));
+  END IF;
+  IF NOT (v_check ->> 'allowed')::boolean THEN
+    RETURN v_check;
+  END IF;
+
+  SELECT * INTO v_app FROM public.loan_applications WHERE id = _application_id;
+
+  INSERT INTO public.application_status_decisions (application_id, from_status, to_status, amount, notes, requested_by)
+  VALUES (_application_id, v_app.status, _to_status::public.application_status, v_app.amount_requested, NULLIF(trim(_notes), ''), _actor)
+  RETURNING * INTO v_decision;
+
+  PERFORM public.log_audit_event(
+    _actor, 'REQUEST_STATUS_DECISION', 'loan_application', _application_id,
+    NULL, NULL, jsonb_build_object(
+      'decision_id', v_decision.id, 'from_status', v_decision.from_status,
+      'to_status', v_decision.to_status, 'amount', v_decision.amount, 'requested_by', _actor
+    )
+  );
+
+  RETURN v_check || jsonb_build_object('pending_confirmation', true, 'decision', to_jsonb(v_decision));
+END;
+$$;
+
+-- Second approver: runs the requested transition as the maker and records both
+CREATE OR REPLACE FUNCTION public.confirm_status_decision(
+  _decision_id UUID,
+  _actor UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_decision public.application_status_decisions;
+  v_app public.loan_applications;
+  v_result JSONB;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot confirm on behalf of another user';
+  END IF;
+  IF _actor IS NULL OR NOT public.has_role_or_higher(_actor, 'underwriter') THEN
+    RAISE EXCEPTION 'Unauthorized: underwriter role required to confirm a decision';
+  END IF;
+
+  SELECT * INTO v_decision FROM public.application_status_decisions WHERE id = _decision_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Decision not found';
+  END IF;
+  IF v_decision.status <> 'pending' THEN
+    RAISE EXCEPTION 'The decision is already %', v_decision.status;
+  END IF;
+  IF v_decision.requested_by = _actor THEN
+    RAISE EXCEPTION 'The decision must be confirmed by a different user than the one who requested it';
+  END IF;
+
+  SELECT * INTO v_app FROM public.loan_applications WHERE id = v_decision.application_id;
+  IF v_app.status IS DISTINCT FROM v_decision.from_status THEN
+    RAISE EXCEPTION 'The application has moved to % since the decision was requested', v_app.status;
+  END IF;
+
+  PERFORM set_config('app.status_decision', v_decision.id::text, true);
+  v_result := public.apply_application_transition(
+    v_decision.application_id,
+    v_decision.to_status::text,
+    v_decision.requested_by,
+    concat_ws(E'\n', v_decision.notes, 'Confirmed: ' || NULLIF(trim(_notes), ''))
+  );
+  PERFORM set_config('app.status_decision', '', true);
+
+  IF NOT (v_result ->> 'allowed')::boolean THEN
+    RETURN v_result;
+  END IF;
+
+  UPDATE public.application_status_decisions
+  SET status = 'confirmed', decided_by = _actor, decided_at = now(), decision_notes = NULLIF(trim(_notes), '')
+  WHERE id = _decision_id
+  RETURNING * INTO v_decision;
+
+  PERFORM public.log_audit_event(
+    _actor, 'CONFIRM_STATUS_DECISION', 'loan_application', v_decision.application_id,
+    NULL, NULL, jsonb_build_object(
+      'decision_id', v_decision.id, 'from_status', v_decision.from_status,
+      'to_status', v_decision.to_status, 'amount', v_decision.amount,
+      'requested_by', v_decision.requested_by, 'confirmed_by', _actor
+    )
+  );
+
+  RETURN v_result || jsonb_build_object('decision', to_jsonb(v_decision));
+END;
+$$;
+
+-- A checker declines the decision, or the maker withdraws it
+CREATE OR REPLACE FUNCTION public.decline_status_decision(
+  _decision_id UUID,
+  _actor UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.application_status_decisions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_decision public.application_status_decisions;
+  v_outcome TEXT;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot decline on behalf of another user';
+  END IF;
+  IF _actor IS NULL OR NOT public.has_role_or_higher(_actor, 'underwriter') THEN
+    RAISE EXCEPTION 'Unauthorized: underwriter role required to decline a decision';
+  END IF;
+
+  SELECT * INTO v_decision FROM public.application_status_decisions WHERE id = _decision_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Decision not found';
+  END IF;
+  IF v_decision.status <> 'pending' THEN
+    RAISE EXCEPTION 'The decision is already %', v_decision.status;
+  END IF;
+
+  v_outcome := CASE WHEN v_decision.requested_by = _actor THEN 'cancelled' ELSE 'declined' END;
+
+  UPDATE public.application_status_decisions
+  SET status = v_outcome, decided_by = _actor, decided_at = now(), decision_notes = NULLIF(trim(_notes), '')
+  WHERE id = _decision_id
+  RETURNING * INTO v_decision;
+
+  PERFORM public.log_audit_event(
+    _actor, CASE v_outcome WHEN 'cancelled' THEN 'CANCEL_STATUS_DECISION' ELSE 'DECLINE_STATUS_DECISION' END,
+    'loan_application', v_decision.application_id,
+    NULL, NULL, jsonb_build_object(
+      'decision_id', v_decision.id, 'to_status', v_decision.to_status, 'amount', v_decision.amount,
+      'requested_by', v_decision.requested_by, 'decided_by', _actor, 'notes', v_decision.decision_notes
+    )
+  );
+
+  RETURN v_decision;
+END;
+$$;
+
+-- Next actions now say which ones will wait for a second approver
+CREATE OR REPLACE FUNCTION public.get_application_transitions(_application_id UUID, _actor UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), _actor);
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT public.has_role_or_higher(auth.uid(), 'underwriter')
+     AND NOT EXISTS (SELECT 1 FROM public.loan_applications WHERE id = _application_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Unauthorized: cannot view the workflow of this application';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      public.evaluate_application_transition(_application_id, t.to_status::text, v_actor)
+        || jsonb_build_object('requires_confirmation', public.requires_dual_approval(_application_id, t.to_status::text))
+      ORDER BY t.sort_order, t.to_status
+    )
+    FROM public.application_workflow_transitions t
+    JOIN public.loan_applications la ON la.id = _application_id AND la.status = t.from_status
+    WHERE t.is_active
+  ), '[]'::jsonb);
+END;
+$$;
+
+-- ============================================================
+-- Enforcement
+-- ============================================================
+
+-- Direct updates cannot skip the checker either: a status that needs dual
+-- approval only changes while a confirmed decision is being applied
+CREATE OR REPLACE FUNCTION public.enforce_application_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_check JSONB;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  v_check := public.evaluate_application_transition(
+    NEW.id,
+    NEW.status::text,
+    COALESCE(auth.uid(), NULLIF(current_setting('app.workflow_actor', true), '')::uuid)
+  );
+  IF NOT (v_check ->> 'allowed')::boolean THEN
+    RAISE EXCEPTION 'Status change not allowed: %',
+      (SELECT string_agg(r, '; ') FROM jsonb_array_elements_text(v_check -> 'reasons') AS r)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF public.requires_dual_approval(NEW.id, NEW.status::text)
+    AND COALESCE(current_setting('app.status_decision', true), '') = '' THEN
+    RAISE EXCEPTION 'Status change not allowed: % needs confirmation by a second approver', NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- A decision no longer applies once the application has moved on
+CREATE OR REPLACE FUNCTION public.cancel_stale_status_decisions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.application_status_decisions
+  SET status = 'cancelled', decided_at = now(), decision_notes = 'Application moved to ' || NEW.status
+  WHERE application_id = NEW.id
+    AND status = 'pending'
+    AND id::text IS DISTINCT FROM NULLIF(current_setting('app.status_decision', true), '');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cancel_stale_status_decisions
+  AFTER UPDATE OF status ON public.loan_applications
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.cancel_stale_status_decisions();
+
+REVOKE EXECUTE ON FUNCTION public.apply_application_transition(UUID, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.requires_dual_approval(UUID, TEXT) FROM PUBLIC, anon;
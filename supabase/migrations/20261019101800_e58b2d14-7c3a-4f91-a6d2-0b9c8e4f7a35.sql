@@ -0,0 +1,283 @@
+-- ============================================================
+-- Adverse action notices
+-- ECOA / Regulation B requires a written notice with the principal
+-- reasons when credit is denied, within 30 days of the decision.
+-- Rejecting an application opens a notice with the reasons taken from
+-- the underwriting factors that produced the score. Staff render it as
+-- a PDF, file it as a borrower document, and the outbox worker delivers
+-- it. adverse_action_notice_report lists notices not yet sent.
+-- ============================================================
+
+INSERT INTO public.system_settings (setting_key, setting_value, category) VALUES
+('adverse_action', '{"delivery_days": 30, "max_reasons": 4}'::jsonb, 'compliance')
+ON CONFLICT (setting_key) DO NOTHING;
+
+CREATE TABLE public.adverse_action_notices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES public.loan_applications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  -- [{factor_key, label, reason}], most significant first
+  reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+  risk_score NUMERIC,
+  decision_notes TEXT,
+  decided_by UUID,
+  decided_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- End of the regulatory delivery window
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'generated', 'sent')),
+  document_id UUID REFERENCES public.borrower_documents(id) ON DELETE SET NULL,
+  generated_by UUID,
+  generated_at TIMESTAMP WITH TIME ZONE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  delivery_channels TEXT[] NOT NULL DEFAULT '{}',
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open notice per application; a later rejection after reopening gets its own
+CREATE UNIQUE INDEX idx_adverse_action_notices_open
+  ON public.adverse_action_notices (application_id)
+  WHERE status <> 'sent';
+CREATE INDEX idx_adverse_action_notices_due
+  ON public.adverse_action_notices (due_at)
+  WHERE status <> 'sent';
+
+CREATE TRIGGER update_adverse_action_notices_updated_at
+BEFORE UPDATE ON public.adverse_action_notices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.adverse_action_notices ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the rejection trigger, record_adverse_action_notice and the outbox worker
+CREATE POLICY "Underwriters view adverse action notices"
+ON public.adverse_action_notices
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'underwriter'));
+
+CREATE POLICY "Borrowers view their adverse action notices"
+ON public.adverse_action_notices
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+COMMENT ON TABLE public.adverse_action_notices IS 'ECOA / Reg B adverse action notices for declined applications and their delivery';
+
+-- ============================================================
+-- Reasons
+-- ============================================================
+
+-- Knock-outs first, then the factors that added the most risk, capped at
+-- _max; falls back to the decision notes when the application was not scored
+CREATE OR REPLACE FUNCTION public.adverse_action_reasons(_loan_details JSONB, _notes TEXT, _max INTEGER DEFAULT 4)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  WITH candidates AS (
+    SELECT k ->> 'factor_key' AS factor_key, k ->> 'label' AS label, k ->> 'reason' AS reason,
+           0 AS tier, 0::numeric AS weight
+    FROM jsonb_array_elements(COALESCE(_loan_details #> '{underwriting,knockouts}', '[]'::jsonb)) AS k
+    UNION ALL
+    SELECT f ->> 'factor_key', f ->> 'label', COALESCE(f ->> 'reason', f ->> 'label'),
+           1, (f ->> 'contribution')::numeric
+    FROM jsonb_array_elements(COALESCE(_loan_details #> '{underwriting,factors}', '[]'::jsonb)) AS f
+    WHERE (f ->> 'contribution')::numeric > 0
+  ),
+  ranked AS (
+    SELECT DISTINCT ON (factor_key) factor_key, label, reason, tier, weight
+    FROM candidates
+    ORDER BY factor_key, tier, weight DESC
+  ),
+  picked AS (
+    SELECT * FROM ranked ORDER BY tier, weight DESC, factor_key LIMIT GREATEST(_max, 1)
+  )
+  SELECT COALESCE(
+    (SELECT jsonb_agg(jsonb_build_object('factor_key', factor_key, 'label', label, 'reason', reason) ORDER BY tier, weight DESC, factor_key) FROM picked),
+    jsonb_build_array(jsonb_build_object(
+      'factor_key', 'underwriting_decision',
+      'label', 'Underwriting decision',
+      'reason', COALESCE(NULLIF(trim(_notes), ''), 'The application did not meet our credit requirements')
+    ))
+  );
+$$;
+
+-- ============================================================
+-- Opening notices
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.open_adverse_action_notice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+  v_notes TEXT := NULLIF(current_setting('app.workflow_notes', true), '');
+BEGIN
+  SELECT setting_value INTO v_settings FROM public.system_settings WHERE setting_key = 'adverse_action';
+
+  INSERT INTO public.adverse_action_notices (
+    application_id, user_id, reasons, risk_score, decision_notes, decided_by, decided_at, due_at
+  )
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    public.adverse_action_reasons(NEW.loan_details, v_notes, COALESCE((v_settings ->> 'max_reasons')::int, 4)),
+    (NEW.loan_details #>> '{underwriting,risk_score}')::numeric,
+    v_notes,
+    COALESCE(auth.uid(), NULLIF(current_setting('app.workflow_actor', true), '')::uuid),
+    now(),
+    now() + make_interval(days => COALESCE((v_settings ->> 'delivery_days')::int, 30))
+  )
+  ON CONFLICT (application_id) WHERE status <> 'sent' DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER open_adverse_action_notice
+  AFTER UPDATE OF status ON public.loan_applications
+  FOR EACH ROW
+  WHEN (NEW.status = 'rejected' AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.open_adverse_action_notice();
+
+-- ============================================================
+-- Filing and delivery
+-- ============================================================
+
+-- Underwriters file the rendered notice as a borrower document; this queues
+-- delivery through the outbox
+CREATE OR REPLACE FUNCTION public.record_adverse_action_notice(
+  _notice_id UUID,
+  _file_name TEXT,
+  _file_path TEXT,
+  _file_size BIGINT,
+  _actor UUID DEFAULT NULL
+)
+RETURNS public.adverse_action_notices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_notice public.adverse_action_notices;
+  v_document_id UUID;
+  v_application_number TEXT;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot file a notice on behalf of another user';
+  END IF;
+  IF _actor IS NULL OR NOT public.has_role_or_higher(_actor, 'underwriter') THEN
+    RAISE EXCEPTION 'Unauthorized: underwriter role required to file a notice';
+  END IF;
+
+  SELECT * INTO v_notice FROM public.adverse_action_notices WHERE id = _notice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Notice not found';
+  END IF;
+  IF v_notice.status = 'sent' THEN
+    RAISE EXCEPTION 'The notice has already been sent';
+  END IF;
+  IF split_part(_file_path, '/', 1) <> v_notice.user_id::text THEN
+    RAISE EXCEPTION 'The notice must be stored in the borrower''s document folder';
+  END IF;
+
+  SELECT application_number INTO v_application_number FROM public.loan_applications WHERE id = v_notice.application_id;
+
+  INSERT INTO public.borrower_documents (user_id, file_name, file_path, file_type, file_size, document_category, description)
+  VALUES (
+    v_notice.user_id, _file_name, _file_path, 'application/pdf', _file_size, 'miscellaneous',
+    'Adverse action notice for application ' || COALESCE(v_application_number, v_notice.application_id::text)
+  )
+  RETURNING id INTO v_document_id;
+
+  UPDATE public.adverse_action_notices
+  SET status = 'generated', document_id = v_document_id, generated_by = _actor, generated_at = now(), last_error = NULL
+  WHERE id = _notice_id
+  RETURNING * INTO v_notice;
+
+  PERFORM public.enqueue_notification(
+    'adverse_action_notice',
+    jsonb_build_object('noticeId', v_notice.id, 'applicationId', v_notice.application_id),
+    'adverse_action_notice:' || v_notice.id || ':' || v_document_id,
+    v_notice.application_id,
+    _actor
+  );
+
+  PERFORM public.log_audit_event(
+    _actor, 'GENERATE_ADVERSE_ACTION_NOTICE', 'loan_application', v_notice.application_id,
+    NULL, NULL, jsonb_build_object('notice_id', v_notice.id, 'document_id', v_document_id, 'due_at', v_notice.due_at)
+  );
+
+  RETURN v_notice;
+END;
+$$;
+
+ALTER TABLE public.notification_outbox DROP CONSTRAINT IF EXISTS notification_outbox_event_check;
+ALTER TABLE public.notification_outbox ADD CONSTRAINT notification_outbox_event_check
+  CHECK (event IN ('application_status_change', 'loan_funded', 'external_webhook', 'adverse_action_notice'));
+
+-- Regulatory notice: delivered regardless of the borrower's marketing preferences
+INSERT INTO public.notification_templates (template_key, channel, name, description, subject, html_body, text_body, variables) VALUES
+  ('adverse_action_notice', 'email', 'Adverse Action Notice', 'Sent with the ECOA notice when an application is declined',
+   'Notice of Action Taken - Halo Business Finance',
+   '<h1>Hello, {{applicantName}}</h1><p>We have reviewed application #{{applicationNumber}} and are unable to approve it at this time.</p><p>The principal reasons for our decision: {{reasons}}</p><p>Your full Notice of Action Taken, including your rights under the Equal Credit Opportunity Act, is in the Miscellaneous folder of My Documents.</p>',
+   'Hello, {{applicantName}}. We have reviewed application #{{applicationNumber}} and are unable to approve it at this time. The principal reasons for our decision: {{reasons}}. Your full Notice of Action Taken, including your rights under the Equal Credit Opportunity Act, is in the Miscellaneous folder of My Documents.',
+   '{applicantName,applicationNumber,reasons,decisionDate}')
+ON CONFLICT (template_key, channel) DO NOTHING;
+
+-- ============================================================
+-- Report
+-- ============================================================
+
+CREATE OR REPLACE VIEW public.adverse_action_notice_report
+WITH (security_invoker = true)
+AS
+SELECT
+  n.id,
+  n.application_id,
+  n.user_id,
+  la.application_number,
+  la.business_name,
+  la.first_name,
+  la.last_name,
+  la.business_address,
+  la.business_city,
+  la.business_state,
+  la.business_zip,
+  la.loan_type,
+  la.amount_requested,
+  n.reasons,
+  n.risk_score,
+  n.decision_notes,
+  n.decided_at,
+  n.due_at,
+  n.status,
+  n.document_id,
+  n.generated_at,
+  n.sent_at,
+  n.delivery_channels,
+  n.last_error,
+  n.status <> 'sent' AND n.due_at < now() AS is_overdue,
+  CEIL(EXTRACT(EPOCH FROM (n.due_at - now())) / 86400)::int AS days_remaining
+FROM public.adverse_action_notices n
+JOIN public.loan_applications la ON la.id = n.application_id;
+
+COMMENT ON VIEW public.adverse_action_notice_report IS 'Adverse action notices with the applicant and time left in the delivery window';
+
+REVOKE EXECUTE ON FUNCTION public.record_adverse_action_notice(UUID, TEXT, TEXT, BIGINT, UUID) FROM PUBLIC, anon;
+
+-- ============================================================
+-- Storage: staff file notices into the borrower's folder
+-- ============================================================
+
+CREATE POLICY "Underwriters can upload borrower documents"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (bucket_id = 'borrower-documents' AND public.has_role_or_higher(auth.uid(), 'underwriter'));
@@ -0,0 +1,132 @@
+-- ============================================================
+-- Term sheets and commitment letters
+-- Staff generate these from templates after approval. The rendered PDF
+-- is filed in the borrower's 'loan_documents' folder, where they can
+-- download it from My Documents; loan_documents keeps the terms each
+-- version was issued with. Regenerating a document files it as a new
+-- version of the previous one.
+-- ============================================================
+
+CREATE TABLE public.loan_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES public.loan_applications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  document_type TEXT NOT NULL CHECK (document_type IN ('term_sheet', 'commitment_letter')),
+  document_id UUID REFERENCES public.borrower_documents(id) ON DELETE SET NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  -- {amount, interest_rate, term_months, interest_only_months, fees, expiration_date, monthly_payment, conditions}
+  terms JSONB NOT NULL DEFAULT '{}'::jsonb,
+  generated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (application_id, document_type, version)
+);
+
+CREATE INDEX idx_loan_documents_application ON public.loan_documents (application_id, created_at DESC);
+
+ALTER TABLE public.loan_documents ENABLE ROW LEVEL SECURITY;
+
+-- Written only by record_loan_document
+CREATE POLICY "Underwriters view loan documents"
+ON public.loan_documents
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'underwriter'));
+
+CREATE POLICY "Borrowers view their loan documents"
+ON public.loan_documents
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+COMMENT ON TABLE public.loan_documents IS 'Term sheets and commitment letters issued to borrowers, with the terms of each version';
+
+-- Files a generated document the caller has uploaded to the borrower's
+-- folder and records the terms it was issued with
+CREATE OR REPLACE FUNCTION public.record_loan_document(
+  _application_id UUID,
+  _document_type TEXT,
+  _terms JSONB,
+  _file_name TEXT,
+  _file_path TEXT,
+  _file_size BIGINT,
+  _actor UUID DEFAULT NULL
+)
+RETURNS public.loan_documents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_app public.loan_applications;
+  v_previous public.loan_documents;
+  v_previous_doc public.borrower_documents;
+  v_document_id UUID;
+  v_result public.loan_documents;
+  v_label TEXT := CASE _document_type WHEN 'term_sheet' THEN 'Term sheet' ELSE 'Commitment letter' END;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot issue documents on behalf of another user';
+  END IF;
+  IF _actor IS NULL OR NOT public.has_role_or_higher(_actor, 'underwriter') THEN
+    RAISE EXCEPTION 'Unauthorized: underwriter role required to issue loan documents';
+  END IF;
+
+  SELECT * INTO v_app FROM public.loan_applications WHERE id = _application_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+  IF v_app.status NOT IN ('conditionally_approved', 'approved') THEN
+    RAISE EXCEPTION 'Loan documents can only be issued for approved applications';
+  END IF;
+  IF split_part(_file_path, '/', 1) <> v_app.user_id::text THEN
+    RAISE EXCEPTION 'The document must be stored in the borrower''s document folder';
+  END IF;
+
+  SELECT * INTO v_previous
+  FROM public.loan_documents
+  WHERE application_id = _application_id AND document_type = _document_type
+  ORDER BY version DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_previous.document_id IS NOT NULL THEN
+    SELECT * INTO v_previous_doc FROM public.borrower_documents WHERE id = v_previous.document_id;
+  END IF;
+
+  -- New versions hang off the first document so My Documents shows the history
+  INSERT INTO public.borrower_documents (
+    user_id, file_name, file_path, file_type, file_size, document_category, description,
+    version_number, parent_document_id
+  )
+  VALUES (
+    v_app.user_id, _file_name, _file_path, 'application/pdf', _file_size, 'loan_documents',
+    v_label || ' for application ' || COALESCE(v_app.application_number, v_app.id::text),
+    COALESCE(v_previous_doc.version_number + 1, 1),
+    COALESCE(v_previous_doc.parent_document_id, v_previous_doc.id)
+  )
+  RETURNING id INTO v_document_id;
+
+  INSERT INTO public.loan_documents (application_id, user_id, document_type, document_id, version, terms, generated_by)
+  VALUES (_application_id, v_app.user_id, _document_type, v_document_id, COALESCE(v_previous.version + 1, 1), COALESCE(_terms, '{}'::jsonb), _actor)
+  RETURNING * INTO v_result;
+
+  PERFORM public.create_user_notification(
+    v_app.user_id,
+    'loan_document_issued',
+    v_label || ' ready',
+    'Your ' || lower(v_label) || ' for application #' || COALESCE(v_app.application_number, '') || ' is ready to download from My Documents.',
+    'success',
+    '/my-documents',
+    jsonb_build_object('applicationId', v_app.id, 'documentId', v_document_id, 'documentType', _document_type)
+  );
+
+  PERFORM public.log_audit_event(
+    _actor, 'ISSUE_LOAN_DOCUMENT', 'loan_application', _application_id, NULL, NULL,
+    jsonb_build_object('document_type', _document_type, 'version', v_result.version, 'document_id', v_document_id, 'terms', _terms)
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_loan_document(UUID, TEXT, JSONB, TEXT, TEXT, BIGINT, UUID) FROM PUBLIC, anon;
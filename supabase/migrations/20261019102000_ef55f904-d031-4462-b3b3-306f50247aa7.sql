@@ -0,0 +1,531 @@
+-- ============================================================
+-- Electronic signatures
+-- Borrowers sign disclosures and commitment letters in an in-app
+-- signing ceremony. Each request pins the SHA-256 of what is to be
+-- signed; the ceremony re-hashes what the borrower was shown and the
+-- signature is refused if it differs. The signed certificate PDF is
+-- filed back to borrower_documents and its hash recorded, and every
+-- step is written to a hash-chained event trail with IP and device.
+-- ============================================================
+
+CREATE TABLE public.signature_disclosures (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  disclosure_key TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (disclosure_key, version)
+);
+
+-- One active version per disclosure
+CREATE UNIQUE INDEX idx_signature_disclosures_active
+  ON public.signature_disclosures (disclosure_key)
+  WHERE is_active;
+
+ALTER TABLE public.signature_disclosures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can read disclosures"
+ON public.signature_disclosures
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins manage disclosures"
+ON public.signature_disclosures
+FOR ALL
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'admin'))
+WITH CHECK (public.has_role_or_higher(auth.uid(), 'admin'));
+
+INSERT INTO public.signature_disclosures (disclosure_key, title, body) VALUES
+('electronic_records_consent', 'Consent to Electronic Records and Signatures',
+ 'You agree that Halo Business Finance may provide disclosures, notices and loan documents to you electronically, and that your electronic signature on them has the same effect as a handwritten signature. You may request paper copies or withdraw this consent at any time by contacting support; withdrawing consent does not affect documents already signed. To access and keep electronic records you need a device with a current web browser and the ability to view and save PDF files.'),
+('credit_authorization', 'Credit Authorization',
+ 'You authorize Halo Business Finance and its agents to obtain personal and business credit reports on you and the business named in your application, and to verify any information you provided, now and periodically while your application or loan is outstanding. You certify that you are authorized to grant this authorization on behalf of the business.'),
+('application_certification', 'Application Certification',
+ 'You certify that the information in your application and any documents you provide are true and complete, and you understand that Halo Business Finance will rely on them in deciding whether to extend credit. You agree to notify us promptly of any material change before the loan closes.');
+
+COMMENT ON TABLE public.signature_disclosures IS 'Versioned disclosure text borrowers sign electronically';
+
+CREATE TABLE public.signature_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- The signer
+  user_id UUID NOT NULL,
+  application_id UUID REFERENCES public.loan_applications(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  -- Exactly one of a disclosure or a document is signed
+  disclosure_id UUID REFERENCES public.signature_disclosures(id),
+  source_document_id UUID REFERENCES public.borrower_documents(id) ON DELETE SET NULL,
+  loan_document_id UUID REFERENCES public.loan_documents(id) ON DELETE SET NULL,
+  -- SHA-256 (hex) of the disclosure text or the document bytes at request time
+  document_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'signed', 'declined', 'voided')),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  requested_by UUID,
+  viewed_at TIMESTAMP WITH TIME ZONE,
+  signed_at TIMESTAMP WITH TIME ZONE,
+  signature_type TEXT CHECK (signature_type IN ('typed', 'drawn')),
+  signature_name TEXT,
+  signer_ip TEXT,
+  signer_user_agent TEXT,
+  signed_document_id UUID REFERENCES public.borrower_documents(id) ON DELETE SET NULL,
+  -- SHA-256 of the signed certificate PDF as filed
+  signed_document_hash TEXT,
+  decline_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((disclosure_id IS NULL) <> (source_document_id IS NULL AND loan_document_id IS NULL))
+);
+
+CREATE INDEX idx_signature_requests_user ON public.signature_requests (user_id, status);
+CREATE INDEX idx_signature_requests_application ON public.signature_requests (application_id);
+
+CREATE TRIGGER update_signature_requests_updated_at
+BEFORE UPDATE ON public.signature_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.signature_requests ENABLE ROW LEVEL SECURITY;
+
+-- Written only through the e-signature functions below
+CREATE POLICY "Signers view their signature requests"
+ON public.signature_requests
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Underwriters view signature requests"
+ON public.signature_requests
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'underwriter'));
+
+COMMENT ON TABLE public.signature_requests IS 'Disclosures and documents awaiting or bearing a borrower''s electronic signature';
+
+-- ============================================================
+-- Evidence trail
+-- ============================================================
+
+CREATE TABLE public.signature_events (
+  id BIGSERIAL PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.signature_requests(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('requested', 'viewed', 'signed', 'declined', 'voided')),
+  actor_id UUID,
+  ip_address TEXT,
+  user_agent TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  previous_hash TEXT,
+  event_hash TEXT NOT NULL
+);
+
+CREATE INDEX idx_signature_events_request ON public.signature_events (request_id, id);
+
+ALTER TABLE public.signature_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signers view their signature events"
+ON public.signature_events
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.signature_requests r WHERE r.id = request_id AND r.user_id = auth.uid()));
+
+CREATE POLICY "Underwriters view signature events"
+ON public.signature_events
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'underwriter'));
+
+-- Each event hashes the previous one, so editing or removing an event
+-- breaks every hash after it (see verify_signature_events)
+CREATE OR REPLACE FUNCTION public.chain_signature_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT event_hash INTO NEW.previous_hash
+  FROM public.signature_events
+  WHERE request_id = NEW.request_id
+  ORDER BY id DESC
+  LIMIT 1;
+
+  NEW.event_hash := encode(sha256(convert_to(
+    COALESCE(NEW.previous_hash, '') || '|' || NEW.request_id || '|' || NEW.event || '|' ||
+    COALESCE(NEW.actor_id::text, '') || '|' || COALESCE(NEW.ip_address, '') || '|' ||
+    COALESCE(NEW.user_agent, '') || '|' || NEW.details::text || '|' || extract(epoch FROM NEW.created_at)::text,
+    'UTF8')), 'hex');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER chain_signature_event
+BEFORE INSERT ON public.signature_events
+FOR EACH ROW
+EXECUTE FUNCTION public.chain_signature_event();
+
+CREATE OR REPLACE FUNCTION public.prevent_signature_event_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Removing the request (or its application) takes its trail with it
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'Signature events are append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_signature_event_changes
+BEFORE UPDATE OR DELETE ON public.signature_events
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_signature_event_changes();
+
+-- True when every event's hash still matches its contents and predecessor
+CREATE OR REPLACE FUNCTION public.verify_signature_events(_request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH chain AS (
+    SELECT
+      e.*,
+      LAG(e.event_hash) OVER (ORDER BY e.id) AS expected_previous
+    FROM public.signature_events e
+    WHERE e.request_id = _request_id
+  )
+  SELECT COALESCE(bool_and(
+    previous_hash IS NOT DISTINCT FROM expected_previous
+    AND event_hash = encode(sha256(convert_to(
+      COALESCE(previous_hash, '') || '|' || request_id || '|' || event || '|' ||
+      COALESCE(actor_id::text, '') || '|' || COALESCE(ip_address, '') || '|' ||
+      COALESCE(user_agent, '') || '|' || details::text || '|' || extract(epoch FROM created_at)::text,
+      'UTF8')), 'hex')
+  ), true)
+  FROM chain;
+$$;
+
+-- ============================================================
+-- Requests
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.create_signature_request(
+  _user_id UUID,
+  _application_id UUID,
+  _title TEXT,
+  _source_document_id UUID,
+  _loan_document_id UUID,
+  _document_hash TEXT,
+  _expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _actor UUID DEFAULT NULL
+)
+RETURNS public.signature_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.signature_requests;
+BEGIN
+  IF _actor IS NULL OR NOT public.has_role_or_higher(_actor, 'underwriter') THEN
+    RAISE EXCEPTION 'Unauthorized: underwriter role required to request signatures';
+  END IF;
+  IF _document_hash !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'Invalid document hash';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.borrower_documents WHERE id = _source_document_id AND user_id = _user_id) THEN
+    RAISE EXCEPTION 'The document to sign must belong to the signer';
+  END IF;
+
+  -- A reissued loan document replaces any unsigned earlier version
+  IF _loan_document_id IS NOT NULL THEN
+    WITH superseded AS (
+      UPDATE public.signature_requests r
+      SET status = 'voided', decline_reason = 'Superseded by a newer version'
+      FROM public.loan_documents old_doc, public.loan_documents new_doc
+      WHERE new_doc.id = _loan_document_id
+        AND old_doc.id = r.loan_document_id
+        AND old_doc.application_id = new_doc.application_id
+        AND old_doc.document_type = new_doc.document_type
+        AND r.status = 'pending'
+      RETURNING r.id
+    )
+    INSERT INTO public.signature_events (request_id, event, actor_id, details)
+    SELECT id, 'voided', _actor, jsonb_build_object('reason', 'Superseded by a newer version')
+    FROM superseded;
+  END IF;
+
+  INSERT INTO public.signature_requests (
+    user_id, application_id, title, source_document_id, loan_document_id, document_hash, expires_at, requested_by
+  )
+  VALUES (_user_id, _application_id, _title, _source_document_id, _loan_document_id, _document_hash, _expires_at, _actor)
+  RETURNING * INTO v_request;
+
+  INSERT INTO public.signature_events (request_id, event, actor_id, details)
+  VALUES (v_request.id, 'requested', _actor, jsonb_build_object('document_hash', _document_hash, 'title', _title));
+
+  PERFORM public.create_user_notification(
+    _user_id, 'signature_requested', 'Signature requested',
+    _title || ' is ready for your signature.', 'info', '/sign/' || v_request.id,
+    jsonb_build_object('requestId', v_request.id, 'applicationId', _application_id)
+  );
+
+  RETURN v_request;
+END;
+$$;
+
+-- Submitting an application asks the borrower to sign the active disclosures
+CREATE OR REPLACE FUNCTION public.request_disclosure_signatures()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_disclosure public.signature_disclosures;
+  v_request_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_disclosure IN
+    SELECT * FROM public.signature_disclosures d
+    WHERE d.is_active
+      AND NOT EXISTS (
+        SELECT 1 FROM public.signature_requests r
+        WHERE r.application_id = NEW.id AND r.disclosure_id = d.id AND r.status IN ('pending', 'signed')
+      )
+  LOOP
+    INSERT INTO public.signature_requests (user_id, application_id, title, disclosure_id, document_hash)
+    VALUES (
+      NEW.user_id, NEW.id, v_disclosure.title, v_disclosure.id,
+      encode(sha256(convert_to(v_disclosure.body, 'UTF8')), 'hex')
+    )
+    RETURNING id INTO v_request_id;
+
+    INSERT INTO public.signature_events (request_id, event, details)
+    VALUES (v_request_id, 'requested', jsonb_build_object('disclosure_key', v_disclosure.disclosure_key, 'version', v_disclosure.version));
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER request_disclosure_signatures
+  AFTER INSERT OR UPDATE OF status ON public.loan_applications
+  FOR EACH ROW
+  WHEN (NEW.status = 'submitted')
+  EXECUTE FUNCTION public.request_disclosure_signatures();
+
+-- ============================================================
+-- Signing ceremony
+-- ============================================================
+
+-- Loads a request for its signer, checking it can still be acted on
+CREATE OR REPLACE FUNCTION public.lock_signature_request(_request_id UUID, _signer UUID)
+RETURNS public.signature_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.signature_requests;
+BEGIN
+  SELECT * INTO v_request FROM public.signature_requests WHERE id = _request_id FOR UPDATE;
+  IF NOT FOUND OR v_request.user_id IS DISTINCT FROM _signer THEN
+    RAISE EXCEPTION 'Signature request not found';
+  END IF;
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', v_request.status;
+  END IF;
+  IF v_request.expires_at IS NOT NULL AND v_request.expires_at < now() THEN
+    RAISE EXCEPTION 'This signature request has expired';
+  END IF;
+  RETURN v_request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.begin_signature(
+  _request_id UUID,
+  _signer UUID,
+  _ip TEXT,
+  _user_agent TEXT,
+  _device JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.signature_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.signature_requests := public.lock_signature_request(_request_id, _signer);
+BEGIN
+  UPDATE public.signature_requests
+  SET viewed_at = COALESCE(viewed_at, now()), signer_ip = _ip, signer_user_agent = _user_agent
+  WHERE id = _request_id
+  RETURNING * INTO v_request;
+
+  INSERT INTO public.signature_events (request_id, event, actor_id, ip_address, user_agent, details)
+  VALUES (_request_id, 'viewed', _signer, _ip, _user_agent, jsonb_build_object('device', COALESCE(_device, '{}'::jsonb)));
+
+  RETURN v_request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_signature(
+  _request_id UUID,
+  _signer UUID,
+  _signature_type TEXT,
+  _signature_name TEXT,
+  _document_hash TEXT,
+  _signed_file_name TEXT,
+  _signed_file_path TEXT,
+  _signed_file_size BIGINT,
+  _signed_document_hash TEXT,
+  _ip TEXT,
+  _user_agent TEXT,
+  _device JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.signature_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.signature_requests := public.lock_signature_request(_request_id, _signer);
+  v_document_id UUID;
+BEGIN
+  IF v_request.viewed_at IS NULL THEN
+    RAISE EXCEPTION 'The document must be reviewed before it is signed';
+  END IF;
+  IF lower(_document_hash) <> v_request.document_hash THEN
+    RAISE EXCEPTION 'The document has changed since it was sent for signature';
+  END IF;
+  IF _signed_document_hash !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'Invalid signed document hash';
+  END IF;
+  IF trim(COALESCE(_signature_name, '')) = '' THEN
+    RAISE EXCEPTION 'The signer''s name is required';
+  END IF;
+  IF split_part(_signed_file_path, '/', 1) <> _signer::text THEN
+    RAISE EXCEPTION 'The signed document must be stored in the signer''s folder';
+  END IF;
+
+  INSERT INTO public.borrower_documents (user_id, file_name, file_path, file_type, file_size, document_category, description)
+  VALUES (_signer, _signed_file_name, _signed_file_path, 'application/pdf', _signed_file_size, 'signed_documents',
+          'Signed: ' || v_request.title)
+  RETURNING id INTO v_document_id;
+
+  UPDATE public.signature_requests
+  SET status = 'signed', signed_at = now(), signature_type = _signature_type, signature_name = trim(_signature_name),
+      signer_ip = _ip, signer_user_agent = _user_agent,
+      signed_document_id = v_document_id, signed_document_hash = _signed_document_hash
+  WHERE id = _request_id
+  RETURNING * INTO v_request;
+
+  INSERT INTO public.signature_events (request_id, event, actor_id, ip_address, user_agent, details)
+  VALUES (_request_id, 'signed', _signer, _ip, _user_agent, jsonb_build_object(
+    'signature_type', _signature_type,
+    'signature_name', v_request.signature_name,
+    'document_hash', v_request.document_hash,
+    'signed_document_id', v_document_id,
+    'signed_document_hash', _signed_document_hash,
+    'device', COALESCE(_device, '{}'::jsonb)
+  ));
+
+  PERFORM public.log_audit_event(
+    _signer, 'SIGN_DOCUMENT', 'signature_request', _request_id, _ip, _user_agent,
+    jsonb_build_object('title', v_request.title, 'application_id', v_request.application_id, 'signed_document_id', v_document_id)
+  );
+
+  IF v_request.requested_by IS NOT NULL THEN
+    PERFORM public.create_user_notification(
+      v_request.requested_by, 'signature_completed', 'Document signed',
+      v_request.title || ' was signed by the borrower.', 'success',
+      CASE WHEN v_request.application_id IS NOT NULL THEN '/admin/loans/' || v_request.application_id END,
+      jsonb_build_object('requestId', v_request.id)
+    );
+  END IF;
+
+  RETURN v_request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_signature(
+  _request_id UUID,
+  _signer UUID,
+  _reason TEXT,
+  _ip TEXT,
+  _user_agent TEXT
+)
+RETURNS public.signature_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.signature_requests := public.lock_signature_request(_request_id, _signer);
+BEGIN
+  UPDATE public.signature_requests
+  SET status = 'declined', decline_reason = NULLIF(trim(_reason), '')
+  WHERE id = _request_id
+  RETURNING * INTO v_request;
+
+  INSERT INTO public.signature_events (request_id, event, actor_id, ip_address, user_agent, details)
+  VALUES (_request_id, 'declined', _signer, _ip, _user_agent, jsonb_build_object('reason', v_request.decline_reason));
+
+  IF v_request.requested_by IS NOT NULL THEN
+    PERFORM public.create_user_notification(
+      v_request.requested_by, 'signature_declined', 'Signature declined',
+      v_request.title || ' was declined by the borrower.', 'warning',
+      CASE WHEN v_request.application_id IS NOT NULL THEN '/admin/loans/' || v_request.application_id END,
+      jsonb_build_object('requestId', v_request.id)
+    );
+  END IF;
+
+  RETURN v_request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.void_signature_request(_request_id UUID, _reason TEXT, _actor UUID)
+RETURNS public.signature_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.signature_requests;
+BEGIN
+  IF _actor IS NULL OR NOT public.has_role_or_higher(_actor, 'underwriter') THEN
+    RAISE EXCEPTION 'Unauthorized: underwriter role required to void a signature request';
+  END IF;
+
+  UPDATE public.signature_requests
+  SET status = 'voided', decline_reason = NULLIF(trim(_reason), '')
+  WHERE id = _request_id AND status = 'pending'
+  RETURNING * INTO v_request;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending requests can be voided';
+  END IF;
+
+  INSERT INTO public.signature_events (request_id, event, actor_id, details)
+  VALUES (_request_id, 'voided', _actor, jsonb_build_object('reason', v_request.decline_reason));
+
+  RETURN v_request;
+END;
+$$;
+
+-- The backends pass the caller's id and the client IP they observed, so
+-- these are not callable directly
+REVOKE EXECUTE ON FUNCTION public.create_signature_request(UUID, UUID, TEXT, UUID, UUID, TEXT, TIMESTAMP WITH TIME ZONE, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lock_signature_request(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.begin_signature(UUID, UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_signature(UUID, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, BIGINT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.decline_signature(UUID, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.void_signature_request(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
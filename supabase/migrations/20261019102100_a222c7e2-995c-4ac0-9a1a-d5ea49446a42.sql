@@ -0,0 +1,328 @@
+-- ============================================================
+-- Credit bureau pulls
+-- Consumer tri-merge (Experian, Equifax, TransUnion) and business
+-- credit (Experian Business, D&B PAYDEX, Equifax Business) are pulled
+-- through the credit-bureau function. Every pull is recorded with its
+-- permissible purpose and the borrower's consent before the bureau is
+-- called; the scores land in credit_scores and the accounts behind them
+-- in credit_tradelines. Scores are no longer written by borrowers.
+-- ============================================================
+
+CREATE TABLE public.credit_pulls (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- The borrower whose credit is pulled
+  user_id UUID NOT NULL,
+  application_id UUID REFERENCES public.loan_applications(id) ON DELETE SET NULL,
+  pull_type TEXT NOT NULL CHECK (pull_type IN ('consumer', 'business')),
+  bureaus TEXT[] NOT NULL,
+  provider TEXT NOT NULL,
+  -- FCRA permissible purpose: the consumer's written instruction (self-service),
+  -- a credit transaction they initiated, or review of an existing account
+  permissible_purpose TEXT NOT NULL
+    CHECK (permissible_purpose IN ('written_instruction', 'credit_application', 'account_review')),
+  inquiry_type TEXT NOT NULL CHECK (inquiry_type IN ('soft', 'hard')),
+  -- 'borrower_request': agreed on screen at pull time; 'signed_authorization': the
+  -- signed credit authorization disclosure (consent_reference is its signature request)
+  consent_type TEXT NOT NULL CHECK (consent_type IN ('borrower_request', 'signed_authorization')),
+  consent_reference UUID REFERENCES public.signature_requests(id),
+  consented_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consent_ip TEXT,
+  requested_by UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_credit_pulls_user ON public.credit_pulls (user_id, created_at DESC);
+CREATE INDEX idx_credit_pulls_application ON public.credit_pulls (application_id);
+
+ALTER TABLE public.credit_pulls ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the credit pull functions below
+CREATE POLICY "Borrowers view their credit pulls"
+ON public.credit_pulls
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Underwriters view credit pulls"
+ON public.credit_pulls
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'underwriter'));
+
+COMMENT ON TABLE public.credit_pulls IS 'Credit bureau pulls with their permissible purpose and consent';
+
+-- ============================================================
+-- Scores
+-- ============================================================
+
+ALTER TABLE public.credit_scores
+  DROP CONSTRAINT IF EXISTS credit_scores_score_check,
+  DROP CONSTRAINT IF EXISTS credit_scores_bureau_check,
+  ADD COLUMN credit_pull_id UUID REFERENCES public.credit_pulls(id) ON DELETE CASCADE,
+  ADD COLUMN score_type TEXT NOT NULL DEFAULT 'consumer' CHECK (score_type IN ('consumer', 'business')),
+  ADD COLUMN score_model TEXT,
+  ADD COLUMN score_min INTEGER NOT NULL DEFAULT 300,
+  ADD COLUMN score_max INTEGER NOT NULL DEFAULT 850,
+  -- [{code, description}] in the bureau's order of importance
+  ADD COLUMN factors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- {total_accounts, open_accounts, utilization, inquiries, public_records, derogatory_accounts, oldest_account_months}
+  ADD COLUMN summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD CONSTRAINT credit_scores_bureau_check
+    CHECK (bureau IN ('experian', 'equifax', 'transunion', 'experian_business', 'dnb_paydex', 'equifax_business')),
+  ADD CONSTRAINT credit_scores_score_check CHECK (score BETWEEN score_min AND score_max);
+
+CREATE INDEX idx_credit_scores_pull ON public.credit_scores (credit_pull_id);
+
+DROP POLICY IF EXISTS "Users can insert their own credit scores" ON public.credit_scores;
+DROP POLICY IF EXISTS "Users can update their own credit scores" ON public.credit_scores;
+
+CREATE POLICY "Underwriters view credit scores"
+ON public.credit_scores
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'underwriter'));
+
+-- ============================================================
+-- Tradelines
+-- ============================================================
+
+CREATE TABLE public.credit_tradelines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  credit_pull_id UUID NOT NULL REFERENCES public.credit_pulls(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  bureau TEXT NOT NULL,
+  creditor_name TEXT NOT NULL,
+  account_type TEXT NOT NULL,
+  -- Last four digits only
+  account_number_last4 TEXT,
+  account_status TEXT NOT NULL DEFAULT 'open' CHECK (account_status IN ('open', 'closed', 'collection', 'charged_off')),
+  payment_status TEXT NOT NULL DEFAULT 'current'
+    CHECK (payment_status IN ('current', 'late_30', 'late_60', 'late_90', 'late_120', 'derogatory')),
+  balance NUMERIC(14, 2),
+  credit_limit NUMERIC(14, 2),
+  monthly_payment NUMERIC(14, 2),
+  opened_on DATE,
+  reported_on DATE,
+  late_30_count INTEGER NOT NULL DEFAULT 0,
+  late_60_count INTEGER NOT NULL DEFAULT 0,
+  late_90_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_credit_tradelines_pull ON public.credit_tradelines (credit_pull_id);
+
+ALTER TABLE public.credit_tradelines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Borrowers view their tradelines"
+ON public.credit_tradelines
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Underwriters view tradelines"
+ON public.credit_tradelines
+FOR SELECT
+TO authenticated
+USING (public.has_role_or_higher(auth.uid(), 'underwriter'));
+
+COMMENT ON TABLE public.credit_tradelines IS 'Accounts reported on each credit pull';
+
+-- ============================================================
+-- Pull lifecycle
+-- ============================================================
+
+-- Checks purpose and consent and opens the pull; the caller then calls
+-- the bureau and records the outcome with complete_credit_pull
+CREATE OR REPLACE FUNCTION public.start_credit_pull(
+  _user_id UUID,
+  _application_id UUID,
+  _pull_type TEXT,
+  _bureaus TEXT[],
+  _permissible_purpose TEXT,
+  _provider TEXT,
+  _consent_ip TEXT,
+  _actor UUID
+)
+RETURNS public.credit_pulls
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_allowed TEXT[] := CASE _pull_type
+    WHEN 'consumer' THEN ARRAY['experian', 'equifax', 'transunion']
+    WHEN 'business' THEN ARRAY['experian_business', 'dnb_paydex', 'equifax_business']
+  END;
+  v_consent UUID;
+  v_pull public.credit_pulls;
+BEGIN
+  IF _actor IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: a requesting user is required';
+  END IF;
+  IF v_allowed IS NULL OR COALESCE(cardinality(_bureaus), 0) = 0 OR NOT _bureaus <@ v_allowed THEN
+    RAISE EXCEPTION 'Unsupported bureaus for a % pull', _pull_type;
+  END IF;
+  IF _application_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.loan_applications WHERE id = _application_id AND user_id = _user_id) THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF _actor = _user_id THEN
+    -- Borrowers may only pull their own reports, on their instruction, as a soft inquiry
+    IF _permissible_purpose <> 'written_instruction' THEN
+      RAISE EXCEPTION 'Borrowers can only request their own reports';
+    END IF;
+  ELSE
+    IF NOT public.has_role_or_higher(_actor, 'underwriter') THEN
+      RAISE EXCEPTION 'Unauthorized: underwriter role required to pull credit';
+    END IF;
+    IF _permissible_purpose NOT IN ('credit_application', 'account_review') THEN
+      RAISE EXCEPTION 'Staff pulls need a credit application or account review purpose';
+    END IF;
+    IF _permissible_purpose = 'credit_application' AND _application_id IS NULL THEN
+      RAISE EXCEPTION 'A credit application pull must name the application';
+    END IF;
+
+    -- Consent is the borrower's signed credit authorization, preferably for this application
+    SELECT r.id INTO v_consent
+    FROM public.signature_requests r
+    JOIN public.signature_disclosures d ON d.id = r.disclosure_id
+    WHERE r.user_id = _user_id
+      AND r.status = 'signed'
+      AND d.disclosure_key = 'credit_authorization'
+    ORDER BY (r.application_id IS NOT DISTINCT FROM _application_id) DESC, r.signed_at DESC
+    LIMIT 1;
+    IF v_consent IS NULL THEN
+      RAISE EXCEPTION 'The borrower has not signed a credit authorization';
+    END IF;
+  END IF;
+
+  INSERT INTO public.credit_pulls (
+    user_id, application_id, pull_type, bureaus, provider, permissible_purpose, inquiry_type,
+    consent_type, consent_reference, consented_at, consent_ip, requested_by
+  )
+  VALUES (
+    _user_id, _application_id, _pull_type, _bureaus, _provider, _permissible_purpose,
+    CASE WHEN _permissible_purpose = 'credit_application' THEN 'hard' ELSE 'soft' END,
+    CASE WHEN v_consent IS NULL THEN 'borrower_request' ELSE 'signed_authorization' END,
+    v_consent,
+    COALESCE((SELECT signed_at FROM public.signature_requests WHERE id = v_consent), now()),
+    CASE WHEN v_consent IS NULL THEN _consent_ip ELSE (SELECT signer_ip FROM public.signature_requests WHERE id = v_consent) END,
+    _actor
+  )
+  RETURNING * INTO v_pull;
+
+  RETURN v_pull;
+END;
+$$;
+
+-- Records the parsed bureau reports, or the failure, for an open pull.
+-- _reports: [{bureau, score, score_model, score_min, score_max, report_date,
+--             factors, summary, tradelines: [{creditor_name, account_type, ...}]}]
+CREATE OR REPLACE FUNCTION public.complete_credit_pull(
+  _pull_id UUID,
+  _reports JSONB,
+  _error TEXT DEFAULT NULL
+)
+RETURNS public.credit_pulls
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pull public.credit_pulls;
+  v_report JSONB;
+BEGIN
+  SELECT * INTO v_pull FROM public.credit_pulls WHERE id = _pull_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit pull not found';
+  END IF;
+  IF v_pull.status <> 'pending' THEN
+    RAISE EXCEPTION 'This credit pull has already been recorded';
+  END IF;
+
+  IF _error IS NOT NULL THEN
+    UPDATE public.credit_pulls SET status = 'failed', error = _error, completed_at = now()
+    WHERE id = _pull_id
+    RETURNING * INTO v_pull;
+    RETURN v_pull;
+  END IF;
+
+  FOR v_report IN SELECT * FROM jsonb_array_elements(COALESCE(_reports, '[]'::jsonb))
+  LOOP
+    IF NOT (v_report->>'bureau') = ANY (v_pull.bureaus) THEN
+      RAISE EXCEPTION 'Unexpected bureau % in the response', v_report->>'bureau';
+    END IF;
+
+    INSERT INTO public.credit_scores (
+      user_id, score, bureau, score_date, credit_pull_id, score_type, score_model, score_min, score_max, factors, summary
+    )
+    VALUES (
+      v_pull.user_id,
+      (v_report->>'score')::integer,
+      v_report->>'bureau',
+      COALESCE((v_report->>'report_date')::date, CURRENT_DATE),
+      _pull_id,
+      v_pull.pull_type,
+      v_report->>'score_model',
+      (v_report->>'score_min')::integer,
+      (v_report->>'score_max')::integer,
+      COALESCE(v_report->'factors', '[]'::jsonb),
+      COALESCE(v_report->'summary', '{}'::jsonb)
+    );
+
+    INSERT INTO public.credit_tradelines (
+      credit_pull_id, user_id, bureau, creditor_name, account_type, account_number_last4, account_status,
+      payment_status, balance, credit_limit, monthly_payment, opened_on, reported_on,
+      late_30_count, late_60_count, late_90_count
+    )
+    SELECT
+      _pull_id, v_pull.user_id, v_report->>'bureau', t.creditor_name, t.account_type, right(t.account_number_last4, 4),
+      COALESCE(t.account_status, 'open'), COALESCE(t.payment_status, 'current'), t.balance, t.credit_limit,
+      t.monthly_payment, t.opened_on, t.reported_on,
+      COALESCE(t.late_30_count, 0), COALESCE(t.late_60_count, 0), COALESCE(t.late_90_count, 0)
+    FROM jsonb_to_recordset(COALESCE(v_report->'tradelines', '[]'::jsonb)) AS t(
+      creditor_name TEXT, account_type TEXT, account_number_last4 TEXT, account_status TEXT, payment_status TEXT,
+      balance NUMERIC, credit_limit NUMERIC, monthly_payment NUMERIC, opened_on DATE, reported_on DATE,
+      late_30_count INTEGER, late_60_count INTEGER, late_90_count INTEGER
+    );
+  END LOOP;
+
+  UPDATE public.credit_pulls SET status = 'completed', completed_at = now()
+  WHERE id = _pull_id
+  RETURNING * INTO v_pull;
+
+  PERFORM public.log_audit_event(
+    v_pull.requested_by, 'PULL_CREDIT_REPORT', 'credit_pull', _pull_id, v_pull.consent_ip, NULL,
+    jsonb_build_object(
+      'user_id', v_pull.user_id,
+      'application_id', v_pull.application_id,
+      'pull_type', v_pull.pull_type,
+      'bureaus', v_pull.bureaus,
+      'permissible_purpose', v_pull.permissible_purpose,
+      'inquiry_type', v_pull.inquiry_type,
+      'consent_reference', v_pull.consent_reference
+    )
+  );
+
+  -- Borrowers hear about pulls they did not make themselves
+  IF v_pull.requested_by <> v_pull.user_id THEN
+    PERFORM public.create_user_notification(
+      v_pull.user_id, 'credit_report_pulled', 'Credit report reviewed',
+      'Your ' || v_pull.pull_type || ' credit report was pulled as part of your '
+        || CASE v_pull.permissible_purpose WHEN 'credit_application' THEN 'application.' ELSE 'account review.' END,
+      'info', '/credit-reports',
+      jsonb_build_object('pullId', _pull_id, 'applicationId', v_pull.application_id)
+    );
+  END IF;
+
+  RETURN v_pull;
+END;
+$$;
+
+-- Called by the credit-bureau function with the caller's id
+REVOKE EXECUTE ON FUNCTION public.start_credit_pull(UUID, UUID, TEXT, TEXT[], TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_credit_pull(UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
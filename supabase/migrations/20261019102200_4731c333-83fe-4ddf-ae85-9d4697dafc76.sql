@@ -0,0 +1,318 @@
+-- ============================================================
+-- Bank account aggregation
+-- Borrowers link their banks through the aggregation provider
+-- (Plaid, or the local sandbox) instead of typing in balances.
+-- Each link is a bank_connection; its accounts land in bank_accounts
+-- and 12 months of transactions in bank_transactions, refreshed by
+-- the scheduled sync. Accounts are no longer written by borrowers.
+-- ============================================================
+
+CREATE TABLE public.bank_connections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  provider TEXT NOT NULL,
+  -- The provider's id for the link (a Plaid item)
+  external_id TEXT NOT NULL,
+  institution_id TEXT,
+  institution_name TEXT NOT NULL,
+  is_business BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'error', 'disconnected')),
+  error TEXT,
+  -- Where the next incremental transaction sync resumes
+  sync_cursor TEXT,
+  last_synced_at TIMESTAMP WITH TIME ZONE,
+  next_sync_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, external_id)
+);
+
+CREATE INDEX idx_bank_connections_user ON public.bank_connections (user_id);
+CREATE INDEX idx_bank_connections_due ON public.bank_connections (next_sync_at) WHERE status <> 'disconnected';
+
+CREATE TRIGGER update_bank_connections_updated_at
+  BEFORE UPDATE ON public.bank_connections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.bank_connections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Borrowers view their bank connections"
+  ON public.bank_connections
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Super admins view bank connections"
+  ON public.bank_connections
+  FOR SELECT
+  TO authenticated
+  USING (public.has_app_role(auth.uid(), 'super_admin'));
+
+CREATE POLICY "Underwriters view assigned bank connections"
+  ON public.bank_connections
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_app_role(auth.uid(), 'underwriter')
+    AND public.is_assigned_to_user(auth.uid(), user_id)
+  );
+
+-- Provider access tokens. No policies: only the bank-aggregation backends read them.
+CREATE TABLE public.bank_connection_tokens (
+  connection_id UUID NOT NULL PRIMARY KEY REFERENCES public.bank_connections(id) ON DELETE CASCADE,
+  access_token TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bank_connection_tokens ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- Accounts
+-- ============================================================
+
+ALTER TABLE public.bank_accounts
+  ADD COLUMN connection_id UUID REFERENCES public.bank_connections(id) ON DELETE CASCADE,
+  -- 'manual' rows were typed in by the borrower before aggregation
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'aggregated')),
+  ADD COLUMN available_balance NUMERIC,
+  ADD CONSTRAINT bank_accounts_connection_external_key UNIQUE (connection_id, external_id);
+
+-- Balances must come from the bank; borrowers remove accounts through bank-aggregation
+DROP POLICY IF EXISTS "Users can insert their own bank accounts" ON public.bank_accounts;
+DROP POLICY IF EXISTS "Users can update their own bank accounts" ON public.bank_accounts;
+DROP POLICY IF EXISTS "Users can delete their own bank accounts" ON public.bank_accounts;
+
+-- ============================================================
+-- Transactions
+-- ============================================================
+
+CREATE TABLE public.bank_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.bank_accounts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  external_id TEXT NOT NULL,
+  posted_on DATE NOT NULL,
+  -- Money in is positive, money out negative
+  amount NUMERIC(14, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  description TEXT NOT NULL,
+  merchant_name TEXT,
+  category TEXT,
+  pending BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (account_id, external_id)
+);
+
+CREATE INDEX idx_bank_transactions_account ON public.bank_transactions (account_id, posted_on DESC);
+CREATE INDEX idx_bank_transactions_user ON public.bank_transactions (user_id, posted_on DESC);
+
+CREATE TRIGGER update_bank_transactions_updated_at
+  BEFORE UPDATE ON public.bank_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.bank_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by record_bank_sync
+CREATE POLICY "Borrowers view their bank transactions"
+  ON public.bank_transactions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Super admins view bank transactions"
+  ON public.bank_transactions
+  FOR SELECT
+  TO authenticated
+  USING (public.has_app_role(auth.uid(), 'super_admin'));
+
+CREATE POLICY "Underwriters view assigned bank transactions"
+  ON public.bank_transactions
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_app_role(auth.uid(), 'underwriter')
+    AND public.is_assigned_to_user(auth.uid(), user_id)
+  );
+
+COMMENT ON TABLE public.bank_transactions IS 'Transactions imported from linked bank accounts';
+
+-- ============================================================
+-- Connection lifecycle
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.create_bank_connection(
+  _user_id UUID,
+  _provider TEXT,
+  _external_id TEXT,
+  _institution_id TEXT,
+  _institution_name TEXT,
+  _is_business BOOLEAN,
+  _access_token TEXT,
+  _ip TEXT
+)
+RETURNS public.bank_connections
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_connection public.bank_connections;
+BEGIN
+  INSERT INTO public.bank_connections (user_id, provider, external_id, institution_id, institution_name, is_business)
+  VALUES (_user_id, _provider, _external_id, _institution_id, _institution_name, COALESCE(_is_business, false))
+  RETURNING * INTO v_connection;
+
+  INSERT INTO public.bank_connection_tokens (connection_id, access_token)
+  VALUES (v_connection.id, _access_token);
+
+  PERFORM public.log_audit_event(
+    _user_id, 'LINK_BANK_ACCOUNT', 'bank_connection', v_connection.id, _ip, NULL,
+    jsonb_build_object('provider', _provider, 'institution', _institution_name, 'is_business', v_connection.is_business)
+  );
+
+  RETURN v_connection;
+END;
+$$;
+
+-- Applies one sync: upserts the connection's accounts and transactions, drops
+-- transactions the bank removed and schedules the next run. With _error the
+-- connection is marked for attention and retried sooner.
+-- _accounts:     [{external_id, account_name, mask, account_type, balance, available_balance, currency}]
+-- _transactions: [{account_external_id, external_id, posted_on, amount, currency, description, merchant_name, category, pending}]
+CREATE OR REPLACE FUNCTION public.record_bank_sync(
+  _connection_id UUID,
+  _accounts JSONB,
+  _transactions JSONB,
+  _removed TEXT[],
+  _cursor TEXT,
+  _error TEXT DEFAULT NULL
+)
+RETURNS public.bank_connections
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_connection public.bank_connections;
+BEGIN
+  SELECT * INTO v_connection FROM public.bank_connections WHERE id = _connection_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank connection not found';
+  END IF;
+  IF v_connection.status = 'disconnected' THEN
+    RAISE EXCEPTION 'This bank connection has been disconnected';
+  END IF;
+
+  IF _error IS NOT NULL THEN
+    UPDATE public.bank_connections
+    SET status = 'error', error = _error, next_sync_at = now() + interval '6 hours'
+    WHERE id = _connection_id
+    RETURNING * INTO v_connection;
+    RETURN v_connection;
+  END IF;
+
+  INSERT INTO public.bank_accounts (
+    user_id, connection_id, external_id, account_name, account_number, account_type, institution,
+    balance, available_balance, currency, is_business, status, source, last_synced_at
+  )
+  SELECT
+    v_connection.user_id, _connection_id, a.external_id, a.account_name, '••••' || COALESCE(a.mask, '----'),
+    a.account_type, v_connection.institution_name, COALESCE(a.balance, 0), a.available_balance,
+    COALESCE(a.currency, 'USD'), v_connection.is_business, 'active', 'aggregated', now()
+  FROM jsonb_to_recordset(COALESCE(_accounts, '[]'::jsonb)) AS a(
+    external_id TEXT, account_name TEXT, mask TEXT, account_type TEXT,
+    balance NUMERIC, available_balance NUMERIC, currency TEXT
+  )
+  ON CONFLICT (connection_id, external_id) DO UPDATE SET
+    account_name = EXCLUDED.account_name,
+    account_type = EXCLUDED.account_type,
+    balance = EXCLUDED.balance,
+    available_balance = EXCLUDED.available_balance,
+    currency = EXCLUDED.currency,
+    status = 'active',
+    last_synced_at = now();
+
+  INSERT INTO public.bank_transactions (
+    account_id, user_id, external_id, posted_on, amount, currency, description, merchant_name, category, pending
+  )
+  SELECT
+    acct.id, v_connection.user_id, t.external_id, t.posted_on, t.amount, COALESCE(t.currency, acct.currency),
+    t.description, t.merchant_name, t.category, COALESCE(t.pending, false)
+  FROM jsonb_to_recordset(COALESCE(_transactions, '[]'::jsonb)) AS t(
+    account_external_id TEXT, external_id TEXT, posted_on DATE, amount NUMERIC, currency TEXT,
+    description TEXT, merchant_name TEXT, category TEXT, pending BOOLEAN
+  )
+  JOIN public.bank_accounts acct
+    ON acct.connection_id = _connection_id AND acct.external_id = t.account_external_id
+  ON CONFLICT (account_id, external_id) DO UPDATE SET
+    posted_on = EXCLUDED.posted_on,
+    amount = EXCLUDED.amount,
+    description = EXCLUDED.description,
+    merchant_name = EXCLUDED.merchant_name,
+    category = EXCLUDED.category,
+    pending = EXCLUDED.pending;
+
+  IF cardinality(_removed) > 0 THEN
+    DELETE FROM public.bank_transactions t
+    USING public.bank_accounts acct
+    WHERE acct.id = t.account_id
+      AND acct.connection_id = _connection_id
+      AND t.external_id = ANY (_removed);
+  END IF;
+
+  UPDATE public.bank_connections
+  SET status = 'active', error = NULL, sync_cursor = COALESCE(_cursor, sync_cursor),
+      last_synced_at = now(), next_sync_at = now() + interval '1 day'
+  WHERE id = _connection_id
+  RETURNING * INTO v_connection;
+
+  RETURN v_connection;
+END;
+$$;
+
+-- Stops syncing and forgets the access token; imported history stays for underwriting
+CREATE OR REPLACE FUNCTION public.disconnect_bank_connection(
+  _connection_id UUID,
+  _actor UUID,
+  _ip TEXT
+)
+RETURNS public.bank_connections
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_connection public.bank_connections;
+BEGIN
+  SELECT * INTO v_connection FROM public.bank_connections WHERE id = _connection_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank connection not found';
+  END IF;
+  IF _actor IS DISTINCT FROM v_connection.user_id THEN
+    RAISE EXCEPTION 'Unauthorized: only the account holder can disconnect this bank';
+  END IF;
+
+  DELETE FROM public.bank_connection_tokens WHERE connection_id = _connection_id;
+
+  UPDATE public.bank_accounts SET status = 'disconnected' WHERE connection_id = _connection_id;
+
+  UPDATE public.bank_connections SET status = 'disconnected', error = NULL
+  WHERE id = _connection_id
+  RETURNING * INTO v_connection;
+
+  PERFORM public.log_audit_event(
+    _actor, 'UNLINK_BANK_ACCOUNT', 'bank_connection', _connection_id, _ip, NULL,
+    jsonb_build_object('user_id', v_connection.user_id, 'institution', v_connection.institution_name)
+  );
+
+  RETURN v_connection;
+END;
+$$;
+
+-- Called by the bank-aggregation backends with the caller's id
+REVOKE EXECUTE ON FUNCTION public.create_bank_connection(UUID, TEXT, TEXT, TEXT, TEXT, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_bank_sync(UUID, JSONB, JSONB, TEXT[], TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.disconnect_bank_connection(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,227 @@
+-- ============================================================
+-- Cash-flow analysis and DSCR
+-- Underwriters analyze the borrower's imported bank transactions
+-- for an application: monthly revenue, balances, NSF/overdraft
+-- activity and debt service coverage for the requested loan. Each
+-- run is kept in cash_flow_analyses; the latest summary and the
+-- re-scored underwriting result land in loan_details.
+-- ============================================================
+
+CREATE TABLE public.cash_flow_analyses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES public.loan_applications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  analyzed_by UUID NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  month_count INTEGER NOT NULL,
+  account_ids UUID[] NOT NULL DEFAULT '{}',
+  transaction_count INTEGER NOT NULL DEFAULT 0,
+  avg_monthly_revenue NUMERIC(14,2) NOT NULL DEFAULT 0,
+  avg_monthly_operating_expenses NUMERIC(14,2) NOT NULL DEFAULT 0,
+  -- Revenue less operating expenses: what is available to service debt
+  avg_monthly_net_cash_flow NUMERIC(14,2) NOT NULL DEFAULT 0,
+  -- Last three months' revenue against the three before, in percent
+  revenue_trend_pct NUMERIC(8,2),
+  avg_daily_balance NUMERIC(14,2) NOT NULL DEFAULT 0,
+  min_daily_balance NUMERIC(14,2) NOT NULL DEFAULT 0,
+  negative_balance_days INTEGER NOT NULL DEFAULT 0,
+  nsf_count INTEGER NOT NULL DEFAULT 0,
+  overdraft_count INTEGER NOT NULL DEFAULT 0,
+  -- Loan payments seen leaving the accounts, for comparison with existing_loans
+  observed_debt_payments NUMERIC(14,2) NOT NULL DEFAULT 0,
+  existing_debt_service NUMERIC(14,2) NOT NULL DEFAULT 0,
+  proposed_amount NUMERIC(14,2),
+  proposed_rate NUMERIC(6,3),
+  proposed_term_months INTEGER,
+  proposed_interest_only_months INTEGER,
+  proposed_payment NUMERIC(14,2) NOT NULL DEFAULT 0,
+  -- NULL when there is no debt service to cover
+  dscr NUMERIC(8,2),
+  months JSONB NOT NULL DEFAULT '[]',
+  underwriting JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_cash_flow_analyses_application ON public.cash_flow_analyses (application_id, created_at DESC);
+
+ALTER TABLE public.cash_flow_analyses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins view cash flow analyses"
+  ON public.cash_flow_analyses
+  FOR SELECT
+  TO authenticated
+  USING (public.has_app_role(auth.uid(), 'super_admin'));
+
+CREATE POLICY "Underwriters view assigned cash flow analyses"
+  ON public.cash_flow_analyses
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_app_role(auth.uid(), 'underwriter')
+    AND public.is_assigned_to_user(auth.uid(), user_id)
+  );
+
+COMMENT ON TABLE public.cash_flow_analyses IS 'Cash-flow and DSCR analyses of imported bank transactions, one row per run';
+
+-- Records a run and refreshes the application's cash-flow summary and risk score
+CREATE OR REPLACE FUNCTION public.record_cash_flow_analysis(
+  _application_id UUID,
+  _analysis JSONB,
+  _underwriting JSONB,
+  _actor UUID,
+  _ip TEXT
+)
+RETURNS public.cash_flow_analyses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_analysis public.cash_flow_analyses;
+BEGIN
+  IF NOT public.has_role_or_higher(_actor, 'underwriter') THEN
+    RAISE EXCEPTION 'Unauthorized: underwriter role required to analyze cash flow';
+  END IF;
+
+  SELECT user_id INTO v_user_id FROM public.loan_applications WHERE id = _application_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan application not found';
+  END IF;
+
+  INSERT INTO public.cash_flow_analyses (
+    application_id, user_id, analyzed_by, period_start, period_end, month_count,
+    account_ids, transaction_count, avg_monthly_revenue, avg_monthly_operating_expenses,
+    avg_monthly_net_cash_flow, revenue_trend_pct, avg_daily_balance, min_daily_balance,
+    negative_balance_days, nsf_count, overdraft_count, observed_debt_payments,
+    existing_debt_service, proposed_amount, proposed_rate, proposed_term_months,
+    proposed_interest_only_months, proposed_payment, dscr, months, underwriting
+  ) VALUES (
+    _application_id, v_user_id, _actor,
+    (_analysis->>'period_start')::date,
+    (_analysis->>'period_end')::date,
+    (_analysis->>'month_count')::integer,
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(_analysis->'account_ids', '[]'::jsonb))::uuid),
+    COALESCE((_analysis->>'transaction_count')::integer, 0),
+    COALESCE((_analysis->>'avg_monthly_revenue')::numeric, 0),
+    COALESCE((_analysis->>'avg_monthly_operating_expenses')::numeric, 0),
+    COALESCE((_analysis->>'avg_monthly_net_cash_flow')::numeric, 0),
+    (_analysis->>'revenue_trend_pct')::numeric,
+    COALESCE((_analysis->>'avg_daily_balance')::numeric, 0),
+    COALESCE((_analysis->>'min_daily_balance')::numeric, 0),
+    COALESCE((_analysis->>'negative_balance_days')::integer, 0),
+    COALESCE((_analysis->>'nsf_count')::integer, 0),
+    COALESCE((_analysis->>'overdraft_count')::integer, 0),
+    COALESCE((_analysis->>'observed_debt_payments')::numeric, 0),
+    COALESCE((_analysis->>'existing_debt_service')::numeric, 0),
+    (_analysis->>'proposed_amount')::numeric,
+    (_analysis->>'proposed_rate')::numeric,
+    (_analysis->>'proposed_term_months')::integer,
+    (_analysis->>'proposed_interest_only_months')::integer,
+    COALESCE((_analysis->>'proposed_payment')::numeric, 0),
+    (_analysis->>'dscr')::numeric,
+    COALESCE(_analysis->'months', '[]'::jsonb),
+    _underwriting
+  )
+  RETURNING * INTO v_analysis;
+
+  UPDATE public.loan_applications
+  SET loan_details = COALESCE(loan_details, '{}'::jsonb)
+    || jsonb_build_object(
+      'cash_flow', jsonb_build_object(
+        'analysis_id', v_analysis.id,
+        'analyzed_at', v_analysis.created_at,
+        'period_start', v_analysis.period_start,
+        'period_end', v_analysis.period_end,
+        'avg_monthly_revenue', v_analysis.avg_monthly_revenue,
+        'avg_daily_balance', v_analysis.avg_daily_balance,
+        'nsf_count', v_analysis.nsf_count,
+        'overdraft_count', v_analysis.overdraft_count,
+        'existing_debt_service', v_analysis.existing_debt_service,
+        'proposed_payment', v_analysis.proposed_payment,
+        'dscr', v_analysis.dscr
+      )
+    )
+    || CASE WHEN _underwriting IS NULL THEN '{}'::jsonb
+       ELSE jsonb_build_object('underwriting', _underwriting, 'risk_score', _underwriting->'risk_score') END
+  WHERE id = _application_id;
+
+  PERFORM public.log_audit_event(
+    _actor, 'CASH_FLOW_ANALYSIS_RUN', 'loan_application', _application_id, _ip, NULL,
+    jsonb_build_object(
+      'analysis_id', v_analysis.id,
+      'dscr', v_analysis.dscr,
+      'risk_score', _underwriting->'risk_score'
+    )
+  );
+
+  RETURN v_analysis;
+END;
+$$;
+
+-- Called by the cash-flow-analysis backends with the caller's id
+REVOKE EXECUTE ON FUNCTION public.record_cash_flow_analysis(UUID, JSONB, JSONB, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- Underwriting policy: score verified cash flow
+-- A new version of the active default rule set, adding DSCR and
+-- NSF/overdraft factors read from the cash_flow input that the
+-- analysis supplies. Applications scored before an analysis has
+-- run have no cash_flow and are unaffected by these factors.
+-- ============================================================
+
+DO $$
+DECLARE
+  v_current public.underwriting_rule_sets;
+  v_new_id UUID;
+BEGIN
+  SELECT * INTO v_current
+  FROM public.underwriting_rule_sets
+  WHERE loan_type = 'default' AND status = 'active';
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.underwriting_rule_sets (
+    loan_type, version, name, description, status, base_score,
+    auto_approval_max_score, manual_review_min_score
+  )
+  SELECT 'default', MAX(version) + 1, 'Baseline risk policy with cash flow',
+    'Adds bank-verified debt service coverage and NSF/overdraft activity from cash-flow analysis.',
+    'draft', v_current.base_score, v_current.auto_approval_max_score, v_current.manual_review_min_score
+  FROM public.underwriting_rule_sets
+  WHERE loan_type = 'default'
+  RETURNING id INTO v_new_id;
+
+  INSERT INTO public.underwriting_rules (
+    rule_set_id, factor_key, label, source_field, rule_type, weight, bands, matches,
+    knockout_operator, knockout_value, reason, sort_order
+  )
+  SELECT v_new_id, factor_key, label, source_field, rule_type, weight, bands, matches,
+    knockout_operator, knockout_value, reason, sort_order
+  FROM public.underwriting_rules
+  WHERE rule_set_id = v_current.id
+    AND factor_key NOT IN ('dscr', 'nsf_overdrafts');
+
+  INSERT INTO public.underwriting_rules (rule_set_id, factor_key, label, source_field, rule_type, bands, reason, sort_order)
+  SELECT v_new_id, r.factor_key, r.label, r.source_field, 'band', r.bands::jsonb, r.reason,
+    (SELECT COALESCE(MAX(sort_order), 0) FROM public.underwriting_rules WHERE rule_set_id = v_new_id) + r.position
+  FROM (VALUES
+    ('dscr', 'Debt service coverage', 'cash_flow.dscr',
+     '[{"min":1.5,"points":-15},{"min":1.25,"max":1.5,"points":-5},{"min":1,"max":1.25,"points":10},{"max":1,"points":25}]',
+     'Bank cash flow does not comfortably cover debt service', 1),
+    ('nsf_overdrafts', 'NSF and overdraft events', 'cash_flow.nsf_overdraft_events',
+     '[{"max":1,"points":-5},{"min":1,"max":4,"points":5},{"min":4,"points":15}]',
+     'Returned items or overdrafts on the business accounts', 2)
+  ) AS r(factor_key, label, source_field, bands, reason, position);
+
+  UPDATE public.underwriting_rule_sets
+  SET status = 'retired', retired_at = now()
+  WHERE id = v_current.id;
+
+  UPDATE public.underwriting_rule_sets
+  SET status = 'active', activated_at = now()
+  WHERE id = v_new_id;
+END;
+$$;
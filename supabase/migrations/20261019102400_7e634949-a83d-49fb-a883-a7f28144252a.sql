@@ -0,0 +1,299 @@
+-- ============================================================
+-- Bank statement imports
+-- Borrowers who cannot link their bank upload statements to
+-- Documents under Bank Statements instead. Each upload is parsed
+-- by the bank-statements backends into a bank_statement_import
+-- attached to the borrower's application, with the transactions
+-- landing in bank_transactions against a 'statement' account so
+-- cash-flow analysis reads them like linked ones. Integrity flags
+-- record balance discontinuities and other signs of tampering.
+-- ============================================================
+
+ALTER TABLE public.bank_accounts DROP CONSTRAINT IF EXISTS bank_accounts_source_check;
+ALTER TABLE public.bank_accounts
+  ADD CONSTRAINT bank_accounts_source_check CHECK (source IN ('manual', 'aggregated', 'statement'));
+
+CREATE TABLE public.bank_statement_imports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL UNIQUE REFERENCES public.borrower_documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  application_id UUID REFERENCES public.loan_applications(id) ON DELETE SET NULL,
+  account_id UUID REFERENCES public.bank_accounts(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('parsed', 'failed')),
+  format TEXT CHECK (format IN ('csv', 'ofx', 'pdf')),
+  institution_name TEXT,
+  account_name TEXT,
+  account_mask TEXT,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  period_start DATE,
+  period_end DATE,
+  opening_balance NUMERIC(14, 2),
+  closing_balance NUMERIC(14, 2),
+  transaction_count INTEGER NOT NULL DEFAULT 0,
+  total_credits NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  total_debits NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  -- [{code, severity: high|medium|info, message, details}]
+  integrity_flags JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- 'suspect' with any high flag, 'warning' with medium ones, 'unverified' when
+  -- there were no balances to reconcile, otherwise 'verified'. Null when parsing failed.
+  integrity TEXT CHECK (integrity IN ('verified', 'unverified', 'warning', 'suspect')),
+  -- Why parsing failed, in words fit to show the borrower
+  error TEXT,
+  -- PDF producer and dates, kept for review
+  document_info JSONB,
+  parsed_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_bank_statement_imports_user ON public.bank_statement_imports (user_id, period_end DESC);
+CREATE INDEX idx_bank_statement_imports_application ON public.bank_statement_imports (application_id);
+CREATE INDEX idx_bank_statement_imports_account ON public.bank_statement_imports (account_id, period_end DESC);
+
+CREATE TRIGGER update_bank_statement_imports_updated_at
+  BEFORE UPDATE ON public.bank_statement_imports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.bank_statement_imports ENABLE ROW LEVEL SECURITY;
+
+-- Written only by record_statement_import
+CREATE POLICY "Borrowers view their statement imports"
+  ON public.bank_statement_imports
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Super admins view statement imports"
+  ON public.bank_statement_imports
+  FOR SELECT
+  TO authenticated
+  USING (public.has_app_role(auth.uid(), 'super_admin'));
+
+CREATE POLICY "Underwriters view assigned statement imports"
+  ON public.bank_statement_imports
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_app_role(auth.uid(), 'underwriter')
+    AND public.is_assigned_to_user(auth.uid(), user_id)
+  );
+
+COMMENT ON TABLE public.bank_statement_imports IS 'Uploaded bank statements parsed into transactions, one row per document';
+
+-- Re-parsing a statement replaces the transactions it imported
+ALTER TABLE public.bank_transactions
+  ADD COLUMN statement_import_id UUID REFERENCES public.bank_statement_imports(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_bank_transactions_statement_import ON public.bank_transactions (statement_import_id)
+  WHERE statement_import_id IS NOT NULL;
+
+COMMENT ON TABLE public.bank_transactions IS 'Transactions imported from linked bank accounts and parsed bank statements';
+
+-- ============================================================
+-- Recording a parse
+-- ============================================================
+
+-- Records the outcome of parsing one uploaded statement. On success the
+-- transactions replace those of earlier versions of the document and are
+-- filed under the borrower's 'statement' account for the institution and
+-- account number, skipping any an overlapping statement already imported;
+-- the account balance follows the latest statement.
+-- With _error only the failure is recorded. The application defaults to the
+-- borrower's most recent one.
+-- _statement: {format, institution_name, account_name, account_mask, is_business, currency,
+--              period_start, period_end, opening_balance, closing_balance, document_info,
+--              transactions: [{posted_on, amount, description, balance}]}
+CREATE OR REPLACE FUNCTION public.record_statement_import(
+  _document_id UUID,
+  _application_id UUID,
+  _statement JSONB,
+  _flags JSONB,
+  _error TEXT,
+  _actor UUID,
+  _ip TEXT
+)
+RETURNS public.bank_statement_imports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_document public.borrower_documents;
+  v_import public.bank_statement_imports;
+  v_application_id UUID;
+  v_account_id UUID;
+  v_external_id TEXT;
+  v_account_name TEXT;
+  v_flags JSONB := COALESCE(_flags, '[]'::jsonb);
+BEGIN
+  SELECT * INTO v_document FROM public.borrower_documents WHERE id = _document_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+  IF _actor IS DISTINCT FROM v_document.user_id AND NOT public.has_role_or_higher(_actor, 'underwriter') THEN
+    RAISE EXCEPTION 'Unauthorized: only the borrower or an underwriter can parse this statement';
+  END IF;
+  IF v_document.document_category IS DISTINCT FROM 'bank_statements' THEN
+    RAISE EXCEPTION 'Only documents filed under Bank Statements can be parsed';
+  END IF;
+  IF NOT v_document.is_latest_version THEN
+    RAISE EXCEPTION 'A newer version of this statement has been uploaded';
+  END IF;
+
+  IF _application_id IS NOT NULL THEN
+    SELECT id INTO v_application_id FROM public.loan_applications
+    WHERE id = _application_id AND user_id = v_document.user_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The application does not belong to this borrower';
+    END IF;
+  ELSE
+    SELECT id INTO v_application_id FROM public.loan_applications
+    WHERE user_id = v_document.user_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF _error IS NULL THEN
+    v_account_name := COALESCE(_statement->>'account_name', 'Checking');
+    v_external_id := 'statement:' || lower(COALESCE(_statement->>'institution_name', 'unknown'))
+      || ':' || COALESCE(_statement->>'account_mask', '----');
+
+    SELECT id INTO v_account_id FROM public.bank_accounts
+    WHERE user_id = v_document.user_id AND source = 'statement' AND external_id = v_external_id;
+
+    IF v_account_id IS NULL THEN
+      INSERT INTO public.bank_accounts (
+        user_id, external_id, account_name, account_number, account_type, institution,
+        balance, currency, is_business, status, source, last_synced_at
+      ) VALUES (
+        v_document.user_id, v_external_id, v_account_name,
+        '••••' || COALESCE(_statement->>'account_mask', '----'),
+        CASE
+          WHEN v_account_name ILIKE '%money market%' THEN 'Money Market'
+          WHEN v_account_name ILIKE '%savings%' THEN 'Savings'
+          WHEN v_account_name ILIKE '%credit%' THEN 'Credit Card'
+          ELSE 'Checking'
+        END,
+        COALESCE(_statement->>'institution_name', 'Bank statement'),
+        0, COALESCE(_statement->>'currency', 'USD'),
+        COALESCE((_statement->>'is_business')::boolean, false), 'active', 'statement', now()
+      )
+      RETURNING id INTO v_account_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bank_statement_imports (
+    document_id, user_id, application_id, account_id, status, format, institution_name,
+    account_name, account_mask, currency, period_start, period_end, opening_balance,
+    closing_balance, transaction_count, total_credits, total_debits, integrity_flags,
+    integrity, error, document_info, parsed_by
+  ) VALUES (
+    _document_id, v_document.user_id, v_application_id, v_account_id,
+    CASE WHEN _error IS NULL THEN 'parsed' ELSE 'failed' END,
+    _statement->>'format',
+    _statement->>'institution_name',
+    _statement->>'account_name',
+    _statement->>'account_mask',
+    COALESCE(_statement->>'currency', 'USD'),
+    (_statement->>'period_start')::date,
+    (_statement->>'period_end')::date,
+    (_statement->>'opening_balance')::numeric,
+    (_statement->>'closing_balance')::numeric,
+    COALESCE(jsonb_array_length(_statement->'transactions'), 0),
+    COALESCE((SELECT sum((t->>'amount')::numeric) FROM jsonb_array_elements(_statement->'transactions') t
+      WHERE (t->>'amount')::numeric > 0), 0),
+    COALESCE((SELECT -sum((t->>'amount')::numeric) FROM jsonb_array_elements(_statement->'transactions') t
+      WHERE (t->>'amount')::numeric < 0), 0),
+    v_flags,
+    CASE
+      WHEN _error IS NOT NULL THEN NULL
+      WHEN v_flags @> '[{"severity": "high"}]' THEN 'suspect'
+      WHEN v_flags @> '[{"severity": "medium"}]' THEN 'warning'
+      WHEN v_flags @> '[{"code": "unverifiable"}]' THEN 'unverified'
+      ELSE 'verified'
+    END,
+    _error,
+    _statement->'document_info',
+    _actor
+  )
+  ON CONFLICT (document_id) DO UPDATE SET
+    application_id = EXCLUDED.application_id,
+    account_id = EXCLUDED.account_id,
+    status = EXCLUDED.status,
+    format = EXCLUDED.format,
+    institution_name = EXCLUDED.institution_name,
+    account_name = EXCLUDED.account_name,
+    account_mask = EXCLUDED.account_mask,
+    currency = EXCLUDED.currency,
+    period_start = EXCLUDED.period_start,
+    period_end = EXCLUDED.period_end,
+    opening_balance = EXCLUDED.opening_balance,
+    closing_balance = EXCLUDED.closing_balance,
+    transaction_count = EXCLUDED.transaction_count,
+    total_credits = EXCLUDED.total_credits,
+    total_debits = EXCLUDED.total_debits,
+    integrity_flags = EXCLUDED.integrity_flags,
+    integrity = EXCLUDED.integrity,
+    error = EXCLUDED.error,
+    document_info = EXCLUDED.document_info,
+    parsed_by = EXCLUDED.parsed_by
+  RETURNING * INTO v_import;
+
+  -- Older versions of the same document no longer count either
+  DELETE FROM public.bank_transactions t
+  USING public.bank_statement_imports i, public.borrower_documents d
+  WHERE t.statement_import_id = i.id
+    AND d.id = i.document_id
+    AND COALESCE(d.parent_document_id, d.id) = COALESCE(v_document.parent_document_id, v_document.id);
+
+  IF _error IS NULL THEN
+    -- Consecutive statements can repeat the days they share
+    INSERT INTO public.bank_transactions (
+      account_id, user_id, external_id, posted_on, amount, currency, description, statement_import_id
+    )
+    SELECT
+      v_account_id, v_document.user_id, 'statement:' || v_import.id || ':' || e.ordinality,
+      (e.value->>'posted_on')::date, (e.value->>'amount')::numeric, v_import.currency,
+      e.value->>'description', v_import.id
+    FROM jsonb_array_elements(COALESCE(_statement->'transactions', '[]'::jsonb)) WITH ORDINALITY AS e(value, ordinality)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.bank_transactions o
+      WHERE o.account_id = v_account_id
+        AND o.posted_on = (e.value->>'posted_on')::date
+        AND o.amount = (e.value->>'amount')::numeric
+        AND o.description = e.value->>'description'
+    );
+
+    UPDATE public.bank_accounts acct
+    SET balance = latest.closing_balance, last_synced_at = now(), status = 'active'
+    FROM (
+      SELECT i.closing_balance
+      FROM public.bank_statement_imports i
+      JOIN public.borrower_documents d ON d.id = i.document_id
+      WHERE i.account_id = v_account_id AND i.status = 'parsed' AND i.closing_balance IS NOT NULL
+        AND d.is_latest_version
+      ORDER BY i.period_end DESC NULLS LAST
+      LIMIT 1
+    ) latest
+    WHERE acct.id = v_account_id;
+  END IF;
+
+  PERFORM public.log_audit_event(
+    _actor, 'PARSE_BANK_STATEMENT', 'borrower_document', _document_id, _ip, NULL,
+    jsonb_build_object(
+      'import_id', v_import.id,
+      'user_id', v_document.user_id,
+      'application_id', v_application_id,
+      'status', v_import.status,
+      'integrity', v_import.integrity,
+      'transaction_count', v_import.transaction_count
+    )
+  );
+
+  RETURN v_import;
+END;
+$$;
+
+-- Called by the bank-statements backends with the caller's id
+REVOKE EXECUTE ON FUNCTION public.record_statement_import(UUID, UUID, JSONB, JSONB, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,142 @@
+-- ============================================================
+-- Financial statement spreading
+-- Underwriters spread the borrower's income statements and
+-- balance sheets by fiscal period, keyed in or imported from
+-- QuickBooks and Xero exports, with the derived ratios, global
+-- cash flow and variances from the self-reported figures on the
+-- application. Every save is a new version of the application's
+-- spread; the latest summary lands in loan_details.
+-- ============================================================
+
+CREATE TABLE public.financial_spreads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES public.loan_applications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  version INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('manual', 'import')),
+  -- P&L and balance sheet exports the figures were imported from
+  source_document_ids UUID[] NOT NULL DEFAULT '{}',
+  -- Per period, oldest first: label, period_end, months and line items
+  periods JSONB NOT NULL DEFAULT '[]',
+  ratios JSONB NOT NULL DEFAULT '[]',
+  global_cash_flow JSONB NOT NULL DEFAULT '{}',
+  -- Spread against the application's annual revenue, net income and debt
+  variances JSONB NOT NULL DEFAULT '[]',
+  notes TEXT,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (application_id, version)
+);
+
+ALTER TABLE public.financial_spreads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins view financial spreads"
+  ON public.financial_spreads
+  FOR SELECT
+  TO authenticated
+  USING (public.has_app_role(auth.uid(), 'super_admin'));
+
+CREATE POLICY "Underwriters view assigned financial spreads"
+  ON public.financial_spreads
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_app_role(auth.uid(), 'underwriter')
+    AND public.is_assigned_to_user(auth.uid(), user_id)
+  );
+
+COMMENT ON TABLE public.financial_spreads IS 'Versioned financial statement spreads of loan applications, one row per save';
+
+-- Saves the next version of an application's spread and refreshes its summary
+CREATE OR REPLACE FUNCTION public.record_financial_spread(
+  _application_id UUID,
+  _spread JSONB,
+  _source TEXT,
+  _document_ids UUID[],
+  _notes TEXT,
+  _actor UUID,
+  _ip TEXT
+)
+RETURNS public.financial_spreads
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_spread public.financial_spreads;
+  v_latest_ratios JSONB;
+BEGIN
+  IF NOT public.has_role_or_higher(_actor, 'underwriter') THEN
+    RAISE EXCEPTION 'Unauthorized: underwriter role required to spread financial statements';
+  END IF;
+
+  -- Locked so concurrent saves take consecutive versions
+  SELECT user_id INTO v_user_id FROM public.loan_applications WHERE id = _application_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan application not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(_document_ids, '{}')) AS d(id)
+    WHERE NOT EXISTS (SELECT 1 FROM public.borrower_documents b WHERE b.id = d.id AND b.user_id = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Imported documents must belong to the borrower';
+  END IF;
+
+  INSERT INTO public.financial_spreads (
+    application_id, user_id, version, source, source_document_ids, periods, ratios,
+    global_cash_flow, variances, notes, created_by
+  ) VALUES (
+    _application_id, v_user_id,
+    (SELECT COALESCE(MAX(version), 0) + 1 FROM public.financial_spreads WHERE application_id = _application_id),
+    _source,
+    COALESCE(_document_ids, '{}'),
+    COALESCE(_spread->'periods', '[]'::jsonb),
+    COALESCE(_spread->'ratios', '[]'::jsonb),
+    COALESCE(_spread->'global_cash_flow', '{}'::jsonb),
+    COALESCE(_spread->'variances', '[]'::jsonb),
+    NULLIF(btrim(_notes), ''),
+    _actor
+  )
+  RETURNING * INTO v_spread;
+
+  v_latest_ratios := v_spread.ratios->-1;
+
+  UPDATE public.loan_applications
+  SET loan_details = COALESCE(loan_details, '{}'::jsonb)
+    || jsonb_build_object(
+      'financial_spread', jsonb_build_object(
+        'spread_id', v_spread.id,
+        'version', v_spread.version,
+        'spread_at', v_spread.created_at,
+        'period_end', v_latest_ratios->'period_end',
+        'revenue', v_spread.periods->-1->'lines'->'revenue',
+        'net_income', v_latest_ratios->'net_income',
+        'ebitda', v_latest_ratios->'ebitda',
+        'current_ratio', v_latest_ratios->'current_ratio',
+        'debt_to_equity', v_latest_ratios->'debt_to_equity',
+        'global_dscr', v_spread.global_cash_flow->'global_dscr',
+        'variance_flags', (
+          SELECT count(*) FROM jsonb_array_elements(v_spread.variances) v WHERE v->>'severity' IS NOT NULL
+        )
+      )
+    )
+  WHERE id = _application_id;
+
+  PERFORM public.log_audit_event(
+    _actor, 'FINANCIAL_SPREAD_SAVED', 'loan_application', _application_id, _ip, NULL,
+    jsonb_build_object(
+      'spread_id', v_spread.id,
+      'version', v_spread.version,
+      'source', v_spread.source,
+      'periods', jsonb_array_length(v_spread.periods)
+    )
+  );
+
+  RETURN v_spread;
+END;
+$$;
+
+-- Called by the financial-spreading backends with the caller's id
+REVOKE EXECUTE ON FUNCTION public.record_financial_spread(UUID, JSONB, TEXT, UUID[], TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
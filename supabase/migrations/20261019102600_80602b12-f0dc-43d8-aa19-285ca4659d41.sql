@@ -0,0 +1,11 @@
+-- ============================================================
+-- Assignment routing: restrict the sweep functions
+-- auto_assign_pending_applications() and reassign_stale_assignments()
+-- only check the caller's role when there is a signed-in user, so that
+-- the assignment worker can run them. Keep them away from anonymous
+-- callers; signed-in users are still checked for admin.
+-- ============================================================
+
+REVOKE EXECUTE ON FUNCTION public.auto_assign_pending_applications(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reassign_stale_assignments() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_underwriter_out_of_office(UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
@@ -0,0 +1,117 @@
+-- ============================================================
+-- Application workflow: backend-only entry points
+-- transition_application_status() and get_application_transitions()
+-- take the actor from the backends, and a NULL actor skips the role
+-- check. Without a signed-in user, only trust the actor when the call
+-- comes from a backend: the service role through the API, or a direct
+-- database connection such as the IBM backend's, which carries no JWT.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.is_backend_session()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  -- API requests connect as authenticator and switch to the caller's role
+  SELECT COALESCE(auth.role(), '') = 'service_role' OR session_user <> 'authenticator';
+$$;
+
+CREATE OR REPLACE FUNCTION public.transition_application_status(
+  _application_id UUID,
+  _to_status TEXT,
+  _actor UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_check JSONB;
+  v_app public.loan_applications;
+  v_decision public.application_status_decisions;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot change status on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to change the status';
+  END IF;
+
+  IF NOT public.requires_dual_approval(_application_id, _to_status) THEN
+    RETURN public.apply_application_transition(_application_id, _to_status, _actor, _notes);
+  END IF;
+
+  -- The maker must be allowed the transition before a checker is asked
+  v_check := public.evaluate_application_transition(_application_id, _to_status, _actor);
+  IF (v_check ->> 'allowed')::boolean AND (v_check ->> 'requires_notes')::boolean AND NULLIF(trim(_notes), '') IS NULL THEN
+    v_check := v_check || jsonb_build_object('allowed', false, 'reasons', jsonb_build_array('Notes are required for this action'));
+  END IF;
+  IF (v_check ->> 'allowed')::boolean AND _actor IS NULL THEN
+    v_check := v_check || jsonb_build_object('allowed', false, 'reasons', jsonb_build_array('Dual approval needs an identified requester'));
+  END IF;
+  IF (v_check ->> 'allowed')::boolean AND EXISTS (
+    SELECT 1 FROM public.application_status_decisions
+    WHERE application_id = _application_id AND status = 'pending'
+  ) THEN
+    v_check := v_check || jsonb_build_object('allowed', false, 'reasons', jsonb_build_array('Another decision is already awaiting confirmation'));
+  END IF;
+  IF NOT (v_check ->> 'allowed')::boolean THEN
+    RETURN v_check;
+  END IF;
+
+  SELECT * INTO v_app FROM public.loan_applications WHERE id = _application_id;
+
+  INSERT INTO public.application_status_decisions (application_id, from_status, to_status, amount, notes, requested_by)
+  VALUES (_application_id, v_app.status, _to_status::public.application_status, v_app.amount_requested, NULLIF(trim(_notes), ''), _actor)
+  RETURNING * INTO v_decision;
+
+  PERFORM public.log_audit_event(
+    _actor, 'REQUEST_STATUS_DECISION', 'loan_application', _application_id,
+    NULL, NULL, jsonb_build_object(
+      'decision_id', v_decision.id, 'from_status', v_decision.from_status,
+      'to_status', v_decision.to_status, 'amount', v_decision.amount, 'requested_by', _actor
+    )
+  );
+
+  RETURN v_check || jsonb_build_object('pending_confirmation', true, 'decision', to_jsonb(v_decision));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_application_transitions(_application_id UUID, _actor UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), _actor);
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT public.has_role_or_higher(auth.uid(), 'underwriter')
+     AND NOT EXISTS (SELECT 1 FROM public.loan_applications WHERE id = _application_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Unauthorized: cannot view the workflow of this application';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to view the workflow';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      public.evaluate_application_transition(_application_id, t.to_status::text, v_actor)
+        || jsonb_build_object('requires_confirmation', public.requires_dual_approval(_application_id, t.to_status::text))
+      ORDER BY t.sort_order, t.to_status
+    )
+    FROM public.application_workflow_transitions t
+    JOIN public.loan_applications la ON la.id = _application_id AND la.status = t.from_status
+    WHERE t.is_active
+  ), '[]'::jsonb);
+END;
+$$;
+
+-- Called by the admin-dashboard and loan-application-processor backends with the caller's id
+REVOKE EXECUTE ON FUNCTION public.transition_application_status(UUID, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_application_transitions(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,137 @@
+-- ============================================================
+-- Maker-checker: backend-only decision functions
+-- confirm_status_decision() and decline_status_decision() take the
+-- checker from the backends. Without a signed-in user, only trust the
+-- actor from a backend session (see is_backend_session()), so that a
+-- confirmation cannot be forged in another user's name.
+-- ============================================================
+
+-- Second approver: runs the requested transition as the maker and records both
+CREATE OR REPLACE FUNCTION public.confirm_status_decision(
+  _decision_id UUID,
+  _actor UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_decision public.application_status_decisions;
+  v_app public.loan_applications;
+  v_result JSONB;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot confirm on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to confirm a decision';
+  END IF;
+  IF _actor IS NULL OR NOT public.has_role_or_higher(_actor, 'underwriter') THEN
+    RAISE EXCEPTION 'Unauthorized: underwriter role required to confirm a decision';
+  END IF;
+
+  SELECT * INTO v_decision FROM public.application_status_decisions WHERE id = _decision_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Decision not found';
+  END IF;
+  IF v_decision.status <> 'pending' THEN
+    RAISE EXCEPTION 'The decision is already %', v_decision.status;
+  END IF;
+  IF v_decision.requested_by = _actor THEN
+    RAISE EXCEPTION 'The decision must be confirmed by a different user than the one who requested it';
+  END IF;
+
+  SELECT * INTO v_app FROM public.loan_applications WHERE id = v_decision.application_id;
+  IF v_app.status IS DISTINCT FROM v_decision.from_status THEN
+    RAISE EXCEPTION 'The application has moved to % since the decision was requested', v_app.status;
+  END IF;
+
+  PERFORM set_config('app.status_decision', v_decision.id::text, true);
+  v_result := public.apply_application_transition(
+    v_decision.application_id,
+    v_decision.to_status::text,
+    v_decision.requested_by,
+    concat_ws(E'\n', v_decision.notes, 'Confirmed: ' || NULLIF(trim(_notes), ''))
+  );
+  PERFORM set_config('app.status_decision', '', true);
+
+  IF NOT (v_result ->> 'allowed')::boolean THEN
+    RETURN v_result;
+  END IF;
+
+  UPDATE public.application_status_decisions
+  SET status = 'confirmed', decided_by = _actor, decided_at = now(), decision_notes = NULLIF(trim(_notes), '')
+  WHERE id = _decision_id
+  RETURNING * INTO v_decision;
+
+  PERFORM public.log_audit_event(
+    _actor, 'CONFIRM_STATUS_DECISION', 'loan_application', v_decision.application_id,
+    NULL, NULL, jsonb_build_object(
+      'decision_id', v_decision.id, 'from_status', v_decision.from_status,
+      'to_status', v_decision.to_status, 'amount', v_decision.amount,
+      'requested_by', v_decision.requested_by, 'confirmed_by', _actor
+    )
+  );
+
+  RETURN v_result || jsonb_build_object('decision', to_jsonb(v_decision));
+END;
+$$;
+
+-- A checker declines the decision, or the maker withdraws it
+CREATE OR REPLACE FUNCTION public.decline_status_decision(
+  _decision_id UUID,
+  _actor UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.application_status_decisions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_decision public.application_status_decisions;
+  v_outcome TEXT;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot decline on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to decline a decision';
+  END IF;
+  IF _actor IS NULL OR NOT public.has_role_or_higher(_actor, 'underwriter') THEN
+    RAISE EXCEPTION 'Unauthorized: underwriter role required to decline a decision';
+  END IF;
+
+  SELECT * INTO v_decision FROM public.application_status_decisions WHERE id = _decision_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Decision not found';
+  END IF;
+  IF v_decision.status <> 'pending' THEN
+    RAISE EXCEPTION 'The decision is already %', v_decision.status;
+  END IF;
+
+  v_outcome := CASE WHEN v_decision.requested_by = _actor THEN 'cancelled' ELSE 'declined' END;
+
+  UPDATE public.application_status_decisions
+  SET status = v_outcome, decided_by = _actor, decided_at = now(), decision_notes = NULLIF(trim(_notes), '')
+  WHERE id = _decision_id
+  RETURNING * INTO v_decision;
+
+  PERFORM public.log_audit_event(
+    _actor, CASE v_outcome WHEN 'cancelled' THEN 'CANCEL_STATUS_DECISION' ELSE 'DECLINE_STATUS_DECISION' END,
+    'loan_application', v_decision.application_id,
+    NULL, NULL, jsonb_build_object(
+      'decision_id', v_decision.id, 'to_status', v_decision.to_status, 'amount', v_decision.amount,
+      'requested_by', v_decision.requested_by, 'decided_by', _actor, 'notes', v_decision.decision_notes
+    )
+  );
+
+  RETURN v_decision;
+END;
+$$;
+
+-- Called by the admin-dashboard backends with the caller's id
+REVOKE EXECUTE ON FUNCTION public.confirm_status_decision(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.decline_status_decision(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
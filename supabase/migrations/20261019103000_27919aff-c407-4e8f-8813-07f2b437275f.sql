@@ -0,0 +1,61 @@
+-- ============================================================
+-- Application conditions: submit as an identified borrower
+-- submit_application_condition() only checked ownership when there was
+-- a signed-in user. It now takes the caller's id, which the IBM RPC
+-- proxy fills in, and always checks it against the condition's borrower.
+-- ============================================================
+
+DROP FUNCTION public.submit_application_condition(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.submit_application_condition(
+  _condition_id UUID,
+  _document_id UUID,
+  _actor UUID DEFAULT NULL
+)
+RETURNS public.application_conditions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), _actor);
+  v_condition public.application_conditions;
+  v_document public.borrower_documents;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS NOT NULL AND _actor <> auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot submit on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to submit a condition';
+  END IF;
+
+  SELECT * INTO v_condition FROM public.application_conditions WHERE id = _condition_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Condition not found';
+  END IF;
+  IF v_actor IS DISTINCT FROM v_condition.user_id THEN
+    RAISE EXCEPTION 'Unauthorized: the condition belongs to another borrower';
+  END IF;
+  IF v_condition.status NOT IN ('open', 'submitted') THEN
+    RAISE EXCEPTION 'The condition is already %', v_condition.status;
+  END IF;
+
+  SELECT * INTO v_document FROM public.borrower_documents WHERE id = _document_id;
+  IF NOT FOUND OR v_document.user_id <> v_condition.user_id THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+  IF v_condition.document_category IS NOT NULL AND v_document.document_category <> v_condition.document_category THEN
+    RAISE EXCEPTION 'The condition needs a document from the % folder', v_condition.document_category;
+  END IF;
+
+  UPDATE public.application_conditions
+  SET status = 'submitted', document_id = _document_id, submitted_at = now()
+  WHERE id = _condition_id
+  RETURNING * INTO v_condition;
+
+  RETURN v_condition;
+END;
+$$;
+
+-- Borrowers call it directly; the IBM RPC proxy passes the caller's id
+REVOKE EXECUTE ON FUNCTION public.submit_application_condition(UUID, UUID, UUID) FROM PUBLIC, anon;
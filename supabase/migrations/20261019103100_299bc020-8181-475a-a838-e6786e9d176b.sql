@@ -0,0 +1,96 @@
+-- ============================================================
+-- Underwriting rules: identified activation, frozen rule sets
+-- activate_underwriting_rule_set() only knew the caller through
+-- auth.uid(), which the IBM backend never sets. It now takes the
+-- caller's id, which the IBM RPC proxy fills in. A published rule
+-- set's own score and thresholds are frozen like its rules, and it
+-- cannot go back to draft.
+-- ============================================================
+
+DROP FUNCTION public.activate_underwriting_rule_set(UUID);
+
+-- Activate a draft rule set, retiring the currently active set for the same product
+CREATE OR REPLACE FUNCTION public.activate_underwriting_rule_set(
+  _rule_set_id UUID,
+  _actor UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), _actor);
+  v_loan_type TEXT;
+  v_status TEXT;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS NOT NULL AND _actor <> auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot activate on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to activate underwriting rules';
+  END IF;
+  IF NOT public.has_role_or_higher(v_actor, 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to activate underwriting rules';
+  END IF;
+
+  SELECT loan_type, status INTO v_loan_type, v_status
+  FROM public.underwriting_rule_sets
+  WHERE id = _rule_set_id
+  FOR UPDATE;
+
+  IF v_loan_type IS NULL THEN
+    RAISE EXCEPTION 'Rule set % not found', _rule_set_id;
+  END IF;
+
+  IF v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft rule sets can be activated';
+  END IF;
+
+  UPDATE public.underwriting_rule_sets
+  SET status = 'retired', retired_at = now()
+  WHERE loan_type = v_loan_type AND status = 'active';
+
+  UPDATE public.underwriting_rule_sets
+  SET status = 'active', activated_at = now()
+  WHERE id = _rule_set_id;
+
+  PERFORM public.log_audit_event(
+    v_actor, 'ACTIVATE_UNDERWRITING_RULES', 'underwriting_rule_set', _rule_set_id,
+    NULL, NULL, jsonb_build_object('loan_type', v_loan_type)
+  );
+END;
+$$;
+
+-- Admins call it directly; the IBM RPC proxy passes the caller's id
+REVOKE EXECUTE ON FUNCTION public.activate_underwriting_rule_set(UUID, UUID) FROM PUBLIC, anon;
+
+-- Scoring settings of an active or retired set are immutable
+CREATE OR REPLACE FUNCTION public.prevent_published_rule_set_modification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'A published rule set cannot return to draft. Create a new version instead.';
+  END IF;
+
+  IF (NEW.loan_type, NEW.version, NEW.base_score, NEW.auto_approval_max_score, NEW.manual_review_min_score)
+     IS DISTINCT FROM
+     (OLD.loan_type, OLD.version, OLD.base_score, OLD.auto_approval_max_score, OLD.manual_review_min_score) THEN
+    RAISE EXCEPTION 'Scoring settings of a published rule set cannot be modified. Create a new version instead.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_published_rule_set_modification
+  BEFORE UPDATE ON public.underwriting_rule_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_published_rule_set_modification();
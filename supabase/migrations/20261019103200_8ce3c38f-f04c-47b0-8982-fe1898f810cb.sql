@@ -0,0 +1,62 @@
+-- ============================================================
+-- Underwriting policy: exclusive band bounds
+-- Bands can now set min_exclusive or max_inclusive, so "over $5M"
+-- no longer needs a boundary one cent above $5M, which left
+-- fractions of a cent over $5M in the lower band. A new
+-- version of the active default rule set uses them; nothing
+-- changes if an admin has already edited the rule.
+-- ============================================================
+
+COMMENT ON COLUMN public.underwriting_rules.bands IS
+  'Band rules: [{ "min": 5, "max": null, "points": -15 }]. min is inclusive and max exclusive unless the band sets "min_exclusive" or "max_inclusive" to true.';
+
+DO $$
+DECLARE
+  v_current public.underwriting_rule_sets;
+  v_new_id UUID;
+BEGIN
+  SELECT * INTO v_current
+  FROM public.underwriting_rule_sets
+  WHERE loan_type = 'default' AND status = 'active';
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.underwriting_rules
+    WHERE rule_set_id = v_current.id
+      AND factor_key = 'loan_amount'
+      AND bands = '[{"min":5000000.01,"points":15},{"min":100000,"max":5000000.01,"points":0},{"max":100000,"points":-5}]'::jsonb
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.underwriting_rule_sets (
+    loan_type, version, name, description, status, base_score,
+    auto_approval_max_score, manual_review_min_score
+  )
+  SELECT 'default', MAX(version) + 1, v_current.name,
+    'Scores requested amounts over $5M with an exclusive bound rather than from the next cent.',
+    'draft', v_current.base_score, v_current.auto_approval_max_score, v_current.manual_review_min_score
+  FROM public.underwriting_rule_sets
+  WHERE loan_type = 'default'
+  RETURNING id INTO v_new_id;
+
+  INSERT INTO public.underwriting_rules (
+    rule_set_id, factor_key, label, source_field, rule_type, weight, bands, matches,
+    knockout_operator, knockout_value, reason, sort_order
+  )
+  SELECT v_new_id, factor_key, label, source_field, rule_type, weight,
+    CASE WHEN factor_key = 'loan_amount'
+      THEN '[{"min":5000000,"min_exclusive":true,"points":15},{"min":100000,"max":5000000,"max_inclusive":true,"points":0},{"max":100000,"points":-5}]'::jsonb
+      ELSE bands
+    END,
+    matches, knockout_operator, knockout_value, reason, sort_order
+  FROM public.underwriting_rules
+  WHERE rule_set_id = v_current.id;
+
+  UPDATE public.underwriting_rule_sets
+  SET status = 'retired', retired_at = now()
+  WHERE id = v_current.id;
+
+  UPDATE public.underwriting_rule_sets
+  SET status = 'active', activated_at = now()
+  WHERE id = v_new_id;
+END;
+$$;
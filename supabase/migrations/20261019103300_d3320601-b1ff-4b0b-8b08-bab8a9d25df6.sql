@@ -0,0 +1,38 @@
+-- ============================================================
+-- Assignment routing: identified single-application assignment
+-- auto_assign_application() only knew the caller through
+-- auth.uid(), which the IBM backend never sets. It now takes the
+-- caller's id, which the IBM RPC proxy fills in.
+-- ============================================================
+
+DROP FUNCTION public.auto_assign_application(UUID, TEXT);
+
+-- Admin entry point for a single application
+CREATE OR REPLACE FUNCTION public.auto_assign_application(
+  _application_id UUID,
+  _strategy TEXT DEFAULT NULL,
+  _actor UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), _actor);
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS NOT NULL AND _actor <> auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot assign on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to assign applications';
+  END IF;
+  IF NOT public.has_role_or_higher(v_actor, 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to assign applications';
+  END IF;
+  RETURN public.assign_application_automatically(_application_id, _strategy, v_actor);
+END;
+$$;
+
+-- Admins call it directly; the IBM RPC proxy passes the caller's id
+REVOKE EXECUTE ON FUNCTION public.auto_assign_application(UUID, TEXT, UUID) FROM PUBLIC, anon;
@@ -0,0 +1,94 @@
+-- ============================================================
+-- Loan payments: backend-only scheduling and late fees
+-- generate_loan_payment_schedule() and assess_late_loan_payments()
+-- only checked the caller's role when there was a signed-in user, and
+-- schedule_loan_installments() and reapply_loan_payments() checked
+-- nothing. The helpers are now internal. The admin entry points take
+-- the caller's id from the admin-dashboard backends and require an
+-- admin.
+-- ============================================================
+
+DROP FUNCTION public.generate_loan_payment_schedule(UUID, INTEGER);
+DROP FUNCTION public.assess_late_loan_payments(INTEGER, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.generate_loan_payment_schedule(
+  _loan_id UUID DEFAULT NULL,
+  _months INTEGER DEFAULT 12,
+  _actor UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot schedule loan payments on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to schedule loan payments';
+  END IF;
+  IF NOT public.has_role_or_higher(_actor, 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to schedule loan payments';
+  END IF;
+
+  RETURN public.schedule_loan_installments(_loan_id, _months);
+END;
+$$;
+
+-- Charge a late fee on each installment still open after the grace period
+CREATE OR REPLACE FUNCTION public.assess_late_loan_payments(
+  _grace_days INTEGER DEFAULT 10,
+  _fee_percent NUMERIC DEFAULT 5,
+  _actor UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot assess late fees on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to assess late fees';
+  END IF;
+  IF NOT public.has_role_or_higher(_actor, 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to assess late fees';
+  END IF;
+
+  INSERT INTO public.loan_payments (
+    loan_id, user_id, entry_type, status, amount, due_date, effective_date, related_payment_id, source, notes
+  )
+  SELECT s.loan_id, s.user_id, 'late', 'pending', ROUND(s.amount * _fee_percent / 100, 2),
+         CURRENT_DATE, CURRENT_DATE, s.id, 'system',
+         'Installment ' || s.installment_number || ' due ' || s.due_date || ' unpaid after ' || _grace_days || ' days'
+  FROM public.loan_payments s
+  WHERE s.entry_type = 'scheduled'
+    AND s.status IN ('pending', 'partial')
+    AND s.due_date + _grace_days < CURRENT_DATE
+  ON CONFLICT (related_payment_id) WHERE entry_type = 'late' DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+
+  IF v_created > 0 THEN
+    PERFORM public.log_audit_event(
+      _actor, 'ASSESS_LATE_FEES', 'loan_payment', NULL,
+      NULL, NULL, jsonb_build_object('late_fees', v_created, 'grace_days', _grace_days, 'fee_percent', _fee_percent)
+    );
+  END IF;
+
+  RETURN v_created;
+END;
+$$;
+
+-- Internal helpers of the payment functions and the new-loan trigger
+REVOKE EXECUTE ON FUNCTION public.schedule_loan_installments(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reapply_loan_payments(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Called by the admin-dashboard backends with the caller's id
+REVOKE EXECUTE ON FUNCTION public.generate_loan_payment_schedule(UUID, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.assess_late_loan_payments(INTEGER, NUMERIC, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,236 @@
+-- ============================================================
+-- Loan payments: identified posting, reversal and delinquency
+-- record_loan_payment(), reverse_loan_payment() and
+-- get_loan_delinquency_summary() only knew the caller through
+-- auth.uid(), which the IBM backend never sets. They now take the
+-- caller's id, which the IBM RPC proxy fills in.
+-- ============================================================
+
+DROP FUNCTION public.record_loan_payment(UUID, NUMERIC, DATE, TEXT, TEXT, TEXT, UUID);
+DROP FUNCTION public.reverse_loan_payment(UUID, TEXT);
+DROP FUNCTION public.get_loan_delinquency_summary();
+
+-- Post a received payment: late fees first, then interest, then principal
+CREATE OR REPLACE FUNCTION public.record_loan_payment(
+  _loan_id UUID,
+  _amount NUMERIC,
+  _payment_date DATE DEFAULT CURRENT_DATE,
+  _reference TEXT DEFAULT NULL,
+  _source TEXT DEFAULT 'manual',
+  _notes TEXT DEFAULT NULL,
+  _import_batch_id UUID DEFAULT NULL,
+  _actor UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), _actor);
+  v_loan public.existing_loans%ROWTYPE;
+  v_fees_due NUMERIC;
+  v_fee NUMERIC;
+  v_interest NUMERIC;
+  v_principal NUMERIC;
+  v_balance NUMERIC;
+  v_payment_id UUID;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS NOT NULL AND _actor <> auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot record payments on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to record loan payments';
+  END IF;
+  IF NOT public.has_role_or_higher(v_actor, 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to record loan payments';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.existing_loans WHERE id = _loan_id FOR UPDATE;
+  IF v_loan.id IS NULL THEN
+    RAISE EXCEPTION 'Loan % not found', _loan_id;
+  END IF;
+
+  IF _reference IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.loan_payments
+    WHERE loan_id = _loan_id AND entry_type = 'received' AND reference = _reference
+  ) THEN
+    RAISE EXCEPTION 'Duplicate payment reference % for this loan', _reference;
+  END IF;
+
+  SELECT COALESCE(SUM(amount - amount_applied), 0) INTO v_fees_due
+  FROM public.loan_payments
+  WHERE loan_id = _loan_id AND entry_type = 'late' AND status IN ('pending', 'partial');
+
+  v_fee := LEAST(_amount, v_fees_due);
+  v_interest := LEAST(_amount - v_fee, ROUND(v_loan.loan_balance * v_loan.interest_rate / 1200, 2));
+  v_principal := LEAST(_amount - v_fee - v_interest, v_loan.loan_balance);
+  v_balance := v_loan.loan_balance - v_principal;
+
+  INSERT INTO public.loan_payments (
+    loan_id, user_id, entry_type, status, amount, principal_amount, interest_amount, fee_amount,
+    effective_date, reference, source, import_batch_id, notes, recorded_by, balance_after
+  ) VALUES (
+    _loan_id, v_loan.user_id, 'received', 'posted', _amount, v_principal, v_interest, v_fee,
+    COALESCE(_payment_date, CURRENT_DATE), NULLIF(TRIM(_reference), ''), COALESCE(_source, 'manual'),
+    _import_batch_id, _notes, v_actor, v_balance
+  )
+  RETURNING id INTO v_payment_id;
+
+  UPDATE public.existing_loans
+  SET loan_balance = v_balance,
+      remaining_months = LEAST(
+        COALESCE(public.loan_remaining_months(v_balance, interest_rate, monthly_payment), remaining_months),
+        term_months
+      )
+  WHERE id = _loan_id;
+
+  PERFORM public.reapply_loan_payments(_loan_id);
+
+  PERFORM public.log_audit_event(
+    v_actor, 'RECORD_LOAN_PAYMENT', 'loan_payment', v_payment_id,
+    NULL, NULL, jsonb_build_object('loan_id', _loan_id, 'amount', _amount, 'source', _source, 'reference', _reference)
+  );
+
+  RETURN v_payment_id;
+END;
+$$;
+
+-- Reverse a posted payment (returned check, NSF, keying error) and restore the balance
+CREATE OR REPLACE FUNCTION public.reverse_loan_payment(
+  _payment_id UUID,
+  _reason TEXT DEFAULT NULL,
+  _actor UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), _actor);
+  v_payment public.loan_payments%ROWTYPE;
+  v_balance NUMERIC;
+  v_reversal_id UUID;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS NOT NULL AND _actor <> auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot reverse payments on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to reverse loan payments';
+  END IF;
+  IF NOT public.has_role_or_higher(v_actor, 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to reverse loan payments';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.loan_payments WHERE id = _payment_id FOR UPDATE;
+  IF v_payment.id IS NULL OR v_payment.entry_type <> 'received' THEN
+    RAISE EXCEPTION 'Payment % not found', _payment_id;
+  END IF;
+  IF v_payment.status = 'reversed' THEN
+    RAISE EXCEPTION 'Payment % has already been reversed', _payment_id;
+  END IF;
+
+  PERFORM 1 FROM public.existing_loans WHERE id = v_payment.loan_id FOR UPDATE;
+
+  UPDATE public.loan_payments SET status = 'reversed' WHERE id = _payment_id;
+
+  UPDATE public.existing_loans
+  SET loan_balance = loan_balance + v_payment.principal_amount,
+      remaining_months = LEAST(
+        COALESCE(public.loan_remaining_months(loan_balance + v_payment.principal_amount, interest_rate, monthly_payment), remaining_months),
+        term_months
+      )
+  WHERE id = v_payment.loan_id
+  RETURNING loan_balance INTO v_balance;
+
+  INSERT INTO public.loan_payments (
+    loan_id, user_id, entry_type, status, amount, principal_amount, interest_amount, fee_amount,
+    effective_date, related_payment_id, source, notes, recorded_by, balance_after
+  ) VALUES (
+    v_payment.loan_id, v_payment.user_id, 'reversed', 'posted', v_payment.amount, v_payment.principal_amount,
+    v_payment.interest_amount, v_payment.fee_amount, CURRENT_DATE, _payment_id, 'manual', _reason, v_actor, v_balance
+  )
+  RETURNING id INTO v_reversal_id;
+
+  PERFORM public.reapply_loan_payments(v_payment.loan_id);
+
+  PERFORM public.log_audit_event(
+    v_actor, 'REVERSE_LOAN_PAYMENT', 'loan_payment', _payment_id,
+    NULL, NULL, jsonb_build_object('loan_id', v_payment.loan_id, 'amount', v_payment.amount, 'reason', _reason)
+  );
+
+  RETURN v_reversal_id;
+END;
+$$;
+
+-- One row per loan with a balance: amount and age of what is past due
+CREATE OR REPLACE FUNCTION public.get_loan_delinquency_summary(_actor UUID DEFAULT NULL)
+RETURNS TABLE (
+  loan_id UUID,
+  user_id UUID,
+  loan_name TEXT,
+  loan_balance NUMERIC,
+  monthly_payment NUMERIC,
+  next_due_date DATE,
+  oldest_past_due_date DATE,
+  days_past_due INTEGER,
+  past_due_amount NUMERIC,
+  late_fees_due NUMERIC,
+  installments_past_due INTEGER,
+  bucket TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS NOT NULL AND _actor <> auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot view delinquency on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to view delinquency';
+  END IF;
+  IF NOT public.has_role_or_higher(COALESCE(auth.uid(), _actor), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to view delinquency';
+  END IF;
+
+  RETURN QUERY
+  WITH open_entries AS (
+    SELECT p.loan_id,
+           MIN(p.due_date) FILTER (WHERE p.entry_type = 'scheduled' AND p.due_date < CURRENT_DATE) AS oldest_due,
+           MIN(p.due_date) FILTER (WHERE p.entry_type = 'scheduled' AND p.due_date >= CURRENT_DATE) AS next_due,
+           COALESCE(SUM(p.amount - p.amount_applied) FILTER (WHERE p.entry_type = 'scheduled' AND p.due_date < CURRENT_DATE), 0) AS past_due,
+           COALESCE(SUM(p.amount - p.amount_applied) FILTER (WHERE p.entry_type = 'late'), 0) AS fees,
+           COUNT(*) FILTER (WHERE p.entry_type = 'scheduled' AND p.due_date < CURRENT_DATE)::INTEGER AS late_count
+    FROM public.loan_payments p
+    WHERE p.entry_type IN ('scheduled', 'late') AND p.status IN ('pending', 'partial')
+    GROUP BY p.loan_id
+  )
+  SELECT l.id, l.user_id, l.loan_name, l.loan_balance, l.monthly_payment,
+         o.next_due, o.oldest_due,
+         COALESCE(CURRENT_DATE - o.oldest_due, 0)::INTEGER,
+         COALESCE(o.past_due, 0), COALESCE(o.fees, 0), COALESCE(o.late_count, 0),
+         CASE
+           WHEN o.oldest_due IS NULL THEN 'current'
+           WHEN CURRENT_DATE - o.oldest_due < 30 THEN '1-29'
+           WHEN CURRENT_DATE - o.oldest_due < 60 THEN '30-59'
+           WHEN CURRENT_DATE - o.oldest_due < 90 THEN '60-89'
+           ELSE '90+'
+         END
+  FROM public.existing_loans l
+  LEFT JOIN open_entries o ON o.loan_id = l.id
+  WHERE l.loan_balance > 0
+  ORDER BY COALESCE(CURRENT_DATE - o.oldest_due, 0) DESC, l.loan_name;
+END;
+$$;
+
+-- Admins call them directly; the IBM RPC proxy passes the caller's id
+REVOKE EXECUTE ON FUNCTION public.record_loan_payment(UUID, NUMERIC, DATE, TEXT, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reverse_loan_payment(UUID, TEXT, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_loan_delinquency_summary(UUID) FROM PUBLIC, anon;
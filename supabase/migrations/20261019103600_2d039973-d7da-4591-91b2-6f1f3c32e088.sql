@@ -0,0 +1,232 @@
+-- ============================================================
+-- Admin application index: identified callers only
+-- search_loan_applications() and get_application_stats() only
+-- checked the caller's role when there was a signed-in user. They now
+-- take the caller's id, which the IBM admin-dashboard route passes,
+-- and always require an admin.
+-- ============================================================
+
+DROP FUNCTION public.search_loan_applications(TEXT, TEXT[], TEXT[], TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, NUMERIC, NUMERIC, JSONB, TEXT, INTEGER);
+DROP FUNCTION public.get_application_stats();
+
+-- Returns { applications, total, next_cursor }. _sort is an array of up to
+-- three { column, direction } objects; the id is always appended as a tie
+-- breaker. _cursor is the next_cursor of the previous page and is only
+-- valid with the same sort.
+CREATE OR REPLACE FUNCTION public.search_loan_applications(
+  _search TEXT DEFAULT NULL,
+  _statuses TEXT[] DEFAULT NULL,
+  _loan_types TEXT[] DEFAULT NULL,
+  _date_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _date_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _amount_min NUMERIC DEFAULT NULL,
+  _amount_max NUMERIC DEFAULT NULL,
+  _sort JSONB DEFAULT NULL,
+  _cursor TEXT DEFAULT NULL,
+  _limit INTEGER DEFAULT 25,
+  _actor UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(_limit, 25), 1), 100);
+  v_sort JSONB := COALESCE(NULLIF(_sort, '[]'::jsonb), '[{"column": "created_at", "direction": "desc"}]'::jsonb);
+  v_query tsquery;
+  v_item JSONB;
+  v_expr TEXT;
+  v_type TEXT;
+  v_dir TEXT;
+  v_keys TEXT[] := '{}';
+  v_types TEXT[] := '{}';
+  v_dirs TEXT[] := '{}';
+  v_cursor JSONB;
+  v_seek TEXT[] := '{}';
+  v_equal TEXT := '';
+  v_where TEXT;
+  v_total BIGINT;
+  v_rows JSONB;
+  v_next TEXT;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS NOT NULL AND _actor <> auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot search applications on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to search applications';
+  END IF;
+  IF NOT public.has_role_or_higher(COALESCE(auth.uid(), _actor), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to search applications';
+  END IF;
+
+  -- Every word is prefix matched so partial names and application numbers find results
+  SELECT to_tsquery('simple'::regconfig, string_agg(w || ':*', ' & '))
+  INTO v_query
+  FROM (
+    SELECT trim(BOTH '-' FROM w) AS w
+    FROM regexp_split_to_table(lower(regexp_replace(COALESCE(_search, ''), '[^[:alnum:][:space:]-]', ' ', 'g')), '\s+') AS w
+  ) words
+  WHERE w ~ '^[[:alnum:]]';
+  IF v_query IS NOT NULL AND numnode(v_query) = 0 THEN
+    v_query := NULL;
+  END IF;
+
+  IF jsonb_typeof(v_sort) <> 'array' OR jsonb_array_length(v_sort) > 3 THEN
+    RAISE EXCEPTION 'Sort must be an array of at most three columns';
+  END IF;
+
+  -- Sort keys are never NULL so the cursor comparison below holds
+  FOR v_item IN SELECT value FROM jsonb_array_elements(v_sort) LOOP
+    SELECT s.expr, s.type INTO v_expr, v_type
+    FROM (VALUES
+      ('created_at', 'la.created_at', 'timestamptz'),
+      ('updated_at', 'la.updated_at', 'timestamptz'),
+      ('amount_requested', 'COALESCE(la.amount_requested, 0)', 'numeric'),
+      ('application_number', 'COALESCE(la.application_number, '''')', 'text'),
+      ('business_name', 'lower(COALESCE(la.business_name, ''''))', 'text'),
+      ('last_name', 'lower(COALESCE(la.last_name, ''''))', 'text'),
+      ('status', 'la.status::text', 'text'),
+      ('loan_type', 'la.loan_type', 'text')
+    ) AS s(col, expr, type)
+    WHERE s.col = v_item ->> 'column';
+    v_dir := CASE lower(COALESCE(v_item ->> 'direction', 'asc')) WHEN 'asc' THEN 'ASC' WHEN 'desc' THEN 'DESC' END;
+    IF v_expr IS NULL OR v_dir IS NULL THEN
+      RAISE EXCEPTION 'Cannot sort applications by %', v_item;
+    END IF;
+    v_keys := v_keys || v_expr;
+    v_types := v_types || v_type;
+    v_dirs := v_dirs || v_dir;
+  END LOOP;
+  v_keys := v_keys || 'la.id'::text;
+  v_types := v_types || 'uuid'::text;
+  v_dirs := v_dirs || 'ASC'::text;
+
+  v_where := '($1 IS NULL OR public.loan_application_search_vector(la.first_name, la.last_name, la.business_name, la.application_number) @@ $1)
+    AND ($2 IS NULL OR la.status::text = ANY ($2))
+    AND ($3 IS NULL OR la.loan_type = ANY ($3))
+    AND ($4 IS NULL OR la.created_at >= $4)
+    AND ($5 IS NULL OR la.created_at <= $5)
+    AND ($6 IS NULL OR la.amount_requested >= $6)
+    AND ($7 IS NULL OR la.amount_requested <= $7)';
+
+  EXECUTE 'SELECT COUNT(*) FROM public.loan_applications la WHERE ' || v_where
+  INTO v_total
+  USING v_query, NULLIF(_statuses, '{}'), NULLIF(_loan_types, '{}'), _date_from, _date_to, _amount_min, _amount_max;
+
+  -- Rows after the cursor: (k1 > c1) OR (k1 = c1 AND k2 > c2) OR ...
+  IF NULLIF(_cursor, '') IS NOT NULL THEN
+    BEGIN
+      v_cursor := convert_from(decode(_cursor, 'base64'), 'UTF8')::jsonb;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Invalid cursor';
+    END;
+    IF jsonb_typeof(v_cursor) <> 'array' OR jsonb_array_length(v_cursor) <> cardinality(v_keys) THEN
+      RAISE EXCEPTION 'Invalid cursor';
+    END IF;
+    FOR i IN 1 .. cardinality(v_keys) LOOP
+      v_seek := v_seek || format('(%s%s %s %L::%s)', v_equal, v_keys[i], CASE v_dirs[i] WHEN 'ASC' THEN '>' ELSE '<' END, v_cursor ->> (i - 1), v_types[i]);
+      v_equal := v_equal || format('%s = %L::%s AND ', v_keys[i], v_cursor ->> (i - 1), v_types[i]);
+    END LOOP;
+    v_where := v_where || ' AND (' || array_to_string(v_seek, ' OR ') || ')';
+  END IF;
+
+  EXECUTE format(
+    $q$
+    SELECT COALESCE(jsonb_agg(page.item ORDER BY page.n), '[]'::jsonb)
+    FROM (
+      SELECT
+        row_number() OVER (ORDER BY %1$s) AS n,
+        jsonb_build_object(
+          'id', la.id,
+          'user_id', la.user_id,
+          'application_number', la.application_number,
+          'first_name', COALESCE(p.first_name, la.first_name),
+          'last_name', COALESCE(p.last_name, la.last_name),
+          'business_name', la.business_name,
+          'loan_type', la.loan_type,
+          'amount_requested', la.amount_requested,
+          'status', la.status,
+          'years_in_business', la.years_in_business,
+          'application_submitted_date', la.application_submitted_date,
+          'created_at', la.created_at,
+          'updated_at', la.updated_at,
+          '_cursor', jsonb_build_array(%2$s)
+        ) AS item
+      FROM public.loan_applications la
+      LEFT JOIN public.profiles p ON p.id = la.user_id
+      WHERE %3$s
+      ORDER BY %1$s
+      LIMIT %4$s
+    ) page
+    $q$,
+    (SELECT string_agg(k || ' ' || d, ', ' ORDER BY n) FROM unnest(v_keys, v_dirs) WITH ORDINALITY AS o(k, d, n)),
+    array_to_string(v_keys, ', '),
+    v_where,
+    v_limit + 1
+  )
+  INTO v_rows
+  USING v_query, NULLIF(_statuses, '{}'), NULLIF(_loan_types, '{}'), _date_from, _date_to, _amount_min, _amount_max;
+
+  -- One extra row was fetched to know whether another page exists
+  IF jsonb_array_length(v_rows) > v_limit THEN
+    v_rows := v_rows - v_limit;
+    v_next := replace(encode(convert_to((v_rows -> (v_limit - 1) -> '_cursor')::text, 'UTF8'), 'base64'), E'\n', '');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(t.item - '_cursor' ORDER BY t.n), '[]'::jsonb)
+  INTO v_rows
+  FROM jsonb_array_elements(v_rows) WITH ORDINALITY AS t(item, n);
+
+  RETURN jsonb_build_object('applications', v_rows, 'total', v_total, 'next_cursor', v_next);
+END;
+$$;
+
+-- Dashboard counters computed in the database instead of from every row
+CREATE OR REPLACE FUNCTION public.get_application_stats(_actor UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stats JSONB;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _actor IS NOT NULL AND _actor <> auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: cannot view application statistics on behalf of another user';
+  END IF;
+  IF auth.uid() IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Unauthorized: sign in to view application statistics';
+  END IF;
+  IF NOT public.has_role_or_higher(COALESCE(auth.uid(), _actor), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: admin role required to view application statistics';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'total', COUNT(*),
+    'byStatus', COALESCE((
+      SELECT jsonb_object_agg(status, n)
+      FROM (SELECT status::text AS status, COUNT(*) AS n FROM public.loan_applications GROUP BY status) s
+    ), '{}'::jsonb),
+    'byLoanType', COALESCE((
+      SELECT jsonb_object_agg(loan_type, n)
+      FROM (SELECT loan_type, COUNT(*) AS n FROM public.loan_applications GROUP BY loan_type) t
+    ), '{}'::jsonb),
+    'totalAmount', COALESCE(SUM(amount_requested), 0),
+    'averageAmount', CASE WHEN COUNT(*) > 0 THEN COALESCE(SUM(amount_requested), 0) / COUNT(*) ELSE 0 END,
+    'thisMonth', COUNT(*) FILTER (WHERE created_at >= date_trunc('month', now())),
+    -- Weeks start on Sunday, as on the dashboard
+    'thisWeek', COUNT(*) FILTER (WHERE created_at >= CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::integer)
+  )
+  INTO v_stats
+  FROM public.loan_applications;
+
+  RETURN v_stats;
+END;
+$$;
+
+-- Called by the admin-dashboard backends: with the admin's session, or with the caller's id on IBM
+REVOKE EXECUTE ON FUNCTION public.search_loan_applications(TEXT, TEXT[], TEXT[], TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, NUMERIC, NUMERIC, JSONB, TEXT, INTEGER, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_application_stats(UUID) FROM PUBLIC, anon;
@@ -0,0 +1,63 @@
+-- ============================================================
+-- Application workflow: no anonymous status changes
+-- The workflow trigger skipped the role check when it could not tell
+-- who was writing, and did not look at inserts at all, so a borrower
+-- writing through a backend could approve their own application or
+-- create one already approved. The backends now record the caller in
+-- app.workflow_actor. Without an actor, only a backend session may
+-- change the status, and an identified caller's new application
+-- starts as draft, paused or submitted.
+-- ============================================================
+
+-- Direct updates cannot skip the checker either: a status that needs dual
+-- approval only changes while a confirmed decision is being applied
+CREATE OR REPLACE FUNCTION public.enforce_application_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), NULLIF(current_setting('app.workflow_actor', true), '')::uuid);
+  v_check JSONB;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_actor IS NULL AND NOT public.is_backend_session() THEN
+    RAISE EXCEPTION 'Status change not allowed: sign in to change the status'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF v_actor IS NOT NULL AND NEW.status::text NOT IN ('draft', 'paused', 'submitted') THEN
+      RAISE EXCEPTION 'Status change not allowed: a new application starts as draft, paused or submitted'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  v_check := public.evaluate_application_transition(NEW.id, NEW.status::text, v_actor);
+  IF NOT (v_check ->> 'allowed')::boolean THEN
+    RAISE EXCEPTION 'Status change not allowed: %',
+      (SELECT string_agg(r, '; ') FROM jsonb_array_elements_text(v_check -> 'reasons') AS r)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF public.requires_dual_approval(NEW.id, NEW.status::text)
+    AND COALESCE(current_setting('app.status_decision', true), '') = '' THEN
+    RAISE EXCEPTION 'Status change not allowed: % needs confirmation by a second approver', NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER enforce_application_workflow ON public.loan_applications;
+
+CREATE TRIGGER enforce_application_workflow
+  BEFORE INSERT OR UPDATE OF status ON public.loan_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_application_workflow();